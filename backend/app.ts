@@ -61,6 +61,26 @@ app.use("/api/v1/auth/register", authLimiter);
 // CORS
 app.use(cors(corsOptions as any));
 
+// Stripe signs the exact bytes it sent, and its events are larger than the
+// global limit, so the webhook keeps the raw body and skips the JSON parser
+app.use(
+  "/api/v1/payments/stripe/webhook",
+  express.raw({ type: "application/json", limit: "1mb" }),
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (Buffer.isBuffer(req.body)) {
+      req.rawBody = req.body;
+      req.body = {};
+    }
+    next();
+  },
+);
+
+// Bulk variant edits send up to 500 rows, well past the global limit
+app.patch(
+  "/api/v1/admin/products/:id/variants",
+  express.json({ limit: "256kb" }),
+);
+
 // Body parser
 app.use(express.json({ limit: "10kb" })); // Limit body size
 app.use(express.urlencoded({ extended: true, limit: "10kb" }));
@@ -84,6 +84,21 @@ const chatStorage = new CloudinaryStorage({
   } as any,
 });
 
+/**
+ * Storage configuration for return/exchange photos
+ */
+const returnStorage = new CloudinaryStorage({
+  cloudinary,
+  params: {
+    folder: "bivanhandicraft/returns",
+    allowed_formats: ["jpg", "jpeg", "png", "webp"],
+    transformation: [
+      { width: 1200, height: 1200, crop: "limit" },
+      { quality: "auto", fetch_format: "auto" },
+    ],
+  } as any,
+});
+
 // Multer upload instances
 const uploadProductImages = multer({
   storage: productStorage,
@@ -118,6 +133,17 @@ const uploadChatImage = multer({
   },
 });
 
+const uploadReturnPhotos = multer({
+  storage: returnStorage,
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: (req: any, file: any, cb: any) => {
+    if (!file.mimetype.startsWith("image/")) {
+      return cb(new Error("Only image files are allowed"), false);
+    }
+    cb(null, true);
+  },
+});
+
 /**
  * Delete image from Cloudinary by public ID
  * @param publicId - The public ID of the image
@@ -162,6 +188,7 @@ export {
   uploadAvatar,
   uploadCategoryImage,
   uploadChatImage,
+  uploadReturnPhotos,
   deleteImage,
   getOptimizedUrl,
 };
@@ -30,8 +30,8 @@ const corsOptions: CorsOptions = {
     },
     credentials: true, // Allow cookies and authorization headers
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    exposedHeaders: ['X-Total-Count', 'X-Total-Pages'], // For pagination
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+    exposedHeaders: ['X-Total-Count', 'X-Total-Pages', 'Idempotent-Replayed'],
     maxAge: 86400, // Cache preflight for 24 hours
 };
 
@@ -0,0 +1,113 @@
+/**
+ * Address Controller
+ * Handles HTTP requests for the customer's saved addresses
+ */
+import { Request, Response } from "express";
+import * as addressService from "../services/addressService";
+import asyncHandler from "../utils/asyncHandler";
+
+/**
+ * @desc    Get saved addresses
+ * @route   GET /api/v1/auth/me/addresses
+ * @access  Private
+ */
+const getAddresses = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const addresses = await addressService.getAddresses((req.user as any)._id);
+
+    res.status(200).json({
+      status: "success",
+      results: addresses.length,
+      data: { addresses },
+    });
+  }
+});
+
+/**
+ * @desc    Add address
+ * @route   POST /api/v1/auth/me/addresses
+ * @access  Private
+ */
+const addAddress = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const addresses = await addressService.addAddress(
+      (req.user as any)._id,
+      req.body,
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "Address saved successfully",
+      data: { addresses },
+    });
+  }
+});
+
+/**
+ * @desc    Update address
+ * @route   PUT /api/v1/auth/me/addresses/:addressId
+ * @access  Private
+ */
+const updateAddress = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const addresses = await addressService.updateAddress(
+      (req.user as any)._id,
+      req.params.addressId as string,
+      req.body,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Address updated successfully",
+      data: { addresses },
+    });
+  }
+});
+
+/**
+ * @desc    Delete address
+ * @route   DELETE /api/v1/auth/me/addresses/:addressId
+ * @access  Private
+ */
+const deleteAddress = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const addresses = await addressService.deleteAddress(
+      (req.user as any)._id,
+      req.params.addressId as string,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Address deleted successfully",
+      data: { addresses },
+    });
+  }
+});
+
+/**
+ * @desc    Set default address
+ * @route   PATCH /api/v1/auth/me/addresses/:addressId/default
+ * @access  Private
+ */
+const setDefaultAddress = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const addresses = await addressService.setDefaultAddress(
+      (req.user as any)._id,
+      req.params.addressId as string,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Default address updated",
+      data: { addresses },
+    });
+  }
+});
+
+export {
+  getAddresses,
+  addAddress,
+  updateAddress,
+  deleteAddress,
+  setDefaultAddress,
+};
@@ -0,0 +1,103 @@
+/**
+ * Attribute Controller
+ * Handles HTTP requests for variant attribute management (Admin)
+ */
+import { Request, Response } from "express";
+import * as attributeService from "../services/attributeService";
+import asyncHandler from "../utils/asyncHandler";
+
+/**
+ * @desc    Get all attributes
+ * @route   GET /api/v1/admin/attributes
+ * @access  Private/Admin
+ */
+const getAttributes = asyncHandler(async (req: Request, res: Response) => {
+  const attributes = await attributeService.getAttributes();
+
+  res.status(200).json({
+    status: "success",
+    results: attributes.length,
+    data: { attributes },
+  });
+});
+
+/**
+ * @desc    Create attribute
+ * @route   POST /api/v1/admin/attributes
+ * @access  Private/Admin
+ */
+const createAttribute = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const attribute = await attributeService.createAttribute(
+      req.body,
+      (req.user as any)._id,
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "Attribute created successfully",
+      data: { attribute },
+    });
+  }
+});
+
+/**
+ * @desc    Update attribute
+ * @route   PUT /api/v1/admin/attributes/:id
+ * @access  Private/Admin
+ */
+const updateAttribute = asyncHandler(async (req: Request, res: Response) => {
+  const attribute = await attributeService.updateAttribute(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Attribute updated successfully",
+    data: { attribute },
+  });
+});
+
+/**
+ * @desc    Delete attribute
+ * @route   DELETE /api/v1/admin/attributes/:id
+ * @access  Private/Admin
+ */
+const deleteAttribute = asyncHandler(async (req: Request, res: Response) => {
+  const result = await attributeService.deleteAttribute(
+    req.params.id as string,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: result.message,
+  });
+});
+
+/**
+ * @desc    Attributes a category's variants carry, including inherited ones
+ * @route   GET /api/v1/admin/categories/:id/attributes
+ * @access  Private/Admin
+ */
+const getCategoryAttributes = asyncHandler(
+  async (req: Request, res: Response) => {
+    const attributes = await attributeService.getCategoryAttributes(
+      req.params.id as string,
+    );
+
+    res.status(200).json({
+      status: "success",
+      results: attributes.length,
+      data: { attributes },
+    });
+  },
+);
+
+export {
+  getAttributes,
+  createAttribute,
+  updateAttribute,
+  deleteAttribute,
+  getCategoryAttributes,
+};
@@ -104,4 +104,47 @@ const clearCart = asyncHandler(async (req: Request, res: Response) => {
   }
 });
 
-export { getCart, addToCart, updateCartItem, removeFromCart, clearCart };
+/**
+ * @desc    Apply coupon code to cart
+ * @route   POST /api/v1/cart/coupon
+ * @access  Private
+ */
+const applyCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const { code } = req.body;
+  if (req.user) {
+    const cart = await cartService.applyCoupon((req.user as any)._id, code);
+
+    res.status(200).json({
+      status: "success",
+      message: "Coupon applied",
+      data: { cart },
+    });
+  }
+});
+
+/**
+ * @desc    Remove coupon code from cart
+ * @route   DELETE /api/v1/cart/coupon
+ * @access  Private
+ */
+const removeCoupon = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const cart = await cartService.removeCoupon((req.user as any)._id);
+
+    res.status(200).json({
+      status: "success",
+      message: "Coupon removed",
+      data: { cart },
+    });
+  }
+});
+
+export {
+  getCart,
+  addToCart,
+  updateCartItem,
+  removeFromCart,
+  clearCart,
+  applyCoupon,
+  removeCoupon,
+};
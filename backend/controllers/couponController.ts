@@ -0,0 +1,93 @@
+/**
+ * Coupon Controller
+ * Handles HTTP requests for coupon management (Admin)
+ */
+import { Request, Response } from "express";
+import * as couponService from "../services/couponService";
+import asyncHandler from "../utils/asyncHandler";
+
+/**
+ * @desc    Get all coupons
+ * @route   GET /api/v1/admin/coupons
+ * @access  Private/Admin
+ */
+const getCoupons = asyncHandler(async (req: Request, res: Response) => {
+  const { coupons, pagination } = await couponService.getCoupons(
+    req.query as any,
+  );
+
+  res.status(200).json({
+    status: "success",
+    results: coupons.length,
+    pagination,
+    data: { coupons },
+  });
+});
+
+/**
+ * @desc    Get single coupon
+ * @route   GET /api/v1/admin/coupons/:id
+ * @access  Private/Admin
+ */
+const getCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const coupon = await couponService.getCouponById(req.params.id as string);
+
+  res.status(200).json({
+    status: "success",
+    data: { coupon },
+  });
+});
+
+/**
+ * @desc    Create coupon
+ * @route   POST /api/v1/admin/coupons
+ * @access  Private/Admin
+ */
+const createCoupon = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const coupon = await couponService.createCoupon(
+      req.body,
+      (req.user as any)._id,
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "Coupon created successfully",
+      data: { coupon },
+    });
+  }
+});
+
+/**
+ * @desc    Update coupon
+ * @route   PUT /api/v1/admin/coupons/:id
+ * @access  Private/Admin
+ */
+const updateCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const coupon = await couponService.updateCoupon(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Coupon updated successfully",
+    data: { coupon },
+  });
+});
+
+/**
+ * @desc    Delete coupon
+ * @route   DELETE /api/v1/admin/coupons/:id
+ * @access  Private/Admin
+ */
+const deleteCoupon = asyncHandler(async (req: Request, res: Response) => {
+  await couponService.deleteCoupon(req.params.id as string);
+
+  res.status(200).json({
+    status: "success",
+    message: "Coupon deleted successfully",
+  });
+});
+
+export { getCoupons, getCoupon, createCoupon, updateCoupon, deleteCoupon };
@@ -4,6 +4,8 @@
  */
 import { Request, Response } from "express";
 import * as orderService from "../services/orderService";
+import * as shipmentService from "../services/shipmentService";
+import * as invoiceService from "../services/invoiceService";
 import asyncHandler from "../utils/asyncHandler";
 import Order from "../models/Order";
 
@@ -16,6 +18,7 @@ const mapOrderForResponse = (order: any) => ({
   user: order.user,
   items: order.items,
   shippingAddress: order.shippingAddress,
+  shippingMethod: order.shippingMethod,
   // Flattened fields for frontend
   orderStatus: order.status,
   paymentMethod: order.payment?.method,
@@ -24,6 +27,11 @@ const mapOrderForResponse = (order: any) => ({
   subtotal: order.pricing?.subtotal,
   shippingCost: order.pricing?.shippingCost,
   discount: order.pricing?.discount,
+  couponCode: order.pricing?.couponCode,
+  reservedUntil: order.reservedUntil,
+  replacementFor: order.replacementFor,
+  shipment: order.shipment,
+  invoice: order.invoice,
   // Keep original nested fields too
   status: order.status,
   payment: order.payment,
@@ -189,6 +197,136 @@ const updateOrderStatus = asyncHandler(async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @desc    Edit items, address or shipping before the order ships (Admin)
+ * @route   PATCH /api/v1/admin/orders/:id
+ * @access  Private/Admin
+ */
+const editOrder = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const order = await orderService.editOrder(
+      req.params.id as string,
+      req.body,
+      (req.user as any)._id,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Order updated",
+      data: { order: mapOrderForResponse(order) },
+    });
+  }
+});
+
+/**
+ * @desc    Get courier tracking for my order
+ * @route   GET /api/v1/orders/:id/tracking
+ * @access  Private
+ */
+const getOrderTracking = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const tracking = await shipmentService.getOrderTracking(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+    );
+
+    res.status(200).json({
+      status: "success",
+      data: tracking,
+    });
+  }
+});
+
+/**
+ * @desc    Hand an order to a courier and mark it shipped (Admin)
+ * @route   POST /api/v1/admin/orders/:id/shipment
+ * @access  Private/Admin
+ */
+const shipOrder = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const order = await shipmentService.createShipment(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      req.body,
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: `Order shipped with ${order.shipment?.carrier}`,
+      data: { order: mapOrderForResponse(order) },
+    });
+  }
+});
+
+/**
+ * @desc    Record a tracking update by hand (Admin)
+ * @route   POST /api/v1/admin/orders/:id/shipment/events
+ * @access  Private/Admin
+ */
+const addTrackingEvent = asyncHandler(async (req: Request, res: Response) => {
+  const order = await shipmentService.addTrackingEvent(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(201).json({
+    status: "success",
+    message: "Tracking updated",
+    data: { order: mapOrderForResponse(order) },
+  });
+});
+
+/**
+ * @desc    Pull the latest tracking from the courier (Admin)
+ * @route   POST /api/v1/admin/orders/:id/shipment/refresh
+ * @access  Private/Admin
+ */
+const refreshTracking = asyncHandler(async (req: Request, res: Response) => {
+  const order = await shipmentService.refreshOrderTracking(
+    req.params.id as string,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Tracking refreshed",
+    data: { order: mapOrderForResponse(order) },
+  });
+});
+
+/**
+ * @desc    Download the tax invoice for my order as PDF
+ * @route   GET /api/v1/orders/:id/invoice
+ * @access  Private
+ */
+const getOrderInvoice = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const { filename, pdf } = await invoiceService.getCustomerInvoice(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.status(200).send(pdf);
+  }
+});
+
+/**
+ * @desc    Invoices or packing slips for selected orders as one PDF (Admin)
+ * @route   POST /api/v1/admin/orders/documents
+ * @access  Private/Admin
+ */
+const getOrderDocuments = asyncHandler(async (req: Request, res: Response) => {
+  const { filename, pdf } = await invoiceService.getOrderDocuments(
+    req.body.orderIds,
+    req.body.type || "invoice",
+  );
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.status(200).send(pdf);
+});
+
 export {
   createOrder,
   getMyOrders,
@@ -196,4 +334,11 @@ export {
   cancelOrder,
   getAllOrders,
   updateOrderStatus,
+  editOrder,
+  getOrderTracking,
+  getOrderInvoice,
+  getOrderDocuments,
+  shipOrder,
+  addTrackingEvent,
+  refreshTracking,
 };
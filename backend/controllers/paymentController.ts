@@ -3,8 +3,14 @@
  * Handles HTTP requests for payments
  */
 import { Request, Response } from 'express';
-import { PaymentService } from '../services/payment';
+import { PaymentService, PaymentFactory, StripeGateway } from '../services/payment';
 import asyncHandler from '../utils/asyncHandler';
+import { paginate, parseDateRange, getFiscalYear } from '../utils/helpers';
+import { reconcilePendingPayments } from '../services/paymentReconciliationService';
+import * as codSettlementService from '../services/codSettlementService';
+import * as financeService from '../services/financeService';
+import * as taxService from '../services/taxService';
+import { RemittanceStatus } from '../models/CodRemittance';
 
 /**
  * @desc    Get available payment methods
@@ -32,7 +38,7 @@ const initiatePayment = asyncHandler(async (req: Request, res: Response) => {
             name: req.user.name,
             email: req.user.email,
             phone: req.user.phone,
-        });
+        }, { sourceIp: req.ip });
     
         res.status(200).json({
             status: 'success',
@@ -41,13 +47,34 @@ const initiatePayment = asyncHandler(async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @desc    Retry payment on an unpaid order, optionally with another gateway
+ * @route   POST /api/v1/payments/retry
+ * @access  Private
+ */
+const retryPayment = asyncHandler(async (req: Request, res: Response) => {
+    const { orderId, gateway } = req.body;
+    if (req.user) {
+        const result = await PaymentService.retryPayment(orderId, (req.user as any)._id.toString(), gateway, {
+            name: req.user.name,
+            email: req.user.email,
+            phone: req.user.phone,
+        }, { sourceIp: req.ip });
+
+        res.status(200).json({
+            status: 'success',
+            data: result,
+        });
+    }
+});
+
 /**
  * @desc    eSewa success callback
  * @route   GET /api/v1/payments/esewa/success
  * @access  Public
  */
 const esewaSuccess = asyncHandler(async (req: Request, res: Response) => {
-    const result = await PaymentService.handleCallback('esewa', req.query);
+    const result = await PaymentService.handleCallback('esewa', req.query, { sourceIp: req.ip });
 
     if (result.success) {
         // Redirect to frontend success page
@@ -73,7 +100,36 @@ const esewaFailure = asyncHandler(async (req: Request, res: Response) => {
  * @access  Public
  */
 const khaltiCallback = asyncHandler(async (req: Request, res: Response) => {
-    const result = await PaymentService.handleCallback('khalti', req.query);
+    const result = await PaymentService.handleCallback('khalti', req.query, { sourceIp: req.ip });
+
+    if (result.success) {
+        res.redirect(`${process.env.FRONTEND_URL}/order-success?orderId=${result.orderId}`);
+    } else {
+        res.redirect(`${process.env.FRONTEND_URL}/order-failed?orderId=${result.orderId}&message=${encodeURIComponent(result.message)}`);
+    }
+});
+
+/**
+ * @desc    Handle Fonepay payment notification
+ * @route   GET /api/v1/payments/fonepay/callback
+ * @access  Public (signed by Fonepay)
+ */
+const fonepayCallback = asyncHandler(async (req: Request, res: Response) => {
+    const result = await PaymentService.handleCallback('fonepay', req.query, { sourceIp: req.ip });
+
+    res.status(200).json({
+        status: 'success',
+        data: { success: !!result.success, duplicate: !!result.duplicate },
+    });
+});
+
+/**
+ * @desc    Handle mock gateway callback
+ * @route   GET /api/v1/payments/mock/callback
+ * @access  Public (non-production only)
+ */
+const mockCallback = asyncHandler(async (req: Request, res: Response) => {
+    const result = await PaymentService.handleCallback('mock', req.query, { sourceIp: req.ip });
 
     if (result.success) {
         res.redirect(`${process.env.FRONTEND_URL}/order-success?orderId=${result.orderId}`);
@@ -82,6 +138,38 @@ const khaltiCallback = asyncHandler(async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @desc    Handle Stripe webhook events
+ * @route   POST /api/v1/payments/stripe/webhook
+ * @access  Public (signed by Stripe)
+ */
+const stripeWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const gateway = PaymentFactory.getGateway('stripe') as StripeGateway;
+    const event = gateway.constructWebhookEvent(req.rawBody || '', req.get('stripe-signature'));
+
+    if (event.type?.startsWith('payment_intent.')) {
+        await PaymentService.handleCallback('stripe', event, { sourceIp: req.ip });
+    }
+
+    res.status(200).json({ received: true });
+});
+
+/**
+ * @desc    Poll the payment status of an order
+ * @route   GET /api/v1/payments/status/:orderId
+ * @access  Private
+ */
+const getPaymentStatus = asyncHandler(async (req: Request, res: Response) => {
+    if (req.user) {
+        const status = await PaymentService.getPaymentStatus(req.params.orderId as string, (req.user as any)._id.toString());
+
+        res.status(200).json({
+            status: 'success',
+            data: status,
+        });
+    }
+});
+
 /**
  * @desc    Verify payment manually
  * @route   POST /api/v1/payments/verify
@@ -89,7 +177,7 @@ const khaltiCallback = asyncHandler(async (req: Request, res: Response) => {
  */
 const verifyPayment = asyncHandler(async (req: Request, res: Response) => {
     const { orderId, gateway, callbackData } = req.body;
-    const result = await PaymentService.verifyPayment(orderId, gateway, callbackData);
+    const result = await PaymentService.verifyPayment(orderId, gateway, callbackData, { sourceIp: req.ip });
 
     res.status(200).json({
         status: 'success',
@@ -103,10 +191,14 @@ const verifyPayment = asyncHandler(async (req: Request, res: Response) => {
  * @access  Private/Admin
  */
 const markCODCollected = asyncHandler(async (req: Request, res: Response) => {
-    const { orderId } = req.body;
+    const { orderId, collectedBy, amount, collectedAt } = req.body;
     if (req.user) {
-        const result = await PaymentService.markCODCollected(orderId, (req.user as any)._id);
-    
+        const result = await PaymentService.markCODCollected(orderId, (req.user as any)._id.toString(), {
+            collectedBy,
+            amount,
+            collectedAt,
+        });
+
         res.status(200).json({
             status: 'success',
             message: result.message,
@@ -115,12 +207,363 @@ const markCODCollected = asyncHandler(async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @desc    COD collections per courier/rider, as JSON or a CSV download (Admin)
+ * @route   GET /api/v1/admin/payments/cod/report
+ * @access  Private/Admin
+ */
+const getCodReport = asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, collector, format } = req.query;
+    const filter = { ...parseDateRange(from, to), collector: collector as string | undefined };
+
+    if (format === 'csv') {
+        const csv = await codSettlementService.getCodReportCsv(filter);
+        const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="cod-report-${stamp}.csv"`);
+        res.status(200).send(csv);
+        return;
+    }
+
+    const report = await codSettlementService.getCodReport(filter);
+
+    res.status(200).json({
+        status: 'success',
+        data: report,
+    });
+});
+
+/**
+ * @desc    Net revenue, fees and refunds by gateway per day or month, as JSON or a CSV download (Admin)
+ * @route   GET /api/v1/admin/finance/report
+ * @access  Private/Admin
+ */
+const getFinanceReport = asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, interval, gateway, format } = req.query;
+    const filter = {
+        ...parseDateRange(from, to),
+        interval: interval as financeService.ReportInterval | undefined,
+        gateway: gateway as string | undefined,
+    };
+
+    if (format === 'csv') {
+        const csv = await financeService.getFinanceReportCsv(filter);
+        const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="finance-report-${stamp}.csv"`);
+        res.status(200).send(csv);
+        return;
+    }
+
+    const report = await financeService.getFinanceReport(filter);
+
+    res.status(200).json({
+        status: 'success',
+        data: report,
+    });
+});
+
+/**
+ * @desc    VAT sales register for a Nepali fiscal year, as JSON or a CSV download (Admin)
+ * @route   GET /api/v1/admin/finance/vat-register
+ * @access  Private/Admin
+ */
+const getVatRegister = asyncHandler(async (req: Request, res: Response) => {
+    const fiscalYear = (req.query.fiscalYear as string | undefined) || getFiscalYear();
+
+    if (req.query.format === 'csv') {
+        const csv = await taxService.getVatRegisterCsv(fiscalYear);
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="vat-register-${fiscalYear.replace('/', '-')}.csv"`);
+        res.status(200).send(csv);
+        return;
+    }
+
+    const register = await taxService.getVatRegister(fiscalYear);
+
+    res.status(200).json({
+        status: 'success',
+        data: register,
+    });
+});
+
+/**
+ * @desc    List COD remittance batches (Admin)
+ * @route   GET /api/v1/admin/payments/cod/remittances
+ * @access  Private/Admin
+ */
+const getCodRemittances = asyncHandler(async (req: Request, res: Response) => {
+    const { status, collector, page = 1, limit = 20 } = req.query;
+
+    const { remittances, total } = await codSettlementService.getRemittances(
+        {
+            status: status as RemittanceStatus | undefined,
+            collector: collector as string | undefined,
+        },
+        Number(page),
+        Number(limit),
+    );
+
+    res.status(200).json({
+        status: 'success',
+        results: remittances.length,
+        pagination: paginate(Number(page), Number(limit), total),
+        data: { remittances },
+    });
+});
+
+/**
+ * @desc    Get a COD remittance batch with its orders (Admin)
+ * @route   GET /api/v1/admin/payments/cod/remittances/:id
+ * @access  Private/Admin
+ */
+const getCodRemittance = asyncHandler(async (req: Request, res: Response) => {
+    const remittance = await codSettlementService.getRemittanceById(req.params.id as string);
+
+    res.status(200).json({
+        status: 'success',
+        data: { remittance },
+    });
+});
+
+/**
+ * @desc    Batch a courier/rider's collected cash into a remittance (Admin)
+ * @route   POST /api/v1/admin/payments/cod/remittances
+ * @access  Private/Admin
+ */
+const createCodRemittance = asyncHandler(async (req: Request, res: Response) => {
+    const { collector, paymentIds, notes } = req.body;
+    if (req.user) {
+        const remittance = await codSettlementService.createRemittance(
+            collector,
+            (req.user as any)._id.toString(),
+            { paymentIds, notes },
+        );
+
+        res.status(201).json({
+            status: 'success',
+            message: `Remittance ${remittance.remittanceNumber} created`,
+            data: { remittance },
+        });
+    }
+});
+
+/**
+ * @desc    Record the cash received for a remittance (Admin)
+ * @route   PATCH /api/v1/admin/payments/cod/remittances/:id/receive
+ * @access  Private/Admin
+ */
+const receiveCodRemittance = asyncHandler(async (req: Request, res: Response) => {
+    const { receivedAmount, reference, notes } = req.body;
+    if (req.user) {
+        const remittance = await codSettlementService.receiveRemittance(
+            req.params.id as string,
+            (req.user as any)._id.toString(),
+            { receivedAmount, reference, notes },
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: remittance.status === 'settled'
+                ? 'Remittance settled'
+                : 'Remittance received with a discrepancy',
+            data: { remittance },
+        });
+    }
+});
+
+/**
+ * @desc    Resolve a COD remittance discrepancy (Admin)
+ * @route   PATCH /api/v1/admin/payments/cod/remittances/:id/resolve
+ * @access  Private/Admin
+ */
+const resolveCodRemittance = asyncHandler(async (req: Request, res: Response) => {
+    if (req.user) {
+        const remittance = await codSettlementService.resolveRemittance(
+            req.params.id as string,
+            (req.user as any)._id.toString(),
+            req.body.note,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Remittance discrepancy resolved',
+            data: { remittance },
+        });
+    }
+});
+
+/**
+ * @desc    Get refunds for an order (Admin)
+ * @route   GET /api/v1/admin/orders/:id/refunds
+ * @access  Private/Admin
+ */
+const getOrderRefunds = asyncHandler(async (req: Request, res: Response) => {
+    const result = await PaymentService.getRefunds(req.params.id as string);
+
+    res.status(200).json({
+        status: 'success',
+        data: result,
+    });
+});
+
+/**
+ * @desc    Get the payment event timeline for an order (Admin)
+ * @route   GET /api/v1/admin/orders/:id/payment-events
+ * @access  Private/Admin
+ */
+const getOrderPaymentEvents = asyncHandler(async (req: Request, res: Response) => {
+    const events = await PaymentService.getPaymentEvents(req.params.id as string);
+
+    res.status(200).json({
+        status: 'success',
+        results: events.length,
+        data: { events },
+    });
+});
+
+/**
+ * @desc    Refund an order, fully or partially (Admin)
+ * @route   POST /api/v1/admin/orders/:id/refunds
+ * @access  Private/Admin
+ */
+const refundOrder = asyncHandler(async (req: Request, res: Response) => {
+    if (req.user) {
+        const { payment, refund } = await PaymentService.refund(
+            req.params.id as string,
+            { amount: req.body.amount, reason: req.body.reason },
+            (req.user as any)._id,
+        );
+
+        res.status(201).json({
+            status: 'success',
+            message: refund.status === 'completed'
+                ? 'Refund processed successfully'
+                : 'Refund recorded. Complete it in the gateway\'s merchant portal, then confirm it here.',
+            data: {
+                refund,
+                refunds: payment.refunds,
+                refundedAmount: payment.refundAmount,
+                refundableAmount: payment.getRefundableAmount(),
+            },
+        });
+    }
+});
+
+/**
+ * @desc    Confirm a manually settled refund (Admin)
+ * @route   PATCH /api/v1/admin/orders/:id/refunds/:refundId/complete
+ * @access  Private/Admin
+ */
+const completeRefund = asyncHandler(async (req: Request, res: Response) => {
+    const { payment, refund } = await PaymentService.completeRefund(
+        req.params.id as string,
+        req.params.refundId as string,
+        req.body.reference,
+    );
+
+    res.status(200).json({
+        status: 'success',
+        message: 'Refund marked as completed',
+        data: {
+            refund,
+            refunds: payment.refunds,
+            refundedAmount: payment.refundAmount,
+            refundableAmount: payment.getRefundableAmount(),
+        },
+    });
+});
+
+/**
+ * @desc    Get the payment discrepancy report (Admin)
+ * @route   GET /api/v1/admin/payments/discrepancies
+ * @access  Private/Admin
+ */
+const getPaymentDiscrepancies = asyncHandler(async (req: Request, res: Response) => {
+    const { status, type, page = 1, limit = 20 } = req.query;
+
+    const { discrepancies, total } = await PaymentService.getDiscrepancies(
+        {
+            resolved: status ? status === 'resolved' : undefined,
+            type: type as string | undefined,
+        },
+        Number(page),
+        Number(limit),
+    );
+
+    res.status(200).json({
+        status: 'success',
+        results: discrepancies.length,
+        pagination: paginate(Number(page), Number(limit), total),
+        data: { discrepancies },
+    });
+});
+
+/**
+ * @desc    Resolve a payment discrepancy (Admin)
+ * @route   PATCH /api/v1/admin/payments/discrepancies/:id/resolve
+ * @access  Private/Admin
+ */
+const resolvePaymentDiscrepancy = asyncHandler(async (req: Request, res: Response) => {
+    if (req.user) {
+        const discrepancy = await PaymentService.resolveDiscrepancy(
+            req.params.id as string,
+            (req.user as any)._id.toString(),
+            req.body.note,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Discrepancy marked as resolved',
+            data: { discrepancy },
+        });
+    }
+});
+
+/**
+ * @desc    Reconcile stuck online payments now (Admin)
+ * @route   POST /api/v1/admin/payments/reconcile
+ * @access  Private/Admin
+ */
+const reconcilePayments = asyncHandler(async (req: Request, res: Response) => {
+    const summary = await reconcilePendingPayments();
+
+    res.status(200).json({
+        status: 'success',
+        message: `Checked ${summary.checked} pending payment(s)`,
+        data: { summary },
+    });
+});
+
 export {
     getPaymentMethods,
     initiatePayment,
+    retryPayment,
     esewaSuccess,
     esewaFailure,
     khaltiCallback,
+    fonepayCallback,
+    mockCallback,
+    stripeWebhook,
     verifyPayment,
+    getPaymentStatus,
     markCODCollected,
+    getCodReport,
+    getFinanceReport,
+    getVatRegister,
+    getCodRemittances,
+    getCodRemittance,
+    createCodRemittance,
+    receiveCodRemittance,
+    resolveCodRemittance,
+    getOrderRefunds,
+    getOrderPaymentEvents,
+    refundOrder,
+    completeRefund,
+    getPaymentDiscrepancies,
+    resolvePaymentDiscrepancy,
+    reconcilePayments,
 };
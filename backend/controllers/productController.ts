@@ -3,8 +3,11 @@
  * Handles HTTP requests for products
  */
 import { Request, Response } from "express";
+import { Types } from "mongoose";
 import * as productService from "../services/productService";
+import * as searchService from "../services/searchService";
 import asyncHandler from "../utils/asyncHandler";
+import { SEARCH_PLATFORMS, SearchPlatform } from "../models/SearchLog";
 
 interface MulterRequest extends Request {
   file?: any;
@@ -12,18 +15,59 @@ interface MulterRequest extends Request {
 }
 
 /**
- * @desc    Get all products with filters
+ * @desc    Get all products with filters and facet counts; searches are logged
  * @route   GET /api/v1/products
  * @access  Public
  */
 const getProducts = asyncHandler(async (req: Request, res: Response) => {
-  const { products, pagination } = await productService.getProducts(req.query);
+  const { products, pagination, facets } = await productService.getProducts(
+    req.query,
+  );
+
+  // Log the search once, on its first page; the client sends the id back
+  // with any result the customer opens
+  const search = (req.query.search as string | undefined)?.trim();
+  let searchId: string | undefined;
+  if (search && pagination.currentPage === 1) {
+    const platform = req.get("X-Client-Platform") as SearchPlatform;
+    const id = new Types.ObjectId();
+    searchId = id.toString();
+
+    // Written in the background; a failed log must not hold up or fail the listing
+    searchService
+      .logSearch({
+        id,
+        query: search,
+        resultCount: pagination.totalItems,
+        userId: req.user?._id,
+        platform: SEARCH_PLATFORMS.includes(platform) ? platform : "unknown",
+      })
+      .catch((error) => console.error("Failed to log search:", error));
+  }
 
   res.status(200).json({
     status: "success",
     results: products.length,
     pagination,
-    data: { products },
+    data: { products, facets, searchId },
+  });
+});
+
+/**
+ * @desc    Suggestions as the customer types a search
+ * @route   GET /api/v1/products/suggest
+ * @access  Public
+ */
+const getSuggestions = asyncHandler(async (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 6;
+  const suggestions = await searchService.getSuggestions(
+    req.query.q as string,
+    limit,
+  );
+
+  res.status(200).json({
+    status: "success",
+    data: suggestions,
   });
 });
 
@@ -94,6 +138,24 @@ const updateProduct = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * @desc    Edit or add many variants at once (Admin)
+ * @route   PATCH /api/v1/admin/products/:id/variants
+ * @access  Private/Admin
+ */
+const patchVariants = asyncHandler(async (req: Request, res: Response) => {
+  const product = await productService.patchVariants(
+    req.params.id as string,
+    req.body.variants,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Variants updated successfully",
+    data: { product },
+  });
+});
+
 /**
  * @desc    Delete product (Admin)
  * @route   DELETE /api/v1/admin/products/:id
@@ -166,10 +228,12 @@ const uploadVariantImage = asyncHandler(async (req: Request, res: Response) => {
 
 export {
   getProducts,
+  getSuggestions,
   getFeaturedProducts,
   getProduct,
   createProduct,
   updateProduct,
+  patchVariants,
   deleteProduct,
   uploadImages,
   deleteImage,
@@ -0,0 +1,318 @@
+/**
+ * Return Controller
+ * Handles HTTP requests for returns and exchanges
+ */
+import { Request, Response } from "express";
+import * as returnService from "../services/returnService";
+import asyncHandler from "../utils/asyncHandler";
+import AppError from "../utils/AppError";
+import { ReturnStatus } from "../models/ReturnRequest";
+
+/**
+ * @desc    Upload photos to attach to a return request
+ * @route   POST /api/v1/returns/photos
+ * @access  Private
+ */
+const uploadReturnPhotos = asyncHandler(async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[]) || [];
+  if (files.length === 0) {
+    throw new AppError("No photos uploaded", 400);
+  }
+
+  // Cloudinary storage puts the URL in path and the public ID in filename
+  const photos = files.map((file) => ({
+    url: file.path,
+    publicId: file.filename,
+  }));
+
+  res.status(201).json({
+    status: "success",
+    data: { photos },
+  });
+});
+
+/**
+ * @desc    Check whether an order can still be returned, and how much of each item
+ * @route   GET /api/v1/returns/eligibility/:orderId
+ * @access  Private
+ */
+const getReturnEligibility = asyncHandler(
+  async (req: Request, res: Response) => {
+    if (req.user) {
+      const eligibility = await returnService.getReturnEligibility(
+        req.params.orderId as string,
+        (req.user as any)._id.toString(),
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: eligibility,
+      });
+    }
+  },
+);
+
+/**
+ * @desc    Request a return or exchange
+ * @route   POST /api/v1/returns
+ * @access  Private
+ */
+const createReturnRequest = asyncHandler(
+  async (req: Request, res: Response) => {
+    if (req.user) {
+      const returnRequest = await returnService.createReturnRequest(
+        (req.user as any)._id.toString(),
+        req.body,
+      );
+
+      res.status(201).json({
+        status: "success",
+        message:
+          returnRequest.type === "exchange"
+            ? "Exchange requested"
+            : "Return requested",
+        data: { returnRequest },
+      });
+    }
+  },
+);
+
+/**
+ * @desc    Get user's return requests
+ * @route   GET /api/v1/returns
+ * @access  Private
+ */
+const getMyReturns = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const { page, limit, order } = req.query;
+    const { returns, pagination } = await returnService.getUserReturns(
+      (req.user as any)._id.toString(),
+      {
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined,
+        order: order as string | undefined,
+      },
+    );
+
+    res.status(200).json({
+      status: "success",
+      results: returns.length,
+      pagination,
+      data: { returns },
+    });
+  }
+});
+
+/**
+ * @desc    Get return request details
+ * @route   GET /api/v1/returns/:id
+ * @access  Private
+ */
+const getReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    // User can only see their own returns (unless admin)
+    const userId =
+      req.user.role === "admin" ? null : (req.user as any)._id.toString();
+    const returnRequest = await returnService.getReturnById(
+      req.params.id as string,
+      userId,
+    );
+
+    res.status(200).json({
+      status: "success",
+      data: { returnRequest },
+    });
+  }
+});
+
+/**
+ * @desc    Cancel a return request
+ * @route   POST /api/v1/returns/:id/cancel
+ * @access  Private
+ */
+const cancelReturnRequest = asyncHandler(
+  async (req: Request, res: Response) => {
+    if (req.user) {
+      const returnRequest = await returnService.cancelReturnRequest(
+        req.params.id as string,
+        (req.user as any)._id.toString(),
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Return request cancelled",
+        data: { returnRequest },
+      });
+    }
+  },
+);
+
+/**
+ * @desc    Get all return requests (Admin)
+ * @route   GET /api/v1/admin/returns
+ * @access  Private/Admin
+ */
+const getAllReturns = asyncHandler(async (req: Request, res: Response) => {
+  const { page, limit, status, order } = req.query;
+  const { returns, pagination } = await returnService.getAllReturns({
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+    status: status as ReturnStatus | undefined,
+    order: order as string | undefined,
+  });
+
+  res.status(200).json({
+    status: "success",
+    results: returns.length,
+    pagination,
+    data: { returns },
+  });
+});
+
+/**
+ * @desc    Approve a return request (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/approve
+ * @access  Private/Admin
+ */
+const approveReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const returnRequest = await returnService.approveReturn(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      req.body.note,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Return approved",
+      data: { returnRequest },
+    });
+  }
+});
+
+/**
+ * @desc    Reject a return request (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/reject
+ * @access  Private/Admin
+ */
+const rejectReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const returnRequest = await returnService.rejectReturn(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      req.body.reason,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Return rejected",
+      data: { returnRequest },
+    });
+  }
+});
+
+/**
+ * @desc    Schedule a courier pickup for the returned items (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/pickup
+ * @access  Private/Admin
+ */
+const scheduleReturnPickup = asyncHandler(
+  async (req: Request, res: Response) => {
+    if (req.user) {
+      const { scheduledFor, courier, trackingNumber } = req.body;
+      const returnRequest = await returnService.schedulePickup(
+        req.params.id as string,
+        (req.user as any)._id.toString(),
+        { scheduledFor, courier, trackingNumber },
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Pickup scheduled",
+        data: { returnRequest },
+      });
+    }
+  },
+);
+
+/**
+ * @desc    Mark the returned items as received (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/receive
+ * @access  Private/Admin
+ */
+const receiveReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const returnRequest = await returnService.markReturnReceived(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      req.body.note,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Return received",
+      data: { returnRequest },
+    });
+  }
+});
+
+/**
+ * @desc    Record the inspection result and restock accepted items (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/inspect
+ * @access  Private/Admin
+ */
+const inspectReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const returnRequest = await returnService.inspectReturn(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      { items: req.body.items, note: req.body.note },
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Inspection recorded",
+      data: { returnRequest },
+    });
+  }
+});
+
+/**
+ * @desc    Complete a return with a refund or replacement order (Admin)
+ * @route   PATCH /api/v1/admin/returns/:id/complete
+ * @access  Private/Admin
+ */
+const completeReturn = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const returnRequest = await returnService.completeReturn(
+      req.params.id as string,
+      (req.user as any)._id.toString(),
+      req.body.resolution,
+    );
+
+    res.status(200).json({
+      status: "success",
+      message:
+        returnRequest.resolution?.type === "replacement"
+          ? "Replacement order created"
+          : "Refund issued",
+      data: { returnRequest },
+    });
+  }
+});
+
+export {
+  uploadReturnPhotos,
+  getReturnEligibility,
+  createReturnRequest,
+  getMyReturns,
+  getReturn,
+  cancelReturnRequest,
+  getAllReturns,
+  approveReturn,
+  rejectReturn,
+  scheduleReturnPickup,
+  receiveReturn,
+  inspectReturn,
+  completeReturn,
+};
@@ -0,0 +1,119 @@
+/**
+ * Search Controller
+ * Handles HTTP requests for search click tracking, reports and synonyms
+ */
+import { Request, Response } from "express";
+import * as searchService from "../services/searchService";
+import asyncHandler from "../utils/asyncHandler";
+import { parseDateRange } from "../utils/helpers";
+
+/**
+ * @desc    Record that a product was opened from a search's results
+ * @route   POST /api/v1/products/searches/:id/click
+ * @access  Public
+ */
+const recordSearchClick = asyncHandler(async (req: Request, res: Response) => {
+  await searchService.recordSearchClick(
+    req.params.id as string,
+    req.body.productId,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Click recorded",
+  });
+});
+
+/**
+ * @desc    Top, zero-result and low click-through search queries
+ * @route   GET /api/v1/admin/search/report
+ * @access  Private/Admin
+ */
+const getSearchReport = asyncHandler(async (req: Request, res: Response) => {
+  const { from, to, limit } = req.query;
+  const report = await searchService.getSearchReport({
+    ...parseDateRange(from, to),
+    limit: parseInt(limit as string) || undefined,
+  });
+
+  res.status(200).json({
+    status: "success",
+    data: report,
+  });
+});
+
+/**
+ * @desc    Get all search synonyms
+ * @route   GET /api/v1/admin/search/synonyms
+ * @access  Private/Admin
+ */
+const getSynonyms = asyncHandler(async (req: Request, res: Response) => {
+  const synonyms = await searchService.getSynonyms();
+
+  res.status(200).json({
+    status: "success",
+    results: synonyms.length,
+    data: { synonyms },
+  });
+});
+
+/**
+ * @desc    Create search synonym
+ * @route   POST /api/v1/admin/search/synonyms
+ * @access  Private/Admin
+ */
+const createSynonym = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const synonym = await searchService.createSynonym(
+      req.body,
+      (req.user as any)._id,
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "Synonym created successfully",
+      data: { synonym },
+    });
+  }
+});
+
+/**
+ * @desc    Update search synonym
+ * @route   PUT /api/v1/admin/search/synonyms/:id
+ * @access  Private/Admin
+ */
+const updateSynonym = asyncHandler(async (req: Request, res: Response) => {
+  const synonym = await searchService.updateSynonym(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Synonym updated successfully",
+    data: { synonym },
+  });
+});
+
+/**
+ * @desc    Delete search synonym
+ * @route   DELETE /api/v1/admin/search/synonyms/:id
+ * @access  Private/Admin
+ */
+const deleteSynonym = asyncHandler(async (req: Request, res: Response) => {
+  const result = await searchService.deleteSynonym(req.params.id as string);
+
+  res.status(200).json({
+    status: "success",
+    message: result.message,
+  });
+});
+
+export {
+  recordSearchClick,
+  getSearchReport,
+  getSynonyms,
+  createSynonym,
+  updateSynonym,
+  deleteSynonym,
+};
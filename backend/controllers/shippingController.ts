@@ -0,0 +1,209 @@
+/**
+ * Shipping Controller
+ * Handles HTTP requests for shipping quotes, zone/rule management and couriers
+ */
+import { Request, Response } from "express";
+import * as shippingService from "../services/shippingService";
+import * as shipmentService from "../services/shipmentService";
+import asyncHandler from "../utils/asyncHandler";
+
+/**
+ * @desc    Get shipping options for the cart and an address
+ * @route   POST /api/v1/shipping/quote
+ * @access  Private
+ */
+const getQuote = asyncHandler(async (req: Request, res: Response) => {
+  if (req.user) {
+    const quote = await shippingService.getQuoteForCart(
+      (req.user as any)._id,
+      req.body.shippingAddress,
+    );
+
+    res.status(200).json({
+      status: "success",
+      data: quote,
+    });
+  }
+});
+
+/**
+ * @desc    Get all shipping zones
+ * @route   GET /api/v1/admin/shipping-zones
+ * @access  Private/Admin
+ */
+const getShippingZones = asyncHandler(async (req: Request, res: Response) => {
+  const zones = await shippingService.getShippingZones();
+
+  res.status(200).json({
+    status: "success",
+    results: zones.length,
+    data: { zones },
+  });
+});
+
+/**
+ * @desc    Get single shipping zone
+ * @route   GET /api/v1/admin/shipping-zones/:id
+ * @access  Private/Admin
+ */
+const getShippingZone = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.getShippingZoneById(
+    req.params.id as string,
+  );
+
+  res.status(200).json({
+    status: "success",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Create shipping zone
+ * @route   POST /api/v1/admin/shipping-zones
+ * @access  Private/Admin
+ */
+const createShippingZone = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.createShippingZone(req.body);
+
+  res.status(201).json({
+    status: "success",
+    message: "Shipping zone created successfully",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Update shipping zone
+ * @route   PUT /api/v1/admin/shipping-zones/:id
+ * @access  Private/Admin
+ */
+const updateShippingZone = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.updateShippingZone(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Shipping zone updated successfully",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Delete shipping zone
+ * @route   DELETE /api/v1/admin/shipping-zones/:id
+ * @access  Private/Admin
+ */
+const deleteShippingZone = asyncHandler(async (req: Request, res: Response) => {
+  await shippingService.deleteShippingZone(req.params.id as string);
+
+  res.status(200).json({
+    status: "success",
+    message: "Shipping zone deleted successfully",
+  });
+});
+
+/**
+ * @desc    Add rule to shipping zone
+ * @route   POST /api/v1/admin/shipping-zones/:id/rules
+ * @access  Private/Admin
+ */
+const addShippingRule = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.addShippingRule(
+    req.params.id as string,
+    req.body,
+  );
+
+  res.status(201).json({
+    status: "success",
+    message: "Shipping rule added successfully",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Update rule in shipping zone
+ * @route   PUT /api/v1/admin/shipping-zones/:id/rules/:ruleId
+ * @access  Private/Admin
+ */
+const updateShippingRule = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.updateShippingRule(
+    req.params.id as string,
+    req.params.ruleId as string,
+    req.body,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Shipping rule updated successfully",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Remove rule from shipping zone
+ * @route   DELETE /api/v1/admin/shipping-zones/:id/rules/:ruleId
+ * @access  Private/Admin
+ */
+const deleteShippingRule = asyncHandler(async (req: Request, res: Response) => {
+  const zone = await shippingService.deleteShippingRule(
+    req.params.id as string,
+    req.params.ruleId as string,
+  );
+
+  res.status(200).json({
+    status: "success",
+    message: "Shipping rule removed successfully",
+    data: { zone },
+  });
+});
+
+/**
+ * @desc    Get couriers available for shipping orders
+ * @route   GET /api/v1/admin/couriers
+ * @access  Private/Admin
+ */
+const getCouriers = asyncHandler(async (req: Request, res: Response) => {
+  const couriers = shipmentService.getCouriers();
+
+  res.status(200).json({
+    status: "success",
+    data: { couriers },
+  });
+});
+
+/**
+ * @desc    Receive a courier status webhook
+ * @route   POST /api/v1/shipping/couriers/:courier/webhook
+ * @access  Public (signed by the courier)
+ */
+const courierWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const order = await shipmentService.handleCourierWebhook(
+    req.params.courier as string,
+    req.body,
+    req.headers,
+  );
+
+  res.status(200).json({
+    status: "success",
+    data: {
+      orderNumber: order.orderNumber,
+      shipmentStatus: order.shipment?.status,
+    },
+  });
+});
+
+export {
+  getQuote,
+  getShippingZones,
+  getShippingZone,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone,
+  addShippingRule,
+  updateShippingRule,
+  deleteShippingRule,
+  getCouriers,
+  courierWebhook,
+};
@@ -80,6 +80,7 @@ interface ErrorResponse {
   status: string;
   error?: any;
   message: string;
+  errors?: unknown[];
   stack?: string;
 }
 
@@ -92,6 +93,7 @@ const sendErrorDev = (err: AppError, res: Response): void => {
     status: err.status,
     error: err,
     message: err.message,
+    errors: err.details,
     stack: err.stack,
   } as ErrorResponse);
 };
@@ -106,6 +108,7 @@ const sendErrorProd = (err: AppError, res: Response): void => {
     res.status(err.statusCode).json({
       status: err.status,
       message: err.message,
+      ...(err.details && { errors: err.details }),
     });
   } else {
     // Programming or unknown error: don't leak details
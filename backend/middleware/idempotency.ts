@@ -0,0 +1,128 @@
+/**
+ * Idempotency Middleware
+ * Lets clients safely retry non-idempotent requests with an Idempotency-Key header
+ */
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import IdempotencyKey from "../models/IdempotencyKey";
+import AppError from "../utils/AppError";
+import asyncHandler from "../utils/asyncHandler";
+import "../types/express";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Fingerprint of what the request asks for, so a reused key can be checked
+ */
+const hashRequest = (req: Request): string =>
+  crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        method: req.method,
+        path: req.baseUrl + req.path,
+        body: req.body ?? {},
+      }),
+    )
+    .digest("hex");
+
+/**
+ * Replay the stored response for a repeated Idempotency-Key
+ * Must be used after protect middleware
+ *
+ * - No header: the request runs as usual
+ * - New key: the request runs and a successful response is stored
+ * - Same key and payload: the stored response is sent again
+ * - Same key, different payload (or still running): 409
+ *
+ * Failed requests release their key so the client can retry with it.
+ *
+ * Usage:
+ *   router.post('/', idempotent, createOrderValidator, createOrder);
+ */
+const idempotent = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get("Idempotency-Key");
+    if (!key) return next();
+
+    if (!req.user) {
+      return next(new AppError("Not authenticated.", 401));
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return next(
+        new AppError(
+          `Idempotency-Key cannot exceed ${MAX_KEY_LENGTH} characters`,
+          400,
+        ),
+      );
+    }
+
+    const user = (req.user as any)._id;
+    const requestHash = hashRequest(req);
+
+    let record;
+    try {
+      record = await IdempotencyKey.create({
+        user,
+        key,
+        method: req.method,
+        path: req.baseUrl + req.path,
+        requestHash,
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      const existing = await IdempotencyKey.findOne({ user, key });
+
+      if (!existing || existing.requestHash !== requestHash) {
+        return next(
+          new AppError(
+            "This Idempotency-Key was already used for a different request",
+            409,
+          ),
+        );
+      }
+
+      if (existing.status === "processing") {
+        return next(
+          new AppError(
+            "A request with this Idempotency-Key is still being processed",
+            409,
+          ),
+        );
+      }
+
+      res.set("Idempotent-Replayed", "true");
+      res.status(existing.responseStatus || 200).json(existing.responseBody);
+      return;
+    }
+
+    // Capture the response on its way out
+    const sendJson = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      const outcome =
+        res.statusCode >= 200 && res.statusCode < 300
+          ? IdempotencyKey.updateOne(
+              { _id: record._id },
+              {
+                status: "completed",
+                responseStatus: res.statusCode,
+                // Store exactly what was sent, not live documents
+                responseBody: JSON.parse(JSON.stringify(body)),
+              },
+            )
+          : IdempotencyKey.deleteOne({ _id: record._id });
+
+      outcome.catch((err: unknown) =>
+        console.error("Failed to store idempotent response:", err),
+      );
+
+      return sendJson(body);
+    }) as Response["json"];
+
+    next();
+  },
+);
+
+export { idempotent };
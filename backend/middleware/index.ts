@@ -6,4 +6,5 @@
 export * from './auth';
 export * from './role';
 export * from './validate';
+export * from './idempotency';
 export * from './errorHandler';
@@ -11,7 +11,8 @@ import {
   ValidationChain,
 } from "express-validator";
 import AppError from "../utils/AppError";
-import { PRODUCT_SIZES } from "../utils/constants";
+import { TAX_CLASSES } from "../utils/constants";
+import { ATTRIBUTE_TYPES } from "../models/Attribute";
 
 interface ValidationError {
   field: string;
@@ -88,6 +89,37 @@ const loginValidator: (ValidationChain | RequestHandler)[] = [
 
 // =============== PRODUCT VALIDATORS ===============
 
+// Which sizes and options are allowed depends on the category, so the
+// service checks values against its attributes
+const variantOptionValidators: ValidationChain[] = [
+  body("variants.*.size")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Variant size cannot exceed 50 characters"),
+  body("variants.*.color")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Variant color cannot exceed 50 characters"),
+  body("variants.*.options")
+    .optional()
+    .isArray()
+    .withMessage("Variant options must be an array"),
+  body("variants.*.options.*.name")
+    .trim()
+    .notEmpty()
+    .withMessage("Option name is required")
+    .isLength({ max: 50 })
+    .withMessage("Option name cannot exceed 50 characters"),
+  body("variants.*.options.*.value")
+    .trim()
+    .notEmpty()
+    .withMessage("Option value is required")
+    .isLength({ max: 100 })
+    .withMessage("Option value cannot exceed 100 characters"),
+];
+
 const createProductValidator: (ValidationChain | RequestHandler)[] = [
   body("name")
     .trim()
@@ -124,24 +156,20 @@ const createProductValidator: (ValidationChain | RequestHandler)[] = [
     .trim()
     .isLength({ max: 50 })
     .withMessage("SKU cannot exceed 50 characters"),
+  body("weight")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Weight must be a positive number"),
+  body("taxClass")
+    .optional({ values: "null" })
+    .isIn(TAX_CLASSES)
+    .withMessage("Tax class must be one of: " + TAX_CLASSES.join(", ")),
   // Variant validation
   body("variants")
     .optional()
     .isArray()
     .withMessage("Variants must be an array"),
-  body("variants.*.size")
-    .optional()
-    .notEmpty()
-    .withMessage("Variant size is required")
-    .isIn(PRODUCT_SIZES)
-    .withMessage(
-      "Invalid size value. Must be one of: " + PRODUCT_SIZES.join(", "),
-    ),
-  body("variants.*.color")
-    .optional()
-    .notEmpty()
-    .withMessage("Variant color is required")
-    .trim(),
+  ...variantOptionValidators,
   body("variants.*.price")
     .optional()
     .isFloat({ min: 0 })
@@ -169,22 +197,41 @@ const updateProductValidator: (ValidationChain | RequestHandler)[] = [
     .isFloat({ min: 0 })
     .withMessage("Price must be a positive number"),
   body("category").optional().isMongoId().withMessage("Invalid category ID"),
+  body("weight")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Weight must be a positive number"),
+  body("taxClass")
+    .optional({ values: "null" })
+    .isIn(TAX_CLASSES)
+    .withMessage("Tax class must be one of: " + TAX_CLASSES.join(", ")),
   // Variant validation for updates
   body("variants")
     .optional()
     .isArray()
     .withMessage("Variants must be an array"),
-  body("variants.*.size")
+  ...variantOptionValidators,
+  body("variants.*.price")
     .optional()
-    .notEmpty()
-    .withMessage("Variant size is required")
-    .isIn(PRODUCT_SIZES)
-    .withMessage("Invalid size value"),
-  body("variants.*.color")
+    .isFloat({ min: 0 })
+    .withMessage("Variant price must be a positive number"),
+  body("variants.*.stock")
     .optional()
-    .notEmpty()
-    .withMessage("Variant color is required")
-    .trim(),
+    .isInt({ min: 0 })
+    .withMessage("Variant stock must be a non-negative integer"),
+  handleValidationErrors,
+];
+
+// Bulk variant edit: rows with an _id patch that variant, others are added
+const patchVariantsValidator: (ValidationChain | RequestHandler)[] = [
+  body("variants")
+    .isArray({ min: 1, max: 500 })
+    .withMessage("Send between 1 and 500 variants"),
+  body("variants.*._id")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid variant ID"),
+  ...variantOptionValidators,
   body("variants.*.price")
     .optional()
     .isFloat({ min: 0 })
@@ -193,6 +240,11 @@ const updateProductValidator: (ValidationChain | RequestHandler)[] = [
     .optional()
     .isInt({ min: 0 })
     .withMessage("Variant stock must be a non-negative integer"),
+  body("variants.*.sku")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Variant SKU cannot exceed 50 characters"),
   handleValidationErrors,
 ];
 
@@ -214,44 +266,159 @@ const createCategoryValidator: (ValidationChain | RequestHandler)[] = [
     .optional({ nullable: true } as any)
     .isMongoId()
     .withMessage("Invalid parent category ID"),
+  body("taxClass")
+    .optional({ values: "null" })
+    .isIn(TAX_CLASSES)
+    .withMessage("Tax class must be one of: " + TAX_CLASSES.join(", ")),
+  body("attributes")
+    .optional()
+    .isArray()
+    .withMessage("Attributes must be an array"),
+  body("attributes.*").isMongoId().withMessage("Invalid attribute ID"),
   handleValidationErrors,
 ];
 
+const attributeFieldValidators = (
+  isUpdate: boolean,
+): (ValidationChain | RequestHandler)[] => {
+  const required = (chain: ValidationChain) =>
+    isUpdate ? chain.optional() : chain;
+
+  return [
+    required(body("name"))
+      .trim()
+      .notEmpty()
+      .withMessage("Attribute name is required")
+      .isLength({ max: 50 })
+      .withMessage("Name cannot exceed 50 characters"),
+    body("type")
+      .optional()
+      .isIn(ATTRIBUTE_TYPES)
+      .withMessage("Type must be one of: " + ATTRIBUTE_TYPES.join(", ")),
+    body("values")
+      .optional()
+      .isArray({ max: 100 })
+      .withMessage("Values must be a list of up to 100 entries"),
+    body("values.*")
+      .trim()
+      .notEmpty()
+      .withMessage("Values cannot be blank")
+      .isLength({ max: 100 })
+      .withMessage("Values cannot exceed 100 characters"),
+    body("unit")
+      .optional()
+      .trim()
+      .isLength({ max: 20 })
+      .withMessage("Unit cannot exceed 20 characters"),
+    handleValidationErrors,
+  ];
+};
+
+const createAttributeValidator = attributeFieldValidators(false);
+const updateAttributeValidator = attributeFieldValidators(true);
+
 // =============== ORDER VALIDATORS ===============
 
+// Nepal delivery address fields shared by orders and the address book
+const addressFieldValidators = (
+  prefix: string,
+  isUpdate: boolean,
+  condition?: ValidationChain,
+): ValidationChain[] => {
+  const required = (chain: ValidationChain) => {
+    const scoped = condition ? chain.if(condition) : chain;
+    return isUpdate ? scoped.optional() : scoped;
+  };
+
+  return [
+    required(body(`${prefix}name`))
+      .trim()
+      .notEmpty()
+      .withMessage("Recipient name is required"),
+    required(body(`${prefix}phone`))
+      .notEmpty()
+      .withMessage("Phone number is required")
+      .matches(/^(\+?977)?[0-9]{10}$/)
+      .withMessage("Please provide a valid Nepali phone number"),
+    required(body(`${prefix}street`))
+      .trim()
+      .notEmpty()
+      .withMessage("Street address is required"),
+    required(body(`${prefix}city`))
+      .trim()
+      .notEmpty()
+      .withMessage("City is required"),
+    required(body(`${prefix}district`))
+      .trim()
+      .notEmpty()
+      .withMessage("District is required"),
+    required(body(`${prefix}province`))
+      .isInt({ min: 1, max: 7 })
+      .withMessage("Province must be between 1 and 7"),
+  ];
+};
+
 const createOrderValidator: (ValidationChain | RequestHandler)[] = [
+  body("addressId")
+    .optional({ values: "falsy" })
+    .isMongoId()
+    .withMessage("Invalid address ID"),
+  // An inline address is only required when no saved address is chosen
   body("shippingAddress")
+    .if(body("addressId").not().exists({ values: "falsy" }))
     .notEmpty()
     .withMessage("Shipping address is required"),
-  body("shippingAddress.name")
-    .trim()
-    .notEmpty()
-    .withMessage("Recipient name is required"),
-  body("shippingAddress.phone")
-    .notEmpty()
-    .withMessage("Phone number is required")
-    .matches(/^(\+?977)?[0-9]{10}$/)
-    .withMessage("Please provide a valid Nepali phone number"),
-  body("shippingAddress.street")
-    .trim()
-    .notEmpty()
-    .withMessage("Street address is required"),
-  body("shippingAddress.city")
-    .trim()
-    .notEmpty()
-    .withMessage("City is required"),
-  body("shippingAddress.district")
-    .trim()
-    .notEmpty()
-    .withMessage("District is required"),
-  body("shippingAddress.province")
-    .isInt({ min: 1, max: 7 })
-    .withMessage("Province must be between 1 and 7"),
+  ...addressFieldValidators(
+    "shippingAddress.",
+    false,
+    body("addressId").not().exists({ values: "falsy" }),
+  ),
   body("paymentMethod")
     .notEmpty()
     .withMessage("Payment method is required")
-    .isIn(["cod", "esewa", "khalti"])
+    .isIn(["cod", "esewa", "khalti", "stripe", "fonepay", "mock"])
     .withMessage("Invalid payment method"),
+  body("couponCode")
+    .optional({ nullable: true } as any)
+    .isString()
+    .trim()
+    .isLength({ max: 30 })
+    .withMessage("Invalid coupon code"),
+  body("shippingRuleId")
+    .optional({ nullable: true } as any)
+    .isMongoId()
+    .withMessage("Invalid shipping option"),
+  handleValidationErrors,
+];
+
+const editOrderValidator: (ValidationChain | RequestHandler)[] = [
+  body("items")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("An order needs at least one item"),
+  body("items.*.product").isMongoId().withMessage("Invalid product ID"),
+  body("items.*.variantId")
+    .optional({ values: "null" })
+    .isMongoId()
+    .withMessage("Invalid variant ID"),
+  body("items.*.quantity")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be at least 1")
+    .toInt(),
+  ...addressFieldValidators(
+    "shippingAddress.",
+    false,
+    body("shippingAddress").exists(),
+  ),
+  body("shippingRuleId")
+    .optional({ nullable: true } as any)
+    .isMongoId()
+    .withMessage("Invalid shipping option"),
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
   handleValidationErrors,
 ];
 
@@ -283,6 +450,596 @@ const updateCartItemValidator: (ValidationChain | RequestHandler)[] = [
   handleValidationErrors,
 ];
 
+const applyCouponValidator: (ValidationChain | RequestHandler)[] = [
+  body("code")
+    .trim()
+    .notEmpty()
+    .withMessage("Coupon code is required")
+    .isLength({ max: 30 })
+    .withMessage("Coupon code cannot exceed 30 characters"),
+  handleValidationErrors,
+];
+
+// =============== COUPON VALIDATORS ===============
+
+const couponFieldValidators = (
+  isUpdate: boolean,
+): (ValidationChain | RequestHandler)[] => {
+  const required = (chain: ValidationChain) =>
+    isUpdate ? chain.optional() : chain;
+
+  return [
+    required(body("code"))
+      .trim()
+      .notEmpty()
+      .withMessage("Coupon code is required")
+      .matches(/^[A-Za-z0-9_-]{3,30}$/)
+      .withMessage(
+        "Code must be 3-30 characters (letters, numbers, dash, underscore)",
+      ),
+    required(body("type"))
+      .isIn(["percentage", "fixed"])
+      .withMessage("Type must be percentage or fixed"),
+    required(body("value"))
+      .isFloat({ min: 0 })
+      .withMessage("Value must be a positive number"),
+    body("maxDiscount")
+      .optional({ nullable: true } as any)
+      .isFloat({ min: 0 })
+      .withMessage("Max discount must be a positive number"),
+    body("minSubtotal")
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage("Minimum subtotal must be a positive number"),
+    body("usageLimit")
+      .optional({ nullable: true } as any)
+      .isInt({ min: 1 })
+      .withMessage("Usage limit must be at least 1"),
+    body("perUserLimit")
+      .optional({ nullable: true } as any)
+      .isInt({ min: 1 })
+      .withMessage("Per-user limit must be at least 1"),
+    body("startsAt")
+      .optional({ nullable: true } as any)
+      .isISO8601()
+      .withMessage("Start date must be a valid date"),
+    body("expiresAt")
+      .optional({ nullable: true } as any)
+      .isISO8601()
+      .withMessage("Expiry date must be a valid date"),
+    body("applicableCategories")
+      .optional()
+      .isArray()
+      .withMessage("Applicable categories must be an array"),
+    body("applicableCategories.*")
+      .isMongoId()
+      .withMessage("Invalid category ID"),
+    body("applicableProducts")
+      .optional()
+      .isArray()
+      .withMessage("Applicable products must be an array"),
+    body("applicableProducts.*").isMongoId().withMessage("Invalid product ID"),
+    handleValidationErrors,
+  ];
+};
+
+const createCouponValidator = couponFieldValidators(false);
+const updateCouponValidator = couponFieldValidators(true);
+
+// =============== ADDRESS VALIDATORS ===============
+
+const addressBookValidators = (
+  isUpdate: boolean,
+): (ValidationChain | RequestHandler)[] => [
+  body("label")
+    .optional()
+    .trim()
+    .isLength({ max: 30 })
+    .withMessage("Label cannot exceed 30 characters"),
+  body("type")
+    .optional()
+    .isIn(["home", "work", "other"])
+    .withMessage("Type must be home, work or other"),
+  ...addressFieldValidators("", isUpdate),
+  body("postalCode")
+    .optional()
+    .trim()
+    .isLength({ max: 10 })
+    .withMessage("Postal code cannot exceed 10 characters"),
+  body("isDefault")
+    .optional()
+    .isBoolean()
+    .withMessage("isDefault must be true or false"),
+  handleValidationErrors,
+];
+
+const createAddressValidator = addressBookValidators(false);
+const updateAddressValidator = addressBookValidators(true);
+
+// =============== SHIPPING VALIDATORS ===============
+
+const shippingQuoteValidator: (ValidationChain | RequestHandler)[] = [
+  body("shippingAddress")
+    .notEmpty()
+    .withMessage("Shipping address is required"),
+  body("shippingAddress.district")
+    .trim()
+    .notEmpty()
+    .withMessage("District is required"),
+  body("shippingAddress.province")
+    .isInt({ min: 1, max: 7 })
+    .withMessage("Province must be between 1 and 7"),
+  handleValidationErrors,
+];
+
+const shippingRuleFieldValidators = (
+  prefix: string,
+  isUpdate: boolean,
+): ValidationChain[] => {
+  const required = (chain: ValidationChain) =>
+    isUpdate ? chain.optional() : chain;
+
+  return [
+    required(body(`${prefix}name`))
+      .trim()
+      .notEmpty()
+      .withMessage("Rule name is required")
+      .isLength({ max: 50 })
+      .withMessage("Rule name cannot exceed 50 characters"),
+    body(`${prefix}rateType`)
+      .optional()
+      .isIn(["flat", "weight"])
+      .withMessage("Rate type must be flat or weight"),
+    body([
+      `${prefix}flatRate`,
+      `${prefix}baseRate`,
+      `${prefix}baseWeight`,
+      `${prefix}perKgRate`,
+    ])
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage("Rates and weights must be positive numbers"),
+    body(`${prefix}freeShippingThreshold`)
+      .optional({ nullable: true } as any)
+      .isFloat({ min: 0 })
+      .withMessage("Free shipping threshold must be a positive number"),
+    body([`${prefix}minDays`, `${prefix}maxDays`])
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage("Delivery days must be a non-negative integer"),
+  ];
+};
+
+const shippingZoneFieldValidators = (
+  isUpdate: boolean,
+): (ValidationChain | RequestHandler)[] => {
+  const required = (chain: ValidationChain) =>
+    isUpdate ? chain.optional() : chain;
+
+  return [
+    required(body("name"))
+      .trim()
+      .notEmpty()
+      .withMessage("Zone name is required")
+      .isLength({ max: 50 })
+      .withMessage("Zone name cannot exceed 50 characters"),
+    body("districts")
+      .optional()
+      .isArray()
+      .withMessage("Districts must be an array"),
+    body("districts.*")
+      .trim()
+      .notEmpty()
+      .withMessage("District names cannot be empty"),
+    body("provinces")
+      .optional()
+      .isArray()
+      .withMessage("Provinces must be an array"),
+    body("provinces.*")
+      .isInt({ min: 1, max: 7 })
+      .withMessage("Province must be between 1 and 7"),
+    body("priority")
+      .optional()
+      .isInt()
+      .withMessage("Priority must be an integer"),
+    body("rules").optional().isArray().withMessage("Rules must be an array"),
+    ...shippingRuleFieldValidators("rules.*.", false),
+    handleValidationErrors,
+  ];
+};
+
+const createShippingZoneValidator = shippingZoneFieldValidators(false);
+const updateShippingZoneValidator = shippingZoneFieldValidators(true);
+const createShippingRuleValidator: (ValidationChain | RequestHandler)[] = [
+  ...shippingRuleFieldValidators("", false),
+  handleValidationErrors,
+];
+const updateShippingRuleValidator: (ValidationChain | RequestHandler)[] = [
+  ...shippingRuleFieldValidators("", true),
+  handleValidationErrors,
+];
+
+// =============== PAYMENT VALIDATORS ===============
+
+const retryPaymentValidator: (ValidationChain | RequestHandler)[] = [
+  body("orderId").isMongoId().withMessage("Invalid order ID"),
+  body("gateway")
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cod", "esewa", "khalti", "stripe", "fonepay", "mock"])
+    .withMessage("Invalid payment method"),
+  handleValidationErrors,
+];
+
+const codCollectedValidator: (ValidationChain | RequestHandler)[] = [
+  body("orderId").isMongoId().withMessage("Invalid order ID"),
+  body("collectedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Enter the courier or rider who collected the cash")
+    .isLength({ max: 100 })
+    .withMessage("Collector name cannot exceed 100 characters"),
+  body("amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Collected amount must be a positive number")
+    .toFloat(),
+  body("collectedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Collection date must be a valid date")
+    .toDate(),
+  handleValidationErrors,
+];
+
+// =============== COD REMITTANCE VALIDATORS ===============
+
+const createRemittanceValidator: (ValidationChain | RequestHandler)[] = [
+  body("collector").trim().notEmpty().withMessage("Collector is required"),
+  body("paymentIds")
+    .optional()
+    .isArray()
+    .withMessage("Payment IDs must be an array"),
+  body("paymentIds.*").isMongoId().withMessage("Invalid payment ID"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const receiveRemittanceValidator: (ValidationChain | RequestHandler)[] = [
+  body("receivedAmount")
+    .isFloat({ min: 0 })
+    .withMessage("Received amount must be a positive number")
+    .toFloat(),
+  body("reference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Reference cannot exceed 100 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const remittanceQueryValidator: (ValidationChain | RequestHandler)[] = [
+  query("status")
+    .optional()
+    .isIn(["pending", "settled", "discrepancy"])
+    .withMessage("Invalid remittance status"),
+  handleValidationErrors,
+];
+
+const codReportValidator: (ValidationChain | RequestHandler)[] = [
+  query("from").optional().isISO8601().withMessage("From must be a valid date"),
+  query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("Format must be json or csv"),
+  handleValidationErrors,
+];
+
+// =============== FINANCE VALIDATORS ===============
+
+const financeReportValidator: (ValidationChain | RequestHandler)[] = [
+  query("from").optional().isISO8601().withMessage("From must be a valid date"),
+  query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  query("interval")
+    .optional()
+    .isIn(["day", "month"])
+    .withMessage("Interval must be day or month"),
+  query("gateway")
+    .optional()
+    .isIn(["cod", "esewa", "khalti", "stripe", "fonepay", "mock"])
+    .withMessage("Invalid gateway"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("Format must be json or csv"),
+  handleValidationErrors,
+];
+
+const vatRegisterValidator: (ValidationChain | RequestHandler)[] = [
+  query("fiscalYear")
+    .optional()
+    .matches(/^\d{4}\/\d{2}$/)
+    .withMessage("Fiscal year must look like 2082/83"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("Format must be json or csv"),
+  handleValidationErrors,
+];
+
+// =============== REFUND VALIDATORS ===============
+
+const refundValidator: (ValidationChain | RequestHandler)[] = [
+  body("amount")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Refund amount must be a positive number")
+    .toFloat(),
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const completeRefundValidator: (ValidationChain | RequestHandler)[] = [
+  body("reference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Reference cannot exceed 100 characters"),
+  handleValidationErrors,
+];
+
+// =============== RETURN VALIDATORS ===============
+
+const RETURN_REASONS = [
+  "wrong_item",
+  "wrong_size",
+  "damaged",
+  "defective",
+  "not_as_described",
+  "changed_mind",
+  "other",
+];
+
+const RETURN_STATUSES = [
+  "requested",
+  "approved",
+  "rejected",
+  "pickup_scheduled",
+  "received",
+  "inspected",
+  "completed",
+  "cancelled",
+];
+
+const createReturnValidator: (ValidationChain | RequestHandler)[] = [
+  body("orderId")
+    .notEmpty()
+    .withMessage("Order ID is required")
+    .isMongoId()
+    .withMessage("Invalid order ID"),
+  body("type")
+    .isIn(["return", "exchange"])
+    .withMessage("Type must be return or exchange"),
+  body("reason").isIn(RETURN_REASONS).withMessage("Invalid return reason"),
+  body("reasonDetails")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Details cannot exceed 1000 characters"),
+  body("photos")
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage("Up to 5 photos can be attached"),
+  body("photos.*.url").isURL().withMessage("Invalid photo URL"),
+  body("items")
+    .isArray({ min: 1 })
+    .withMessage("Choose at least one item to return")
+    .custom(
+      (items: { itemId?: string }[]) =>
+        new Set(items.map((item) => item.itemId)).size === items.length,
+    )
+    .withMessage("Each item can only be listed once"),
+  body("items.*.itemId").isMongoId().withMessage("Invalid item ID"),
+  body("items.*.quantity")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be at least 1")
+    .toInt(),
+  body("items.*.exchangeVariantId")
+    .optional({ nullable: true } as any)
+    .isMongoId()
+    .withMessage("Invalid exchange option"),
+  handleValidationErrors,
+];
+
+const returnQueryValidator: (ValidationChain | RequestHandler)[] = [
+  query("status")
+    .optional()
+    .isIn(RETURN_STATUSES)
+    .withMessage("Invalid return status"),
+  query("order").optional().isMongoId().withMessage("Invalid order ID"),
+  handleValidationErrors,
+];
+
+const rejectReturnValidator: (ValidationChain | RequestHandler)[] = [
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const returnNoteValidator: (ValidationChain | RequestHandler)[] = [
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const returnPickupValidator: (ValidationChain | RequestHandler)[] = [
+  body("scheduledFor")
+    .optional()
+    .isISO8601()
+    .withMessage("Pickup date must be a valid date")
+    .toDate(),
+  body("courier")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Courier cannot exceed 100 characters"),
+  body("trackingNumber")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Tracking number cannot exceed 100 characters"),
+  handleValidationErrors,
+];
+
+const inspectReturnValidator: (ValidationChain | RequestHandler)[] = [
+  body("items").isArray().withMessage("Items are required"),
+  body("items.*.itemId").isMongoId().withMessage("Invalid item ID"),
+  body("items.*.acceptedQuantity")
+    .isInt({ min: 0 })
+    .withMessage("Accepted quantity cannot be negative")
+    .toInt(),
+  body("items.*.restock").optional().isBoolean().toBoolean(),
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const completeReturnValidator: (ValidationChain | RequestHandler)[] = [
+  body("resolution")
+    .optional()
+    .isIn(["refund", "replacement"])
+    .withMessage("Resolution must be refund or replacement"),
+  handleValidationErrors,
+];
+
+// =============== SHIPMENT VALIDATORS ===============
+
+const SHIPMENT_STATUSES = [
+  "created",
+  "picked_up",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "failed",
+  "returned",
+];
+
+const createShipmentValidator: (ValidationChain | RequestHandler)[] = [
+  body("courier")
+    .trim()
+    .notEmpty()
+    .withMessage("Courier is required")
+    .toLowerCase(),
+  body("carrier")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Carrier cannot exceed 100 characters"),
+  body("trackingNumber")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Tracking number cannot exceed 100 characters"),
+  body("trackingUrl")
+    .optional({ values: "falsy" })
+    .trim()
+    .isURL()
+    .withMessage("Tracking URL must be a valid URL"),
+  body("instructions")
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage("Instructions cannot exceed 300 characters"),
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
+const trackingEventValidator: (ValidationChain | RequestHandler)[] = [
+  body("status").isIn(SHIPMENT_STATUSES).withMessage("Invalid tracking status"),
+  body("description")
+    .trim()
+    .notEmpty()
+    .withMessage("Description is required")
+    .isLength({ max: 300 })
+    .withMessage("Description cannot exceed 300 characters"),
+  body("location")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Location cannot exceed 100 characters"),
+  body("occurredAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Time must be a valid date")
+    .toDate(),
+  handleValidationErrors,
+];
+
+// =============== INVOICE VALIDATORS ===============
+
+const orderDocumentsValidator: (ValidationChain | RequestHandler)[] = [
+  body("orderIds")
+    .isArray({ min: 1, max: 100 })
+    .withMessage("Select between 1 and 100 orders"),
+  body("orderIds.*").isMongoId().withMessage("Invalid order ID"),
+  body("type")
+    .optional()
+    .isIn(["invoice", "packing_slip"])
+    .withMessage("Type must be invoice or packing_slip"),
+  handleValidationErrors,
+];
+
+// =============== PAYMENT RECONCILIATION VALIDATORS ===============
+
+const discrepancyQueryValidator: (ValidationChain | RequestHandler)[] = [
+  query("status")
+    .optional()
+    .isIn(["open", "resolved"])
+    .withMessage("Status must be open or resolved"),
+  query("type")
+    .optional()
+    .isIn(["paid_unmatched", "amount_mismatch"])
+    .withMessage("Invalid discrepancy type"),
+  handleValidationErrors,
+];
+
+const resolveDiscrepancyValidator: (ValidationChain | RequestHandler)[] = [
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
+  handleValidationErrors,
+];
+
 // =============== REVIEW VALIDATORS ===============
 
 const createReviewValidator: (ValidationChain | RequestHandler)[] = [
@@ -325,17 +1082,143 @@ const paginationValidator: (ValidationChain | RequestHandler)[] = [
   handleValidationErrors,
 ];
 
+// Storefront listing filters; multi-select filters are checked by the service
+const productQueryValidator: (ValidationChain | RequestHandler)[] = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  query(["minPrice", "maxPrice"])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Price must be a positive number"),
+  query("inStock")
+    .optional()
+    .isBoolean()
+    .withMessage("inStock must be true or false"),
+  query("sort")
+    .optional()
+    .matches(/^-?[\w.]+(,-?[\w.]+)*$/)
+    .withMessage("Invalid sort"),
+  handleValidationErrors,
+];
+
+const suggestValidator: (ValidationChain | RequestHandler)[] = [
+  query("q")
+    .trim()
+    .notEmpty()
+    .withMessage("Search text is required")
+    .isLength({ max: 100 })
+    .withMessage("Search text cannot exceed 100 characters"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage("Limit must be between 1 and 10"),
+  handleValidationErrors,
+];
+
+const searchClickValidator: (ValidationChain | RequestHandler)[] = [
+  param("id").isMongoId().withMessage("Invalid search ID"),
+  body("productId").isMongoId().withMessage("Invalid product ID"),
+  handleValidationErrors,
+];
+
+const searchReportValidator: (ValidationChain | RequestHandler)[] = [
+  query("from").optional().isISO8601().withMessage("From must be a valid date"),
+  query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  handleValidationErrors,
+];
+
+const synonymFieldValidators = (
+  isUpdate: boolean,
+): (ValidationChain | RequestHandler)[] => {
+  const required = (chain: ValidationChain) =>
+    isUpdate ? chain.optional() : chain;
+
+  return [
+    required(body("term"))
+      .trim()
+      .notEmpty()
+      .withMessage("Term is required")
+      .isLength({ max: 50 })
+      .withMessage("Term cannot exceed 50 characters"),
+    required(body("synonyms"))
+      .isArray({ min: 1, max: 20 })
+      .withMessage("Synonyms must be a list of 1 to 20 words"),
+    body("synonyms.*")
+      .trim()
+      .notEmpty()
+      .withMessage("Synonyms cannot be blank")
+      .isLength({ max: 50 })
+      .withMessage("Synonyms cannot exceed 50 characters"),
+    handleValidationErrors,
+  ];
+};
+
+const createSynonymValidator = synonymFieldValidators(false);
+const updateSynonymValidator = synonymFieldValidators(true);
+
 export {
   handleValidationErrors,
   registerValidator,
   loginValidator,
   createProductValidator,
   updateProductValidator,
+  patchVariantsValidator,
   createCategoryValidator,
+  createAttributeValidator,
+  updateAttributeValidator,
   createOrderValidator,
+  editOrderValidator,
   addToCartValidator,
   updateCartItemValidator,
+  applyCouponValidator,
+  createCouponValidator,
+  updateCouponValidator,
+  createAddressValidator,
+  updateAddressValidator,
+  shippingQuoteValidator,
+  createShippingZoneValidator,
+  updateShippingZoneValidator,
+  createShippingRuleValidator,
+  updateShippingRuleValidator,
+  retryPaymentValidator,
+  createReturnValidator,
+  returnQueryValidator,
+  rejectReturnValidator,
+  returnNoteValidator,
+  returnPickupValidator,
+  inspectReturnValidator,
+  completeReturnValidator,
+  createShipmentValidator,
+  trackingEventValidator,
+  orderDocumentsValidator,
+  refundValidator,
+  completeRefundValidator,
+  discrepancyQueryValidator,
+  resolveDiscrepancyValidator,
+  codCollectedValidator,
+  createRemittanceValidator,
+  receiveRemittanceValidator,
+  remittanceQueryValidator,
+  codReportValidator,
+  financeReportValidator,
+  vatRegisterValidator,
   createReviewValidator,
   mongoIdValidator,
   paginationValidator,
+  productQueryValidator,
+  suggestValidator,
+  searchClickValidator,
+  searchReportValidator,
+  createSynonymValidator,
+  updateSynonymValidator,
 };
@@ -0,0 +1,69 @@
+/**
+ * Attribute Model
+ * An option variants can be told apart by, e.g. size, material or capacity.
+ * Categories list the attributes their products' variants carry
+ */
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// select: one of the listed values; text: anything; number: a number in `unit`
+export const ATTRIBUTE_TYPES = ["select", "text", "number"] as const;
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export interface IAttribute extends Document {
+  name: string;
+  type: AttributeType;
+  values: string[];
+  unit?: string;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attributeSchema = new Schema<IAttribute>(
+  {
+    name: {
+      type: String,
+      required: [true, "Attribute name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [50, "Attribute name cannot exceed 50 characters"],
+    },
+    type: {
+      type: String,
+      enum: ATTRIBUTE_TYPES,
+      default: "select",
+    },
+    // Allowed values, in display order; only used by select attributes
+    values: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          maxlength: [100, "Value cannot exceed 100 characters"],
+        },
+      ],
+      validate: {
+        validator: function (this: any, values: string[]) {
+          return this.type !== "select" || values.length > 0;
+        },
+        message: "A select attribute needs at least one value",
+      },
+    },
+    unit: {
+      type: String,
+      trim: true,
+      maxlength: [20, "Unit cannot exceed 20 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+const Attribute = mongoose.model<IAttribute>("Attribute", attributeSchema);
+
+export default Attribute;
@@ -26,6 +26,7 @@ export interface ICartMethods {
 export interface ICart extends Document, ICartMethods {
     user: Types.ObjectId;
     items: Types.DocumentArray<ICartItem & Document>;
+    couponCode?: string | null;
     itemCount: number;
     createdAt: Date;
     updatedAt: Date;
@@ -64,6 +65,13 @@ const cartSchema = new Schema<ICart, ICartModel>({
         unique: true,
     },
     items: [cartItemSchema],
+    // Promo code applied from the cart; re-validated on every read and at checkout
+    couponCode: {
+        type: String,
+        uppercase: true,
+        trim: true,
+        default: null,
+    },
 }, {
     timestamps: true,
     toJSON: { virtuals: true },
@@ -167,6 +175,7 @@ cartSchema.methods.removeItem = async function (this: ICart, itemId: string | Ty
 
 cartSchema.methods.clear = async function (this: ICart) {
     this.items = [] as any;
+    this.couponCode = null;
     await this.save();
     return this;
 };
@@ -175,7 +184,7 @@ cartSchema.methods.clear = async function (this: ICart) {
 cartSchema.statics.getOrCreate = async function (userId: string | Types.ObjectId) {
     let cart = await this.findOne({ user: userId }).populate({
         path: 'items.product',
-        select: 'name slug price comparePrice images stock variants isActive',
+        select: 'name slug price comparePrice images stock variants isActive category taxClass',
     });
 
     if (!cart) {
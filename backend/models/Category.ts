@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose";
 import { createSlug } from "../utils/helpers";
+import { TAX_CLASSES, TaxClass } from "../utils/constants";
 
 export interface ICategory extends Document {
   name: string;
@@ -12,6 +13,8 @@ export interface ICategory extends Document {
   parent: Types.ObjectId | ICategory | null;
   order: number;
   isActive: boolean;
+  taxClass: TaxClass | null;
+  attributes: Types.ObjectId[];
   subcategories?: ICategory[];
   createdAt: Date;
   updatedAt: Date;
@@ -57,6 +60,20 @@ const categorySchema = new Schema<ICategory, ICategoryModel>(
       type: Boolean,
       default: true,
     },
+    // VAT treatment for its products; null falls back to the parent category,
+    // then to standard VAT
+    taxClass: {
+      type: String,
+      enum: [...TAX_CLASSES, null],
+      default: null,
+    },
+    // Attributes its products' variants carry, on top of the parent's
+    attributes: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Attribute",
+      },
+    ],
   },
   {
     timestamps: true,
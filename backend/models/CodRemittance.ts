@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * pending:     batch created, cash not yet handed over by the courier/rider
+ * settled:     received amount matches what was collected (or the gap was resolved)
+ * discrepancy: received amount differs from what was collected
+ */
+export type RemittanceStatus = 'pending' | 'settled' | 'discrepancy';
+
+export interface ICodRemittance extends Document {
+    remittanceNumber: string;
+    collector: string;
+    payments: Types.ObjectId[];
+    expectedAmount: number;
+    receivedAmount?: number;
+    status: RemittanceStatus;
+    reference?: string;
+    notes?: string;
+    createdBy: Types.ObjectId;
+    receivedAt?: Date;
+    receivedBy?: Types.ObjectId;
+    resolvedAt?: Date;
+    resolvedBy?: Types.ObjectId;
+    resolutionNote?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Generate remittance number
+ * Format: REM-YYYYMMDD-XXXXX (random)
+ */
+const generateRemittanceNumber = (): string => {
+    const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const random = Math.random().toString(36).substring(2, 7).toUpperCase();
+    return `REM-${dateStr}-${random}`;
+};
+
+const codRemittanceSchema = new Schema<ICodRemittance>({
+    remittanceNumber: {
+        type: String,
+        unique: true,
+        required: true,
+        default: generateRemittanceNumber,
+    },
+    collector: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    payments: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Payment',
+    }],
+    // Sum of the cash recorded as collected on the batched payments
+    expectedAmount: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    receivedAmount: {
+        type: Number,
+        min: 0,
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'settled', 'discrepancy'],
+        default: 'pending',
+    },
+    // Bank deposit slip or courier statement number
+    reference: String,
+    notes: {
+        type: String,
+        maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    receivedAt: Date,
+    receivedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    resolvedAt: Date,
+    resolvedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    resolutionNote: {
+        type: String,
+        maxlength: [500, 'Resolution note cannot exceed 500 characters'],
+    },
+}, {
+    timestamps: true,
+});
+
+codRemittanceSchema.index({ collector: 1, createdAt: -1 });
+codRemittanceSchema.index({ status: 1, createdAt: -1 });
+
+const CodRemittance = mongoose.model<ICodRemittance>('CodRemittance', codRemittanceSchema);
+
+export default CodRemittance;
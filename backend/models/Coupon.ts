@@ -0,0 +1,206 @@
+import mongoose, {
+  Schema,
+  Document,
+  Model,
+  Types,
+  ClientSession,
+} from "mongoose";
+
+export type CouponType = "percentage" | "fixed";
+
+export interface ICouponMethods {
+  isWithinValidity(at?: Date): boolean;
+  calculateDiscount(eligibleSubtotal: number): number;
+}
+
+export interface ICoupon extends Document, ICouponMethods {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minSubtotal: number;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  usedCount: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  applicableCategories: Types.ObjectId[];
+  applicableProducts: Types.ObjectId[];
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  isExhausted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ICouponModel extends Model<ICoupon> {
+  findByCode(code: string): Promise<ICoupon | null>;
+  redeem(
+    couponId: string | Types.ObjectId,
+    session?: ClientSession,
+  ): Promise<ICoupon | null>;
+  release(couponId: string | Types.ObjectId): Promise<ICoupon | null>;
+}
+
+const couponSchema = new Schema<ICoupon, ICouponModel>(
+  {
+    code: {
+      type: String,
+      required: [true, "Coupon code is required"],
+      unique: true,
+      uppercase: true,
+      trim: true,
+      maxlength: [30, "Coupon code cannot exceed 30 characters"],
+    },
+    description: {
+      type: String,
+      maxlength: [200, "Description cannot exceed 200 characters"],
+    },
+    type: {
+      type: String,
+      enum: ["percentage", "fixed"],
+      required: true,
+    },
+    value: {
+      type: Number,
+      required: [true, "Coupon value is required"],
+      min: [0, "Coupon value cannot be negative"],
+    },
+    // Cap for percentage coupons (e.g. 20% up to NPR 500)
+    maxDiscount: {
+      type: Number,
+      min: 0,
+    },
+    minSubtotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // null = unlimited
+    usageLimit: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    perUserLimit: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    startsAt: Date,
+    expiresAt: Date,
+    // Empty arrays mean the coupon applies to the whole cart
+    applicableCategories: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+    applicableProducts: [{ type: Schema.Types.ObjectId, ref: "Product" }],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  },
+);
+
+// Indexes
+couponSchema.index({ isActive: 1, expiresAt: 1 });
+
+// Virtuals
+couponSchema.virtual("isExhausted").get(function (this: ICoupon) {
+  return this.usageLimit != null && this.usedCount >= this.usageLimit;
+});
+
+// Middleware
+couponSchema.pre("validate", function (this: ICoupon) {
+  if (this.type === "percentage" && this.value > 100) {
+    this.invalidate("value", "Percentage discount cannot exceed 100");
+  }
+  if (this.startsAt && this.expiresAt && this.startsAt > this.expiresAt) {
+    this.invalidate("expiresAt", "Expiry date must be after start date");
+  }
+});
+
+// Instance methods
+couponSchema.methods.isWithinValidity = function (
+  this: ICoupon,
+  at: Date = new Date(),
+) {
+  if (this.startsAt && at < this.startsAt) return false;
+  if (this.expiresAt && at > this.expiresAt) return false;
+  return true;
+};
+
+/**
+ * Discount for the given eligible subtotal, rounded to whole rupees
+ * and never more than the subtotal itself
+ */
+couponSchema.methods.calculateDiscount = function (
+  this: ICoupon,
+  eligibleSubtotal: number,
+) {
+  if (eligibleSubtotal <= 0) return 0;
+
+  let discount =
+    this.type === "percentage"
+      ? (eligibleSubtotal * this.value) / 100
+      : this.value;
+
+  if (this.type === "percentage" && this.maxDiscount) {
+    discount = Math.min(discount, this.maxDiscount);
+  }
+
+  return Math.round(Math.min(discount, eligibleSubtotal));
+};
+
+// Statics
+couponSchema.statics.findByCode = function (code: string) {
+  return this.findOne({ code: code.trim().toUpperCase() });
+};
+
+/**
+ * Atomically consume one global use of the coupon.
+ * Returns null when the usage limit has already been reached.
+ */
+couponSchema.statics.redeem = function (
+  couponId: string | Types.ObjectId,
+  session?: ClientSession,
+) {
+  return this.findOneAndUpdate(
+    {
+      _id: couponId,
+      $or: [
+        { usageLimit: null },
+        { $expr: { $lt: ["$usedCount", "$usageLimit"] } },
+      ],
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true, session },
+  );
+};
+
+/**
+ * Give back a use (e.g. when the order is cancelled)
+ */
+couponSchema.statics.release = function (couponId: string | Types.ObjectId) {
+  return this.findOneAndUpdate(
+    { _id: couponId, usedCount: { $gt: 0 } },
+    { $inc: { usedCount: -1 } },
+    { new: true },
+  );
+};
+
+const Coupon = mongoose.model<ICoupon, ICouponModel>("Coupon", couponSchema);
+
+export default Coupon;
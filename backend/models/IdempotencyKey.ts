@@ -0,0 +1,65 @@
+/**
+ * Idempotency Key Model
+ * Remembers the outcome of a keyed request so client retries replay it
+ * instead of running it again
+ */
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type IdempotencyKeyStatus = "processing" | "completed";
+
+export interface IIdempotencyKey extends Document {
+  user: Types.ObjectId;
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string;
+  status: IdempotencyKeyStatus;
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    responseStatus: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Keys are scoped to the user that sent them
+idempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+
+// Keys are only honoured for 24 hours
+idempotencyKeySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 24 * 60 * 60 },
+);
+
+const IdempotencyKey = mongoose.model<IIdempotencyKey>(
+  "IdempotencyKey",
+  idempotencyKeySchema,
+);
+
+export default IdempotencyKey;
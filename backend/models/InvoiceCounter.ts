@@ -0,0 +1,31 @@
+/**
+ * Invoice Counter Model
+ * One running invoice sequence per fiscal year, so tax invoice numbers
+ * stay gapless and restart at 1 each Shrawan
+ */
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IInvoiceCounter extends Document {
+  // Bikram Sambat fiscal year, e.g. "2082/83"
+  fiscalYear: string;
+  seq: number;
+}
+
+const invoiceCounterSchema = new Schema<IInvoiceCounter>({
+  fiscalYear: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  seq: {
+    type: Number,
+    default: 0,
+  },
+});
+
+const InvoiceCounter = mongoose.model<IInvoiceCounter>(
+  "InvoiceCounter",
+  invoiceCounterSchema,
+);
+
+export default InvoiceCounter;
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * capture: money taken from the customer (gateway capture or COD collection)
+ * refund:  money paid back to the customer
+ * fee:     what the gateway kept for processing the capture
+ *
+ * Amounts are signed NPR: captures are positive, refunds and fees negative,
+ * so the sum over any range is the net revenue.
+ */
+export type LedgerEntryType = 'capture' | 'refund' | 'fee';
+
+export interface ILedgerEntry extends Document {
+    type: LedgerEntryType;
+    payment: Types.ObjectId;
+    order: Types.ObjectId;
+    gateway: 'cod' | 'esewa' | 'khalti' | 'stripe' | 'fonepay' | 'mock';
+    amount: number;
+    currency: 'NPR';
+    reference: string;
+    description?: string;
+    occurredAt: Date;
+    createdAt: Date;
+}
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>({
+    type: {
+        type: String,
+        enum: ['capture', 'refund', 'fee'],
+        required: true,
+    },
+    payment: {
+        type: Schema.Types.ObjectId,
+        ref: 'Payment',
+        required: true,
+    },
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order',
+        required: true,
+    },
+    gateway: {
+        type: String,
+        enum: ['cod', 'esewa', 'khalti', 'stripe', 'fonepay', 'mock'],
+        required: true,
+    },
+    amount: {
+        type: Number,
+        required: true,
+    },
+    currency: {
+        type: String,
+        enum: ['NPR'],
+        default: 'NPR',
+    },
+    // Transaction id for captures and fees, refund id for refunds
+    reference: {
+        type: String,
+        required: true,
+    },
+    description: String,
+    occurredAt: {
+        type: Date,
+        required: true,
+    },
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+// One entry per movement, however often the same capture or refund is reported
+ledgerEntrySchema.index({ payment: 1, type: 1, reference: 1 }, { unique: true });
+ledgerEntrySchema.index({ occurredAt: 1, gateway: 1 });
+
+// Append-only: corrections are new entries, never edits
+const rejectChange = function () {
+    throw new Error('Ledger entries are append-only');
+};
+
+ledgerEntrySchema.pre('save', function () {
+    if (!this.isNew) rejectChange();
+});
+
+ledgerEntrySchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+        'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    rejectChange,
+);
+
+const LedgerEntry = mongoose.model<ILedgerEntry>('LedgerEntry', ledgerEntrySchema);
+
+export default LedgerEntry;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose";
 import { generateOrderNumber } from "../utils/helpers";
+import { TAX_CLASSES, TaxClass } from "../utils/constants";
 
 export interface IOrderItem {
   product: Types.ObjectId;
@@ -12,8 +13,14 @@ export interface IOrderItem {
   variant?: {
     size?: string;
     color?: string;
+    options?: { name: string; value: string }[];
   };
   subtotal: number;
+  // VAT on this line after its share of any discount
+  taxClass?: TaxClass;
+  taxRate: number;
+  taxableAmount?: number;
+  tax: number;
 }
 
 export interface IShippingAddress {
@@ -31,12 +38,55 @@ export interface IStatusHistory {
   changedAt: Date;
   changedBy?: Types.ObjectId;
   note?: string;
+  // What an admin edit changed, e.g. { before: { items }, after: { items } }
+  changes?: {
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  };
+}
+
+export type ShipmentStatus =
+  | "created"
+  | "picked_up"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "failed"
+  | "returned";
+
+export interface ITrackingEvent {
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+  source: "courier" | "admin";
+}
+
+export interface IShipment {
+  // Courier provider key (see services/courier)
+  courier: string;
+  // Name shown to the customer, e.g. "Nepal Can Move" or "Own rider"
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl?: string;
+  status: ShipmentStatus;
+  events: ITrackingEvent[];
+  shippedAt: Date;
+  deliveredAt?: Date;
+  lastSyncedAt?: Date;
+}
+
+export interface IInvoice {
+  // Sequential within the fiscal year, e.g. "INV-2082/83-00042"
+  number: string;
+  fiscalYear: string;
+  issuedAt: Date;
 }
 
 export interface IOrderMethods {
   updateOrderStatus(
     newStatus: string,
-    userId: string | Types.ObjectId,
+    userId: string | Types.ObjectId | null,
     note?: string,
   ): Promise<IOrder>;
   markPaymentComplete(transactionId: string): Promise<IOrder>;
@@ -47,17 +97,35 @@ export interface IOrder extends Document, IOrderMethods {
   user: Types.ObjectId;
   items: IOrderItem[];
   shippingAddress: IShippingAddress;
+  shippingMethod?: {
+    zone?: Types.ObjectId | string | null;
+    rule?: Types.ObjectId | string | null;
+    zoneName: string;
+    name: string;
+    estimatedDays: {
+      min: number;
+      max: number;
+    };
+  };
   payment: {
-    method: "cod" | "esewa" | "khalti" | "stripe";
-    status: "pending" | "paid" | "failed" | "refunded";
+    method: "cod" | "esewa" | "khalti" | "stripe" | "fonepay" | "mock";
+    status: "pending" | "paid" | "failed" | "partially_refunded" | "refunded";
     transactionId?: string;
     paidAt?: Date;
+    refundedAmount: number;
+    // Set when an admin edit changes the total of a paid online order:
+    // positive is still to be collected, negative is a refund owed
+    balanceDue: number;
   };
   pricing: {
     subtotal: number;
     shippingCost: number;
     discount: number;
+    coupon?: Types.ObjectId | null;
+    couponCode?: string | null;
     tax: number;
+    // Whether item prices already included the VAT when the order was placed
+    pricesIncludeTax: boolean;
     total: number;
   };
   status:
@@ -73,6 +141,10 @@ export interface IOrder extends Document, IOrderMethods {
   deliveredAt?: Date;
   cancelledAt?: Date;
   cancellationReason?: string;
+  reservedUntil?: Date | null;
+  replacementFor?: Types.ObjectId | null;
+  shipment?: IShipment | null;
+  invoice?: IInvoice | null;
   canBeCancelled: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -112,11 +184,28 @@ const orderItemSchema = new Schema<IOrderItem>(
     variant: {
       size: String,
       color: String,
+      options: {
+        type: [{ _id: false, name: String, value: String }],
+        default: undefined,
+      },
     },
     subtotal: {
       type: Number,
       required: true,
     },
+    taxClass: {
+      type: String,
+      enum: TAX_CLASSES,
+    },
+    taxRate: {
+      type: Number,
+      default: 0,
+    },
+    taxableAmount: Number,
+    tax: {
+      type: Number,
+      default: 0,
+    },
   },
   { _id: true },
 );
@@ -169,10 +258,98 @@ const statusHistorySchema = new Schema<IStatusHistory>(
       ref: "User",
     },
     note: String,
+    changes: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+  },
+  { _id: true },
+);
+
+const SHIPMENT_STATUSES: ShipmentStatus[] = [
+  "created",
+  "picked_up",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "failed",
+  "returned",
+];
+
+const trackingEventSchema = new Schema<ITrackingEvent>(
+  {
+    status: {
+      type: String,
+      enum: SHIPMENT_STATUSES,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    location: String,
+    occurredAt: {
+      type: Date,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ["courier", "admin"],
+      default: "courier",
+    },
   },
   { _id: true },
 );
 
+const shipmentSchema = new Schema<IShipment>(
+  {
+    courier: {
+      type: String,
+      required: true,
+    },
+    carrier: {
+      type: String,
+      required: true,
+    },
+    trackingNumber: {
+      type: String,
+      required: true,
+    },
+    trackingUrl: String,
+    status: {
+      type: String,
+      enum: SHIPMENT_STATUSES,
+      default: "created",
+    },
+    events: [trackingEventSchema],
+    shippedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    deliveredAt: Date,
+    lastSyncedAt: Date,
+  },
+  { _id: false },
+);
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    number: {
+      type: String,
+      required: true,
+    },
+    fiscalYear: {
+      type: String,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
 const orderSchema = new Schema<IOrder, IOrderModel>(
   {
     orderNumber: {
@@ -199,19 +376,45 @@ const orderSchema = new Schema<IOrder, IOrderModel>(
       type: shippingAddressSchema,
       required: true,
     },
+    // Snapshot of the shipping rule chosen at checkout
+    shippingMethod: {
+      zone: {
+        type: Schema.Types.ObjectId,
+        ref: "ShippingZone",
+        default: null,
+      },
+      rule: {
+        type: Schema.Types.ObjectId,
+        default: null,
+      },
+      zoneName: String,
+      name: String,
+      estimatedDays: {
+        min: Number,
+        max: Number,
+      },
+    },
     payment: {
       method: {
         type: String,
-        enum: ["cod", "esewa", "khalti", "stripe"],
+        enum: ["cod", "esewa", "khalti", "stripe", "fonepay", "mock"],
         required: true,
       },
       status: {
         type: String,
-        enum: ["pending", "paid", "failed", "refunded"],
+        enum: ["pending", "paid", "failed", "partially_refunded", "refunded"],
         default: "pending",
       },
       transactionId: String,
       paidAt: Date,
+      refundedAmount: {
+        type: Number,
+        default: 0,
+      },
+      balanceDue: {
+        type: Number,
+        default: 0,
+      },
     },
     pricing: {
       subtotal: {
@@ -226,10 +429,23 @@ const orderSchema = new Schema<IOrder, IOrderModel>(
         type: Number,
         default: 0,
       },
+      coupon: {
+        type: Schema.Types.ObjectId,
+        ref: "Coupon",
+        default: null,
+      },
+      couponCode: {
+        type: String,
+        default: null,
+      },
       tax: {
         type: Number,
         default: 0,
       },
+      pricesIncludeTax: {
+        type: Boolean,
+        default: false,
+      },
       total: {
         type: Number,
         required: true,
@@ -253,6 +469,27 @@ const orderSchema = new Schema<IOrder, IOrderModel>(
     deliveredAt: Date,
     cancelledAt: Date,
     cancellationReason: String,
+    // Stock is held for unpaid online orders until this deadline
+    reservedUntil: {
+      type: Date,
+      default: null,
+    },
+    // Set on no-charge orders that ship an exchange or replacement
+    replacementFor: {
+      type: Schema.Types.ObjectId,
+      ref: "ReturnRequest",
+      default: null,
+    },
+    // Courier handover and tracking, set when the order ships
+    shipment: {
+      type: shipmentSchema,
+      default: null,
+    },
+    // Tax invoice, numbered the first time one is issued for the order
+    invoice: {
+      type: invoiceSchema,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -266,6 +503,14 @@ orderSchema.index({ user: 1, createdAt: -1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ "payment.status": 1 });
 orderSchema.index({ createdAt: -1 });
+orderSchema.index({ user: 1, "pricing.coupon": 1 });
+orderSchema.index({ status: 1, "payment.status": 1, reservedUntil: 1 });
+orderSchema.index(
+  { "shipment.courier": 1, "shipment.trackingNumber": 1 },
+  { sparse: true },
+);
+orderSchema.index({ "invoice.number": 1 }, { unique: true, sparse: true });
+orderSchema.index({ "invoice.issuedAt": 1 });
 
 // Virtuals
 orderSchema.virtual("canBeCancelled").get(function (this: IOrder) {
@@ -293,7 +538,7 @@ orderSchema.virtual("total").get(function (this: IOrder) {
 orderSchema.methods.updateOrderStatus = async function (
   this: IOrder,
   newStatus: string,
-  userId: string | Types.ObjectId,
+  userId: string | Types.ObjectId | null,
   note: string = "",
 ) {
   const validTransitions: Record<string, string[]> = {
@@ -328,6 +573,7 @@ orderSchema.methods.updateOrderStatus = async function (
   if (newStatus === "cancelled") {
     this.cancelledAt = new Date();
     this.cancellationReason = note;
+    this.reservedUntil = null;
   }
 
   await this.save();
@@ -341,6 +587,7 @@ orderSchema.methods.markPaymentComplete = async function (
   this.payment.status = "paid";
   this.payment.paidAt = new Date();
   this.payment.transactionId = transactionId;
+  this.reservedUntil = null;
 
   if (this.status === "pending") {
     this.status = "confirmed";
@@ -1,18 +1,44 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+export interface IRefund {
+    _id: Types.ObjectId;
+    amount: number;
+    reason?: string;
+    status: RefundStatus;
+    gatewayRefundId?: string;
+    message?: string;
+    requestedBy?: Types.ObjectId;
+    processedAt?: Date;
+    createdAt: Date;
+}
+
+// Cash handed over on delivery, filled in when an admin marks COD collected
+export interface ICodCollection {
+    collectedBy: string;
+    collectedAt: Date;
+    amount: number;
+    recordedBy?: Types.ObjectId;
+}
+
 export interface IPaymentMethods {
     markComplete(transactionId: string, rawResponse?: any): Promise<IPayment>;
     markFailed(reason: string, rawResponse?: any): Promise<IPayment>;
     processRefund(amount?: number, reason?: string): Promise<IPayment>;
+    getRefundableAmount(): number;
+    completeRefund(refundId: string | Types.ObjectId, gatewayRefundId?: string, message?: string): IRefund;
 }
 
 export interface IPayment extends Document, IPaymentMethods {
     order: Types.ObjectId;
     user: Types.ObjectId;
-    gateway: 'cod' | 'esewa' | 'khalti' | 'stripe';
+    gateway: 'cod' | 'esewa' | 'khalti' | 'stripe' | 'fonepay' | 'mock';
     amount: number;
     currency: 'NPR' | 'USD';
-    status: 'initiated' | 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+    chargedAmount?: number;
+    exchangeRate?: number;
+    status: 'initiated' | 'pending' | 'completed' | 'failed' | 'partially_refunded' | 'refunded' | 'cancelled';
     gatewayResponse: {
         transactionId?: string;
         referenceId?: string;
@@ -26,6 +52,9 @@ export interface IPayment extends Document, IPaymentMethods {
     refundedAt?: Date;
     refundAmount?: number;
     refundReason?: string;
+    refunds: Types.DocumentArray<IRefund & Document>;
+    codCollection?: ICodCollection;
+    remittance?: Types.ObjectId | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -35,6 +64,51 @@ interface IPaymentModel extends Model<IPayment> {
     getStats(startDate?: Date, endDate?: Date): Promise<any[]>;
 }
 
+const refundSchema = new Schema<IRefund>({
+    amount: {
+        type: Number,
+        required: true,
+        min: [0.01, 'Refund amount must be positive'],
+    },
+    reason: String,
+    // Pending refunds hold their amount until the gateway (or an admin) settles them;
+    // failed ones paid nothing out and hold nothing
+    status: {
+        type: String,
+        enum: ['pending', 'completed', 'failed'],
+        default: 'pending',
+    },
+    gatewayRefundId: String,
+    message: String,
+    requestedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    processedAt: Date,
+}, { _id: true, timestamps: { createdAt: true, updatedAt: false } });
+
+const codCollectionSchema = new Schema<ICodCollection>({
+    // Courier or rider holding the cash until it is remitted
+    collectedBy: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    collectedAt: {
+        type: Date,
+        required: true,
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    recordedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, { _id: false });
+
 const paymentSchema = new Schema<IPayment, IPaymentModel>({
     order: {
         type: Schema.Types.ObjectId,
@@ -48,7 +122,7 @@ const paymentSchema = new Schema<IPayment, IPaymentModel>({
     },
     gateway: {
         type: String,
-        enum: ['cod', 'esewa', 'khalti', 'stripe'],
+        enum: ['cod', 'esewa', 'khalti', 'stripe', 'fonepay', 'mock'],
         required: true,
     },
     amount: {
@@ -56,14 +130,18 @@ const paymentSchema = new Schema<IPayment, IPaymentModel>({
         required: true,
         min: 0,
     },
+    // Currency the customer was charged in; amount and refunds stay in NPR
     currency: {
         type: String,
         default: 'NPR',
         enum: ['NPR', 'USD'],
     },
+    // Amount charged in that currency, and the NPR per unit it was charged at
+    chargedAmount: Number,
+    exchangeRate: Number,
     status: {
         type: String,
-        enum: ['initiated', 'pending', 'completed', 'failed', 'refunded', 'cancelled'],
+        enum: ['initiated', 'pending', 'completed', 'failed', 'partially_refunded', 'refunded', 'cancelled'],
         default: 'initiated',
     },
     gatewayResponse: {
@@ -80,8 +158,20 @@ const paymentSchema = new Schema<IPayment, IPaymentModel>({
     failedAt: Date,
     failureReason: String,
     refundedAt: Date,
-    refundAmount: Number,
+    // Total of completed refunds
+    refundAmount: {
+        type: Number,
+        default: 0,
+    },
     refundReason: String,
+    refunds: [refundSchema],
+    codCollection: codCollectionSchema,
+    // Remittance batch the collected cash was handed over in
+    remittance: {
+        type: Schema.Types.ObjectId,
+        ref: 'CodRemittance',
+        default: null,
+    },
 }, {
     timestamps: true,
 });
@@ -92,6 +182,7 @@ paymentSchema.index({ user: 1, createdAt: -1 });
 paymentSchema.index({ status: 1 });
 paymentSchema.index({ gateway: 1 });
 paymentSchema.index({ 'gatewayResponse.transactionId': 1 });
+paymentSchema.index({ 'codCollection.collectedBy': 1, remittance: 1 });
 
 // Instance methods
 paymentSchema.methods.markComplete = async function (this: IPayment, transactionId: string, rawResponse: any = {}) {
@@ -112,15 +203,60 @@ paymentSchema.methods.markFailed = async function (this: IPayment, reason: strin
     return this;
 };
 
+/**
+ * Record a refund that has already been paid out
+ * Defaults to everything that is still refundable
+ */
 paymentSchema.methods.processRefund = async function (this: IPayment, amount?: number, reason?: string) {
-    this.status = 'refunded';
-    this.refundedAt = new Date();
-    this.refundAmount = amount || this.amount;
-    this.refundReason = reason;
+    const refund = this.refunds.create({
+        amount: amount || this.getRefundableAmount(),
+        reason,
+    });
+    this.refunds.push(refund);
+    this.completeRefund(refund._id);
     await this.save();
     return this;
 };
 
+/**
+ * Captured amount not yet claimed by a pending or completed refund
+ */
+paymentSchema.methods.getRefundableAmount = function (this: IPayment) {
+    const claimed = this.refunds
+        .filter(refund => refund.status !== 'failed')
+        .reduce((sum, refund) => sum + refund.amount, 0);
+    return Math.max(this.amount - claimed, 0);
+};
+
+/**
+ * Settle a pending refund and roll it into the payment totals (caller saves)
+ */
+paymentSchema.methods.completeRefund = function (
+    this: IPayment,
+    refundId: string | Types.ObjectId,
+    gatewayRefundId?: string,
+    message?: string,
+) {
+    const refund = this.refunds.id(refundId);
+    if (!refund) {
+        throw new Error('Refund not found');
+    }
+
+    refund.status = 'completed';
+    refund.processedAt = new Date();
+    if (gatewayRefundId) refund.gatewayRefundId = gatewayRefundId;
+    if (message) refund.message = message;
+
+    this.refundAmount = this.refunds
+        .filter((r) => r.status === 'completed')
+        .reduce((sum, r) => sum + r.amount, 0);
+    this.refundedAt = refund.processedAt;
+    this.refundReason = refund.reason || this.refundReason;
+    this.status = this.refundAmount >= this.amount ? 'refunded' : 'partially_refunded';
+
+    return refund;
+};
+
 // Statics
 paymentSchema.statics.findByOrder = function (orderId: string | Types.ObjectId) {
     return this.findOne({ order: orderId }).sort({ createdAt: -1 });
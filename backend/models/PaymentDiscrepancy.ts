@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * paid_unmatched:  the gateway captured money the order can't use
+ *                  (order cancelled/expired, or already paid by another transaction)
+ * amount_mismatch: the gateway captured a different amount than the payment expected
+ */
+export type DiscrepancyType = 'paid_unmatched' | 'amount_mismatch';
+
+export interface IPaymentDiscrepancy extends Document {
+    payment: Types.ObjectId;
+    order: Types.ObjectId;
+    gateway: 'cod' | 'esewa' | 'khalti' | 'stripe' | 'fonepay' | 'mock';
+    type: DiscrepancyType;
+    transactionId?: string;
+    expectedAmount: number;
+    gatewayAmount?: number;
+    details: string;
+    resolved: boolean;
+    resolvedAt?: Date;
+    resolvedBy?: Types.ObjectId;
+    resolutionNote?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const paymentDiscrepancySchema = new Schema<IPaymentDiscrepancy>({
+    payment: {
+        type: Schema.Types.ObjectId,
+        ref: 'Payment',
+        required: true,
+    },
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order',
+        required: true,
+    },
+    gateway: {
+        type: String,
+        enum: ['cod', 'esewa', 'khalti', 'stripe', 'fonepay', 'mock'],
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ['paid_unmatched', 'amount_mismatch'],
+        required: true,
+    },
+    transactionId: String,
+    expectedAmount: {
+        type: Number,
+        required: true,
+    },
+    gatewayAmount: Number,
+    details: {
+        type: String,
+        required: true,
+    },
+    resolved: {
+        type: Boolean,
+        default: false,
+    },
+    resolvedAt: Date,
+    resolvedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    resolutionNote: {
+        type: String,
+        maxlength: [500, 'Resolution note cannot exceed 500 characters'],
+    },
+}, {
+    timestamps: true,
+});
+
+// One report per problem per payment, however often it is re-verified
+paymentDiscrepancySchema.index({ payment: 1, type: 1 }, { unique: true });
+paymentDiscrepancySchema.index({ resolved: 1, createdAt: -1 });
+
+const PaymentDiscrepancy = mongoose.model<IPaymentDiscrepancy>('PaymentDiscrepancy', paymentDiscrepancySchema);
+
+export default PaymentDiscrepancy;
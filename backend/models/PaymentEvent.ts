@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type PaymentEventType = 'initiate' | 'callback' | 'verify' | 'refund' | 'collect';
+export type PaymentEventOutcome = 'success' | 'pending' | 'failed' | 'rejected' | 'error';
+
+/**
+ * One thing that happened to a payment, exactly as the gateway reported it
+ * Events are never updated or deleted, so together they form the audit trail
+ */
+export interface IPaymentEvent extends Document {
+    order?: Types.ObjectId;
+    payment?: Types.ObjectId;
+    gateway: string;
+    type: PaymentEventType;
+    outcome: PaymentEventOutcome;
+    transactionId?: string;
+    amount?: number;
+    message?: string;
+    payload?: any;
+    sourceIp?: string;
+    // gateway:transactionId:signature of a callback once it has been applied, unique so it is only acted on once
+    replayKey?: string;
+    createdAt: Date;
+}
+
+const paymentEventSchema = new Schema<IPaymentEvent>({
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order',
+    },
+    payment: {
+        type: Schema.Types.ObjectId,
+        ref: 'Payment',
+    },
+    gateway: {
+        type: String,
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ['initiate', 'callback', 'verify', 'refund', 'collect'],
+        required: true,
+    },
+    outcome: {
+        type: String,
+        enum: ['success', 'pending', 'failed', 'rejected', 'error'],
+        required: true,
+    },
+    transactionId: String,
+    amount: Number,
+    message: String,
+    payload: Schema.Types.Mixed,
+    sourceIp: String,
+    replayKey: String,
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Indexes
+paymentEventSchema.index({ order: 1, createdAt: 1 });
+paymentEventSchema.index({ transactionId: 1 });
+paymentEventSchema.index({ replayKey: 1 }, { unique: true, sparse: true });
+
+// Append-only: refuse anything that would rewrite history
+const rejectChange = function () {
+    throw new Error('Payment events are append-only');
+};
+
+paymentEventSchema.pre('save', function () {
+    if (!this.isNew) rejectChange();
+});
+
+paymentEventSchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+        'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    rejectChange,
+);
+
+const PaymentEvent = mongoose.model<IPaymentEvent>('PaymentEvent', paymentEventSchema);
+
+export default PaymentEvent;
@@ -1,14 +1,66 @@
-import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import mongoose, {
+  Schema,
+  Document,
+  Model,
+  Types,
+  ClientSession,
+} from "mongoose";
 import { createSlug } from "../utils/helpers";
-import { PRODUCT_SIZES } from "../utils/constants";
+import { searchTokens, edgeGrams, trigrams } from "../utils/searchText";
+import { PRODUCT_SIZES, TAX_CLASSES, TaxClass } from "../utils/constants";
 
 // Re-export for backward compatibility
 export const VALID_SIZES = PRODUCT_SIZES;
 
+// Size and colour predate configurable attributes; variants still carry them
+// as fields, mirrored from the options of the same name
+const LEGACY_OPTIONS = [
+  ["size", "Size"],
+  ["color", "Color"],
+] as const;
+
+/**
+ * A variant's attribute values. Variants saved before attributes existed, or
+ * sent by clients that only know size and colour, get them from those fields
+ */
+export const variantOptions = (variant: {
+  size?: string;
+  color?: string;
+  options?: IVariantOption[];
+}): IVariantOption[] => {
+  if (variant.options && variant.options.length > 0) return variant.options;
+  return LEGACY_OPTIONS.filter(([field]) => variant[field]).map(
+    ([field, name]) => ({ name, value: variant[field]! }),
+  );
+};
+
+/**
+ * What an order line keeps of the variant bought
+ */
+export const variantSnapshot = (variant: IVariant) => ({
+  size: variant.size,
+  color: variant.color,
+  options: variantOptions(variant).map(({ name, value }) => ({ name, value })),
+});
+
+/**
+ * A variant's option values for messages, e.g. "Felt / 500"
+ */
+export const describeVariant = (variant: IVariant): string =>
+  variantOptions(variant)
+    .map((option) => option.value)
+    .join(" / ");
+
+export interface IVariantOption {
+  name: string;
+  value: string;
+}
+
 export interface IVariant {
   _id: Types.ObjectId;
   size: string;
   color: string;
+  options: IVariantOption[];
   price: number;
   stock: number;
   image?: string;
@@ -26,6 +78,7 @@ export interface IProductImage {
 export interface IProductMethods {
   reduceStock(
     items: { variantId?: string | Types.ObjectId; quantity: number }[],
+    session?: ClientSession,
   ): Promise<void>;
   getVariant(variantId: string | Types.ObjectId): IVariant | undefined;
   findVariant(size: string, color: string): IVariant | undefined;
@@ -43,6 +96,8 @@ export interface IProduct extends Document, IProductMethods {
   variants: IVariant[];
   stock: number;
   sku?: string;
+  weight: number;
+  taxClass: TaxClass | null;
   isFeatured: boolean;
   isActive: boolean;
   ratings: {
@@ -52,6 +107,8 @@ export interface IProduct extends Document, IProductMethods {
   metaTitle?: string;
   metaDescription?: string;
   soldCount: number;
+  searchPrefixes: string[];
+  searchTrigrams: string[];
   discountPercentage: number;
   displayPrice: number;
   primaryImage: IProductImage | null;
@@ -64,22 +121,48 @@ export interface IProduct extends Document, IProductMethods {
 interface IProductModel extends Model<IProduct> {
   search(query: string, options?: any): any;
   getFeatured(limit?: number): any;
+  decrementStock(
+    productId: string | Types.ObjectId,
+    variantId: string | Types.ObjectId | null | undefined,
+    quantity: number,
+    session?: ClientSession,
+  ): Promise<boolean>;
 }
 
+const variantOptionSchema = new Schema<IVariantOption>(
+  {
+    name: {
+      type: String,
+      required: [true, "Option name is required"],
+      trim: true,
+      maxlength: [50, "Option name cannot exceed 50 characters"],
+    },
+    value: {
+      type: String,
+      required: [true, "Option value is required"],
+      trim: true,
+      maxlength: [100, "Option value cannot exceed 100 characters"],
+    },
+  },
+  { _id: false },
+);
+
 const variantSchema = new Schema<IVariant>(
   {
     size: {
       type: String,
-      required: true,
-      enum: {
-        values: VALID_SIZES,
-        message: "Invalid size. Must be one of: " + VALID_SIZES.join(", "),
-      },
+      trim: true,
+      default: "",
     },
     color: {
       type: String,
-      required: true,
       trim: true,
+      default: "",
+    },
+    // Values for the category's attributes, e.g. Material: Felt
+    options: {
+      type: [variantOptionSchema],
+      default: [],
     },
     price: {
       type: Number,
@@ -172,6 +255,18 @@ const productSchema = new Schema<IProduct, IProductModel>(
       uppercase: true,
       trim: true,
     },
+    // Shipping weight in kg, used by weight-based shipping rules
+    weight: {
+      type: Number,
+      default: 0,
+      min: [0, "Weight cannot be negative"],
+    },
+    // VAT treatment; null falls back to the category's
+    taxClass: {
+      type: String,
+      enum: [...TAX_CLASSES, null],
+      default: null,
+    },
     isFeatured: {
       type: Boolean,
       default: false,
@@ -198,10 +293,27 @@ const productSchema = new Schema<IProduct, IProductModel>(
       type: Number,
       default: 0,
     },
+    // Suggestion index built from the name on save; see utils/searchText
+    searchPrefixes: {
+      type: [String],
+      select: false,
+    },
+    searchTrigrams: {
+      type: [String],
+      select: false,
+    },
   },
   {
     timestamps: true,
-    toJSON: { virtuals: true },
+    toJSON: {
+      virtuals: true,
+      // The suggestion index is internal, even on a freshly saved product
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.searchPrefixes;
+        delete ret.searchTrigrams;
+        return ret;
+      },
+    },
     toObject: { virtuals: true },
   },
 );
@@ -213,6 +325,8 @@ productSchema.index({ price: 1 });
 productSchema.index({ "ratings.average": -1 });
 productSchema.index({ createdAt: -1 });
 productSchema.index({ soldCount: -1 });
+productSchema.index({ searchPrefixes: 1, soldCount: -1 });
+productSchema.index({ searchTrigrams: 1 });
 productSchema.index(
   { name: "text", description: "text", shortDescription: "text" },
   { weights: { name: 10, shortDescription: 5, description: 1 } },
@@ -262,6 +376,56 @@ productSchema.virtual("inStock").get(function (this: IProduct) {
 });
 
 // Middleware
+// Size/colour and the options of the same name mirror each other. Editing one
+// side of a saved variant carries over to the other; a new or replaced variant
+// that sets both must agree, since there is no telling which one is meant
+productSchema.pre("validate", function (this: IProduct) {
+  this.variants.forEach((variant, index) => {
+    const optionsWritten = this.isModified(`variants.${index}.options`);
+    const options = variantOptions(variant).map(({ name, value }) => ({
+      name,
+      value,
+    }));
+
+    LEGACY_OPTIONS.forEach(([field, name]) => {
+      const at = options.findIndex(
+        (o) => o.name.toLowerCase() === name.toLowerCase(),
+      );
+      const value = variant[field];
+      const fieldWritten = this.isModified(`variants.${index}.${field}`);
+
+      if (fieldWritten && !optionsWritten) {
+        if (!value) {
+          if (at !== -1) options.splice(at, 1);
+        } else if (at === -1) {
+          options.push({ name, value });
+        } else {
+          options[at] = { name: options[at].name, value };
+        }
+        return;
+      }
+
+      if (
+        fieldWritten &&
+        value &&
+        at !== -1 &&
+        options[at].value.toLowerCase() !== value.toLowerCase()
+      ) {
+        this.invalidate(
+          `variants.${index}.${field}`,
+          `${name} '${value}' does not match the variant's ${name} option '${options[at].value}'`,
+          value,
+        );
+        return;
+      }
+
+      variant[field] = at !== -1 ? options[at].value : "";
+    });
+
+    variant.options = options;
+  });
+});
+
 productSchema.pre("save", async function (this: IProduct) {
   if (this.isModified("name")) {
     let slug = createSlug(this.name);
@@ -273,6 +437,10 @@ productSchema.pre("save", async function (this: IProduct) {
       slug = `${slug}-${Date.now().toString(36)}`;
     }
     this.slug = slug;
+
+    const tokens = searchTokens(this.name);
+    this.searchPrefixes = edgeGrams(tokens);
+    this.searchTrigrams = trigrams(tokens);
   }
 });
 
@@ -317,6 +485,34 @@ productSchema.statics.getFeatured = function (
     .populate("category", "name slug");
 };
 
+/**
+ * Take stock off a product or one of its variants, but only if enough is left
+ * Returns false (and changes nothing) when the line cannot be covered
+ */
+productSchema.statics.decrementStock = async function (
+  productId: string | Types.ObjectId,
+  variantId: string | Types.ObjectId | null | undefined,
+  quantity: number,
+  session?: ClientSession,
+) {
+  // $elemMatch keeps the stock guard on the same variant being decremented
+  const filter = variantId
+    ? {
+        _id: productId,
+        variants: {
+          $elemMatch: { _id: variantId, stock: { $gte: quantity } },
+        },
+      }
+    : { _id: productId, stock: { $gte: quantity } };
+
+  const update = variantId
+    ? { $inc: { "variants.$.stock": -quantity, soldCount: quantity } }
+    : { $inc: { stock: -quantity, soldCount: quantity } };
+
+  const result = await this.updateOne(filter, update, { session });
+  return result.modifiedCount === 1;
+};
+
 // Instance methods
 /**
  * Reduce stock atomically to prevent race conditions
@@ -325,49 +521,22 @@ productSchema.statics.getFeatured = function (
 productSchema.methods.reduceStock = async function (
   this: IProduct,
   items: { variantId?: string | Types.ObjectId; quantity: number }[],
+  session?: ClientSession,
 ) {
-  const totalQuantity = items.reduce((sum, i) => sum + i.quantity, 0);
-
   for (const item of items) {
-    if (item.variantId) {
-      // Atomic update for variant stock
-      const result = await mongoose.model("Product").findOneAndUpdate(
-        {
-          _id: this._id,
-          "variants._id": item.variantId,
-          "variants.stock": { $gte: item.quantity }, // Ensure sufficient stock
-        },
-        {
-          $inc: {
-            "variants.$.stock": -item.quantity,
-            soldCount: item.quantity,
-          },
-        },
-        { new: true },
-      );
+    const reduced = await (this.constructor as IProductModel).decrementStock(
+      this._id as Types.ObjectId,
+      item.variantId,
+      item.quantity,
+      session,
+    );
 
-      if (!result) {
-        throw new Error(`Insufficient stock for variant ${item.variantId}`);
-      }
-    } else {
-      // Atomic update for base product stock
-      const result = await mongoose.model("Product").findOneAndUpdate(
-        {
-          _id: this._id,
-          stock: { $gte: item.quantity }, // Ensure sufficient stock
-        },
-        {
-          $inc: {
-            stock: -item.quantity,
-            soldCount: item.quantity,
-          },
-        },
-        { new: true },
+    if (!reduced) {
+      throw new Error(
+        item.variantId
+          ? `Insufficient stock for variant ${item.variantId}`
+          : "Insufficient stock for product",
       );
-
-      if (!result) {
-        throw new Error("Insufficient stock for product");
-      }
     }
   }
 };
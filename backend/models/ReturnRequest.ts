@@ -0,0 +1,299 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type ReturnRequestType = "return" | "exchange";
+
+export type ReturnReason =
+  | "wrong_item"
+  | "wrong_size"
+  | "damaged"
+  | "defective"
+  | "not_as_described"
+  | "changed_mind"
+  | "other";
+
+/**
+ * requested:        waiting for an admin to review
+ * approved:         accepted, the customer can send the items back
+ * rejected:         declined, or nothing passed inspection
+ * pickup_scheduled: a courier will collect the items from the customer
+ * received:         items are back with us
+ * inspected:        accepted quantities decided, stock put back
+ * completed:        refunded or replacement order created
+ * cancelled:        withdrawn by the customer before it was handled
+ */
+export type ReturnStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "pickup_scheduled"
+  | "received"
+  | "inspected"
+  | "completed"
+  | "cancelled";
+
+export type ReturnResolution = "refund" | "replacement";
+
+export interface IReturnItem {
+  _id: Types.ObjectId;
+  // The order line being returned
+  orderItem: Types.ObjectId;
+  product: Types.ObjectId;
+  variantId?: Types.ObjectId | null;
+  name: string;
+  image?: string;
+  variant?: {
+    size?: string;
+    color?: string;
+  };
+  price: number;
+  quantity: number;
+  // Exchanges only: the variant to send instead
+  exchangeVariantId?: Types.ObjectId | null;
+  exchangeVariant?: {
+    size?: string;
+    color?: string;
+  };
+  // Set on inspection
+  acceptedQuantity?: number;
+  restocked: boolean;
+}
+
+export interface IReturnPhoto {
+  url: string;
+  publicId?: string;
+}
+
+export interface IReturnStatusHistory {
+  status: ReturnStatus;
+  changedAt: Date;
+  changedBy?: Types.ObjectId;
+  note?: string;
+}
+
+export interface IReturnRequest extends Document {
+  returnNumber: string;
+  order: Types.ObjectId;
+  user: Types.ObjectId;
+  type: ReturnRequestType;
+  reason: ReturnReason;
+  reasonDetails?: string;
+  photos: IReturnPhoto[];
+  items: Types.DocumentArray<IReturnItem & Document>;
+  status: ReturnStatus;
+  statusHistory: IReturnStatusHistory[];
+  pickup?: {
+    scheduledFor?: Date;
+    courier?: string;
+    trackingNumber?: string;
+  };
+  rejectionReason?: string;
+  inspectionNote?: string;
+  resolution?: {
+    type: ReturnResolution;
+    refundAmount?: number;
+    refund?: Types.ObjectId | null;
+    replacementOrder?: Types.ObjectId | null;
+  };
+  completedAt?: Date;
+  // Set while a restock, refund or replacement for it is under way
+  processingAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Generate return number
+ * Format: RMA-YYYYMMDD-XXXXX (random)
+ */
+const generateReturnNumber = (): string => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  const random = Math.random().toString(36).substring(2, 7).toUpperCase();
+  return `RMA-${dateStr}-${random}`;
+};
+
+const variantSnapshot = {
+  size: String,
+  color: String,
+};
+
+const returnItemSchema = new Schema<IReturnItem>(
+  {
+    orderItem: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    image: String,
+    variant: variantSnapshot,
+    price: {
+      type: Number,
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    exchangeVariantId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    exchangeVariant: variantSnapshot,
+    acceptedQuantity: {
+      type: Number,
+      min: 0,
+    },
+    restocked: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: true },
+);
+
+const returnStatusHistorySchema = new Schema<IReturnStatusHistory>(
+  {
+    status: {
+      type: String,
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    note: String,
+  },
+  { _id: false },
+);
+
+const returnRequestSchema = new Schema<IReturnRequest>(
+  {
+    returnNumber: {
+      type: String,
+      unique: true,
+      required: true,
+      default: generateReturnNumber,
+    },
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["return", "exchange"],
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: [
+        "wrong_item",
+        "wrong_size",
+        "damaged",
+        "defective",
+        "not_as_described",
+        "changed_mind",
+        "other",
+      ],
+      required: true,
+    },
+    reasonDetails: {
+      type: String,
+      maxlength: 1000,
+    },
+    photos: [
+      {
+        _id: false,
+        url: { type: String, required: true },
+        publicId: String,
+      },
+    ],
+    items: {
+      type: [returnItemSchema],
+      validate: {
+        validator: function (v: IReturnItem[]) {
+          return v.length > 0;
+        },
+        message: "A return must include at least one item",
+      },
+    },
+    status: {
+      type: String,
+      enum: [
+        "requested",
+        "approved",
+        "rejected",
+        "pickup_scheduled",
+        "received",
+        "inspected",
+        "completed",
+        "cancelled",
+      ],
+      default: "requested",
+    },
+    statusHistory: [returnStatusHistorySchema],
+    pickup: {
+      scheduledFor: Date,
+      courier: String,
+      trackingNumber: String,
+    },
+    rejectionReason: String,
+    inspectionNote: String,
+    resolution: {
+      type: {
+        type: String,
+        enum: ["refund", "replacement"],
+      },
+      refundAmount: Number,
+      refund: {
+        type: Schema.Types.ObjectId,
+        default: null,
+      },
+      replacementOrder: {
+        type: Schema.Types.ObjectId,
+        ref: "Order",
+        default: null,
+      },
+    },
+    completedAt: Date,
+    processingAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+returnRequestSchema.index({ order: 1, createdAt: -1 });
+returnRequestSchema.index({ user: 1, createdAt: -1 });
+returnRequestSchema.index({ status: 1, createdAt: -1 });
+
+const ReturnRequest = mongoose.model<IReturnRequest>(
+  "ReturnRequest",
+  returnRequestSchema,
+);
+
+export default ReturnRequest;
@@ -0,0 +1,80 @@
+/**
+ * Search Log Model
+ * One storefront search, with how many results it found and which products
+ * the customer opened from it
+ */
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const SEARCH_PLATFORMS = ["web", "ios", "android", "unknown"] as const;
+export type SearchPlatform = (typeof SEARCH_PLATFORMS)[number];
+
+// Clicks kept per search; enough to tell a good search from a poor one
+export const MAX_SEARCH_CLICKS = 20;
+
+export interface ISearchLog extends Document {
+  query: string;
+  normalizedQuery: string;
+  resultCount: number;
+  user: Types.ObjectId | null;
+  platform: SearchPlatform;
+  clickedProducts: Types.ObjectId[];
+  firstClickAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const searchLogSchema = new Schema<ISearchLog>(
+  {
+    query: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    // Folded form, so "Pashmina" and "pashmeena" count as one query
+    normalizedQuery: {
+      type: String,
+      required: true,
+    },
+    resultCount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    platform: {
+      type: String,
+      enum: SEARCH_PLATFORMS,
+      default: "unknown",
+    },
+    clickedProducts: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+      },
+    ],
+    firstClickAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+searchLogSchema.index({ normalizedQuery: 1, createdAt: -1 });
+
+// Searches are kept for a year of reporting
+searchLogSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 365 * 24 * 60 * 60 },
+);
+
+const SearchLog = mongoose.model<ISearchLog>("SearchLog", searchLogSchema);
+
+export default SearchLog;
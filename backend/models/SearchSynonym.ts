@@ -0,0 +1,54 @@
+/**
+ * Search Synonym Model
+ * Extra words searched alongside a term, e.g. "topi" also finds "hat"
+ */
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ISearchSynonym extends Document {
+  term: string;
+  synonyms: string[];
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const searchSynonymSchema = new Schema<ISearchSynonym>(
+  {
+    term: {
+      type: String,
+      required: [true, "Term is required"],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      maxlength: [50, "Term cannot exceed 50 characters"],
+    },
+    synonyms: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          lowercase: true,
+          maxlength: [50, "Synonym cannot exceed 50 characters"],
+        },
+      ],
+      validate: {
+        validator: (synonyms: string[]) => synonyms.length > 0,
+        message: "At least one synonym is required",
+      },
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+const SearchSynonym = mongoose.model<ISearchSynonym>(
+  "SearchSynonym",
+  searchSynonymSchema,
+);
+
+export default SearchSynonym;
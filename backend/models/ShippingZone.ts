@@ -0,0 +1,196 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+export type ShippingRateType = "flat" | "weight";
+
+export interface IShippingRule {
+  _id: Types.ObjectId;
+  name: string;
+  rateType: ShippingRateType;
+  flatRate: number;
+  baseRate: number;
+  baseWeight: number;
+  perKgRate: number;
+  freeShippingThreshold?: number | null;
+  minDays: number;
+  maxDays: number;
+  isActive: boolean;
+}
+
+export interface IShippingZoneMethods {
+  matchScore(district: string, province: number): number;
+}
+
+export interface IShippingZone extends Document, IShippingZoneMethods {
+  name: string;
+  description?: string;
+  districts: string[];
+  provinces: number[];
+  priority: number;
+  rules: Types.DocumentArray<IShippingRule & Document>;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IShippingZoneModel extends Model<IShippingZone> {
+  findForAddress(
+    district: string,
+    province: number,
+  ): Promise<IShippingZone | null>;
+}
+
+const shippingRuleSchema = new Schema<IShippingRule>(
+  {
+    name: {
+      type: String,
+      required: [true, "Rule name is required"],
+      trim: true,
+      maxlength: [50, "Rule name cannot exceed 50 characters"],
+    },
+    rateType: {
+      type: String,
+      enum: ["flat", "weight"],
+      default: "flat",
+    },
+    // Used when rateType is "flat"
+    flatRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Used when rateType is "weight": baseRate covers the first baseWeight kg,
+    // every started kg above that costs perKgRate
+    baseRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    baseWeight: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+    perKgRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Orders with a subtotal at or above this ship free (null = never free)
+    freeShippingThreshold: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    minDays: {
+      type: Number,
+      default: 3,
+      min: 0,
+    },
+    maxDays: {
+      type: Number,
+      default: 5,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: true },
+);
+
+const shippingZoneSchema = new Schema<IShippingZone, IShippingZoneModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Zone name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [50, "Zone name cannot exceed 50 characters"],
+    },
+    description: {
+      type: String,
+      maxlength: [200, "Description cannot exceed 200 characters"],
+    },
+    // A zone with neither districts nor provinces is the catch-all zone
+    districts: [{ type: String, trim: true }],
+    provinces: [{ type: Number, min: 1, max: 7 }],
+    // Breaks ties between zones that match an address equally well
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    rules: [shippingRuleSchema],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  },
+);
+
+// Indexes
+shippingZoneSchema.index({ isActive: 1, districts: 1 });
+shippingZoneSchema.index({ isActive: 1, provinces: 1 });
+
+// Middleware
+shippingZoneSchema.pre("validate", function (this: IShippingZone) {
+  this.rules.forEach((rule, index) => {
+    if (rule.minDays > rule.maxDays) {
+      this.invalidate(
+        `rules.${index}.maxDays`,
+        "Maximum delivery days must be at least the minimum",
+      );
+    }
+  });
+});
+
+// Instance methods
+/**
+ * How specifically this zone covers an address:
+ * 2 = district match, 1 = province match, 0 = catch-all, -1 = no match
+ */
+shippingZoneSchema.methods.matchScore = function (
+  this: IShippingZone,
+  district: string,
+  province: number,
+) {
+  const normalized = district.trim().toLowerCase();
+  if (this.districts.some((d) => d.toLowerCase() === normalized)) return 2;
+  if (this.provinces.includes(province)) return 1;
+  if (this.districts.length === 0 && this.provinces.length === 0) return 0;
+  return -1;
+};
+
+// Statics
+shippingZoneSchema.statics.findForAddress = async function (
+  district: string,
+  province: number,
+) {
+  const zones: IShippingZone[] = await this.find({ isActive: true }).sort({
+    priority: -1,
+  });
+
+  let best: IShippingZone | null = null;
+  let bestScore = -1;
+  for (const zone of zones) {
+    const score = zone.matchScore(district, province);
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+const ShippingZone = mongoose.model<IShippingZone, IShippingZoneModel>(
+  "ShippingZone",
+  shippingZoneSchema,
+);
+
+export default ShippingZone;
@@ -10,6 +10,24 @@ export interface IPushToken {
   createdAt: Date;
 }
 
+// Saved delivery address (mirrors the order shippingAddress fields)
+export interface IAddress {
+  _id: Types.ObjectId;
+  label?: string;
+  type: "home" | "work" | "other";
+  name: string;
+  phone: string;
+  street: string;
+  city: string;
+  district: string;
+  province: number;
+  postalCode?: string;
+  landmark?: string;
+  isDefault: boolean;
+}
+
+export const MAX_ADDRESSES = 10;
+
 export interface IUser extends Document {
   name: string;
   email: string;
@@ -20,6 +38,7 @@ export interface IUser extends Document {
   refreshToken?: string;
   lastLogin?: Date;
   pushTokens: IPushToken[];
+  addresses: Types.DocumentArray<IAddress & Document>;
   wishlist: Types.ObjectId[];
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
@@ -37,6 +56,23 @@ const pushTokenSchema = new Schema<IPushToken>(
   { _id: false },
 );
 
+const addressSchema = new Schema<IAddress>(
+  {
+    label: { type: String, trim: true, maxlength: 30 },
+    type: { type: String, enum: ["home", "work", "other"], default: "home" },
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, required: true, trim: true },
+    street: { type: String, required: true, trim: true },
+    city: { type: String, required: true, trim: true },
+    district: { type: String, required: true, trim: true },
+    province: { type: Number, required: true, min: 1, max: 7 },
+    postalCode: { type: String, trim: true },
+    landmark: { type: String, trim: true },
+    isDefault: { type: Boolean, default: false },
+  },
+  { _id: true },
+);
+
 const userSchema = new Schema<IUser>(
   {
     name: { type: String, required: true },
@@ -46,6 +82,14 @@ const userSchema = new Schema<IUser>(
     role: { type: String, enum: ["customer", "admin"], default: "customer" },
     isActive: { type: Boolean, default: true },
     pushTokens: { type: [pushTokenSchema], default: [] },
+    addresses: {
+      type: [addressSchema],
+      default: [],
+      validate: {
+        validator: (v: IAddress[]) => v.length <= MAX_ADDRESSES,
+        message: `You can save up to ${MAX_ADDRESSES} addresses`,
+      },
+    },
     wishlist: [{ type: Schema.Types.ObjectId, ref: "Product" }],
     resetPasswordToken: { type: String, select: false },
     resetPasswordExpires: { type: Date, select: false },
@@ -53,6 +97,19 @@ const userSchema = new Schema<IUser>(
   { timestamps: true },
 );
 
+// Keep exactly one default address whenever any are saved
+userSchema.pre("save", function (this: IUser) {
+  if (!this.isModified("addresses") || this.addresses.length === 0) return;
+
+  const defaults = this.addresses.filter((address) => address.isDefault);
+  if (defaults.length === 1) return;
+
+  const keep = defaults[defaults.length - 1] || this.addresses[0];
+  this.addresses.forEach((address) => {
+    address.isDefault = address._id.equals(keep._id);
+  });
+});
+
 userSchema.pre("save", async function (this: any) {
   if (!this.isModified("password")) return;
   try {
@@ -5,8 +5,13 @@
 import express, { Request, Response } from "express";
 import * as productController from "../controllers/productController";
 import * as categoryController from "../controllers/categoryController";
+import * as attributeController from "../controllers/attributeController";
 import * as orderController from "../controllers/orderController";
 import * as paymentController from "../controllers/paymentController";
+import * as couponController from "../controllers/couponController";
+import * as shippingController from "../controllers/shippingController";
+import * as returnController from "../controllers/returnController";
+import * as searchController from "../controllers/searchController";
 import asyncHandler from "../utils/asyncHandler";
 import { protect } from "../middleware/auth";
 import { adminOnly } from "../middleware/role";
@@ -14,7 +19,40 @@ import { uploadProductImages, uploadCategoryImage } from "../config/cloudinary";
 import {
   createProductValidator,
   updateProductValidator,
+  patchVariantsValidator,
   createCategoryValidator,
+  createAttributeValidator,
+  updateAttributeValidator,
+  createCouponValidator,
+  updateCouponValidator,
+  createShippingZoneValidator,
+  updateShippingZoneValidator,
+  createShippingRuleValidator,
+  updateShippingRuleValidator,
+  refundValidator,
+  completeRefundValidator,
+  discrepancyQueryValidator,
+  resolveDiscrepancyValidator,
+  codCollectedValidator,
+  createRemittanceValidator,
+  receiveRemittanceValidator,
+  remittanceQueryValidator,
+  codReportValidator,
+  financeReportValidator,
+  vatRegisterValidator,
+  returnQueryValidator,
+  rejectReturnValidator,
+  returnPickupValidator,
+  inspectReturnValidator,
+  completeReturnValidator,
+  returnNoteValidator,
+  createShipmentValidator,
+  trackingEventValidator,
+  orderDocumentsValidator,
+  editOrderValidator,
+  searchReportValidator,
+  createSynonymValidator,
+  updateSynonymValidator,
   mongoIdValidator,
   paginationValidator,
 } from "../middleware/validate";
@@ -132,6 +170,12 @@ router.put(
   updateProductValidator,
   productController.updateProduct,
 );
+router.patch(
+  "/products/:id/variants",
+  mongoIdValidator("id"),
+  patchVariantsValidator,
+  productController.patchVariants,
+);
 router.delete(
   "/products/:id",
   mongoIdValidator("id"),
@@ -168,6 +212,11 @@ router.delete(
   mongoIdValidator("id"),
   categoryController.deleteCategory,
 );
+router.get(
+  "/categories/:id/attributes",
+  mongoIdValidator("id"),
+  attributeController.getCategoryAttributes,
+);
 router.post(
   "/categories/:id/image",
   mongoIdValidator("id"),
@@ -197,11 +246,141 @@ router.post(
 // ==================== ORDERS ====================
 router.get("/orders", paginationValidator, orderController.getAllOrders);
 router.get("/orders/:id", mongoIdValidator("id"), orderController.getOrder);
+router.post(
+  "/orders/documents",
+  orderDocumentsValidator,
+  orderController.getOrderDocuments,
+);
+router.patch(
+  "/orders/:id",
+  mongoIdValidator("id"),
+  editOrderValidator,
+  orderController.editOrder,
+);
 router.put(
   "/orders/:id/status",
   mongoIdValidator("id"),
   orderController.updateOrderStatus,
 );
+router.post(
+  "/orders/:id/shipment",
+  mongoIdValidator("id"),
+  createShipmentValidator,
+  orderController.shipOrder,
+);
+router.post(
+  "/orders/:id/shipment/events",
+  mongoIdValidator("id"),
+  trackingEventValidator,
+  orderController.addTrackingEvent,
+);
+router.post(
+  "/orders/:id/shipment/refresh",
+  mongoIdValidator("id"),
+  orderController.refreshTracking,
+);
+router.get(
+  "/orders/:id/refunds",
+  mongoIdValidator("id"),
+  paymentController.getOrderRefunds,
+);
+router.get(
+  "/orders/:id/payment-events",
+  mongoIdValidator("id"),
+  paymentController.getOrderPaymentEvents,
+);
+router.post(
+  "/orders/:id/refunds",
+  mongoIdValidator("id"),
+  refundValidator,
+  paymentController.refundOrder,
+);
+router.patch(
+  "/orders/:id/refunds/:refundId/complete",
+  mongoIdValidator("id"),
+  mongoIdValidator("refundId"),
+  completeRefundValidator,
+  paymentController.completeRefund,
+);
+
+// ==================== ATTRIBUTES ====================
+router.get("/attributes", attributeController.getAttributes);
+router.post(
+  "/attributes",
+  createAttributeValidator,
+  attributeController.createAttribute,
+);
+router.put(
+  "/attributes/:id",
+  mongoIdValidator("id"),
+  updateAttributeValidator,
+  attributeController.updateAttribute,
+);
+router.delete(
+  "/attributes/:id",
+  mongoIdValidator("id"),
+  attributeController.deleteAttribute,
+);
+
+// ==================== COUPONS ====================
+router.get("/coupons", paginationValidator, couponController.getCoupons);
+router.get("/coupons/:id", mongoIdValidator("id"), couponController.getCoupon);
+router.post("/coupons", createCouponValidator, couponController.createCoupon);
+router.put(
+  "/coupons/:id",
+  mongoIdValidator("id"),
+  updateCouponValidator,
+  couponController.updateCoupon,
+);
+router.delete(
+  "/coupons/:id",
+  mongoIdValidator("id"),
+  couponController.deleteCoupon,
+);
+
+// ==================== SHIPPING ====================
+router.get("/couriers", shippingController.getCouriers);
+router.get("/shipping-zones", shippingController.getShippingZones);
+router.get(
+  "/shipping-zones/:id",
+  mongoIdValidator("id"),
+  shippingController.getShippingZone,
+);
+router.post(
+  "/shipping-zones",
+  createShippingZoneValidator,
+  shippingController.createShippingZone,
+);
+router.put(
+  "/shipping-zones/:id",
+  mongoIdValidator("id"),
+  updateShippingZoneValidator,
+  shippingController.updateShippingZone,
+);
+router.delete(
+  "/shipping-zones/:id",
+  mongoIdValidator("id"),
+  shippingController.deleteShippingZone,
+);
+router.post(
+  "/shipping-zones/:id/rules",
+  mongoIdValidator("id"),
+  createShippingRuleValidator,
+  shippingController.addShippingRule,
+);
+router.put(
+  "/shipping-zones/:id/rules/:ruleId",
+  mongoIdValidator("id"),
+  mongoIdValidator("ruleId"),
+  updateShippingRuleValidator,
+  shippingController.updateShippingRule,
+);
+router.delete(
+  "/shipping-zones/:id/rules/:ruleId",
+  mongoIdValidator("id"),
+  mongoIdValidator("ruleId"),
+  shippingController.deleteShippingRule,
+);
 
 // ==================== USERS ====================
 router.get(
@@ -285,7 +464,140 @@ router.put(
   }),
 );
 
+// ==================== RETURNS ====================
+router.get(
+  "/returns",
+  paginationValidator,
+  returnQueryValidator,
+  returnController.getAllReturns,
+);
+router.get("/returns/:id", mongoIdValidator("id"), returnController.getReturn);
+router.patch(
+  "/returns/:id/approve",
+  mongoIdValidator("id"),
+  returnNoteValidator,
+  returnController.approveReturn,
+);
+router.patch(
+  "/returns/:id/reject",
+  mongoIdValidator("id"),
+  rejectReturnValidator,
+  returnController.rejectReturn,
+);
+router.patch(
+  "/returns/:id/pickup",
+  mongoIdValidator("id"),
+  returnPickupValidator,
+  returnController.scheduleReturnPickup,
+);
+router.patch(
+  "/returns/:id/receive",
+  mongoIdValidator("id"),
+  returnNoteValidator,
+  returnController.receiveReturn,
+);
+router.patch(
+  "/returns/:id/inspect",
+  mongoIdValidator("id"),
+  inspectReturnValidator,
+  returnController.inspectReturn,
+);
+router.patch(
+  "/returns/:id/complete",
+  mongoIdValidator("id"),
+  completeReturnValidator,
+  returnController.completeReturn,
+);
+
 // ==================== PAYMENTS ====================
-router.post("/payments/cod-collected", paymentController.markCODCollected);
+router.post(
+  "/payments/cod-collected",
+  codCollectedValidator,
+  paymentController.markCODCollected,
+);
+router.post("/payments/reconcile", paymentController.reconcilePayments);
+router.get(
+  "/payments/discrepancies",
+  paginationValidator,
+  discrepancyQueryValidator,
+  paymentController.getPaymentDiscrepancies,
+);
+router.patch(
+  "/payments/discrepancies/:id/resolve",
+  mongoIdValidator("id"),
+  resolveDiscrepancyValidator,
+  paymentController.resolvePaymentDiscrepancy,
+);
+
+// ==================== COD SETTLEMENT ====================
+router.get(
+  "/payments/cod/report",
+  codReportValidator,
+  paymentController.getCodReport,
+);
+router.get(
+  "/payments/cod/remittances",
+  paginationValidator,
+  remittanceQueryValidator,
+  paymentController.getCodRemittances,
+);
+router.post(
+  "/payments/cod/remittances",
+  createRemittanceValidator,
+  paymentController.createCodRemittance,
+);
+router.get(
+  "/payments/cod/remittances/:id",
+  mongoIdValidator("id"),
+  paymentController.getCodRemittance,
+);
+router.patch(
+  "/payments/cod/remittances/:id/receive",
+  mongoIdValidator("id"),
+  receiveRemittanceValidator,
+  paymentController.receiveCodRemittance,
+);
+router.patch(
+  "/payments/cod/remittances/:id/resolve",
+  mongoIdValidator("id"),
+  resolveDiscrepancyValidator,
+  paymentController.resolveCodRemittance,
+);
+
+// ==================== FINANCE ====================
+router.get(
+  "/finance/report",
+  financeReportValidator,
+  paymentController.getFinanceReport,
+);
+router.get(
+  "/finance/vat-register",
+  vatRegisterValidator,
+  paymentController.getVatRegister,
+);
+
+// ==================== SEARCH ====================
+router.get(
+  "/search/report",
+  searchReportValidator,
+  searchController.getSearchReport,
+);
+router.get("/search/synonyms", searchController.getSynonyms);
+router.post(
+  "/search/synonyms",
+  createSynonymValidator,
+  searchController.createSynonym,
+);
+router.put(
+  "/search/synonyms/:id",
+  mongoIdValidator("id"),
+  updateSynonymValidator,
+  searchController.updateSynonym,
+);
+router.delete(
+  "/search/synonyms/:id",
+  mongoIdValidator("id"),
+  searchController.deleteSynonym,
+);
 
 export default router;
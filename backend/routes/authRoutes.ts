@@ -4,8 +4,15 @@
  */
 import express from "express";
 import * as authController from "../controllers/authController";
+import * as addressController from "../controllers/addressController";
 import { protect } from "../middleware/auth";
-import { registerValidator, loginValidator } from "../middleware/validate";
+import {
+  registerValidator,
+  loginValidator,
+  createAddressValidator,
+  updateAddressValidator,
+  mongoIdValidator,
+} from "../middleware/validate";
 
 const router = express.Router();
 
@@ -25,6 +32,30 @@ router.post("/logout", authController.logout);
 router.get("/me", authController.getMe);
 router.put("/change-password", authController.changePassword);
 
+// Saved address book
+router.get("/me/addresses", addressController.getAddresses);
+router.post(
+  "/me/addresses",
+  createAddressValidator,
+  addressController.addAddress,
+);
+router.put(
+  "/me/addresses/:addressId",
+  mongoIdValidator("addressId"),
+  updateAddressValidator,
+  addressController.updateAddress,
+);
+router.delete(
+  "/me/addresses/:addressId",
+  mongoIdValidator("addressId"),
+  addressController.deleteAddress,
+);
+router.patch(
+  "/me/addresses/:addressId/default",
+  mongoIdValidator("addressId"),
+  addressController.setDefaultAddress,
+);
+
 // Push notification token management
 router.post("/push-token", authController.registerPushToken);
 router.delete("/push-token", authController.unregisterPushToken);
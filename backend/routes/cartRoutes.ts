@@ -5,7 +5,7 @@
 import express from 'express';
 import * as cartController from '../controllers/cartController';
 import { protect } from '../middleware/auth';
-import { addToCartValidator, updateCartItemValidator } from '../middleware/validate';
+import { addToCartValidator, updateCartItemValidator, applyCouponValidator } from '../middleware/validate';
 
 const router = express.Router();
 
@@ -17,5 +17,7 @@ router.post('/items', addToCartValidator, cartController.addToCart);
 router.put('/items/:itemId', updateCartItemValidator, cartController.updateCartItem);
 router.delete('/items/:itemId', cartController.removeFromCart);
 router.delete('/', cartController.clearCart);
+router.post('/coupon', applyCouponValidator, cartController.applyCoupon);
+router.delete('/coupon', cartController.removeCoupon);
 
 export default router;
@@ -13,6 +13,8 @@ import adminRoutes from "./adminRoutes";
 import wishlistRoutes from "./wishlistRoutes";
 import chatRoutes from "./chatRoutes";
 import notificationRoutes from "./notificationRoutes";
+import shippingRoutes from "./shippingRoutes";
+import returnRoutes from "./returnRoutes";
 
 const router = express.Router();
 
@@ -27,6 +29,8 @@ router.use("/admin", adminRoutes);
 router.use("/wishlist", wishlistRoutes);
 router.use("/chat", chatRoutes);
 router.use("/notifications", notificationRoutes);
+router.use("/shipping", shippingRoutes);
+router.use("/returns", returnRoutes);
 
 // Health check endpoint
 router.get("/health", (req: Request, res: Response) => {
@@ -5,6 +5,7 @@
 import express from 'express';
 import * as orderController from '../controllers/orderController';
 import { protect } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { createOrderValidator, paginationValidator, mongoIdValidator } from '../middleware/validate';
 
 const router = express.Router();
@@ -12,9 +13,11 @@ const router = express.Router();
 // All order routes require authentication
 router.use(protect);
 
-router.post('/', createOrderValidator, orderController.createOrder);
+router.post('/', idempotent, createOrderValidator, orderController.createOrder);
 router.get('/', paginationValidator, orderController.getMyOrders);
 router.get('/:id', mongoIdValidator('id'), orderController.getOrder);
+router.get('/:id/tracking', mongoIdValidator('id'), orderController.getOrderTracking);
+router.get('/:id/invoice', mongoIdValidator('id'), orderController.getOrderInvoice);
 router.post('/:id/cancel', mongoIdValidator('id'), orderController.cancelOrder);
 
 export default router;
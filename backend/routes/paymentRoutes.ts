@@ -5,6 +5,9 @@
 import express from 'express';
 import * as paymentController from '../controllers/paymentController';
 import { protect } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { retryPaymentValidator } from '../middleware/validate';
+import { PaymentFactory } from '../services/payment';
 
 const router = express.Router();
 
@@ -13,9 +16,17 @@ router.get('/methods', paymentController.getPaymentMethods);
 router.get('/esewa/success', paymentController.esewaSuccess);
 router.get('/esewa/failure', paymentController.esewaFailure);
 router.get('/khalti/callback', paymentController.khaltiCallback);
+router.get('/fonepay/callback', paymentController.fonepayCallback);
+router.post('/stripe/webhook', paymentController.stripeWebhook);
+
+if (PaymentFactory.isSupported('mock')) {
+    router.get('/mock/callback', paymentController.mockCallback);
+}
 
 // Protected routes
-router.post('/initiate', protect, paymentController.initiatePayment);
+router.post('/initiate', protect, idempotent, paymentController.initiatePayment);
+router.post('/retry', protect, idempotent, retryPaymentValidator, paymentController.retryPayment);
 router.post('/verify', protect, paymentController.verifyPayment);
+router.get('/status/:orderId', protect, paymentController.getPaymentStatus);
 
 export default router;
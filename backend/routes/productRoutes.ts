@@ -4,7 +4,9 @@
  */
 import express from 'express';
 import * as productController from '../controllers/productController';
-import { paginationValidator, mongoIdValidator } from '../middleware/validate';
+import * as searchController from '../controllers/searchController';
+import { optionalAuth } from '../middleware/auth';
+import { productQueryValidator, suggestValidator, searchClickValidator, mongoIdValidator } from '../middleware/validate';
 import reviewRoutes from './reviewRoutes';
 
 const router = express.Router();
@@ -13,7 +15,9 @@ const router = express.Router();
 router.use('/:productId/reviews', reviewRoutes);
 
 // Public routes
-router.get('/', paginationValidator, productController.getProducts);
+router.get('/', optionalAuth, productQueryValidator, productController.getProducts);
+router.get('/suggest', suggestValidator, productController.getSuggestions);
+router.post('/searches/:id/click', searchClickValidator, searchController.recordSearchClick);
 router.get('/featured', productController.getFeaturedProducts);
 router.get('/:slug', productController.getProduct);
 
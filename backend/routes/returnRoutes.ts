@@ -0,0 +1,51 @@
+/**
+ * Return Routes
+ * Protected routes for customer returns and exchanges
+ */
+import express from "express";
+import * as returnController from "../controllers/returnController";
+import { protect } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
+import { uploadReturnPhotos } from "../config/cloudinary";
+import {
+  createReturnValidator,
+  returnQueryValidator,
+  paginationValidator,
+  mongoIdValidator,
+} from "../middleware/validate";
+
+const router = express.Router();
+
+// All return routes require authentication
+router.use(protect);
+
+router.post(
+  "/photos",
+  uploadReturnPhotos.array("photos", 5),
+  returnController.uploadReturnPhotos,
+);
+router.get(
+  "/eligibility/:orderId",
+  mongoIdValidator("orderId"),
+  returnController.getReturnEligibility,
+);
+router.post(
+  "/",
+  idempotent,
+  createReturnValidator,
+  returnController.createReturnRequest,
+);
+router.get(
+  "/",
+  paginationValidator,
+  returnQueryValidator,
+  returnController.getMyReturns,
+);
+router.get("/:id", mongoIdValidator("id"), returnController.getReturn);
+router.post(
+  "/:id/cancel",
+  mongoIdValidator("id"),
+  returnController.cancelReturnRequest,
+);
+
+export default router;
@@ -0,0 +1,20 @@
+/**
+ * Shipping Routes
+ * Shipping quotes, plus the public webhook couriers post status updates to
+ */
+import express from "express";
+import * as shippingController from "../controllers/shippingController";
+import { protect } from "../middleware/auth";
+import { shippingQuoteValidator } from "../middleware/validate";
+
+const router = express.Router();
+
+// Public routes (for courier webhooks)
+router.post("/couriers/:courier/webhook", shippingController.courierWebhook);
+
+// All other shipping routes require authentication
+router.use(protect);
+
+router.post("/quote", shippingQuoteValidator, shippingController.getQuote);
+
+export default router;
@@ -0,0 +1,36 @@
+/**
+ * Ledger Backfill
+ * Posts captures and completed refunds recorded before the finance ledger
+ * existed. Safe to re-run, entries already on the ledger are skipped
+ *
+ * Usage:
+ *   npm run ledger:backfill
+ */
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { backfillLedger } from "../services/financeService";
+
+const run = async () => {
+  try {
+    if (!process.env.MONGODB_URI) {
+      throw new Error("MONGODB_URI environment variable is not defined");
+    }
+
+    await mongoose.connect(process.env.MONGODB_URI);
+
+    const { payments, entries } = await backfillLedger();
+    console.log(
+      `📒 Checked ${payments} payments, posted ${entries} ledger entries`,
+    );
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Ledger backfill failed:", error);
+    process.exit(1);
+  }
+};
+
+run();
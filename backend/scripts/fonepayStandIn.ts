@@ -0,0 +1,188 @@
+/**
+ * Fonepay Stand-in Server
+ * A tiny offline imitation of the Fonepay dynamic QR endpoints FonepayGateway uses,
+ * for local development and tests without a merchant account
+ *
+ * Usage:
+ *   npm run fonepay:stand-in
+ *   FONEPAY_API_BASE=http://localhost:12113/api npm run dev
+ *
+ * Simulate the customer scanning and paying (what the bank app would do):
+ *   curl -X POST localhost:12113/qr/<prn>/scan -d outcome=success
+ * Use outcome=failed to simulate a declined payment.
+ */
+import crypto from "crypto";
+import express, { Express, Request, Response } from "express";
+import axios from "axios";
+
+interface StandInOptions {
+  // Must match FONEPAY_SECRET_KEY on the backend
+  secretKey?: string;
+  // Where to deliver signed notifications (e.g. http://localhost:5000/api/v1/payments/fonepay/callback)
+  callbackUrl?: string;
+}
+
+interface StandInQr {
+  prn: string;
+  merchantCode: string;
+  amount: number;
+  remarks1: string;
+  remarks2: string;
+  paymentStatus: "pending" | "success" | "failed";
+  fonepayTraceId?: number;
+}
+
+const QR_BASE = "/api/merchant/merchantDetailsForThirdParty";
+
+const sign = (secret: string, values: (string | number)[]): string =>
+  crypto.createHmac("sha512", secret).update(values.join(",")).digest("hex");
+
+/**
+ * Stand-in QR content; real bank apps won't recognise it, which is fine offline
+ */
+const qrMessageFor = (qr: StandInQr): string =>
+  `fonepay-stand-in://pay?merchant=${qr.merchantCode}&prn=${encodeURIComponent(qr.prn)}&amount=${qr.amount}`;
+
+const fonepayError = (res: Response, status: number, message: string) =>
+  res.status(status).json({ success: false, message, statusCode: status });
+
+/**
+ * Build the stand-in app (call .listen() to serve it)
+ */
+const createFonepayStandIn = (options: StandInOptions = {}): Express => {
+  const app = express();
+  const qrs = new Map<string, StandInQr>();
+  const secretKey = options.secretKey || "fonepay-stand-in-secret";
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  const authorised = (req: Request): boolean =>
+    !!req.body.username && !!req.body.password;
+
+  const sendNotification = async (qr: StandInQr) => {
+    if (!options.callbackUrl) return;
+
+    const fields: Record<string, string> = {
+      PRN: qr.prn,
+      PID: qr.merchantCode,
+      PS: String(qr.paymentStatus === "success"),
+      RC: qr.paymentStatus === "success" ? "successful" : "failed",
+      UID: String(qr.fonepayTraceId || ""),
+      BC: "NICENPKA",
+      INI: "9800000000",
+      P_AMT: String(qr.amount),
+      R_AMT: String(qr.amount),
+    };
+    const DV = sign(secretKey, Object.values(fields));
+
+    try {
+      await axios.get(options.callbackUrl, { params: { ...fields, DV } });
+    } catch (error: any) {
+      console.error("Stand-in notification failed:", error.message);
+    }
+  };
+
+  app.post(
+    `${QR_BASE}/thirdPartyDynamicQrDownload`,
+    (req: Request, res: Response) => {
+      if (!authorised(req)) {
+        fonepayError(res, 401, "Invalid username or password");
+        return;
+      }
+
+      const { amount, prn, merchantCode, remarks1, remarks2 } = req.body;
+      const expected = sign(secretKey, [
+        amount,
+        prn,
+        merchantCode,
+        remarks1,
+        remarks2,
+      ]);
+      if (req.body.dataValidation !== expected) {
+        fonepayError(res, 400, "Data validation failed");
+        return;
+      }
+      if (!(Number(amount) > 0) || !prn || qrs.has(prn)) {
+        fonepayError(res, 400, "Invalid amount or duplicate PRN");
+        return;
+      }
+
+      const qr: StandInQr = {
+        prn,
+        merchantCode,
+        amount: Number(amount),
+        remarks1,
+        remarks2,
+        paymentStatus: "pending",
+      };
+      qrs.set(prn, qr);
+
+      res.status(201).json({
+        message: "successfull",
+        qrMessage: qrMessageFor(qr),
+        status: "CREATED",
+        statusCode: 201,
+        success: true,
+        thirdpartyQrWebSocketUrl: `ws://${req.get("host")}/qr/${prn}`,
+      });
+    },
+  );
+
+  app.post(
+    `${QR_BASE}/thirdPartyDynamicQrGetStatus`,
+    (req: Request, res: Response) => {
+      if (!authorised(req)) {
+        fonepayError(res, 401, "Invalid username or password");
+        return;
+      }
+
+      const { prn, merchantCode } = req.body;
+      if (req.body.dataValidation !== sign(secretKey, [prn, merchantCode])) {
+        fonepayError(res, 400, "Data validation failed");
+        return;
+      }
+
+      const qr = qrs.get(prn);
+      if (!qr) {
+        fonepayError(res, 404, "PRN not found");
+        return;
+      }
+
+      res.status(200).json({
+        fonepayTraceId: qr.fonepayTraceId ?? null,
+        paymentStatus: qr.paymentStatus,
+        prn: qr.prn,
+      });
+    },
+  );
+
+  app.post("/qr/:prn/scan", async (req: Request, res: Response) => {
+    const qr = qrs.get(req.params.prn as string);
+    if (!qr || qr.paymentStatus !== "pending") {
+      fonepayError(res, 404, "No pending QR with this PRN");
+      return;
+    }
+
+    qr.paymentStatus = req.body.outcome === "failed" ? "failed" : "success";
+    qr.fonepayTraceId = Math.floor(100000 + Math.random() * 900000);
+    res.status(200).json({ prn: qr.prn, paymentStatus: qr.paymentStatus });
+    await sendNotification(qr);
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.FONEPAY_STAND_IN_PORT || "12113");
+  createFonepayStandIn({
+    secretKey: process.env.FONEPAY_SECRET_KEY,
+    callbackUrl:
+      process.env.FONEPAY_STAND_IN_CALLBACK_URL ||
+      "http://localhost:5000/api/v1/payments/fonepay/callback",
+  }).listen(port, () => {
+    console.log(`📱 Fonepay stand-in listening on http://localhost:${port}`);
+  });
+}
+
+export { createFonepayStandIn };
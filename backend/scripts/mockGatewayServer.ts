@@ -0,0 +1,281 @@
+/**
+ * Mock Gateway Server
+ * A local payment gateway with scripted outcomes, so web and mobile checkout
+ * can be driven end to end without a real wallet (see services/payment/MockGateway.ts)
+ *
+ * Usage:
+ *   npm run mock:gateway
+ *   npm run dev            (the "mock" method is listed with NODE_ENV=development)
+ *
+ * The pay page offers one button per outcome. To script every payment instead,
+ * start the backend with MOCK_GATEWAY_OUTCOME=<outcome>, or complete a payment directly:
+ *   curl -X POST localhost:12112/pay/<id>/complete -d outcome=amount_mismatch
+ *
+ * Outcomes:
+ *   success             paid in full
+ *   failure             declined by the customer
+ *   timeout             left pending; lookups hang longer than the backend waits
+ *   amount_mismatch     paid, but the gateway reports a smaller amount
+ *   duplicate_callback  paid, and the callback is delivered twice
+ */
+import crypto from "crypto";
+import express, { Express, Request, Response } from "express";
+import axios from "axios";
+import { signMockCallback, MockOutcome } from "../services/payment/MockGateway";
+
+interface MockServerOptions {
+  // Must match MOCK_GATEWAY_SECRET on the backend
+  secret?: string;
+  // How long a lookup of a "timeout" payment hangs before answering
+  timeoutDelayMs?: number;
+}
+
+interface MockPayment {
+  id: string;
+  orderId: string;
+  orderNumber?: string;
+  amount: number;
+  // What the gateway reports as captured (differs for amount_mismatch)
+  capturedAmount: number;
+  status: "PENDING" | "COMPLETE" | "FAILED";
+  outcome?: MockOutcome;
+  transactionCode?: string;
+  refundedAmount: number;
+  returnUrl: string;
+}
+
+const OUTCOMES: MockOutcome[] = [
+  "success",
+  "failure",
+  "timeout",
+  "amount_mismatch",
+  "duplicate_callback",
+];
+
+const randomId = (prefix: string): string =>
+  `${prefix}_${crypto.randomBytes(8).toString("hex")}`;
+
+const payPage = (payment: MockPayment): string => `<!DOCTYPE html>
+<html>
+<head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Mock Gateway</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto; padding: 0 16px;">
+  <h2>Mock Gateway</h2>
+  <p>Order <strong>${payment.orderNumber || payment.orderId}</strong></p>
+  <p>Amount <strong>Rs. ${payment.amount}</strong></p>
+  <form method="POST" action="/pay/${payment.id}/complete">
+    ${OUTCOMES.map(
+      (outcome) =>
+        `<button name="outcome" value="${outcome}" style="display:block;width:100%;padding:12px;margin:8px 0;">${outcome}</button>`,
+    ).join("\n    ")}
+  </form>
+</body>
+</html>`;
+
+/**
+ * Build the mock gateway app (call .listen() to serve it)
+ */
+const createMockGatewayServer = (options: MockServerOptions = {}): Express => {
+  const app = express();
+  const payments = new Map<string, MockPayment>();
+  const secret = options.secret;
+  if (!secret) {
+    throw new Error("MOCK_GATEWAY_SECRET is required to run the mock gateway");
+  }
+  const timeoutDelayMs = options.timeoutDelayMs ?? 30000;
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  const callbackUrl = (payment: MockPayment): string => {
+    const params = new URLSearchParams({
+      id: payment.id,
+      orderId: payment.orderId,
+      status: payment.status,
+      amount: String(payment.capturedAmount),
+      transactionCode: payment.transactionCode || "",
+      signature: signMockCallback(
+        secret,
+        payment.id,
+        payment.status,
+        payment.capturedAmount,
+      ),
+    });
+    return `${payment.returnUrl}?${params.toString()}`;
+  };
+
+  // Settle a payment according to its outcome; returns the callback to send, if any
+  const complete = (
+    payment: MockPayment,
+    outcome: MockOutcome,
+  ): string | null => {
+    payment.outcome = outcome;
+
+    if (outcome === "timeout") return null;
+
+    if (outcome === "failure") {
+      payment.status = "FAILED";
+    } else {
+      payment.status = "COMPLETE";
+      payment.transactionCode = randomId("MOCK").toUpperCase();
+      payment.capturedAmount =
+        outcome === "amount_mismatch"
+          ? Math.floor(payment.amount / 2)
+          : payment.amount;
+    }
+    return callbackUrl(payment);
+  };
+
+  // Send the customer back to the shop, delivering the callback server-side
+  // first when it is meant to arrive twice
+  const redirectBack = async (
+    res: Response,
+    payment: MockPayment,
+    url: string,
+  ) => {
+    if (payment.outcome === "duplicate_callback") {
+      try {
+        await axios.get(url, { maxRedirects: 0, validateStatus: () => true });
+      } catch (error: any) {
+        console.error("Mock callback delivery failed:", error.message);
+      }
+    }
+    res.redirect(url);
+  };
+
+  app.post("/payments", (req: Request, res: Response) => {
+    const amount = Number(req.body.amount);
+    if (!req.body.orderId || !req.body.returnUrl || !(amount > 0)) {
+      res
+        .status(400)
+        .json({ message: "orderId, amount and returnUrl are required" });
+      return;
+    }
+
+    const payment: MockPayment = {
+      id: randomId("mp"),
+      orderId: req.body.orderId,
+      orderNumber: req.body.orderNumber,
+      amount,
+      capturedAmount: 0,
+      status: "PENDING",
+      refundedAmount: 0,
+      returnUrl: req.body.returnUrl,
+    };
+    payments.set(payment.id, payment);
+
+    res.status(201).json({
+      id: payment.id,
+      status: payment.status,
+      paymentUrl: `${req.protocol}://${req.get("host")}/pay/${payment.id}`,
+    });
+
+    // A scripted outcome settles at once, as if the customer had already chosen
+    if (OUTCOMES.includes(req.body.outcome)) {
+      complete(payment, req.body.outcome);
+    }
+  });
+
+  app.get("/pay/:id", async (req: Request, res: Response) => {
+    const payment = payments.get(req.params.id as string);
+    if (!payment) {
+      res.status(404).send("Unknown payment");
+      return;
+    }
+
+    if (payment.outcome) {
+      // Already settled by a scripted outcome
+      if (payment.outcome === "timeout") {
+        res.status(504).send("The gateway did not respond.");
+        return;
+      }
+      await redirectBack(res, payment, callbackUrl(payment));
+      return;
+    }
+
+    res.status(200).type("html").send(payPage(payment));
+  });
+
+  app.post("/pay/:id/complete", async (req: Request, res: Response) => {
+    const payment = payments.get(req.params.id as string);
+    if (!payment || payment.status !== "PENDING") {
+      res.status(404).send("Unknown or already settled payment");
+      return;
+    }
+
+    const outcome: MockOutcome = OUTCOMES.includes(req.body.outcome)
+      ? req.body.outcome
+      : "success";
+    const url = complete(payment, outcome);
+
+    if (!url) {
+      res.status(504).send("The gateway did not respond.");
+      return;
+    }
+
+    await redirectBack(res, payment, url);
+  });
+
+  app.get("/payments/:id", (req: Request, res: Response) => {
+    const payment = payments.get(req.params.id as string);
+    if (!payment) {
+      res.status(404).json({ message: "Unknown payment" });
+      return;
+    }
+
+    const body = {
+      id: payment.id,
+      orderId: payment.orderId,
+      status: payment.status,
+      amount: payment.capturedAmount,
+      transactionCode: payment.transactionCode,
+      refundedAmount: payment.refundedAmount,
+    };
+
+    if (payment.outcome === "timeout") {
+      const timer = setTimeout(
+        () => res.status(200).json(body),
+        timeoutDelayMs,
+      );
+      res.on("close", () => clearTimeout(timer));
+      return;
+    }
+
+    res.status(200).json(body);
+  });
+
+  app.post("/refunds", (req: Request, res: Response) => {
+    const payment = [...payments.values()].find(
+      (p) =>
+        p.transactionCode && p.transactionCode === req.body.transactionCode,
+    );
+    if (!payment || payment.status !== "COMPLETE") {
+      res.status(400).json({ message: "Payment has no successful capture" });
+      return;
+    }
+
+    const remaining = payment.capturedAmount - payment.refundedAmount;
+    const amount = req.body.amount ? Number(req.body.amount) : remaining;
+    if (amount <= 0 || amount > remaining) {
+      res
+        .status(400)
+        .json({ message: "Refund amount is greater than unrefunded amount" });
+      return;
+    }
+
+    payment.refundedAmount += amount;
+    res.status(201).json({ id: randomId("mr"), amount, status: "COMPLETE" });
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_GATEWAY_PORT || "12112");
+  createMockGatewayServer({
+    secret: process.env.MOCK_GATEWAY_SECRET,
+  }).listen(port, () => {
+    console.log(`🧪 Mock gateway listening on http://localhost:${port}`);
+  });
+}
+
+export { createMockGatewayServer };
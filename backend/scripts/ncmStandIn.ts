@@ -0,0 +1,193 @@
+/**
+ * Nepal Can Move Stand-in Server
+ * A tiny offline imitation of the NCM order and status endpoints NcmCourier uses,
+ * for local development and tests without a vendor account
+ *
+ * Usage:
+ *   npm run ncm:stand-in
+ *   NCM_API_BASE=http://localhost:12114/api/v1 npm run dev
+ *
+ * Simulate the parcel moving (what NCM's branches would do):
+ *   curl -X POST localhost:12114/orders/<orderid>/advance
+ * Each call moves to the next status and posts a signed webhook.
+ * Pass -d status=Undelivered (or any NCM status) to jump to that status.
+ */
+import express, { Express, Request, Response } from "express";
+import axios from "axios";
+import { signNcmWebhook } from "../services/courier/NcmCourier";
+
+interface StandInOptions {
+  // Must match NCM_WEBHOOK_SECRET on the backend
+  webhookSecret?: string;
+  // Where to deliver webhooks (e.g. http://localhost:5000/api/v1/shipping/couriers/ncm/webhook)
+  webhookUrl?: string;
+}
+
+interface StandInStatus {
+  status: string;
+  branch: string;
+  added_time: string;
+}
+
+interface StandInOrder {
+  orderid: number;
+  fbranch: string;
+  branch: string;
+  vref_id: string;
+  cod_charge: string;
+  statuses: StandInStatus[];
+}
+
+// The normal journey of a parcel, after "Pickup Order Created"
+const JOURNEY = [
+  "Pickup Complete",
+  "Dispatched",
+  "Arrived",
+  "Sent for Delivery",
+  "Delivered",
+];
+
+const ncmError = (res: Response, status: number, message: string) =>
+  res.status(status).json({ Error: message });
+
+/**
+ * Build the stand-in app (call .listen() to serve it)
+ */
+const createNcmStandIn = (options: StandInOptions = {}): Express => {
+  const app = express();
+  const orders = new Map<number, StandInOrder>();
+  const webhookSecret = options.webhookSecret || "ncm-stand-in-secret";
+  let nextOrderId = 41000;
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  const authorised = (req: Request): boolean =>
+    /^Token \S+$/.test(req.get("authorization") || "");
+
+  const sendWebhook = async (order: StandInOrder, entry: StandInStatus) => {
+    if (!options.webhookUrl) return;
+
+    const payload = {
+      order_id: order.orderid,
+      status: entry.status,
+      branch: entry.branch,
+      timestamp: entry.added_time,
+    };
+    const signature = signNcmWebhook(
+      webhookSecret,
+      payload.order_id,
+      payload.status,
+      payload.timestamp,
+    );
+
+    try {
+      await axios.post(options.webhookUrl, payload, {
+        headers: { "x-ncm-signature": signature },
+      });
+    } catch (error: any) {
+      console.error("Stand-in webhook failed:", error.message);
+    }
+  };
+
+  app.post("/api/v1/order/create", (req: Request, res: Response) => {
+    if (!authorised(req)) {
+      ncmError(res, 401, "Invalid token");
+      return;
+    }
+
+    const { name, phone, address, fbranch, branch, vref_id } = req.body;
+    if (!name || !phone || !address || !branch) {
+      ncmError(res, 400, "name, phone, address and branch are required");
+      return;
+    }
+
+    const order: StandInOrder = {
+      orderid: nextOrderId++,
+      fbranch: fbranch || "TINKUNE",
+      branch,
+      vref_id,
+      cod_charge: req.body.cod_charge || "0",
+      statuses: [
+        {
+          status: "Pickup Order Created",
+          branch: fbranch || "TINKUNE",
+          added_time: new Date().toISOString(),
+        },
+      ],
+    };
+    orders.set(order.orderid, order);
+
+    res.status(200).json({
+      Message: "Order Successfully Created",
+      orderid: order.orderid,
+    });
+  });
+
+  app.get("/api/v1/order/status", (req: Request, res: Response) => {
+    if (!authorised(req)) {
+      ncmError(res, 401, "Invalid token");
+      return;
+    }
+
+    const order = orders.get(Number(req.query.id));
+    if (!order) {
+      ncmError(res, 404, "Order not found");
+      return;
+    }
+
+    // NCM lists the newest status first
+    res
+      .status(200)
+      .json(
+        [...order.statuses]
+          .reverse()
+          .map((entry) => ({ orderid: order.orderid, ...entry })),
+      );
+  });
+
+  app.post("/orders/:id/advance", async (req: Request, res: Response) => {
+    const order = orders.get(Number(req.params.id));
+    if (!order) {
+      ncmError(res, 404, "Order not found");
+      return;
+    }
+
+    const current = order.statuses[order.statuses.length - 1].status;
+    const status =
+      req.body.status || JOURNEY[JOURNEY.indexOf(current) + 1] || current;
+    const atOrigin = ["Pickup Complete", "Dispatched"].includes(status);
+
+    // Keep timestamps strictly increasing so quick test runs stay ordered
+    const last = new Date(order.statuses[order.statuses.length - 1].added_time);
+    const entry: StandInStatus = {
+      status,
+      branch: atOrigin ? order.fbranch : order.branch,
+      added_time: new Date(
+        Math.max(Date.now(), last.getTime() + 1000),
+      ).toISOString(),
+    };
+    order.statuses.push(entry);
+
+    await sendWebhook(order, entry);
+    res.status(200).json({ orderid: order.orderid, ...entry });
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.NCM_STAND_IN_PORT || "12114");
+  createNcmStandIn({
+    webhookSecret: process.env.NCM_WEBHOOK_SECRET,
+    webhookUrl:
+      process.env.NCM_STAND_IN_WEBHOOK_URL ||
+      "http://localhost:5000/api/v1/shipping/couriers/ncm/webhook",
+  }).listen(port, () => {
+    console.log(
+      `🚚 Nepal Can Move stand-in listening on http://localhost:${port}`,
+    );
+  });
+}
+
+export { createNcmStandIn };
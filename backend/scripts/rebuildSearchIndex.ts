@@ -0,0 +1,34 @@
+/**
+ * Search Index Rebuild
+ * Builds the product suggestion index for products saved before it existed
+ * or inserted without save hooks. Safe to re-run
+ *
+ * Usage:
+ *   npm run search:reindex
+ */
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { rebuildSearchIndex } from "../services/searchService";
+
+const run = async () => {
+  try {
+    if (!process.env.MONGODB_URI) {
+      throw new Error("MONGODB_URI environment variable is not defined");
+    }
+
+    await mongoose.connect(process.env.MONGODB_URI);
+
+    const updated = await rebuildSearchIndex();
+    console.log(`🔎 Rebuilt the search index for ${updated} products`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Search index rebuild failed:", error);
+    process.exit(1);
+  }
+};
+
+run();
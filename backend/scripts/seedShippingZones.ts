@@ -0,0 +1,39 @@
+/**
+ * Shipping Zone Seed
+ * Creates the default shipping zones (the rates checkout charged before zones
+ * were configurable) on a database that has none. Never touches other data
+ * and does nothing once any zone exists, so it is safe to run on upgrade
+ *
+ * Usage:
+ *   npm run shipping:seed
+ */
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { seedDefaultShippingZones } from "../services/shippingService";
+
+const run = async () => {
+  try {
+    if (!process.env.MONGODB_URI) {
+      throw new Error("MONGODB_URI environment variable is not defined");
+    }
+
+    await mongoose.connect(process.env.MONGODB_URI);
+
+    const created = await seedDefaultShippingZones();
+    console.log(
+      created
+        ? `🚚 Created ${created} shipping zones`
+        : "🚚 Shipping zones are already configured, nothing to do",
+    );
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Shipping zone seed failed:", error);
+    process.exit(1);
+  }
+};
+
+run();
@@ -0,0 +1,223 @@
+/**
+ * Stripe Stand-in Server
+ * A tiny offline imitation of the Stripe endpoints StripeGateway uses,
+ * for local development and tests without network access
+ *
+ * Usage:
+ *   npm run stripe:stand-in
+ *   STRIPE_API_BASE=http://localhost:12111 npm run dev
+ *
+ * Confirm a payment (what Stripe.js would do in the browser):
+ *   curl -X POST localhost:12111/v1/payment_intents/<id>/confirm -d payment_method=pm_card_visa
+ * Use payment_method=pm_card_chargeDeclined to simulate a declined card.
+ */
+import crypto from "crypto";
+import express, { Express, Request, Response, NextFunction } from "express";
+import axios from "axios";
+
+interface StandInOptions {
+  // Where to deliver signed webhook events (e.g. http://localhost:5000/api/v1/payments/stripe/webhook)
+  webhookUrl?: string;
+  webhookSecret?: string;
+}
+
+interface StandInIntent {
+  id: string;
+  object: "payment_intent";
+  amount: number;
+  amount_received: number;
+  amount_refunded: number;
+  currency: string;
+  status: string;
+  client_secret: string;
+  description?: string;
+  receipt_email?: string;
+  metadata: Record<string, string>;
+  latest_charge: string | null;
+  last_payment_error: { message: string } | null;
+  created: number;
+}
+
+const randomId = (prefix: string): string =>
+  `${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+
+/**
+ * Sign a payload the same way Stripe does for webhooks
+ */
+const signPayload = (payload: string, secret: string): string => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+const stripeError = (res: Response, status: number, message: string) =>
+  res.status(status).json({
+    error: { type: "invalid_request_error", message },
+  });
+
+/**
+ * Build the stand-in app (call .listen() to serve it)
+ */
+const createStripeStandIn = (options: StandInOptions = {}): Express => {
+  const app = express();
+  const intents = new Map<string, StandInIntent>();
+
+  app.use(express.urlencoded({ extended: true }));
+
+  // Any bearer key is accepted, but one must be sent
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers.authorization?.startsWith("Bearer ")) {
+      stripeError(res, 401, "You did not provide an API key.");
+      return;
+    }
+    next();
+  });
+
+  const sendWebhook = async (type: string, intent: StandInIntent) => {
+    if (!options.webhookUrl || !options.webhookSecret) return;
+
+    const payload = JSON.stringify({
+      id: randomId("evt"),
+      object: "event",
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object: intent },
+    });
+
+    try {
+      await axios.post(options.webhookUrl, payload, {
+        headers: {
+          "Content-Type": "application/json",
+          "Stripe-Signature": signPayload(payload, options.webhookSecret),
+        },
+      });
+    } catch (error: any) {
+      console.error("Stand-in webhook delivery failed:", error.message);
+    }
+  };
+
+  app.post("/v1/payment_intents", (req: Request, res: Response) => {
+    const amount = parseInt(req.body.amount);
+    if (!amount || amount < 50) {
+      stripeError(res, 400, "Amount must be at least 50 cents");
+      return;
+    }
+
+    const id = randomId("pi");
+    const intent: StandInIntent = {
+      id,
+      object: "payment_intent",
+      amount,
+      amount_received: 0,
+      amount_refunded: 0,
+      currency: req.body.currency || "usd",
+      status: "requires_payment_method",
+      client_secret: `${id}_secret_${crypto.randomBytes(8).toString("hex")}`,
+      description: req.body.description,
+      receipt_email: req.body.receipt_email,
+      metadata: req.body.metadata || {},
+      latest_charge: null,
+      last_payment_error: null,
+      created: Math.floor(Date.now() / 1000),
+    };
+
+    intents.set(id, intent);
+    res.status(200).json(intent);
+  });
+
+  app.get("/v1/payment_intents/:id", (req: Request, res: Response) => {
+    const intent = intents.get(req.params.id as string);
+    if (!intent) {
+      stripeError(res, 404, `No such payment_intent: '${req.params.id}'`);
+      return;
+    }
+
+    // expand[]=latest_charge inlines the charge with its refunded total
+    const expand = [req.query["expand[]"], req.query.expand].flat();
+    if (expand.includes("latest_charge") && intent.latest_charge) {
+      res.status(200).json({
+        ...intent,
+        latest_charge: {
+          id: intent.latest_charge,
+          object: "charge",
+          amount: intent.amount,
+          amount_captured: intent.amount_received,
+          amount_refunded: intent.amount_refunded,
+          payment_intent: intent.id,
+        },
+      });
+      return;
+    }
+
+    res.status(200).json(intent);
+  });
+
+  app.post(
+    "/v1/payment_intents/:id/confirm",
+    async (req: Request, res: Response) => {
+      const intent = intents.get(req.params.id as string);
+      if (!intent) {
+        stripeError(res, 404, `No such payment_intent: '${req.params.id}'`);
+        return;
+      }
+
+      if (req.body.payment_method === "pm_card_chargeDeclined") {
+        intent.status = "requires_payment_method";
+        intent.last_payment_error = { message: "Your card was declined." };
+        res.status(200).json(intent);
+        await sendWebhook("payment_intent.payment_failed", intent);
+        return;
+      }
+
+      intent.status = "succeeded";
+      intent.amount_received = intent.amount;
+      intent.latest_charge = randomId("ch");
+      intent.last_payment_error = null;
+      res.status(200).json(intent);
+      await sendWebhook("payment_intent.succeeded", intent);
+    },
+  );
+
+  app.post("/v1/refunds", (req: Request, res: Response) => {
+    const intent = intents.get(req.body.payment_intent);
+    if (!intent || intent.status !== "succeeded") {
+      stripeError(res, 400, "This PaymentIntent has no successful charge");
+      return;
+    }
+
+    const remaining = intent.amount_received - intent.amount_refunded;
+    const amount = req.body.amount ? parseInt(req.body.amount) : remaining;
+    if (amount <= 0 || amount > remaining) {
+      stripeError(res, 400, "Refund amount is greater than unrefunded amount");
+      return;
+    }
+
+    intent.amount_refunded += amount;
+    res.status(200).json({
+      id: randomId("re"),
+      object: "refund",
+      amount,
+      payment_intent: intent.id,
+      status: "succeeded",
+    });
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.STRIPE_STAND_IN_PORT || "12111");
+  createStripeStandIn({
+    webhookUrl:
+      process.env.STRIPE_STAND_IN_WEBHOOK_URL ||
+      "http://localhost:5000/api/v1/payments/stripe/webhook",
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+  }).listen(port, () => {
+    console.log(`💳 Stripe stand-in listening on http://localhost:${port}`);
+  });
+}
+
+export { createStripeStandIn, signPayload };
@@ -13,11 +13,16 @@ import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs'; // Using bcryptjs for broader compatibility in scripts
 import User from './models/User';
 import Category from './models/Category';
+import Attribute from './models/Attribute';
 import Product from './models/Product';
 import Cart from './models/Cart';
 import Order from './models/Order';
 import Payment from './models/Payment';
 import Review from './models/Review';
+import ShippingZone from './models/ShippingZone';
+import { rebuildSearchIndex } from './services/searchService';
+import { seedDefaultShippingZones } from './services/shippingService';
+import { PRODUCT_SIZES } from './utils/constants';
 
 // Connect to Database first
 const run = async () => {
@@ -36,11 +41,13 @@ const run = async () => {
             console.log('🗑️  Clearing existing data...');
             await User.deleteMany({});
             await Category.deleteMany({});
+            await Attribute.deleteMany({});
             await Product.deleteMany({});
             await Cart.deleteMany({});
             await Order.deleteMany({});
             await Payment.deleteMany({});
             await Review.deleteMany({});
+            await ShippingZone.deleteMany({});
             console.log('   Data cleared');
 
             // Create admin user with pre-hashed password
@@ -74,11 +81,20 @@ const run = async () => {
             ]);
             console.log('   Created 2 users');
 
+            // Variant attributes; both categories sell sized, coloured goods
+            console.log('🏷️  Creating attributes...');
+            const [sizeAttribute, colorAttribute] = await Attribute.create([
+                { name: 'Size', type: 'select', values: [...PRODUCT_SIZES] },
+                { name: 'Color', type: 'text' },
+            ]);
+            const attributes = [sizeAttribute._id, colorAttribute._id];
+            console.log('   Created 2 attributes');
+
             // Create categories directly
             console.log('📁 Creating categories...');
             const categoryDocs = await Category.collection.insertMany([
-                { name: 'Nevan Collection', slug: 'nevan-collection', description: 'Exclusive handcrafted collection.', isActive: true, order: 1, createdAt: new Date(), updatedAt: new Date() },
-                { name: 'Nevan Sprouts', slug: 'nevan-sprouts', description: 'Adorable items for the little ones.', isActive: true, order: 2, createdAt: new Date(), updatedAt: new Date() },
+                { name: 'Nevan Collection', slug: 'nevan-collection', description: 'Exclusive handcrafted collection.', isActive: true, order: 1, attributes, createdAt: new Date(), updatedAt: new Date() },
+                { name: 'Nevan Sprouts', slug: 'nevan-sprouts', description: 'Adorable items for the little ones.', isActive: true, order: 2, attributes, createdAt: new Date(), updatedAt: new Date() },
             ]);
             console.log('   Created 2 categories');
 
@@ -195,6 +211,14 @@ const run = async () => {
             ]);
             console.log('   Created 9 products');
 
+            // insertMany skips save hooks, so build the suggestion index here
+            await rebuildSearchIndex();
+
+            // Shipping zones (free shipping over NPR 5000 everywhere)
+            console.log('🚚 Creating shipping zones...');
+            const zoneCount = await seedDefaultShippingZones();
+            console.log(`   Created ${zoneCount} shipping zones`);
+
             console.log('\n✨ Data imported successfully!\n');
             console.log('🔐 Admin: amir@svi.edu.np / Bivan@2036');
             console.log('👤 Customer: bimala@svi.edu.np / Bimala@2036\n');
@@ -203,11 +227,13 @@ const run = async () => {
             console.log('🗑️  Deleting all data...');
             await User.deleteMany({});
             await Category.deleteMany({});
+            await Attribute.deleteMany({});
             await Product.deleteMany({});
             await Cart.deleteMany({});
             await Order.deleteMany({});
             await Payment.deleteMany({});
             await Review.deleteMany({});
+            await ShippingZone.deleteMany({});
             console.log('✅ All data destroyed!');
         } else {
             console.log('\n📦 BivanHandicraft Database Seeder\n');
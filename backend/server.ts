@@ -9,6 +9,9 @@ import http from 'http';
 import app from './app';
 import connectDB from './config/db';
 import { initializeSocket } from './config/socket';
+import { startOrderExpirySweeper, stopOrderExpirySweeper } from './services/orderExpiryService';
+import { startPaymentReconciler, stopPaymentReconciler } from './services/paymentReconciliationService';
+import { startShipmentTrackingSync, stopShipmentTrackingSync } from './services/shipmentService';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (err: Error) => {
@@ -21,6 +24,15 @@ process.on('uncaughtException', (err: Error) => {
 // Connect to database
 connectDB();
 
+// Release stock held by abandoned online payments
+startOrderExpirySweeper();
+
+// Settle online payments whose customers never returned from the gateway
+startPaymentReconciler();
+
+// Catch courier updates whose webhook never arrived
+startShipmentTrackingSync();
+
 // Create HTTP server (required for Socket.IO)
 const httpServer = http.createServer(app);
 
@@ -57,6 +69,9 @@ process.on('unhandledRejection', (err: any) => {
 // Graceful shutdown on SIGTERM
 process.on('SIGTERM', () => {
     console.log('👋 SIGTERM RECEIVED. Shutting down gracefully');
+    stopOrderExpirySweeper();
+    stopPaymentReconciler();
+    stopShipmentTrackingSync();
     httpServer.close(() => {
         console.log('💥 Process terminated!');
     });
@@ -0,0 +1,146 @@
+/**
+ * Address Service
+ * Manages the customer's saved address book
+ */
+import User, { IAddress, IUser, MAX_ADDRESSES } from "../models/User";
+import { IShippingAddress } from "../models/Order";
+import AppError from "../utils/AppError";
+
+type AddressData = Partial<Omit<IAddress, "_id">>;
+
+const getUserOrFail = async (userId: string): Promise<IUser> => {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AppError("User not found", 404);
+  }
+  return user;
+};
+
+const getAddressOrFail = (user: IUser, addressId: string) => {
+  const address = user.addresses.id(addressId);
+  if (!address) {
+    throw new AppError("Address not found", 404);
+  }
+  return address;
+};
+
+/**
+ * Saved addresses, default first
+ */
+const getAddresses = async (userId: string): Promise<IAddress[]> => {
+  const user = await getUserOrFail(userId);
+  return [...user.addresses].sort(
+    (a, b) => Number(b.isDefault) - Number(a.isDefault),
+  );
+};
+
+/**
+ * Add an address. The first address saved becomes the default.
+ */
+const addAddress = async (
+  userId: string,
+  addressData: AddressData,
+): Promise<IAddress[]> => {
+  const user = await getUserOrFail(userId);
+
+  if (user.addresses.length >= MAX_ADDRESSES) {
+    throw new AppError(`You can save up to ${MAX_ADDRESSES} addresses`, 400);
+  }
+
+  if (addressData.isDefault) {
+    user.addresses.forEach((address) => {
+      address.isDefault = false;
+    });
+  }
+  user.addresses.push(addressData as any);
+  await user.save();
+
+  return getAddresses(userId);
+};
+
+/**
+ * Update an address
+ */
+const updateAddress = async (
+  userId: string,
+  addressId: string,
+  updateData: AddressData,
+): Promise<IAddress[]> => {
+  const user = await getUserOrFail(userId);
+  const address = getAddressOrFail(user, addressId);
+
+  if (updateData.isDefault) {
+    user.addresses.forEach((a) => {
+      a.isDefault = false;
+    });
+  }
+  const { _id: _addressId, ...rest } = updateData as any;
+  address.set(rest);
+  await user.save();
+
+  return getAddresses(userId);
+};
+
+/**
+ * Delete an address. If it was the default, the next one takes over.
+ */
+const deleteAddress = async (
+  userId: string,
+  addressId: string,
+): Promise<IAddress[]> => {
+  const user = await getUserOrFail(userId);
+  const address = getAddressOrFail(user, addressId);
+
+  address.deleteOne();
+  await user.save();
+
+  return getAddresses(userId);
+};
+
+/**
+ * Make an address the default
+ */
+const setDefaultAddress = async (
+  userId: string,
+  addressId: string,
+): Promise<IAddress[]> => {
+  const user = await getUserOrFail(userId);
+  getAddressOrFail(user, addressId);
+
+  user.addresses.forEach((address) => {
+    address.isDefault = address._id.toString() === addressId;
+  });
+  await user.save();
+
+  return getAddresses(userId);
+};
+
+/**
+ * Snapshot a saved address for use as an order's shipping address
+ */
+const getShippingAddress = async (
+  userId: string,
+  addressId: string,
+): Promise<IShippingAddress> => {
+  const user = await getUserOrFail(userId);
+  const address = getAddressOrFail(user, addressId);
+
+  return {
+    name: address.name,
+    phone: address.phone,
+    street: address.street,
+    city: address.city,
+    district: address.district,
+    province: address.province,
+    landmark: address.landmark,
+  };
+};
+
+export {
+  getAddresses,
+  addAddress,
+  updateAddress,
+  deleteAddress,
+  setDefaultAddress,
+  getShippingAddress,
+};
@@ -0,0 +1,214 @@
+/**
+ * Attribute Service
+ * Admin-defined variant attributes and the per-category attribute schema
+ */
+import { Types } from "mongoose";
+import Attribute, { IAttribute, AttributeType } from "../models/Attribute";
+import Category from "../models/Category";
+import Product, { IVariantOption, variantOptions } from "../models/Product";
+import AppError from "../utils/AppError";
+
+interface AttributeData {
+  name: string;
+  type?: AttributeType;
+  values?: string[];
+  unit?: string;
+}
+
+interface CategoryLink {
+  attributes?: Types.ObjectId[];
+  parent: Types.ObjectId | null;
+}
+
+interface VariantInput {
+  size?: string;
+  color?: string;
+  options?: IVariantOption[];
+  [key: string]: any;
+}
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const getAttributes = async (): Promise<IAttribute[]> =>
+  Attribute.find().sort({ name: 1 });
+
+const createAttribute = async (
+  data: AttributeData,
+  adminId: string,
+): Promise<IAttribute> => {
+  // "Material" and "material" would be the same attribute to an admin
+  const existing = await Attribute.findOne({
+    name: data.name.trim(),
+  }).collation({ locale: "en", strength: 2 });
+  if (existing) {
+    throw new AppError(`Attribute '${existing.name}' already exists`, 400);
+  }
+
+  return Attribute.create({ ...data, createdBy: adminId });
+};
+
+/**
+ * Update an attribute. A rename is carried over to the variants using it,
+ * so they still match their category's schema
+ */
+const updateAttribute = async (
+  attributeId: string,
+  data: Partial<AttributeData>,
+): Promise<IAttribute> => {
+  const attribute = await Attribute.findById(attributeId);
+  if (!attribute) {
+    throw new AppError("Attribute not found", 404);
+  }
+
+  const previousName = attribute.name;
+  if (data.name !== undefined) attribute.name = data.name;
+  if (data.type !== undefined) attribute.type = data.type;
+  if (data.values !== undefined) attribute.values = data.values;
+  if (data.unit !== undefined) attribute.unit = data.unit;
+  await attribute.save();
+
+  if (attribute.name !== previousName) {
+    await Product.updateMany(
+      { "variants.options.name": previousName },
+      { $set: { "variants.$[].options.$[option].name": attribute.name } },
+      { arrayFilters: [{ "option.name": previousName }] },
+    );
+  }
+
+  return attribute;
+};
+
+const deleteAttribute = async (
+  attributeId: string,
+): Promise<{ message: string }> => {
+  const attribute = await Attribute.findById(attributeId);
+  if (!attribute) {
+    throw new AppError("Attribute not found", 404);
+  }
+
+  const categories = await Category.countDocuments({
+    attributes: attribute._id,
+  });
+  if (categories > 0) {
+    throw new AppError(
+      `'${attribute.name}' is used by ${categories} categor${categories === 1 ? "y" : "ies"}; remove it from them first`,
+      400,
+    );
+  }
+
+  await attribute.deleteOne();
+  return { message: "Attribute deleted successfully" };
+};
+
+/**
+ * Check the attribute ids given for a category all exist
+ */
+const assertAttributesExist = async (attributeIds: string[]) => {
+  const unique = [...new Set(attributeIds.map(String))];
+  const found = await Attribute.countDocuments({ _id: { $in: unique } });
+  if (found !== unique.length) {
+    throw new AppError("Attribute not found", 404);
+  }
+};
+
+/**
+ * Attributes a category's variants carry: its ancestors' first, then its own
+ */
+const getCategoryAttributes = async (
+  categoryId: string | Types.ObjectId,
+): Promise<IAttribute[]> => {
+  const chain: Types.ObjectId[][] = [];
+  const seen = new Set<string>();
+  let nextId: Types.ObjectId | null = new Types.ObjectId(categoryId);
+
+  while (nextId && !seen.has(nextId.toString())) {
+    seen.add(nextId.toString());
+    const category: CategoryLink | null = await Category.findById(nextId)
+      .select("attributes parent")
+      .lean<CategoryLink>();
+    if (!category) break;
+    chain.unshift(category.attributes || []);
+    nextId = category.parent;
+  }
+
+  const ids = [...new Set(chain.flat().map((id) => id.toString()))];
+  const attributes = await Attribute.find({ _id: { $in: ids } });
+  const byId = new Map(attributes.map((a) => [a._id.toString(), a]));
+  return ids.flatMap((id) => byId.get(id) || []);
+};
+
+/**
+ * Check variants against their category's attributes and return them with
+ * options in the attributes' own spelling. Categories without attributes
+ * accept any size and colour, as before attributes existed
+ */
+const validateVariantOptions = async <T extends VariantInput>(
+  categoryId: string | Types.ObjectId,
+  variants: T[],
+): Promise<T[]> => {
+  const attributes = await getCategoryAttributes(categoryId);
+  if (attributes.length === 0 || variants.length === 0) return variants;
+
+  const combinations = new Set<string>();
+
+  return variants.map((variant) => {
+    const options = variantOptions(variant);
+
+    options.forEach((option) => {
+      if (
+        !attributes.some((attribute) => sameName(attribute.name, option.name))
+      ) {
+        throw new AppError(
+          `'${option.name}' is not an attribute of this category`,
+          400,
+        );
+      }
+    });
+
+    const normalized = attributes.map((attribute) => {
+      const option = options.find((o) => sameName(o.name, attribute.name));
+      const value = option?.value?.toString().trim();
+      if (!value) {
+        throw new AppError(`Every variant needs a ${attribute.name}`, 400);
+      }
+
+      if (attribute.type === "select") {
+        const allowed = attribute.values.find((v) => sameName(v, value));
+        if (!allowed) {
+          throw new AppError(
+            `${attribute.name} must be one of: ${attribute.values.join(", ")}`,
+            400,
+          );
+        }
+        return { name: attribute.name, value: allowed };
+      }
+
+      if (attribute.type === "number" && !Number.isFinite(Number(value))) {
+        throw new AppError(`${attribute.name} must be a number`, 400);
+      }
+      return { name: attribute.name, value };
+    });
+
+    const key = normalized.map((o) => o.value.toLowerCase()).join("|");
+    if (combinations.has(key)) {
+      throw new AppError(
+        `Two variants have the same options (${normalized.map((o) => o.value).join(" / ")})`,
+        400,
+      );
+    }
+    combinations.add(key);
+
+    return { ...variant, options: normalized };
+  });
+};
+
+export {
+  getAttributes,
+  createAttribute,
+  updateAttribute,
+  deleteAttribute,
+  assertAttributesExist,
+  getCategoryAttributes,
+  validateVariantOptions,
+};
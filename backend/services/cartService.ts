@@ -2,22 +2,105 @@
  * Cart Service
  * Handles shopping cart business logic
  */
-import Cart, { ICart } from "../models/Cart";
-import Product from "../models/Product";
+import Cart from "../models/Cart";
+import Product, { describeVariant } from "../models/Product";
 import AppError from "../utils/AppError";
+import * as couponService from "./couponService";
+import * as taxService from "./taxService";
 
 interface CartResult {
   items: any[];
   subtotal: number;
   itemCount: number;
+  coupon?: ReturnType<typeof couponService.toCouponSummary> | null;
+  couponError?: string;
+  discount?: number;
+  tax?: number;
+  pricesIncludeTax?: boolean;
+  total?: number;
 }
 
+const CART_PRODUCT_SELECT =
+  "name slug price comparePrice images stock variants isActive category taxClass";
+
+/**
+ * Calculate cart totals including a live preview of the applied coupon.
+ * An applied code that is no longer valid is reported, not thrown,
+ * so the cart itself still loads.
+ */
+const calculateCouponTotals = async (
+  cart: any,
+  userId: string,
+): Promise<CartResult> => {
+  const totals = cart.calculateTotal();
+
+  if (!cart.couponCode) {
+    return { ...totals, coupon: null, discount: 0, total: totals.subtotal };
+  }
+
+  try {
+    const { coupon, discount } = await couponService.validateCoupon(
+      cart.couponCode,
+      userId,
+      couponService.couponLinesFromCart(cart),
+      totals.subtotal,
+    );
+
+    return {
+      ...totals,
+      coupon: couponService.toCouponSummary(coupon),
+      discount,
+      total: totals.subtotal - discount,
+    };
+  } catch (error) {
+    if (!(error instanceof AppError)) throw error;
+
+    return {
+      ...totals,
+      coupon: null,
+      couponError: error.message,
+      discount: 0,
+      total: totals.subtotal,
+    };
+  }
+};
+
+/**
+ * Cart totals with the coupon and VAT previewed the way checkout applies them
+ */
+const calculateCartTotals = async (
+  cart: any,
+  userId: string,
+): Promise<CartResult> => {
+  const totals = await calculateCouponTotals(cart, userId);
+  const lines = couponService.couponLinesFromCart(cart);
+  const taxClasses = await taxService.resolveTaxClasses(
+    cart.items.map((item: any) => item.product).filter((p: any) => p?._id),
+  );
+  const { tax, pricesIncludeTax } = taxService.calculateOrderTax(
+    lines.map((line) => ({
+      subtotal: line.subtotal,
+      taxClass: taxClasses.get(line.product.toString()) || "standard",
+    })),
+    totals.discount || 0,
+  );
+
+  return {
+    ...totals,
+    tax,
+    pricesIncludeTax,
+    total:
+      Math.round(((totals.total || 0) + (pricesIncludeTax ? 0 : tax)) * 100) /
+      100,
+  };
+};
+
 /**
  * Get user's cart with populated products
  */
-const getCart = async (userId: string): Promise<ICart> => {
+const getCart = async (userId: string): Promise<CartResult> => {
   const cart = await (Cart as any).getOrCreate(userId);
-  return cart.calculateTotal();
+  return calculateCartTotals(cart, userId);
 };
 
 /**
@@ -28,7 +111,7 @@ const addToCart = async (
   productId: string,
   quantity: number = 1,
   variantId: string | null = null,
-): Promise<ICart> => {
+): Promise<CartResult> => {
   // Verify product exists and is active - only fetch needed fields
   const product = await Product.findOne({
     _id: productId,
@@ -55,7 +138,7 @@ const addToCart = async (
     // Check variant stock
     if (variant.stock < quantity) {
       throw new AppError(
-        `Only ${variant.stock} items available for ${variant.size} - ${variant.color}`,
+        `Only ${variant.stock} items available for ${describeVariant(variant)}`,
         400,
       );
     }
@@ -80,10 +163,10 @@ const addToCart = async (
   // Return populated cart
   await cart.populate({
     path: "items.product",
-    select: "name slug price comparePrice images stock variants isActive",
+    select: CART_PRODUCT_SELECT,
   });
 
-  return (cart as any).calculateTotal();
+  return calculateCartTotals(cart, userId);
 };
 
 /**
@@ -93,7 +176,7 @@ const updateCartItem = async (
   userId: string,
   itemId: string,
   quantity: number,
-): Promise<ICart> => {
+): Promise<CartResult> => {
   const cart = await Cart.findOne({ user: userId });
   if (!cart) {
     throw new AppError("Cart not found", 404);
@@ -120,7 +203,7 @@ const updateCartItem = async (
     }
     if (variant.stock < quantity) {
       throw new AppError(
-        `Only ${variant.stock} items available for ${variant.size} - ${variant.color}`,
+        `Only ${variant.stock} items available for ${describeVariant(variant)}`,
         400,
       );
     }
@@ -132,10 +215,10 @@ const updateCartItem = async (
 
   await cart.populate({
     path: "items.product",
-    select: "name slug price comparePrice images stock variants isActive",
+    select: CART_PRODUCT_SELECT,
   });
 
-  return (cart as any).calculateTotal();
+  return calculateCartTotals(cart, userId);
 };
 
 /**
@@ -144,7 +227,7 @@ const updateCartItem = async (
 const removeFromCart = async (
   userId: string,
   itemId: string,
-): Promise<ICart> => {
+): Promise<CartResult> => {
   const cart = await Cart.findOne({ user: userId });
   if (!cart) {
     throw new AppError("Cart not found", 404);
@@ -154,10 +237,10 @@ const removeFromCart = async (
 
   await cart.populate({
     path: "items.product",
-    select: "name slug price comparePrice images stock variants isActive",
+    select: CART_PRODUCT_SELECT,
   });
 
-  return (cart as any).calculateTotal();
+  return calculateCartTotals(cart, userId);
 };
 
 /**
@@ -171,4 +254,52 @@ const clearCart = async (userId: string): Promise<CartResult> => {
   return { items: [], subtotal: 0, itemCount: 0 };
 };
 
-export { getCart, addToCart, updateCartItem, removeFromCart, clearCart };
+/**
+ * Apply a coupon code to the cart
+ * Validates the code against the current cart before saving it
+ */
+const applyCoupon = async (
+  userId: string,
+  code: string,
+): Promise<CartResult> => {
+  const cart = await (Cart as any).getOrCreate(userId);
+
+  if (cart.items.length === 0) {
+    throw new AppError("Cart is empty", 400);
+  }
+
+  const totals = cart.calculateTotal();
+  const { coupon } = await couponService.validateCoupon(
+    code,
+    userId,
+    couponService.couponLinesFromCart(cart),
+    totals.subtotal,
+  );
+
+  cart.couponCode = coupon.code;
+  await cart.save();
+
+  return calculateCartTotals(cart, userId);
+};
+
+/**
+ * Remove the applied coupon from the cart
+ */
+const removeCoupon = async (userId: string): Promise<CartResult> => {
+  const cart = await (Cart as any).getOrCreate(userId);
+
+  cart.couponCode = null;
+  await cart.save();
+
+  return calculateCartTotals(cart, userId);
+};
+
+export {
+  getCart,
+  addToCart,
+  updateCartItem,
+  removeFromCart,
+  clearCart,
+  applyCoupon,
+  removeCoupon,
+};
@@ -2,10 +2,13 @@
  * Category Service
  * Handles category business logic
  */
+import { Types } from "mongoose";
 import Category, { ICategory } from "../models/Category";
 import AppError from "../utils/AppError";
 import { deleteImage } from "../config/cloudinary";
 import { cache, CACHE_KEYS } from "../utils/cache";
+import { TaxClass } from "../utils/constants";
+import { assertAttributesExist } from "./attributeService";
 
 interface CategoryData {
   name: string;
@@ -17,6 +20,8 @@ interface CategoryData {
   };
   isActive?: boolean;
   order?: number;
+  taxClass?: TaxClass | null;
+  attributes?: string[];
 }
 
 /**
@@ -79,7 +84,19 @@ const createCategory = async (
     }
   }
 
-  const category = await Category.create(categoryData);
+  if (categoryData.attributes) {
+    await assertAttributesExist(categoryData.attributes);
+  }
+
+  const category = await Category.create({
+    ...categoryData,
+    attributes: categoryData.attributes?.map((id) => new Types.ObjectId(id)),
+  });
+
+  // Invalidate category cache
+  cache.delete(CACHE_KEYS.CATEGORY_TREE);
+  cache.delete(CACHE_KEYS.CATEGORIES);
+
   return category;
 };
 
@@ -108,6 +125,10 @@ const updateCategory = async (
     }
   }
 
+  if (updateData.attributes) {
+    await assertAttributesExist(updateData.attributes);
+  }
+
   Object.assign(category, updateData);
   await category.save();
 
@@ -0,0 +1,373 @@
+/**
+ * COD Settlement Service
+ * Tracks cash collected on delivery from the courier/rider who took it
+ * until it is handed over to us in a remittance batch
+ */
+import { Types } from "mongoose";
+import Payment, { IPayment } from "../models/Payment";
+import CodRemittance, {
+  ICodRemittance,
+  RemittanceStatus,
+} from "../models/CodRemittance";
+import AppError from "../utils/AppError";
+import { toCsv } from "../utils/helpers";
+
+interface RemittanceOptions {
+  paymentIds?: string[];
+  notes?: string;
+}
+
+interface ReceiptDetails {
+  receivedAmount: number;
+  reference?: string;
+  notes?: string;
+}
+
+interface CodReportFilter {
+  from?: Date;
+  to?: Date;
+  collector?: string;
+}
+
+interface CollectorSummary {
+  collector: string;
+  collections: number;
+  collectedAmount: number;
+  // Collected but not yet put in a remittance batch
+  unbatchedAmount: number;
+  // Batched, waiting for the cash to arrive
+  pendingAmount: number;
+  // Batched and received
+  remittedAmount: number;
+  // Received minus expected over batches flagged as discrepancies
+  discrepancyAmount: number;
+}
+
+interface CodReport {
+  summary: CollectorSummary[];
+  totals: Omit<CollectorSummary, "collector">;
+  collections: IPayment[];
+}
+
+// Amounts closer than this are treated as equal
+const AMOUNT_TOLERANCE = 0.01;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Group a collector's unbatched cash into a new remittance batch
+ * Pass paymentIds to batch only some of it
+ */
+const createRemittance = async (
+  collector: string,
+  createdBy: string,
+  options: RemittanceOptions = {},
+): Promise<ICodRemittance> => {
+  const remittance = new CodRemittance({
+    collector,
+    createdBy,
+    notes: options.notes,
+    expectedAmount: 0,
+  });
+
+  const query: Record<string, unknown> = {
+    gateway: "cod",
+    "codCollection.collectedBy": collector,
+    remittance: null,
+  };
+  if (options.paymentIds?.length) {
+    query._id = {
+      $in: options.paymentIds.map((id) => new Types.ObjectId(id)),
+    };
+  }
+
+  // Claim in one update so a payment can never land in two batches
+  await Payment.updateMany(query, { $set: { remittance: remittance._id } });
+  const payments = await Payment.find({ remittance: remittance._id });
+
+  if (payments.length === 0) {
+    throw new AppError(
+      `No collected cash is waiting to be remitted by ${collector}`,
+      400,
+    );
+  }
+
+  remittance.payments = payments.map(
+    (payment) => payment._id as Types.ObjectId,
+  );
+  remittance.expectedAmount = roundAmount(
+    payments.reduce(
+      (sum, payment) => sum + (payment.codCollection?.amount || 0),
+      0,
+    ),
+  );
+
+  try {
+    await remittance.save();
+  } catch (error) {
+    // Hand the payments back so they can be batched again
+    await Payment.updateMany(
+      { remittance: remittance._id },
+      { $set: { remittance: null } },
+    );
+    throw error;
+  }
+
+  return remittance;
+};
+
+/**
+ * Record the cash handed over for a batch and flag any gap
+ */
+const receiveRemittance = async (
+  remittanceId: string,
+  receivedBy: string,
+  details: ReceiptDetails,
+): Promise<ICodRemittance> => {
+  const remittance = await CodRemittance.findById(remittanceId);
+  if (!remittance) {
+    throw new AppError("Remittance not found", 404);
+  }
+
+  if (remittance.status !== "pending") {
+    throw new AppError("This remittance has already been received", 400);
+  }
+
+  const gap = details.receivedAmount - remittance.expectedAmount;
+
+  remittance.receivedAmount = details.receivedAmount;
+  remittance.receivedAt = new Date();
+  remittance.receivedBy = new Types.ObjectId(receivedBy);
+  remittance.status =
+    Math.abs(gap) < AMOUNT_TOLERANCE ? "settled" : "discrepancy";
+  if (details.reference) remittance.reference = details.reference;
+  if (details.notes) remittance.notes = details.notes;
+  await remittance.save();
+
+  if (remittance.status === "discrepancy") {
+    console.warn(
+      `COD remittance ${remittance.remittanceNumber} from ${remittance.collector} is off by ${roundAmount(gap)}`,
+    );
+  }
+
+  return remittance;
+};
+
+/**
+ * Close a remittance discrepancy once the gap has been dealt with
+ */
+const resolveRemittance = async (
+  remittanceId: string,
+  resolvedBy: string,
+  note?: string,
+): Promise<ICodRemittance> => {
+  const remittance = await CodRemittance.findById(remittanceId);
+  if (!remittance) {
+    throw new AppError("Remittance not found", 404);
+  }
+
+  if (remittance.status !== "discrepancy") {
+    throw new AppError(
+      "Only remittances with a discrepancy can be resolved",
+      400,
+    );
+  }
+
+  remittance.status = "settled";
+  remittance.resolvedAt = new Date();
+  remittance.resolvedBy = new Types.ObjectId(resolvedBy);
+  remittance.resolutionNote = note;
+  await remittance.save();
+
+  return remittance;
+};
+
+/**
+ * List remittance batches, newest first
+ */
+const getRemittances = async (
+  filter: { status?: RemittanceStatus; collector?: string } = {},
+  page = 1,
+  limit = 20,
+): Promise<{ remittances: ICodRemittance[]; total: number }> => {
+  const query: Record<string, unknown> = {};
+  if (filter.status) query.status = filter.status;
+  if (filter.collector) query.collector = filter.collector;
+
+  const [remittances, total] = await Promise.all([
+    CodRemittance.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    CodRemittance.countDocuments(query),
+  ]);
+
+  return { remittances, total };
+};
+
+/**
+ * Get a remittance with the orders it covers
+ */
+const getRemittanceById = async (
+  remittanceId: string,
+): Promise<ICodRemittance> => {
+  const remittance = await CodRemittance.findById(remittanceId).populate({
+    path: "payments",
+    select: "order amount codCollection",
+    populate: { path: "order", select: "orderNumber pricing.total" },
+  });
+  if (!remittance) {
+    throw new AppError("Remittance not found", 404);
+  }
+
+  return remittance;
+};
+
+/**
+ * Collected COD cash per collector for a period, with where each payment stands
+ */
+const getCodReport = async (
+  filter: CodReportFilter = {},
+): Promise<CodReport> => {
+  const query: Record<string, unknown> = {
+    gateway: "cod",
+    codCollection: { $exists: true },
+  };
+  if (filter.collector) query["codCollection.collectedBy"] = filter.collector;
+  if (filter.from || filter.to) {
+    const collectedAt: Record<string, Date> = {};
+    if (filter.from) collectedAt.$gte = filter.from;
+    if (filter.to) collectedAt.$lte = filter.to;
+    query["codCollection.collectedAt"] = collectedAt;
+  }
+
+  const collections = await Payment.find(query)
+    .sort({ "codCollection.collectedAt": -1 })
+    .populate("order", "orderNumber")
+    .populate(
+      "remittance",
+      "remittanceNumber status expectedAmount receivedAmount",
+    );
+
+  const byCollector = new Map<string, CollectorSummary>();
+  const countedRemittances = new Set<string>();
+
+  for (const payment of collections) {
+    const collector = payment.codCollection!.collectedBy;
+    const amount = payment.codCollection!.amount;
+    const remittance = payment.remittance as unknown as ICodRemittance | null;
+
+    const row = byCollector.get(collector) || {
+      collector,
+      collections: 0,
+      collectedAmount: 0,
+      unbatchedAmount: 0,
+      pendingAmount: 0,
+      remittedAmount: 0,
+      discrepancyAmount: 0,
+    };
+    byCollector.set(collector, row);
+
+    row.collections++;
+    row.collectedAmount += amount;
+
+    if (!remittance) {
+      row.unbatchedAmount += amount;
+    } else if (remittance.status === "pending") {
+      row.pendingAmount += amount;
+    } else {
+      row.remittedAmount += amount;
+
+      // A batch's gap is counted once, however many of its payments are listed
+      const key = remittance._id.toString();
+      if (remittance.status === "discrepancy" && !countedRemittances.has(key)) {
+        countedRemittances.add(key);
+        row.discrepancyAmount +=
+          (remittance.receivedAmount || 0) - remittance.expectedAmount;
+      }
+    }
+  }
+
+  const summary = [...byCollector.values()]
+    .map((row) => ({
+      ...row,
+      collectedAmount: roundAmount(row.collectedAmount),
+      unbatchedAmount: roundAmount(row.unbatchedAmount),
+      pendingAmount: roundAmount(row.pendingAmount),
+      remittedAmount: roundAmount(row.remittedAmount),
+      discrepancyAmount: roundAmount(row.discrepancyAmount),
+    }))
+    .sort((a, b) => a.collector.localeCompare(b.collector));
+
+  const totals = summary.reduce(
+    (sum, row) => ({
+      collections: sum.collections + row.collections,
+      collectedAmount: roundAmount(sum.collectedAmount + row.collectedAmount),
+      unbatchedAmount: roundAmount(sum.unbatchedAmount + row.unbatchedAmount),
+      pendingAmount: roundAmount(sum.pendingAmount + row.pendingAmount),
+      remittedAmount: roundAmount(sum.remittedAmount + row.remittedAmount),
+      discrepancyAmount: roundAmount(
+        sum.discrepancyAmount + row.discrepancyAmount,
+      ),
+    }),
+    {
+      collections: 0,
+      collectedAmount: 0,
+      unbatchedAmount: 0,
+      pendingAmount: 0,
+      remittedAmount: 0,
+      discrepancyAmount: 0,
+    },
+  );
+
+  return { summary, totals, collections };
+};
+
+/**
+ * The report's collections as a CSV, one row per COD payment
+ */
+const getCodReportCsv = async (
+  filter: CodReportFilter = {},
+): Promise<string> => {
+  const { collections } = await getCodReport(filter);
+
+  return toCsv(
+    [
+      "Order",
+      "Collected By",
+      "Collected At",
+      "Amount Due",
+      "Amount Collected",
+      "Difference",
+      "Remittance",
+      "Remittance Status",
+    ],
+    collections.map((payment) => {
+      const order = payment.order as unknown as { orderNumber?: string } | null;
+      const remittance = payment.remittance as unknown as ICodRemittance | null;
+      const collection = payment.codCollection!;
+
+      return [
+        order?.orderNumber,
+        collection.collectedBy,
+        collection.collectedAt.toISOString(),
+        payment.amount,
+        collection.amount,
+        roundAmount(collection.amount - payment.amount),
+        remittance?.remittanceNumber,
+        remittance?.status || "unbatched",
+      ];
+    }),
+  );
+};
+
+export {
+  createRemittance,
+  receiveRemittance,
+  resolveRemittance,
+  getRemittances,
+  getRemittanceById,
+  getCodReport,
+  getCodReportCsv,
+};
+export type { CodReport, CollectorSummary };
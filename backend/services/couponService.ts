@@ -0,0 +1,281 @@
+/**
+ * Coupon Service
+ * Handles promo code validation, discount calculation and admin management
+ */
+import { ClientSession, Types } from "mongoose";
+import Coupon, { ICoupon } from "../models/Coupon";
+import Order from "../models/Order";
+import { escapeRegex, paginate, PaginationResult } from "../utils/helpers";
+import AppError from "../utils/AppError";
+
+/**
+ * A priced cart/order line used to work out which part of the
+ * subtotal a scoped coupon applies to
+ */
+export interface CouponLine {
+  product: Types.ObjectId | string;
+  category?: Types.ObjectId | string | null;
+  subtotal: number;
+}
+
+export interface CouponValidationResult {
+  coupon: ICoupon;
+  discount: number;
+  eligibleSubtotal: number;
+}
+
+interface CouponData {
+  code: string;
+  description?: string;
+  type: "percentage" | "fixed";
+  value: number;
+  maxDiscount?: number;
+  minSubtotal?: number;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: Date;
+  expiresAt?: Date;
+  applicableCategories?: string[];
+  applicableProducts?: string[];
+  isActive?: boolean;
+}
+
+interface GetCouponsOptions {
+  page?: number;
+  limit?: number;
+  isActive?: string;
+  search?: string;
+}
+
+interface CouponsResult {
+  coupons: ICoupon[];
+  pagination: PaginationResult;
+}
+
+/**
+ * Build coupon lines from a cart whose items.product is populated
+ */
+const couponLinesFromCart = (cart: any): CouponLine[] => {
+  const lines: CouponLine[] = [];
+
+  for (const item of cart.items) {
+    const product = item.product;
+    if (!product || !product._id) continue;
+
+    let price = product.price;
+    if (item.variantId && product.variants) {
+      const variant = product.variants.find(
+        (v: any) => v._id.toString() === item.variantId.toString(),
+      );
+      if (variant) price = variant.price;
+    }
+
+    lines.push({
+      product: product._id,
+      category: product.category?._id || product.category,
+      subtotal: price * item.quantity,
+    });
+  }
+
+  return lines;
+};
+
+/**
+ * Sum of the lines a coupon is scoped to
+ * (the whole subtotal when the coupon has no product/category scope)
+ */
+const getEligibleSubtotal = (coupon: ICoupon, lines: CouponLine[]): number => {
+  const productIds = coupon.applicableProducts.map((id) => id.toString());
+  const categoryIds = coupon.applicableCategories.map((id) => id.toString());
+
+  if (productIds.length === 0 && categoryIds.length === 0) {
+    return lines.reduce((sum, line) => sum + line.subtotal, 0);
+  }
+
+  return lines
+    .filter(
+      (line) =>
+        productIds.includes(line.product.toString()) ||
+        (line.category != null &&
+          categoryIds.includes(line.category.toString())),
+    )
+    .reduce((sum, line) => sum + line.subtotal, 0);
+};
+
+/**
+ * Throw when the user has used up their own allowance of the coupon.
+ * Pass the order transaction's session to count against the redeeming
+ * transaction, where the coupon write makes concurrent checkouts conflict.
+ */
+const assertPerUserLimit = async (
+  coupon: ICoupon,
+  userId: string | Types.ObjectId,
+  session?: ClientSession,
+): Promise<void> => {
+  if (coupon.perUserLimit == null) return;
+
+  const timesUsed = await Order.countDocuments({
+    user: userId,
+    "pricing.coupon": coupon._id,
+    status: { $ne: "cancelled" },
+  }).session(session ?? null);
+  if (timesUsed >= coupon.perUserLimit) {
+    throw new AppError("You have already used this coupon", 400);
+  }
+};
+
+/**
+ * Validate a code for a user and cart contents and work out the discount.
+ * Throws AppError with a customer-facing message when the code cannot be used.
+ */
+const validateCoupon = async (
+  code: string,
+  userId: string | Types.ObjectId,
+  lines: CouponLine[],
+  subtotal: number,
+): Promise<CouponValidationResult> => {
+  const coupon = await Coupon.findByCode(code);
+
+  if (!coupon || !coupon.isActive) {
+    throw new AppError("Invalid coupon code", 400);
+  }
+
+  if (!coupon.isWithinValidity()) {
+    throw new AppError("This coupon has expired or is not active yet", 400);
+  }
+
+  if (coupon.isExhausted) {
+    throw new AppError("This coupon has reached its usage limit", 400);
+  }
+
+  if (subtotal < coupon.minSubtotal) {
+    throw new AppError(
+      `A minimum order of NPR ${coupon.minSubtotal} is required for this coupon`,
+      400,
+    );
+  }
+
+  await assertPerUserLimit(coupon, userId);
+
+  const eligibleSubtotal = getEligibleSubtotal(coupon, lines);
+  if (eligibleSubtotal <= 0) {
+    throw new AppError("This coupon does not apply to items in your cart", 400);
+  }
+
+  return {
+    coupon,
+    discount: coupon.calculateDiscount(eligibleSubtotal),
+    eligibleSubtotal,
+  };
+};
+
+/**
+ * Public summary of a coupon for cart/checkout responses
+ */
+const toCouponSummary = (coupon: ICoupon) => ({
+  code: coupon.code,
+  description: coupon.description,
+  type: coupon.type,
+  value: coupon.value,
+  maxDiscount: coupon.maxDiscount,
+});
+
+/**
+ * Get all coupons (Admin)
+ */
+const getCoupons = async (
+  options: GetCouponsOptions = {},
+): Promise<CouponsResult> => {
+  const { page = 1, limit = 20, isActive, search } = options;
+
+  const filter: any = {};
+  if (isActive !== undefined) filter.isActive = isActive === "true";
+  if (search) filter.code = { $regex: escapeRegex(search), $options: "i" };
+
+  const total = await Coupon.countDocuments(filter);
+  const pagination = paginate(page, limit, total);
+
+  const coupons = await Coupon.find(filter)
+    .sort({ createdAt: -1 })
+    .skip(pagination.skip)
+    .limit(pagination.itemsPerPage);
+
+  return { coupons, pagination };
+};
+
+/**
+ * Get single coupon (Admin)
+ */
+const getCouponById = async (couponId: string): Promise<ICoupon> => {
+  const coupon = await Coupon.findById(couponId)
+    .populate("applicableCategories", "name slug")
+    .populate("applicableProducts", "name slug");
+  if (!coupon) {
+    throw new AppError("Coupon not found", 404);
+  }
+  return coupon;
+};
+
+/**
+ * Create coupon (Admin)
+ */
+const createCoupon = async (
+  couponData: CouponData,
+  adminId: string,
+): Promise<ICoupon> => {
+  const existing = await Coupon.findByCode(couponData.code);
+  if (existing) {
+    throw new AppError(`Coupon code '${existing.code}' already exists`, 400);
+  }
+
+  const coupon = new Coupon({ ...couponData, createdBy: adminId });
+  await coupon.save();
+  return coupon;
+};
+
+/**
+ * Update coupon (Admin)
+ */
+const updateCoupon = async (
+  couponId: string,
+  updateData: Partial<CouponData>,
+): Promise<ICoupon> => {
+  const coupon = await Coupon.findById(couponId);
+  if (!coupon) {
+    throw new AppError("Coupon not found", 404);
+  }
+
+  // usedCount is maintained by checkout only
+  const { usedCount: _usedCount, ...rest } = updateData as any;
+  Object.assign(coupon, rest);
+  await coupon.save();
+
+  return coupon;
+};
+
+/**
+ * Delete coupon (Admin)
+ * Orders keep their recorded code and discount
+ */
+const deleteCoupon = async (couponId: string): Promise<{ message: string }> => {
+  const coupon = await Coupon.findById(couponId);
+  if (!coupon) {
+    throw new AppError("Coupon not found", 404);
+  }
+
+  await coupon.deleteOne();
+  return { message: "Coupon deleted successfully" };
+};
+
+export {
+  couponLinesFromCart,
+  getEligibleSubtotal,
+  assertPerUserLimit,
+  validateCoupon,
+  toCouponSummary,
+  getCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+};
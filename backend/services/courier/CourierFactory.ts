@@ -0,0 +1,68 @@
+/**
+ * Courier Provider Factory
+ * Creates and manages courier provider instances
+ */
+import ICourierProvider from './ICourierProvider';
+import ManualCourier from './ManualCourier';
+import NcmCourier from './NcmCourier';
+
+class CourierFactory {
+    private couriers: Record<string, new () => ICourierProvider>;
+    private instances: Record<string, ICourierProvider>;
+
+    constructor() {
+        // Registry of available couriers
+        this.couriers = {
+            manual: ManualCourier,
+            ncm: NcmCourier,
+            // Add more couriers here:
+            // pathao: PathaoCourier,
+        };
+
+        // Cache for courier instances (singleton per courier)
+        this.instances = {};
+    }
+
+    /**
+     * Get a courier provider instance
+     */
+    getCourier(courierName: string): ICourierProvider {
+        const name = courierName.toLowerCase();
+
+        if (!this.couriers[name]) {
+            throw new Error(`Courier '${name}' is not supported`);
+        }
+
+        // Return cached instance or create new one
+        if (!this.instances[name]) {
+            const CourierClass = this.couriers[name];
+            this.instances[name] = new CourierClass();
+        }
+
+        return this.instances[name];
+    }
+
+    /**
+     * Get list of available couriers
+     */
+    getAvailableCouriers(): string[] {
+        return Object.keys(this.couriers);
+    }
+
+    /**
+     * Check if a courier is supported
+     */
+    isSupported(courierName: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.couriers, courierName.toLowerCase());
+    }
+
+    /**
+     * Register a new courier
+     */
+    registerCourier(name: string, CourierClass: new () => ICourierProvider): void {
+        this.couriers[name.toLowerCase()] = CourierClass;
+    }
+}
+
+// Export singleton instance
+export default new CourierFactory();
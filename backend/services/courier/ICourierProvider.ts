@@ -0,0 +1,84 @@
+/**
+ * Courier Provider Interface
+ * Interface defining the contract for all courier integrations
+ *
+ * Mirrors IPaymentGateway: each courier is a pluggable strategy that
+ * books shipments, reports tracking and reads its own status webhooks.
+ * Statuses are normalised to ShipmentStatus so the rest of the app
+ * never deals with courier-specific wording.
+ */
+import { IOrder, ShipmentStatus } from '../../models/Order';
+
+export interface CourierTrackingEvent {
+    status: ShipmentStatus;
+    description: string;
+    location?: string;
+    occurredAt: Date;
+}
+
+export interface ShipmentCreateOptions {
+    // Carrier name and tracking number, for couriers without an API
+    carrier?: string;
+    trackingNumber?: string;
+    trackingUrl?: string;
+    instructions?: string;
+}
+
+export interface ShipmentCreateResult {
+    success: boolean;
+    carrier: string;
+    trackingNumber: string;
+    trackingUrl?: string;
+    message?: string;
+    rawResponse?: any;
+    error?: string;
+}
+
+export interface TrackingResult {
+    success: boolean;
+    events: CourierTrackingEvent[];
+    message?: string;
+    error?: string;
+}
+
+export interface CourierWebhookResult {
+    success: boolean;
+    trackingNumber?: string;
+    events: CourierTrackingEvent[];
+    message?: string;
+    error?: string;
+}
+
+export default interface ICourierProvider {
+    name: string;
+
+    /**
+     * Name shown to admins and customers
+     */
+    displayName: string;
+
+    /**
+     * Whether tracking comes from the courier (false means admins record it)
+     */
+    reportsTracking: boolean;
+
+    /**
+     * Book a shipment for an order
+     */
+    createShipment(order: IOrder, options: ShipmentCreateOptions): Promise<ShipmentCreateResult>;
+
+    /**
+     * Fetch the full tracking history of a shipment
+     */
+    getTracking(trackingNumber: string): Promise<TrackingResult>;
+
+    /**
+     * Verify and read a status webhook sent by the courier
+     */
+    handleWebhook(data: any, headers: Record<string, any>): Promise<CourierWebhookResult>;
+
+    /**
+     * Get courier name
+     */
+    getName(): string;
+}
@@ -0,0 +1,52 @@
+/**
+ * Manual Courier
+ * In-house delivery or any courier we have no API for
+ *
+ * The admin enters the carrier and tracking number when shipping,
+ * and records tracking updates by hand from the order page.
+ */
+import ICourierProvider, { ShipmentCreateOptions, ShipmentCreateResult, TrackingResult, CourierWebhookResult } from './ICourierProvider';
+import { IOrder } from '../../models/Order';
+
+class ManualCourier implements ICourierProvider {
+    name: string = 'manual';
+    displayName: string = 'In-house / other courier';
+    reportsTracking: boolean = false;
+
+    /**
+     * Nothing to book; our own riders deliver against the order number
+     */
+    async createShipment(order: IOrder, options: ShipmentCreateOptions): Promise<ShipmentCreateResult> {
+        return {
+            success: true,
+            carrier: options.carrier || 'BivanHandicraft Delivery',
+            trackingNumber: options.trackingNumber || order.orderNumber,
+            trackingUrl: options.trackingUrl,
+            message: 'Shipment recorded',
+        };
+    }
+
+    /**
+     * Tracking for manual shipments lives on the order only
+     */
+    async getTracking(trackingNumber: string): Promise<TrackingResult> {
+        return {
+            success: true,
+            events: [],
+        };
+    }
+
+    async handleWebhook(data: any, headers: Record<string, any>): Promise<CourierWebhookResult> {
+        return {
+            success: false,
+            events: [],
+            message: 'Manual shipments do not accept webhooks',
+        };
+    }
+
+    getName(): string {
+        return this.name;
+    }
+}
+
+export default ManualCourier;
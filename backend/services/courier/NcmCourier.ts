@@ -0,0 +1,165 @@
+/**
+ * Nepal Can Move Courier
+ * Implementation of ICourierProvider for Nepal Can Move (NCM)
+ *
+ * Orders are booked from our pickup branch to the branch serving the
+ * customer's city. NCM reports progress through its status API and a
+ * status webhook, which we verify with an HMAC over the event fields.
+ */
+import crypto from 'crypto';
+import axios from 'axios';
+import ICourierProvider, { ShipmentCreateOptions, ShipmentCreateResult, TrackingResult, CourierWebhookResult, CourierTrackingEvent } from './ICourierProvider';
+import { IOrder, ShipmentStatus } from '../../models/Order';
+
+// NCM status wording -> our shipment status
+const STATUS_MAP: Record<string, ShipmentStatus> = {
+    'pickup order created': 'created',
+    'drop off order created': 'created',
+    'sent for pickup': 'created',
+    'pickup complete': 'picked_up',
+    'dispatched': 'in_transit',
+    'arrived': 'in_transit',
+    'sent for delivery': 'out_for_delivery',
+    'delivered': 'delivered',
+    'undelivered': 'failed',
+    'returned to vendor': 'returned',
+};
+
+/**
+ * Signature over the webhook fields, shared with the stand-in (scripts/ncmStandIn.ts)
+ */
+export const signNcmWebhook = (secret: string, orderId: string | number, status: string, timestamp: string): string =>
+    crypto.createHmac('sha256', secret).update(`${orderId},${status},${timestamp}`).digest('hex');
+
+class NcmCourier implements ICourierProvider {
+    name: string = 'ncm';
+    displayName: string = 'Nepal Can Move';
+    reportsTracking: boolean = true;
+    private baseUrl: string;
+    private token: string;
+    private webhookSecret: string;
+    private pickupBranch: string;
+    private trackingUrl: string;
+
+    constructor() {
+        this.baseUrl = (process.env.NCM_API_BASE || 'https://portal.nepalcanmove.com/api/v1').replace(/\/$/, '');
+        this.token = process.env.NCM_API_TOKEN || '';
+        this.webhookSecret = process.env.NCM_WEBHOOK_SECRET || '';
+        this.pickupBranch = process.env.NCM_PICKUP_BRANCH || 'TINKUNE';
+        this.trackingUrl = process.env.NCM_TRACKING_URL || '';
+    }
+
+    private get headers() {
+        return { Authorization: `Token ${this.token}` };
+    }
+
+    private toEvent(status: string, occurredAt: string, location?: string): CourierTrackingEvent {
+        return {
+            status: STATUS_MAP[status.trim().toLowerCase()] || 'in_transit',
+            description: status,
+            location: location || undefined,
+            occurredAt: new Date(occurredAt),
+        };
+    }
+
+    /**
+     * Book a delivery; cash on delivery orders ask NCM to collect the total
+     */
+    async createShipment(order: IOrder, options: ShipmentCreateOptions): Promise<ShipmentCreateResult> {
+        const address = order.shippingAddress;
+        const codCharge = order.payment.method === 'cod' && order.payment.status !== 'paid' ? order.pricing.total : 0;
+
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/order/create`,
+                {
+                    name: address.name,
+                    phone: address.phone,
+                    cod_charge: String(codCharge),
+                    address: [address.street, address.landmark, address.city].filter(Boolean).join(', '),
+                    fbranch: this.pickupBranch,
+                    branch: address.city.toUpperCase(),
+                    package: order.items.map((item) => `${item.quantity} x ${item.name}`).join(', '),
+                    vref_id: order.orderNumber,
+                    instruction: options.instructions || '',
+                },
+                { headers: this.headers },
+            );
+
+            const trackingNumber = String(response.data.orderid);
+
+            return {
+                success: true,
+                carrier: this.displayName,
+                trackingNumber,
+                trackingUrl: this.trackingUrl ? `${this.trackingUrl}${trackingNumber}` : undefined,
+                message: response.data.Message,
+                rawResponse: response.data,
+            };
+        } catch (error: any) {
+            console.error('NCM create order error:', error.response?.data || error.message);
+            return {
+                success: false,
+                carrier: this.displayName,
+                trackingNumber: '',
+                message: error.response?.data?.Error || 'Could not book the shipment with Nepal Can Move',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Status history of an NCM order, oldest first
+     */
+    async getTracking(trackingNumber: string): Promise<TrackingResult> {
+        try {
+            const response = await axios.get(`${this.baseUrl}/order/status`, {
+                params: { id: trackingNumber },
+                headers: this.headers,
+            });
+
+            const events = (response.data as any[])
+                .map((entry) => this.toEvent(entry.status, entry.added_time, entry.branch))
+                .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+            return { success: true, events };
+        } catch (error: any) {
+            console.error('NCM status error:', error.response?.data || error.message);
+            return {
+                success: false,
+                events: [],
+                message: 'Could not reach Nepal Can Move',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Status webhook: { order_id, status, branch, timestamp } signed in x-ncm-signature
+     */
+    async handleWebhook(data: any, headers: Record<string, any>): Promise<CourierWebhookResult> {
+        const signature = String(headers['x-ncm-signature'] || '');
+        const expected = signNcmWebhook(this.webhookSecret, data?.order_id ?? '', data?.status ?? '', data?.timestamp ?? '');
+
+        if (!this.webhookSecret || signature.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            return {
+                success: false,
+                events: [],
+                message: 'Invalid Nepal Can Move signature',
+            };
+        }
+
+        return {
+            success: true,
+            trackingNumber: String(data.order_id),
+            events: [this.toEvent(data.status, data.timestamp, data.branch)],
+        };
+    }
+
+    getName(): string {
+        return this.name;
+    }
+}
+
+export default NcmCourier;
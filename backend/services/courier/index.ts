@@ -0,0 +1,15 @@
+/**
+ * Courier Services Index
+ * Exports all courier-related services
+ */
+import CourierFactory from './CourierFactory';
+import ICourierProvider from './ICourierProvider';
+import ManualCourier from './ManualCourier';
+import NcmCourier from './NcmCourier';
+
+export {
+    CourierFactory,
+    ICourierProvider,
+    ManualCourier,
+    NcmCourier,
+};
@@ -0,0 +1,380 @@
+/**
+ * Finance Service
+ * Posts captures, refunds and gateway fees to the ledger and reports
+ * net revenue from it
+ */
+import { Types } from "mongoose";
+import LedgerEntry, { LedgerEntryType } from "../models/LedgerEntry";
+import Payment, { IPayment, IRefund } from "../models/Payment";
+import Order from "../models/Order";
+import { STORE_TIMEZONE } from "../utils/constants";
+import { toCsv } from "../utils/helpers";
+
+type ReportInterval = "day" | "month";
+
+interface CaptureDetails {
+  amount: number;
+  fee?: number;
+  reference: string;
+  occurredAt?: Date;
+}
+
+interface FinanceReportFilter {
+  from?: Date;
+  to?: Date;
+  interval?: ReportInterval;
+  gateway?: string;
+}
+
+interface RevenueRow {
+  gateway: string;
+  captures: number;
+  gross: number;
+  refunds: number;
+  fees: number;
+  net: number;
+}
+
+interface PeriodRow extends RevenueRow {
+  period: string;
+}
+
+interface OutstandingCod {
+  // Shipped or delivered, cash not yet recorded as collected
+  uncollected: number;
+  uncollectedOrders: number;
+  // Collected, not yet received from the courier/rider
+  withCollectors: number;
+}
+
+interface FinanceReport {
+  interval: ReportInterval;
+  periods: PeriodRow[];
+  byGateway: RevenueRow[];
+  totals: Omit<RevenueRow, "gateway">;
+  outstandingCod: OutstandingCod;
+}
+
+interface BackfillSummary {
+  payments: number;
+  entries: number;
+}
+
+const PERIOD_FORMATS: Record<ReportInterval, string> = {
+  day: "%Y-%m-%d",
+  month: "%Y-%m",
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Append one entry, ignoring a movement that is already on the ledger
+ * A ledger failure must never fail the payment itself
+ */
+const appendEntry = async (entry: {
+  type: LedgerEntryType;
+  payment: IPayment;
+  amount: number;
+  reference: string;
+  occurredAt: Date;
+  description?: string;
+}): Promise<boolean> => {
+  try {
+    await LedgerEntry.create({
+      type: entry.type,
+      payment: entry.payment._id,
+      order: entry.payment.order,
+      gateway: entry.payment.gateway,
+      amount: roundAmount(entry.amount),
+      reference: entry.reference,
+      occurredAt: entry.occurredAt,
+      description: entry.description,
+    });
+    return true;
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      console.error(
+        `Failed to post ${entry.type} for payment ${entry.payment._id} to the ledger:`,
+        error,
+      );
+    }
+    return false;
+  }
+};
+
+/**
+ * Post a capture and the fee the gateway kept for it
+ */
+const postCapture = async (
+  payment: IPayment,
+  details: CaptureDetails,
+): Promise<void> => {
+  const occurredAt = details.occurredAt || new Date();
+
+  await appendEntry({
+    type: "capture",
+    payment,
+    amount: details.amount,
+    reference: details.reference,
+    occurredAt,
+  });
+
+  if (details.fee) {
+    await appendEntry({
+      type: "fee",
+      payment,
+      amount: -details.fee,
+      reference: details.reference,
+      occurredAt,
+      description: `${payment.gateway} processing fee`,
+    });
+  }
+};
+
+/**
+ * Post a refund once the money has actually gone back to the customer
+ */
+const postRefund = async (
+  payment: IPayment,
+  refund: IRefund,
+): Promise<void> => {
+  await appendEntry({
+    type: "refund",
+    payment,
+    amount: -refund.amount,
+    reference: refund._id.toString(),
+    occurredAt: refund.processedAt || new Date(),
+    description: refund.reason,
+  });
+};
+
+/**
+ * Net revenue per period and gateway, with fees, refunds and outstanding COD
+ */
+const getFinanceReport = async (
+  filter: FinanceReportFilter = {},
+): Promise<FinanceReport> => {
+  const interval = filter.interval || "day";
+
+  const match: Record<string, unknown> = {};
+  if (filter.gateway) match.gateway = filter.gateway;
+  if (filter.from || filter.to) {
+    const occurredAt: Record<string, Date> = {};
+    if (filter.from) occurredAt.$gte = filter.from;
+    if (filter.to) occurredAt.$lte = filter.to;
+    match.occurredAt = occurredAt;
+  }
+
+  const grouped = await LedgerEntry.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          period: {
+            $dateToString: {
+              format: PERIOD_FORMATS[interval],
+              date: "$occurredAt",
+              timezone: STORE_TIMEZONE,
+            },
+          },
+          gateway: "$gateway",
+        },
+        captures: {
+          $sum: { $cond: [{ $eq: ["$type", "capture"] }, 1, 0] },
+        },
+        gross: {
+          $sum: { $cond: [{ $eq: ["$type", "capture"] }, "$amount", 0] },
+        },
+        refunds: {
+          $sum: { $cond: [{ $eq: ["$type", "refund"] }, "$amount", 0] },
+        },
+        fees: {
+          $sum: { $cond: [{ $eq: ["$type", "fee"] }, "$amount", 0] },
+        },
+        net: { $sum: "$amount" },
+      },
+    },
+    { $sort: { "_id.period": 1, "_id.gateway": 1 } },
+  ]);
+
+  // Refunds and fees are stored negative; report them as positive outgoings
+  const periods: PeriodRow[] = grouped.map((row) => ({
+    period: row._id.period,
+    gateway: row._id.gateway,
+    captures: row.captures,
+    gross: roundAmount(row.gross),
+    refunds: roundAmount(-row.refunds),
+    fees: roundAmount(-row.fees),
+    net: roundAmount(row.net),
+  }));
+
+  const byGatewayMap = new Map<string, RevenueRow>();
+  for (const row of periods) {
+    const total = byGatewayMap.get(row.gateway) || {
+      gateway: row.gateway,
+      captures: 0,
+      gross: 0,
+      refunds: 0,
+      fees: 0,
+      net: 0,
+    };
+    total.captures += row.captures;
+    total.gross = roundAmount(total.gross + row.gross);
+    total.refunds = roundAmount(total.refunds + row.refunds);
+    total.fees = roundAmount(total.fees + row.fees);
+    total.net = roundAmount(total.net + row.net);
+    byGatewayMap.set(row.gateway, total);
+  }
+  const byGateway = [...byGatewayMap.values()].sort((a, b) =>
+    a.gateway.localeCompare(b.gateway),
+  );
+
+  const totals = byGateway.reduce(
+    (sum, row) => ({
+      captures: sum.captures + row.captures,
+      gross: roundAmount(sum.gross + row.gross),
+      refunds: roundAmount(sum.refunds + row.refunds),
+      fees: roundAmount(sum.fees + row.fees),
+      net: roundAmount(sum.net + row.net),
+    }),
+    { captures: 0, gross: 0, refunds: 0, fees: 0, net: 0 },
+  );
+
+  return {
+    interval,
+    periods,
+    byGateway,
+    totals,
+    outstandingCod: await getOutstandingCod(),
+  };
+};
+
+/**
+ * Cash on delivery we are still owed, as of now
+ */
+const getOutstandingCod = async (): Promise<OutstandingCod> => {
+  const [uncollected] = await Order.aggregate([
+    {
+      $match: {
+        "payment.method": "cod",
+        status: { $in: ["shipped", "delivered"] },
+      },
+    },
+    {
+      $lookup: {
+        from: "payments",
+        localField: "_id",
+        foreignField: "order",
+        as: "payments",
+      },
+    },
+    {
+      // Delivery already marks the order paid, so only a collection record
+      // settles it; orders from before COD attempts were recorded go by status
+      $match: {
+        "payments.codCollection": { $exists: false },
+        $or: [{ "payments.gateway": "cod" }, { "payment.status": "pending" }],
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        amount: { $sum: "$pricing.total" },
+        orders: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const [withCollectors] = await Payment.aggregate([
+    { $match: { gateway: "cod", codCollection: { $exists: true } } },
+    {
+      $lookup: {
+        from: "codremittances",
+        localField: "remittance",
+        foreignField: "_id",
+        as: "remittance",
+      },
+    },
+    {
+      $match: {
+        $or: [{ remittance: { $size: 0 } }, { "remittance.status": "pending" }],
+      },
+    },
+    { $group: { _id: null, amount: { $sum: "$codCollection.amount" } } },
+  ]);
+
+  return {
+    uncollected: roundAmount(uncollected?.amount || 0),
+    uncollectedOrders: uncollected?.orders || 0,
+    withCollectors: roundAmount(withCollectors?.amount || 0),
+  };
+};
+
+/**
+ * The report's period rows as a CSV
+ */
+const getFinanceReportCsv = async (
+  filter: FinanceReportFilter = {},
+): Promise<string> => {
+  const { periods } = await getFinanceReport(filter);
+
+  return toCsv(
+    ["Period", "Gateway", "Captures", "Gross", "Refunds", "Fees", "Net"],
+    periods.map((row) => [
+      row.period,
+      row.gateway,
+      row.captures,
+      row.gross,
+      row.refunds,
+      row.fees,
+      row.net,
+    ]),
+  );
+};
+
+/**
+ * Post captures and completed refunds recorded before the ledger existed
+ * Safe to run repeatedly, entries already on the ledger are skipped
+ */
+const backfillLedger = async (): Promise<BackfillSummary> => {
+  const summary: BackfillSummary = { payments: 0, entries: 0 };
+
+  const payments = Payment.find({
+    status: { $in: ["completed", "partially_refunded", "refunded"] },
+  }).cursor();
+
+  for await (const payment of payments) {
+    summary.payments++;
+
+    const before = await LedgerEntry.countDocuments({ payment: payment._id });
+
+    await postCapture(payment, {
+      amount: payment.codCollection?.amount ?? payment.amount,
+      reference:
+        payment.gatewayResponse.transactionId ||
+        (payment._id as Types.ObjectId).toString(),
+      occurredAt: payment.completedAt || payment.updatedAt,
+    });
+
+    for (const refund of payment.refunds) {
+      if (refund.status === "completed") {
+        await postRefund(payment, refund);
+      }
+    }
+
+    summary.entries +=
+      (await LedgerEntry.countDocuments({ payment: payment._id })) - before;
+  }
+
+  return summary;
+};
+
+export {
+  postCapture,
+  postRefund,
+  getFinanceReport,
+  getFinanceReportCsv,
+  getOutstandingCod,
+  backfillLedger,
+};
+export type { FinanceReport, ReportInterval };
@@ -0,0 +1,439 @@
+/**
+ * Invoice Service
+ * Numbers tax invoices per fiscal year and renders invoices and
+ * packing slips as PDF
+ */
+import mongoose from "mongoose";
+import PDFDocument from "pdfkit";
+import Order, { IOrder } from "../models/Order";
+import InvoiceCounter from "../models/InvoiceCounter";
+import AppError from "../utils/AppError";
+import { getFiscalYear, toStoreDate } from "../utils/helpers";
+
+type OrderDocumentType = "invoice" | "packing_slip";
+
+interface OrderDocument {
+  filename: string;
+  pdf: Buffer;
+}
+
+interface StoreDetails {
+  name: string;
+  address: string;
+  phone?: string;
+  email?: string;
+  pan?: string;
+}
+
+// Orders that can be invoiced; pending orders may still be abandoned
+const INVOICEABLE_STATUSES = [
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+const PAGE_MARGIN = 50;
+
+const getStoreDetails = (): StoreDetails => ({
+  name: process.env.STORE_NAME || "BivanHandicraft",
+  address: process.env.STORE_ADDRESS || "Kathmandu, Nepal",
+  phone: process.env.STORE_PHONE,
+  email: process.env.STORE_EMAIL,
+  pan: process.env.STORE_PAN,
+});
+
+/**
+ * Give the order its invoice number the first time an invoice is asked for
+ */
+const issueInvoice = async (order: IOrder): Promise<IOrder> => {
+  if (order.invoice) {
+    return order;
+  }
+  if (!INVOICEABLE_STATUSES.includes(order.status)) {
+    throw new AppError(
+      `Cannot issue an invoice for an order that is ${order.status}`,
+      400,
+    );
+  }
+
+  // The number is only taken if the order gets it, so the sequence has no gaps.
+  // Concurrent requests conflict on the counter and the loser retries, finding
+  // the order already numbered.
+  const issued = await mongoose.connection.transaction(async (session) => {
+    const current = await Order.findById(order._id).session(session);
+    if (!current || current.invoice) {
+      return current;
+    }
+
+    const fiscalYear = getFiscalYear();
+    const counter = await InvoiceCounter.findOneAndUpdate(
+      { fiscalYear },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session },
+    );
+    const invoice = {
+      number: `INV-${fiscalYear}-${String(counter.seq).padStart(5, "0")}`,
+      fiscalYear,
+      issuedAt: new Date(),
+    };
+
+    return Order.findOneAndUpdate(
+      { _id: order._id, invoice: null },
+      { $set: { invoice } },
+      { new: true, session },
+    );
+  });
+
+  if (!issued) {
+    throw new AppError("Order not found", 404);
+  }
+  return issued;
+};
+
+const formatAmount = (amount: number): string =>
+  `Rs. ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const renderHeader = (
+  doc: PDFKit.PDFDocument,
+  order: IOrder,
+  type: OrderDocumentType,
+  store: StoreDetails,
+) => {
+  const right = doc.page.width - PAGE_MARGIN - 200;
+  const top = PAGE_MARGIN;
+
+  doc.font("Helvetica-Bold").fontSize(18).text(store.name, PAGE_MARGIN, top);
+  doc.font("Helvetica").fontSize(9).text(store.address);
+  if (store.phone) doc.text(`Phone: ${store.phone}`);
+  if (store.email) doc.text(store.email);
+  if (store.pan) doc.font("Helvetica-Bold").text(`PAN/VAT No: ${store.pan}`);
+
+  const details: [string, string][] = [["Order No", order.orderNumber]];
+  if (type === "invoice" && order.invoice) {
+    details.unshift(["Invoice No", order.invoice.number]);
+    details.push(["Invoice Date", toStoreDate(order.invoice.issuedAt)]);
+  }
+  details.push(["Order Date", toStoreDate(order.createdAt)]);
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .text(type === "invoice" ? "TAX INVOICE" : "PACKING SLIP", right, top, {
+      width: 200,
+      align: "right",
+    });
+  doc.font("Helvetica").fontSize(9);
+  details.forEach(([label, value]) => {
+    doc.text(`${label}: ${value}`, right, doc.y, {
+      width: 200,
+      align: "right",
+    });
+  });
+  doc.y = Math.max(doc.y, top + 70) + 20;
+};
+
+const renderAddress = (
+  doc: PDFKit.PDFDocument,
+  order: IOrder,
+  type: OrderDocumentType,
+) => {
+  const { shippingAddress: address } = order;
+  const top = doc.y;
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(10)
+    .text(type === "invoice" ? "Bill To" : "Ship To", PAGE_MARGIN, top);
+  doc.font("Helvetica").fontSize(9).text(address.name);
+  doc.text(address.street);
+  if (address.landmark) doc.text(`Near ${address.landmark}`);
+  doc.text(
+    `${address.city}, ${address.district}, Province ${address.province}`,
+  );
+  doc.text(`Phone: ${address.phone}`);
+  const addressBottom = doc.y;
+
+  const right = doc.page.width / 2 + 20;
+  doc.font("Helvetica-Bold").fontSize(10).text("Delivery", right, top);
+  doc.font("Helvetica").fontSize(9);
+  if (order.shippingMethod?.name) {
+    doc.text(`${order.shippingMethod.name} (${order.shippingMethod.zoneName})`);
+  }
+  doc.text(
+    `Payment: ${order.payment.method.toUpperCase()} - ${order.payment.status.replace("_", " ")}`,
+  );
+  if (order.shipment) {
+    doc.text(
+      `${order.shipment.carrier}, tracking ${order.shipment.trackingNumber}`,
+    );
+  }
+
+  doc.y = Math.max(addressBottom, doc.y) + 20;
+};
+
+const renderItems = (
+  doc: PDFKit.PDFDocument,
+  order: IOrder,
+  type: OrderDocumentType,
+) => {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const columns =
+    type === "invoice"
+      ? [
+          { label: "#", width: 25, align: "left" },
+          { label: "Item", width: width - 255, align: "left" },
+          { label: "Qty", width: 40, align: "right" },
+          { label: "Rate", width: 90, align: "right" },
+          { label: "Amount", width: 100, align: "right" },
+        ]
+      : [
+          { label: "#", width: 25, align: "left" },
+          { label: "Item", width: width - 135, align: "left" },
+          { label: "Qty", width: 50, align: "right" },
+          { label: "Packed", width: 60, align: "right" },
+        ];
+
+  const drawRow = (cells: string[], font: string) => {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+    }
+    const top = doc.y;
+    let x = PAGE_MARGIN;
+    let bottom = top;
+
+    doc.font(font).fontSize(9);
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x, top, {
+        width: column.width,
+        align: column.align as "left" | "right",
+      });
+      bottom = Math.max(bottom, doc.y);
+      x += column.width;
+    });
+
+    doc
+      .moveTo(PAGE_MARGIN, bottom + 4)
+      .lineTo(PAGE_MARGIN + width, bottom + 4)
+      .strokeColor("#dddddd")
+      .stroke();
+    doc.y = bottom + 8;
+  };
+
+  drawRow(
+    columns.map((column) => column.label),
+    "Helvetica-Bold",
+  );
+  order.items.forEach((item, index) => {
+    const variant = (
+      item.variant?.options?.length
+        ? item.variant.options.map((o) => `${o.name}: ${o.value}`)
+        : [
+            item.variant?.size && `Size: ${item.variant.size}`,
+            item.variant?.color && `Color: ${item.variant.color}`,
+          ]
+    )
+      .filter(Boolean)
+      .join(", ");
+    const description = variant ? `${item.name}\n${variant}` : item.name;
+
+    drawRow(
+      type === "invoice"
+        ? [
+            String(index + 1),
+            description,
+            String(item.quantity),
+            formatAmount(item.price),
+            formatAmount(item.subtotal),
+          ]
+        : [String(index + 1), description, String(item.quantity), "[   ]"],
+      "Helvetica",
+    );
+  });
+};
+
+const renderTotals = (doc: PDFKit.PDFDocument, order: IOrder) => {
+  const { pricing } = order;
+  const rows: [string, number][] = [["Subtotal", pricing.subtotal]];
+  if (pricing.discount) {
+    rows.push([
+      pricing.couponCode ? `Discount (${pricing.couponCode})` : "Discount",
+      -pricing.discount,
+    ]);
+  }
+  rows.push(["Shipping", pricing.shippingCost]);
+  if (pricing.tax) {
+    const taxable = order.items
+      .filter((item) => item.taxRate > 0)
+      .reduce((sum, item) => sum + (item.taxableAmount ?? 0), 0);
+    const rate = order.items.find((item) => item.taxRate > 0)?.taxRate;
+    rows.push(["Taxable amount", taxable]);
+    rows.push([
+      pricing.pricesIncludeTax
+        ? `VAT ${rate}% (included above)`
+        : `VAT ${rate}%`,
+      pricing.tax,
+    ]);
+  }
+
+  const x = doc.page.width - PAGE_MARGIN - 250;
+  doc.y += 6;
+  rows.forEach(([label, amount]) => {
+    const top = doc.y;
+    doc.font("Helvetica").fontSize(9).text(label, x, top, { width: 130 });
+    doc.text(formatAmount(amount), x + 130, top, {
+      width: 120,
+      align: "right",
+    });
+  });
+
+  const top = doc.y + 4;
+  doc.font("Helvetica-Bold").fontSize(11).text("Total", x, top, { width: 130 });
+  doc.text(formatAmount(pricing.total), x + 130, top, {
+    width: 120,
+    align: "right",
+  });
+  if (order.payment.refundedAmount) {
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .text(
+        `Refunded: ${formatAmount(order.payment.refundedAmount)}`,
+        x,
+        doc.y + 4,
+        { width: 250, align: "right" },
+      );
+  }
+};
+
+const renderOrder = (
+  doc: PDFKit.PDFDocument,
+  order: IOrder,
+  type: OrderDocumentType,
+  store: StoreDetails,
+) => {
+  renderHeader(doc, order, type, store);
+  renderAddress(doc, order, type);
+  renderItems(doc, order, type);
+
+  if (type === "invoice") {
+    renderTotals(doc, order);
+  }
+  if (order.customerNotes) {
+    doc
+      .font("Helvetica-Oblique")
+      .fontSize(9)
+      .text(`Customer note: ${order.customerNotes}`, PAGE_MARGIN, doc.y + 20);
+  }
+
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .fillColor("#666666")
+    .text(
+      type === "invoice"
+        ? "This is a computer generated invoice and needs no signature."
+        : `Thank you for shopping with ${store.name}.`,
+      PAGE_MARGIN,
+      doc.y + 30,
+      { align: "center" },
+    )
+    .fillColor("#000000");
+};
+
+/**
+ * Render one PDF with a page (or more, for long orders) per order
+ */
+const renderOrderDocuments = (
+  orders: IOrder[],
+  type: OrderDocumentType,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+    const store = getStoreDetails();
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    orders.forEach((order, index) => {
+      if (index > 0) doc.addPage();
+      renderOrder(doc, order, type, store);
+    });
+    doc.end();
+  });
+
+/**
+ * Invoice PDF for the customer's own order
+ */
+const getCustomerInvoice = async (
+  orderId: string,
+  userId: string,
+): Promise<OrderDocument> => {
+  const order = await Order.findOne({ _id: orderId, user: userId });
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  const invoiced = await issueInvoice(order);
+  return {
+    filename: `invoice-${invoiced.orderNumber}.pdf`,
+    pdf: await renderOrderDocuments([invoiced], "invoice"),
+  };
+};
+
+/**
+ * Invoices or packing slips for a batch of orders, in the order they were picked (Admin)
+ */
+const getOrderDocuments = async (
+  orderIds: string[],
+  type: OrderDocumentType,
+): Promise<OrderDocument> => {
+  const found = await Order.find({ _id: { $in: orderIds } });
+  const byId = new Map(found.map((order) => [order._id.toString(), order]));
+  const missing = orderIds.filter((id) => !byId.has(id));
+  if (missing.length) {
+    throw new AppError(`Orders not found: ${missing.join(", ")}`, 404);
+  }
+
+  let orders = orderIds.map((id) => byId.get(id) as IOrder);
+  if (type === "invoice") {
+    const blocked = orders.filter(
+      (order) => !order.invoice && !INVOICEABLE_STATUSES.includes(order.status),
+    );
+    if (blocked.length) {
+      throw new AppError(
+        `Cannot invoice pending or cancelled orders: ${blocked
+          .map((order) => order.orderNumber)
+          .join(", ")}`,
+        400,
+      );
+    }
+
+    orders = [];
+    for (const id of orderIds) {
+      orders.push(await issueInvoice(byId.get(id) as IOrder));
+    }
+  }
+
+  const prefix = type === "invoice" ? "invoices" : "packing-slips";
+  return {
+    filename:
+      orders.length === 1
+        ? `${prefix}-${orders[0].orderNumber}.pdf`
+        : `${prefix}-${toStoreDate(new Date()).replace(/-/g, "")}.pdf`,
+    pdf: await renderOrderDocuments(orders, type),
+  };
+};
+
+export {
+  issueInvoice,
+  renderOrderDocuments,
+  getCustomerInvoice,
+  getOrderDocuments,
+};
+export type { OrderDocumentType, OrderDocument };
@@ -0,0 +1,163 @@
+/**
+ * Order Expiry Service
+ * Cancels unpaid online orders once their stock reservation lapses
+ * and puts the reserved units back on sale
+ */
+import { Types } from "mongoose";
+import Order, { IOrder } from "../models/Order";
+import Coupon from "../models/Coupon";
+import Payment from "../models/Payment";
+import { PaymentService } from "./payment";
+import { restoreOrderStock } from "./orderService";
+import { sendOrderExpiredNotification } from "./pushNotificationService";
+
+const EXPIRY_NOTE = "Payment not completed in time - reservation expired";
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Claim an expired order by moving it to cancelled in a single update,
+ * so a payment landing at the same moment cannot be overwritten
+ */
+const claimExpiredOrder = async (
+  orderId: Types.ObjectId,
+  now: Date,
+): Promise<IOrder | null> => {
+  return Order.findOneAndUpdate(
+    {
+      _id: orderId,
+      status: "pending",
+      "payment.status": "pending",
+      reservedUntil: { $lte: now },
+    },
+    {
+      $set: {
+        status: "cancelled",
+        cancelledAt: now,
+        cancellationReason: EXPIRY_NOTE,
+        reservedUntil: null,
+      },
+      $push: {
+        statusHistory: {
+          status: "cancelled",
+          note: EXPIRY_NOTE,
+          changedAt: now,
+        },
+      },
+    },
+    { new: true },
+  );
+};
+
+/**
+ * Ask the gateway about payments still in flight for an order, so one that went
+ * through just before the deadline is captured instead of cancelled
+ * Returns false when a payment could not be checked; the order then waits for the next sweep
+ */
+const settleInFlightPayments = async (
+  orderId: Types.ObjectId,
+): Promise<boolean> => {
+  const payments = await Payment.find({
+    order: orderId,
+    status: { $in: ["initiated", "pending"] },
+    gateway: { $ne: "cod" },
+    "gatewayResponse.transactionId": { $nin: [null, ""] },
+  });
+
+  for (const payment of payments) {
+    try {
+      const result = await PaymentService.reconcilePayment(payment);
+      if (result.error) return false;
+    } catch (error) {
+      console.error(
+        `Failed to check payment ${payment._id} before expiry:`,
+        error,
+      );
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Cancel every unpaid online order whose reservation has lapsed
+ * Returns the number of orders expired
+ */
+const expireUnpaidOrders = async (now: Date = new Date()): Promise<number> => {
+  const candidates = await Order.find({
+    status: "pending",
+    "payment.status": "pending",
+    "payment.method": { $ne: "cod" },
+    reservedUntil: { $lte: now },
+  }).select("_id");
+
+  let expired = 0;
+
+  for (const candidate of candidates) {
+    const orderId = candidate._id as Types.ObjectId;
+    if (!(await settleInFlightPayments(orderId))) continue;
+
+    const order = await claimExpiredOrder(orderId, now);
+    if (!order) continue; // Paid or cancelled since the scan
+
+    await restoreOrderStock(order);
+
+    if (order.pricing.coupon) {
+      await Coupon.release(order.pricing.coupon);
+    }
+
+    try {
+      await sendOrderExpiredNotification(
+        order.user.toString(),
+        (order._id as any).toString(),
+        order.orderNumber,
+      );
+    } catch (error) {
+      // Don't fail the sweep if notification fails
+      console.error("Failed to send order expiry notification:", error);
+    }
+
+    expired++;
+  }
+
+  return expired;
+};
+
+/**
+ * Start the background sweeper
+ * Interval is configurable through ORDER_EXPIRY_SWEEP_INTERVAL_MS
+ */
+const startOrderExpirySweeper = (): void => {
+  if (sweepTimer) return;
+
+  const intervalMs = parseInt(
+    process.env.ORDER_EXPIRY_SWEEP_INTERVAL_MS || "60000",
+  );
+
+  sweepTimer = setInterval(async () => {
+    try {
+      const expired = await expireUnpaidOrders();
+      if (expired > 0) {
+        console.log(`⏰ Expired ${expired} unpaid order(s)`);
+      }
+    } catch (error) {
+      console.error("Order expiry sweep failed:", error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  sweepTimer.unref();
+};
+
+/**
+ * Stop the background sweeper
+ */
+const stopOrderExpirySweeper = (): void => {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
+
+export { expireUnpaidOrders, startOrderExpirySweeper, stopOrderExpirySweeper };
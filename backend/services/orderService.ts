@@ -2,13 +2,24 @@
  * Order Service
  * Handles order business logic
  */
-import Order, { IOrder } from "../models/Order";
+import mongoose, { ClientSession, Types } from "mongoose";
+import Order, { IOrder, IOrderItem } from "../models/Order";
 import Cart from "../models/Cart";
-import Product from "../models/Product";
-import { PaymentService } from "./payment";
-import { paginate, PaginationResult } from "../utils/helpers";
+import Product, { variantSnapshot } from "../models/Product";
+import Coupon from "../models/Coupon";
+import Payment from "../models/Payment";
+import { PaymentService, PaymentFactory } from "./payment";
+import {
+  paginate,
+  PaginationResult,
+  getReservationTtlMinutes,
+} from "../utils/helpers";
 import AppError from "../utils/AppError";
 import { sendOrderStatusNotification } from "./pushNotificationService";
+import * as couponService from "./couponService";
+import * as shippingService from "./shippingService";
+import * as addressService from "./addressService";
+import * as taxService from "./taxService";
 
 interface ShippingAddress {
   name: string;
@@ -21,9 +32,25 @@ interface ShippingAddress {
 }
 
 interface OrderData {
-  shippingAddress: ShippingAddress;
-  paymentMethod: "cod" | "esewa" | "khalti";
+  shippingAddress?: ShippingAddress;
+  addressId?: string | null;
+  paymentMethod: "cod" | "esewa" | "khalti" | "stripe" | "fonepay" | "mock";
   customerNotes?: string;
+  couponCode?: string | null;
+  shippingRuleId?: string | null;
+}
+
+/**
+ * A cart line that could not be covered by the stock left at checkout
+ */
+interface StockShortage {
+  itemId: string;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  variant: { size: string; color: string } | null;
+  requested: number;
+  available: number;
 }
 
 interface OrdersResult {
@@ -38,6 +65,93 @@ interface GetOrdersOptions {
   paymentStatus?: string;
 }
 
+interface OrderEditItem {
+  product: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/**
+ * Admin changes to an order; items replace the whole list of lines
+ */
+interface OrderEditData {
+  items?: OrderEditItem[];
+  shippingAddress?: ShippingAddress;
+  shippingRuleId?: string | null;
+  note?: string;
+}
+
+// Orders that have not left the warehouse yet
+const EDITABLE_STATUSES = ["pending", "confirmed", "processing"];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Order total; VAT-exclusive prices can leave paisa, so keep it to two places
+ */
+const calculateTotal = (
+  subtotal: number,
+  shippingCost: number,
+  discount: number,
+  orderTax: taxService.OrderTax,
+): number =>
+  roundAmount(
+    subtotal +
+      shippingCost -
+      discount +
+      (orderTax.pricesIncludeTax ? 0 : orderTax.tax),
+  );
+
+/**
+ * Take every cart line out of stock inside the checkout transaction
+ * Each decrement only applies if enough stock is left; when any line is
+ * short the error lists all of them and the caller's transaction rolls back
+ */
+const reserveCartStock = async (
+  items: any[],
+  session: ClientSession,
+): Promise<void> => {
+  const shortages: StockShortage[] = [];
+
+  for (const item of items) {
+    const product = item.product;
+    const reserved = await Product.decrementStock(
+      product._id,
+      item.variantId,
+      item.quantity,
+      session,
+    );
+    if (reserved) continue;
+
+    // Report what is actually left as seen by this transaction
+    const current = await Product.findById(product._id)
+      .select("stock variants")
+      .session(session);
+    const variant = item.variantId
+      ? current?.variants.find((v) => v._id.equals(item.variantId))
+      : null;
+    const available = item.variantId ? variant?.stock : current?.stock;
+
+    shortages.push({
+      itemId: item._id.toString(),
+      productId: product._id.toString(),
+      variantId: item.variantId ? item.variantId.toString() : null,
+      name: product.name,
+      variant: variant ? { size: variant.size, color: variant.color } : null,
+      requested: item.quantity,
+      available: Math.max(available ?? 0, 0),
+    });
+  }
+
+  if (shortages.length > 0) {
+    throw new AppError(
+      "Some items in your cart don't have enough stock",
+      409,
+      shortages,
+    );
+  }
+};
+
 /**
  * Create order from cart
  */
@@ -45,12 +159,27 @@ const createOrder = async (
   userId: string,
   orderData: OrderData,
 ): Promise<IOrder> => {
-  const { shippingAddress, paymentMethod, customerNotes } = orderData;
+  const { paymentMethod, customerNotes } = orderData;
+
+  // A saved address takes precedence over an inline one
+  const shippingAddress = orderData.addressId
+    ? await addressService.getShippingAddress(userId, orderData.addressId)
+    : orderData.shippingAddress;
+
+  if (!shippingAddress) {
+    throw new AppError("Shipping address is required", 400);
+  }
+
+  // The mock gateway is only registered when enabled
+  if (!PaymentFactory.isSupported(paymentMethod)) {
+    throw new AppError("Payment method is not available", 400);
+  }
 
   // Get user's cart
   const cart = await Cart.findOne({ user: userId }).populate({
     path: "items.product",
-    select: "name slug price images stock variants isActive",
+    select:
+      "name slug price images stock variants isActive category weight taxClass",
   });
 
   if (!cart || (cart as any).items.length === 0) {
@@ -72,7 +201,7 @@ const createOrder = async (
     }
 
     let itemPrice: number;
-    let variantSnapshot: any = null;
+    let orderVariant: any = null;
     let variantImage: string | null = null;
 
     // If variantId exists, validate and get variant data
@@ -82,25 +211,11 @@ const createOrder = async (
         throw new AppError(`Variant not found for ${product.name}`, 400);
       }
 
-      // Check variant stock
-      if (variant.stock < item.quantity) {
-        throw new AppError(
-          `Only ${variant.stock} items available for ${product.name} (${variant.size} - ${variant.color})`,
-          400,
-        );
-      }
-
       itemPrice = variant.price;
       variantImage = variant.image;
-      variantSnapshot = {
-        size: variant.size,
-        color: variant.color,
-      };
+      orderVariant = variantSnapshot(variant);
     } else {
-      // No variant - use base price and stock
-      if (product.stock < item.quantity) {
-        throw new AppError(`Insufficient stock for ${product.name}`, 400);
-      }
+      // No variant - use base price
       itemPrice = product.price;
     }
 
@@ -115,78 +230,115 @@ const createOrder = async (
       image: variantImage || product.images[0]?.url,
       price: itemPrice,
       quantity: item.quantity,
-      variant: variantSnapshot,
+      variant: orderVariant,
       subtotal: itemSubtotal,
     });
   }
 
-  // Calculate totals
-  const shippingCost = calculateShippingCost(shippingAddress, subtotal);
-  const discount = 0; // Implement coupon logic here
-  const tax = 0; // Nepal doesn't have sales tax for most products
-  const total = subtotal + shippingCost - discount + tax;
-
-  // Create order
-  const order = await Order.create({
-    user: userId,
-    items: orderItems,
+  // Resolve shipping before redeeming a coupon so a bad option cannot leak a use
+  const shipping = await shippingService.calculateShippingCost(
     shippingAddress,
-    payment: {
-      method: paymentMethod,
-      status: "pending",
-    },
-    pricing: {
+    { subtotal, weight: shippingService.getCartWeight(cart) },
+    orderData.shippingRuleId,
+  );
+
+  // Coupon from the request takes precedence over the one applied in the cart
+  const couponCode =
+    orderData.couponCode === undefined
+      ? (cart as any).couponCode
+      : orderData.couponCode;
+
+  let discount = 0;
+  let couponId: any = null;
+
+  if (couponCode) {
+    const result = await couponService.validateCoupon(
+      couponCode,
+      userId,
+      couponService.couponLinesFromCart(cart),
       subtotal,
-      shippingCost,
-      discount,
-      tax,
-      total,
-    },
-    customerNotes,
-    statusHistory: [
-      {
+    );
+    couponId = result.coupon._id;
+    discount = result.discount;
+  }
+
+  // VAT per line, after each line's share of the discount
+  const taxClasses = await taxService.resolveTaxClasses(
+    (cart as any).items.map((item: any) => item.product),
+  );
+  const orderTax = taxService.calculateOrderTax(
+    orderItems.map((item) => ({
+      subtotal: item.subtotal,
+      taxClass: taxClasses.get(item.product.toString()) || "standard",
+    })),
+    discount,
+  );
+  orderItems.forEach((item, index) =>
+    Object.assign(item, orderTax.lines[index]),
+  );
+
+  // Calculate totals
+  const shippingCost = shipping.cost;
+  const tax = orderTax.tax;
+  const total = calculateTotal(subtotal, shippingCost, discount, orderTax);
+
+  // Stock, the coupon use and the order commit together or not at all
+  const order = await mongoose.connection.transaction(async (session) => {
+    await reserveCartStock((cart as any).items, session);
+
+    // Consume the use atomically so the global limit cannot be overrun
+    let appliedCoupon: any = null;
+    if (couponId) {
+      appliedCoupon = await Coupon.redeem(couponId, session);
+      if (!appliedCoupon) {
+        throw new AppError("This coupon has reached its usage limit", 400);
+      }
+      // Recheck after the coupon write so two checkouts cannot both pass
+      await couponService.assertPerUserLimit(appliedCoupon, userId, session);
+    }
+
+    return new Order({
+      user: userId,
+      items: orderItems,
+      shippingAddress,
+      shippingMethod: {
+        zone: shipping.zoneId,
+        rule: shipping.ruleId,
+        zoneName: shipping.zoneName,
+        name: shipping.name,
+        estimatedDays: shipping.estimatedDays,
+      },
+      payment: {
+        method: paymentMethod,
         status: "pending",
-        note: "Order placed",
       },
-    ],
-  });
-
-  // Reduce stock using bulkWrite for better performance (avoids N+1 queries)
-  const stockUpdates = (cart as any).items.map((item: any) => {
-    const productId = item.product._id || item.product;
-    if (item.variantId) {
-      // Update variant stock
-      return {
-        updateOne: {
-          filter: { _id: productId, "variants._id": item.variantId },
-          update: {
-            $inc: {
-              "variants.$.stock": -item.quantity,
-              soldCount: item.quantity,
-            },
-          },
-        },
-      };
-    } else {
-      // Update base product stock
-      return {
-        updateOne: {
-          filter: { _id: productId },
-          update: {
-            $inc: {
-              stock: -item.quantity,
-              soldCount: item.quantity,
-            },
-          },
+      pricing: {
+        subtotal,
+        shippingCost,
+        discount,
+        coupon: appliedCoupon?._id || null,
+        couponCode: appliedCoupon?.code || null,
+        tax,
+        pricesIncludeTax: orderTax.pricesIncludeTax,
+        total,
+      },
+      customerNotes,
+      // COD orders are not paid up front, so only online orders expire
+      reservedUntil:
+        paymentMethod === "cod"
+          ? null
+          : new Date(Date.now() + getReservationTtlMinutes() * 60 * 1000),
+      statusHistory: [
+        {
+          status: "pending",
+          note: appliedCoupon
+            ? `Order placed with coupon ${appliedCoupon.code}`
+            : "Order placed",
         },
-      };
-    }
+      ],
+    }).save({ session });
   });
 
-  if (stockUpdates.length > 0) {
-    await Product.bulkWrite(stockUpdates);
-  }
-
   // Clear cart only for COD (immediate checkout)
   // For online payments, cart is cleared after successful payment callback
   if (paymentMethod === "cod") {
@@ -196,38 +348,6 @@ const createOrder = async (
   return order;
 };
 
-/**
- * Calculate shipping cost based on location
- */
-const calculateShippingCost = (
-  address: ShippingAddress,
-  subtotal: number,
-): number => {
-  // Free shipping for orders over NPR 5000
-  if (subtotal >= 5000) return 0;
-
-  // Kathmandu Valley (provinces 3): NPR 100
-  if (
-    address.province === 3 &&
-    ["Kathmandu", "Lalitpur", "Bhaktapur"].includes(address.district)
-  ) {
-    return 100;
-  }
-
-  // Other areas: NPR 150-300 based on province
-  const shippingRates: Record<number, number> = {
-    1: 250, // Province 1 (Eastern)
-    2: 250, // Madhesh
-    3: 150, // Bagmati
-    4: 200, // Gandaki
-    5: 250, // Lumbini
-    6: 300, // Karnali
-    7: 300, // Sudurpashchim
-  };
-
-  return shippingRates[address.province] || 200;
-};
-
 /**
  * Get user's orders
  */
@@ -274,26 +394,18 @@ const getOrderById = async (
 };
 
 /**
- * Cancel order
+ * Put items back into stock (cancellation, expiry, returns)
  */
-const cancelOrder = async (
-  orderId: string,
-  userId: string,
-  reason: string,
-): Promise<IOrder> => {
-  const order = await Order.findOne({ _id: orderId, user: userId });
-  if (!order) {
-    throw new AppError("Order not found", 404);
-  }
-
-  if (!(order as any).canBeCancelled) {
-    throw new AppError("Order cannot be cancelled at this stage", 400);
-  }
-
-  await (order as any).updateOrderStatus("cancelled", userId, reason);
-
+const restockItems = async (
+  items: {
+    product: Types.ObjectId;
+    variantId?: Types.ObjectId | null;
+    quantity: number;
+  }[],
+  session?: ClientSession,
+): Promise<void> => {
   // Restore stock using bulkWrite for better performance (avoids N+1 queries)
-  const stockRestoreUpdates = (order as any).items.map((item: any) => {
+  const stockRestoreUpdates = items.map((item) => {
     if (item.variantId) {
       // Restore variant stock
       return {
@@ -324,10 +436,71 @@ const cancelOrder = async (
   });
 
   if (stockRestoreUpdates.length > 0) {
-    await Product.bulkWrite(stockRestoreUpdates);
+    await Product.bulkWrite(stockRestoreUpdates, { session });
   }
+};
 
-  return order;
+/**
+ * Put an order's items back into stock (cancellation/expiry)
+ */
+const restoreOrderStock = async (order: IOrder): Promise<void> => {
+  await restockItems(order.items);
+};
+
+/**
+ * Send the money back for a cancelled order that was paid online
+ * Returns the order as stored after the refund
+ */
+const refundCancelledOrder = async (
+  order: IOrder,
+  requestedBy: string,
+  reason: string,
+): Promise<IOrder> => {
+  if (order.payment.status !== "paid" || order.payment.method === "cod") {
+    return order;
+  }
+
+  try {
+    await PaymentService.refund(
+      (order._id as any).toString(),
+      { reason: reason || "Order cancelled" },
+      requestedBy,
+    );
+  } catch (error) {
+    // The cancellation stands; the refund can be retried from the admin panel
+    console.error("Failed to refund cancelled order:", error);
+  }
+
+  return (await Order.findById(order._id)) || order;
+};
+
+/**
+ * Cancel order
+ */
+const cancelOrder = async (
+  orderId: string,
+  userId: string,
+  reason: string,
+): Promise<IOrder> => {
+  const order = await Order.findOne({ _id: orderId, user: userId });
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  if (!(order as any).canBeCancelled) {
+    throw new AppError("Order cannot be cancelled at this stage", 400);
+  }
+
+  await (order as any).updateOrderStatus("cancelled", userId, reason);
+
+  await restoreOrderStock(order);
+
+  // Give the coupon use back
+  if ((order as any).pricing.coupon) {
+    await Coupon.release((order as any).pricing.coupon);
+  }
+
+  return refundCancelledOrder(order, userId, reason);
 };
 
 /**
@@ -370,6 +543,11 @@ const updateOrderStatus = async (
 
   await (order as any).updateOrderStatus(status, adminId, note);
 
+  const updated =
+    status === "cancelled"
+      ? await refundCancelledOrder(order, adminId, note)
+      : order;
+
   // Send push notification to user about status change
   try {
     await sendOrderStatusNotification(
@@ -383,6 +561,371 @@ const updateOrderStatus = async (
     console.error("Failed to send order status notification:", error);
   }
 
+  return updated;
+};
+
+/**
+ * A line's variant snapshot as plain data, or null for products without variants
+ */
+const copyVariant = (variant: IOrderItem["variant"]) =>
+  variant?.size || variant?.options?.length
+    ? {
+        size: variant.size,
+        color: variant.color,
+        ...(variant.options?.length && {
+          options: variant.options.map(({ name, value }) => ({ name, value })),
+        }),
+      }
+    : null;
+
+/**
+ * What an order edit shows in the status history
+ */
+const snapshotOrder = (order: IOrder) => ({
+  items: order.items.map((item) => ({
+    name: item.name,
+    variant: copyVariant(item.variant),
+    quantity: item.quantity,
+    price: item.price,
+  })),
+  shippingAddress: {
+    name: order.shippingAddress.name,
+    phone: order.shippingAddress.phone,
+    street: order.shippingAddress.street,
+    city: order.shippingAddress.city,
+    district: order.shippingAddress.district,
+    province: order.shippingAddress.province,
+    landmark: order.shippingAddress.landmark,
+  },
+  pricing: {
+    subtotal: order.pricing.subtotal,
+    shippingCost: order.pricing.shippingCost,
+    discount: order.pricing.discount,
+    tax: order.pricing.tax,
+    total: order.pricing.total,
+  },
+});
+
+/**
+ * Edit an order before it ships (Admin)
+ * Lines already on the order keep their price; new lines and variant
+ * changes take today's price. Shipping, the coupon discount and VAT are
+ * worked out again and stock moves by the difference in quantities.
+ */
+const editOrder = async (
+  orderId: string,
+  changes: OrderEditData,
+  adminId: string,
+): Promise<IOrder> => {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  if (!EDITABLE_STATUSES.includes(order.status) || order.shipment) {
+    throw new AppError(`Cannot edit an order that is ${order.status}`, 400);
+  }
+  if (order.replacementFor) {
+    throw new AppError("Replacement orders cannot be edited", 400);
+  }
+  // A tax invoice cannot be changed once issued
+  if (order.invoice) {
+    throw new AppError(
+      `Invoice ${order.invoice.number} has been issued for this order, so it can no longer be edited`,
+      400,
+    );
+  }
+
+  // The gateway would capture the old total and the order would record it as paid
+  const paymentInFlight = await Payment.exists({
+    order: order._id,
+    gateway: { $ne: "cod" },
+    status: { $in: ["initiated", "pending"] },
+  });
+  if (paymentInFlight) {
+    throw new AppError(
+      "An online payment is in progress for this order. Edit it once the payment has settled",
+      409,
+    );
+  }
+
+  const requested: OrderEditItem[] =
+    changes.items ||
+    order.items.map((item) => ({
+      product: item.product.toString(),
+      variantId: item.variantId ? item.variantId.toString() : null,
+      quantity: item.quantity,
+    }));
+
+  const lineKey = (
+    productId: string | Types.ObjectId,
+    variantId?: string | Types.ObjectId | null,
+  ) => `${productId}:${variantId || ""}`;
+
+  const keys = requested.map((line) => lineKey(line.product, line.variantId));
+  if (new Set(keys).size !== keys.length) {
+    throw new AppError("Each product and variant can only be listed once", 400);
+  }
+
+  const products = await Product.find({
+    _id: { $in: requested.map((line) => line.product) },
+  }).select(
+    "name slug price images variants isActive category weight taxClass",
+  );
+  const productById = new Map(
+    products.map((product) => [product._id.toString(), product]),
+  );
+  const currentLines = new Map(
+    order.items.map((item) => [lineKey(item.product, item.variantId), item]),
+  );
+
+  const orderItems: any[] = requested.map((line) => {
+    const current = currentLines.get(lineKey(line.product, line.variantId));
+    if (current) {
+      return {
+        _id: (current as any)._id,
+        product: current.product,
+        variantId: current.variantId || null,
+        name: current.name,
+        slug: current.slug,
+        image: current.image,
+        price: current.price,
+        quantity: line.quantity,
+        variant: copyVariant(current.variant),
+        subtotal: current.price * line.quantity,
+      };
+    }
+
+    const product = productById.get(line.product);
+    if (!product || !product.isActive) {
+      throw new AppError(
+        `Product "${product?.name || line.product}" is not available`,
+        400,
+      );
+    }
+
+    const variant = line.variantId
+      ? product.variants.find((v) => v._id.equals(line.variantId!))
+      : null;
+    if (line.variantId && !variant) {
+      throw new AppError(`Variant not found for ${product.name}`, 400);
+    }
+    if (!variant && product.variants.length > 0) {
+      throw new AppError(`Choose a variant for ${product.name}`, 400);
+    }
+
+    const price = variant ? variant.price : product.price;
+    return {
+      product: product._id,
+      variantId: variant ? variant._id : null,
+      name: product.name,
+      slug: product.slug,
+      image: variant?.image || product.images[0]?.url,
+      price,
+      quantity: line.quantity,
+      variant: variant ? variantSnapshot(variant) : null,
+      subtotal: price * line.quantity,
+    };
+  });
+
+  const shippingAddress = changes.shippingAddress || order.shippingAddress;
+  const subtotal = orderItems.reduce((sum, item) => sum + item.subtotal, 0);
+  const weight = orderItems.reduce(
+    (sum, item) =>
+      sum +
+      (productById.get(item.product.toString())?.weight || 0) * item.quantity,
+    0,
+  );
+
+  // Keep the chosen shipping option unless the address moves to another zone
+  const shippingRuleId =
+    changes.shippingRuleId !== undefined
+      ? changes.shippingRuleId
+      : changes.shippingAddress
+        ? null
+        : order.shippingMethod?.rule?.toString() || null;
+  const shipping = await shippingService.calculateShippingCost(
+    shippingAddress,
+    { subtotal, weight },
+    shippingRuleId,
+  );
+
+  // The coupon was already redeemed, so only the amount is worked out again
+  let discount = 0;
+  if (order.pricing.coupon) {
+    const coupon = await Coupon.findById(order.pricing.coupon);
+    discount = coupon
+      ? coupon.calculateDiscount(
+          couponService.getEligibleSubtotal(
+            coupon,
+            orderItems.map((item) => ({
+              product: item.product,
+              category: productById.get(item.product.toString())?.category,
+              subtotal: item.subtotal,
+            })),
+          ),
+        )
+      : Math.min(order.pricing.discount, subtotal);
+  }
+
+  // Keep the order's tax-inclusive or exclusive pricing
+  const taxClasses = await taxService.resolveTaxClasses(products);
+  const orderTax = taxService.calculateOrderTax(
+    orderItems.map((item) => ({
+      subtotal: item.subtotal,
+      taxClass:
+        taxClasses.get(item.product.toString()) ||
+        currentLines.get(lineKey(item.product, item.variantId))?.taxClass ||
+        "standard",
+    })),
+    discount,
+    {
+      ...taxService.getTaxSettings(),
+      pricesIncludeTax: order.pricing.pricesIncludeTax,
+    },
+  );
+  orderItems.forEach((item, index) =>
+    Object.assign(item, orderTax.lines[index]),
+  );
+  const total = calculateTotal(subtotal, shipping.cost, discount, orderTax);
+
+  // Net change in units per product/variant: positive needs more stock
+  const stockChanges = new Map<
+    string,
+    {
+      product: Types.ObjectId;
+      variantId: Types.ObjectId | null;
+      name: string;
+      quantity: number;
+    }
+  >();
+  const addStockChange = (item: any, quantity: number) => {
+    const key = lineKey(item.product, item.variantId);
+    const change = stockChanges.get(key) || {
+      product: item.product,
+      variantId: item.variantId || null,
+      name: item.name,
+      quantity: 0,
+    };
+    change.quantity += quantity;
+    stockChanges.set(key, change);
+  };
+  order.items.forEach((item) => addStockChange(item, -item.quantity));
+  orderItems.forEach((item) => addStockChange(item, item.quantity));
+
+  const before = snapshotOrder(order);
+  const previousTotal = order.pricing.total;
+
+  order.set("items", orderItems);
+  order.set("shippingAddress", shippingAddress);
+  order.shippingMethod = {
+    zone: shipping.zoneId,
+    rule: shipping.ruleId,
+    zoneName: shipping.zoneName,
+    name: shipping.name,
+    estimatedDays: shipping.estimatedDays,
+  };
+  order.pricing.subtotal = subtotal;
+  order.pricing.shippingCost = shipping.cost;
+  order.pricing.discount = discount;
+  order.pricing.tax = orderTax.tax;
+  order.pricing.total = total;
+
+  // Money already taken online is settled separately from the new total
+  if (
+    order.payment.method !== "cod" &&
+    ["paid", "partially_refunded"].includes(order.payment.status)
+  ) {
+    order.payment.balanceDue = roundAmount(
+      (order.payment.balanceDue || 0) + total - previousTotal,
+    );
+  }
+
+  const after = snapshotOrder(order);
+  const sections = (Object.keys(after) as (keyof typeof after)[]).filter(
+    (section) =>
+      JSON.stringify(before[section]) !== JSON.stringify(after[section]),
+  );
+  if (sections.length === 0) {
+    return order;
+  }
+
+  order.statusHistory.push({
+    status: order.status,
+    changedBy: adminId as any,
+    note: changes.note || "Order edited",
+    changedAt: new Date(),
+    changes: {
+      before: Object.fromEntries(sections.map((key) => [key, before[key]])),
+      after: Object.fromEntries(sections.map((key) => [key, after[key]])),
+    },
+  });
+  order.increment(); // Fail the save if another edit got in first
+
+  try {
+    await mongoose.connection.transaction(async (session) => {
+      const shortages: Omit<StockShortage, "itemId">[] = [];
+      const released: {
+        product: Types.ObjectId;
+        variantId: Types.ObjectId | null;
+        quantity: number;
+      }[] = [];
+
+      for (const change of stockChanges.values()) {
+        if (change.quantity < 0) {
+          released.push({ ...change, quantity: -change.quantity });
+          continue;
+        }
+        if (change.quantity === 0) continue;
+
+        const reserved = await Product.decrementStock(
+          change.product,
+          change.variantId,
+          change.quantity,
+          session,
+        );
+        if (reserved) continue;
+
+        const current = await Product.findById(change.product)
+          .select("stock variants")
+          .session(session);
+        const variant = change.variantId
+          ? current?.variants.find((v) => v._id.equals(change.variantId!))
+          : null;
+        const available = change.variantId ? variant?.stock : current?.stock;
+        shortages.push({
+          productId: change.product.toString(),
+          variantId: change.variantId ? change.variantId.toString() : null,
+          name: change.name,
+          variant: variant
+            ? { size: variant.size, color: variant.color }
+            : null,
+          requested: change.quantity,
+          available: Math.max(available ?? 0, 0),
+        });
+      }
+
+      if (shortages.length > 0) {
+        throw new AppError(
+          "Some items don't have enough stock for this change",
+          409,
+          shortages,
+        );
+      }
+
+      await restockItems(released, session);
+      await order.save({ session });
+    });
+  } catch (error: any) {
+    if (error.name === "VersionError") {
+      throw new AppError(
+        "This order was just changed by someone else. Please reload and try again.",
+        409,
+      );
+    }
+    throw error;
+  }
+
   return order;
 };
 
@@ -391,6 +934,9 @@ export {
   getUserOrders,
   getOrderById,
   cancelOrder,
+  restoreOrderStock,
+  restockItems,
   getAllOrders,
   updateOrderStatus,
+  editOrder,
 };
@@ -6,7 +6,7 @@
  * is collected on delivery. Payment is marked complete
  * when order is delivered.
  */
-import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData } from './IPaymentGateway';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
 import { IOrder } from '../../models/Order';
 
 class CODGateway implements IPaymentGateway {
@@ -71,15 +71,23 @@ class CODGateway implements IPaymentGateway {
 
     /**
      * Refund for COD
-     * Not applicable - no payment was made
+     * Collected cash is paid back by hand
      */
-    async refund(transactionId: string, amount: number): Promise<{ success: boolean; message: string }> {
+    async refund(transactionId: string, amount: number): Promise<PaymentRefundResult> {
         return {
             success: false,
-            message: 'Refund not applicable for COD orders',
+            message: 'Cash on delivery refunds are paid back by hand',
+            pending: true,
         };
     }
 
+    /**
+     * COD has no callbacks, so this is whatever transaction id the caller passes
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        return callbackData?.transactionId;
+    }
+
     getName(): string {
         return this.name;
     }
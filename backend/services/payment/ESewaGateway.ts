@@ -2,7 +2,7 @@
  * eSewa Gateway
  * Implementation of IPaymentGateway for eSewa (Nepal)
  */
-import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData } from './IPaymentGateway';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
 import { IOrder } from '../../models/Order';
 import crypto from 'crypto';
 import axios from 'axios';
@@ -64,7 +64,8 @@ class ESewaGateway implements IPaymentGateway {
 
             // Form data for eSewa
             const formData = {
-                amount: amount - taxAmount - productServiceCharge - productDeliveryCharge,
+                // VAT can carry paisa, so keep the parts adding up to total_amount exactly
+                amount: Math.round((amount - taxAmount - productServiceCharge - productDeliveryCharge) * 100) / 100,
                 tax_amount: taxAmount,
                 product_service_charge: productServiceCharge,
                 product_delivery_charge: productDeliveryCharge,
@@ -100,15 +101,63 @@ class ESewaGateway implements IPaymentGateway {
         }
     }
 
+    /**
+     * Look up a transaction with eSewa's status API
+     */
+    private async lookupStatus(transactionUuid: string, totalAmount: number | string): Promise<PaymentVerifyResult> {
+        const verifyResponse = await axios.get(this.verifyUrl, {
+            params: {
+                product_code: this.merchantCode,
+                total_amount: totalAmount,
+                transaction_uuid: transactionUuid,
+            },
+        });
+
+        const { status, ref_id } = verifyResponse.data;
+
+        if (status === 'COMPLETE') {
+            return {
+                verified: true,
+                status: 'completed',
+                transactionId: ref_id,
+                referenceId: transactionUuid,
+                amount: Number(verifyResponse.data.total_amount ?? totalAmount),
+                rawResponse: verifyResponse.data,
+            };
+        }
+
+        if (status === 'PENDING' || status === 'AMBIGUOUS') {
+            return {
+                verified: false,
+                status: 'pending',
+                message: `Payment status: ${status}`,
+                rawResponse: verifyResponse.data,
+            };
+        }
+
+        return {
+            verified: false,
+            status: 'failed',
+            message: `Payment status: ${status}`,
+            rawResponse: verifyResponse.data,
+        };
+    }
+
     /**
      * Verify eSewa payment using transaction lookup API
+     * Without callback data (e.g. from the reconciler) the stored transaction uuid
+     * and the expected amount are looked up directly
      */
     async verify(transactionId: string, callbackData: any): Promise<PaymentVerifyResult> {
         try {
             // eSewa returns encoded data in the callback
-            const { data } = callbackData;
+            const { data, amount } = callbackData || {};
 
             if (!data) {
+                if (transactionId && amount !== undefined) {
+                    return await this.lookupStatus(transactionId, amount);
+                }
+
                 return {
                     verified: false,
                     status: 'failed',
@@ -145,31 +194,11 @@ class ESewaGateway implements IPaymentGateway {
             }
 
             // Additional verification with eSewa API
-            const verifyResponse = await axios.get(this.verifyUrl, {
-                params: {
-                    product_code: this.merchantCode,
-                    total_amount: total_amount,
-                    transaction_uuid: transaction_uuid,
-                },
-            });
-
-            if (verifyResponse.data.status === 'COMPLETE') {
-                return {
-                    verified: true,
-                    status: 'completed',
-                    transactionId: transaction_code,
-                    referenceId: transaction_uuid,
-                    amount: Number(total_amount),
-                    rawResponse: verifyResponse.data,
-                };
-            }
+            const result = await this.lookupStatus(transaction_uuid, total_amount);
 
-            return {
-                verified: false,
-                status: 'failed',
-                message: `Payment status: ${verifyResponse.data.status}`,
-                rawResponse: verifyResponse.data,
-            };
+            return result.verified
+                ? { ...result, transactionId: transaction_code, amount: Number(total_amount) }
+                : result;
         } catch (error: any) {
             console.error('eSewa verify error:', error);
             return {
@@ -197,6 +226,7 @@ class ESewaGateway implements IPaymentGateway {
                     success: true,
                     orderId,
                     transactionId: decodedData.transaction_code,
+                    signature: decodedData.signature,
                     status: 'completed',
                     amount: Number(decodedData.total_amount),
                     rawResponse: decodedData
@@ -225,7 +255,7 @@ class ESewaGateway implements IPaymentGateway {
     /**
      * Refund eSewa payment
      */
-    async refund(transactionId: string, amount: number): Promise<{ success: boolean; message: string; transactionId?: string; amount?: number }> {
+    async refund(transactionId: string, amount: number): Promise<PaymentRefundResult> {
         // eSewa doesn't provide a direct refund API for most merchants
         // Refunds are processed through the eSewa merchant portal
         return {
@@ -233,9 +263,21 @@ class ESewaGateway implements IPaymentGateway {
             message: 'eSewa refunds must be processed through the merchant portal',
             transactionId,
             amount,
+            pending: true,
         };
     }
 
+    /**
+     * The transaction uuid inside the encoded callback data
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        try {
+            return JSON.parse(Buffer.from(callbackData.data, 'base64').toString('utf-8')).transaction_uuid;
+        } catch {
+            return undefined;
+        }
+    }
+
     getName(): string {
         return this.name;
     }
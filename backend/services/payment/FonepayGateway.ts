@@ -0,0 +1,218 @@
+/**
+ * Fonepay Gateway
+ * Implementation of IPaymentGateway for Fonepay dynamic QR payments
+ *
+ * The QR follows the NepalPay interoperable standard, so it can be scanned
+ * with any Fonepay member bank app, ConnectIPS-enabled bank app or wallet.
+ * Payments are confirmed by polling the status API, or by the signed
+ * notification Fonepay sends once the customer has paid.
+ */
+import crypto from 'crypto';
+import axios from 'axios';
+import QRCode from 'qrcode';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
+import { IOrder } from '../../models/Order';
+
+// Fields of the notification, in the order they are signed
+const CALLBACK_FIELDS = ['PRN', 'PID', 'PS', 'RC', 'UID', 'BC', 'INI', 'P_AMT', 'R_AMT'];
+
+class FonepayGateway implements IPaymentGateway {
+    name: string = 'fonepay';
+    private merchantCode: string;
+    private secretKey: string;
+    private username: string;
+    private password: string;
+    private baseUrl: string;
+
+    constructor() {
+        this.merchantCode = process.env.FONEPAY_MERCHANT_CODE || '';
+        this.secretKey = process.env.FONEPAY_SECRET_KEY || '';
+        this.username = process.env.FONEPAY_USERNAME || '';
+        this.password = process.env.FONEPAY_PASSWORD || '';
+        this.baseUrl = (process.env.FONEPAY_API_BASE || 'https://dev-merchantapi.fonepay.com/api').replace(/\/$/, '');
+    }
+
+    /**
+     * Fonepay's data validation: HMAC-SHA512 of the comma-joined values
+     */
+    private sign(values: (string | number)[]): string {
+        return crypto.createHmac('sha512', this.secretKey).update(values.join(',')).digest('hex');
+    }
+
+    /**
+     * Request a dynamic QR for the order total
+     */
+    async initiate(order: IOrder, userData: UserData): Promise<PaymentInitiateResult> {
+        try {
+            const amount = order.pricing.total;
+            // Payment reference number (use _ as delimiter since order numbers may contain -)
+            const prn = `${order.orderNumber}_${Date.now()}`;
+            const remarks1 = order.orderNumber;
+            const remarks2 = userData.phone || userData.name;
+
+            const response = await axios.post(`${this.baseUrl}/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrDownload`, {
+                amount,
+                remarks1,
+                remarks2,
+                prn,
+                merchantCode: this.merchantCode,
+                dataValidation: this.sign([amount, prn, this.merchantCode, remarks1, remarks2]),
+                username: this.username,
+                password: this.password,
+            });
+
+            const { qrMessage } = response.data;
+            if (!response.data.success || !qrMessage) {
+                throw new Error(response.data.message || 'Fonepay did not return a QR code');
+            }
+
+            return {
+                success: true,
+                transactionId: prn,
+                status: 'initiated',
+                requiresRedirect: false,
+                formData: {
+                    prn,
+                    amount,
+                    qrMessage,
+                    // Rendered here so web and mobile can show it as a plain image
+                    qrImage: await QRCode.toDataURL(qrMessage, { margin: 1, width: 320 }),
+                },
+                message: 'Scan the QR code with your bank or wallet app',
+            };
+        } catch (error: any) {
+            console.error('Fonepay initiate error:', error.response?.data || error.message);
+            return {
+                success: false,
+                transactionId: '',
+                status: 'failed',
+                requiresRedirect: false,
+                message: 'Failed to create Fonepay QR',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Check a QR payment with Fonepay's status API
+     */
+    async verify(transactionId: string, callbackData: any): Promise<PaymentVerifyResult> {
+        const prn = transactionId || callbackData?.PRN;
+
+        try {
+            const response = await axios.post(`${this.baseUrl}/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrGetStatus`, {
+                prn,
+                merchantCode: this.merchantCode,
+                dataValidation: this.sign([prn, this.merchantCode]),
+                username: this.username,
+                password: this.password,
+            });
+
+            const { paymentStatus, fonepayTraceId } = response.data;
+
+            if (paymentStatus === 'success') {
+                return {
+                    verified: true,
+                    status: 'completed',
+                    transactionId: String(fonepayTraceId),
+                    referenceId: prn,
+                    // The status API doesn't echo the amount; the signed notification does
+                    amount: callbackData?.P_AMT !== undefined ? Number(callbackData.P_AMT) : undefined,
+                    rawResponse: response.data,
+                };
+            }
+
+            if (paymentStatus === 'failed') {
+                return {
+                    verified: false,
+                    status: 'failed',
+                    message: 'Payment failed',
+                    rawResponse: response.data,
+                };
+            }
+
+            return {
+                verified: false,
+                status: 'pending',
+                message: 'Waiting for the QR code to be scanned',
+                rawResponse: response.data,
+            };
+        } catch (error: any) {
+            console.error('Fonepay verify error:', error.response?.data || error.message);
+            return {
+                verified: false,
+                status: 'failed',
+                message: 'Verification failed',
+                error: error.message,
+                rawResponse: error.response?.data,
+            };
+        }
+    }
+
+    /**
+     * Handle the signed payment notification
+     */
+    async handleCallback(data: any): Promise<PaymentCallbackResult> {
+        const prn: string = data?.PRN || '';
+        const orderId = prn.split('_')[0];
+
+        const expected = this.sign(CALLBACK_FIELDS.map((field) => data?.[field] ?? ''));
+        if (!data?.DV || data.DV !== expected) {
+            return {
+                success: false,
+                orderId,
+                status: 'failed',
+                message: 'Invalid Fonepay signature',
+                rawResponse: data,
+            };
+        }
+
+        if (data.PS === 'true') {
+            return {
+                success: true,
+                orderId,
+                transactionId: data.UID,
+                signature: data.DV,
+                status: 'completed',
+                amount: Number(data.P_AMT),
+                rawResponse: data,
+            };
+        }
+
+        return {
+            success: false,
+            orderId,
+            status: 'failed',
+            message: `Payment ${data.RC || 'failed'}`,
+            rawResponse: data,
+        };
+    }
+
+    /**
+     * Refund a payment
+     */
+    async refund(transactionId: string, amount: number): Promise<PaymentRefundResult> {
+        // Fonepay has no refund API for QR merchants
+        // Refunds are settled through the merchant's bank
+        return {
+            success: false,
+            message: 'Fonepay refunds must be processed through the merchant bank',
+            transactionId,
+            amount,
+            pending: true,
+        };
+    }
+
+    /**
+     * The PRN the QR code was generated for
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        return callbackData?.PRN;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+}
+
+export default FonepayGateway;
@@ -17,6 +17,13 @@ export interface PaymentInitiateResult {
     method?: string;
     message?: string;
     pidx?: string;
+    clientSecret?: string;
+    publishableKey?: string;
+    // Set when the gateway charges something other than the NPR order total
+    amount?: number;
+    currency?: 'NPR' | 'USD';
+    // NPR per unit of that currency at the time of the charge
+    exchangeRate?: number;
     error?: string;
 }
 
@@ -36,6 +43,8 @@ export interface PaymentCallbackResult {
     success: boolean;
     orderId: string;
     transactionId?: string;
+    // Gateway signature (or event id) of the callback, used to spot replays
+    signature?: string;
     status: string;
     amount?: number;
     message?: string;
@@ -43,6 +52,16 @@ export interface PaymentCallbackResult {
     error?: string;
 }
 
+export interface PaymentRefundResult {
+    success: boolean;
+    message: string;
+    transactionId?: string;
+    amount?: number;
+    // Not settled yet but not refused either: paid out by hand where there is
+    // no refund API, or still processing at the gateway; confirmed later
+    pending?: boolean;
+}
+
 export interface UserData {
     name: string;
     email: string;
@@ -69,8 +88,15 @@ export default interface IPaymentGateway {
 
     /**
      * Process refund (optional)
+     * Amount is in NPR; exchangeRate is the one stored on the payment when it was charged
+     */
+    refund(transactionId: string, amount: number, exchangeRate?: number): Promise<PaymentRefundResult>;
+
+    /**
+     * The transaction id the payment was initiated with, as carried by callback data
+     * Tells apart an order's payment attempts; undefined when the data has none
      */
-    refund(transactionId: string, amount: number): Promise<{ success: boolean; message: string; transactionId?: string; amount?: number }>;
+    getCallbackReference(callbackData: any): string | undefined;
 
     /**
      * Get gateway name
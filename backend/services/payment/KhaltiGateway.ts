@@ -2,7 +2,7 @@
  * Khalti Gateway
  * Implementation of IPaymentGateway for Khalti (Nepal)
  */
-import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData } from './IPaymentGateway';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
 import { IOrder } from '../../models/Order';
 import axios from 'axios';
 
@@ -111,7 +111,8 @@ class KhaltiGateway implements IPaymentGateway {
      */
     async verify(transactionId: string, callbackData: any): Promise<PaymentVerifyResult> {
         try {
-            const { pidx } = callbackData;
+            // The stored transaction id is the pidx, so the reconciler can look it up without a callback
+            const pidx = callbackData?.pidx || transactionId;
 
             if (!pidx) {
                 return {
@@ -221,7 +222,7 @@ class KhaltiGateway implements IPaymentGateway {
     /**
      * Refund Khalti payment
      */
-    async refund(transactionId: string, amount: number): Promise<{ success: boolean; message: string; transactionId?: string; amount?: number }> {
+    async refund(transactionId: string, amount: number): Promise<PaymentRefundResult> {
         // Khalti doesn't provide a direct refund API for most merchants
         // Contact Khalti support for refunds
         return {
@@ -229,9 +230,17 @@ class KhaltiGateway implements IPaymentGateway {
             message: 'Khalti refunds must be requested through Khalti support',
             transactionId,
             amount,
+            pending: true,
         };
     }
 
+    /**
+     * Khalti sends the pidx back with the customer
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        return callbackData?.pidx;
+    }
+
     getName(): string {
         return this.name;
     }
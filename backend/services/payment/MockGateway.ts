@@ -0,0 +1,206 @@
+/**
+ * Mock Gateway
+ * Implementation of IPaymentGateway against the local mock gateway server
+ * (scripts/mockGatewayServer.ts) for development and automated tests
+ *
+ * Registered only in development and test, or with ENABLE_MOCK_GATEWAY=true, and only
+ * with MOCK_GATEWAY_SECRET set (see ./index.ts).
+ */
+import crypto from 'crypto';
+import axios from 'axios';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
+import { IOrder } from '../../models/Order';
+import AppError from '../../utils/AppError';
+
+// Scripted outcomes understood by the mock server
+export type MockOutcome = 'success' | 'failure' | 'timeout' | 'amount_mismatch' | 'duplicate_callback';
+
+/**
+ * Signature over the callback fields, shared with the mock server
+ */
+export const signMockCallback = (secret: string, id: string, status: string, amount: number | string): string =>
+    crypto.createHmac('sha256', secret).update(`${id},${status},${amount}`).digest('base64');
+
+class MockGateway implements IPaymentGateway {
+    name: string = 'mock';
+    private baseUrl: string;
+    private secret: string;
+    private timeoutMs: number;
+
+    constructor() {
+        // Callbacks are only as trustworthy as this secret, so there is no fallback
+        const secret = process.env.MOCK_GATEWAY_SECRET;
+        if (!secret) {
+            throw new AppError('Mock gateway secret is not configured', 500);
+        }
+
+        this.baseUrl = (process.env.MOCK_GATEWAY_URL || 'http://localhost:12112').replace(/\/$/, '');
+        this.secret = secret;
+        this.timeoutMs = parseInt(process.env.MOCK_GATEWAY_TIMEOUT_MS || '5000');
+    }
+
+    /**
+     * Create a payment on the mock server
+     * MOCK_GATEWAY_OUTCOME scripts every payment; otherwise the outcome is picked on the mock pay page
+     */
+    async initiate(order: IOrder, userData: UserData): Promise<PaymentInitiateResult> {
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/payments`,
+                {
+                    orderId: (order._id as any).toString(),
+                    orderNumber: order.orderNumber,
+                    amount: order.pricing.total,
+                    customer: userData.email,
+                    returnUrl: `${process.env.BACKEND_URL}/api/v1/payments/mock/callback`,
+                    outcome: process.env.MOCK_GATEWAY_OUTCOME || undefined,
+                },
+                { timeout: this.timeoutMs },
+            );
+
+            return {
+                success: true,
+                transactionId: response.data.id,
+                status: 'initiated',
+                requiresRedirect: true,
+                redirectUrl: response.data.paymentUrl,
+                method: 'GET',
+                message: 'Redirecting to the mock gateway...',
+            };
+        } catch (error: any) {
+            console.error('Mock gateway initiate error:', error.message);
+            return {
+                success: false,
+                transactionId: '',
+                status: 'failed',
+                requiresRedirect: false,
+                message: 'Mock gateway is not reachable. Run `npm run mock:gateway`.',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Verify a payment with the mock server's lookup API
+     */
+    async verify(transactionId: string, callbackData: any): Promise<PaymentVerifyResult> {
+        try {
+            const id = transactionId || callbackData?.id;
+            const response = await axios.get(`${this.baseUrl}/payments/${id}`, { timeout: this.timeoutMs });
+            const { status, amount, transactionCode } = response.data;
+
+            if (status === 'COMPLETE') {
+                return {
+                    verified: true,
+                    status: 'completed',
+                    transactionId: transactionCode,
+                    referenceId: id,
+                    amount: Number(amount),
+                    rawResponse: response.data,
+                };
+            }
+
+            if (status === 'PENDING') {
+                return {
+                    verified: false,
+                    status: 'pending',
+                    message: 'Payment is still pending',
+                    rawResponse: response.data,
+                };
+            }
+
+            return {
+                verified: false,
+                status: 'failed',
+                message: `Payment status: ${status}`,
+                rawResponse: response.data,
+            };
+        } catch (error: any) {
+            console.error('Mock gateway verify error:', error.message);
+            return {
+                verified: false,
+                status: 'failed',
+                message: error.code === 'ECONNABORTED' ? 'Mock gateway timed out' : 'Verification failed',
+                error: error.message,
+                rawResponse: error.response?.data,
+            };
+        }
+    }
+
+    /**
+     * Handle the signed redirect back from the mock server
+     */
+    async handleCallback(data: any): Promise<PaymentCallbackResult> {
+        const { id, status, amount, orderId, transactionCode, signature } = data || {};
+
+        if (!signature || signature !== signMockCallback(this.secret, id, status, amount)) {
+            return {
+                success: false,
+                orderId: orderId || '',
+                status: 'failed',
+                message: 'Invalid mock gateway signature',
+                rawResponse: data,
+            };
+        }
+
+        if (status === 'COMPLETE') {
+            return {
+                success: true,
+                orderId,
+                transactionId: transactionCode,
+                signature,
+                status: 'completed',
+                amount: Number(amount),
+                rawResponse: data,
+            };
+        }
+
+        return {
+            success: false,
+            orderId,
+            status: 'failed',
+            message: `Payment ${String(status).toLowerCase()}`,
+            rawResponse: data,
+        };
+    }
+
+    /**
+     * Refund a mock payment
+     */
+    async refund(transactionId: string, amount: number): Promise<PaymentRefundResult> {
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/refunds`,
+                { transactionCode: transactionId, amount },
+                { timeout: this.timeoutMs },
+            );
+
+            return {
+                success: true,
+                message: 'Mock refund completed',
+                transactionId: response.data.id,
+                amount,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: error.response?.data?.message || 'Mock refund failed',
+                transactionId,
+                amount,
+            };
+        }
+    }
+
+    /**
+     * The mock server's payment id
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        return callbackData?.id;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+}
+
+export default MockGateway;
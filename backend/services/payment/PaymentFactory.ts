@@ -6,6 +6,8 @@ import IPaymentGateway from './IPaymentGateway';
 import CODGateway from './CODGateway';
 import ESewaGateway from './ESewaGateway';
 import KhaltiGateway from './KhaltiGateway';
+import StripeGateway from './StripeGateway';
+import FonepayGateway from './FonepayGateway';
 
 class PaymentFactory {
     private gateways: Record<string, new () => IPaymentGateway>;
@@ -17,8 +19,9 @@ class PaymentFactory {
             cod: CODGateway,
             esewa: ESewaGateway,
             khalti: KhaltiGateway,
+            stripe: StripeGateway,
+            fonepay: FonepayGateway,
             // Add more gateways here:
-            // stripe: StripeGateway,
             // paypal: PayPalGateway,
         };
 
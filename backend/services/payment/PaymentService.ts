@@ -5,11 +5,15 @@
  */
 import mongoose from 'mongoose';
 import PaymentFactory from './PaymentFactory';
-import Payment, { IPayment } from '../../models/Payment';
-import Order from '../../models/Order';
+import Payment, { IPayment, IRefund } from '../../models/Payment';
+import PaymentDiscrepancy, { IPaymentDiscrepancy } from '../../models/PaymentDiscrepancy';
+import PaymentEvent, { IPaymentEvent, PaymentEventType, PaymentEventOutcome } from '../../models/PaymentEvent';
+import Order, { IOrder } from '../../models/Order';
 import Cart from '../../models/Cart';
 import AppError from '../../utils/AppError';
-import { UserData } from './IPaymentGateway';
+import { getReservationTtlMinutes } from '../../utils/helpers';
+import { postCapture, postRefund } from '../financeService';
+import { UserData, PaymentVerifyResult, PaymentRefundResult } from './IPaymentGateway';
 
 interface PaymentMethod {
     id: string;
@@ -19,6 +23,55 @@ interface PaymentMethod {
     enabled: boolean;
 }
 
+interface RefundOptions {
+    amount?: number;
+    reason?: string;
+    // Refund this attempt instead of the order's latest capture
+    paymentId?: string;
+}
+
+interface RefundResult {
+    payment: IPayment;
+    refund: IRefund;
+}
+
+interface CodCollectionDetails {
+    collectedBy: string;
+    amount?: number;
+    collectedAt?: Date;
+}
+
+// Where a request came from, for the payment event log
+interface EventContext {
+    sourceIp?: string;
+    // Replay key of the callback being processed, claimed once it has been applied
+    replayKey?: string;
+}
+
+interface PaymentEventInput {
+    order?: mongoose.Types.ObjectId;
+    payment?: mongoose.Types.ObjectId;
+    gateway: string;
+    type: PaymentEventType;
+    outcome: PaymentEventOutcome;
+    transactionId?: string;
+    amount?: number;
+    message?: string;
+    payload?: any;
+    sourceIp?: string;
+    replayKey?: string;
+}
+
+// Online payment attempts allowed per order; switching to COD is always possible
+const getMaxPaymentAttempts = (): number =>
+    parseInt(process.env.PAYMENT_MAX_ATTEMPTS || '5');
+
+const verifyOutcome = (result: PaymentVerifyResult): PaymentEventOutcome => {
+    if (result.error) return 'error';
+    if (result.verified) return 'success';
+    return result.status === 'pending' ? 'pending' : 'failed';
+};
+
 class PaymentService {
     /**
      * Get available payment methods
@@ -46,13 +99,34 @@ class PaymentService {
                 icon: 'khalti',
                 enabled: !!process.env.KHALTI_SECRET_KEY,
             },
+            {
+                id: 'stripe',
+                name: 'Card (Visa / Mastercard)',
+                description: 'Pay by card in USD, for customers abroad',
+                icon: 'card',
+                enabled: !!process.env.STRIPE_SECRET_KEY,
+            },
+            {
+                id: 'fonepay',
+                name: 'Fonepay QR',
+                description: 'Scan with any bank app, ConnectIPS or wallet',
+                icon: 'qr',
+                enabled: !!process.env.FONEPAY_MERCHANT_CODE,
+            },
+            {
+                id: 'mock',
+                name: 'Test Gateway',
+                description: 'Simulated payment for development and testing',
+                icon: 'mock',
+                enabled: PaymentFactory.isSupported('mock'),
+            },
         ].filter(method => method.enabled);
     }
 
     /**
      * Initiate payment for an order
      */
-    async initiatePayment(orderId: string, gatewayName: string, userData: UserData): Promise<any> {
+    async initiatePayment(orderId: string, gatewayName: string, userData: UserData, context: EventContext = {}): Promise<any> {
         // Get order
         const order = await Order.findById(orderId);
         if (!order) {
@@ -64,9 +138,15 @@ class PaymentService {
             throw new AppError('Order is already paid', 400);
         }
 
+        if (order.status === 'cancelled') {
+            throw new AppError('This order has been cancelled or its payment window has expired', 400);
+        }
+
         // Get gateway
         const gateway = PaymentFactory.getGateway(gatewayName);
 
+        await this.checkAttemptsLeft(order, gatewayName);
+
         // Create payment record
         const payment = await Payment.create({
             order: order._id,
@@ -82,13 +162,36 @@ class PaymentService {
         // Update payment record
         if (result.success) {
             (payment as any).gatewayResponse.transactionId = result.transactionId;
+            // Capture replaces the transaction id with the gateway's own, so keep the one callbacks carry
+            payment.gatewayResponse.referenceId = result.transactionId;
             payment.status = 'pending';
+            if (result.currency && result.currency !== 'NPR') {
+                // Keep the rate so refunds go back at what the card was charged
+                payment.currency = result.currency;
+                payment.chargedAmount = result.amount;
+                payment.exchangeRate = result.exchangeRate;
+            }
         } else {
             payment.status = 'failed';
             (payment as any).failureReason = result.message;
         }
         await payment.save();
 
+        // The client secret lets anyone confirm the payment, so keep it out of the log
+        const { clientSecret, ...payload } = result;
+        await this.recordEvent({
+            order: order._id,
+            payment: payment._id,
+            gateway: gatewayName,
+            type: 'initiate',
+            outcome: result.success ? 'success' : 'failed',
+            transactionId: result.transactionId,
+            amount: payment.amount,
+            message: result.message,
+            payload,
+            sourceIp: context.sourceIp,
+        });
+
         return {
             ...result,
             paymentId: payment._id,
@@ -98,48 +201,161 @@ class PaymentService {
     }
 
     /**
-     * Verify payment after gateway callback
+     * Start a new payment attempt on an unpaid order, with the same or another gateway
+     * Earlier attempts are left as they are so a late capture on them is still reconciled
      */
-    async verifyPayment(orderId: string, gatewayName: string, callbackData: any): Promise<any> {
-        // Get order
-        let query: any;
-        if (mongoose.Types.ObjectId.isValid(orderId)) {
-            query = { $or: [{ _id: orderId }, { orderNumber: orderId }] };
-        } else {
-            query = { orderNumber: orderId };
+    async retryPayment(orderId: string, userId: string, gatewayName: string, userData: UserData, context: EventContext = {}): Promise<any> {
+        const order = await Order.findOne({ _id: orderId, user: userId });
+        if (!order) {
+            throw new AppError('Order not found', 404);
+        }
+
+        if (order.payment.status === 'paid') {
+            throw new AppError('Order is already paid', 400);
         }
 
-        const order = await Order.findOne(query);
+        if (order.status === 'cancelled') {
+            throw new AppError('This order has been cancelled or its payment window has expired', 400);
+        }
 
-        if (!order) {
-            throw new AppError('Order not found', 404);
+        if (order.status !== 'pending') {
+            throw new AppError('Payment can no longer be changed for this order', 400);
         }
 
-        // Get payment record
-        const payment = await Payment.findOne({
+        if (order.payment.method === 'cod' && gatewayName === 'cod') {
+            throw new AppError('Order is already set to Cash on Delivery', 400);
+        }
+
+        if (!this.getAvailableMethods().some(method => method.id === gatewayName)) {
+            throw new AppError('Payment method is not available', 400);
+        }
+
+        // Check before touching the order so a refused retry leaves it as it was
+        await this.checkAttemptsLeft(order, gatewayName);
+
+        // The last attempt may have gone through without the callback reaching us
+        const previous = await Payment.findOne({
             order: order._id,
-            gateway: gatewayName,
+            gateway: { $ne: 'cod' },
+            status: { $in: ['initiated', 'pending'] },
+            'gatewayResponse.transactionId': { $exists: true, $ne: null },
         }).sort({ createdAt: -1 });
 
-        if (!payment) {
-            // If payment record not found, try to find by transaction ID or create new?
-            // Usually should exist from initiation.
-            throw new AppError('Payment record not found', 404);
+        if (previous) {
+            await this.reconcilePayment(previous);
+            const current = await Order.findById(order._id);
+            if (current?.payment.status === 'paid') {
+                throw new AppError('Your earlier payment went through, so this order is already paid', 400);
+            }
+        }
+
+        const note = order.payment.method === gatewayName
+            ? `Payment retried with ${gatewayName}`
+            : `Payment method changed from ${order.payment.method} to ${gatewayName}`;
+
+        order.payment.method = gatewayName as IOrder['payment']['method'];
+        order.payment.status = 'pending';
+        // COD orders don't expire; an online attempt gets a fresh payment window
+        order.reservedUntil = gatewayName === 'cod'
+            ? null
+            : new Date(Date.now() + getReservationTtlMinutes() * 60 * 1000);
+        order.statusHistory.push({ status: order.status, note, changedAt: new Date() });
+        await order.save();
+
+        if (gatewayName === 'cod') {
+            // Same as placing the order with COD: checkout is done
+            await Cart.findOneAndUpdate({ user: order.user }, { $set: { items: [], couponCode: null } });
+        }
+
+        return this.initiatePayment((order._id as any).toString(), gatewayName, userData, context);
+    }
+
+    /**
+     * Verify payment after gateway callback
+     */
+    async verifyPayment(orderId: string, gatewayName: string, callbackData: any, context: EventContext = {}): Promise<any> {
+        // Get order
+        const order = await this.findOrder(orderId);
+
+        if (!order) {
+            throw new AppError('Order not found', 404);
         }
 
-        // Get gateway and verify
         const gateway = PaymentFactory.getGateway(gatewayName);
+
+        // Retries leave several attempts per order, so find the one this callback is for
+        const reference = gateway.getCallbackReference(callbackData);
+        const payment = reference
+            ? await Payment.findOne({
+                order: order._id,
+                gateway: gatewayName,
+                $or: [
+                    { 'gatewayResponse.referenceId': reference },
+                    { 'gatewayResponse.transactionId': reference },
+                ],
+            })
+            : null;
+
+        if (!payment) {
+            throw new AppError('No payment for this order matches the callback', 404);
+        }
+
+        // Already settled (e.g. the success page was reloaded), so report it as it stands
+        if (!['initiated', 'pending'].includes(payment.status)) {
+            return {
+                success: ['completed', 'partially_refunded'].includes(payment.status),
+                orderId: order._id,
+                orderNumber: order.orderNumber,
+                status: payment.status,
+                message: 'This payment has already been processed',
+            };
+        }
+
         const result = await gateway.verify((payment as any).gatewayResponse.transactionId, callbackData);
 
-        // Update payment and order based on result
-        if (result.verified) {
-            await (payment as any).markComplete(result.transactionId, result.rawResponse);
-            await (order as any).markPaymentComplete(result.transactionId);
+        const event: PaymentEventInput = {
+            order: order._id as mongoose.Types.ObjectId,
+            payment: payment._id as mongoose.Types.ObjectId,
+            gateway: gatewayName,
+            type: 'verify',
+            outcome: verifyOutcome(result),
+            transactionId: result.transactionId || payment.gatewayResponse.transactionId,
+            amount: result.amount,
+            message: result.message,
+            payload: result.rawResponse,
+            sourceIp: context.sourceIp,
+        };
 
-            // Clear cart after successful online payment
-            await Cart.findOneAndUpdate({ user: order.user }, { $set: { items: [] } });
-        } else {
-            await (payment as any).markFailed(result.message, result.rawResponse);
+        // The lookup itself failed, so the payment may still go through
+        if (result.error) {
+            await this.recordEvent(event);
+            return {
+                success: false,
+                orderId: order._id,
+                orderNumber: order.orderNumber,
+                status: 'pending',
+                message: 'We could not confirm your payment yet. Please check the order again shortly',
+            };
+        }
+
+        try {
+            await this.applyVerification(order, payment, result, { clearCart: true });
+        } catch (error: any) {
+            await this.recordEvent({ ...event, outcome: 'error', message: error.message });
+            throw error;
+        }
+
+        // Only now is the callback claimed, so a redelivery after a failure is processed again
+        await this.recordEvent({ ...event, replayKey: context.replayKey });
+
+        if (result.verified && order.status === 'cancelled') {
+            return {
+                success: false,
+                orderId: order._id,
+                orderNumber: order.orderNumber,
+                status: 'refunded',
+                message: 'This order was cancelled before your payment arrived, so the payment is being refunded',
+            };
         }
 
         return {
@@ -151,21 +367,188 @@ class PaymentService {
         };
     }
 
+    /**
+     * Look up a stuck payment with its gateway and settle it like a callback would
+     * Lookup errors leave the payment untouched so the next run can retry
+     */
+    async reconcilePayment(payment: IPayment): Promise<PaymentVerifyResult> {
+        const order = await Order.findById(payment.order);
+        if (!order) {
+            throw new AppError('Order not found', 404);
+        }
+
+        const gateway = PaymentFactory.getGateway(payment.gateway);
+        const result = await gateway.verify(payment.gatewayResponse.transactionId || '', { amount: payment.amount });
+
+        await this.recordEvent({
+            order: order._id,
+            payment: payment._id,
+            gateway: payment.gateway,
+            type: 'verify',
+            outcome: verifyOutcome(result),
+            transactionId: result.transactionId || payment.gatewayResponse.transactionId,
+            amount: result.amount,
+            message: `Reconciler lookup${result.message ? `: ${result.message}` : ''}`,
+            payload: result.rawResponse,
+        });
+
+        if (!result.error) {
+            await this.applyVerification(order, payment, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Poll the payment status of an order, asking the gateway while it is unsettled
+     * Used by the QR checkout, which has no redirect to tell it the customer has paid
+     */
+    async getPaymentStatus(orderId: string, userId: string): Promise<any> {
+        const order = await Order.findOne({ _id: orderId, user: userId });
+        if (!order) {
+            throw new AppError('Order not found', 404);
+        }
+
+        let payment = await Payment.findOne({ order: order._id }).sort({ createdAt: -1 });
+
+        if (payment && order.payment.status === 'pending' && ['initiated', 'pending'].includes(payment.status)
+            && payment.gateway !== 'cod' && payment.gatewayResponse.transactionId) {
+            const gateway = PaymentFactory.getGateway(payment.gateway);
+            const result = await gateway.verify(payment.gatewayResponse.transactionId, { amount: payment.amount });
+
+            // Only a settled answer is worth a timeline entry; polls run every few seconds
+            if (result.status !== 'pending' && !result.error) {
+                await this.recordEvent({
+                    order: order._id,
+                    payment: payment._id,
+                    gateway: payment.gateway,
+                    type: 'verify',
+                    outcome: verifyOutcome(result),
+                    transactionId: result.transactionId || payment.gatewayResponse.transactionId,
+                    amount: result.amount,
+                    message: `Status poll${result.message ? `: ${result.message}` : ''}`,
+                    payload: result.rawResponse,
+                });
+                await this.applyVerification(order, payment, result, { clearCart: true });
+                payment = await Payment.findById(payment._id);
+            }
+        }
+
+        return {
+            orderId: order._id,
+            orderNumber: order.orderNumber,
+            orderStatus: order.status,
+            paymentStatus: order.payment.status,
+            gateway: payment?.gateway,
+            gatewayStatus: payment?.status,
+        };
+    }
+
+    /**
+     * Get reported payment discrepancies (Admin)
+     */
+    async getDiscrepancies(
+        filter: { resolved?: boolean; type?: string } = {},
+        page = 1,
+        limit = 20,
+    ): Promise<{ discrepancies: IPaymentDiscrepancy[]; total: number }> {
+        const query: any = {};
+        if (filter.resolved !== undefined) query.resolved = filter.resolved;
+        if (filter.type) query.type = filter.type;
+
+        const [discrepancies, total] = await Promise.all([
+            PaymentDiscrepancy.find(query)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .populate('order', 'orderNumber status payment.status pricing.total'),
+            PaymentDiscrepancy.countDocuments(query),
+        ]);
+
+        return { discrepancies, total };
+    }
+
+    /**
+     * Mark a discrepancy as dealt with (Admin)
+     */
+    async resolveDiscrepancy(discrepancyId: string, userId: string, note?: string): Promise<IPaymentDiscrepancy> {
+        const discrepancy = await PaymentDiscrepancy.findById(discrepancyId);
+        if (!discrepancy) {
+            throw new AppError('Discrepancy not found', 404);
+        }
+
+        if (discrepancy.resolved) {
+            throw new AppError('Discrepancy has already been resolved', 400);
+        }
+
+        discrepancy.resolved = true;
+        discrepancy.resolvedAt = new Date();
+        discrepancy.resolvedBy = new mongoose.Types.ObjectId(userId);
+        discrepancy.resolutionNote = note;
+        await discrepancy.save();
+
+        return discrepancy;
+    }
+
     /**
      * Handle gateway callback
+     * Every callback is logged; a repeat of one already applied (same transaction
+     * and signature) is rejected, while one whose processing failed can be retried
      */
-    async handleCallback(gatewayName: string, callbackData: any): Promise<any> {
+    async handleCallback(gatewayName: string, callbackData: any, context: EventContext = {}): Promise<any> {
         const gateway = PaymentFactory.getGateway(gatewayName);
         const result = await gateway.handleCallback(callbackData);
+        const order = result.orderId ? await this.findOrder(result.orderId) : null;
+        const verifies = result.success && !!result.orderId;
+
+        const event: PaymentEventInput = {
+            order: order?._id,
+            gateway: gatewayName,
+            type: 'callback',
+            outcome: result.success ? 'success' : 'failed',
+            transactionId: result.transactionId,
+            amount: result.amount,
+            message: result.message,
+            payload: callbackData,
+            sourceIp: context.sourceIp,
+        };
 
-        if (result.success && result.orderId) {
+        const replayKey = result.transactionId
+            ? [gatewayName, result.transactionId, result.signature || ''].join(':')
+            : undefined;
+
+        if (replayKey && await PaymentEvent.exists({ replayKey })) {
+            await this.recordEvent({ ...event, outcome: 'rejected', message: 'Duplicate callback' });
+            return {
+                ...result,
+                // A customer reloading the success page should still land on it
+                success: order?.payment.status === 'paid',
+                duplicate: true,
+                orderId: order?._id ?? result.orderId,
+                message: 'This payment callback has already been processed',
+            };
+        }
+
+        // A callback that needs verifying is claimed by its verify event instead
+        await this.recordEvent(verifies ? event : { ...event, replayKey });
+
+        if (verifies) {
             // Verify and update order
-            return this.verifyPayment(result.orderId, gatewayName, callbackData);
+            return this.verifyPayment(result.orderId, gatewayName, callbackData, { ...context, replayKey });
         }
 
         return result;
     }
 
+    /**
+     * Get the payment event timeline of an order (Admin)
+     */
+    async getPaymentEvents(orderId: string): Promise<IPaymentEvent[]> {
+        return PaymentEvent.find({ order: orderId })
+            .sort({ createdAt: 1 })
+            .select('-replayKey');
+    }
+
     /**
      * Get payment by order
      */
@@ -175,8 +558,9 @@ class PaymentService {
 
     /**
      * Mark COD payment as collected
+     * Records who took the cash and how much, so it can be batched into a remittance
      */
-    async markCODCollected(orderId: string, userId: string): Promise<any> {
+    async markCODCollected(orderId: string, userId: string, details: CodCollectionDetails): Promise<any> {
         const order = await Order.findById(orderId);
         if (!order) {
             throw new AppError('Order not found', 404);
@@ -186,23 +570,407 @@ class PaymentService {
             throw new AppError('Order is not Cash on Delivery', 400);
         }
 
+        if (order.status === 'cancelled') {
+            throw new AppError('Cannot collect payment for a cancelled order', 400);
+        }
+
+        // Delivery marks a COD order paid, so only a collection record means the cash is in
+        const collected = await Payment.exists({ order: order._id, gateway: 'cod', codCollection: { $exists: true } });
+        if (collected) {
+            throw new AppError('COD payment has already been collected', 400);
+        }
+
+        const amount = details.amount ?? order.pricing.total;
+        const collectedAt = details.collectedAt ?? new Date();
+
         // Update order payment status
         order.payment.status = 'paid';
-        order.payment.paidAt = new Date();
+        order.payment.paidAt = collectedAt;
+        order.payment.transactionId = `COD-${order.orderNumber}`;
         await order.save();
 
-        // Update payment record if exists
-        const payment = await Payment.findOne({ order: orderId, gateway: 'cod' });
-        if (payment) {
-            await (payment as any).markComplete(`COD-${order.orderNumber}`, { collectedBy: userId });
+        // Orders placed before COD attempts were recorded have no payment yet
+        const payment = await Payment.findOne({ order: orderId, gateway: 'cod' }).sort({ createdAt: -1 })
+            || new Payment({ order: order._id, user: order.user, gateway: 'cod', amount: order.pricing.total });
+
+        payment.codCollection = {
+            collectedBy: details.collectedBy,
+            collectedAt,
+            amount,
+            recordedBy: new mongoose.Types.ObjectId(userId),
+        };
+        await payment.markComplete(`COD-${order.orderNumber}`, { method: 'cod', collectedBy: details.collectedBy });
+
+        await this.recordEvent({
+            order: order._id,
+            payment: payment._id,
+            gateway: 'cod',
+            type: 'collect',
+            outcome: 'success',
+            transactionId: `COD-${order.orderNumber}`,
+            amount,
+            message: `Cash collected by ${details.collectedBy}`,
+        });
+
+        await postCapture(payment, { amount, reference: `COD-${order.orderNumber}`, occurredAt: collectedAt });
+
+        if (Math.abs(amount - payment.amount) >= 0.01) {
+            const discrepancyDetails = `${details.collectedBy} collected ${amount} but ${payment.amount} was due`;
+            console.warn(`Payment discrepancy (amount_mismatch): ${discrepancyDetails}`);
+            await PaymentDiscrepancy.updateOne(
+                { payment: payment._id, type: 'amount_mismatch' },
+                {
+                    $setOnInsert: {
+                        order: order._id,
+                        gateway: 'cod',
+                        transactionId: `COD-${order.orderNumber}`,
+                        expectedAmount: payment.amount,
+                        gatewayAmount: amount,
+                        details: discrepancyDetails,
+                    },
+                },
+                { upsert: true },
+            );
         }
 
         return {
             success: true,
             message: 'COD payment marked as collected',
             orderId: order._id,
+            payment,
         };
     }
+
+    /**
+     * Refund a captured payment, in full or in part
+     * The amount is reserved on the payment before the gateway is called,
+     * so concurrent refunds can never exceed what was captured; a refund the
+     * gateway refuses gives its reservation back
+     */
+    async refund(orderId: string, options: RefundOptions = {}, requestedBy?: string): Promise<RefundResult> {
+        const order = await Order.findById(orderId);
+        if (!order) {
+            throw new AppError('Order not found', 404);
+        }
+
+        const payment = await Payment.findOne({
+            order: order._id,
+            ...(options.paymentId && { _id: options.paymentId }),
+            status: { $in: ['completed', 'partially_refunded'] },
+        }).sort({ createdAt: -1 });
+
+        if (!payment) {
+            throw new AppError('This order has no captured payment to refund', 400);
+        }
+
+        const refundable = payment.getRefundableAmount();
+        if (refundable <= 0) {
+            throw new AppError('This payment has already been fully refunded', 400);
+        }
+
+        const amount = options.amount ?? refundable;
+        if (amount <= 0 || amount > refundable) {
+            throw new AppError(`Refund amount must be more than 0 and at most ${refundable}`, 400);
+        }
+
+        const refund = payment.refunds.create({
+            amount,
+            reason: options.reason,
+            requestedBy,
+        });
+        payment.refunds.push(refund);
+        payment.increment(); // Fail the save if another refund got in first
+
+        try {
+            await payment.save();
+        } catch (error: any) {
+            if (error.name === 'VersionError') {
+                throw new AppError('Another refund was just recorded for this payment. Please try again.', 409);
+            }
+            throw error;
+        }
+
+        const gateway = PaymentFactory.getGateway(payment.gateway);
+        let result: PaymentRefundResult;
+        try {
+            result = await gateway.refund(payment.gatewayResponse.transactionId || '', amount, payment.exchangeRate);
+        } catch (error: any) {
+            result = { success: false, message: error.message || 'Refund request failed' };
+        }
+
+        await this.recordEvent({
+            order: order._id,
+            payment: payment._id,
+            gateway: payment.gateway,
+            type: 'refund',
+            // Gateways without a refund API leave it to be settled by hand
+            outcome: result.success ? 'success' : result.pending ? 'pending' : 'failed',
+            transactionId: result.transactionId,
+            amount,
+            message: result.message,
+            payload: result,
+        });
+
+        if (!result.success && !result.pending) {
+            // Nothing was paid out, so give the reserved amount back
+            const failed = payment.refunds.id(refund._id)!;
+            failed.status = 'failed';
+            failed.message = result.message;
+            await payment.save();
+            throw new AppError(`Refund failed: ${result.message}`, 502);
+        }
+
+        if (result.success) {
+            payment.completeRefund(refund._id, result.transactionId, result.message);
+            await payment.save();
+            await postRefund(payment, payment.refunds.id(refund._id)!);
+            await this.syncOrderRefundStatus(order, payment);
+        } else {
+            // Paid out by hand or still processing at the gateway, confirmed later
+            payment.refunds.id(refund._id)!.message = result.message;
+            await payment.save();
+        }
+
+        return { payment, refund: payment.refunds.id(refund._id)! };
+    }
+
+    /**
+     * Confirm a refund that was paid out outside the gateway API (Admin)
+     */
+    async completeRefund(orderId: string, refundId: string, reference?: string): Promise<RefundResult> {
+        const payment = await Payment.findOne({ order: orderId, 'refunds._id': refundId });
+        if (!payment) {
+            throw new AppError('Refund not found', 404);
+        }
+
+        const pending = payment.refunds.id(refundId)!;
+        if (pending.status === 'completed') {
+            throw new AppError('Refund has already been completed', 400);
+        }
+
+        if (pending.status === 'failed') {
+            throw new AppError('This refund failed, so nothing was paid out. Start a new refund instead', 400);
+        }
+
+        const refund = payment.completeRefund(refundId, reference, 'Confirmed by admin');
+        await payment.save();
+        await postRefund(payment, refund);
+
+        await this.recordEvent({
+            order: payment.order,
+            payment: payment._id,
+            gateway: payment.gateway,
+            type: 'refund',
+            outcome: 'success',
+            transactionId: reference,
+            amount: refund.amount,
+            message: 'Confirmed by admin',
+        });
+
+        const order = await Order.findById(orderId);
+        if (order) {
+            await this.syncOrderRefundStatus(order, payment);
+        }
+
+        return { payment, refund };
+    }
+
+    /**
+     * Refund ledger for an order (Admin)
+     */
+    async getRefunds(orderId: string): Promise<{ refunds: IRefund[]; refundedAmount: number; refundableAmount: number }> {
+        const payment = await Payment.findOne({
+            order: orderId,
+            status: { $in: ['completed', 'partially_refunded', 'refunded'] },
+        }).sort({ createdAt: -1 });
+
+        if (!payment) {
+            return { refunds: [], refundedAmount: 0, refundableAmount: 0 };
+        }
+
+        return {
+            refunds: payment.refunds,
+            refundedAmount: payment.refundAmount || 0,
+            refundableAmount: payment.getRefundableAmount(),
+        };
+    }
+
+    /**
+     * Refuse another online attempt once the order has used up its tries
+     */
+    private async checkAttemptsLeft(order: IOrder, gatewayName: string): Promise<void> {
+        if (gatewayName === 'cod') return;
+
+        // Every attempt is its own Payment, so the count is the number of tries
+        const attempts = await Payment.countDocuments({ order: order._id, gateway: { $ne: 'cod' } });
+        if (attempts >= getMaxPaymentAttempts()) {
+            throw new AppError('Too many payment attempts for this order. Please choose Cash on Delivery or contact us', 400);
+        }
+    }
+
+    /**
+     * Find an order by id or order number (gateways echo back either)
+     */
+    private async findOrder(orderId: string): Promise<IOrder | null> {
+        const query = mongoose.Types.ObjectId.isValid(orderId)
+            ? { $or: [{ _id: orderId }, { orderNumber: orderId }] }
+            : { orderNumber: orderId };
+
+        return Order.findOne(query);
+    }
+
+    /**
+     * Append to the payment event log
+     * A logging failure must never fail the payment itself
+     */
+    private async recordEvent(event: PaymentEventInput): Promise<void> {
+        try {
+            await PaymentEvent.create(event);
+        } catch (error) {
+            console.error('Failed to record payment event:', error);
+        }
+    }
+
+    /**
+     * Record a gateway verification on the payment and its order
+     * Shared by callbacks, manual verification and the reconciler; only the
+     * customer's own checkout passes clearCart, the reconciler runs unattended
+     */
+    private async applyVerification(
+        order: IOrder,
+        payment: IPayment,
+        result: PaymentVerifyResult,
+        options: { clearCart?: boolean } = {},
+    ): Promise<void> {
+        if (result.status === 'pending') {
+            return; // Not settled yet, check again later
+        }
+
+        // A settled payment (captured, refunded or failed) is never verified again
+        if (!['initiated', 'pending'].includes(payment.status)) {
+            return;
+        }
+
+        if (!result.verified) {
+            await payment.markFailed(result.message || 'Payment verification failed', result.rawResponse);
+            return;
+        }
+
+        // Check against the order as it was before this payment touched it
+        await this.recordDiscrepancies(order, payment, result);
+
+        await payment.markComplete(result.transactionId || '', result.rawResponse);
+        await postCapture(payment, {
+            amount: result.amount ?? payment.amount,
+            fee: result.fee,
+            reference: result.transactionId || payment._id.toString(),
+        });
+
+        // Money for a cancelled (or expired) order goes back instead of reviving it
+        if (order.status === 'cancelled') {
+            await this.refundLateCapture(order, payment, result);
+            return;
+        }
+
+        // Don't let a second capture overwrite the payment the order already has
+        if (order.payment.status === 'pending' || order.payment.status === 'failed') {
+            // An earlier attempt can still be captured after the customer switched gateways
+            order.payment.method = payment.gateway;
+            await order.markPaymentComplete(result.transactionId || '');
+        }
+
+        // Clear cart after successful online payment
+        if (options.clearCart) {
+            await Cart.findOneAndUpdate({ user: order.user }, { $set: { items: [], couponCode: null } });
+        }
+    }
+
+    /**
+     * Refund a capture that arrived after its order was cancelled
+     * Gateways without a refund API leave it pending for an admin to pay out
+     */
+    private async refundLateCapture(order: IOrder, payment: IPayment, result: PaymentVerifyResult): Promise<void> {
+        const amount = Math.min(result.amount ?? payment.amount, payment.getRefundableAmount());
+        if (amount <= 0) return;
+
+        try {
+            await this.refund((order._id as any).toString(), {
+                amount,
+                reason: 'Payment captured after the order was cancelled',
+                paymentId: payment._id.toString(),
+            });
+        } catch (error) {
+            // The paid_unmatched discrepancy is still there for an admin to act on
+            console.error(`Failed to refund late capture on order ${order.orderNumber}:`, error);
+        }
+    }
+
+    /**
+     * Report captured money that doesn't line up with the order
+     */
+    private async recordDiscrepancies(order: IOrder, payment: IPayment, result: PaymentVerifyResult): Promise<void> {
+        const reports: { type: string; details: string }[] = [];
+
+        if (order.status === 'cancelled') {
+            reports.push({
+                type: 'paid_unmatched',
+                details: `Payment captured after order ${order.orderNumber} was cancelled${order.cancellationReason ? ` (${order.cancellationReason})` : ''}`,
+            });
+        } else if (order.payment.status !== 'pending' && order.payment.status !== 'failed'
+            && order.payment.transactionId !== result.transactionId) {
+            reports.push({
+                type: 'paid_unmatched',
+                details: `Order ${order.orderNumber} was already paid by transaction ${order.payment.transactionId}`,
+            });
+        }
+
+        if (result.amount !== undefined && Math.abs(result.amount - payment.amount) >= 0.01) {
+            reports.push({
+                type: 'amount_mismatch',
+                details: `Gateway captured ${result.amount} but ${payment.amount} was expected`,
+            });
+        }
+
+        for (const report of reports) {
+            console.warn(`Payment discrepancy (${report.type}): ${report.details}`);
+            await PaymentDiscrepancy.updateOne(
+                { payment: payment._id, type: report.type },
+                {
+                    $setOnInsert: {
+                        order: order._id,
+                        gateway: payment.gateway,
+                        transactionId: result.transactionId,
+                        expectedAmount: payment.amount,
+                        gatewayAmount: result.amount,
+                        details: report.details,
+                    },
+                },
+                { upsert: true },
+            );
+        }
+    }
+
+    /**
+     * Mirror the payment's refund totals onto the order
+     */
+    private async syncOrderRefundStatus(order: IOrder, payment: IPayment): Promise<void> {
+        // A refund first pays off what an order edit left owed to the customer
+        const refunded = (payment.refundAmount || 0) - (order.payment.refundedAmount || 0);
+        const balanceDue = order.payment.balanceDue < 0
+            ? Math.min(0, order.payment.balanceDue + refunded)
+            : order.payment.balanceDue || 0;
+
+        await Order.updateOne(
+            { _id: order._id },
+            {
+                $set: {
+                    'payment.status': payment.status === 'refunded' ? 'refunded' : 'partially_refunded',
+                    'payment.refundedAmount': payment.refundAmount,
+                    'payment.balanceDue': balanceDue,
+                },
+            },
+        );
+    }
 }
 
 export default new PaymentService();
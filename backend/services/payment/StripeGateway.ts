@@ -0,0 +1,327 @@
+/**
+ * Stripe Gateway
+ * Implementation of IPaymentGateway for international card payments (Payment Intents)
+ *
+ * Orders are priced in NPR; cards are charged in USD at STRIPE_NPR_PER_USD.
+ * Amounts in and out of this gateway stay in NPR so the payment ledger has one currency;
+ * refunds convert at the rate the payment was charged at, not today's.
+ * STRIPE_API_BASE can point at the local stand-in server (scripts/stripeStandIn.ts).
+ */
+import crypto from 'crypto';
+import axios from 'axios';
+import IPaymentGateway, { PaymentInitiateResult, PaymentVerifyResult, PaymentCallbackResult, UserData, PaymentRefundResult } from './IPaymentGateway';
+import { IOrder } from '../../models/Order';
+import AppError from '../../utils/AppError';
+
+// How old a signed webhook may be before it is treated as a replay
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// How far partial refunds, each rounded to the cent, can together overshoot the charge
+const REFUND_ROUNDING_CENTS = 2;
+
+/**
+ * Encode nested params the way the Stripe API expects (a[b]=c)
+ */
+const toFormBody = (params: Record<string, any>, prefix = ''): string => {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        const name = prefix ? `${prefix}[${key}]` : key;
+
+        if (typeof value === 'object') {
+            parts.push(toFormBody(value, name));
+        } else {
+            parts.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+        }
+    }
+
+    return parts.filter(Boolean).join('&');
+};
+
+class StripeGateway implements IPaymentGateway {
+    name: string = 'stripe';
+    private baseUrl: string;
+    private secretKey: string;
+    private publishableKey: string;
+    private webhookSecret: string;
+    private nprPerUsd: number;
+
+    constructor() {
+        this.baseUrl = (process.env.STRIPE_API_BASE || 'https://api.stripe.com').replace(/\/$/, '');
+
+        // API keys
+        this.secretKey = process.env.STRIPE_SECRET_KEY || '';
+        this.publishableKey = process.env.STRIPE_PUBLISHABLE_KEY || '';
+        this.webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
+
+        this.nprPerUsd = parseFloat(process.env.STRIPE_NPR_PER_USD || '133');
+    }
+
+    /**
+     * Get authorization header
+     */
+    private getAuthHeader() {
+        return {
+            Authorization: `Bearer ${this.secretKey}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        };
+    }
+
+    /**
+     * Convert an NPR amount to the USD charged on the card
+     */
+    toUsd(amountNpr: number, nprPerUsd: number = this.nprPerUsd): number {
+        return Math.round((amountNpr / nprPerUsd) * 100) / 100;
+    }
+
+    /**
+     * Create a Payment Intent for the order
+     * The client confirms it with Stripe.js using the returned client secret
+     */
+    async initiate(order: IOrder, userData: UserData): Promise<PaymentInitiateResult> {
+        try {
+            const amountUsd = this.toUsd(order.pricing.total);
+
+            const response = await axios.post(
+                `${this.baseUrl}/v1/payment_intents`,
+                toFormBody({
+                    amount: Math.round(amountUsd * 100), // In cents
+                    currency: 'usd',
+                    receipt_email: userData.email,
+                    description: `Order ${order.orderNumber}`,
+                    automatic_payment_methods: { enabled: true },
+                    metadata: {
+                        orderId: (order._id as any).toString(),
+                        orderNumber: order.orderNumber,
+                        amountNpr: order.pricing.total,
+                    },
+                }),
+                { headers: this.getAuthHeader() },
+            );
+
+            return {
+                success: true,
+                transactionId: response.data.id,
+                status: 'pending',
+                requiresRedirect: false,
+                method: 'stripe',
+                clientSecret: response.data.client_secret,
+                publishableKey: this.publishableKey,
+                amount: amountUsd,
+                currency: 'USD',
+                exchangeRate: this.nprPerUsd,
+                message: 'Complete the card payment',
+            };
+        } catch (error: any) {
+            console.error('Stripe initiate error:', error.response?.data || error.message);
+            return {
+                success: false,
+                transactionId: '',
+                status: 'failed',
+                requiresRedirect: false,
+                message: error.response?.data?.error?.message || 'Failed to initiate card payment',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Verify a payment by retrieving its Payment Intent
+     */
+    async verify(transactionId: string, callbackData: any): Promise<PaymentVerifyResult> {
+        try {
+            const intentId = transactionId || callbackData?.paymentIntentId;
+
+            const response = await axios.get(`${this.baseUrl}/v1/payment_intents/${intentId}`, {
+                headers: this.getAuthHeader(),
+            });
+
+            const { status, amount, amount_received, latest_charge, metadata } = response.data;
+
+            if (status === 'succeeded') {
+                return {
+                    verified: true,
+                    status: 'completed',
+                    transactionId: intentId,
+                    referenceId: latest_charge,
+                    // Report the NPR share of what was captured
+                    amount: Number(metadata?.amountNpr) * (amount_received / amount),
+                    rawResponse: response.data,
+                };
+            }
+
+            // A new or declined intent can still be paid with another card, so only
+            // cancellation fails it; abandoned ones are left to the order expiry
+            if (status !== 'canceled') {
+                return {
+                    verified: false,
+                    status: 'pending',
+                    message: 'Payment is still pending',
+                    rawResponse: response.data,
+                };
+            }
+
+            return {
+                verified: false,
+                status: 'failed',
+                message: `Payment status: ${status}`,
+                rawResponse: response.data,
+            };
+        } catch (error: any) {
+            console.error('Stripe verify error:', error.response?.data || error.message);
+            return {
+                verified: false,
+                status: 'failed',
+                message: 'Verification failed',
+                error: error.message,
+                rawResponse: error.response?.data,
+            };
+        }
+    }
+
+    /**
+     * Handle a (signature-checked) webhook event
+     */
+    async handleCallback(data: any): Promise<PaymentCallbackResult> {
+        const intent = data?.data?.object || {};
+        const orderId = intent.metadata?.orderId || '';
+
+        if (data?.type === 'payment_intent.succeeded') {
+            return {
+                success: true,
+                orderId,
+                transactionId: intent.id,
+                // Stripe re-signs every delivery, so the event id identifies a retry
+                signature: data.id,
+                status: 'completed',
+                amount: Number(intent.metadata?.amountNpr),
+                rawResponse: data,
+            };
+        }
+
+        return {
+            success: false,
+            orderId,
+            transactionId: intent.id,
+            signature: data?.id,
+            status: data?.type === 'payment_intent.payment_failed' ? 'failed' : 'ignored',
+            message: intent.last_payment_error?.message || `Unhandled event ${data?.type}`,
+            rawResponse: data,
+        };
+    }
+
+    /**
+     * Check the Stripe-Signature header and parse the webhook event
+     * Signature is HMAC-SHA256 of "<timestamp>.<raw body>" with the signing secret
+     */
+    constructWebhookEvent(rawBody: Buffer | string, signatureHeader: string | undefined): any {
+        if (!this.webhookSecret) {
+            throw new AppError('Stripe webhook secret is not configured', 500);
+        }
+
+        const parts = (signatureHeader || '').split(',').reduce<Record<string, string[]>>((acc, part) => {
+            const [key, value] = part.split('=');
+            if (key && value) (acc[key.trim()] ||= []).push(value.trim());
+            return acc;
+        }, {});
+
+        const timestamp = parseInt(parts.t?.[0] || '');
+        const signatures = parts.v1 || [];
+
+        if (!timestamp || signatures.length === 0) {
+            throw new AppError('Invalid Stripe signature header', 400);
+        }
+
+        if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+            throw new AppError('Stripe webhook timestamp is outside the tolerance window', 400);
+        }
+
+        const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : rawBody;
+        const expected = crypto
+            .createHmac('sha256', this.webhookSecret)
+            .update(`${timestamp}.${payload}`)
+            .digest('hex');
+
+        const matches = signatures.some((signature) =>
+            signature.length === expected.length &&
+            crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)),
+        );
+
+        if (!matches) {
+            throw new AppError('Stripe webhook signature verification failed', 400);
+        }
+
+        return JSON.parse(payload);
+    }
+
+    /**
+     * Refund a Payment Intent, fully or partially (amount in NPR)
+     * A refund Stripe reports as pending is left for an admin to confirm once it settles
+     */
+    async refund(transactionId: string, amount: number, exchangeRate?: number): Promise<PaymentRefundResult> {
+        try {
+            const intent = await axios.get(`${this.baseUrl}/v1/payment_intents/${transactionId}`, {
+                headers: this.getAuthHeader(),
+                params: { 'expand[]': 'latest_charge' },
+            });
+            const charge = intent.data.latest_charge;
+            const unrefunded = charge ? charge.amount_captured - charge.amount_refunded : 0;
+
+            // A rounding overshoot takes what the charge has left; anything more is for Stripe to refuse
+            let cents = Math.round(this.toUsd(amount, exchangeRate || this.nprPerUsd) * 100);
+            if (cents > unrefunded && cents - unrefunded <= REFUND_ROUNDING_CENTS) {
+                cents = unrefunded;
+            }
+
+            if (cents <= 0) {
+                return {
+                    success: false,
+                    message: 'Nothing is left to refund on this charge',
+                    transactionId,
+                    amount,
+                };
+            }
+
+            const response = await axios.post(
+                `${this.baseUrl}/v1/refunds`,
+                toFormBody({
+                    payment_intent: transactionId,
+                    amount: cents,
+                }),
+                { headers: this.getAuthHeader() },
+            );
+
+            const { id, status } = response.data;
+
+            return {
+                success: status === 'succeeded',
+                message: `Stripe refund ${status}`,
+                transactionId: id,
+                amount,
+                pending: status === 'pending' || status === 'requires_action',
+            };
+        } catch (error: any) {
+            console.error('Stripe refund error:', error.response?.data || error.message);
+            return {
+                success: false,
+                message: error.response?.data?.error?.message || 'Stripe refund failed',
+                transactionId,
+                amount,
+            };
+        }
+    }
+
+    /**
+     * The Payment Intent id, from the return URL or a webhook event
+     */
+    getCallbackReference(callbackData: any): string | undefined {
+        return callbackData?.paymentIntentId || callbackData?.data?.object?.id;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+}
+
+export default StripeGateway;
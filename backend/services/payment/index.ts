@@ -8,6 +8,21 @@ import IPaymentGateway from './IPaymentGateway';
 import CODGateway from './CODGateway';
 import ESewaGateway from './ESewaGateway';
 import KhaltiGateway from './KhaltiGateway';
+import StripeGateway from './StripeGateway';
+import FonepayGateway from './FonepayGateway';
+import MockGateway from './MockGateway';
+
+// The mock gateway drives checkout end to end; it is only registered when asked for,
+// so a deployment without NODE_ENV set never offers it, and never without its
+// secret, which checkout would otherwise offer only to fail on
+const mockGatewayEnabled = ['development', 'test'].includes(process.env.NODE_ENV || '')
+    || process.env.ENABLE_MOCK_GATEWAY === 'true';
+
+if (mockGatewayEnabled && process.env.MOCK_GATEWAY_SECRET) {
+    PaymentFactory.registerGateway('mock', MockGateway);
+} else if (mockGatewayEnabled) {
+    console.warn('Mock gateway is not available: MOCK_GATEWAY_SECRET is not set');
+}
 
 export {
     PaymentService,
@@ -16,5 +31,8 @@ export {
     CODGateway,
     ESewaGateway,
     KhaltiGateway,
+    StripeGateway,
+    FonepayGateway,
+    MockGateway,
     // also export module default for compatibility
 };
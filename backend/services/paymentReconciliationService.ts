@@ -0,0 +1,120 @@
+/**
+ * Payment Reconciliation Service
+ * Settles online payments left pending because the customer never came back
+ * from the gateway (closed the tab before the success redirect, lost network...)
+ */
+import Payment from "../models/Payment";
+import { PaymentService } from "./payment";
+
+// Payments looked at per run, oldest first
+const BATCH_SIZE = 100;
+
+interface ReconciliationSummary {
+  checked: number;
+  completed: number;
+  failed: number;
+  stillPending: number;
+  errors: number;
+}
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Look up every online payment stuck in initiated/pending for longer than
+ * PAYMENT_RECONCILE_AFTER_MINUTES and settle it with the gateway's answer
+ * Discrepancies found on the way are recorded by PaymentService
+ */
+const reconcilePendingPayments = async (
+  now: Date = new Date(),
+): Promise<ReconciliationSummary> => {
+  const afterMinutes = parseInt(
+    process.env.PAYMENT_RECONCILE_AFTER_MINUTES || "15",
+  );
+  const cutoff = new Date(now.getTime() - afterMinutes * 60 * 1000);
+
+  const payments = await Payment.find({
+    status: { $in: ["initiated", "pending"] },
+    gateway: { $ne: "cod" },
+    "gatewayResponse.transactionId": { $nin: [null, ""] },
+    createdAt: { $lte: cutoff },
+  })
+    .sort({ createdAt: 1 })
+    .limit(BATCH_SIZE);
+
+  const summary: ReconciliationSummary = {
+    checked: 0,
+    completed: 0,
+    failed: 0,
+    stillPending: 0,
+    errors: 0,
+  };
+
+  for (const payment of payments) {
+    summary.checked++;
+
+    try {
+      const result = await PaymentService.reconcilePayment(payment);
+
+      if (result.error) {
+        summary.errors++;
+      } else if (result.verified) {
+        summary.completed++;
+      } else if (result.status === "pending") {
+        summary.stillPending++;
+      } else {
+        summary.failed++;
+      }
+    } catch (error) {
+      // Keep going, one bad payment shouldn't block the rest
+      console.error(`Failed to reconcile payment ${payment._id}:`, error);
+      summary.errors++;
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Start the background reconciler
+ * Interval is configurable through PAYMENT_RECONCILE_INTERVAL_MS
+ */
+const startPaymentReconciler = (): void => {
+  if (reconcileTimer) return;
+
+  const intervalMs = parseInt(
+    process.env.PAYMENT_RECONCILE_INTERVAL_MS || "300000",
+  );
+
+  reconcileTimer = setInterval(async () => {
+    try {
+      const summary = await reconcilePendingPayments();
+      if (summary.completed > 0 || summary.failed > 0) {
+        console.log(
+          `🔄 Reconciled ${summary.checked} payment(s): ${summary.completed} completed, ${summary.failed} failed`,
+        );
+      }
+    } catch (error) {
+      console.error("Payment reconciliation failed:", error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the reconciler
+  reconcileTimer.unref();
+};
+
+/**
+ * Stop the background reconciler
+ */
+const stopPaymentReconciler = (): void => {
+  if (reconcileTimer) {
+    clearInterval(reconcileTimer);
+    reconcileTimer = null;
+  }
+};
+
+export {
+  reconcilePendingPayments,
+  startPaymentReconciler,
+  stopPaymentReconciler,
+};
+export type { ReconciliationSummary };
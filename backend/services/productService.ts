@@ -3,30 +3,68 @@
  * Handles product business logic
  */
 import mongoose, { Types } from "mongoose";
-import Product, { IProduct } from "../models/Product";
+import Product, { IProduct, IVariantOption } from "../models/Product";
 import Category from "../models/Category";
 import Cart from "../models/Cart";
 import { paginate, PaginationResult } from "../utils/helpers";
 import AppError from "../utils/AppError";
 import { deleteImage } from "../config/cloudinary";
 import { cache, CACHE_KEYS } from "../utils/cache";
+import { expandSearch } from "./searchService";
+import { validateVariantOptions } from "./attributeService";
+import {
+  TaxClass,
+  PRODUCT_SIZES,
+  PRICE_BUCKETS,
+  RATING_BANDS,
+} from "../utils/constants";
+
+// Multi-select filters take repeated params or comma-separated values
+type MultiValue = string | string[];
 
 interface ProductsOptions {
   page?: number;
   limit?: number;
-  category?: string;
+  category?: MultiValue;
   search?: string;
   minPrice?: number;
   maxPrice?: number;
   isFeatured?: boolean | string;
   sort?: string;
+  size?: MultiValue;
+  color?: MultiValue;
+  price?: MultiValue;
+  rating?: MultiValue;
+  inStock?: boolean | string;
+}
+
+interface FacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Counts for each storefront filter; every facet is counted with all the
+ * other filters applied but not its own, so selections within a facet add up
+ */
+interface ProductFacets {
+  sizes: FacetBucket[];
+  colors: FacetBucket[];
+  categories: FacetBucket[];
+  price: FacetBucket[];
+  ratings: FacetBucket[];
+  inStock: number;
 }
 
 interface ProductsResult {
   products: IProduct[];
   pagination: PaginationResult;
+  facets: ProductFacets;
 }
 
+type FacetKey = "size" | "color" | "category" | "price" | "rating" | "inStock";
+
 interface ProductData {
   name: string;
   description: string;
@@ -39,8 +77,30 @@ interface ProductData {
   variants?: any[];
   isFeatured?: boolean;
   isActive?: boolean;
+  taxClass?: TaxClass | null;
 }
 
+// A row of a bulk variant edit; rows without an _id are new variants
+interface VariantPatch {
+  _id?: string;
+  size?: string;
+  color?: string;
+  options?: IVariantOption[];
+  sku?: string | null;
+  price?: number;
+  stock?: number;
+}
+
+// Fields a bulk variant edit may change
+const VARIANT_PATCH_FIELDS = [
+  "size",
+  "color",
+  "options",
+  "sku",
+  "price",
+  "stock",
+] as const;
+
 interface MulterFile {
   path: string;
   filename: string;
@@ -84,7 +144,100 @@ const cleanupCartsForProduct = async (productId: string): Promise<void> => {
 };
 
 /**
- * Get all products with filters and pagination
+ * Check variant SKUs are unique. The unique variants.sku index only compares
+ * SKUs across products, so repeats within one product are caught here
+ */
+const assertUniqueSkus = async (
+  variants: { sku?: string | null }[],
+  productId?: Types.ObjectId,
+): Promise<void> => {
+  const skus = variants
+    .map((v) => v.sku?.toString().trim().toUpperCase())
+    .filter((sku): sku is string => !!sku);
+  const repeated = skus.find((sku, i) => skus.indexOf(sku) !== i);
+  if (repeated) {
+    throw new AppError(
+      `SKU '${repeated}' is used by more than one variant`,
+      400,
+    );
+  }
+  if (skus.length === 0) return;
+
+  const taken = await Product.findOne({
+    ...(productId && { _id: { $ne: productId } }),
+    "variants.sku": { $in: skus },
+  }).select("name variants.sku");
+  if (taken) {
+    const sku = taken.variants.find((v) => v.sku && skus.includes(v.sku))!.sku;
+    throw new AppError(`SKU '${sku}' is already used by ${taken.name}`, 400);
+  }
+};
+
+const toList = (value?: MultiValue): string[] =>
+  (Array.isArray(value) ? value : [value || ""])
+    .flatMap((entry) => String(entry).split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const priceBucketValue = (bucket: (typeof PRICE_BUCKETS)[number]) =>
+  `${bucket.min}-${bucket.max ?? ""}`;
+
+const priceBucketLabel = (bucket: (typeof PRICE_BUCKETS)[number]) => {
+  const format = (amount: number) => amount.toLocaleString("en-IN");
+  if (bucket.min === 0) return `Under NPR ${format(bucket.max!)}`;
+  if (bucket.max === null) return `NPR ${format(bucket.min)} & above`;
+  return `NPR ${format(bucket.min)} - ${format(bucket.max)}`;
+};
+
+const priceBucketMatch = (bucket: (typeof PRICE_BUCKETS)[number]) => ({
+  price:
+    bucket.max === null
+      ? { $gte: bucket.min }
+      : { $gte: bucket.min, $lt: bucket.max },
+});
+
+// Variant products are in stock when any variant is; others by their own stock
+const IN_STOCK_MATCH = {
+  $or: [
+    { variants: { $size: 0 }, stock: { $gt: 0 } },
+    { "variants.stock": { $gt: 0 } },
+  ],
+};
+
+/**
+ * Turn "-price,name" into a $sort stage, with _id to keep pages stable
+ */
+const toSortStage = (sort: string): Record<string, 1 | -1> => {
+  const stage: Record<string, 1 | -1> = {};
+  sort
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => /^-?[\w.]+$/.test(field))
+    .forEach((field) => {
+      stage[field.replace(/^-/, "")] = field.startsWith("-") ? -1 : 1;
+    });
+  return { ...stage, _id: 1 };
+};
+
+/**
+ * Categories matching the given slugs or ids, with their direct subcategories
+ */
+const findCategoryIds = async (values: string[]): Promise<Types.ObjectId[]> => {
+  const ids = values.filter((value) => mongoose.Types.ObjectId.isValid(value));
+  const categories = await Category.find({
+    $or: [{ slug: { $in: values } }, { _id: { $in: ids } }],
+  }).distinct("_id");
+  if (categories.length === 0) return [];
+
+  // Find all subcategories to include their products too
+  const subCategories = await Category.find({
+    parent: { $in: categories },
+  }).distinct("_id");
+  return [...categories, ...subCategories];
+};
+
+/**
+ * Get all products with filters, plus facet counts for the filter sidebar
  */
 const getProducts = async (
   options: ProductsOptions = {},
@@ -92,7 +245,6 @@ const getProducts = async (
   const {
     page = 1,
     limit = 12,
-    category,
     search,
     minPrice,
     maxPrice,
@@ -100,28 +252,11 @@ const getProducts = async (
     sort = "-createdAt",
   } = options;
 
-  // Build filter
+  // Filters every facet shares
   const filter: any = { isActive: true };
 
-  if (category) {
-    // Find category by slug or ID
-    let catQuery: any = { slug: category };
-    if (mongoose.Types.ObjectId.isValid(category)) {
-      catQuery = { $or: [{ slug: category }, { _id: category }] };
-    }
-
-    const cat = await Category.findOne(catQuery);
-    if (cat) {
-      // Find all subcategories to include their products too
-      const subCategories = await Category.find({ parent: cat._id }).distinct(
-        "_id",
-      );
-      filter.category = { $in: [cat._id, ...subCategories] };
-    }
-  }
-
   if (search) {
-    filter.$text = { $search: search };
+    filter.$text = { $search: await expandSearch(search) };
   }
 
   if (minPrice !== undefined || maxPrice !== undefined) {
@@ -134,19 +269,230 @@ const getProducts = async (
     filter.isFeatured = isFeatured === "true" || isFeatured === true;
   }
 
-  // Count total
-  const total = await Product.countDocuments(filter);
-  const pagination = paginate(page, limit, total);
+  // Faceted filters; each one is left out when counting its own facet
+  const conditions: Partial<Record<FacetKey, object>> = {};
 
-  // Get products
-  const products = await Product.find(filter)
-    .sort(sort)
-    .skip(pagination.skip)
-    .limit(pagination.itemsPerPage)
-    .populate("category", "name slug")
-    .lean();
+  const categories = toList(options.category);
+  if (categories.length > 0) {
+    const categoryIds = await findCategoryIds(categories);
+    // An unknown category is ignored rather than emptying the results
+    if (categoryIds.length > 0) {
+      conditions.category = { category: { $in: categoryIds } };
+    }
+  }
+
+  const sizes = toList(options.size);
+  if (sizes.length > 0) {
+    conditions.size = { "variants.size": { $in: sizes } };
+  }
+
+  const colors = toList(options.color);
+  if (colors.length > 0) {
+    conditions.color = { "variants.color": { $in: colors } };
+  }
+
+  const buckets = PRICE_BUCKETS.filter((bucket) =>
+    toList(options.price).includes(priceBucketValue(bucket)),
+  );
+  if (buckets.length > 0) {
+    conditions.price = { $or: buckets.map(priceBucketMatch) };
+  }
 
-  return { products: products as IProduct[], pagination };
+  const ratings = toList(options.rating)
+    .map(Number)
+    .filter((rating) => (RATING_BANDS as readonly number[]).includes(rating));
+  if (ratings.length > 0) {
+    conditions.rating = {
+      "ratings.average": { $gte: Math.min(...ratings) },
+    };
+  }
+
+  if (options.inStock === "true" || options.inStock === true) {
+    conditions.inStock = IN_STOCK_MATCH;
+  }
+
+  const matchExcept = (except?: FacetKey) => {
+    const applied = (Object.keys(conditions) as FacetKey[])
+      .filter((key) => key !== except)
+      .map((key) => conditions[key]!);
+    return { $match: applied.length > 0 ? { $and: applied } : {} };
+  };
+
+  const pagination = paginate(page, limit, 0);
+  const countVariantField = (field: "size" | "color") => [
+    matchExcept(field),
+    { $unwind: "$variants" },
+    // One count per product, however many variants share the value
+    { $group: { _id: { value: `$variants.${field}`, product: "$_id" } } },
+    { $group: { _id: "$_id.value", count: { $sum: 1 } } },
+    // Variants described only by other attributes leave these blank
+    { $match: { _id: { $nin: ["", null] } } },
+  ];
+
+  const [result] = await Product.aggregate([
+    { $match: filter },
+    {
+      $facet: {
+        products: [
+          matchExcept(),
+          { $sort: toSortStage(sort) },
+          { $skip: pagination.skip },
+          { $limit: pagination.itemsPerPage },
+          {
+            $lookup: {
+              from: Category.collection.name,
+              let: { categoryId: "$category" },
+              pipeline: [
+                { $match: { $expr: { $eq: ["$_id", "$$categoryId"] } } },
+                { $project: { name: 1, slug: 1 } },
+              ],
+              as: "category",
+            },
+          },
+          { $unwind: { path: "$category", preserveNullAndEmptyArrays: true } },
+        ],
+        total: [matchExcept(), { $count: "count" }],
+        sizes: countVariantField("size"),
+        colors: countVariantField("color"),
+        categories: [
+          matchExcept("category"),
+          { $group: { _id: "$category", count: { $sum: 1 } } },
+        ],
+        price: [
+          matchExcept("price"),
+          {
+            $group: {
+              _id: {
+                $switch: {
+                  branches: PRICE_BUCKETS.map((bucket) => ({
+                    case:
+                      bucket.max === null
+                        ? { $gte: ["$price", bucket.min] }
+                        : {
+                            $and: [
+                              { $gte: ["$price", bucket.min] },
+                              { $lt: ["$price", bucket.max] },
+                            ],
+                          },
+                    then: priceBucketValue(bucket),
+                  })),
+                  default: null,
+                },
+              },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        ratings: [
+          matchExcept("rating"),
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(
+                RATING_BANDS.map((band) => [
+                  `band${band}`,
+                  {
+                    $sum: {
+                      $cond: [{ $gte: ["$ratings.average", band] }, 1, 0],
+                    },
+                  },
+                ]),
+              ),
+            },
+          },
+        ],
+        inStock: [
+          matchExcept("inStock"),
+          { $match: IN_STOCK_MATCH },
+          { $count: "count" },
+        ],
+      },
+    },
+  ]);
+
+  const countsOf = (rows: { _id: any; count: number }[]) =>
+    new Map(rows.map((row) => [String(row._id), row.count]));
+
+  const sizeCounts = countsOf(result.sizes);
+  const colorCounts = countsOf(result.colors);
+  const categoryCounts = countsOf(result.categories);
+  const priceCounts = countsOf(result.price);
+  const ratingCounts = result.ratings[0] || {};
+
+  // Selected values stay listed at zero so they can still be cleared
+  colors.forEach((color) => {
+    if (!colorCounts.has(color)) colorCounts.set(color, 0);
+  });
+
+  // A category filter takes in its subcategories, so parents count theirs too
+  const countedCategories = await Category.find({
+    _id: { $in: [...categoryCounts.keys()] },
+  })
+    .select("name slug parent")
+    .lean();
+  const parentCategories = await Category.find({
+    _id: { $nin: countedCategories.map((category) => category._id) },
+    $or: [
+      {
+        _id: {
+          $in: countedCategories
+            .map((category) => category.parent as Types.ObjectId | null)
+            .filter(Boolean),
+        },
+      },
+      { slug: { $in: categories } },
+    ],
+  })
+    .select("name slug parent")
+    .lean();
+  const rolledUpCounts = new Map(categoryCounts);
+  countedCategories.forEach((category) => {
+    if (!category.parent) return;
+    const parentId = category.parent.toString();
+    rolledUpCounts.set(
+      parentId,
+      (rolledUpCounts.get(parentId) || 0) +
+        categoryCounts.get(category._id.toString())!,
+    );
+  });
+
+  const facets: ProductFacets = {
+    // Standard sizes in their usual order, then any others in use
+    sizes: [...new Set<string>([...PRODUCT_SIZES, ...sizeCounts.keys()])].map(
+      (size) => ({
+        value: size,
+        label: size,
+        count: sizeCounts.get(size) || 0,
+      }),
+    ),
+    colors: [...colorCounts.entries()]
+      .map(([color, count]) => ({ value: color, label: color, count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    categories: [...countedCategories, ...parentCategories]
+      .map((category) => ({
+        value: category.slug,
+        label: category.name,
+        count: rolledUpCounts.get(category._id.toString()) || 0,
+      }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    price: PRICE_BUCKETS.map((bucket) => ({
+      value: priceBucketValue(bucket),
+      label: priceBucketLabel(bucket),
+      count: priceCounts.get(priceBucketValue(bucket)) || 0,
+    })),
+    ratings: RATING_BANDS.map((band) => ({
+      value: String(band),
+      label: `${band}★ & up`,
+      count: ratingCounts[`band${band}`] || 0,
+    })),
+    inStock: result.inStock[0]?.count || 0,
+  };
+
+  return {
+    products: result.products as IProduct[],
+    pagination: paginate(page, limit, result.total[0]?.count || 0),
+    facets,
+  };
 };
 
 /**
@@ -202,6 +548,14 @@ const createProduct = async (productData: ProductData): Promise<IProduct> => {
     throw new AppError("Category not found", 404);
   }
 
+  if (productData.variants) {
+    await assertUniqueSkus(productData.variants);
+    productData.variants = await validateVariantOptions(
+      category._id,
+      productData.variants,
+    );
+  }
+
   const product = await Product.create(productData);
   return product;
 };
@@ -245,18 +599,142 @@ const updateProduct = async (
       }
     }
 
+    await assertUniqueSkus(updateData.variants, product._id);
+
     // Remove cart items that reference deleted variants
     if (removedVariantIds.length > 0) {
       await cleanupCartsForVariants(productId, removedVariantIds);
     }
   }
 
+  // Variants must fit the category's attributes, including after a move
+  if (updateData.variants || updateData.category) {
+    updateData.variants = await validateVariantOptions(
+      updateData.category || product.category,
+      updateData.variants || product.variants.map((v: any) => v.toObject()),
+    );
+  }
+
   Object.assign(product, updateData);
   await product.save();
 
   return product;
 };
 
+/**
+ * Edit many variants at once (Admin). Rows with an _id change only the fields
+ * they carry, the others are added; variants not sent are left as they are.
+ * Only those fields are written, so stock taken by checkouts meanwhile stays taken.
+ */
+const patchVariants = async (
+  productId: string,
+  patches: VariantPatch[],
+): Promise<IProduct> => {
+  const product = await Product.findById(productId);
+  if (!product) {
+    throw new AppError("Product not found", 404);
+  }
+
+  const variants: VariantPatch[] = product.variants.map((v: any) =>
+    v.toObject(),
+  );
+  const added: VariantPatch[] = [];
+
+  patches.forEach((patch) => {
+    const row = { ...patch };
+    if (row.sku !== undefined) {
+      row.sku = row.sku?.toString().trim() || undefined;
+    }
+
+    if (!row._id) {
+      added.push(row);
+      return;
+    }
+
+    const index = variants.findIndex((v) => v._id!.toString() === row._id);
+    if (index === -1) {
+      throw new AppError("Variant not found", 404);
+    }
+    // Options and size/colour mirror each other, so the side sent replaces the other
+    const current = { ...variants[index] };
+    const legacySent = row.size !== undefined || row.color !== undefined;
+    if (!row.options && legacySent) {
+      current.options = [];
+    } else if (row.options && !legacySent) {
+      current.size = "";
+      current.color = "";
+    }
+    variants[index] = { ...current, ...row, _id: current._id };
+  });
+
+  const merged = [...variants, ...added];
+  await assertUniqueSkus(merged, product._id);
+
+  // Run the rows through the schema so options and size/colour are normalised
+  product.set(
+    "variants",
+    await validateVariantOptions(product.category, merged),
+  );
+  await product.validate();
+
+  // Fields sent per existing variant; options and size/colour mirror each other
+  const patchedFields = new Map<string, Set<string>>();
+  patches
+    .filter((patch) => patch._id)
+    .forEach((patch) => {
+      const fields = patchedFields.get(patch._id!) || new Set<string>();
+      VARIANT_PATCH_FIELDS.filter((field) => field in patch).forEach((field) =>
+        fields.add(field),
+      );
+      if (fields.has("size") || fields.has("color") || fields.has("options")) {
+        ["size", "color", "options"].forEach((field) => fields.add(field));
+      }
+      patchedFields.set(patch._id!, fields);
+    });
+
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, 1> = {};
+  const arrayFilters: Record<string, Types.ObjectId>[] = [];
+  [...patchedFields]
+    .filter(([, fields]) => fields.size > 0)
+    .forEach(([variantId, fields], index) => {
+      const variant = product.variants.find(
+        (v) => v._id!.toString() === variantId,
+      )!;
+      fields.forEach((field) => {
+        const value = variant[field as keyof typeof variant];
+        const path = `variants.$[v${index}].${field}`;
+        // A cleared SKU is removed rather than stored empty
+        if (value === undefined) unset[path] = 1;
+        else set[path] = value;
+      });
+      arrayFilters.push({ [`v${index}._id`]: variant._id! });
+    });
+  const pushed = product.variants
+    .slice(variants.length)
+    .map((v: any) => v.toObject());
+
+  // Editing a row and adding rows are separate updates of the same array
+  await mongoose.connection.transaction(async (session) => {
+    if (arrayFilters.length > 0) {
+      await Product.updateOne(
+        { _id: product._id },
+        { $set: set, $unset: unset },
+        { arrayFilters, session },
+      );
+    }
+    if (pushed.length > 0) {
+      await Product.updateOne(
+        { _id: product._id },
+        { $push: { variants: { $each: pushed } } },
+        { session },
+      );
+    }
+  });
+
+  return (await Product.findById(product._id)) as IProduct;
+};
+
 /**
  * Delete product (Admin)
  */
@@ -364,12 +842,14 @@ const uploadVariantImage = async (
   return product;
 };
 
+export type { ProductFacets, FacetBucket };
 export {
   getProducts,
   getProductBySlug,
   getFeaturedProducts,
   createProduct,
   updateProduct,
+  patchVariants,
   deleteProduct,
   addProductImages,
   deleteProductImage,
@@ -182,6 +182,120 @@ export async function sendOrderStatusNotification(
   );
 }
 
+/**
+ * Tell a customer their unpaid order was cancelled after the payment window closed
+ */
+export async function sendOrderExpiredNotification(
+  userId: string,
+  orderId: string,
+  orderNumber?: string,
+): Promise<ExpoPushTicket[]> {
+  return sendPushNotification(
+    userId,
+    "Order Expired",
+    `Your order ${orderNumber || orderId} was cancelled because payment was not completed in time.`,
+    {
+      type: "order_update",
+      orderId,
+      status: "cancelled",
+    },
+    {
+      channelId: "orders",
+    },
+  );
+}
+
+/**
+ * Tell a customer about courier progress that needs them at home
+ */
+export async function sendShipmentNotification(
+  userId: string,
+  orderId: string,
+  shipmentStatus: string,
+  orderNumber?: string,
+): Promise<ExpoPushTicket[]> {
+  const statusMessages: Record<string, { title: string; body: string }> = {
+    out_for_delivery: {
+      title: "Out for Delivery 🚚",
+      body: `Your order ${orderNumber || orderId} will arrive today.`,
+    },
+    failed: {
+      title: "Delivery Attempt Failed",
+      body: `The courier couldn't deliver ${orderNumber || orderId}. They will try again.`,
+    },
+  };
+
+  const message = statusMessages[shipmentStatus];
+  if (!message) return [];
+
+  return sendPushNotification(
+    userId,
+    message.title,
+    message.body,
+    {
+      type: "order_update",
+      orderId,
+      shipmentStatus,
+    },
+    {
+      channelId: "orders",
+    },
+  );
+}
+
+/**
+ * Tell a customer their return or exchange moved on
+ */
+export async function sendReturnStatusNotification(
+  userId: string,
+  orderId: string,
+  returnId: string,
+  status: string,
+  returnNumber?: string,
+): Promise<ExpoPushTicket[]> {
+  const statusMessages: Record<string, { title: string; body: string }> = {
+    approved: {
+      title: "Return Approved",
+      body: `Your return ${returnNumber || returnId} has been approved.`,
+    },
+    rejected: {
+      title: "Return Declined",
+      body: `Your return ${returnNumber || returnId} could not be accepted.`,
+    },
+    pickup_scheduled: {
+      title: "Return Pickup Scheduled 🚚",
+      body: `A courier will collect the items for ${returnNumber || returnId}.`,
+    },
+    received: {
+      title: "Return Received",
+      body: `We've received the items for ${returnNumber || returnId} and will inspect them shortly.`,
+    },
+    completed: {
+      title: "Return Completed ✅",
+      body: `Your return ${returnNumber || returnId} is complete.`,
+    },
+  };
+
+  const message = statusMessages[status];
+  if (!message) return [];
+
+  return sendPushNotification(
+    userId,
+    message.title,
+    message.body,
+    {
+      // Opens the order, where the return is shown
+      type: "order_update",
+      orderId,
+      returnId,
+      status,
+    },
+    {
+      channelId: "orders",
+    },
+  );
+}
+
 /**
  * Send promotional notification to all users with tokens
  */
@@ -400,5 +514,8 @@ export default {
   sendPushNotification,
   sendPushNotificationToMany,
   sendOrderStatusNotification,
+  sendOrderExpiredNotification,
+  sendShipmentNotification,
+  sendReturnStatusNotification,
   sendPromotionalNotification,
 };
@@ -0,0 +1,854 @@
+/**
+ * Return Service
+ * Returns and size exchanges (RMA) on delivered orders, from the customer's
+ * request through pickup and inspection to a refund or replacement order
+ */
+import mongoose, { Types } from "mongoose";
+import ReturnRequest, {
+  IReturnRequest,
+  ReturnReason,
+  ReturnRequestType,
+  ReturnResolution,
+  ReturnStatus,
+} from "../models/ReturnRequest";
+import Order, { IOrder, IOrderItem } from "../models/Order";
+import Product from "../models/Product";
+import { PaymentService } from "./payment";
+import { restockItems } from "./orderService";
+import { sendReturnStatusNotification } from "./pushNotificationService";
+import AppError from "../utils/AppError";
+import {
+  paginate,
+  PaginationResult,
+  getReturnWindowDays,
+} from "../utils/helpers";
+
+interface ReturnItemInput {
+  itemId: string;
+  quantity: number;
+  exchangeVariantId?: string | null;
+}
+
+interface ReturnRequestData {
+  orderId: string;
+  type: ReturnRequestType;
+  reason: ReturnReason;
+  reasonDetails?: string;
+  photos?: { url: string; publicId?: string }[];
+  items: ReturnItemInput[];
+}
+
+interface InspectionItemInput {
+  itemId: string;
+  acceptedQuantity: number;
+  restock?: boolean;
+}
+
+interface PickupDetails {
+  scheduledFor?: Date;
+  courier?: string;
+  trackingNumber?: string;
+}
+
+interface GetReturnsOptions {
+  page?: number;
+  limit?: number;
+  status?: ReturnStatus;
+  order?: string;
+}
+
+interface ReturnsResult {
+  returns: IReturnRequest[];
+  pagination: PaginationResult;
+}
+
+interface ReturnableItem {
+  itemId: string;
+  product: Types.ObjectId;
+  variantId: Types.ObjectId | null;
+  name: string;
+  image?: string;
+  variant?: { size?: string; color?: string };
+  price: number;
+  quantity: number;
+  // Ordered quantity not already covered by an open or finished return
+  returnable: number;
+  // Other in-stock options of the same product it can be exchanged for
+  exchangeOptions: ExchangeOption[];
+}
+
+interface ExchangeOption {
+  variantId: string;
+  size: string;
+  color: string;
+  stock: number;
+}
+
+interface ReturnEligibility {
+  eligible: boolean;
+  reason?: string;
+  windowDays: number;
+  deadline: Date | null;
+  items: ReturnableItem[];
+}
+
+const VALID_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  approved: ["pickup_scheduled", "received", "cancelled"],
+  pickup_scheduled: ["received"],
+  received: ["inspected"],
+  inspected: ["completed", "rejected"],
+  rejected: [],
+  completed: [],
+  cancelled: [],
+};
+
+// Returns that no longer hold on to any of the order's quantity
+const CLOSED_STATUSES: ReturnStatus[] = ["rejected", "cancelled"];
+
+// A claim older than this is taken to be from a request that died part way
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const isClaimed = (returnRequest: IReturnRequest): boolean =>
+  !!returnRequest.processingAt &&
+  returnRequest.processingAt.getTime() > Date.now() - CLAIM_TIMEOUT_MS;
+
+/**
+ * What the customer paid for one unit of an order line, after its share
+ * of any discount and with its VAT
+ */
+const paidPerUnit = (order: IOrder, line: IOrderItem): number => {
+  // Orders from before VAT was tracked only have the order-wide discount
+  if (line.taxableAmount == null) {
+    const { subtotal, discount } = order.pricing;
+    return subtotal > 0
+      ? (line.price * (subtotal - discount)) / subtotal
+      : line.price;
+  }
+
+  return (line.taxableAmount + (line.tax || 0)) / line.quantity;
+};
+
+/**
+ * Move a return to its next status, recording who did it
+ */
+const transition = async (
+  returnRequest: IReturnRequest,
+  status: ReturnStatus,
+  changedBy: string,
+  note?: string,
+): Promise<IReturnRequest> => {
+  if (!VALID_TRANSITIONS[returnRequest.status].includes(status)) {
+    throw new AppError(
+      `Cannot move a return from ${returnRequest.status} to ${status}`,
+      400,
+    );
+  }
+
+  returnRequest.status = status;
+  returnRequest.statusHistory.push({
+    status,
+    changedAt: new Date(),
+    changedBy: new Types.ObjectId(changedBy),
+    note,
+  });
+  returnRequest.increment(); // Fail the save if the return changed since it was loaded
+
+  try {
+    await returnRequest.save();
+  } catch (error: any) {
+    if (error.name === "VersionError") {
+      throw new AppError(
+        "This return was just updated by someone else. Please reload it.",
+        409,
+      );
+    }
+    throw error;
+  }
+
+  try {
+    await sendReturnStatusNotification(
+      returnRequest.user.toString(),
+      returnRequest.order.toString(),
+      (returnRequest._id as Types.ObjectId).toString(),
+      status,
+      returnRequest.returnNumber,
+    );
+  } catch (error) {
+    // Don't fail the return update if notification fails
+    console.error("Failed to send return status notification:", error);
+  }
+
+  return returnRequest;
+};
+
+const findReturn = async (
+  returnId: string,
+  userId: string | null = null,
+): Promise<IReturnRequest> => {
+  const filter: Record<string, unknown> = { _id: returnId };
+  if (userId) filter.user = userId;
+
+  const returnRequest = await ReturnRequest.findOne(filter);
+  if (!returnRequest) {
+    throw new AppError("Return request not found", 404);
+  }
+
+  return returnRequest;
+};
+
+/**
+ * Take a return in the given status for a step with side effects, so a
+ * repeated or concurrent request can't restock, refund or replace twice
+ */
+const claimReturn = async (
+  returnId: string,
+  status: ReturnStatus,
+  message: string,
+): Promise<IReturnRequest> => {
+  const claimed = await ReturnRequest.findOneAndUpdate(
+    {
+      _id: returnId,
+      status,
+      $or: [
+        { processingAt: null },
+        { processingAt: { $lt: new Date(Date.now() - CLAIM_TIMEOUT_MS) } },
+      ],
+    },
+    // Bumping the version also fails saves of copies loaded before the claim
+    { $set: { processingAt: new Date() }, $inc: { __v: 1 } },
+    { new: true },
+  );
+  if (claimed) return claimed;
+
+  const returnRequest = await findReturn(returnId);
+  if (returnRequest.status !== status) {
+    throw new AppError(message, 400);
+  }
+  throw new AppError("This return is already being processed", 409);
+};
+
+/**
+ * Give up a claim after its side effect failed, leaving the status as it was
+ */
+const releaseReturn = async (returnRequest: IReturnRequest): Promise<void> => {
+  await ReturnRequest.updateOne(
+    { _id: returnRequest._id },
+    { $set: { processingAt: null } },
+  );
+};
+
+/**
+ * Open and finished returns' quantities per order line
+ */
+const claimedQuantities = async (
+  orderId: Types.ObjectId,
+): Promise<Map<string, number>> => {
+  const claimed = new Map<string, number>();
+  const existing = await ReturnRequest.find({
+    order: orderId,
+    status: { $nin: CLOSED_STATUSES },
+  });
+  for (const returnRequest of existing) {
+    for (const item of returnRequest.items) {
+      const key = item.orderItem.toString();
+      claimed.set(key, (claimed.get(key) || 0) + item.quantity);
+    }
+  }
+
+  return claimed;
+};
+
+/**
+ * Whether an order can still be returned, and how much of each line
+ */
+const buildEligibility = async (order: IOrder): Promise<ReturnEligibility> => {
+  const windowDays = getReturnWindowDays();
+  const deadline = order.deliveredAt
+    ? new Date(order.deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const claimed = await claimedQuantities(order._id as Types.ObjectId);
+
+  const products = await Product.find({
+    _id: { $in: order.items.map((item) => item.product) },
+    isActive: true,
+  }).select("variants");
+
+  const items = order.items.map((item: any) => ({
+    itemId: item._id.toString(),
+    product: item.product,
+    variantId: item.variantId || null,
+    name: item.name,
+    image: item.image,
+    variant: item.variant,
+    price: item.price,
+    quantity: item.quantity,
+    returnable: Math.max(
+      item.quantity - (claimed.get(item._id.toString()) || 0),
+      0,
+    ),
+    exchangeOptions: (
+      products.find((product) => product._id.equals(item.product))?.variants ||
+      []
+    )
+      .filter(
+        (variant) =>
+          variant.stock > 0 &&
+          !(item.variantId && variant._id.equals(item.variantId)),
+      )
+      .map((variant) => ({
+        variantId: variant._id.toString(),
+        size: variant.size,
+        color: variant.color,
+        stock: variant.stock,
+      })),
+  }));
+
+  let reason: string | undefined;
+  if (order.status !== "delivered" || !deadline) {
+    reason = "Only delivered orders can be returned";
+  } else if (Date.now() > deadline.getTime()) {
+    reason = `The ${windowDays}-day return window for this order has closed`;
+  } else if (items.every((item) => item.returnable === 0)) {
+    reason = "Every item in this order already has a return request";
+  }
+
+  return { eligible: !reason, reason, windowDays, deadline, items };
+};
+
+/**
+ * Return eligibility for one of the customer's orders
+ */
+const getReturnEligibility = async (
+  orderId: string,
+  userId: string,
+): Promise<ReturnEligibility> => {
+  const order = await Order.findOne({ _id: orderId, user: userId });
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  return buildEligibility(order);
+};
+
+/**
+ * Request a return or size exchange for items of a delivered order
+ */
+const createReturnRequest = async (
+  userId: string,
+  data: ReturnRequestData,
+): Promise<IReturnRequest> => {
+  const order = await Order.findOne({ _id: data.orderId, user: userId });
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  const eligibility = await buildEligibility(order);
+  if (!eligibility.eligible) {
+    throw new AppError(eligibility.reason!, 400);
+  }
+
+  const items = [];
+  const seen = new Set<string>();
+  for (const input of data.items) {
+    const line = eligibility.items.find((item) => item.itemId === input.itemId);
+    if (!line) {
+      throw new AppError("Item is not part of this order", 400);
+    }
+
+    // Each line is capped on its own, so it may only be listed once
+    if (seen.has(line.itemId)) {
+      throw new AppError(`"${line.name}" is listed more than once`, 400);
+    }
+    seen.add(line.itemId);
+
+    if (input.quantity > line.returnable) {
+      throw new AppError(
+        `Only ${line.returnable} of "${line.name}" can be returned`,
+        400,
+      );
+    }
+
+    const item: Record<string, unknown> = {
+      orderItem: line.itemId,
+      product: line.product,
+      variantId: line.variantId,
+      name: line.name,
+      image: line.image,
+      variant: line.variant,
+      price: line.price,
+      quantity: input.quantity,
+    };
+
+    if (data.type === "exchange") {
+      if (!input.exchangeVariantId) {
+        throw new AppError(
+          `Choose the size to exchange "${line.name}" for`,
+          400,
+        );
+      }
+
+      const product = await Product.findById(line.product).select(
+        "isActive variants",
+      );
+      const variant = product?.variants.find((v) =>
+        v._id.equals(input.exchangeVariantId!),
+      );
+      if (!product || !product.isActive || !variant) {
+        throw new AppError(
+          `That option is not available for "${line.name}"`,
+          400,
+        );
+      }
+      if (line.variantId && variant._id.equals(line.variantId)) {
+        throw new AppError(
+          `Choose a different option to exchange "${line.name}" for`,
+          400,
+        );
+      }
+      if (variant.stock < input.quantity) {
+        throw new AppError(
+          `${variant.size} / ${variant.color} of "${line.name}" is out of stock`,
+          400,
+        );
+      }
+
+      item.exchangeVariantId = variant._id;
+      item.exchangeVariant = { size: variant.size, color: variant.color };
+    }
+
+    items.push(item);
+  }
+
+  const returnRequest = await ReturnRequest.create({
+    order: order._id,
+    user: order.user,
+    type: data.type,
+    reason: data.reason,
+    reasonDetails: data.reasonDetails,
+    photos: data.photos || [],
+    items,
+    statusHistory: [
+      {
+        status: "requested",
+        changedBy: order.user,
+        note:
+          data.type === "exchange" ? "Exchange requested" : "Return requested",
+      },
+    ],
+  });
+
+  // Two requests for the same items can both pass the check above, so count
+  // again with this one saved and back out if the order is now over-claimed
+  const claimed = await claimedQuantities(order._id as Types.ObjectId);
+  const over = order.items.find(
+    (line: any) => (claimed.get(line._id.toString()) || 0) > line.quantity,
+  );
+  if (over) {
+    await ReturnRequest.deleteOne({ _id: returnRequest._id });
+    throw new AppError(
+      `"${over.name}" already has a return request for these items`,
+      409,
+    );
+  }
+
+  return returnRequest;
+};
+
+/**
+ * List a customer's return requests, newest first
+ */
+const getUserReturns = async (
+  userId: string,
+  options: GetReturnsOptions = {},
+): Promise<ReturnsResult> => {
+  const { page = 1, limit = 10, order } = options;
+
+  const filter: Record<string, unknown> = { user: userId };
+  if (order) filter.order = order;
+
+  const total = await ReturnRequest.countDocuments(filter);
+  const pagination = paginate(page, limit, total);
+
+  const returns = await ReturnRequest.find(filter)
+    .sort({ createdAt: -1 })
+    .skip(pagination.skip)
+    .limit(pagination.itemsPerPage)
+    .populate("order", "orderNumber")
+    .populate("resolution.replacementOrder", "orderNumber status");
+
+  return { returns, pagination };
+};
+
+/**
+ * Get a return request, limited to the customer's own unless userId is null
+ */
+const getReturnById = async (
+  returnId: string,
+  userId: string | null = null,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId, userId);
+
+  return returnRequest.populate([
+    { path: "order", select: "orderNumber deliveredAt payment pricing" },
+    { path: "user", select: "name email phone" },
+    { path: "resolution.replacementOrder", select: "orderNumber status" },
+  ]);
+};
+
+/**
+ * Withdraw a return before the items have been sent back
+ */
+const cancelReturnRequest = async (
+  returnId: string,
+  userId: string,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId, userId);
+
+  if (!["requested", "approved"].includes(returnRequest.status)) {
+    throw new AppError("This return can no longer be cancelled", 400);
+  }
+
+  return transition(
+    returnRequest,
+    "cancelled",
+    userId,
+    "Cancelled by customer",
+  );
+};
+
+/**
+ * List all return requests (Admin)
+ */
+const getAllReturns = async (
+  options: GetReturnsOptions = {},
+): Promise<ReturnsResult> => {
+  const { page = 1, limit = 20, status, order } = options;
+
+  const filter: Record<string, unknown> = {};
+  if (status) filter.status = status;
+  if (order) filter.order = order;
+
+  const total = await ReturnRequest.countDocuments(filter);
+  const pagination = paginate(page, limit, total);
+
+  const returns = await ReturnRequest.find(filter)
+    .sort({ createdAt: -1 })
+    .skip(pagination.skip)
+    .limit(pagination.itemsPerPage)
+    .populate("order", "orderNumber")
+    .populate("user", "name email phone")
+    .populate("resolution.replacementOrder", "orderNumber status");
+
+  return { returns, pagination };
+};
+
+/**
+ * Accept a return request (Admin)
+ */
+const approveReturn = async (
+  returnId: string,
+  adminId: string,
+  note?: string,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId);
+  return transition(returnRequest, "approved", adminId, note);
+};
+
+/**
+ * Decline a return request, or one whose items all failed inspection (Admin)
+ */
+const rejectReturn = async (
+  returnId: string,
+  adminId: string,
+  reason: string,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId);
+  if (isClaimed(returnRequest)) {
+    throw new AppError("This return is already being processed", 409);
+  }
+
+  returnRequest.rejectionReason = reason;
+  return transition(returnRequest, "rejected", adminId, reason);
+};
+
+/**
+ * Arrange for a courier to collect the items (Admin)
+ */
+const schedulePickup = async (
+  returnId: string,
+  adminId: string,
+  details: PickupDetails,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId);
+  returnRequest.pickup = details;
+
+  const note = [
+    details.courier && `Pickup by ${details.courier}`,
+    details.trackingNumber && `tracking ${details.trackingNumber}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return transition(
+    returnRequest,
+    "pickup_scheduled",
+    adminId,
+    note || undefined,
+  );
+};
+
+/**
+ * Record that the items are back with us (Admin)
+ */
+const markReturnReceived = async (
+  returnId: string,
+  adminId: string,
+  note?: string,
+): Promise<IReturnRequest> => {
+  const returnRequest = await findReturn(returnId);
+  return transition(returnRequest, "received", adminId, note);
+};
+
+/**
+ * Record how much of each item passed inspection and put it back into stock (Admin)
+ */
+const inspectReturn = async (
+  returnId: string,
+  adminId: string,
+  inspection: { items: InspectionItemInput[]; note?: string },
+): Promise<IReturnRequest> => {
+  const returnRequest = await claimReturn(
+    returnId,
+    "received",
+    "Only received returns can be inspected",
+  );
+
+  try {
+    for (const item of returnRequest.items) {
+      const input = inspection.items.find(
+        (entry) => entry.itemId === item._id.toString(),
+      );
+      const accepted = input?.acceptedQuantity ?? 0;
+
+      if (accepted > item.quantity) {
+        throw new AppError(
+          `At most ${item.quantity} of "${item.name}" can be accepted`,
+          400,
+        );
+      }
+
+      item.acceptedQuantity = accepted;
+      item.restocked = Boolean(input?.restock) && accepted > 0;
+    }
+
+    const toRestock = returnRequest.items.filter((item) => item.restocked);
+    await restockItems(
+      toRestock.map((item) => ({
+        product: item.product,
+        variantId: item.variantId,
+        quantity: item.acceptedQuantity!,
+      })),
+    );
+  } catch (error) {
+    await releaseReturn(returnRequest);
+    throw error;
+  }
+
+  returnRequest.inspectionNote = inspection.note;
+  returnRequest.processingAt = null;
+
+  return transition(returnRequest, "inspected", adminId, inspection.note);
+};
+
+/**
+ * Ship the accepted items again, in the exchange size where one was chosen,
+ * as a no-charge order
+ */
+const createReplacementOrder = async (
+  returnRequest: IReturnRequest,
+  order: IOrder,
+  adminId: string,
+): Promise<IOrder> => {
+  const lines = returnRequest.items.filter(
+    (item) => (item.acceptedQuantity || 0) > 0,
+  );
+
+  return mongoose.connection.transaction(async (session) => {
+    const items = [];
+
+    for (const line of lines) {
+      const variantId = line.exchangeVariantId || line.variantId || null;
+      const quantity = line.acceptedQuantity!;
+
+      const reserved = await Product.decrementStock(
+        line.product,
+        variantId,
+        quantity,
+        session,
+      );
+      if (!reserved) {
+        throw new AppError(
+          `Not enough stock to replace "${line.name}". Refund it instead.`,
+          409,
+        );
+      }
+
+      items.push({
+        product: line.product,
+        variantId,
+        name: line.name,
+        image: line.image,
+        price: line.price,
+        quantity,
+        variant: line.exchangeVariantId ? line.exchangeVariant : line.variant,
+        subtotal: line.price * quantity,
+      });
+    }
+
+    const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+
+    return new Order({
+      user: order.user,
+      items,
+      shippingAddress: order.shippingAddress,
+      shippingMethod: order.shippingMethod,
+      payment: {
+        method: order.payment.method,
+        status: "paid",
+        paidAt: new Date(),
+        transactionId: returnRequest.returnNumber,
+      },
+      // Nothing to pay: the value is covered by the returned items
+      pricing: {
+        subtotal,
+        shippingCost: 0,
+        discount: subtotal,
+        total: 0,
+      },
+      status: "confirmed",
+      replacementFor: returnRequest._id,
+      statusHistory: [
+        {
+          status: "confirmed",
+          changedBy: adminId,
+          note: `Replacement for ${order.orderNumber} (${returnRequest.returnNumber})`,
+        },
+      ],
+    }).save({ session });
+  });
+};
+
+/**
+ * Finish an inspected return with a refund or a replacement order (Admin)
+ * Exchanges are replaced and returns refunded unless told otherwise
+ */
+const completeReturn = async (
+  returnId: string,
+  adminId: string,
+  resolution?: ReturnResolution,
+): Promise<IReturnRequest> => {
+  const returnRequest = await claimReturn(
+    returnId,
+    "inspected",
+    "Only inspected returns can be completed",
+  );
+
+  try {
+    const accepted = returnRequest.items.filter(
+      (item) => (item.acceptedQuantity || 0) > 0,
+    );
+    if (accepted.length === 0) {
+      throw new AppError(
+        "Nothing passed inspection. Reject the return instead.",
+        400,
+      );
+    }
+
+    const order = await Order.findById(returnRequest.order);
+    if (!order) {
+      throw new AppError("Order not found", 404);
+    }
+
+    const type =
+      resolution ??
+      (returnRequest.type === "exchange" ? "replacement" : "refund");
+
+    if (type === "replacement") {
+      const replacement = await createReplacementOrder(
+        returnRequest,
+        order,
+        adminId,
+      );
+      returnRequest.resolution = {
+        type,
+        replacementOrder: replacement._id as Types.ObjectId,
+      };
+    } else {
+      // Refund what was paid for the items, discount taken off and VAT included
+      const itemsValue = accepted.reduce((sum, item) => {
+        const line = order.items.find((orderItem: any) =>
+          orderItem._id.equals(item.orderItem),
+        );
+        const unitPaid = line ? paidPerUnit(order, line) : item.price;
+        return sum + unitPaid * item.acceptedQuantity!;
+      }, 0);
+
+      const { refundableAmount } = await PaymentService.getRefunds(
+        (order._id as Types.ObjectId).toString(),
+      );
+      const amount = Math.min(roundAmount(itemsValue), refundableAmount);
+
+      // Nothing left to pay back (e.g. already refunded by hand), so skip the gateway
+      let refundId: Types.ObjectId | null = null;
+      if (amount > 0) {
+        const { refund } = await PaymentService.refund(
+          (order._id as Types.ObjectId).toString(),
+          { amount, reason: `Return ${returnRequest.returnNumber}` },
+          adminId,
+        );
+        refundId = refund._id;
+      }
+
+      returnRequest.resolution = {
+        type,
+        refundAmount: amount,
+        refund: refundId,
+      };
+    }
+  } catch (error) {
+    await releaseReturn(returnRequest);
+    throw error;
+  }
+
+  returnRequest.completedAt = new Date();
+  returnRequest.processingAt = null;
+
+  let note = "Refund issued";
+  if (returnRequest.resolution!.type === "replacement") {
+    note = "Replacement order created";
+  } else if (!returnRequest.resolution!.refund) {
+    note = "Nothing left to refund";
+  }
+
+  return transition(returnRequest, "completed", adminId, note);
+};
+
+export {
+  getReturnEligibility,
+  createReturnRequest,
+  getUserReturns,
+  getReturnById,
+  cancelReturnRequest,
+  getAllReturns,
+  approveReturn,
+  rejectReturn,
+  schedulePickup,
+  markReturnReceived,
+  inspectReturn,
+  completeReturn,
+};
+export type { ReturnEligibility };
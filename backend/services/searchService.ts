@@ -0,0 +1,595 @@
+/**
+ * Search Service
+ * Search-as-you-type suggestions, synonyms and search analytics
+ */
+import { Types } from "mongoose";
+import Product from "../models/Product";
+import Category from "../models/Category";
+import SearchLog, {
+  SearchPlatform,
+  MAX_SEARCH_CLICKS,
+} from "../models/SearchLog";
+import SearchSynonym, { ISearchSynonym } from "../models/SearchSynonym";
+import AppError from "../utils/AppError";
+import { cache, CACHE_KEYS } from "../utils/cache";
+import {
+  MAX_EDGE_GRAM,
+  foldSearchText,
+  searchTokens,
+  partialVariants,
+  edgeGrams,
+  trigrams,
+  trigramSimilarity,
+} from "../utils/searchText";
+
+// Share of the query's trigrams a name must contain to count as a typo match
+const FUZZY_THRESHOLD = 0.5;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+const MAX_QUERY_SUGGESTIONS = 5;
+// A query needs this many searches before its click-through rate means much
+const MIN_SEARCHES_FOR_CLICK_THROUGH = 5;
+
+interface ProductSuggestion {
+  _id: Types.ObjectId;
+  name: string;
+  slug: string;
+  price: number;
+  image: string | null;
+}
+
+interface CategorySuggestion {
+  _id: Types.ObjectId;
+  name: string;
+  slug: string;
+}
+
+interface Suggestions {
+  products: ProductSuggestion[];
+  categories: CategorySuggestion[];
+  queries: string[];
+}
+
+interface SynonymData {
+  term: string;
+  synonyms: string[];
+}
+
+interface SearchLogData {
+  // Set by callers that hand the id out before the write finishes
+  id?: Types.ObjectId;
+  query: string;
+  resultCount: number;
+  userId?: string | Types.ObjectId | null;
+  platform?: SearchPlatform;
+}
+
+interface SearchReportFilter {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+interface SearchReportRow {
+  query: string;
+  searches: number;
+  zeroResultSearches: number;
+  averageResults: number;
+  clickThroughRate: number;
+  lastSearchedAt: Date;
+}
+
+interface SearchReport {
+  totals: {
+    searches: number;
+    uniqueQueries: number;
+    zeroResultSearches: number;
+    clickThroughRate: number;
+  };
+  topQueries: SearchReportRow[];
+  zeroResultQueries: SearchReportRow[];
+  lowClickThroughQueries: SearchReportRow[];
+}
+
+const PRODUCT_FIELDS = { name: 1, slug: 1, price: 1, images: 1, variants: 1 };
+
+const toProductSuggestion = (product: any): ProductSuggestion => {
+  const image =
+    product.images?.find((img: any) => img.isPrimary) || product.images?.[0];
+  return {
+    _id: product._id,
+    name: product.name,
+    slug: product.slug,
+    // Same display price as the product card: first variant, else base price
+    price: product.variants?.length ? product.variants[0].price : product.price,
+    image: image?.url || null,
+  };
+};
+
+// ==================== SYNONYMS ====================
+
+/**
+ * Synonym rules with their terms folded for matching, cached until one changes
+ */
+const getSynonymRules = async (): Promise<SynonymData[]> => {
+  const cached = cache.get<SynonymData[]>(CACHE_KEYS.SEARCH_SYNONYMS);
+  if (cached) return cached;
+
+  const rules = (await SearchSynonym.find().lean()).map((rule) => ({
+    term: foldSearchText(rule.term),
+    synonyms: rule.synonyms,
+  }));
+  cache.set(CACHE_KEYS.SEARCH_SYNONYMS, rules, 300);
+  return rules;
+};
+
+/**
+ * Synonyms for every term that appears as whole words in the query
+ */
+const matchSynonyms = async (query: string): Promise<SynonymData[]> => {
+  const folded = ` ${foldSearchText(query)} `;
+  return (await getSynonymRules()).filter(
+    (rule) => rule.term && folded.includes(` ${rule.term} `),
+  );
+};
+
+/**
+ * The query with its synonyms added, for the $text search on the listing.
+ * $text matches any of the words, so "topi" becomes "topi hat"
+ */
+const expandSearch = async (query: string): Promise<string> => {
+  const synonyms = (await matchSynonyms(query)).flatMap(
+    (rule) => rule.synonyms,
+  );
+  return [query, ...synonyms].join(" ");
+};
+
+/**
+ * The query plus a copy with each matched term swapped for each synonym,
+ * for suggestions, which need every word to match
+ */
+const queryAlternatives = async (query: string): Promise<string[]> => {
+  const folded = ` ${foldSearchText(query)} `;
+  const alternatives = (await matchSynonyms(query)).flatMap((rule) =>
+    rule.synonyms.map((synonym) =>
+      folded.replace(` ${rule.term} `, ` ${synonym} `).trim(),
+    ),
+  );
+  return [query, ...new Set(alternatives)];
+};
+
+const getSynonyms = async (): Promise<ISearchSynonym[]> =>
+  SearchSynonym.find().sort({ term: 1 });
+
+const createSynonym = async (
+  data: SynonymData,
+  adminId: string,
+): Promise<ISearchSynonym> => {
+  const existing = await SearchSynonym.findOne({
+    term: data.term.trim().toLowerCase(),
+  });
+  if (existing) {
+    throw new AppError(`Synonyms for '${existing.term}' already exist`, 400);
+  }
+
+  const synonym = await SearchSynonym.create({ ...data, createdBy: adminId });
+  cache.delete(CACHE_KEYS.SEARCH_SYNONYMS);
+  return synonym;
+};
+
+const updateSynonym = async (
+  synonymId: string,
+  data: Partial<SynonymData>,
+): Promise<ISearchSynonym> => {
+  const synonym = await SearchSynonym.findById(synonymId);
+  if (!synonym) {
+    throw new AppError("Synonym not found", 404);
+  }
+
+  if (data.term !== undefined) synonym.term = data.term;
+  if (data.synonyms !== undefined) synonym.synonyms = data.synonyms;
+  await synonym.save();
+  cache.delete(CACHE_KEYS.SEARCH_SYNONYMS);
+  return synonym;
+};
+
+const deleteSynonym = async (
+  synonymId: string,
+): Promise<{ message: string }> => {
+  const synonym = await SearchSynonym.findById(synonymId);
+  if (!synonym) {
+    throw new AppError("Synonym not found", 404);
+  }
+
+  await synonym.deleteOne();
+  cache.delete(CACHE_KEYS.SEARCH_SYNONYMS);
+  return { message: "Synonym deleted successfully" };
+};
+
+// ==================== SUGGESTIONS ====================
+
+/**
+ * Finished query words, the spellings the word being typed may end up as,
+ * and the trigrams of the whole query
+ */
+interface ParsedQuery {
+  words: string[];
+  partial: string[];
+  trigrams: string[];
+}
+
+const parseQuery = (query: string): ParsedQuery | null => {
+  const tokens = searchTokens(query).map((token) =>
+    token.slice(0, MAX_EDGE_GRAM),
+  );
+  if (tokens.length === 0) return null;
+
+  return {
+    words: tokens.slice(0, -1),
+    partial: partialVariants(tokens[tokens.length - 1]),
+    trigrams: trigrams(tokens, true),
+  };
+};
+
+const startsWithAny = (token: string, prefixes: string[]) =>
+  prefixes.some((prefix) => token.startsWith(prefix));
+
+/**
+ * Whether every query word starts a word of the text (or is close to one)
+ */
+const matchesText = (parsed: ParsedQuery, text: string): boolean => {
+  const tokens = searchTokens(text);
+  const prefixMatch =
+    parsed.words.every((word) =>
+      tokens.some((token) => token.startsWith(word)),
+    ) && tokens.some((token) => startsWithAny(token, parsed.partial));
+  return (
+    prefixMatch ||
+    trigramSimilarity(parsed.trigrams, trigrams(tokens)) >= FUZZY_THRESHOLD
+  );
+};
+
+/**
+ * Active categories, cached alongside the category tree
+ */
+const getActiveCategories = async (): Promise<CategorySuggestion[]> => {
+  const cached = cache.get<CategorySuggestion[]>(CACHE_KEYS.CATEGORIES);
+  if (cached) return cached;
+
+  const categories = await Category.find({ isActive: true })
+    .select("name slug")
+    .lean();
+  const suggestions = categories.map(({ _id, name, slug }) => ({
+    _id,
+    name,
+    slug,
+  }));
+  cache.set(CACHE_KEYS.CATEGORIES, suggestions, 300);
+  return suggestions;
+};
+
+/**
+ * Complete the word being typed from the names of the suggested products,
+ * e.g. "brass elep" gives "brass elephant" and "brass elephant statue"
+ */
+const completeQueries = (
+  query: string,
+  parsed: ParsedQuery,
+  names: string[],
+): string[] => {
+  const typedWords = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const leading = typedWords.slice(0, -1).join(" ");
+  const partialTrigrams = trigrams([parsed.partial[0]], true);
+  const queries = new Set<string>();
+
+  names.forEach((name) => {
+    const words = name.toLowerCase().split(/\s+/).filter(Boolean);
+    const index = words.findIndex((word) => {
+      const [token] = searchTokens(word);
+      return (
+        !!token &&
+        (startsWithAny(token, parsed.partial) ||
+          trigramSimilarity(partialTrigrams, trigrams([token])) >=
+            FUZZY_THRESHOLD)
+      );
+    });
+    if (index === -1) return;
+
+    const completion = words.slice(index, index + 2);
+    for (let length = 1; length <= completion.length; length++) {
+      queries.add(
+        [leading, ...completion.slice(0, length)].filter(Boolean).join(" "),
+      );
+    }
+  });
+
+  return [...queries].slice(0, MAX_QUERY_SUGGESTIONS);
+};
+
+/**
+ * Products, categories and completed queries for a partly typed search.
+ * Names that start with what was typed come first, then near misses; each
+ * group is ranked by units sold
+ */
+const getSuggestions = async (
+  query: string,
+  limit: number = 6,
+): Promise<Suggestions> => {
+  const parsed = parseQuery(query);
+  if (!parsed) {
+    return { products: [], categories: [], queries: [] };
+  }
+
+  // Synonyms widen the prefix match; typo matching sticks to what was typed
+  const alternatives = (await queryAlternatives(query))
+    .map(parseQuery)
+    .filter((alternative): alternative is ParsedQuery => !!alternative);
+
+  const prefixMatches = await Product.find({
+    isActive: true,
+    $or: alternatives.map((alternative) => ({
+      searchPrefixes: {
+        $in: alternative.partial,
+        ...(alternative.words.length > 0 && { $all: alternative.words }),
+      },
+    })),
+  })
+    .select(PRODUCT_FIELDS)
+    .sort({ soldCount: -1, _id: 1 })
+    .limit(limit)
+    .lean();
+
+  // Trigrams say little about a query of only a few letters
+  let fuzzyMatches: any[] = [];
+  if (prefixMatches.length < limit && parsed.trigrams.length >= 3) {
+    fuzzyMatches = await Product.aggregate([
+      {
+        $match: {
+          isActive: true,
+          _id: { $nin: prefixMatches.map((product) => product._id) },
+          searchTrigrams: { $in: parsed.trigrams },
+        },
+      },
+      {
+        $addFields: {
+          score: {
+            $divide: [
+              {
+                $size: {
+                  $setIntersection: ["$searchTrigrams", parsed.trigrams],
+                },
+              },
+              parsed.trigrams.length,
+            ],
+          },
+        },
+      },
+      { $match: { score: { $gte: FUZZY_THRESHOLD } } },
+      { $sort: { score: -1, soldCount: -1, _id: 1 } },
+      { $limit: limit - prefixMatches.length },
+      { $project: PRODUCT_FIELDS },
+    ]);
+  }
+
+  const products = [...prefixMatches, ...fuzzyMatches];
+
+  const categories = (await getActiveCategories())
+    .filter((category) => matchesText(parsed, category.name))
+    .slice(0, MAX_CATEGORY_SUGGESTIONS);
+
+  return {
+    products: products.map(toProductSuggestion),
+    categories,
+    queries: completeQueries(
+      query,
+      parsed,
+      products.map((product) => product.name),
+    ),
+  };
+};
+
+/**
+ * Build the suggestion index for products saved before it existed, or
+ * inserted without save hooks (e.g. the seeder). Returns how many were updated
+ */
+const rebuildSearchIndex = async (): Promise<number> => {
+  let updated = 0;
+  let batch: any[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await Product.bulkWrite(batch);
+    updated += batch.length;
+    batch = [];
+  };
+
+  for await (const product of Product.find().select("name").lean().cursor()) {
+    const tokens = searchTokens(product.name);
+    batch.push({
+      updateOne: {
+        filter: { _id: product._id },
+        update: {
+          $set: {
+            searchPrefixes: edgeGrams(tokens),
+            searchTrigrams: trigrams(tokens),
+          },
+        },
+      },
+    });
+    if (batch.length === 500) await flush();
+  }
+  await flush();
+
+  return updated;
+};
+
+// ==================== ANALYTICS ====================
+
+/**
+ * Record a storefront search. Returns the log id the client sends back
+ * when the customer opens one of the results
+ */
+const logSearch = async (data: SearchLogData): Promise<string> => {
+  const log = await SearchLog.create({
+    _id: data.id,
+    query: data.query.trim().slice(0, 200),
+    normalizedQuery: foldSearchText(data.query),
+    resultCount: data.resultCount,
+    user: data.userId || null,
+    platform: data.platform || "unknown",
+  });
+  return log._id.toString();
+};
+
+/**
+ * Note that the customer opened a product from a search's results
+ */
+const recordSearchClick = async (
+  searchId: string,
+  productId: string,
+): Promise<void> => {
+  const log = await SearchLog.findById(searchId).select("_id");
+  if (!log) {
+    throw new AppError("Search not found", 404);
+  }
+
+  await SearchLog.updateOne(
+    // Stop adding once the cap is reached
+    {
+      _id: searchId,
+      [`clickedProducts.${MAX_SEARCH_CLICKS - 1}`]: { $exists: false },
+    },
+    { $addToSet: { clickedProducts: productId } },
+  );
+  await SearchLog.updateOne(
+    { _id: searchId, firstClickAt: null },
+    { $set: { firstClickAt: new Date() } },
+  );
+};
+
+const round = (value: number, places: number) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Top, zero-result and low click-through queries over a date range.
+ * Click-through is the share of searches that found something and led
+ * to a product being opened
+ */
+const getSearchReport = async (
+  filter: SearchReportFilter = {},
+): Promise<SearchReport> => {
+  const limit = filter.limit || 20;
+  const createdAt: Record<string, Date> = {};
+  if (filter.from) createdAt.$gte = filter.from;
+  if (filter.to) createdAt.$lte = filter.to;
+
+  const [result] = await SearchLog.aggregate([
+    { $match: filter.from || filter.to ? { createdAt } : {} },
+    { $sort: { createdAt: 1, _id: 1 } },
+    {
+      $group: {
+        _id: "$normalizedQuery",
+        // Show the query as it was last typed
+        query: { $last: "$query" },
+        searches: { $sum: 1 },
+        zeroResultSearches: {
+          $sum: { $cond: [{ $eq: ["$resultCount", 0] }, 1, 0] },
+        },
+        clickedSearches: {
+          $sum: { $cond: [{ $gt: [{ $size: "$clickedProducts" }, 0] }, 1, 0] },
+        },
+        averageResults: { $avg: "$resultCount" },
+        lastSearchedAt: { $max: "$createdAt" },
+      },
+    },
+    {
+      $addFields: {
+        searchesWithResults: {
+          $subtract: ["$searches", "$zeroResultSearches"],
+        },
+      },
+    },
+    {
+      $addFields: {
+        clickThroughRate: {
+          $cond: [
+            { $gt: ["$searchesWithResults", 0] },
+            { $divide: ["$clickedSearches", "$searchesWithResults"] },
+            0,
+          ],
+        },
+      },
+    },
+    {
+      $facet: {
+        totals: [
+          {
+            $group: {
+              _id: null,
+              searches: { $sum: "$searches" },
+              uniqueQueries: { $sum: 1 },
+              zeroResultSearches: { $sum: "$zeroResultSearches" },
+              searchesWithResults: { $sum: "$searchesWithResults" },
+              clickedSearches: { $sum: "$clickedSearches" },
+            },
+          },
+        ],
+        topQueries: [
+          { $sort: { searches: -1, lastSearchedAt: -1 } },
+          { $limit: limit },
+        ],
+        zeroResultQueries: [
+          { $match: { zeroResultSearches: { $gt: 0 } } },
+          { $sort: { zeroResultSearches: -1, lastSearchedAt: -1 } },
+          { $limit: limit },
+        ],
+        lowClickThroughQueries: [
+          {
+            $match: {
+              searchesWithResults: { $gte: MIN_SEARCHES_FOR_CLICK_THROUGH },
+            },
+          },
+          { $sort: { clickThroughRate: 1, searches: -1 } },
+          { $limit: limit },
+        ],
+      },
+    },
+  ]);
+
+  const toRow = (row: any): SearchReportRow => ({
+    query: row.query,
+    searches: row.searches,
+    zeroResultSearches: row.zeroResultSearches,
+    averageResults: round(row.averageResults, 1),
+    clickThroughRate: round(row.clickThroughRate, 3),
+    lastSearchedAt: row.lastSearchedAt,
+  });
+  const totals = result.totals[0];
+
+  return {
+    totals: {
+      searches: totals?.searches || 0,
+      uniqueQueries: totals?.uniqueQueries || 0,
+      zeroResultSearches: totals?.zeroResultSearches || 0,
+      clickThroughRate: totals?.searchesWithResults
+        ? round(totals.clickedSearches / totals.searchesWithResults, 3)
+        : 0,
+    },
+    topQueries: result.topQueries.map(toRow),
+    zeroResultQueries: result.zeroResultQueries.map(toRow),
+    lowClickThroughQueries: result.lowClickThroughQueries.map(toRow),
+  };
+};
+
+export type { Suggestions, SearchReport };
+export {
+  getSuggestions,
+  rebuildSearchIndex,
+  expandSearch,
+  getSynonyms,
+  createSynonym,
+  updateSynonym,
+  deleteSynonym,
+  logSearch,
+  recordSearchClick,
+  getSearchReport,
+};
@@ -0,0 +1,405 @@
+/**
+ * Shipment Service
+ * Hands orders to a courier, keeps their tracking history on the order
+ * and marks them delivered once the courier says so
+ */
+import Order, { IOrder, ITrackingEvent, ShipmentStatus } from "../models/Order";
+import { CourierFactory } from "./courier";
+import { CourierTrackingEvent } from "./courier/ICourierProvider";
+import {
+  sendOrderStatusNotification,
+  sendShipmentNotification,
+} from "./pushNotificationService";
+import AppError from "../utils/AppError";
+
+interface CreateShipmentData {
+  courier: string;
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  instructions?: string;
+  note?: string;
+}
+
+interface TrackingEventData {
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+  occurredAt?: Date;
+}
+
+interface CourierOption {
+  id: string;
+  name: string;
+  reportsTracking: boolean;
+}
+
+// The courier is done with the parcel; nothing more to poll for
+const FINAL_STATUSES: ShipmentStatus[] = ["delivered", "returned"];
+
+// Customers opening the tracking page refresh it at most this often
+const TRACKING_REFRESH_MS = 5 * 60 * 1000;
+
+let syncTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Couriers an admin can ship with
+ */
+const getCouriers = (): CourierOption[] =>
+  CourierFactory.getAvailableCouriers().map((id) => {
+    const courier = CourierFactory.getCourier(id);
+    return {
+      id,
+      name: courier.displayName,
+      reportsTracking: courier.reportsTracking,
+    };
+  });
+
+/**
+ * Move the order along and tell the customer, without failing on the push
+ */
+const advanceOrder = async (
+  order: IOrder,
+  status: "shipped" | "delivered",
+  changedBy: string | null,
+  note: string,
+): Promise<void> => {
+  await order.updateOrderStatus(status, changedBy, note);
+
+  try {
+    await sendOrderStatusNotification(
+      order.user.toString(),
+      (order._id as any).toString(),
+      status,
+      order.orderNumber,
+    );
+  } catch (error) {
+    console.error("Failed to send order status notification:", error);
+  }
+};
+
+/**
+ * Merge tracking events into the order's shipment
+ * Events already recorded are skipped, so polling and webhooks can overlap.
+ * Delivers the order when the latest event says the parcel arrived.
+ */
+const applyTrackingEvents = async (
+  order: IOrder,
+  events: CourierTrackingEvent[],
+  source: ITrackingEvent["source"],
+): Promise<IOrder> => {
+  const shipment = order.shipment;
+  if (!shipment) {
+    throw new AppError("Order has not been shipped", 400);
+  }
+
+  const seen = new Set(
+    shipment.events.map(
+      (event) =>
+        `${event.status}|${new Date(event.occurredAt).getTime()}|${event.description}`,
+    ),
+  );
+  const fresh = events.filter(
+    (event) =>
+      !seen.has(
+        `${event.status}|${event.occurredAt.getTime()}|${event.description}`,
+      ),
+  );
+
+  shipment.lastSyncedAt = new Date();
+
+  if (fresh.length === 0) {
+    await order.save();
+    return order;
+  }
+
+  const previousStatus = shipment.status;
+  shipment.events.push(...fresh.map((event) => ({ ...event, source })));
+  shipment.events.sort(
+    (a, b) =>
+      new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime(),
+  );
+
+  const latest = shipment.events[shipment.events.length - 1];
+  shipment.status = latest.status;
+  if (latest.status === "delivered" && !shipment.deliveredAt) {
+    shipment.deliveredAt = latest.occurredAt;
+  }
+  order.markModified("shipment");
+  await order.save();
+
+  if (latest.status === "delivered" && order.status === "shipped") {
+    await advanceOrder(
+      order,
+      "delivered",
+      null,
+      `Delivered - reported by ${shipment.carrier}`,
+    );
+  } else if (latest.status !== previousStatus) {
+    try {
+      await sendShipmentNotification(
+        order.user.toString(),
+        (order._id as any).toString(),
+        latest.status,
+        order.orderNumber,
+      );
+    } catch (error) {
+      console.error("Failed to send shipment notification:", error);
+    }
+  }
+
+  return order;
+};
+
+/**
+ * Book the courier and mark a processing order as shipped
+ */
+const createShipment = async (
+  orderId: string,
+  adminId: string,
+  data: CreateShipmentData,
+): Promise<IOrder> => {
+  if (!CourierFactory.isSupported(data.courier)) {
+    throw new AppError(`Courier '${data.courier}' is not supported`, 400);
+  }
+
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+  if (order.status !== "processing") {
+    throw new AppError(`Cannot ship an order that is ${order.status}`, 400);
+  }
+
+  const courier = CourierFactory.getCourier(data.courier);
+  const result = await courier.createShipment(order, {
+    carrier: data.carrier,
+    trackingNumber: data.trackingNumber,
+    trackingUrl: data.trackingUrl,
+    instructions: data.instructions,
+  });
+  if (!result.success) {
+    throw new AppError(result.message || "Could not book the shipment", 502);
+  }
+
+  const shippedAt = new Date();
+  order.shipment = {
+    courier: courier.getName(),
+    carrier: result.carrier,
+    trackingNumber: result.trackingNumber,
+    trackingUrl: result.trackingUrl,
+    status: "created",
+    events: [
+      {
+        status: "created",
+        description: `Handed over to ${result.carrier}`,
+        occurredAt: shippedAt,
+        source: "admin",
+      },
+    ],
+    shippedAt,
+    lastSyncedAt: shippedAt,
+  };
+
+  await advanceOrder(
+    order,
+    "shipped",
+    adminId,
+    data.note || `Shipped with ${result.carrier} (${result.trackingNumber})`,
+  );
+
+  return order;
+};
+
+/**
+ * Record a tracking update by hand, for couriers without an API
+ */
+const addTrackingEvent = async (
+  orderId: string,
+  data: TrackingEventData,
+): Promise<IOrder> => {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  return applyTrackingEvents(
+    order,
+    [
+      {
+        status: data.status,
+        description: data.description,
+        location: data.location,
+        occurredAt: data.occurredAt || new Date(),
+      },
+    ],
+    "admin",
+  );
+};
+
+/**
+ * Pull the latest tracking history from the courier
+ */
+const refreshTracking = async (order: IOrder): Promise<IOrder> => {
+  if (!order.shipment) {
+    throw new AppError("Order has not been shipped", 400);
+  }
+
+  const courier = CourierFactory.getCourier(order.shipment.courier);
+  if (!courier.reportsTracking) {
+    return order;
+  }
+
+  const result = await courier.getTracking(order.shipment.trackingNumber);
+  if (!result.success) {
+    throw new AppError(result.message || "Could not fetch tracking", 502);
+  }
+
+  return applyTrackingEvents(order, result.events, "courier");
+};
+
+/**
+ * Refresh an order's tracking from the admin panel
+ */
+const refreshOrderTracking = async (orderId: string): Promise<IOrder> => {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+
+  return refreshTracking(order);
+};
+
+/**
+ * Tracking for a customer's own order
+ * Refreshed from the courier when stale; a courier outage still shows what we have
+ */
+const getOrderTracking = async (orderId: string, userId: string) => {
+  const order: IOrder | null = await Order.findOne({
+    _id: orderId,
+    user: userId,
+  });
+  if (!order) {
+    throw new AppError("Order not found", 404);
+  }
+  if (!order.shipment) {
+    return { shipment: null, orderStatus: order.status };
+  }
+
+  const lastSynced = order.shipment.lastSyncedAt?.getTime() || 0;
+  if (
+    !FINAL_STATUSES.includes(order.shipment.status) &&
+    Date.now() - lastSynced > TRACKING_REFRESH_MS
+  ) {
+    try {
+      await refreshTracking(order);
+    } catch (error) {
+      console.error("Failed to refresh tracking:", error);
+    }
+  }
+
+  return { shipment: order.shipment, orderStatus: order.status };
+};
+
+/**
+ * Apply a courier's status webhook
+ */
+const handleCourierWebhook = async (
+  courierName: string,
+  data: any,
+  headers: Record<string, any>,
+): Promise<IOrder> => {
+  if (!CourierFactory.isSupported(courierName)) {
+    throw new AppError("Unknown courier", 404);
+  }
+
+  const courier = CourierFactory.getCourier(courierName);
+  const result = await courier.handleWebhook(data, headers);
+  if (!result.success || !result.trackingNumber) {
+    throw new AppError(result.message || "Invalid webhook", 400);
+  }
+
+  const order = await Order.findOne({
+    "shipment.courier": courier.getName(),
+    "shipment.trackingNumber": result.trackingNumber,
+  });
+  if (!order) {
+    throw new AppError("Shipment not found", 404);
+  }
+
+  return applyTrackingEvents(order, result.events, "courier");
+};
+
+/**
+ * Poll the couriers for every parcel still on the road
+ * Catches deliveries whose webhook never arrived. Returns the number refreshed.
+ */
+const syncOpenShipments = async (staleAfterMs: number = 0): Promise<number> => {
+  const trackedCouriers = getCouriers()
+    .filter((courier) => courier.reportsTracking)
+    .map((courier) => courier.id);
+
+  const orders = await Order.find({
+    status: "shipped",
+    "shipment.courier": { $in: trackedCouriers },
+    "shipment.lastSyncedAt": { $lte: new Date(Date.now() - staleAfterMs) },
+  });
+
+  let synced = 0;
+  for (const order of orders) {
+    try {
+      await refreshTracking(order);
+      synced++;
+    } catch (error) {
+      console.error(`Tracking sync failed for ${order.orderNumber}:`, error);
+    }
+  }
+
+  return synced;
+};
+
+/**
+ * Start the background tracking sync
+ * Interval is configurable through SHIPMENT_SYNC_INTERVAL_MS
+ */
+const startShipmentTrackingSync = (): void => {
+  if (syncTimer) return;
+
+  const intervalMs = parseInt(
+    process.env.SHIPMENT_SYNC_INTERVAL_MS || "900000",
+  );
+
+  syncTimer = setInterval(async () => {
+    try {
+      await syncOpenShipments(intervalMs);
+    } catch (error) {
+      console.error("Shipment tracking sync failed:", error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sync
+  syncTimer.unref();
+};
+
+/**
+ * Stop the background tracking sync
+ */
+const stopShipmentTrackingSync = (): void => {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+};
+
+export {
+  getCouriers,
+  createShipment,
+  addTrackingEvent,
+  refreshOrderTracking,
+  getOrderTracking,
+  handleCourierWebhook,
+  syncOpenShipments,
+  startShipmentTrackingSync,
+  stopShipmentTrackingSync,
+};
+export type { CreateShipmentData, TrackingEventData, CourierOption };
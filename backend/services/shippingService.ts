@@ -0,0 +1,369 @@
+/**
+ * Shipping Service
+ * Resolves shipping zones for an address, prices shipping rules
+ * and manages zones/rules (Admin)
+ */
+import ShippingZone, {
+  IShippingZone,
+  IShippingRule,
+} from "../models/ShippingZone";
+import Cart from "../models/Cart";
+import AppError from "../utils/AppError";
+
+interface QuoteAddress {
+  district: string;
+  province: number;
+}
+
+interface ShipmentDetails {
+  subtotal: number;
+  weight: number;
+}
+
+export interface ShippingOption {
+  ruleId: string | null;
+  zoneId: string | null;
+  zoneName: string;
+  name: string;
+  rateType: "flat" | "weight";
+  cost: number;
+  isFree: boolean;
+  estimatedDays: {
+    min: number;
+    max: number;
+  };
+}
+
+interface ShippingZoneData {
+  name: string;
+  description?: string;
+  districts?: string[];
+  provinces?: number[];
+  priority?: number;
+  rules?: Partial<IShippingRule>[];
+  isActive?: boolean;
+}
+
+// Orders at or above this subtotal ship free unless a zone says otherwise
+const FREE_SHIPPING_THRESHOLD = 5000;
+
+/**
+ * Used when no zone covers an address so checkout never dead-ends
+ * (e.g. before any zones have been configured)
+ */
+const FALLBACK_OPTION: ShippingOption = {
+  ruleId: null,
+  zoneId: null,
+  zoneName: "Nepal",
+  name: "Standard",
+  rateType: "flat",
+  cost: 200,
+  isFree: false,
+  estimatedDays: { min: 3, max: 7 },
+};
+
+const standardRule = (flatRate: number, minDays: number, maxDays: number) => ({
+  name: "Standard",
+  rateType: "flat" as const,
+  flatRate,
+  freeShippingThreshold: FREE_SHIPPING_THRESHOLD,
+  minDays,
+  maxDays,
+});
+
+/**
+ * The fixed rates checkout charged before zones were configurable
+ */
+const DEFAULT_SHIPPING_ZONES: ShippingZoneData[] = [
+  {
+    name: "Kathmandu Valley",
+    districts: ["Kathmandu", "Lalitpur", "Bhaktapur"],
+    rules: [
+      standardRule(100, 1, 2),
+      {
+        name: "Express",
+        rateType: "flat",
+        flatRate: 250,
+        minDays: 0,
+        maxDays: 1,
+      },
+    ],
+  },
+  { name: "Bagmati", provinces: [3], rules: [standardRule(150, 2, 4)] },
+  { name: "Gandaki", provinces: [4], rules: [standardRule(200, 3, 5)] },
+  {
+    name: "Koshi, Madhesh & Lumbini",
+    provinces: [1, 2, 5],
+    rules: [standardRule(250, 3, 6)],
+  },
+  {
+    name: "Karnali & Sudurpashchim",
+    provinces: [6, 7],
+    rules: [standardRule(300, 5, 8)],
+  },
+  { name: "Rest of Nepal", rules: [standardRule(200, 3, 7)] },
+];
+
+/**
+ * Price a single rule for a shipment
+ */
+const calculateRuleCost = (
+  rule: IShippingRule,
+  { subtotal, weight }: ShipmentDetails,
+): number => {
+  if (
+    rule.freeShippingThreshold != null &&
+    subtotal >= rule.freeShippingThreshold
+  ) {
+    return 0;
+  }
+
+  if (rule.rateType === "weight") {
+    // Every started kilogram above the base weight is charged
+    const extraKg = Math.max(0, Math.ceil(weight - rule.baseWeight));
+    return rule.baseRate + extraKg * rule.perKgRate;
+  }
+
+  return rule.flatRate;
+};
+
+/**
+ * Total shipping weight (kg) of a cart whose items.product is populated
+ */
+const getCartWeight = (cart: any): number =>
+  cart.items.reduce(
+    (sum: number, item: any) =>
+      sum + (item.product?.weight || 0) * item.quantity,
+    0,
+  );
+
+/**
+ * Shipping options available for an address, cheapest first
+ */
+const getShippingOptions = async (
+  address: QuoteAddress,
+  shipment: ShipmentDetails,
+): Promise<ShippingOption[]> => {
+  const zone = await ShippingZone.findForAddress(
+    address.district,
+    Number(address.province),
+  );
+
+  const rules = zone ? zone.rules.filter((rule) => rule.isActive) : [];
+  if (!zone || rules.length === 0) {
+    const cost =
+      shipment.subtotal >= FREE_SHIPPING_THRESHOLD ? 0 : FALLBACK_OPTION.cost;
+    return [{ ...FALLBACK_OPTION, cost, isFree: cost === 0 }];
+  }
+
+  return rules
+    .map((rule) => {
+      const cost = calculateRuleCost(rule, shipment);
+      return {
+        ruleId: rule._id.toString(),
+        zoneId: (zone._id as any).toString(),
+        zoneName: zone.name,
+        name: rule.name,
+        rateType: rule.rateType,
+        cost,
+        isFree: cost === 0,
+        estimatedDays: { min: rule.minDays, max: rule.maxDays },
+      };
+    })
+    .sort((a, b) => a.cost - b.cost);
+};
+
+/**
+ * Resolve the shipping option for an order.
+ * Uses the requested rule when given, otherwise the cheapest option.
+ */
+const calculateShippingCost = async (
+  address: QuoteAddress,
+  shipment: ShipmentDetails,
+  ruleId?: string | null,
+): Promise<ShippingOption> => {
+  const options = await getShippingOptions(address, shipment);
+
+  if (!ruleId) return options[0];
+
+  const selected = options.find((option) => option.ruleId === ruleId);
+  if (!selected) {
+    throw new AppError(
+      "Selected shipping option is not available for this address",
+      400,
+    );
+  }
+  return selected;
+};
+
+/**
+ * Quote shipping for the user's current cart
+ */
+const getQuoteForCart = async (
+  userId: string,
+  address: QuoteAddress,
+): Promise<{ subtotal: number; weight: number; options: ShippingOption[] }> => {
+  const cart = await Cart.findOne({ user: userId }).populate({
+    path: "items.product",
+    select: "price variants weight isActive",
+  });
+
+  if (!cart || (cart as any).items.length === 0) {
+    throw new AppError("Cart is empty", 400);
+  }
+
+  const subtotal = (cart as any).items.reduce((sum: number, item: any) => {
+    const product = item.product;
+    if (!product) return sum;
+    const variant = item.variantId
+      ? product.variants?.id(item.variantId)
+      : null;
+    return sum + (variant ? variant.price : product.price) * item.quantity;
+  }, 0);
+  const weight = getCartWeight(cart);
+
+  const options = await getShippingOptions(address, { subtotal, weight });
+  return { subtotal, weight, options };
+};
+
+/**
+ * Get all shipping zones (Admin)
+ */
+const getShippingZones = async (): Promise<IShippingZone[]> => {
+  return ShippingZone.find().sort({ priority: -1, name: 1 });
+};
+
+/**
+ * Get single shipping zone (Admin)
+ */
+const getShippingZoneById = async (zoneId: string): Promise<IShippingZone> => {
+  const zone = await ShippingZone.findById(zoneId);
+  if (!zone) {
+    throw new AppError("Shipping zone not found", 404);
+  }
+  return zone;
+};
+
+/**
+ * Create shipping zone (Admin)
+ */
+const createShippingZone = async (
+  zoneData: ShippingZoneData,
+): Promise<IShippingZone> => {
+  const existing = await ShippingZone.findOne({ name: zoneData.name });
+  if (existing) {
+    throw new AppError(`Shipping zone '${zoneData.name}' already exists`, 400);
+  }
+
+  const zone = new ShippingZone(zoneData);
+  await zone.save();
+  return zone;
+};
+
+/**
+ * Update shipping zone (Admin)
+ * Rules are managed through the rule endpoints
+ */
+const updateShippingZone = async (
+  zoneId: string,
+  updateData: Partial<ShippingZoneData>,
+): Promise<IShippingZone> => {
+  const zone = await getShippingZoneById(zoneId);
+
+  const { rules: _rules, ...rest } = updateData;
+  Object.assign(zone, rest);
+  await zone.save();
+
+  return zone;
+};
+
+/**
+ * Delete shipping zone (Admin)
+ */
+const deleteShippingZone = async (
+  zoneId: string,
+): Promise<{ message: string }> => {
+  const zone = await getShippingZoneById(zoneId);
+  await zone.deleteOne();
+  return { message: "Shipping zone deleted successfully" };
+};
+
+/**
+ * Add a rule to a zone (Admin)
+ */
+const addShippingRule = async (
+  zoneId: string,
+  ruleData: Partial<IShippingRule>,
+): Promise<IShippingZone> => {
+  const zone = await getShippingZoneById(zoneId);
+  zone.rules.push(ruleData as any);
+  await zone.save();
+  return zone;
+};
+
+/**
+ * Update a rule in a zone (Admin)
+ */
+const updateShippingRule = async (
+  zoneId: string,
+  ruleId: string,
+  updateData: Partial<IShippingRule>,
+): Promise<IShippingZone> => {
+  const zone = await getShippingZoneById(zoneId);
+  const rule = zone.rules.id(ruleId);
+  if (!rule) {
+    throw new AppError("Shipping rule not found", 404);
+  }
+
+  const { _id: _ruleId, ...rest } = updateData;
+  rule.set(rest);
+  await zone.save();
+  return zone;
+};
+
+/**
+ * Remove a rule from a zone (Admin)
+ */
+const deleteShippingRule = async (
+  zoneId: string,
+  ruleId: string,
+): Promise<IShippingZone> => {
+  const zone = await getShippingZoneById(zoneId);
+  const rule = zone.rules.id(ruleId);
+  if (!rule) {
+    throw new AppError("Shipping rule not found", 404);
+  }
+
+  rule.deleteOne();
+  await zone.save();
+  return zone;
+};
+
+/**
+ * Create the default zones on a database that has none yet.
+ * Configured zones are left alone, so this is safe to run on a live store.
+ * Returns the number of zones created
+ */
+const seedDefaultShippingZones = async (): Promise<number> => {
+  if (await ShippingZone.exists({})) return 0;
+
+  const zones = await ShippingZone.insertMany(DEFAULT_SHIPPING_ZONES);
+  return zones.length;
+};
+
+export {
+  calculateRuleCost,
+  getCartWeight,
+  getShippingOptions,
+  calculateShippingCost,
+  getQuoteForCart,
+  getShippingZones,
+  getShippingZoneById,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone,
+  addShippingRule,
+  updateShippingRule,
+  deleteShippingRule,
+  seedDefaultShippingZones,
+};
@@ -0,0 +1,314 @@
+/**
+ * Tax Service
+ * Nepal VAT: works out each product's tax class, splits the VAT across
+ * order lines and builds the VAT sales register
+ */
+import { Types } from "mongoose";
+import Category from "../models/Category";
+import Order from "../models/Order";
+import ReturnRequest from "../models/ReturnRequest";
+import { TaxClass } from "../utils/constants";
+import {
+  getFiscalYear,
+  getFiscalYearRange,
+  toCsv,
+  toStoreDate,
+} from "../utils/helpers";
+
+interface TaxSettings {
+  // Registered for VAT; when false no VAT is charged at all
+  enabled: boolean;
+  // Standard VAT rate in percent
+  rate: number;
+  // Shelf prices already include VAT (true) or VAT is added at checkout (false)
+  pricesIncludeTax: boolean;
+}
+
+interface TaxableLine {
+  subtotal: number;
+  taxClass: TaxClass;
+}
+
+interface LineTax {
+  taxClass: TaxClass;
+  taxRate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+interface OrderTax {
+  lines: LineTax[];
+  tax: number;
+  pricesIncludeTax: boolean;
+}
+
+interface TaxedProduct {
+  _id: Types.ObjectId;
+  taxClass?: TaxClass | null;
+  category: Types.ObjectId | { _id: Types.ObjectId };
+}
+
+interface VatRegisterRow {
+  date: Date;
+  invoiceNumber: string | null;
+  orderNumber: string;
+  buyer: string;
+  totalSales: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  taxableAmount: number;
+  vat: number;
+}
+
+interface VatRegister {
+  fiscalYear: string;
+  from: Date;
+  to: Date;
+  rows: VatRegisterRow[];
+  totals: Omit<
+    VatRegisterRow,
+    "date" | "invoiceNumber" | "orderNumber" | "buyer"
+  >;
+}
+
+// Orders that count as sales; pending orders may still be abandoned
+const SALE_STATUSES = ["confirmed", "processing", "shipped", "delivered"];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const getTaxSettings = (): TaxSettings => ({
+  enabled: process.env.VAT_ENABLED === "true",
+  rate: parseFloat(process.env.VAT_RATE || "13"),
+  pricesIncludeTax: process.env.PRICES_INCLUDE_VAT !== "false",
+});
+
+/**
+ * Tax class per product id: the product's own, else its category's,
+ * else the nearest parent category's, else standard
+ */
+const resolveTaxClasses = async (
+  products: TaxedProduct[],
+): Promise<Map<string, TaxClass>> => {
+  const categories = new Map<
+    string,
+    { taxClass: TaxClass | null; parent: Types.ObjectId | null }
+  >();
+  const categoryId = (product: TaxedProduct) =>
+    ("_id" in product.category
+      ? product.category._id
+      : product.category
+    ).toString();
+
+  let pending = products.filter((product) => !product.taxClass).map(categoryId);
+  while (pending.length) {
+    const found = await Category.find({ _id: { $in: pending } })
+      .select("taxClass parent")
+      .lean();
+    found.forEach((category) =>
+      categories.set(category._id.toString(), {
+        taxClass: category.taxClass ?? null,
+        parent: (category.parent as Types.ObjectId | null) ?? null,
+      }),
+    );
+    pending = found
+      .filter((category) => !category.taxClass && category.parent)
+      .map((category) => (category.parent as Types.ObjectId).toString())
+      .filter((id) => !categories.has(id));
+  }
+
+  const classes = new Map<string, TaxClass>();
+  products.forEach((product) => {
+    let taxClass = product.taxClass || null;
+    let current = categories.get(categoryId(product));
+    while (!taxClass && current) {
+      taxClass = current.taxClass;
+      current = current.parent
+        ? categories.get(current.parent.toString())
+        : undefined;
+    }
+    classes.set(product._id.toString(), taxClass || "standard");
+  });
+  return classes;
+};
+
+/**
+ * VAT for an order's lines, with the discount shared across lines by value
+ * Delivery charges carry no VAT here
+ */
+const calculateOrderTax = (
+  lines: TaxableLine[],
+  discount: number = 0,
+  settings: TaxSettings = getTaxSettings(),
+): OrderTax => {
+  const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+  let discountLeft = discount;
+
+  const taxed = lines.map((line, index) => {
+    // The last line takes the rounding remainder so shares add up exactly
+    const share =
+      index === lines.length - 1
+        ? discountLeft
+        : subtotal
+          ? roundAmount((discount * line.subtotal) / subtotal)
+          : 0;
+    discountLeft = roundAmount(discountLeft - share);
+
+    const net = line.subtotal - share;
+    const taxRate =
+      settings.enabled && line.taxClass === "standard" ? settings.rate : 0;
+    const taxableAmount = roundAmount(
+      settings.pricesIncludeTax ? net / (1 + taxRate / 100) : net,
+    );
+    const tax = roundAmount(
+      settings.pricesIncludeTax ? net - taxableAmount : net * (taxRate / 100),
+    );
+
+    return { taxClass: line.taxClass, taxRate, taxableAmount, tax };
+  });
+
+  return {
+    lines: taxed,
+    tax: roundAmount(taxed.reduce((sum, line) => sum + line.tax, 0)),
+    pricesIncludeTax: settings.pricesIncludeTax,
+  };
+};
+
+/**
+ * Sales for one fiscal year, one row per order, split the way the
+ * IRD sales register (bikri khata) asks for
+ * Orders are dated by their invoice once one is issued; no-charge
+ * replacements are left out and refunded returns are netted off
+ */
+const getVatRegister = async (
+  fiscalYear: string = getFiscalYear(),
+): Promise<VatRegister> => {
+  const { from, to } = getFiscalYearRange(fiscalYear);
+  const orders = await Order.find({
+    status: { $in: SALE_STATUSES },
+    replacementFor: null,
+    $or: [
+      { "invoice.issuedAt": { $gte: from, $lt: to } },
+      { invoice: null, createdAt: { $gte: from, $lt: to } },
+    ],
+  })
+    .select("orderNumber invoice items pricing shippingAddress createdAt")
+    .lean();
+
+  // Units sent back and refunded, per order line
+  const returned = new Map<string, number>();
+  const returns = await ReturnRequest.find({
+    order: { $in: orders.map((order) => order._id) },
+    status: "completed",
+    "resolution.type": "refund",
+  })
+    .select("items")
+    .lean();
+  returns.forEach((returnRequest) =>
+    returnRequest.items.forEach((item) => {
+      const key = item.orderItem.toString();
+      returned.set(
+        key,
+        (returned.get(key) || 0) + (item.acceptedQuantity || 0),
+      );
+    }),
+  );
+
+  const saleDate = (order: (typeof orders)[number]): Date =>
+    order.invoice?.issuedAt || order.createdAt;
+
+  const rows: VatRegisterRow[] = orders.map((order) => {
+    const split = { exempt: 0, zero_rated: 0, standard: 0 };
+    let vat = 0;
+    const { subtotal, discount } = order.pricing;
+    order.items.forEach((item: any) => {
+      const kept = item.quantity
+        ? Math.max(
+            item.quantity - (returned.get(item._id.toString()) || 0),
+            0,
+          ) / item.quantity
+        : 0;
+      // Orders from before VAT was tracked have no taxable amount on their lines,
+      // so take their share of the order's discount off the line subtotal
+      const taxableAmount =
+        item.taxableAmount ??
+        (subtotal > 0
+          ? (item.subtotal * (subtotal - (discount || 0))) / subtotal
+          : item.subtotal);
+      split[(item.taxClass as TaxClass) || "standard"] += taxableAmount * kept;
+      vat += (item.tax || 0) * kept;
+    });
+
+    return {
+      date: saleDate(order),
+      invoiceNumber: order.invoice?.number || null,
+      orderNumber: order.orderNumber,
+      buyer: order.shippingAddress.name,
+      totalSales: roundAmount(
+        split.exempt + split.zero_rated + split.standard + vat,
+      ),
+      exemptSales: roundAmount(split.exempt),
+      zeroRatedSales: roundAmount(split.zero_rated),
+      taxableAmount: roundAmount(split.standard),
+      vat: roundAmount(vat),
+    };
+  });
+  rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const sum = (key: keyof VatRegister["totals"]) =>
+    roundAmount(rows.reduce((total, row) => total + row[key], 0));
+
+  return {
+    fiscalYear,
+    from,
+    to,
+    rows,
+    totals: {
+      totalSales: sum("totalSales"),
+      exemptSales: sum("exemptSales"),
+      zeroRatedSales: sum("zeroRatedSales"),
+      taxableAmount: sum("taxableAmount"),
+      vat: sum("vat"),
+    },
+  };
+};
+
+/**
+ * The register's rows as a CSV
+ */
+const getVatRegisterCsv = async (fiscalYear?: string): Promise<string> => {
+  const { rows } = await getVatRegister(fiscalYear);
+
+  return toCsv(
+    [
+      "Date",
+      "Invoice No",
+      "Order No",
+      "Buyer",
+      "Total Sales",
+      "Exempt Sales",
+      "Zero-rated Sales",
+      "Taxable Amount",
+      "VAT",
+    ],
+    rows.map((row) => [
+      toStoreDate(row.date),
+      row.invoiceNumber,
+      row.orderNumber,
+      row.buyer,
+      row.totalSales,
+      row.exemptSales,
+      row.zeroRatedSales,
+      row.taxableAmount,
+      row.vat,
+    ]),
+  );
+};
+
+export {
+  getTaxSettings,
+  resolveTaxClasses,
+  calculateOrderTax,
+  getVatRegister,
+  getVatRegisterCsv,
+};
+export type { TaxSettings, OrderTax, VatRegister };
@@ -0,0 +1,62 @@
+import User from '../models/User';
+import {
+  addAddress,
+  deleteAddress,
+  setDefaultAddress,
+  getShippingAddress,
+} from '../services/addressService';
+
+describe('Address Book Test', () => {
+  const address = {
+    name: 'Bimala',
+    phone: '9841234567',
+    street: 'Jhamsikhel',
+    city: 'Lalitpur',
+    district: 'Lalitpur',
+    province: 3,
+  };
+
+  const createUser = () =>
+    User.create({ name: 'Bimala', email: 'bimala@bivan.com', password: 'password123' });
+
+  it('should make the first address the default and keep a single default', async () => {
+    const user = await createUser();
+    const userId = user._id.toString();
+
+    let addresses = await addAddress(userId, address);
+    expect(addresses[0].isDefault).toBe(true);
+
+    addresses = await addAddress(userId, { ...address, street: 'Baneshwor', isDefault: true });
+    expect(addresses.filter((a) => a.isDefault)).toHaveLength(1);
+    expect(addresses[0].street).toBe('Baneshwor');
+
+    addresses = await setDefaultAddress(userId, addresses[1]._id.toString());
+    expect(addresses[0].street).toBe('Jhamsikhel');
+  });
+
+  it('should promote another address when the default is deleted', async () => {
+    const user = await createUser();
+    const userId = user._id.toString();
+
+    await addAddress(userId, address);
+    const addresses = await addAddress(userId, { ...address, street: 'Baneshwor' });
+
+    const remaining = await deleteAddress(userId, addresses[0]._id.toString());
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].isDefault).toBe(true);
+  });
+
+  it('should reject provinces outside 1-7', async () => {
+    const user = await createUser();
+
+    await expect(addAddress(user._id.toString(), { ...address, province: 9 })).rejects.toThrow();
+  });
+
+  it('should snapshot a saved address for an order', async () => {
+    const user = await createUser();
+    const [saved] = await addAddress(user._id.toString(), address);
+
+    const shipping = await getShippingAddress(user._id.toString(), saved._id.toString());
+    expect(shipping).toMatchObject({ district: 'Lalitpur', province: 3 });
+  });
+});
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import Category from '../models/Category';
+import Product from '../models/Product';
+import {
+  createAttribute,
+  deleteAttribute,
+  getCategoryAttributes,
+  updateAttribute,
+} from '../services/attributeService';
+import { createProduct, updateProduct } from '../services/productService';
+
+describe('Product Attribute Test', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const base = { description: 'Made in Nepal', price: 1200 };
+  const plain = (options: { name: string; value: string }[]) => options.map(({ name, value }) => ({ name, value }));
+
+  const createCraftCategories = async () => {
+    const material = await createAttribute({ name: 'Material', type: 'select', values: ['Felt', 'Wool'] }, adminId);
+    const capacity = await createAttribute({ name: 'Capacity', type: 'number', unit: 'ml' }, adminId);
+    const crafts = await Category.create({ name: 'Crafts', attributes: [material._id] });
+    const bowls = await Category.create({ name: 'Bowls', parent: crafts._id, attributes: [capacity._id] });
+    return { material, capacity, crafts, bowls };
+  };
+
+  it('should keep size and colour variants working in categories without attributes', async () => {
+    const category = await Category.create({ name: 'Clothing' });
+
+    const product = await createProduct({
+      ...base,
+      name: 'Hemp Jacket',
+      category: category._id.toString(),
+      variants: [
+        { size: 'Medium Size (1-4 yrs)', color: 'Brown', price: 1200, stock: 2 },
+        { size: 'Adult M', color: 'Olive', price: 1500, stock: 1 },
+      ],
+    });
+
+    expect(plain(product.variants[0].options)).toEqual([
+      { name: 'Size', value: 'Medium Size (1-4 yrs)' },
+      { name: 'Color', value: 'Brown' },
+    ]);
+    // Sizes are no longer limited to the children's sizes
+    expect(product.variants[1].size).toBe('Adult M');
+  });
+
+  it('should carry a size or colour edit over to the options', async () => {
+    const category = await Category.create({ name: 'Knitwear' });
+    const product = await createProduct({
+      ...base,
+      name: 'Wool Scarf',
+      category: category._id.toString(),
+      variants: [{ size: 'Adult M', color: 'Grey', price: 1200, stock: 2 }],
+    });
+
+    const saved = (await Product.findById(product._id))!;
+    saved.variants[0].size = 'Adult L';
+    saved.variants[0].color = '';
+    await saved.save();
+
+    const reloaded = await Product.findById(product._id);
+    expect(reloaded!.variants[0].size).toBe('Adult L');
+    expect(plain(reloaded!.variants[0].options)).toEqual([{ name: 'Size', value: 'Adult L' }]);
+  });
+
+  it('should reject a variant whose size and options disagree', async () => {
+    const category = await Category.create({ name: 'Outerwear' });
+    const product = await createProduct({
+      ...base,
+      name: 'Yak Wool Shawl',
+      category: category._id.toString(),
+      variants: [{ size: 'Adult M', color: 'Grey', price: 1200, stock: 2 }],
+    });
+    const [variant] = product.variants.map((v: any) => v.toObject());
+
+    await expect(
+      updateProduct(product._id.toString(), { variants: [{ ...variant, size: 'Adult L' }] }),
+    ).rejects.toThrow("Size 'Adult L' does not match the variant's Size option 'Adult M'");
+  });
+
+  it('should check variant options against the category and its parents', async () => {
+    const { bowls } = await createCraftCategories();
+
+    expect((await getCategoryAttributes(bowls._id)).map((attribute) => attribute.name)).toEqual(['Material', 'Capacity']);
+
+    const product = await createProduct({
+      ...base,
+      name: 'Singing Bowl',
+      category: bowls._id.toString(),
+      variants: [
+        { options: [{ name: 'material', value: 'felt' }, { name: 'Capacity', value: '500' }], price: 1200, stock: 3 },
+        { options: [{ name: 'Material', value: 'Wool' }, { name: 'Capacity', value: '500' }], price: 1300, stock: 1 },
+      ],
+    });
+    // Names and select values take the attribute's spelling
+    expect(plain(product.variants[0].options)).toEqual([
+      { name: 'Material', value: 'Felt' },
+      { name: 'Capacity', value: '500' },
+    ]);
+    expect(product.variants[0].size).toBe('');
+
+    const variant = (options: { name: string; value: string }[]) => ({ options, price: 1200, stock: 1 });
+    const attempt = (variants: any[]) => createProduct({ ...base, name: 'Bowl', category: bowls._id.toString(), variants });
+
+    await expect(attempt([variant([{ name: 'Material', value: 'Felt' }])])).rejects.toThrow('Every variant needs a Capacity');
+    await expect(attempt([variant([{ name: 'Material', value: 'Brass' }, { name: 'Capacity', value: '500' }])])).rejects.toThrow(
+      'Material must be one of: Felt, Wool',
+    );
+    await expect(attempt([variant([{ name: 'Material', value: 'Felt' }, { name: 'Capacity', value: 'large' }])])).rejects.toThrow(
+      'Capacity must be a number',
+    );
+    await expect(attempt([{ size: 'One Size', color: 'Gold', price: 1200, stock: 1 }])).rejects.toThrow(
+      "'Size' is not an attribute of this category",
+    );
+    await expect(
+      attempt([
+        variant([{ name: 'Material', value: 'Felt' }, { name: 'Capacity', value: '250' }]),
+        variant([{ name: 'Material', value: 'felt' }, { name: 'Capacity', value: '250' }]),
+      ]),
+    ).rejects.toThrow('Two variants have the same options (Felt / 250)');
+  });
+
+  it('should carry renames over to variants and keep attributes in use', async () => {
+    const { material, crafts, bowls } = await createCraftCategories();
+    const product = await createProduct({
+      ...base,
+      name: 'Felt Elephant',
+      category: crafts._id.toString(),
+      variants: [{ options: [{ name: 'Material', value: 'Felt' }], price: 900, stock: 4 }],
+    });
+
+    await updateAttribute(material._id.toString(), { name: 'Fabric' });
+    const renamed = await Product.findById(product._id);
+    expect(plain(renamed!.variants[0].options)).toEqual([{ name: 'Fabric', value: 'Felt' }]);
+
+    // Moving the product checks it against the new category's attributes
+    await expect(updateProduct(product._id.toString(), { category: bowls._id.toString() })).rejects.toThrow(
+      'Every variant needs a Capacity',
+    );
+
+    await expect(deleteAttribute(material._id.toString())).rejects.toThrow('used by 1 category');
+    await expect(createAttribute({ name: 'fabric', type: 'text' }, adminId)).rejects.toThrow("Attribute 'Fabric' already exists");
+  });
+});
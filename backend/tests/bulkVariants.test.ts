@@ -0,0 +1,103 @@
+import Category from '../models/Category';
+import Product from '../models/Product';
+import { createProduct, patchVariants } from '../services/productService';
+
+describe('Bulk Variant Edit Test', () => {
+  const createJacket = async (name: string, skus: string[]) => {
+    const category = await Category.create({ name: `${name} Category` });
+    return createProduct({
+      name,
+      description: 'Made in Nepal',
+      price: 1200,
+      category: category._id.toString(),
+      variants: skus.map((sku, i) => ({ size: 'One Size', color: `Colour ${i}`, sku, price: 1200, stock: 1 })),
+    });
+  };
+
+  it('should patch the rows sent, add new ones and leave the rest alone', async () => {
+    const product = await createJacket('Hemp Jacket', ['HJ-RED', 'HJ-BLUE']);
+    const [red, blue] = product.variants;
+
+    const updated = await patchVariants(product._id.toString(), [
+      { _id: red._id.toString(), price: 1500, stock: 8 },
+      { size: 'Adult M', color: 'Olive', sku: ' hj-olive ', price: 1500, stock: 2 },
+    ]);
+
+    expect(updated.variants).toHaveLength(3);
+    expect(updated.variants[0].price).toBe(1500);
+    expect(updated.variants[0].stock).toBe(8);
+    expect(updated.variants[0].sku).toBe('HJ-RED');
+    expect(updated.variants[1].price).toBe(blue.price);
+    expect(updated.variants[2].sku).toBe('HJ-OLIVE');
+    expect(updated.variants[2].options.map((o) => o.value)).toEqual(['Adult M', 'Olive']);
+  });
+
+  it('should keep stock taken by a checkout while the edit was in progress', async () => {
+    const product = await createJacket('Cotton Jacket', ['CJ-RED', 'CJ-BLUE']);
+    const [red, blue] = product.variants;
+    const id = product._id.toString();
+
+    // A checkout takes the last red jacket just after the edit has loaded the product
+    const findById = Product.findById.bind(Product);
+    jest.spyOn(Product, 'findById').mockImplementationOnce(((productId: string) =>
+      findById(productId).then(async (loaded) => {
+        await Product.decrementStock(productId, red._id, 1);
+        return loaded;
+      })) as any);
+
+    const updated = await patchVariants(id, [
+      { _id: red._id.toString(), price: 1500 },
+      { _id: blue._id.toString(), stock: 6 },
+    ]);
+    jest.restoreAllMocks();
+
+    expect(updated.variants.map((v) => [v.price, v.stock])).toEqual([[1500, 0], [1200, 6]]);
+  });
+
+  it('should rebuild the options of a variant given a new size', async () => {
+    const product = await createJacket('Wool Jacket', ['WJ-0']);
+
+    const updated = await patchVariants(product._id.toString(), [{ _id: product.variants[0]._id.toString(), size: 'Adult L' }]);
+
+    expect(updated.variants[0].size).toBe('Adult L');
+    expect(updated.variants[0].options.map((o) => o.value)).toEqual(['Adult L', 'Colour 0']);
+  });
+
+  it('should rebuild the size and colour of a variant given new options', async () => {
+    const product = await createJacket('Linen Jacket', ['LJ-0']);
+
+    const updated = await patchVariants(product._id.toString(), [
+      {
+        _id: product.variants[0]._id.toString(),
+        options: [{ name: 'Size', value: 'Adult S' }, { name: 'Color', value: 'Sand' }],
+      },
+    ]);
+
+    expect(updated.variants[0].size).toBe('Adult S');
+    expect(updated.variants[0].color).toBe('Sand');
+  });
+
+  it('should reject SKUs already taken, in this product or another', async () => {
+    const product = await createJacket('Felt Jacket', ['FJ-1', 'FJ-2']);
+    await createJacket('Yak Jacket', ['YJ-1']);
+    const [first] = product.variants;
+    const id = product._id.toString();
+
+    await expect(
+      patchVariants(id, [
+        { size: 'Adult S', color: 'Grey', sku: 'FJ-NEW', price: 1200 },
+        { size: 'Adult M', color: 'Grey', sku: 'fj-new', price: 1200 },
+      ]),
+    ).rejects.toThrow("SKU 'FJ-NEW' is used by more than one variant");
+    await expect(patchVariants(id, [{ _id: first._id.toString(), sku: 'FJ-2' }])).rejects.toThrow(
+      "SKU 'FJ-2' is used by more than one variant",
+    );
+    await expect(patchVariants(id, [{ _id: first._id.toString(), sku: 'yj-1' }])).rejects.toThrow(
+      "SKU 'YJ-1' is already used by Yak Jacket",
+    );
+
+    // A rejected edit changes nothing
+    const unchanged = await Product.findById(id);
+    expect(unchanged!.variants.map((v) => v.sku)).toEqual(['FJ-1', 'FJ-2']);
+  });
+});
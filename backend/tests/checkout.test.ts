@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import Cart from '../models/Cart';
+import Order from '../models/Order';
+import Product from '../models/Product';
+import AppError from '../utils/AppError';
+import { createOrder } from '../services/orderService';
+
+describe('Checkout Test', () => {
+  const shippingAddress = {
+    name: 'Bimala',
+    phone: '9841234567',
+    street: 'Jhamsikhel',
+    city: 'Lalitpur',
+    district: 'Lalitpur',
+    province: 3,
+  };
+
+  const createProduct = (name: string, stock: number) =>
+    Product.create({
+      name,
+      description: 'Handmade in Nepal',
+      price: 500,
+      category: new mongoose.Types.ObjectId(),
+      stock,
+      variants: [{ size: 'Medium Size (1-4 yrs)', color: 'Red', price: 600, stock }],
+    });
+
+  const createCart = (items: { product: mongoose.Types.ObjectId; variantId?: mongoose.Types.ObjectId; quantity: number }[]) => {
+    const user = new mongoose.Types.ObjectId();
+    return Cart.create({ user, items }).then(() => user.toString());
+  };
+
+  it('should never sell more than the stock under concurrent checkouts', async () => {
+    const product = await createProduct('Dhaka Topi', 3);
+    const productId = product._id as mongoose.Types.ObjectId;
+    const variantId = product.variants[0]._id;
+
+    const users = await Promise.all(
+      Array.from({ length: 8 }, () => createCart([{ product: productId, variantId, quantity: 1 }])),
+    );
+
+    const results = await Promise.allSettled(
+      users.map((userId) => createOrder(userId, { shippingAddress, paymentMethod: 'cod' })),
+    );
+
+    const placed = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+
+    expect(placed).toHaveLength(3);
+    expect(rejected).toHaveLength(5);
+    rejected.forEach((r) => expect((r.reason as AppError).statusCode).toBe(409));
+
+    const reloaded = await Product.findById(productId);
+    expect(reloaded!.variants[0].stock).toBe(0);
+    expect(reloaded!.soldCount).toBe(3);
+    expect(await Order.countDocuments()).toBe(3);
+  });
+
+  it('should roll back earlier lines and list every short line', async () => {
+    const topi = await createProduct('Dhaka Topi', 5);
+    const shawl = await createProduct('Pashmina Shawl', 1);
+    const bag = await createProduct('Allo Bag', 0);
+
+    const userId = await createCart([
+      { product: topi._id as mongoose.Types.ObjectId, quantity: 2 },
+      { product: shawl._id as mongoose.Types.ObjectId, variantId: shawl.variants[0]._id, quantity: 3 },
+      { product: bag._id as mongoose.Types.ObjectId, quantity: 1 },
+    ]);
+
+    const error = (await createOrder(userId, { shippingAddress, paymentMethod: 'esewa' }).catch((e) => e)) as AppError;
+
+    expect(error.statusCode).toBe(409);
+    expect(error.details).toEqual([
+      expect.objectContaining({ name: 'Pashmina Shawl', variant: { size: 'Medium Size (1-4 yrs)', color: 'Red' }, requested: 3, available: 1 }),
+      expect.objectContaining({ name: 'Allo Bag', variantId: null, requested: 1, available: 0 }),
+    ]);
+
+    // The first line was decremented before the failure and must be restored
+    expect((await Product.findById(topi._id))!.stock).toBe(5);
+    expect((await Product.findById(shawl._id))!.variants[0].stock).toBe(1);
+    expect(await Order.countDocuments()).toBe(0);
+  });
+});
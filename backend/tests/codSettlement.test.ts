@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import PaymentDiscrepancy from '../models/PaymentDiscrepancy';
+import { PaymentService } from '../services/payment';
+import {
+  createRemittance,
+  receiveRemittance,
+  resolveRemittance,
+  getCodReport,
+  getCodReportCsv,
+} from '../services/codSettlementService';
+import { getOutstandingCod } from '../services/financeService';
+
+describe('COD Settlement Test', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  // A delivered COD order with its payment attempt, as checkout leaves it
+  const placeCodOrder = async (total: number) => {
+    const order = await Order.create({
+      user: new mongoose.Types.ObjectId(),
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Singing Bowl', price: total, quantity: 1, subtotal: total }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'cod', status: 'pending' },
+      pricing: { subtotal: total, total },
+    });
+    await PaymentService.initiatePayment(order._id.toString(), 'cod', { name: 'Bimala', email: 'bimala@example.com' });
+    return order._id.toString();
+  };
+
+  it('should record who collected the cash and flag a short collection', async () => {
+    const orderId = await placeCodOrder(2500);
+
+    await PaymentService.markCODCollected(orderId, adminId, { collectedBy: 'Ramesh (Pathao)', amount: 2000 });
+
+    const payment = await Payment.findOne({ order: orderId, gateway: 'cod' });
+    expect(payment!.status).toBe('completed');
+    expect(payment!.codCollection).toMatchObject({ collectedBy: 'Ramesh (Pathao)', amount: 2000 });
+    expect((await Order.findById(orderId))!.payment.status).toBe('paid');
+
+    const discrepancy = await PaymentDiscrepancy.findOne({ payment: payment!._id });
+    expect(discrepancy).toMatchObject({ type: 'amount_mismatch', expectedAmount: 2500, gatewayAmount: 2000 });
+
+    await expect(PaymentService.markCODCollected(orderId, adminId, { collectedBy: 'Ramesh (Pathao)' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should collect the cash for an order the courier has already delivered', async () => {
+    const orderId = await placeCodOrder(1800);
+    await Order.updateOne({ _id: orderId }, { status: 'shipped' });
+    await (await Order.findById(orderId))!.updateOrderStatus('delivered', null, 'Delivered by courier');
+
+    expect(await getOutstandingCod()).toMatchObject({ uncollected: 1800, uncollectedOrders: 1 });
+
+    await PaymentService.markCODCollected(orderId, adminId, { collectedBy: 'Ramesh (Pathao)' });
+
+    const payment = await Payment.findOne({ order: orderId, gateway: 'cod' });
+    expect(payment!.codCollection).toMatchObject({ collectedBy: 'Ramesh (Pathao)', amount: 1800 });
+    expect(await getOutstandingCod()).toEqual({ uncollected: 0, uncollectedOrders: 0, withCollectors: 1800 });
+    expect((await createRemittance('Ramesh (Pathao)', adminId)).expectedAmount).toBe(1800);
+  });
+
+  it('should batch a collector\'s cash once and settle it on receipt', async () => {
+    const first = await placeCodOrder(1000);
+    const second = await placeCodOrder(1500);
+    const other = await placeCodOrder(700);
+    await PaymentService.markCODCollected(first, adminId, { collectedBy: 'Sita' });
+    await PaymentService.markCODCollected(second, adminId, { collectedBy: 'Sita' });
+    await PaymentService.markCODCollected(other, adminId, { collectedBy: 'Hari' });
+
+    const remittance = await createRemittance('Sita', adminId);
+    expect(remittance.payments).toHaveLength(2);
+    expect(remittance.expectedAmount).toBe(2500);
+
+    await expect(createRemittance('Sita', adminId)).rejects.toMatchObject({ statusCode: 400 });
+
+    const received = await receiveRemittance(remittance._id.toString(), adminId, { receivedAmount: 2500, reference: 'DEP-1' });
+    expect(received.status).toBe('settled');
+    await expect(receiveRemittance(remittance._id.toString(), adminId, { receivedAmount: 2500 }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should flag a short remittance until it is resolved', async () => {
+    const orderId = await placeCodOrder(3000);
+    await PaymentService.markCODCollected(orderId, adminId, { collectedBy: 'Gopal' });
+
+    const remittance = await createRemittance('Gopal', adminId);
+    const received = await receiveRemittance(remittance._id.toString(), adminId, { receivedAmount: 2800 });
+    expect(received.status).toBe('discrepancy');
+
+    const { summary } = await getCodReport({ collector: 'Gopal' });
+    expect(summary).toEqual([expect.objectContaining({ collector: 'Gopal', remittedAmount: 3000, discrepancyAmount: -200 })]);
+
+    const resolved = await resolveRemittance(remittance._id.toString(), adminId, 'Rider paid the rest in cash');
+    expect(resolved.status).toBe('settled');
+  });
+
+  it('should report unbatched cash per collector and export it as CSV', async () => {
+    const orderId = await placeCodOrder(1800);
+    await PaymentService.markCODCollected(orderId, adminId, { collectedBy: 'Krishna, Nepal Can Move' });
+
+    const { summary, totals } = await getCodReport({ collector: 'Krishna, Nepal Can Move' });
+    expect(summary[0]).toMatchObject({ collections: 1, collectedAmount: 1800, unbatchedAmount: 1800, pendingAmount: 0 });
+    expect(totals.unbatchedAmount).toBe(1800);
+
+    const csv = await getCodReportCsv({ collector: 'Krishna, Nepal Can Move' });
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('Order,Collected By,Collected At,Amount Due,Amount Collected,Difference,Remittance,Remittance Status');
+    expect(row).toContain('"Krishna, Nepal Can Move"');
+    expect(row).toMatch(/,1800,1800,0,,unbatched$/);
+  });
+});
@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import Coupon from '../models/Coupon';
+import { getCoupons, validateCoupon } from '../services/couponService';
+
+describe('Coupon Test', () => {
+  const productId = new mongoose.Types.ObjectId();
+  const categoryId = new mongoose.Types.ObjectId();
+  const userId = new mongoose.Types.ObjectId();
+
+  it('should cap percentage discounts at maxDiscount', async () => {
+    const coupon = await Coupon.create({
+      code: 'dashain20',
+      type: 'percentage',
+      value: 20,
+      maxDiscount: 500,
+    });
+
+    expect(coupon.code).toBe('DASHAIN20');
+    expect(coupon.calculateDiscount(1000)).toBe(200);
+    expect(coupon.calculateDiscount(5000)).toBe(500);
+  });
+
+  it('should never discount more than the eligible subtotal', async () => {
+    const coupon = await Coupon.create({ code: 'FLAT300', type: 'fixed', value: 300 });
+
+    expect(coupon.calculateDiscount(250)).toBe(250);
+  });
+
+  it('should only discount lines in scope', async () => {
+    await Coupon.create({
+      code: 'TOYS10',
+      type: 'percentage',
+      value: 10,
+      applicableCategories: [categoryId],
+    });
+
+    const { discount, eligibleSubtotal } = await validateCoupon(
+      'toys10',
+      userId,
+      [
+        { product: productId, category: categoryId, subtotal: 1000 },
+        { product: new mongoose.Types.ObjectId(), category: null, subtotal: 2000 },
+      ],
+      3000,
+    );
+
+    expect(eligibleSubtotal).toBe(1000);
+    expect(discount).toBe(100);
+  });
+
+  it('should reject codes below the minimum subtotal or outside the validity window', async () => {
+    await Coupon.create({ code: 'MIN2000', type: 'fixed', value: 100, minSubtotal: 2000 });
+    await Coupon.create({
+      code: 'TIHAR',
+      type: 'fixed',
+      value: 100,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    const lines = [{ product: productId, subtotal: 1500 }];
+    await expect(validateCoupon('MIN2000', userId, lines, 1500)).rejects.toThrow('minimum order');
+    await expect(validateCoupon('TIHAR', userId, lines, 1500)).rejects.toThrow('expired');
+  });
+
+  it('should not redeem past the global usage limit', async () => {
+    const coupon = await Coupon.create({ code: 'ONCE', type: 'fixed', value: 50, usageLimit: 1 });
+
+    expect(await Coupon.redeem(coupon._id as any)).not.toBeNull();
+    expect(await Coupon.redeem(coupon._id as any)).toBeNull();
+
+    await Coupon.release(coupon._id as any);
+    const reloaded = await Coupon.findById(coupon._id);
+    expect(reloaded!.usedCount).toBe(0);
+  });
+
+  it('should match admin searches literally', async () => {
+    await Coupon.create({ code: 'NEW.YEAR', type: 'fixed', value: 100 });
+    await Coupon.create({ code: 'NEWXYEAR', type: 'fixed', value: 100 });
+
+    const { coupons } = await getCoupons({ search: 'new.year' });
+    expect(coupons.map((c) => c.code)).toEqual(['NEW.YEAR']);
+    await expect(getCoupons({ search: '(a+)+$' })).resolves.toMatchObject({ coupons: [] });
+  });
+});
@@ -0,0 +1,134 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import { NcmCourier } from '../services/courier';
+import {
+  createShipment,
+  addTrackingEvent,
+  handleCourierWebhook,
+  syncOpenShipments,
+} from '../services/shipmentService';
+import { createNcmStandIn } from '../scripts/ncmStandIn';
+
+describe('Courier Test', () => {
+  let server: Server;
+  let webhooks: Server;
+  let baseUrl: string;
+  let lastWebhook: { body: any; headers: any } | null = null;
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  const advance = (orderId: string, status?: string) => axios.post(`${baseUrl}/orders/${orderId}/advance`, { status });
+
+  const placeProcessingOrder = (method: 'cod' | 'esewa' = 'cod') =>
+    Order.create({
+      user: new mongoose.Types.ObjectId(),
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Singing Bowl', price: 3200, quantity: 1, subtotal: 3200 }],
+      shippingAddress: { name: 'Sabin', phone: '9801234567', street: 'Lakeside', city: 'Pokhara', district: 'Kaski', province: 4 },
+      payment: { method, status: method === 'cod' ? 'pending' : 'paid' },
+      pricing: { subtotal: 3200, total: 3200 },
+      status: 'processing',
+    });
+
+  beforeAll(async () => {
+    const sink = express();
+    sink.use(express.json());
+    sink.post('/webhook', (req, res) => {
+      lastWebhook = { body: req.body, headers: req.headers };
+      res.json({ received: true });
+    });
+    webhooks = sink.listen(0);
+    await new Promise((resolve) => webhooks.once('listening', resolve));
+
+    server = createNcmStandIn({
+      webhookSecret: 'ncm-test-secret',
+      webhookUrl: `http://127.0.0.1:${(webhooks.address() as AddressInfo).port}/webhook`,
+    }).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.NCM_API_BASE = `${baseUrl}/api/v1`;
+    process.env.NCM_API_TOKEN = 'ncm-test-token';
+    process.env.NCM_WEBHOOK_SECRET = 'ncm-test-secret';
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await new Promise((resolve) => webhooks.close(resolve));
+  });
+
+  it('should book NCM and report its statuses in our wording', async () => {
+    const courier = new NcmCourier();
+    const order = await placeProcessingOrder();
+
+    const booked = await courier.createShipment(order, {});
+    expect(booked).toMatchObject({ success: true, carrier: 'Nepal Can Move' });
+
+    await advance(booked.trackingNumber);
+    await advance(booked.trackingNumber);
+    const { events } = await courier.getTracking(booked.trackingNumber);
+
+    expect(events.map((event) => event.status)).toEqual(['created', 'picked_up', 'in_transit']);
+    expect(events[2]).toMatchObject({ description: 'Dispatched', location: 'TINKUNE' });
+  });
+
+  it('should ship the order and deliver it when the courier webhook says so', async () => {
+    const order = await placeProcessingOrder();
+    const shipped = await createShipment(order._id.toString(), adminId, { courier: 'ncm' });
+    expect(shipped.status).toBe('shipped');
+
+    const trackingNumber = shipped.shipment!.trackingNumber;
+    for (let step = 0; step < 5; step++) {
+      await advance(trackingNumber);
+      await handleCourierWebhook('ncm', lastWebhook!.body, lastWebhook!.headers);
+    }
+
+    // Replaying the last webhook changes nothing
+    const delivered = await handleCourierWebhook('ncm', lastWebhook!.body, lastWebhook!.headers);
+    expect(delivered).toMatchObject({ status: 'delivered', payment: expect.objectContaining({ status: 'paid' }) });
+    expect(delivered.shipment!.status).toBe('delivered');
+    expect(delivered.shipment!.events).toHaveLength(6);
+  });
+
+  it('should reject webhooks with a bad signature', async () => {
+    const order = await placeProcessingOrder();
+    const shipped = await createShipment(order._id.toString(), adminId, { courier: 'ncm' });
+    await advance(shipped.shipment!.trackingNumber, 'Delivered');
+
+    await expect(handleCourierWebhook('ncm', lastWebhook!.body, { 'x-ncm-signature': 'forged' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect((await Order.findById(order._id))!.status).toBe('shipped');
+  });
+
+  it('should pick up a delivery from polling when the webhook was missed', async () => {
+    const order = await placeProcessingOrder('esewa');
+    const shipped = await createShipment(order._id.toString(), adminId, { courier: 'ncm' });
+    await advance(shipped.shipment!.trackingNumber, 'Delivered');
+
+    expect(await syncOpenShipments()).toBeGreaterThanOrEqual(1);
+    expect((await Order.findById(order._id))!.status).toBe('delivered');
+  });
+
+  it('should let admins record tracking for in-house deliveries', async () => {
+    const order = await placeProcessingOrder();
+    const shipped = await createShipment(order._id.toString(), adminId, { courier: 'manual', carrier: 'Own rider' });
+    expect(shipped.shipment).toMatchObject({ courier: 'manual', carrier: 'Own rider', trackingNumber: order.orderNumber });
+
+    await addTrackingEvent(order._id.toString(), { status: 'out_for_delivery', description: 'With rider Ramesh', location: 'Pokhara' });
+    const delivered = await addTrackingEvent(order._id.toString(), { status: 'delivered', description: 'Handed to customer' });
+
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.shipment!.events.map((event) => event.source)).toEqual(['admin', 'admin', 'admin']);
+  });
+
+  it('should only ship orders that are being processed', async () => {
+    const order = await placeProcessingOrder();
+    order.status = 'confirmed';
+    await order.save();
+
+    await expect(createShipment(order._id.toString(), adminId, { courier: 'ncm' }))
+      .rejects.toThrow('Cannot ship an order that is confirmed');
+  });
+});
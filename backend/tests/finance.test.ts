@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import Order, { IOrder } from '../models/Order';
+import Payment from '../models/Payment';
+import LedgerEntry from '../models/LedgerEntry';
+import { PaymentService, PaymentFactory } from '../services/payment';
+import {
+  postCapture,
+  getFinanceReport,
+  getFinanceReportCsv,
+  backfillLedger,
+} from '../services/financeService';
+
+describe('Finance Ledger Test', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  const placeOrder = async (method: IOrder['payment']['method'], total: number, status: IOrder['status'] = 'pending') => Order.create({
+    user: new mongoose.Types.ObjectId(),
+    items: [{ product: new mongoose.Types.ObjectId(), name: 'Thangka Painting', price: total, quantity: 1, subtotal: total }],
+    shippingAddress: { name: 'Sunita', phone: '9841234567', street: 'Thamel', city: 'Kathmandu', district: 'Kathmandu', province: 3 },
+    payment: { method, status: 'pending' },
+    pricing: { subtotal: total, total },
+    status,
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post a gateway capture and its fee once, however often it is verified', async () => {
+    const order = await placeOrder('khalti', 2000);
+    const payment = await Payment.create({
+      order: order._id,
+      user: order.user,
+      gateway: 'khalti',
+      amount: 2000,
+      gatewayResponse: { transactionId: 'pidx-1' },
+    });
+    jest.spyOn(PaymentFactory.getGateway('khalti'), 'verify')
+      .mockResolvedValue({ verified: true, status: 'completed', transactionId: 'KH-1', amount: 2000, fee: 60, rawResponse: {} });
+
+    await PaymentService.reconcilePayment(payment);
+    await PaymentService.reconcilePayment((await Payment.findById(payment._id))!);
+
+    const entries = await LedgerEntry.find({ payment: payment._id }).sort({ type: 1 });
+    expect(entries.map((entry) => [entry.type, entry.amount, entry.reference])).toEqual([
+      ['capture', 2000, 'KH-1'],
+      ['fee', -60, 'KH-1'],
+    ]);
+  });
+
+  it('should post collected cash and refunds confirmed by hand', async () => {
+    const order = await placeOrder('cod', 1500, 'delivered');
+    await PaymentService.initiatePayment(order._id.toString(), 'cod', { name: 'Sunita', email: 'sunita@example.com' });
+    await PaymentService.markCODCollected(order._id.toString(), adminId, { collectedBy: 'Ramesh' });
+
+    const { refund } = await PaymentService.refund(order._id.toString(), { amount: 500, reason: 'Frame cracked' }, adminId);
+    expect(await LedgerEntry.countDocuments({ type: 'refund' })).toBe(0);
+    await PaymentService.completeRefund(order._id.toString(), refund._id.toString(), 'CASH-1');
+
+    const { byGateway, totals } = await getFinanceReport({ gateway: 'cod' });
+    expect(byGateway).toEqual([{ gateway: 'cod', captures: 1, gross: 1500, refunds: 500, fees: 0, net: 1000 }]);
+    expect(totals.net).toBe(1000);
+  });
+
+  it('should report COD still owed by customers and couriers', async () => {
+    await placeOrder('cod', 900, 'shipped');
+    await placeOrder('cod', 400, 'processing');
+    const collected = await placeOrder('cod', 1200, 'delivered');
+    await PaymentService.markCODCollected(collected._id.toString(), adminId, { collectedBy: 'Hari' });
+
+    const { outstandingCod } = await getFinanceReport();
+    expect(outstandingCod).toEqual({ uncollected: 900, uncollectedOrders: 1, withCollectors: 1200 });
+  });
+
+  it('should group by store-time month and export CSV', async () => {
+    const order = await placeOrder('esewa', 3000);
+    const payment = await Payment.create({ order: order._id, user: order.user, gateway: 'esewa', amount: 3000 });
+
+    // 01:45 on 1 February in Kathmandu
+    await postCapture(payment, { amount: 3000, reference: 'ES-1', occurredAt: new Date('2026-01-31T20:00:00Z') });
+
+    const { periods } = await getFinanceReport({ interval: 'month' });
+    expect(periods).toEqual([expect.objectContaining({ period: '2026-02', gateway: 'esewa', net: 3000 })]);
+
+    const csv = await getFinanceReportCsv({ interval: 'month' });
+    expect(csv.split('\r\n')).toEqual(['Period,Gateway,Captures,Gross,Refunds,Fees,Net', '2026-02,esewa,1,3000,0,0,3000']);
+  });
+
+  it('should backfill payments captured before the ledger existed', async () => {
+    const order = await placeOrder('esewa', 800);
+    await Payment.create({
+      order: order._id,
+      user: order.user,
+      gateway: 'esewa',
+      amount: 800,
+      status: 'completed',
+      completedAt: new Date(),
+      gatewayResponse: { transactionId: 'ES-OLD' },
+    });
+
+    expect(await backfillLedger()).toEqual({ payments: 1, entries: 1 });
+    expect(await backfillLedger()).toEqual({ payments: 1, entries: 0 });
+  });
+});
@@ -0,0 +1,106 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import { PaymentService, FonepayGateway } from '../services/payment';
+import { createFonepayStandIn } from '../scripts/fonepayStandIn';
+
+describe('Fonepay Gateway Test', () => {
+  let server: Server;
+  let notifications: Server;
+  let baseUrl: string;
+  let gateway: FonepayGateway;
+  let lastNotification: any = null;
+
+  const order = { _id: new mongoose.Types.ObjectId(), orderNumber: 'BH-2001', pricing: { total: 4500 } } as any;
+  const userData = { name: 'Bimala', email: 'bimala@example.com', phone: '9841234567' };
+
+  const scan = (prn: string, outcome = 'success') => axios.post(`${baseUrl}/qr/${prn}/scan`, { outcome });
+
+  beforeAll(async () => {
+    const sink = express();
+    sink.get('/callback', (req, res) => {
+      lastNotification = req.query;
+      res.json({ received: true });
+    });
+    notifications = sink.listen(0);
+    await new Promise((resolve) => notifications.once('listening', resolve));
+
+    server = createFonepayStandIn({
+      secretKey: 'fonepay-test-secret',
+      callbackUrl: `http://127.0.0.1:${(notifications.address() as AddressInfo).port}/callback`,
+    }).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.FONEPAY_API_BASE = `${baseUrl}/api`;
+    process.env.FONEPAY_MERCHANT_CODE = 'NBQM';
+    process.env.FONEPAY_SECRET_KEY = 'fonepay-test-secret';
+    process.env.FONEPAY_USERNAME = 'merchant';
+    process.env.FONEPAY_PASSWORD = 'password';
+    gateway = new FonepayGateway();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await new Promise((resolve) => notifications.close(resolve));
+  });
+
+  it('should return a QR image and report it pending until scanned', async () => {
+    const result = await gateway.initiate(order, userData);
+
+    expect(result).toMatchObject({ success: true, requiresRedirect: false });
+    expect(result.transactionId).toMatch(/^BH-2001_/);
+    expect(result.formData.qrImage).toMatch(/^data:image\/png;base64,/);
+    expect(result.formData.amount).toBe(4500);
+
+    expect((await gateway.verify(result.transactionId, {})).status).toBe('pending');
+
+    await scan(result.transactionId);
+    const verified = await gateway.verify(result.transactionId, {});
+    expect(verified).toMatchObject({ verified: true, status: 'completed', referenceId: result.transactionId });
+  });
+
+  it('should accept only correctly signed notifications', async () => {
+    const { transactionId } = await gateway.initiate(order, userData);
+    await scan(transactionId);
+
+    const callback = await gateway.handleCallback(lastNotification);
+    expect(callback).toMatchObject({ success: true, orderId: 'BH-2001', amount: 4500 });
+
+    const tampered = await gateway.handleCallback({ ...lastNotification, P_AMT: '45' });
+    expect(tampered).toMatchObject({ success: false, message: 'Invalid Fonepay signature' });
+  });
+
+  it('should report a declined payment as failed', async () => {
+    const { transactionId } = await gateway.initiate(order, userData);
+    await scan(transactionId, 'failed');
+
+    expect(await gateway.verify(transactionId, {})).toMatchObject({ verified: false, status: 'failed' });
+    expect((await gateway.handleCallback(lastNotification)).success).toBe(false);
+  });
+
+  it('should mark the order paid once a status poll finds the QR paid', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const placed = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Lokta Paper Journal', price: 4500, quantity: 1, subtotal: 4500 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'fonepay', status: 'pending' },
+      pricing: { subtotal: 4500, total: 4500 },
+    });
+    const { formData } = await PaymentService.initiatePayment(placed._id.toString(), 'fonepay', userData);
+
+    expect(await PaymentService.getPaymentStatus(placed._id.toString(), userId.toString()))
+      .toMatchObject({ paymentStatus: 'pending', gatewayStatus: 'pending' });
+
+    await scan(formData.prn);
+
+    expect(await PaymentService.getPaymentStatus(placed._id.toString(), userId.toString()))
+      .toMatchObject({ paymentStatus: 'paid', gatewayStatus: 'completed' });
+    expect((await Payment.findOne({ order: placed._id }))!.status).toBe('completed');
+  });
+});
@@ -0,0 +1,78 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import IdempotencyKey from '../models/IdempotencyKey';
+import { idempotent } from '../middleware/idempotency';
+import { errorHandler } from '../middleware/errorHandler';
+
+describe('Idempotency Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+  let created = 0;
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { _id: userId } as any;
+    next();
+  });
+  app.post('/orders', idempotent, (req, res) => {
+    created++;
+    if (req.body.fail) {
+      res.status(400).json({ status: 'fail', message: 'Bad order' });
+      return;
+    }
+    res.status(201).json({ status: 'success', data: { order: { number: created, ...req.body } } });
+  });
+  app.use(errorHandler);
+
+  // Responses are stored after they are sent
+  const stored = async (key: string) => {
+    for (let i = 0; i < 20; i++) {
+      const record = await IdempotencyKey.findOne({ key });
+      if (!record || record.status === 'completed') return record;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return null;
+  };
+
+  beforeEach(() => {
+    created = 0;
+  });
+
+  it('should replay the original response for a repeated key', async () => {
+    const first = await request(app).post('/orders').set('Idempotency-Key', 'checkout-1').send({ qty: 2 });
+    await stored('checkout-1');
+    const second = await request(app).post('/orders').set('Idempotency-Key', 'checkout-1').send({ qty: 2 });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(second.body).toEqual(first.body);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('should reject a reused key with a different payload', async () => {
+    await request(app).post('/orders').set('Idempotency-Key', 'checkout-2').send({ qty: 2 });
+    await stored('checkout-2');
+    const res = await request(app).post('/orders').set('Idempotency-Key', 'checkout-2').send({ qty: 3 });
+
+    expect(res.status).toBe(409);
+    expect(created).toBe(1);
+  });
+
+  it('should release the key when the request fails', async () => {
+    await request(app).post('/orders').set('Idempotency-Key', 'checkout-3').send({ fail: true });
+    expect(await stored('checkout-3')).toBeNull();
+
+    const retry = await request(app).post('/orders').set('Idempotency-Key', 'checkout-3').send({ fail: true });
+    expect(retry.status).toBe(400);
+    expect(created).toBe(2);
+  });
+
+  it('should run every request without a key', async () => {
+    await request(app).post('/orders').send({ qty: 1 });
+    await request(app).post('/orders').send({ qty: 1 });
+
+    expect(created).toBe(2);
+  });
+});
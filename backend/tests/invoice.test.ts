@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import Order, { IOrder } from '../models/Order';
+import { getFiscalYear } from '../utils/helpers';
+import { getCustomerInvoice, getOrderDocuments } from '../services/invoiceService';
+
+describe('Invoice Test', () => {
+  const placeOrder = (status: IOrder['status'] = 'confirmed', user = new mongoose.Types.ObjectId()) => Order.create({
+    user,
+    items: [{ product: new mongoose.Types.ObjectId(), name: 'Pashmina Shawl', price: 4500, quantity: 2, subtotal: 9000, variant: { size: 'One Size', color: 'Maroon' } }],
+    shippingAddress: { name: 'Sunita', phone: '9841234567', street: 'Thamel', city: 'Kathmandu', district: 'Kathmandu', province: 3 },
+    payment: { method: 'cod', status: 'pending' },
+    pricing: { subtotal: 9000, shippingCost: 100, total: 9100 },
+    status,
+  });
+
+  it('should count fiscal years from Shrawan in Nepal time', () => {
+    expect(getFiscalYear(new Date('2026-07-15T12:00:00Z'))).toBe('2082/83');
+    // 00:30 UTC is already 16 July in Kathmandu
+    expect(getFiscalYear(new Date('2026-07-16T00:30:00Z'))).toBe('2083/84');
+    expect(getFiscalYear(new Date('2027-01-01T00:00:00Z'))).toBe('2083/84');
+  });
+
+  it('should number invoices in sequence and keep the number on re-download', async () => {
+    const first = await placeOrder();
+    const second = await placeOrder();
+    const fiscalYear = getFiscalYear();
+
+    const download = await getCustomerInvoice(first._id.toString(), first.user.toString());
+    await getOrderDocuments([second._id.toString()], 'invoice');
+    await getCustomerInvoice(first._id.toString(), first.user.toString());
+
+    expect(download.filename).toBe(`invoice-${first.orderNumber}.pdf`);
+    expect(download.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect((await Order.findById(first._id))!.invoice!.number).toBe(`INV-${fiscalYear}-00001`);
+    expect((await Order.findById(second._id))!.invoice!.number).toBe(`INV-${fiscalYear}-00002`);
+  });
+
+  it('should use up one number when the same order is invoiced twice at once', async () => {
+    const first = await placeOrder();
+    const second = await placeOrder();
+    const fiscalYear = getFiscalYear();
+
+    await Promise.all([
+      getCustomerInvoice(first._id.toString(), first.user.toString()),
+      getCustomerInvoice(first._id.toString(), first.user.toString()),
+    ]);
+    await getCustomerInvoice(second._id.toString(), second.user.toString());
+
+    expect((await Order.findById(first._id))!.invoice!.number).toBe(`INV-${fiscalYear}-00001`);
+    expect((await Order.findById(second._id))!.invoice!.number).toBe(`INV-${fiscalYear}-00002`);
+  });
+
+  it('should only give customers invoices for their own confirmed orders', async () => {
+    const order = await placeOrder('pending');
+
+    await expect(getCustomerInvoice(order._id.toString(), new mongoose.Types.ObjectId().toString()))
+      .rejects.toMatchObject({ statusCode: 404 });
+    await expect(getCustomerInvoice(order._id.toString(), order.user.toString()))
+      .rejects.toThrow('Cannot issue an invoice for an order that is pending');
+  });
+
+  it('should print packing slips for any order without numbering an invoice', async () => {
+    const orders = [await placeOrder('pending'), await placeOrder('processing')];
+
+    const { filename, pdf } = await getOrderDocuments(orders.map((order) => order._id.toString()), 'packing_slip');
+
+    expect(filename).toMatch(/^packing-slips-\d{8}\.pdf$/);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(await Order.countDocuments({ invoice: { $ne: null } })).toBe(0);
+  });
+
+  it('should refuse a batch with orders that cannot be invoiced', async () => {
+    const ready = await placeOrder('delivered');
+    const cancelled = await placeOrder('cancelled');
+
+    await expect(getOrderDocuments([ready._id.toString(), cancelled._id.toString()], 'invoice'))
+      .rejects.toThrow(cancelled.orderNumber);
+    expect((await Order.findById(ready._id))!.invoice).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import PaymentDiscrepancy from '../models/PaymentDiscrepancy';
+import paymentRoutes from '../routes/paymentRoutes';
+import { errorHandler } from '../middleware/errorHandler';
+import { PaymentService, PaymentFactory } from '../services/payment';
+import { createMockGatewayServer } from '../scripts/mockGatewayServer';
+
+describe('Mock Gateway Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+  let mockServer: Server;
+  let backend: Server;
+  let mockUrl: string;
+
+  const listen = async (app: express.Express) => {
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+  };
+
+  const noRedirect = { maxRedirects: 0, validateStatus: () => true };
+
+  // Place an order, then pick an outcome on the mock pay page and follow the redirects like a browser
+  const checkout = async (outcome: string) => {
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Pashmina Shawl', price: 3000, quantity: 1, subtotal: 3000 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'mock', status: 'pending' },
+      pricing: { subtotal: 3000, total: 3000 },
+    });
+    const initiated = await PaymentService.initiatePayment(order._id.toString(), 'mock', { name: 'Bimala', email: 'bimala@example.com' });
+
+    const pay = await axios.post(`${initiated.redirectUrl}/complete`, `outcome=${outcome}`, noRedirect);
+    const landing = pay.status === 302 ? await axios.get(pay.headers.location, noRedirect) : null;
+
+    return { order, initiated, pay, landedOn: landing?.headers.location as string | undefined };
+  };
+
+  beforeAll(async () => {
+    const mock = await listen(createMockGatewayServer({ secret: 'test-secret', timeoutDelayMs: 1000 }));
+    mockServer = mock.server;
+    mockUrl = mock.url;
+
+    const app = express();
+    app.use('/api/v1/payments', paymentRoutes);
+    app.use(errorHandler);
+    const api = await listen(app);
+    backend = api.server;
+
+    process.env.MOCK_GATEWAY_URL = mockUrl;
+    process.env.MOCK_GATEWAY_SECRET = 'test-secret';
+    process.env.MOCK_GATEWAY_TIMEOUT_MS = '200';
+    process.env.BACKEND_URL = api.url;
+    process.env.FRONTEND_URL = 'http://shop.test';
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mockServer.close(resolve));
+    await new Promise((resolve) => backend.close(resolve));
+  });
+
+  it('should be offered in development and test', () => {
+    expect(PaymentFactory.isSupported('mock')).toBe(true);
+    expect(PaymentService.getAvailableMethods().map((m) => m.id)).toContain('mock');
+  });
+
+  it('should not be offered without its secret', () => {
+    delete process.env.MOCK_GATEWAY_SECRET;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      jest.isolateModules(() => {
+        const payment = require('../services/payment');
+        expect(payment.PaymentFactory.isSupported('mock')).toBe(false);
+        expect(payment.PaymentService.getAvailableMethods().map((m: { id: string }) => m.id)).not.toContain('mock');
+      });
+    } finally {
+      process.env.MOCK_GATEWAY_SECRET = 'test-secret';
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should mark the order paid on success', async () => {
+    const { order, initiated, landedOn } = await checkout('success');
+
+    expect(initiated.redirectUrl).toContain(`${mockUrl}/pay/`);
+    expect(landedOn).toBe(`http://shop.test/order-success?orderId=${order._id}`);
+    expect((await Order.findById(order._id))!.payment.status).toBe('paid');
+    expect((await Payment.findOne({ order: order._id }))!.status).toBe('completed');
+  });
+
+  it('should send the customer to the failure page when the payment is declined', async () => {
+    const { order, landedOn } = await checkout('failure');
+
+    expect(landedOn).toMatch(/^http:\/\/shop\.test\/order-failed\?orderId=/);
+    expect((await Order.findById(order._id))!.payment.status).toBe('pending');
+  });
+
+  it('should report a capture for the wrong amount', async () => {
+    const { order } = await checkout('amount_mismatch');
+
+    const discrepancy = await PaymentDiscrepancy.findOne({ order: order._id });
+    expect(discrepancy).toMatchObject({ type: 'amount_mismatch', expectedAmount: 3000, gatewayAmount: 1500 });
+  });
+
+  it('should act on a duplicated callback only once', async () => {
+    const { order, landedOn } = await checkout('duplicate_callback');
+
+    expect(landedOn).toBe(`http://shop.test/order-success?orderId=${order._id}`);
+    const timeline = await PaymentService.getPaymentEvents(order._id.toString());
+    expect(timeline.map((e) => `${e.type}:${e.outcome}`)).toEqual(['initiate:success', 'callback:success', 'verify:success', 'callback:rejected']);
+  });
+
+  it('should leave a payment pending when the gateway times out', async () => {
+    const { order, pay } = await checkout('timeout');
+    expect(pay.status).toBe(504);
+
+    const payment = await Payment.findOne({ order: order._id });
+    const result = await PaymentService.reconcilePayment(payment!);
+
+    expect(result.error).toBeDefined();
+    expect((await Payment.findById(payment!._id))!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import Cart from '../models/Cart';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import Product from '../models/Product';
+import { createOrder, editOrder } from '../services/orderService';
+
+describe('Order Edit Test', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const shippingAddress = {
+    name: 'Bimala',
+    phone: '9841234567',
+    street: 'Jhamsikhel',
+    city: 'Lalitpur',
+    district: 'Lalitpur',
+    province: 3,
+  };
+
+  const createProducts = async () => {
+    const topi = await Product.create({
+      name: 'Dhaka Topi',
+      description: 'Handmade in Nepal',
+      price: 500,
+      category: new mongoose.Types.ObjectId(),
+      stock: 5,
+      variants: [{ size: 'Medium Size (1-4 yrs)', color: 'Red', price: 600, stock: 5 }],
+    });
+    const bowl = await Product.create({
+      name: 'Singing Bowl',
+      description: 'Hand-beaten in Patan',
+      price: 1000,
+      category: new mongoose.Types.ObjectId(),
+      stock: 3,
+    });
+    return { topi, bowl, variantId: topi.variants[0]._id };
+  };
+
+  const placeOrder = async (paymentMethod: 'cod' | 'mock' = 'cod') => {
+    const products = await createProducts();
+    const user = new mongoose.Types.ObjectId();
+    await Cart.create({ user, items: [{ product: products.topi._id, variantId: products.variantId, quantity: 2 }] });
+    const order = await createOrder(user.toString(), { shippingAddress, paymentMethod });
+    return { ...products, order };
+  };
+
+  it('should re-price the order, move stock by the difference and record the change', async () => {
+    const { topi, bowl, variantId, order } = await placeOrder();
+    // Lines already on the order keep the price the customer was quoted
+    await Product.updateOne({ _id: topi._id, 'variants._id': variantId }, { $set: { 'variants.$.price': 700 } });
+
+    const edited = await editOrder(
+      order._id.toString(),
+      {
+        items: [
+          { product: topi._id.toString(), variantId: variantId.toString(), quantity: 1 },
+          { product: bowl._id.toString(), quantity: 2 },
+        ],
+        note: 'Customer called to add a bowl',
+      },
+      adminId,
+    );
+
+    expect(edited.items.map((item) => [item.name, item.price, item.quantity])).toEqual([
+      ['Dhaka Topi', 600, 1],
+      ['Singing Bowl', 1000, 2],
+    ]);
+    expect(edited.pricing.subtotal).toBe(2600);
+    expect(edited.pricing.total).toBe(2600 + edited.pricing.shippingCost);
+
+    const [reloadedTopi, reloadedBowl] = await Promise.all([Product.findById(topi._id), Product.findById(bowl._id)]);
+    expect(reloadedTopi!.variants[0].stock).toBe(4);
+    expect(reloadedBowl!.stock).toBe(1);
+
+    const entry = edited.statusHistory[edited.statusHistory.length - 1];
+    expect(entry.note).toBe('Customer called to add a bowl');
+    expect(entry.changes!.before).toMatchObject({ items: [{ name: 'Dhaka Topi', quantity: 2 }], pricing: { subtotal: 1200 } });
+    expect(entry.changes!.after).toMatchObject({ pricing: { subtotal: 2600 } });
+    expect(entry.changes!.after).not.toHaveProperty('shippingAddress');
+  });
+
+  it('should flag the refund owed when a paid online order gets cheaper', async () => {
+    const { topi, variantId, order } = await placeOrder('mock');
+    await Order.updateOne({ _id: order._id }, { status: 'confirmed', 'payment.status': 'paid' });
+
+    const edited = await editOrder(
+      order._id.toString(),
+      {
+        items: [{ product: topi._id.toString(), variantId: variantId.toString(), quantity: 1 }],
+        shippingAddress: { ...shippingAddress, phone: '9801234567' },
+      },
+      adminId,
+    );
+
+    expect(edited.shippingAddress.phone).toBe('9801234567');
+    expect(edited.payment.balanceDue).toBe(edited.pricing.total - order.pricing.total);
+    expect(edited.payment.balanceDue).toBeLessThan(0);
+  });
+
+  it('should leave the order and stock alone when there is not enough stock', async () => {
+    const { bowl, order } = await placeOrder();
+
+    await expect(
+      editOrder(order._id.toString(), { items: [{ product: bowl._id.toString(), quantity: 4 }] }, adminId),
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    expect((await Order.findById(order._id))!.items[0].quantity).toBe(2);
+    expect((await Product.findById(bowl._id))!.stock).toBe(3);
+  });
+
+  it('should refuse to edit an order that has shipped', async () => {
+    const { order } = await placeOrder();
+    await Order.updateOne({ _id: order._id }, { status: 'shipped' });
+
+    await expect(editOrder(order._id.toString(), { note: 'Too late' }, adminId))
+      .rejects.toThrow('Cannot edit an order that is shipped');
+  });
+
+  it('should refuse to edit an invoiced order or one with an online payment in progress', async () => {
+    const invoiced = (await placeOrder()).order;
+    await Order.updateOne({ _id: invoiced._id }, { invoice: { number: 'INV-2082/83-00001', fiscalYear: '2082/83' } });
+    await expect(editOrder(invoiced._id.toString(), { note: 'Add a bowl' }, adminId))
+      .rejects.toThrow('Invoice INV-2082/83-00001 has been issued');
+
+    const { order } = await placeOrder('mock');
+    await Payment.create({ order: order._id, user: order.user, gateway: 'mock', amount: order.pricing.total, status: 'pending' });
+    await expect(editOrder(order._id.toString(), { note: 'Add a bowl' }, adminId))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+});
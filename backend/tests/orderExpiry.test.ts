@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import Product from '../models/Product';
+import { expireUnpaidOrders } from '../services/orderExpiryService';
+import { PaymentFactory } from '../services/payment';
+
+describe('Order Expiry Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  const shippingAddress = {
+    name: 'Bimala',
+    phone: '9841234567',
+    street: 'Jhamsikhel',
+    city: 'Lalitpur',
+    district: 'Lalitpur',
+    province: 3,
+  };
+
+  const createOrder = (
+    productId: mongoose.Types.ObjectId,
+    method: 'cod' | 'esewa' | 'khalti',
+    reservedUntil: Date | null,
+  ) =>
+    Order.create({
+      user: userId,
+      items: [{ product: productId, name: 'Dhaka Topi', price: 500, quantity: 2, subtotal: 1000 }],
+      shippingAddress,
+      payment: { method, status: 'pending' },
+      pricing: { subtotal: 1000, total: 1000 },
+      reservedUntil,
+    });
+
+  const createKhaltiPayment = (orderId: mongoose.Types.ObjectId, pidx: string) =>
+    Payment.create({
+      order: orderId,
+      user: userId,
+      gateway: 'khalti',
+      amount: 1000,
+      status: 'pending',
+      gatewayResponse: { transactionId: pidx },
+    });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should cancel lapsed unpaid online orders and restore stock', async () => {
+    const product = await Product.create({
+      name: 'Dhaka Topi',
+      description: 'Handwoven cap',
+      price: 500,
+      category: new mongoose.Types.ObjectId(),
+      stock: 8,
+      soldCount: 2,
+    });
+
+    const productId = product._id as mongoose.Types.ObjectId;
+    const expired = await createOrder(productId, 'esewa', new Date(Date.now() - 1000));
+    const fresh = await createOrder(productId, 'khalti', new Date(Date.now() + 60 * 1000));
+    const cod = await createOrder(productId, 'cod', null);
+
+    expect(await expireUnpaidOrders()).toBe(1);
+
+    const reloaded = await Order.findById(expired._id);
+    expect(reloaded!.status).toBe('cancelled');
+    expect(reloaded!.reservedUntil).toBeNull();
+    expect(reloaded!.statusHistory[reloaded!.statusHistory.length - 1].note).toMatch(
+      'reservation expired',
+    );
+
+    expect((await Order.findById(fresh._id))!.status).toBe('pending');
+    expect((await Order.findById(cod._id))!.status).toBe('pending');
+
+    const restocked = await Product.findById(product._id);
+    expect(restocked!.stock).toBe(10);
+    expect(restocked!.soldCount).toBe(0);
+  });
+
+  it('should leave orders that were paid before the sweep', async () => {
+    const order = await createOrder(new mongoose.Types.ObjectId(), 'esewa', new Date(Date.now() - 1000));
+    await order.markPaymentComplete('TXN-1');
+
+    expect(await expireUnpaidOrders()).toBe(0);
+    expect((await Order.findById(order._id))!.status).toBe('confirmed');
+  });
+
+  it('should capture a payment that went through before cancelling', async () => {
+    const order = await createOrder(new mongoose.Types.ObjectId(), 'khalti', new Date(Date.now() - 1000));
+    const payment = await createKhaltiPayment(order._id as mongoose.Types.ObjectId, 'pidx-late');
+    const verify = jest.spyOn(PaymentFactory.getGateway('khalti'), 'verify').mockResolvedValue({
+      verified: true, status: 'completed', transactionId: 'KH-LATE', amount: 1000, rawResponse: {},
+    });
+
+    expect(await expireUnpaidOrders()).toBe(0);
+    expect(verify).toHaveBeenCalledWith('pidx-late', { amount: 1000 });
+    expect((await Payment.findById(payment._id))!.status).toBe('completed');
+
+    const reloaded = await Order.findById(order._id);
+    expect(reloaded!.status).toBe('confirmed');
+    expect(reloaded!.payment.status).toBe('paid');
+  });
+
+  it('should wait for the next sweep when the gateway cannot be reached', async () => {
+    const order = await createOrder(new mongoose.Types.ObjectId(), 'khalti', new Date(Date.now() - 1000));
+    await createKhaltiPayment(order._id as mongoose.Types.ObjectId, 'pidx-down');
+    jest.spyOn(PaymentFactory.getGateway('khalti'), 'verify').mockResolvedValue({
+      verified: false, status: 'failed', message: 'Verification failed', error: 'ECONNRESET', rawResponse: null,
+    });
+
+    expect(await expireUnpaidOrders()).toBe(0);
+    expect((await Order.findById(order._id))!.status).toBe('pending');
+  });
+});
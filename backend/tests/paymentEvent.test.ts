@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import PaymentEvent from '../models/PaymentEvent';
+import { PaymentService, PaymentFactory } from '../services/payment';
+
+describe('Payment Event Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const esewa = PaymentFactory.getGateway('esewa');
+
+  const createPendingOrder = async () => {
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Thangka Painting', price: 1000, quantity: 1, subtotal: 1000 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'esewa', status: 'pending' },
+      pricing: { subtotal: 1000, total: 1000 },
+    });
+    await Payment.create({
+      order: order._id,
+      user: userId,
+      gateway: 'esewa',
+      amount: 1000,
+      status: 'pending',
+      gatewayResponse: { transactionId: `${order.orderNumber}_1` },
+    });
+    return order;
+  };
+
+  // What eSewa appends to the success URL
+  const callbackFor = (orderNumber: string, signature: string) => ({
+    data: Buffer.from(JSON.stringify({
+      transaction_code: 'ESW-001',
+      status: 'COMPLETE',
+      total_amount: '1000',
+      transaction_uuid: `${orderNumber}_1`,
+      product_code: 'EPAYTEST',
+      signed_field_names: 'transaction_code,status,total_amount,transaction_uuid,product_code,signed_field_names',
+      signature,
+    })).toString('base64'),
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply a callback once and reject its replay', async () => {
+    const order = await createPendingOrder();
+    const verify = jest.spyOn(esewa, 'verify').mockResolvedValue({
+      verified: true, status: 'completed', transactionId: 'ESW-001', amount: 1000, rawResponse: { status: 'COMPLETE' },
+    });
+
+    const first = await PaymentService.handleCallback('esewa', callbackFor(order.orderNumber, 'sig-1'), { sourceIp: '203.0.113.7' });
+    const replay = await PaymentService.handleCallback('esewa', callbackFor(order.orderNumber, 'sig-1'), { sourceIp: '198.51.100.9' });
+
+    expect(first.success).toBe(true);
+    expect(replay).toMatchObject({ duplicate: true, success: true });
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    const timeline = await PaymentService.getPaymentEvents(order._id.toString());
+    expect(timeline.map((e) => `${e.type}:${e.outcome}`)).toEqual(['callback:success', 'verify:success', 'callback:rejected']);
+    expect(timeline[0].sourceIp).toBe('203.0.113.7');
+    expect(timeline[2].sourceIp).toBe('198.51.100.9');
+    expect(timeline[0].payload.data).toBeDefined();
+  });
+
+  it('should process a redelivered callback when the first attempt could not be verified', async () => {
+    const order = await createPendingOrder();
+    jest.spyOn(esewa, 'verify')
+      .mockResolvedValueOnce({ verified: false, status: 'failed', message: 'Verification failed', error: 'ECONNRESET', rawResponse: null })
+      .mockResolvedValueOnce({ verified: true, status: 'completed', transactionId: 'ESW-001', amount: 1000, rawResponse: { status: 'COMPLETE' } });
+
+    const first = await PaymentService.handleCallback('esewa', callbackFor(order.orderNumber, 'sig-2'));
+    const retry = await PaymentService.handleCallback('esewa', callbackFor(order.orderNumber, 'sig-2'));
+
+    expect(first).toMatchObject({ success: false, status: 'pending' });
+    expect(retry.success).toBe(true);
+    expect(retry.duplicate).toBeUndefined();
+    expect((await Order.findById(order._id))!.payment.status).toBe('paid');
+  });
+
+  it('should not allow events to be changed or removed', async () => {
+    const event = await PaymentEvent.create({ gateway: 'khalti', type: 'callback', outcome: 'failed' });
+
+    await expect(PaymentEvent.updateOne({ _id: event._id }, { outcome: 'success' })).rejects.toThrow('append-only');
+    await expect(PaymentEvent.deleteOne({ _id: event._id })).rejects.toThrow('append-only');
+
+    event.outcome = 'success';
+    await expect(event.save()).rejects.toThrow('append-only');
+  });
+});
@@ -0,0 +1,113 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import { PaymentService, PaymentFactory } from '../services/payment';
+import { createMockGatewayServer } from '../scripts/mockGatewayServer';
+
+describe('Payment Retry Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const userData = { name: 'Bimala', email: 'bimala@example.com' };
+  let mockServer: Server;
+
+  // An online order whose first attempt was started but never finished
+  const placeOrder = async () => {
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Dhaka Topi', price: 1200, quantity: 1, subtotal: 1200 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'mock', status: 'pending' },
+      pricing: { subtotal: 1200, total: 1200 },
+    });
+    await PaymentService.initiatePayment(order._id.toString(), 'mock', userData);
+    return order._id.toString();
+  };
+
+  beforeAll(async () => {
+    mockServer = createMockGatewayServer({ secret: 'test-secret', timeoutDelayMs: 1000 }).listen(0);
+    await new Promise((resolve) => mockServer.once('listening', resolve));
+
+    process.env.MOCK_GATEWAY_URL = `http://127.0.0.1:${(mockServer.address() as AddressInfo).port}`;
+    process.env.MOCK_GATEWAY_SECRET = 'test-secret';
+    process.env.BACKEND_URL = 'http://api.test';
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mockServer.close(resolve));
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_MAX_ATTEMPTS;
+    jest.restoreAllMocks();
+  });
+
+  it('should record each retry as its own payment attempt', async () => {
+    const orderId = await placeOrder();
+
+    const retried = await PaymentService.retryPayment(orderId, userId.toString(), 'mock', userData);
+
+    expect(retried.redirectUrl).toContain('/pay/');
+    expect(await Payment.countDocuments({ order: orderId })).toBe(2);
+    const order = await Order.findById(orderId);
+    expect(order!.reservedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(order!.statusHistory.at(-1)!.note).toBe('Payment retried with mock');
+  });
+
+  it('should switch an unpaid order to cash on delivery', async () => {
+    const orderId = await placeOrder();
+
+    await PaymentService.retryPayment(orderId, userId.toString(), 'cod', userData);
+
+    const order = await Order.findById(orderId);
+    expect(order!.payment.method).toBe('cod');
+    expect(order!.reservedUntil).toBeNull();
+    expect(order!.statusHistory.at(-1)!.note).toBe('Payment method changed from mock to cod');
+  });
+
+  it('should refuse online attempts past the cap but still allow COD', async () => {
+    process.env.PAYMENT_MAX_ATTEMPTS = '2';
+    const orderId = await placeOrder();
+    await PaymentService.retryPayment(orderId, userId.toString(), 'mock', userData);
+
+    await expect(PaymentService.retryPayment(orderId, userId.toString(), 'mock', userData))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(await Payment.countDocuments({ order: orderId })).toBe(2);
+
+    await PaymentService.retryPayment(orderId, userId.toString(), 'cod', userData);
+    expect((await Order.findById(orderId))!.payment.method).toBe('cod');
+  });
+
+  it('should not start a new attempt when the previous one went through', async () => {
+    const orderId = await placeOrder();
+    jest.spyOn(PaymentFactory.getGateway('mock'), 'verify')
+      .mockResolvedValue({ verified: true, status: 'completed', amount: 1200, rawResponse: {} });
+
+    await expect(PaymentService.retryPayment(orderId, userId.toString(), 'mock', userData))
+      .rejects.toThrow('Your earlier payment went through, so this order is already paid');
+    expect((await Order.findById(orderId))!.payment.status).toBe('paid');
+    expect(await Payment.countDocuments({ order: orderId })).toBe(1);
+  });
+
+  it('should apply a late callback to the attempt it belongs to', async () => {
+    const orderId = await placeOrder();
+    await PaymentService.retryPayment(orderId, userId.toString(), 'mock', userData);
+    const [first, second] = await Payment.find({ order: orderId }).sort({ _id: 1 });
+    jest.spyOn(PaymentFactory.getGateway('mock'), 'verify')
+      .mockResolvedValue({ verified: true, status: 'completed', transactionId: 'MOCK-TXN-1', amount: 1200, rawResponse: {} });
+
+    await expect(PaymentService.verifyPayment(orderId, 'mock', { id: 'pay_unknown' })).rejects.toMatchObject({ statusCode: 404 });
+
+    const result = await PaymentService.verifyPayment(orderId, 'mock', { id: first.gatewayResponse.transactionId });
+    expect(result.success).toBe(true);
+    expect((await Payment.findById(first._id))!.status).toBe('completed');
+    expect((await Payment.findById(second._id))!.status).toBe('pending');
+  });
+
+  it('should not let another customer retry the order', async () => {
+    const orderId = await placeOrder();
+
+    await expect(PaymentService.retryPayment(orderId, new mongoose.Types.ObjectId().toString(), 'cod', userData))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+});
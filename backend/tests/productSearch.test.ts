@@ -0,0 +1,93 @@
+import Category from '../models/Category';
+import Product from '../models/Product';
+import { getProducts } from '../services/productService';
+
+describe('Product Search Test', () => {
+  const createCatalogue = async () => {
+    const clothing = await Category.create({ name: 'Clothing' });
+    const crafts = await Category.create({ name: 'Crafts' });
+    const topis = await Category.create({ name: 'Topis', parent: clothing._id });
+    const base = { description: 'Made in Nepal', category: clothing._id };
+
+    await Product.create([
+      {
+        ...base,
+        name: 'Dhaka Topi',
+        price: 800,
+        category: topis._id,
+        stock: 0,
+        ratings: { average: 4.5, count: 10 },
+        variants: [
+          { size: 'Medium Size (1-4 yrs)', color: 'Red', price: 800, stock: 3 },
+          { size: 'Large Size (4-6 yrs)', color: 'Red', price: 800, stock: 0 },
+        ],
+      },
+      {
+        ...base,
+        name: 'Pashmina Shawl',
+        price: 6000,
+        stock: 0,
+        ratings: { average: 3.2, count: 4 },
+        variants: [{ size: 'One Size', color: 'Blue', price: 6000, stock: 0 }],
+      },
+      {
+        ...base,
+        name: 'Kurta Suruwal',
+        price: 2000,
+        stock: 0,
+        variants: [
+          { size: 'Medium Size (1-4 yrs)', color: 'Blue', price: 2000, stock: 2 },
+          { size: 'Medium Size (1-4 yrs)', color: 'White', price: 2000, stock: 1 },
+        ],
+      },
+      { ...base, name: 'Singing Bowl', price: 1500, stock: 4, category: crafts._id, ratings: { average: 4.8, count: 20 } },
+    ]);
+  };
+
+  it('should count each facet with the other filters applied but not its own', async () => {
+    await createCatalogue();
+
+    const { products, facets, pagination } = await getProducts({ color: 'Blue' });
+
+    expect(products.map((product) => product.name).sort()).toEqual(['Kurta Suruwal', 'Pashmina Shawl']);
+    expect(pagination.totalItems).toBe(2);
+    // Colours ignore the colour filter, so Red still shows what it would add
+    expect(facets.colors).toEqual(expect.arrayContaining([
+      { value: 'Blue', label: 'Blue', count: 2 },
+      { value: 'Red', label: 'Red', count: 1 },
+      { value: 'White', label: 'White', count: 1 },
+    ]));
+    // A product with two medium variants is counted once
+    expect(facets.sizes.find((size) => size.value === 'Medium Size (1-4 yrs)')!.count).toBe(1);
+    expect(facets.categories).toEqual([{ value: 'clothing', label: 'Clothing', count: 2 }]);
+    expect(facets.price.find((bucket) => bucket.value === '5000-10000')!.count).toBe(1);
+    expect(facets.inStock).toBe(1);
+  });
+
+  it('should combine multi-select filters with price buckets, ratings and stock', async () => {
+    await createCatalogue();
+
+    const inStock = await getProducts({ category: 'clothing,crafts', price: ['0-1000', '1000-2500'], inStock: 'true' });
+    expect(inStock.products.map((product) => product.name).sort()).toEqual(['Dhaka Topi', 'Kurta Suruwal', 'Singing Bowl']);
+
+    const rated = await getProducts({ rating: '4', sort: '-price' });
+    expect(rated.products.map((product) => product.name)).toEqual(['Singing Bowl', 'Dhaka Topi']);
+    expect(rated.facets.ratings.map((band) => [band.value, band.count])).toEqual([['4', 2], ['3', 3], ['2', 3], ['1', 3]]);
+    expect(rated.products[0].category).toMatchObject({ name: 'Crafts', slug: 'crafts' });
+    // Parent categories include their subcategories' products
+    expect(rated.facets.categories.map((category) => [category.value, category.count])).toEqual([
+      ['clothing', 1],
+      ['crafts', 1],
+      ['topis', 1],
+    ]);
+  });
+
+  it('should keep a selected colour listed when nothing matches it', async () => {
+    await createCatalogue();
+
+    const { products, facets } = await getProducts({ color: ['Green'], size: 'Medium Size (1-4 yrs)' });
+
+    expect(products).toHaveLength(0);
+    expect(facets.colors).toContainEqual({ value: 'Green', label: 'Green', count: 0 });
+  });
+});
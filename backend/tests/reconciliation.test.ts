@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import PaymentDiscrepancy from '../models/PaymentDiscrepancy';
+import { PaymentFactory, PaymentService } from '../services/payment';
+import { reconcilePendingPayments } from '../services/paymentReconciliationService';
+
+describe('Payment Reconciliation Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const khalti = PaymentFactory.getGateway('khalti');
+
+  const createPendingPayment = async (pidx: string, minutesAgo: number, orderStatus = 'pending') => {
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Singing Bowl', price: 2500, quantity: 1, subtotal: 2500 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'khalti', status: 'pending' },
+      pricing: { subtotal: 2500, total: 2500 },
+      status: orderStatus,
+    });
+
+    const payment = await Payment.create({
+      order: order._id,
+      user: userId,
+      gateway: 'khalti',
+      amount: 2500,
+      status: 'pending',
+      gatewayResponse: { transactionId: pidx },
+    });
+    // createdAt is immutable through mongoose, so backdate it directly
+    await Payment.collection.updateOne({ _id: payment._id }, { $set: { createdAt: new Date(Date.now() - minutesAgo * 60 * 1000) } });
+
+    return { order, payment };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should complete stuck payments the gateway reports as paid', async () => {
+    const { order, payment } = await createPendingPayment('pidx-paid', 30);
+    const recent = await createPendingPayment('pidx-recent', 2);
+
+    const verify = jest.spyOn(khalti, 'verify').mockResolvedValue({
+      verified: true, status: 'completed', transactionId: 'KH-1', amount: 2500, rawResponse: {},
+    });
+
+    const summary = await reconcilePendingPayments();
+
+    expect(summary).toMatchObject({ checked: 1, completed: 1 });
+    expect(verify).toHaveBeenCalledWith('pidx-paid', { amount: 2500 });
+    expect((await Payment.findById(payment._id))!.status).toBe('completed');
+    expect((await Payment.findById(recent.payment._id))!.status).toBe('pending');
+
+    const reloaded = await Order.findById(order._id);
+    expect(reloaded!.payment.status).toBe('paid');
+    expect(reloaded!.status).toBe('confirmed');
+    expect(await PaymentDiscrepancy.countDocuments()).toBe(0);
+  });
+
+  it('should leave payments untouched when the lookup itself fails', async () => {
+    const { payment } = await createPendingPayment('pidx-down', 30);
+    jest.spyOn(khalti, 'verify').mockResolvedValue({
+      verified: false, status: 'failed', message: 'Verification failed', error: 'ECONNRESET', rawResponse: null,
+    });
+
+    expect((await reconcilePendingPayments()).errors).toBe(1);
+    expect((await Payment.findById(payment._id))!.status).toBe('pending');
+  });
+
+  it('should report money captured for a cancelled order or with the wrong amount', async () => {
+    const { order, payment } = await createPendingPayment('pidx-late', 45, 'cancelled');
+    jest.spyOn(khalti, 'verify').mockResolvedValue({
+      verified: true, status: 'completed', transactionId: 'KH-2', amount: 2000, rawResponse: {},
+    });
+
+    await reconcilePendingPayments();
+
+    const discrepancies = await PaymentDiscrepancy.find({ payment: payment._id }).sort({ type: 1 });
+    expect(discrepancies.map((d) => d.type)).toEqual(['amount_mismatch', 'paid_unmatched']);
+    expect(discrepancies[0]).toMatchObject({ expectedAmount: 2500, gatewayAmount: 2000, resolved: false });
+
+    // The order stays cancelled and unpaid, and what was captured is queued to go back
+    const reloaded = await Order.findById(order._id);
+    expect(reloaded!.status).toBe('cancelled');
+    expect(reloaded!.payment.status).toBe('pending');
+    const refunds = (await Payment.findById(payment._id))!.refunds;
+    expect(refunds.map((r) => [r.amount, r.status])).toEqual([[2000, 'pending']]);
+  });
+
+  it('should keep the payment pending when a manual verify cannot reach the gateway', async () => {
+    const { order, payment } = await createPendingPayment('pidx-verify', 5);
+    jest.spyOn(khalti, 'verify').mockResolvedValue({
+      verified: false, status: 'failed', message: 'Verification failed', error: 'ETIMEDOUT', rawResponse: null,
+    });
+
+    const result = await PaymentService.verifyPayment(order._id.toString(), 'khalti', { pidx: 'pidx-verify' });
+
+    expect(result).toMatchObject({ success: false, status: 'pending' });
+    expect((await Payment.findById(payment._id))!.status).toBe('pending');
+  });
+
+  it('should leave a settled payment as it is when it is verified again', async () => {
+    const { order, payment } = await createPendingPayment('pidx-settled', 5);
+    await Payment.updateOne({ _id: payment._id }, { status: 'refunded', refundAmount: 2500 });
+    const verify = jest.spyOn(khalti, 'verify').mockResolvedValue({
+      verified: true, status: 'completed', transactionId: 'KH-3', amount: 2500, rawResponse: {},
+    });
+
+    const result = await PaymentService.verifyPayment(order._id.toString(), 'khalti', { pidx: 'pidx-settled' });
+
+    expect(result).toMatchObject({ success: false, status: 'refunded' });
+    expect(verify).not.toHaveBeenCalled();
+    expect((await Payment.findById(payment._id))!.status).toBe('refunded');
+  });
+});
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import PaymentEvent from '../models/PaymentEvent';
+import { PaymentService, PaymentFactory } from '../services/payment';
+import { cancelOrder } from '../services/orderService';
+
+describe('Refund Test', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  const createPaidOrder = async () => {
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Pashmina Shawl', price: 1000, quantity: 2, subtotal: 2000 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'esewa', status: 'pending' },
+      pricing: { subtotal: 2000, total: 2000 },
+    });
+    await order.markPaymentComplete('ESEWA-TXN-1');
+
+    const payment = await Payment.create({ order: order._id, user: userId, gateway: 'esewa', amount: 2000 });
+    await payment.markComplete('ESEWA-TXN-1');
+
+    return order;
+  };
+
+  it('should allow several partial refunds up to the captured amount', async () => {
+    const order = await createPaidOrder();
+    const orderId = order._id.toString();
+
+    const first = await PaymentService.refund(orderId, { amount: 500, reason: 'Damaged item' });
+    // eSewa has no refund API, so the refund waits for manual confirmation
+    expect(first.refund.status).toBe('pending');
+
+    await PaymentService.completeRefund(orderId, first.refund._id.toString(), 'PORTAL-1');
+    let reloaded = await Order.findById(orderId);
+    expect(reloaded!.payment.status).toBe('partially_refunded');
+    expect(reloaded!.payment.refundedAmount).toBe(500);
+
+    await expect(PaymentService.refund(orderId, { amount: 1600 })).rejects.toThrow('at most 1500');
+
+    const rest = await PaymentService.refund(orderId);
+    expect(rest.refund.amount).toBe(1500);
+    await PaymentService.completeRefund(orderId, rest.refund._id.toString());
+
+    reloaded = await Order.findById(orderId);
+    expect(reloaded!.payment.status).toBe('refunded');
+    expect(reloaded!.payment.refundedAmount).toBe(2000);
+    await expect(PaymentService.refund(orderId)).rejects.toThrow('fully refunded');
+  });
+
+  it('should give the amount back when the gateway refuses or fails the refund', async () => {
+    const order = await createPaidOrder();
+    const orderId = order._id.toString();
+    const esewa = PaymentFactory.getGateway('esewa');
+
+    jest.spyOn(esewa, 'refund').mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(PaymentService.refund(orderId, { amount: 500 })).rejects.toThrow('Refund failed: socket hang up');
+
+    jest.spyOn(esewa, 'refund').mockResolvedValueOnce({ success: false, message: 'Charge already disputed' });
+    await expect(PaymentService.refund(orderId, { amount: 500 })).rejects.toMatchObject({ statusCode: 502 });
+    jest.restoreAllMocks();
+
+    const { refunds, refundableAmount } = await PaymentService.getRefunds(orderId);
+    expect(refunds.map((r) => r.status)).toEqual(['failed', 'failed']);
+    expect(refundableAmount).toBe(2000);
+    await expect(PaymentService.completeRefund(orderId, refunds[0]._id.toString())).rejects.toThrow('This refund failed');
+
+    const events = await PaymentEvent.find({ order: order._id, type: 'refund' });
+    expect(events.map((e) => e.outcome)).toEqual(['failed', 'failed']);
+  });
+
+  it('should start a full refund when a paid online order is cancelled', async () => {
+    const order = await createPaidOrder();
+
+    await cancelOrder(order._id.toString(), userId.toString(), 'Changed my mind');
+
+    const { refunds, refundableAmount } = await PaymentService.getRefunds(order._id.toString());
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({ amount: 2000, reason: 'Changed my mind' });
+    expect(refundableAmount).toBe(0);
+  });
+});
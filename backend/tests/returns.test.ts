@@ -0,0 +1,222 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Product from '../models/Product';
+import Payment from '../models/Payment';
+import ReturnRequest from '../models/ReturnRequest';
+import { PaymentService } from '../services/payment';
+import {
+  getReturnEligibility,
+  createReturnRequest,
+  cancelReturnRequest,
+  approveReturn,
+  rejectReturn,
+  schedulePickup,
+  markReturnReceived,
+  inspectReturn,
+  completeReturn,
+} from '../services/returnService';
+
+describe('Returns Test', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const DAY = 24 * 60 * 60 * 1000;
+
+  // A paid eSewa order for two of the small size, delivered daysAgo days ago
+  // With tax set, VAT was tracked on the line and added on top of the price
+  const placeDeliveredOrder = async (daysAgo = 1, discount = 0, tax?: number) => {
+    const product = await Product.create({
+      name: 'Hemp Jacket',
+      description: 'Handmade in Nepal',
+      price: 1000,
+      category: new mongoose.Types.ObjectId(),
+      variants: [
+        { size: 'Small Size (0-1 yrs)', color: 'Brown', price: 1000, stock: 5 },
+        { size: 'Medium Size (1-4 yrs)', color: 'Brown', price: 1000, stock: 1 },
+      ],
+    });
+    const [small, medium] = product.variants;
+
+    const lineTax = tax === undefined ? {} : { taxRate: 13, taxableAmount: 2000 - discount, tax };
+    const total = 2000 - discount + (tax || 0);
+
+    const order = await Order.create({
+      user: userId,
+      items: [{ product: product._id, variantId: small._id, name: 'Hemp Jacket', price: 1000, quantity: 2, variant: { size: small.size, color: 'Brown' }, subtotal: 2000, ...lineTax }],
+      shippingAddress: { name: 'Pemba', phone: '9841234567', street: 'Boudha', city: 'Kathmandu', district: 'Kathmandu', province: 3 },
+      payment: { method: 'esewa', status: 'paid' },
+      pricing: { subtotal: 2000, discount, tax: tax || 0, pricesIncludeTax: false, total },
+      status: 'delivered',
+      deliveredAt: new Date(Date.now() - daysAgo * DAY),
+    });
+    const payment = await Payment.create({ order: order._id, user: userId, gateway: 'esewa', amount: total });
+    await payment.markComplete('ESEWA-TXN-1');
+
+    return { order, product, small, medium, itemId: (order.items[0] as any)._id.toString() };
+  };
+
+  const receiveBack = async (returnId: string) => {
+    await approveReturn(returnId, adminId);
+    await schedulePickup(returnId, adminId, { courier: 'Pathao', trackingNumber: 'PTH-1' });
+    await markReturnReceived(returnId, adminId);
+  };
+
+  afterEach(() => {
+    delete process.env.RETURN_WINDOW_DAYS;
+  });
+
+  it('should only accept returns inside the window after delivery', async () => {
+    const { order, itemId } = await placeDeliveredOrder(10);
+    const request = { orderId: order._id.toString(), type: 'return' as const, reason: 'changed_mind' as const, items: [{ itemId, quantity: 1 }] };
+
+    await expect(createReturnRequest(userId, request)).rejects.toThrow('7-day return window');
+
+    process.env.RETURN_WINDOW_DAYS = '14';
+    const returnRequest = await createReturnRequest(userId, request);
+    expect(returnRequest.status).toBe('requested');
+  });
+
+  it('should not let the same units be returned twice', async () => {
+    const { order, itemId } = await placeDeliveredOrder();
+    const orderId = order._id.toString();
+
+    await expect(createReturnRequest(userId, { orderId, type: 'return', reason: 'damaged', items: [{ itemId, quantity: 3 }] }))
+      .rejects.toThrow('Only 2 of "Hemp Jacket" can be returned');
+    await expect(
+      createReturnRequest(userId, { orderId, type: 'return', reason: 'damaged', items: [{ itemId, quantity: 2 }, { itemId, quantity: 2 }] }),
+    ).rejects.toThrow('"Hemp Jacket" is listed more than once');
+
+    const first = await createReturnRequest(userId, { orderId, type: 'return', reason: 'damaged', items: [{ itemId, quantity: 2 }] });
+    expect((await getReturnEligibility(orderId, userId)).eligible).toBe(false);
+
+    // Withdrawn requests give the quantity back
+    await cancelReturnRequest(first._id!.toString(), userId);
+    const eligibility = await getReturnEligibility(orderId, userId);
+    expect(eligibility.items[0].returnable).toBe(2);
+  });
+
+  it('should restock accepted items and refund their share of what was paid', async () => {
+    const { order, product, itemId } = await placeDeliveredOrder(1, 200);
+    const returnRequest = await createReturnRequest(userId, {
+      orderId: order._id.toString(),
+      type: 'return',
+      reason: 'defective',
+      photos: [{ url: 'https://res.cloudinary.com/demo/returns/seam.jpg' }],
+      items: [{ itemId, quantity: 2 }],
+    });
+    const returnId = returnRequest._id!.toString();
+
+    await receiveBack(returnId);
+    await inspectReturn(returnId, adminId, { items: [{ itemId: returnRequest.items[0]._id.toString(), acceptedQuantity: 1, restock: true }] });
+    expect((await Product.findById(product._id))!.variants[0].stock).toBe(6);
+
+    const completed = await completeReturn(returnId, adminId);
+    expect(completed.status).toBe('completed');
+    // One of two jackets, less half the 200 discount
+    expect(completed.resolution).toMatchObject({ type: 'refund', refundAmount: 900 });
+
+    const { refunds } = await PaymentService.getRefunds(order._id.toString());
+    expect(refunds[0]).toMatchObject({ amount: 900, reason: `Return ${completed.returnNumber}` });
+  });
+
+  it('should refund the VAT paid on the items and settle without the gateway once nothing is owed', async () => {
+    const { order, itemId } = await placeDeliveredOrder(1, 200, 234);
+    const orderId = order._id.toString();
+    const request = { orderId, type: 'return' as const, reason: 'defective' as const, items: [{ itemId, quantity: 1 }] };
+
+    const first = await createReturnRequest(userId, request);
+    await receiveBack(first._id!.toString());
+    await inspectReturn(first._id!.toString(), adminId, { items: [{ itemId: first.items[0]._id.toString(), acceptedQuantity: 1, restock: false }] });
+    // Half of the 1800 taxable amount plus half of the 234 VAT
+    expect((await completeReturn(first._id!.toString(), adminId)).resolution).toMatchObject({ refundAmount: 1017 });
+
+    // The rest was paid back by hand before the second jacket came in
+    await PaymentService.refund(orderId, { amount: 1017 }, adminId);
+    const second = await createReturnRequest(userId, request);
+    await receiveBack(second._id!.toString());
+    await inspectReturn(second._id!.toString(), adminId, { items: [{ itemId: second.items[0]._id.toString(), acceptedQuantity: 1, restock: false }] });
+
+    const completed = await completeReturn(second._id!.toString(), adminId);
+    expect(completed.status).toBe('completed');
+    expect(completed.resolution).toMatchObject({ type: 'refund', refundAmount: 0, refund: null });
+    expect((await PaymentService.getRefunds(orderId)).refunds).toHaveLength(2);
+  });
+
+  it('should ship the exchange size as a no-charge replacement order', async () => {
+    const { order, product, small, medium, itemId } = await placeDeliveredOrder();
+    const returnRequest = await createReturnRequest(userId, {
+      orderId: order._id.toString(),
+      type: 'exchange',
+      reason: 'wrong_size',
+      items: [{ itemId, quantity: 1, exchangeVariantId: medium._id.toString() }],
+    });
+    const returnId = returnRequest._id!.toString();
+
+    await receiveBack(returnId);
+    await inspectReturn(returnId, adminId, { items: [{ itemId: returnRequest.items[0]._id.toString(), acceptedQuantity: 1, restock: true }] });
+    const completed = await completeReturn(returnId, adminId);
+
+    const replacement = await Order.findById(completed.resolution!.replacementOrder);
+    expect(replacement).toMatchObject({ status: 'confirmed', pricing: expect.objectContaining({ total: 0 }) });
+    expect(replacement!.items[0].variantId!.toString()).toBe(medium._id.toString());
+    expect(replacement!.replacementFor!.toString()).toBe(returnId);
+
+    const stock = (await Product.findById(product._id))!.variants;
+    expect(stock.find((v) => v._id.equals(small._id))!.stock).toBe(6);
+    expect(stock.find((v) => v._id.equals(medium._id))!.stock).toBe(0);
+  });
+
+  it('should not let requests sent at the same time claim the same units', async () => {
+    const { order, itemId } = await placeDeliveredOrder();
+    const request = { orderId: order._id.toString(), type: 'return' as const, reason: 'damaged' as const, items: [{ itemId, quantity: 2 }] };
+
+    const results = await Promise.allSettled([createReturnRequest(userId, request), createReturnRequest(userId, request)]);
+
+    const created = results.filter((result) => result.status === 'fulfilled');
+    expect(created.length).toBeLessThanOrEqual(1);
+    expect(await ReturnRequest.countDocuments({ order: order._id })).toBe(created.length);
+  });
+
+  it('should restock and refund once when a step is sent twice at the same time', async () => {
+    const { order, product, itemId } = await placeDeliveredOrder();
+    const returnRequest = await createReturnRequest(userId, { orderId: order._id.toString(), type: 'return', reason: 'defective', items: [{ itemId, quantity: 1 }] });
+    const returnId = returnRequest._id!.toString();
+    const inspection = { items: [{ itemId: returnRequest.items[0]._id.toString(), acceptedQuantity: 1, restock: true }] };
+
+    await receiveBack(returnId);
+    const inspected = await Promise.allSettled([inspectReturn(returnId, adminId, inspection), inspectReturn(returnId, adminId, inspection)]);
+    expect(inspected.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect((await Product.findById(product._id))!.variants[0].stock).toBe(6);
+
+    const completed = await Promise.allSettled([completeReturn(returnId, adminId), completeReturn(returnId, adminId)]);
+    expect(completed.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect((await PaymentService.getRefunds(order._id.toString())).refunds).toHaveLength(1);
+  });
+
+  it('should leave a return as it was when its refund fails', async () => {
+    const { order, itemId } = await placeDeliveredOrder();
+    const returnRequest = await createReturnRequest(userId, { orderId: order._id.toString(), type: 'return', reason: 'defective', items: [{ itemId, quantity: 1 }] });
+    const returnId = returnRequest._id!.toString();
+
+    await receiveBack(returnId);
+    await inspectReturn(returnId, adminId, { items: [{ itemId: returnRequest.items[0]._id.toString(), acceptedQuantity: 1, restock: false }] });
+
+    jest.spyOn(PaymentService, 'refund').mockRejectedValueOnce(new Error('Gateway unavailable'));
+    await expect(completeReturn(returnId, adminId)).rejects.toThrow('Gateway unavailable');
+    jest.restoreAllMocks();
+
+    expect(await ReturnRequest.findById(returnId)).toMatchObject({ status: 'inspected', processingAt: null });
+    expect((await completeReturn(returnId, adminId)).status).toBe('completed');
+  });
+
+  it('should enforce the order of return states', async () => {
+    const { order, itemId } = await placeDeliveredOrder();
+    const returnRequest = await createReturnRequest(userId, { orderId: order._id.toString(), type: 'return', reason: 'other', items: [{ itemId, quantity: 1 }] });
+    const returnId = returnRequest._id!.toString();
+
+    await expect(markReturnReceived(returnId, adminId)).rejects.toMatchObject({ statusCode: 400 });
+
+    const rejected = await rejectReturn(returnId, adminId, 'Item shows signs of wear');
+    expect(rejected).toMatchObject({ status: 'rejected', rejectionReason: 'Item shows signs of wear' });
+    await expect(approveReturn(returnId, adminId)).rejects.toThrow('Cannot move a return from rejected to approved');
+  });
+});
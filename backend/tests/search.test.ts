@@ -0,0 +1,61 @@
+import Category from '../models/Category';
+import Product from '../models/Product';
+import { getSuggestions } from '../services/searchService';
+import { cache } from '../utils/cache';
+
+describe('Search Suggestion Test', () => {
+  // Categories are cached between suggestions
+  beforeEach(() => cache.clear());
+
+  const createProduct = async (name: string, soldCount = 0, category?: any) =>
+    Product.create({
+      name,
+      description: 'Made in Nepal',
+      price: 1500,
+      category: category || (await Category.create({ name: `${name} Category` }))._id,
+      stock: 5,
+      soldCount,
+    });
+
+  it('should complete partial words and rank matches by units sold', async () => {
+    await createProduct('Brass Elephant Statue', 3);
+    await createProduct('Wooden Elephant', 40);
+    await createProduct('Singing Bowl', 100);
+
+    const { products, queries } = await getSuggestions('elep');
+
+    expect(products.map((product) => product.name)).toEqual(['Wooden Elephant', 'Brass Elephant Statue']);
+    expect(queries).toEqual(['elephant', 'elephant statue']);
+
+    // A missing letter still finds both through trigrams
+    const typo = await getSuggestions('elphant');
+    expect(typo.products.map((product) => product.name)).toEqual(['Wooden Elephant', 'Brass Elephant Statue']);
+  });
+
+  it('should tolerate misspellings and romanisation variants', async () => {
+    const crafts = await Category.create({ name: 'Dhaka Topis' });
+    await createProduct('Dhaka Topi', 10, crafts._id);
+    await createProduct('Pashmina Shawl', 5);
+
+    expect((await getSuggestions('pasmina')).products.map((product) => product.name)).toEqual(['Pashmina Shawl']);
+    expect((await getSuggestions('pashmeena sawl')).products.map((product) => product.name)).toEqual(['Pashmina Shawl']);
+
+    const topi = await getSuggestions('daka topee');
+    expect(topi.products.map((product) => product.name)).toEqual(['Dhaka Topi']);
+    expect(topi.categories).toEqual([expect.objectContaining({ name: 'Dhaka Topis', slug: 'dhaka-topis' })]);
+    expect(topi.queries).toContain('daka topi');
+  });
+
+  it('should keep the index in step with the product name and out of responses', async () => {
+    const product = await createProduct('Singing Bowl');
+    expect(product.toJSON()).not.toHaveProperty('searchPrefixes');
+
+    product.name = 'Prayer Wheel';
+    await product.save();
+
+    expect((await getSuggestions('sing')).products).toHaveLength(0);
+    expect((await getSuggestions('pray')).products).toEqual([
+      expect.objectContaining({ name: 'Prayer Wheel', slug: 'prayer-wheel', price: 1500, image: null }),
+    ]);
+  });
+});
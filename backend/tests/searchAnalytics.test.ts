@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import Category from '../models/Category';
+import Product from '../models/Product';
+import SearchLog from '../models/SearchLog';
+import {
+  createSynonym,
+  deleteSynonym,
+  expandSearch,
+  getSearchReport,
+  getSuggestions,
+  logSearch,
+  recordSearchClick,
+} from '../services/searchService';
+import { cache } from '../utils/cache';
+
+describe('Search Analytics Test', () => {
+  // Synonyms and categories are cached between searches
+  beforeEach(() => cache.clear());
+
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  const logMany = async (query: string, count: number, resultCount: number, clicks = 0) => {
+    const productId = new mongoose.Types.ObjectId().toString();
+    for (let i = 0; i < count; i++) {
+      const id = await logSearch({ query, resultCount, platform: 'web' });
+      if (i < clicks) await recordSearchClick(id, productId);
+    }
+  };
+
+  it('should record clicks once per product and stamp the first click', async () => {
+    const id = await logSearch({ query: '  Dhaka Topi ', resultCount: 3, platform: 'android' });
+    const productId = new mongoose.Types.ObjectId().toString();
+
+    await recordSearchClick(id, productId);
+    await recordSearchClick(id, productId);
+
+    const log = await SearchLog.findById(id);
+    expect(log!.query).toBe('Dhaka Topi');
+    expect(log!.normalizedQuery).toBe('daka topi');
+    expect(log!.platform).toBe('android');
+    expect(log!.clickedProducts).toHaveLength(1);
+    expect(log!.firstClickAt).toBeInstanceOf(Date);
+
+    await expect(recordSearchClick(new mongoose.Types.ObjectId().toString(), productId)).rejects.toThrow('Search not found');
+  });
+
+  it('should store the log under an id handed out before the write', async () => {
+    const id = new mongoose.Types.ObjectId();
+
+    expect(await logSearch({ id, query: 'singing bowl', resultCount: 2 })).toBe(id.toString());
+    expect(await SearchLog.findById(id)).not.toBeNull();
+  });
+
+  it('should report top, zero-result and low click-through queries', async () => {
+    await logMany('topi', 6, 4, 5);
+    await logMany('Topee', 2, 4);
+    await logMany('singing bowl', 5, 2, 1);
+    await logMany('yak cheese', 3, 0);
+
+    const report = await getSearchReport();
+
+    // Spelling variants are grouped under one query
+    expect(report.topQueries[0]).toMatchObject({ searches: 8, zeroResultSearches: 0, clickThroughRate: 0.625 });
+    expect(report.zeroResultQueries.map((row) => [row.query, row.zeroResultSearches])).toEqual([['yak cheese', 3]]);
+    expect(report.lowClickThroughQueries.map((row) => [row.query, row.clickThroughRate])).toEqual([
+      ['singing bowl', 0.2],
+      ['Topee', 0.625],
+    ]);
+    expect(report.totals).toEqual({ searches: 16, uniqueQueries: 3, zeroResultSearches: 3, clickThroughRate: 0.462 });
+
+    const future = await getSearchReport({ from: new Date(Date.now() + 60 * 60 * 1000) });
+    expect(future.totals.searches).toBe(0);
+    expect(future.topQueries).toHaveLength(0);
+  });
+
+  it('should apply synonyms to listings and suggestions until removed', async () => {
+    const category = await Category.create({ name: 'Headwear' });
+    await Product.create({ name: 'Woollen Hat', description: 'Made in Nepal', price: 900, category: category._id, stock: 5 });
+
+    expect((await getSuggestions('topi')).products).toHaveLength(0);
+
+    const synonym = await createSynonym({ term: 'Topi', synonyms: ['hat', 'cap'] }, adminId);
+    expect(synonym.term).toBe('topi');
+    await expect(createSynonym({ term: 'topi', synonyms: ['hat'] }, adminId)).rejects.toThrow('already exist');
+
+    expect(await expandSearch('red topee')).toBe('red topee hat cap');
+    expect((await getSuggestions('topi')).products.map((product) => product.name)).toEqual(['Woollen Hat']);
+
+    await deleteSynonym(synonym._id.toString());
+    expect(await expandSearch('red topee')).toBe('red topee');
+  });
+});
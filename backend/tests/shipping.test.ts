@@ -0,0 +1,128 @@
+import ShippingZone from '../models/ShippingZone';
+import {
+  calculateShippingCost,
+  getShippingOptions,
+  seedDefaultShippingZones,
+} from '../services/shippingService';
+
+describe('Shipping Test', () => {
+  beforeEach(async () => {
+    await ShippingZone.create([
+      {
+        name: 'Kathmandu Valley',
+        districts: ['Kathmandu', 'Lalitpur', 'Bhaktapur'],
+        rules: [
+          { name: 'Standard', flatRate: 100, freeShippingThreshold: 5000, minDays: 1, maxDays: 2 },
+          { name: 'Express', flatRate: 250, minDays: 0, maxDays: 1 },
+        ],
+      },
+      {
+        name: 'Bagmati',
+        provinces: [3],
+        rules: [
+          {
+            name: 'Standard',
+            rateType: 'weight',
+            baseRate: 150,
+            baseWeight: 1,
+            perKgRate: 50,
+            minDays: 2,
+            maxDays: 4,
+          },
+        ],
+      },
+      { name: 'Rest of Nepal', rules: [{ name: 'Standard', flatRate: 200 }] },
+    ]);
+  });
+
+  it('should prefer a district zone over a province zone', async () => {
+    const options = await getShippingOptions(
+      { district: 'lalitpur', province: 3 },
+      { subtotal: 1000, weight: 0.5 },
+    );
+
+    expect(options.map((o) => o.name)).toEqual(['Standard', 'Express']);
+    expect(options[0].zoneName).toBe('Kathmandu Valley');
+    expect(options[0].cost).toBe(100);
+    expect(options[0].estimatedDays).toEqual({ min: 1, max: 2 });
+  });
+
+  it('should charge every started kg above the base weight', async () => {
+    const [option] = await getShippingOptions(
+      { district: 'Chitwan', province: 3 },
+      { subtotal: 1000, weight: 2.2 },
+    );
+
+    expect(option.zoneName).toBe('Bagmati');
+    expect(option.cost).toBe(250);
+  });
+
+  it('should apply free shipping thresholds per rule', async () => {
+    const options = await getShippingOptions(
+      { district: 'Kathmandu', province: 3 },
+      { subtotal: 6000, weight: 1 },
+    );
+
+    expect(options.find((o) => o.name === 'Standard')!.isFree).toBe(true);
+    expect(options.find((o) => o.name === 'Express')!.cost).toBe(250);
+  });
+
+  it('should fall back to the catch-all zone and reject unknown rules', async () => {
+    const option = await calculateShippingCost(
+      { district: 'Jumla', province: 6 },
+      { subtotal: 1000, weight: 0 },
+    );
+    expect(option.zoneName).toBe('Rest of Nepal');
+    expect(option.cost).toBe(200);
+
+    await expect(
+      calculateShippingCost(
+        { district: 'Jumla', province: 6 },
+        { subtotal: 1000, weight: 0 },
+        '507f1f77bcf86cd799439011',
+      ),
+    ).rejects.toThrow('not available');
+  });
+
+  it('should keep free shipping over NPR 5000 when no zone is configured', async () => {
+    await ShippingZone.deleteMany({});
+
+    const [paid] = await getShippingOptions(
+      { district: 'Jumla', province: 6 },
+      { subtotal: 1000, weight: 0 },
+    );
+    const [free] = await getShippingOptions(
+      { district: 'Jumla', province: 6 },
+      { subtotal: 5000, weight: 0 },
+    );
+
+    expect(paid.cost).toBe(200);
+    expect(free.cost).toBe(0);
+    expect(free.isFree).toBe(true);
+  });
+
+  it('should seed the old rates only when no zones exist', async () => {
+    expect(await seedDefaultShippingZones()).toBe(0);
+    expect(await ShippingZone.countDocuments()).toBe(3);
+
+    await ShippingZone.deleteMany({});
+    expect(await seedDefaultShippingZones()).toBe(6);
+
+    const valley = await calculateShippingCost(
+      { district: 'Bhaktapur', province: 3 },
+      { subtotal: 1000, weight: 0 },
+    );
+    const karnali = await calculateShippingCost(
+      { district: 'Jumla', province: 6 },
+      { subtotal: 1000, weight: 0 },
+    );
+    const free = await calculateShippingCost(
+      { district: 'Jumla', province: 6 },
+      { subtotal: 5000, weight: 0 },
+    );
+
+    expect(valley.cost).toBe(100);
+    expect(karnali.cost).toBe(300);
+    expect(free.cost).toBe(0);
+  });
+});
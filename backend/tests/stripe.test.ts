@@ -0,0 +1,108 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import { StripeGateway } from '../services/payment';
+import { createStripeStandIn, signPayload } from '../scripts/stripeStandIn';
+
+describe('Stripe Gateway Test', () => {
+  let server: Server;
+  let baseUrl: string;
+  let gateway: StripeGateway;
+
+  const order = {
+    _id: new mongoose.Types.ObjectId(),
+    orderNumber: 'BH-1001',
+    pricing: { total: 13300 },
+  } as any;
+
+  const confirm = (intentId: string, paymentMethod = 'pm_card_visa') =>
+    axios.post(`${baseUrl}/v1/payment_intents/${intentId}/confirm`, `payment_method=${paymentMethod}`, {
+      headers: { Authorization: 'Bearer sk_test_stand_in' },
+    });
+
+  beforeAll(async () => {
+    server = createStripeStandIn().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.STRIPE_API_BASE = baseUrl;
+    process.env.STRIPE_SECRET_KEY = 'sk_test_stand_in';
+    process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test';
+    process.env.STRIPE_NPR_PER_USD = '133';
+    gateway = new StripeGateway();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should charge in USD and verify once the intent succeeds', async () => {
+    const result = await gateway.initiate(order, { name: 'Jane Doe', email: 'jane@example.com', phone: '' });
+    expect(result.success).toBe(true);
+    expect(result.clientSecret).toContain(result.transactionId);
+    expect(result).toMatchObject({ amount: 100, currency: 'USD', exchangeRate: 133 });
+
+    // Not paid yet, but the customer is still entering their card
+    expect((await gateway.verify(result.transactionId, {})).status).toBe('pending');
+
+    await confirm(result.transactionId);
+    const verified = await gateway.verify(result.transactionId, {});
+    expect(verified).toMatchObject({ verified: true, status: 'completed', amount: 13300 });
+  });
+
+  it('should not verify a declined card', async () => {
+    const result = await gateway.initiate(order, { name: 'Jane Doe', email: 'jane@example.com', phone: '' });
+    await confirm(result.transactionId, 'pm_card_chargeDeclined');
+
+    const verified = await gateway.verify(result.transactionId, {});
+    expect(verified.verified).toBe(false);
+  });
+
+  it('should refund NPR amounts up to the captured charge', async () => {
+    const result = await gateway.initiate(order, { name: 'Jane Doe', email: 'jane@example.com', phone: '' });
+    await confirm(result.transactionId);
+
+    // NPR 5320 = USD 40
+    expect((await gateway.refund(result.transactionId, 5320)).success).toBe(true);
+    expect((await gateway.refund(result.transactionId, 9310)).success).toBe(false);
+    expect((await gateway.refund(result.transactionId, 7980)).success).toBe(true);
+  });
+
+  it('should never refund more cents than the charge has left', async () => {
+    const result = await gateway.initiate(order, { name: 'Jane Doe', email: 'jane@example.com', phone: '' });
+    await confirm(result.transactionId);
+
+    // NPR 0.67 is just over half a cent, so each of these rounds up to a whole one
+    expect((await gateway.refund(result.transactionId, 0.67)).success).toBe(true);
+    expect((await gateway.refund(result.transactionId, 0.67)).success).toBe(true);
+    // The rest rounds to 9999 cents, but only 9998 are left
+    expect((await gateway.refund(result.transactionId, 13298.66)).success).toBe(true);
+    expect(await gateway.refund(result.transactionId, 1)).toMatchObject({ success: false, message: 'Nothing is left to refund on this charge' });
+  });
+
+  it('should refund at the rate the payment was charged at', async () => {
+    const result = await gateway.initiate(order, { name: 'Jane Doe', email: 'jane@example.com', phone: '' });
+    await confirm(result.transactionId);
+
+    process.env.STRIPE_NPR_PER_USD = '140';
+    const later = new StripeGateway();
+    process.env.STRIPE_NPR_PER_USD = '133';
+
+    // NPR 13300 is the whole USD 100 at the stored rate, but only USD 95 at today's
+    const refund = await later.refund(result.transactionId, 13300, result.exchangeRate);
+    expect(refund.success).toBe(true);
+    expect((await later.refund(result.transactionId, 133, result.exchangeRate)).success).toBe(false);
+  });
+
+  it('should only accept webhooks signed with the endpoint secret', () => {
+    const payload = JSON.stringify({ type: 'payment_intent.succeeded', data: { object: { id: 'pi_1' } } });
+
+    expect(gateway.constructWebhookEvent(Buffer.from(payload), signPayload(payload, 'whsec_test')).type).toBe('payment_intent.succeeded');
+    expect(() => gateway.constructWebhookEvent(Buffer.from(payload), signPayload(payload, 'whsec_other'))).toThrow('verification failed');
+    expect(() => gateway.constructWebhookEvent(Buffer.from(payload), undefined)).toThrow('signature header');
+
+    const stale = `t=${Math.floor(Date.now() / 1000) - 600},v1=${'0'.repeat(64)}`;
+    expect(() => gateway.constructWebhookEvent(payload, stale)).toThrow('tolerance');
+  });
+});
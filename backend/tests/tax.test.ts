@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+import Cart from '../models/Cart';
+import Category from '../models/Category';
+import Order from '../models/Order';
+import Product from '../models/Product';
+import ReturnRequest from '../models/ReturnRequest';
+import { createOrder } from '../services/orderService';
+import { getFiscalYear, getFiscalYearRange } from '../utils/helpers';
+import { calculateOrderTax, resolveTaxClasses, getVatRegister } from '../services/taxService';
+
+describe('Tax Test', () => {
+  const vat = { enabled: true, rate: 13 };
+
+  afterEach(() => {
+    delete process.env.VAT_ENABLED;
+    delete process.env.PRICES_INCLUDE_VAT;
+  });
+
+  it('should take VAT out of tax-inclusive prices after sharing the discount across lines', () => {
+    const { lines, tax } = calculateOrderTax(
+      [{ subtotal: 1130, taxClass: 'standard' }, { subtotal: 500, taxClass: 'exempt' }],
+      163,
+      { ...vat, pricesIncludeTax: true },
+    );
+
+    expect(lines).toEqual([
+      { taxClass: 'standard', taxRate: 13, taxableAmount: 900, tax: 117 },
+      { taxClass: 'exempt', taxRate: 0, taxableAmount: 450, tax: 0 },
+    ]);
+    expect(tax).toBe(117);
+  });
+
+  it('should add VAT on top of tax-exclusive prices', () => {
+    const { lines, tax, pricesIncludeTax } = calculateOrderTax(
+      [{ subtotal: 1000, taxClass: 'standard' }, { subtotal: 500, taxClass: 'zero_rated' }],
+      150,
+      { ...vat, pricesIncludeTax: false },
+    );
+
+    expect(lines[0]).toEqual({ taxClass: 'standard', taxRate: 13, taxableAmount: 900, tax: 117 });
+    expect(lines[1]).toEqual({ taxClass: 'zero_rated', taxRate: 0, taxableAmount: 450, tax: 0 });
+    expect(tax).toBe(117);
+    expect(pricesIncludeTax).toBe(false);
+  });
+
+  it('should inherit tax classes from the nearest category that sets one', async () => {
+    const books = await Category.create({ name: 'Books', taxClass: 'exempt' });
+    const nepaliBooks = await Category.create({ name: 'Nepali Books', parent: books._id });
+    const crafts = await Category.create({ name: 'Crafts' });
+    const products = [
+      { _id: new mongoose.Types.ObjectId(), taxClass: null, category: nepaliBooks._id },
+      { _id: new mongoose.Types.ObjectId(), taxClass: 'standard' as const, category: nepaliBooks._id },
+      { _id: new mongoose.Types.ObjectId(), taxClass: null, category: crafts._id },
+    ];
+
+    const classes = await resolveTaxClasses(products);
+
+    expect(products.map((product) => classes.get(product._id.toString()))).toEqual(['exempt', 'standard', 'standard']);
+  });
+
+  it('should charge VAT per line at checkout and list the sale in the register', async () => {
+    process.env.VAT_ENABLED = 'true';
+    process.env.PRICES_INCLUDE_VAT = 'false';
+    const product = await Product.create({
+      name: 'Singing Bowl',
+      description: 'Hand-beaten in Patan',
+      price: 1000,
+      category: (await Category.create({ name: 'Crafts' }))._id,
+      stock: 5,
+    });
+    const user = new mongoose.Types.ObjectId();
+    await Cart.create({ user, items: [{ product: product._id, quantity: 2 }] });
+
+    const order = await createOrder(user.toString(), {
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      paymentMethod: 'cod',
+    });
+
+    expect(order.items[0]).toMatchObject({ taxClass: 'standard', taxRate: 13, taxableAmount: 2000, tax: 260 });
+    expect(order.pricing.tax).toBe(260);
+    expect(order.pricing.total).toBe(2000 + order.pricing.shippingCost + 260);
+
+    await Order.updateOne({ _id: order._id }, { status: 'confirmed' });
+    const register = await getVatRegister();
+
+    expect(register.rows).toHaveLength(1);
+    expect(register.rows[0]).toMatchObject({ orderNumber: order.orderNumber, taxableAmount: 2000, vat: 260, totalSales: 2260 });
+    expect(register.totals.vat).toBe(260);
+  });
+
+  it('should net discounts and refunded returns off the register and leave out replacements', async () => {
+    const user = new mongoose.Types.ObjectId();
+    const placeSale = (orderNumber: string, extra: Record<string, unknown> = {}) => Order.create({
+      orderNumber,
+      user,
+      // A line from before VAT was tracked: no taxable amount of its own
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Prayer Flags', price: 500, quantity: 4, subtotal: 2000 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'cod', status: 'paid' },
+      pricing: { subtotal: 2000, discount: 400, total: 1600 },
+      status: 'delivered',
+      ...extra,
+    });
+
+    const sale = await placeSale('BH-TAX-1');
+    await placeSale('BH-TAX-2', { pricing: { subtotal: 2000, total: 0 }, replacementFor: new mongoose.Types.ObjectId() });
+    await ReturnRequest.create({
+      order: sale._id,
+      user,
+      type: 'return',
+      reason: 'damaged',
+      status: 'completed',
+      items: [{ orderItem: (sale.items[0] as any)._id, product: sale.items[0].product, name: 'Prayer Flags', price: 500, quantity: 1, acceptedQuantity: 1 }],
+      resolution: { type: 'refund', refundAmount: 400 },
+    });
+
+    const register = await getVatRegister();
+
+    expect(register.rows.map((row) => row.orderNumber)).toEqual(['BH-TAX-1']);
+    // 2000 less the 400 discount, then less the returned quarter
+    expect(register.rows[0]).toMatchObject({ taxableAmount: 1200, totalSales: 1200 });
+  });
+
+  it('should date invoiced sales by their invoice', async () => {
+    const user = new mongoose.Types.ObjectId();
+    const lastYear = new Date(getFiscalYearRange(getFiscalYear()).from.getTime() - 24 * 60 * 60 * 1000);
+    const order = await Order.create({
+      user,
+      items: [{ product: new mongoose.Types.ObjectId(), name: 'Singing Bowl', price: 1000, quantity: 1, subtotal: 1000, taxableAmount: 1000, tax: 130 }],
+      shippingAddress: { name: 'Bimala', phone: '9841234567', street: 'Jhamsikhel', city: 'Lalitpur', district: 'Lalitpur', province: 3 },
+      payment: { method: 'cod', status: 'paid' },
+      pricing: { subtotal: 1000, tax: 130, total: 1130 },
+      status: 'delivered',
+      invoice: { number: 'INV-TEST-00001', fiscalYear: getFiscalYear(), issuedAt: new Date() },
+    });
+    await Order.collection.updateOne({ _id: order._id }, { $set: { createdAt: lastYear } });
+
+    const register = await getVatRegister();
+
+    expect(register.rows).toHaveLength(1);
+    expect(register.rows[0]).toMatchObject({ invoiceNumber: 'INV-TEST-00001', vat: 130 });
+    expect(register.rows[0].date.getTime()).toBe(order.invoice!.issuedAt.getTime());
+  });
+});
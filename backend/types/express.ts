@@ -22,6 +22,7 @@ declare global {
       user?: IUser;
       isOwner?: boolean;
       isAdmin?: boolean;
+      rawBody?: Buffer;
     }
   }
 }
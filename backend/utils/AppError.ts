@@ -6,11 +6,13 @@ class AppError extends Error {
     public statusCode: number;
     public status: string;
     public isOperational: boolean;
+    public details?: unknown[]; // Structured per-field/per-item errors
 
-    constructor(message: string, statusCode: number) {
+    constructor(message: string, statusCode: number, details?: unknown[]) {
         super(message);
 
         this.statusCode = statusCode;
+        if (details) this.details = details;
         this.status = `${statusCode}`.startsWith('4') ? 'fail' : 'error';
         this.isOperational = true; // Distinguishes from programming errors
 
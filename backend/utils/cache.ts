@@ -108,6 +108,7 @@ export const CACHE_KEYS = {
   CATEGORY_TREE: "category_tree",
   FEATURED_PRODUCTS: (limit: number) => `featured_products_${limit}`,
   PRODUCT: (slug: string) => `product_${slug}`,
+  SEARCH_SYNONYMS: "search_synonyms",
 };
 
 export default cache;
@@ -3,7 +3,8 @@
  * Shared constants for the backend
  */
 
-// Product size options
+// Standard sizes: the seeded Size attribute's values and the storefront
+// size filter's order. Variants may use any size a category allows
 export const PRODUCT_SIZES = [
   "Small Size (0-1 yrs)",
   "Medium Size (1-4 yrs)",
@@ -15,3 +16,27 @@ export const PRODUCT_SIZES = [
 ] as const;
 
 export type ProductSize = (typeof PRODUCT_SIZES)[number];
+
+// Storefront price filter buckets in NPR; max is exclusive, null has no top
+export const PRICE_BUCKETS = [
+  { min: 0, max: 1000 },
+  { min: 1000, max: 2500 },
+  { min: 2500, max: 5000 },
+  { min: 5000, max: 10000 },
+  { min: 10000, max: null },
+] as const;
+
+// Storefront rating filter: average rating of at least this many stars
+export const RATING_BANDS = [4, 3, 2, 1] as const;
+
+// Reports group and filter by the store's local day (Nepal Time, no DST)
+export const STORE_TIMEZONE = "Asia/Kathmandu";
+export const STORE_UTC_OFFSET = "+05:45";
+
+// Nepal's fiscal year starts on Shrawan 1, which falls on 16 or 17 July
+export const FISCAL_YEAR_START = { month: 7, day: 16 } as const;
+
+// VAT treatment of a product: 13% VAT, zero-rated (exports) or exempt
+export const TAX_CLASSES = ["standard", "zero_rated", "exempt"] as const;
+
+export type TaxClass = (typeof TAX_CLASSES)[number];
@@ -1,4 +1,5 @@
 import slugify from 'slugify';
+import { STORE_UTC_OFFSET, FISCAL_YEAR_START } from './constants';
 
 /**
  * Helper Utilities
@@ -70,6 +71,11 @@ export const filterObject = (obj: Record<string, any>, allowedFields: string[]):
     return filtered;
 };
 
+/**
+ * Escape user input for use as a literal inside a regular expression
+ */
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 /**
  * Format price in NPR (Nepali Rupees)
  */
@@ -91,3 +97,77 @@ export const isValidNepaliPhone = (phone: string): boolean => {
     const pattern = /^(\+?977)?[0-9]{10}$/;
     return pattern.test(cleaned);
 };
+
+/**
+ * How long stock stays reserved for an unpaid online order
+ */
+export const getReservationTtlMinutes = (): number =>
+    parseInt(process.env.ORDER_RESERVATION_TTL_MINUTES || '30');
+
+/**
+ * Days after delivery a customer can still request a return or exchange
+ */
+export const getReturnWindowDays = (): number =>
+    parseInt(process.env.RETURN_WINDOW_DAYS || '7');
+
+/**
+ * Build a CSV document, quoting cells that contain commas, quotes or line breaks
+ */
+export const toCsv = (headers: string[], rows: (string | number | null | undefined)[][]): string => {
+    const escape = (value: string | number | null | undefined): string => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [headers, ...rows].map((row) => row.map(escape).join(',')).join('\r\n');
+};
+
+/**
+ * Parse report from/to query values
+ * A date-only value (YYYY-MM-DD) covers that whole day in store time
+ */
+export const parseDateRange = (from?: unknown, to?: unknown): { from?: Date; to?: Date } => {
+    const parse = (value: unknown, time: string): Date | undefined => {
+        if (!value) return undefined;
+        const text = String(value);
+        return new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T${time}${STORE_UTC_OFFSET}` : text);
+    };
+
+    return { from: parse(from, '00:00:00.000'), to: parse(to, '23:59:59.999') };
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) of a moment in store time
+ */
+export const toStoreDate = (date: Date): string => {
+    const [, sign, hours, minutes] = /^([+-])(\d{2}):(\d{2})$/.exec(STORE_UTC_OFFSET) || [];
+    const offsetMs = (Number(hours) * 60 + Number(minutes)) * 60 * 1000 * (sign === '-' ? -1 : 1);
+    return new Date(date.getTime() + offsetMs).toISOString().slice(0, 10);
+};
+
+// Bikram Sambat years run 56 years and 8 months ahead of AD,
+// so a fiscal year starting in July of AD year Y is BS year Y + 57
+const BS_YEAR_OFFSET = 57;
+
+const fiscalYearStart = (adYear: number): Date => {
+    const month = String(FISCAL_YEAR_START.month).padStart(2, '0');
+    const day = String(FISCAL_YEAR_START.day).padStart(2, '0');
+    return new Date(`${adYear}-${month}-${day}T00:00:00.000${STORE_UTC_OFFSET}`);
+};
+
+/**
+ * Nepali fiscal year a moment falls in, e.g. "2082/83", judged by the store's local day
+ */
+export const getFiscalYear = (date: Date = new Date()): string => {
+    const adYear = date >= fiscalYearStart(date.getUTCFullYear()) ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+    const bsYear = adYear + BS_YEAR_OFFSET;
+    return `${bsYear}/${String((bsYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Start (inclusive) and end (exclusive) of a fiscal year given as "2082/83"
+ */
+export const getFiscalYearRange = (fiscalYear: string): { from: Date; to: Date } => {
+    const adYear = parseInt(fiscalYear.slice(0, 4)) - BS_YEAR_OFFSET;
+    return { from: fiscalYearStart(adYear), to: fiscalYearStart(adYear + 1) };
+};
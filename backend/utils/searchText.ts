@@ -0,0 +1,96 @@
+/**
+ * Search text helpers
+ * Normalises product names and queries into the grams used for suggestions
+ */
+
+// Longest prefix stored per word; longer query words are cut to match
+export const MAX_EDGE_GRAM = 15;
+
+// Nepali words are romanised many ways ("dhaka"/"daka", "topee"/"topi",
+// "pashmina"/"pasmina"), so both sides are folded to one spelling
+const ROMANIZATION_RULES: [RegExp, string][] = [
+  [/ee/g, "i"],
+  [/oo/g, "u"],
+  [/aa/g, "a"],
+  [/ph/g, "f"],
+  [/w/g, "v"],
+  [/([bcdgjkpst])h/g, "$1"],
+  [/([a-z])\1+/g, "$1"],
+];
+
+/**
+ * Lowercase, strip accents and punctuation, and fold romanisation variants
+ */
+export const foldSearchText = (text: string): string => {
+  let folded = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ");
+  for (const [pattern, replacement] of ROMANIZATION_RULES) {
+    folded = folded.replace(pattern, replacement);
+  }
+  return folded.replace(/\s+/g, " ").trim();
+};
+
+/**
+ * Folded words of a piece of text
+ */
+export const searchTokens = (text: string): string[] =>
+  foldSearchText(text).split(" ").filter(Boolean);
+
+/**
+ * Spellings a half-typed word may have once finished and folded: "elep"
+ * could become "elef(ant)" and "tope" could become "topi"
+ */
+export const partialVariants = (token: string): string[] => {
+  const variants = [token];
+  const stem = token.slice(0, -1);
+  if (token.endsWith("p")) variants.push(`${stem}f`);
+  if (token.endsWith("e")) variants.push(`${stem}i`);
+  if (token.endsWith("o")) variants.push(`${stem}u`);
+  return variants;
+};
+
+/**
+ * Every prefix of each word, so "elep" finds "elephant"
+ */
+export const edgeGrams = (tokens: string[]): string[] => {
+  const grams = new Set<string>();
+  tokens.forEach((token) => {
+    const word = token.slice(0, MAX_EDGE_GRAM);
+    for (let length = 1; length <= word.length; length++) {
+      grams.add(word.slice(0, length));
+    }
+  });
+  return [...grams];
+};
+
+/**
+ * Three-letter slices of each word, padded at the start (and at the end for
+ * finished words), for matching misspellings
+ */
+export const trigrams = (tokens: string[], partialLast = false): string[] => {
+  const grams = new Set<string>();
+  tokens.forEach((token, index) => {
+    const finished = !(partialLast && index === tokens.length - 1);
+    const padded = ` ${token}${finished ? " " : ""}`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  });
+  return [...grams];
+};
+
+/**
+ * Share of the query's trigrams found in the candidate's
+ */
+export const trigramSimilarity = (
+  queryGrams: string[],
+  candidateGrams: string[],
+): number => {
+  if (queryGrams.length === 0) return 0;
+  const candidate = new Set(candidateGrams);
+  const shared = queryGrams.filter((gram) => candidate.has(gram)).length;
+  return shared / queryGrams.length;
+};
@@ -7,12 +7,35 @@ import type { AxiosResponse } from "axios";
 import type {
   IApiResponse,
   IProduct,
+  IProductVariant,
   ICategory,
   IOrder,
   IUser,
   IDashboardStats,
   IAnalytics,
   OrderStatus,
+  IRefund,
+  IRefundLedger,
+  IPaymentEvent,
+  IPaymentDiscrepancy,
+  IReconciliationSummary,
+  DiscrepancyType,
+  ICodRemittance,
+  ICodReport,
+  RemittanceStatus,
+  IFinanceReport,
+  IVatRegister,
+  FinanceInterval,
+  PaymentMethod,
+  IShippingAddress,
+  IReturnRequest,
+  ReturnStatus,
+  ICourier,
+  ShipmentStatus,
+  ISearchReport,
+  ISearchSynonym,
+  IAttribute,
+  AttributeType,
 } from "../types";
 
 // Types
@@ -38,6 +61,66 @@ interface UserQueryParams {
   search?: string;
 }
 
+interface DiscrepancyQueryParams {
+  page?: number;
+  limit?: number;
+  status?: "open" | "resolved";
+  type?: DiscrepancyType;
+}
+
+interface RemittanceQueryParams {
+  page?: number;
+  limit?: number;
+  status?: RemittanceStatus;
+  collector?: string;
+}
+
+interface CodReportParams {
+  from?: string;
+  to?: string;
+  collector?: string;
+}
+
+// Items replace the order's lines; omit a field to leave it as it is
+interface OrderEditData {
+  items?: { product: string; variantId?: string | null; quantity: number }[];
+  shippingAddress?: IShippingAddress;
+  shippingRuleId?: string | null;
+  note?: string;
+}
+
+interface FinanceReportParams {
+  from?: string;
+  to?: string;
+  interval?: FinanceInterval;
+  gateway?: PaymentMethod;
+}
+
+interface SearchReportParams {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface SynonymData {
+  term: string;
+  synonyms: string[];
+}
+
+interface AttributeData {
+  name: string;
+  type?: AttributeType;
+  values?: string[];
+  unit?: string;
+}
+
+interface ReturnQueryParams {
+  page?: number;
+  limit?: number;
+  status?: ReturnStatus;
+  order?: string;
+}
+
 type ApiResponse<T> = Promise<AxiosResponse<IApiResponse<T>>>;
 
 /**
@@ -109,6 +192,13 @@ export const uploadVariantImage = (
     },
   );
 
+// Rows with an _id change that variant, the others are added
+export const patchProductVariants = (
+  productId: string,
+  variants: Partial<IProductVariant>[],
+): ApiResponse<{ product: IProduct }> =>
+  api.patch(`/admin/products/${productId}/variants`, { variants });
+
 /**
  * Categories APIs
  */
@@ -140,6 +230,32 @@ export const uploadCategoryImage = (
     headers: { "Content-Type": "multipart/form-data" },
   });
 
+// Attributes the category's variants carry, including its parents'
+export const getCategoryAttributes = (
+  id: string,
+): ApiResponse<{ attributes: IAttribute[] }> =>
+  api.get(`/admin/categories/${id}/attributes`);
+
+/**
+ * Attributes APIs
+ */
+export const getAttributes = (): ApiResponse<{ attributes: IAttribute[] }> =>
+  api.get("/admin/attributes");
+
+export const createAttribute = (
+  data: AttributeData,
+): ApiResponse<{ attribute: IAttribute }> =>
+  api.post("/admin/attributes", data);
+
+export const updateAttribute = (
+  id: string,
+  data: Partial<AttributeData>,
+): ApiResponse<{ attribute: IAttribute }> =>
+  api.put(`/admin/attributes/${id}`, data);
+
+export const deleteAttribute = (id: string): ApiResponse<null> =>
+  api.delete(`/admin/attributes/${id}`);
+
 /**
  * Orders APIs
  */
@@ -165,10 +281,293 @@ export const updateOrderStatus = (
 ): ApiResponse<{ order: IOrder }> =>
   api.put(`/admin/orders/${id}/status`, { status, note });
 
+export const editOrder = (
+  id: string,
+  data: OrderEditData,
+): ApiResponse<{ order: IOrder }> => api.patch(`/admin/orders/${id}`, data);
+
 export const markCODCollected = (
   orderId: string,
+  data: { collectedBy: string; amount?: number },
+): ApiResponse<{ order: IOrder }> =>
+  api.post("/admin/payments/cod-collected", { orderId, ...data });
+
+export const getOrderRefunds = (id: string): ApiResponse<IRefundLedger> =>
+  api.get(`/admin/orders/${id}/refunds`);
+
+export const getOrderPaymentEvents = (
+  id: string,
+): ApiResponse<{ events: IPaymentEvent[] }> =>
+  api.get(`/admin/orders/${id}/payment-events`);
+
+export const refundOrder = (
+  id: string,
+  data: { amount?: number; reason?: string } = {},
+): ApiResponse<IRefundLedger & { refund: IRefund }> =>
+  api.post(`/admin/orders/${id}/refunds`, data);
+
+export const completeRefund = (
+  id: string,
+  refundId: string,
+  reference?: string,
+): ApiResponse<IRefundLedger & { refund: IRefund }> =>
+  api.patch(`/admin/orders/${id}/refunds/${refundId}/complete`, { reference });
+
+/**
+ * Shipment APIs
+ */
+export const getCouriers = (): ApiResponse<{ couriers: ICourier[] }> =>
+  api.get("/admin/couriers");
+
+export const shipOrder = (
+  id: string,
+  data: {
+    courier: string;
+    carrier?: string;
+    trackingNumber?: string;
+    trackingUrl?: string;
+    instructions?: string;
+    note?: string;
+  },
+): ApiResponse<{ order: IOrder }> =>
+  api.post(`/admin/orders/${id}/shipment`, data);
+
+export const addTrackingEvent = (
+  id: string,
+  data: {
+    status: ShipmentStatus;
+    description: string;
+    location?: string;
+    occurredAt?: string;
+  },
 ): ApiResponse<{ order: IOrder }> =>
-  api.post("/admin/payments/cod-collected", { orderId });
+  api.post(`/admin/orders/${id}/shipment/events`, data);
+
+export const refreshTracking = (id: string): ApiResponse<{ order: IOrder }> =>
+  api.post(`/admin/orders/${id}/shipment/refresh`);
+
+/**
+ * Invoice APIs
+ */
+export type OrderDocumentType = "invoice" | "packing_slip";
+
+export const downloadOrderDocuments = (
+  orderIds: string[],
+  type: OrderDocumentType,
+): Promise<AxiosResponse<Blob>> =>
+  api.post(
+    "/admin/orders/documents",
+    { orderIds, type },
+    { responseType: "blob" },
+  );
+
+/**
+ * Returns APIs
+ */
+export const getReturns = (
+  params: ReturnQueryParams = {},
+): ApiResponse<{
+  returns: IReturnRequest[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+}> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/returns?${queryString}`);
+};
+
+export const getReturnById = (
+  id: string,
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.get(`/admin/returns/${id}`);
+
+export const approveReturn = (
+  id: string,
+  note?: string,
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/approve`, { note });
+
+export const rejectReturn = (
+  id: string,
+  reason: string,
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/reject`, { reason });
+
+export const scheduleReturnPickup = (
+  id: string,
+  data: { scheduledFor?: string; courier?: string; trackingNumber?: string },
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/pickup`, data);
+
+export const receiveReturn = (
+  id: string,
+  note?: string,
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/receive`, { note });
+
+export const inspectReturn = (
+  id: string,
+  data: {
+    items: { itemId: string; acceptedQuantity: number; restock?: boolean }[];
+    note?: string;
+  },
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/inspect`, data);
+
+export const completeReturn = (
+  id: string,
+  resolution?: "refund" | "replacement",
+): ApiResponse<{ returnRequest: IReturnRequest }> =>
+  api.patch(`/admin/returns/${id}/complete`, { resolution });
+
+/**
+ * Payment Reconciliation APIs
+ */
+export const getPaymentDiscrepancies = (
+  params: DiscrepancyQueryParams = {},
+): ApiResponse<{ discrepancies: IPaymentDiscrepancy[] }> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/payments/discrepancies?${queryString}`);
+};
+
+export const resolvePaymentDiscrepancy = (
+  id: string,
+  note?: string,
+): ApiResponse<{ discrepancy: IPaymentDiscrepancy }> =>
+  api.patch(`/admin/payments/discrepancies/${id}/resolve`, { note });
+
+export const reconcilePayments = (): ApiResponse<{
+  summary: IReconciliationSummary;
+}> => api.post("/admin/payments/reconcile");
+
+/**
+ * COD Settlement APIs
+ */
+export const getCodReport = (
+  params: CodReportParams = {},
+): ApiResponse<ICodReport> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/payments/cod/report?${queryString}`);
+};
+
+export const exportCodReport = (
+  params: CodReportParams = {},
+): Promise<AxiosResponse<Blob>> => {
+  const queryString = new URLSearchParams({
+    ...(params as Record<string, string>),
+    format: "csv",
+  }).toString();
+  return api.get(`/admin/payments/cod/report?${queryString}`, {
+    responseType: "blob",
+  });
+};
+
+export const getCodRemittances = (
+  params: RemittanceQueryParams = {},
+): ApiResponse<{ remittances: ICodRemittance[] }> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/payments/cod/remittances?${queryString}`);
+};
+
+export const createCodRemittance = (data: {
+  collector: string;
+  paymentIds?: string[];
+  notes?: string;
+}): ApiResponse<{ remittance: ICodRemittance }> =>
+  api.post("/admin/payments/cod/remittances", data);
+
+export const receiveCodRemittance = (
+  id: string,
+  data: { receivedAmount: number; reference?: string; notes?: string },
+): ApiResponse<{ remittance: ICodRemittance }> =>
+  api.patch(`/admin/payments/cod/remittances/${id}/receive`, data);
+
+export const resolveCodRemittance = (
+  id: string,
+  note?: string,
+): ApiResponse<{ remittance: ICodRemittance }> =>
+  api.patch(`/admin/payments/cod/remittances/${id}/resolve`, { note });
+
+/**
+ * Finance APIs
+ */
+export const getFinanceReport = (
+  params: FinanceReportParams = {},
+): ApiResponse<IFinanceReport> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/finance/report?${queryString}`);
+};
+
+export const exportFinanceReport = (
+  params: FinanceReportParams = {},
+): Promise<AxiosResponse<Blob>> => {
+  const queryString = new URLSearchParams({
+    ...(params as Record<string, string>),
+    format: "csv",
+  }).toString();
+  return api.get(`/admin/finance/report?${queryString}`, {
+    responseType: "blob",
+  });
+};
+
+export const getVatRegister = (
+  fiscalYear?: string,
+): ApiResponse<IVatRegister> => {
+  const queryString = new URLSearchParams(
+    fiscalYear ? { fiscalYear } : {},
+  ).toString();
+  return api.get(`/admin/finance/vat-register?${queryString}`);
+};
+
+export const exportVatRegister = (
+  fiscalYear?: string,
+): Promise<AxiosResponse<Blob>> => {
+  const queryString = new URLSearchParams({
+    ...(fiscalYear ? { fiscalYear } : {}),
+    format: "csv",
+  }).toString();
+  return api.get(`/admin/finance/vat-register?${queryString}`, {
+    responseType: "blob",
+  });
+};
+
+/**
+ * Search APIs
+ */
+export const getSearchReport = (
+  params: SearchReportParams = {},
+): ApiResponse<ISearchReport> => {
+  const queryString = new URLSearchParams(
+    params as Record<string, string>,
+  ).toString();
+  return api.get(`/admin/search/report?${queryString}`);
+};
+
+export const getSearchSynonyms = (): ApiResponse<{
+  synonyms: ISearchSynonym[];
+}> => api.get("/admin/search/synonyms");
+
+export const createSearchSynonym = (
+  data: SynonymData,
+): ApiResponse<{ synonym: ISearchSynonym }> =>
+  api.post("/admin/search/synonyms", data);
+
+export const updateSearchSynonym = (
+  id: string,
+  data: Partial<SynonymData>,
+): ApiResponse<{ synonym: ISearchSynonym }> =>
+  api.put(`/admin/search/synonyms/${id}`, data);
+
+export const deleteSearchSynonym = (id: string): ApiResponse<null> =>
+  api.delete(`/admin/search/synonyms/${id}`);
 
 /**
  * Users APIs
@@ -210,6 +609,7 @@ export const adminAPI = {
   uploadProductImages,
   deleteProductImage,
   uploadVariantImage,
+  patchProductVariants,
   // Categories
   getCategories,
   getCategoryById,
@@ -217,11 +617,60 @@ export const adminAPI = {
   updateCategory,
   deleteCategory,
   uploadCategoryImage,
+  getCategoryAttributes,
+  // Attributes
+  getAttributes,
+  createAttribute,
+  updateAttribute,
+  deleteAttribute,
   // Orders
   getOrders,
   getOrderById,
   updateOrderStatus,
+  editOrder,
   markCODCollected,
+  getOrderRefunds,
+  getOrderPaymentEvents,
+  refundOrder,
+  completeRefund,
+  // Shipments
+  getCouriers,
+  shipOrder,
+  addTrackingEvent,
+  refreshTracking,
+  // Invoices
+  downloadOrderDocuments,
+  // Returns
+  getReturns,
+  getReturnById,
+  approveReturn,
+  rejectReturn,
+  scheduleReturnPickup,
+  receiveReturn,
+  inspectReturn,
+  completeReturn,
+  // Payments
+  getPaymentDiscrepancies,
+  resolvePaymentDiscrepancy,
+  reconcilePayments,
+  // COD Settlement
+  getCodReport,
+  exportCodReport,
+  getCodRemittances,
+  createCodRemittance,
+  receiveCodRemittance,
+  resolveCodRemittance,
+  // Finance
+  getFinanceReport,
+  exportFinanceReport,
+  getVatRegister,
+  exportVatRegister,
+  // Search
+  getSearchReport,
+  getSearchSynonyms,
+  createSearchSynonym,
+  updateSearchSynonym,
+  deleteSearchSynonym,
   // Users
   getUsers,
   updateUserStatus,
@@ -5,6 +5,8 @@
 import api from "./axios";
 import type {
   IUser,
+  IAddress,
+  IAddressInput,
   IApiResponse,
   IRegisterData,
   IAuthResponse,
@@ -54,6 +56,40 @@ export const authAPI = {
     return response.data;
   },
 
+  getAddresses: async (): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.get("/auth/me/addresses");
+    return response.data;
+  },
+
+  addAddress: async (
+    address: IAddressInput,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.post("/auth/me/addresses", address);
+    return response.data;
+  },
+
+  updateAddress: async (
+    addressId: string,
+    address: Partial<IAddressInput>,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.put(`/auth/me/addresses/${addressId}`, address);
+    return response.data;
+  },
+
+  deleteAddress: async (
+    addressId: string,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.delete(`/auth/me/addresses/${addressId}`);
+    return response.data;
+  },
+
+  setDefaultAddress: async (
+    addressId: string,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.patch(`/auth/me/addresses/${addressId}/default`);
+    return response.data;
+  },
+
   forgotPassword: async (email: string): Promise<IApiResponse<null>> => {
     const response = await api.post("/auth/forgot-password", { email });
     return response.data;
@@ -14,6 +14,8 @@ const api = axios.create({
     baseURL: (import.meta as any).env.VITE_API_URL || '/api/v1',
     headers: {
         'Content-Type': 'application/json',
+        // Tags logged searches with where they came from
+        'X-Client-Platform': 'web',
     },
     timeout: 10000,
 });
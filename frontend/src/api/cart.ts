@@ -50,6 +50,16 @@ export const cartAPI = {
     const response = await api.delete("/cart");
     return response.data;
   },
+
+  applyCoupon: async (code: string): Promise<IApiResponse<{ cart: ICart }>> => {
+    const response = await api.post("/cart/coupon", { code });
+    return response.data;
+  },
+
+  removeCoupon: async (): Promise<IApiResponse<{ cart: ICart }>> => {
+    const response = await api.delete("/cart/coupon");
+    return response.data;
+  },
 };
 
 export default cartAPI;
@@ -8,6 +8,8 @@ export { productsAPI, categoriesAPI } from "./products";
 export { cartAPI } from "./cart";
 export { ordersAPI, paymentsAPI } from "./orders";
 export { adminAPI } from "./admin";
+export { shippingAPI } from "./shipping";
+export { returnsAPI } from "./returns";
 
 // Re-export types for convenience
 export type { ProductQueryParams } from "./products";
@@ -3,12 +3,16 @@
  * API calls for order operations
  */
 import api from "./axios";
+import { withIdempotencyKey, IDEMPOTENCY_HEADER } from "./idempotency";
 import type {
   IApiResponse,
   IOrder,
   ICreateOrderData,
   IPaymentMethod,
   IPaymentInitiateResponse,
+  IPaymentStatus,
+  IShipment,
+  OrderStatus,
   PaymentMethod,
 } from "../types";
 
@@ -22,7 +26,11 @@ export const ordersAPI = {
   createOrder: async (
     orderData: ICreateOrderData,
   ): Promise<IApiResponse<{ order: IOrder }>> => {
-    const response = await api.post("/orders", orderData);
+    const response = await withIdempotencyKey("orders", orderData, (key) =>
+      api.post("/orders", orderData, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
     return response.data;
   },
 
@@ -50,6 +58,23 @@ export const ordersAPI = {
     return response.data;
   },
 
+  getTracking: async (
+    orderId: string,
+  ): Promise<
+    IApiResponse<{ shipment: IShipment | null; orderStatus: OrderStatus }>
+  > => {
+    const response = await api.get(`/orders/${orderId}/tracking`);
+    return response.data;
+  },
+
+  // Tax invoice PDF; the first download assigns the invoice number
+  downloadInvoice: async (orderId: string): Promise<Blob> => {
+    const response = await api.get(`/orders/${orderId}/invoice`, {
+      responseType: "blob",
+    });
+    return response.data;
+  },
+
   cancelOrder: async (
     orderId: string,
     reason?: string,
@@ -71,7 +96,28 @@ export const paymentsAPI = {
     orderId: string,
     gateway: PaymentMethod,
   ): Promise<IPaymentInitiateResponse> => {
-    const response = await api.post("/payments/initiate", { orderId, gateway });
+    const payload = { orderId, gateway };
+    const response = await withIdempotencyKey("payments", payload, (key) =>
+      api.post("/payments/initiate", payload, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
+    return response.data;
+  },
+
+  retryPayment: async (
+    orderId: string,
+    gateway: PaymentMethod,
+  ): Promise<IPaymentInitiateResponse> => {
+    const payload = { orderId, gateway };
+    const response = await withIdempotencyKey(
+      "payments-retry",
+      payload,
+      (key) =>
+        api.post("/payments/retry", payload, {
+          headers: { [IDEMPOTENCY_HEADER]: key },
+        }),
+    );
     return response.data;
   },
 
@@ -87,6 +133,13 @@ export const paymentsAPI = {
     });
     return response.data;
   },
+
+  getPaymentStatus: async (
+    orderId: string,
+  ): Promise<IApiResponse<IPaymentStatus>> => {
+    const response = await api.get(`/payments/status/${orderId}`);
+    return response.data;
+  },
 };
 
 export default { ordersAPI, paymentsAPI };
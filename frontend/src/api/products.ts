@@ -8,6 +8,7 @@ import type {
   IProduct,
   ICategory,
   IProductsResponse,
+  ISearchSuggestions,
 } from "../types";
 
 export interface ProductQueryParams {
@@ -19,6 +20,12 @@ export interface ProductQueryParams {
   minPrice?: number;
   maxPrice?: number;
   featured?: boolean;
+  // Multi-select filters are comma-separated, e.g. price: "0-1000,1000-2500"
+  size?: string;
+  color?: string;
+  price?: string;
+  rating?: string;
+  inStock?: boolean;
 }
 
 export const productsAPI = {
@@ -52,6 +59,26 @@ export const productsAPI = {
     });
     return response.data;
   },
+
+  suggest: async (
+    query: string,
+    limit: number = 6,
+  ): Promise<IApiResponse<ISearchSuggestions>> => {
+    const response = await api.get("/products/suggest", {
+      params: { q: query, limit },
+    });
+    return response.data;
+  },
+
+  trackSearchClick: async (
+    searchId: string,
+    productId: string,
+  ): Promise<IApiResponse<void>> => {
+    const response = await api.post(`/products/searches/${searchId}/click`, {
+      productId,
+    });
+    return response.data;
+  },
 };
 
 export const categoriesAPI = {
@@ -0,0 +1,61 @@
+/**
+ * Returns API
+ * API calls for returns and exchanges
+ */
+import api from "./axios";
+import { withIdempotencyKey, IDEMPOTENCY_HEADER } from "./idempotency";
+import type {
+  IApiResponse,
+  IReturnRequest,
+  IReturnEligibility,
+  ICreateReturnData,
+} from "../types";
+
+export const returnsAPI = {
+  getEligibility: async (
+    orderId: string,
+  ): Promise<IApiResponse<IReturnEligibility>> => {
+    const response = await api.get(`/returns/eligibility/${orderId}`);
+    return response.data;
+  },
+
+  uploadPhotos: async (
+    files: File[],
+  ): Promise<
+    IApiResponse<{ photos: { url: string; publicId?: string }[] }>
+  > => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("photos", file));
+    const response = await api.post("/returns/photos", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+    return response.data;
+  },
+
+  createReturn: async (
+    data: ICreateReturnData,
+  ): Promise<IApiResponse<{ returnRequest: IReturnRequest }>> => {
+    const response = await withIdempotencyKey("returns", data, (key) =>
+      api.post("/returns", data, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
+    return response.data;
+  },
+
+  getMyReturns: async (
+    params: { order?: string; page?: number; limit?: number } = {},
+  ): Promise<IApiResponse<{ returns: IReturnRequest[] }>> => {
+    const response = await api.get("/returns", { params });
+    return response.data;
+  },
+
+  cancelReturn: async (
+    returnId: string,
+  ): Promise<IApiResponse<{ returnRequest: IReturnRequest }>> => {
+    const response = await api.post(`/returns/${returnId}/cancel`);
+    return response.data;
+  },
+};
+
+export default returnsAPI;
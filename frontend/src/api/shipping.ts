@@ -0,0 +1,17 @@
+/**
+ * Shipping API
+ * API calls for shipping quotes
+ */
+import api from "./axios";
+import type { IApiResponse, IShippingAddress, IShippingQuote } from "../types";
+
+export const shippingAPI = {
+  getQuote: async (
+    shippingAddress: Pick<IShippingAddress, "district" | "province">,
+  ): Promise<IApiResponse<IShippingQuote>> => {
+    const response = await api.post("/shipping/quote", { shippingAddress });
+    return response.data;
+  },
+};
+
+export default shippingAPI;
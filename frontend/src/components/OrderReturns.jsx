@@ -0,0 +1,431 @@
+/**
+ * Order Returns
+ * Request a return or size exchange on a delivered order and follow its progress
+ */
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, RotateCcw, ImagePlus, X } from "lucide-react";
+import { returnsAPI } from "../api";
+import { formatPrice, formatDate } from "../utils/helpers";
+import { RETURN_REASONS, RETURN_STATUS_LABELS } from "../utils/constants";
+import toast from "react-hot-toast";
+
+const MAX_PHOTOS = 5;
+
+const getReturnStatusColor = (status) => {
+  switch (status) {
+    case "completed":
+      return "bg-green-100 text-green-800";
+    case "rejected":
+    case "cancelled":
+      return "bg-red-100 text-red-800";
+    case "requested":
+      return "bg-yellow-100 text-yellow-800";
+    default:
+      return "bg-blue-100 text-blue-800";
+  }
+};
+
+const variantLabel = (variant) =>
+  [variant?.size, variant?.color].filter(Boolean).join(" / ");
+
+const OrderReturns = ({ orderId }) => {
+  const [eligibility, setEligibility] = useState(null);
+  const [returns, setReturns] = useState([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [type, setType] = useState("return");
+  const [reason, setReason] = useState("wrong_size");
+  const [reasonDetails, setReasonDetails] = useState("");
+  const [quantities, setQuantities] = useState({});
+  const [exchangeVariants, setExchangeVariants] = useState({});
+  const [photos, setPhotos] = useState([]);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      const [eligibilityResponse, returnsResponse] = await Promise.all([
+        returnsAPI.getEligibility(orderId),
+        returnsAPI.getMyReturns({ order: orderId, limit: 50 }),
+      ]);
+      setEligibility(eligibilityResponse.data);
+      setReturns(returnsResponse.data.returns);
+    } catch (error) {
+      console.error("Failed to load returns:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setType("return");
+    setReason("wrong_size");
+    setReasonDetails("");
+    setQuantities({});
+    setExchangeVariants({});
+    setPhotos([]);
+  };
+
+  const handlePhotos = (event) => {
+    const files = Array.from(event.target.files || []);
+    setPhotos((current) => [...current, ...files].slice(0, MAX_PHOTOS));
+    event.target.value = "";
+  };
+
+  const handleSubmit = async (event) => {
+    event.preventDefault();
+
+    const items = eligibility.items
+      .filter((item) => quantities[item.itemId] > 0)
+      .map((item) => ({
+        itemId: item.itemId,
+        quantity: quantities[item.itemId],
+        ...(type === "exchange" && {
+          exchangeVariantId: exchangeVariants[item.itemId],
+        }),
+      }));
+
+    if (items.length === 0) {
+      toast.error("Choose at least one item to return");
+      return;
+    }
+    if (type === "exchange" && items.some((item) => !item.exchangeVariantId)) {
+      toast.error("Choose the size you would like instead");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      let uploaded = [];
+      if (photos.length > 0) {
+        const response = await returnsAPI.uploadPhotos(photos);
+        uploaded = response.data.photos;
+      }
+
+      const response = await returnsAPI.createReturn({
+        orderId,
+        type,
+        reason,
+        reasonDetails: reasonDetails.trim() || undefined,
+        photos: uploaded,
+        items,
+      });
+      toast.success(response.message || "Return requested");
+      resetForm();
+      await loadReturns();
+    } catch (error) {
+      console.error("Failed to request return:", error);
+      toast.error(error.response?.data?.message || "Failed to request return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (returnId) => {
+    if (!window.confirm("Withdraw this return request?")) return;
+
+    try {
+      await returnsAPI.cancelReturn(returnId);
+      toast.success("Return request cancelled");
+      await loadReturns();
+    } catch (error) {
+      console.error("Failed to cancel return:", error);
+      toast.error(
+        error.response?.data?.message || "Failed to cancel return request",
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-6 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--color-primary)]" />
+      </div>
+    );
+  }
+
+  if (!eligibility || (!eligibility.eligible && returns.length === 0)) {
+    return eligibility?.reason ? (
+      <p className="text-sm text-[var(--color-text-muted)]">
+        {eligibility.reason}.
+      </p>
+    ) : null;
+  }
+
+  const returnableItems = eligibility.items.filter(
+    (item) => item.returnable > 0,
+  );
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="font-semibold flex items-center gap-2">
+          <RotateCcw className="w-5 h-5" />
+          Returns & Exchanges
+        </h2>
+        {eligibility.eligible && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-outline text-sm"
+          >
+            Request a return
+          </button>
+        )}
+      </div>
+
+      {eligibility.eligible && eligibility.deadline && (
+        <p className="text-sm text-[var(--color-text-muted)] mb-4">
+          You can request a return or size exchange until{" "}
+          {formatDate(eligibility.deadline)}.
+        </p>
+      )}
+
+      {/* Existing requests */}
+      {returns.length > 0 && (
+        <div className="space-y-4 mb-4">
+          {returns.map((returnRequest) => (
+            <div
+              key={returnRequest._id}
+              className="border border-[var(--color-border)] rounded-lg p-4"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {returnRequest.returnNumber}
+                  </span>
+                  <span className="text-xs text-[var(--color-text-muted)] capitalize">
+                    {returnRequest.type}
+                  </span>
+                </div>
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${getReturnStatusColor(returnRequest.status)}`}
+                >
+                  {RETURN_STATUS_LABELS[returnRequest.status]}
+                </span>
+              </div>
+              <ul className="text-sm text-[var(--color-text-muted)] space-y-1">
+                {returnRequest.items.map((item) => (
+                  <li key={item._id}>
+                    {item.quantity} × {item.name}
+                    {variantLabel(item.variant) &&
+                      ` (${variantLabel(item.variant)})`}
+                    {item.exchangeVariant &&
+                      ` → ${variantLabel(item.exchangeVariant)}`}
+                  </li>
+                ))}
+              </ul>
+              {returnRequest.pickup?.scheduledFor && (
+                <p className="text-sm mt-2">
+                  Pickup on {formatDate(returnRequest.pickup.scheduledFor)}
+                  {returnRequest.pickup.courier &&
+                    ` by ${returnRequest.pickup.courier}`}
+                  {returnRequest.pickup.trackingNumber &&
+                    ` (${returnRequest.pickup.trackingNumber})`}
+                </p>
+              )}
+              {returnRequest.rejectionReason && (
+                <p className="text-sm text-red-600 mt-2">
+                  {returnRequest.rejectionReason}
+                </p>
+              )}
+              {returnRequest.resolution?.type === "refund" && (
+                <p className="text-sm text-green-700 mt-2">
+                  Refund of {formatPrice(returnRequest.resolution.refundAmount)}{" "}
+                  issued
+                </p>
+              )}
+              {returnRequest.resolution?.type === "replacement" && (
+                <p className="text-sm text-green-700 mt-2">
+                  Replacement order created
+                </p>
+              )}
+              {["requested", "approved"].includes(returnRequest.status) && (
+                <button
+                  onClick={() => handleCancel(returnRequest._id)}
+                  className="text-sm text-red-500 hover:underline mt-2"
+                >
+                  Withdraw request
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New request */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-4">
+            {[
+              { value: "return", label: "Return for a refund" },
+              { value: "exchange", label: "Exchange for another size" },
+            ].map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 text-sm"
+              >
+                <input
+                  type="radio"
+                  name="return-type"
+                  value={option.value}
+                  checked={type === option.value}
+                  onChange={() => setType(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {returnableItems.map((item) => (
+              <div
+                key={item.itemId}
+                className="flex flex-wrap items-center gap-3 text-sm"
+              >
+                <span className="flex-1 min-w-[12rem]">
+                  {item.name}
+                  {variantLabel(item.variant) &&
+                    ` (${variantLabel(item.variant)})`}
+                </span>
+                <select
+                  value={quantities[item.itemId] || 0}
+                  onChange={(e) =>
+                    setQuantities({
+                      ...quantities,
+                      [item.itemId]: Number(e.target.value),
+                    })
+                  }
+                  className="input w-20"
+                >
+                  {Array.from({ length: item.returnable + 1 }, (_, n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+                {type === "exchange" && (
+                  <select
+                    value={exchangeVariants[item.itemId] || ""}
+                    onChange={(e) =>
+                      setExchangeVariants({
+                        ...exchangeVariants,
+                        [item.itemId]: e.target.value,
+                      })
+                    }
+                    className="input w-48"
+                    disabled={item.exchangeOptions.length === 0}
+                  >
+                    <option value="">
+                      {item.exchangeOptions.length === 0
+                        ? "No other sizes in stock"
+                        : "Exchange for..."}
+                    </option>
+                    {item.exchangeOptions.map((option) => (
+                      <option key={option.variantId} value={option.variantId}>
+                        {variantLabel(option)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="input w-full"
+            >
+              {RETURN_REASONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Details (optional)
+            </label>
+            <textarea
+              value={reasonDetails}
+              onChange={(e) => setReasonDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              className="input w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Photos (up to {MAX_PHOTOS})
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <div
+                  key={`${photo.name}-${index}`}
+                  className="relative w-16 h-16 rounded overflow-hidden bg-gray-100"
+                >
+                  <img
+                    src={URL.createObjectURL(photo)}
+                    alt={photo.name}
+                    className="w-full h-full object-cover"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhotos(photos.filter((_, i) => i !== index))
+                    }
+                    className="absolute top-0 right-0 bg-black/60 text-white rounded-bl p-0.5"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 flex items-center justify-center rounded border border-dashed border-[var(--color-border)] cursor-pointer text-[var(--color-text-muted)]">
+                  <ImagePlus className="w-5 h-5" />
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handlePhotos}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Submit Request
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={submitting}
+              className="btn btn-outline"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default OrderReturns;
@@ -0,0 +1,95 @@
+/**
+ * Order Tracking
+ * Courier, tracking number and the parcel's tracking timeline
+ */
+import { useState, useEffect } from "react";
+import { Truck, ExternalLink } from "lucide-react";
+import { ordersAPI } from "../api";
+import { formatDateTime } from "../utils/helpers";
+import { SHIPMENT_STATUS_LABELS } from "../utils/constants";
+
+const OrderTracking = ({ orderId, shipment: initialShipment, onDelivered }) => {
+  const [shipment, setShipment] = useState(initialShipment);
+
+  // The tracking endpoint refreshes from the courier when our copy is stale
+  useEffect(() => {
+    let active = true;
+
+    ordersAPI
+      .getTracking(orderId)
+      .then((response) => {
+        if (!active || !response.data.shipment) return;
+        setShipment(response.data.shipment);
+        if (response.data.orderStatus === "delivered") {
+          onDelivered?.();
+        }
+      })
+      .catch((error) => console.error("Failed to load tracking:", error));
+
+    return () => {
+      active = false;
+    };
+  }, [orderId, onDelivered]);
+
+  if (!shipment) return null;
+
+  const events = [...shipment.events].reverse();
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="font-semibold flex items-center gap-2">
+            <Truck className="w-5 h-5" />
+            {SHIPMENT_STATUS_LABELS[shipment.status]}
+          </h2>
+          <p className="text-sm text-[var(--color-text-muted)] mt-1">
+            {shipment.carrier} · Tracking no.{" "}
+            <span className="font-medium text-[var(--color-text)]">
+              {shipment.trackingNumber}
+            </span>
+          </p>
+        </div>
+        {shipment.trackingUrl && (
+          <a
+            href={shipment.trackingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="btn btn-outline text-sm flex items-center gap-1"
+          >
+            Track on courier site
+            <ExternalLink className="w-4 h-4" />
+          </a>
+        )}
+      </div>
+
+      <ol className="relative pl-4 border-l-2 border-[var(--color-border)] space-y-5">
+        {events.map((event, index) => (
+          <li key={event._id || index} className="relative">
+            <span
+              className={`absolute -left-[21px] top-1 w-4 h-4 rounded-full border-2 border-white ${
+                index === 0
+                  ? event.status === "delivered"
+                    ? "bg-green-500"
+                    : "bg-[var(--color-primary)]"
+                  : "bg-[var(--color-border)]"
+              }`}
+            ></span>
+            <p className={index === 0 ? "font-medium" : ""}>
+              {SHIPMENT_STATUS_LABELS[event.status]}
+            </p>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              {event.description}
+              {event.location && ` · ${event.location}`}
+            </p>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              {formatDateTime(event.occurredAt)}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default OrderTracking;
@@ -0,0 +1,80 @@
+/**
+ * QR Payment Modal
+ * Shows a Fonepay dynamic QR and polls until the bank confirms or declines it
+ */
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useDispatch } from "react-redux";
+import { Loader2 } from "lucide-react";
+import { paymentsAPI } from "../api/orders";
+import { resetCart } from "../store/cartSlice";
+import { formatPrice } from "../utils/helpers";
+
+// How often the payment status is checked while the customer pays
+const QR_POLL_INTERVAL_MS = 3000;
+
+const QrPaymentModal = ({ orderId, qrImage, amount, onClose }) => {
+  const navigate = useNavigate();
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    const timer = setInterval(async () => {
+      try {
+        const response = await paymentsAPI.getPaymentStatus(orderId);
+        const { paymentStatus, gatewayStatus } = response.data;
+        if (paymentStatus === "paid") {
+          clearInterval(timer);
+          dispatch(resetCart());
+          navigate(`/order-success?orderId=${orderId}`);
+        } else if (gatewayStatus === "failed") {
+          clearInterval(timer);
+          navigate(
+            `/order-failed?orderId=${orderId}&message=${encodeURIComponent("QR payment was declined")}`,
+          );
+        }
+      } catch (error) {
+        console.error("Failed to check payment status", error);
+      }
+    }, QR_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [orderId, dispatch, navigate]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6 relative">
+        <h3 className="text-xl font-bold text-center mb-1">Scan to Pay</h3>
+        <p className="text-center text-gray-600 text-sm mb-4">
+          {formatPrice(amount)}
+        </p>
+
+        <div className="flex justify-center mb-4">
+          <img
+            src={qrImage}
+            alt="Fonepay QR Code"
+            className="max-w-[250px] w-full h-auto rounded-lg border"
+          />
+        </div>
+
+        <p className="text-center text-gray-700 text-sm leading-relaxed">
+          Open your bank app, ConnectIPS or wallet and scan this code. This page
+          updates on its own once the payment goes through.
+        </p>
+
+        <p className="flex items-center justify-center gap-2 text-sm text-[var(--color-text-muted)] mt-4">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Waiting for payment...
+        </p>
+
+        <button
+          onClick={onClose}
+          className="btn btn-secondary w-full mt-6 py-3"
+        >
+          Pay Later
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QrPaymentModal;
@@ -0,0 +1,153 @@
+/**
+ * Retry Payment
+ * Pay an unpaid order again with the same or another method, or switch to COD
+ */
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useDispatch } from "react-redux";
+import { Loader2, RefreshCw } from "lucide-react";
+import { paymentsAPI } from "../api/orders";
+import { resetCart } from "../store/cartSlice";
+import { submitEsewaForm } from "../utils/payment";
+import QrPaymentModal from "./QrPaymentModal";
+import toast from "react-hot-toast";
+
+const RetryPayment = ({ orderId, currentMethod }) => {
+  const navigate = useNavigate();
+  const dispatch = useDispatch();
+  const [methods, setMethods] = useState([]);
+  const [selected, setSelected] = useState(currentMethod);
+  const [loading, setLoading] = useState(false);
+  const [qrPayment, setQrPayment] = useState(null);
+
+  useEffect(() => {
+    const loadMethods = async () => {
+      try {
+        const response = await paymentsAPI.getMethods();
+        const available = (response.data?.methods || []).filter(
+          (method) =>
+            method.id !== "khalti" &&
+            !(method.id === "cod" && currentMethod === "cod"),
+        );
+        setMethods(available);
+        if (!available.some((method) => method.id === currentMethod)) {
+          setSelected(available[0]?.id);
+        }
+      } catch (error) {
+        console.error("Failed to load payment methods", error);
+      }
+    };
+    loadMethods();
+  }, [currentMethod]);
+
+  const handleRetry = async () => {
+    if (!selected) return;
+
+    setLoading(true);
+    try {
+      const response = await paymentsAPI.retryPayment(orderId, selected);
+      const paymentData = response.data;
+
+      if (selected === "cod") {
+        dispatch(resetCart());
+        navigate(`/order-success?orderId=${orderId}`);
+      } else if (selected === "esewa") {
+        const url = paymentData.redirectUrl || paymentData.url;
+        if (!paymentData.formData || !url) {
+          throw new Error("Invalid eSewa configuration");
+        }
+        submitEsewaForm(url, paymentData.formData);
+      } else if (selected === "fonepay") {
+        if (!paymentData.formData?.qrImage) {
+          throw new Error("Invalid Fonepay configuration: QR missing");
+        }
+        setQrPayment({
+          qrImage: paymentData.formData.qrImage,
+          amount: paymentData.formData.amount,
+        });
+        setLoading(false);
+      } else if (selected === "stripe") {
+        if (!paymentData.clientSecret) {
+          throw new Error("Invalid card payment configuration");
+        }
+        navigate("/checkout/card", {
+          state: {
+            orderId,
+            clientSecret: paymentData.clientSecret,
+            publishableKey: paymentData.publishableKey,
+            amount: paymentData.amount,
+            currency: paymentData.currency,
+          },
+        });
+      } else if (paymentData.redirectUrl) {
+        window.location.href = paymentData.redirectUrl;
+      } else {
+        throw new Error("Payment gateway is not reachable");
+      }
+    } catch (error) {
+      console.error("Payment retry failed:", error);
+      toast.error(
+        error.response?.data?.message ||
+          error.message ||
+          "Failed to retry payment",
+      );
+      setLoading(false);
+    }
+  };
+
+  if (methods.length === 0) return null;
+
+  return (
+    <div className="card p-6 text-left">
+      <h3 className="font-semibold mb-3">Complete your payment</h3>
+      <div className="space-y-2 mb-4">
+        {methods.map((method) => (
+          <label
+            key={method.id}
+            className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer ${
+              selected === method.id
+                ? "border-[var(--color-primary)] bg-[var(--color-primary-light)]/10"
+                : "border-[var(--color-border)]"
+            }`}
+          >
+            <input
+              type="radio"
+              name="retry-payment-method"
+              value={method.id}
+              checked={selected === method.id}
+              onChange={() => setSelected(method.id)}
+            />
+            <span className="font-medium">{method.name}</span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleRetry}
+        disabled={loading || !selected}
+        className="btn btn-primary w-full flex items-center justify-center gap-2"
+      >
+        {loading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <RefreshCw className="w-4 h-4" />
+        )}
+        {selected === "cod" ? "Switch to Cash on Delivery" : "Retry Payment"}
+      </button>
+
+      {qrPayment && (
+        <QrPaymentModal
+          orderId={orderId}
+          qrImage={qrPayment.qrImage}
+          amount={qrPayment.amount}
+          onClose={() => {
+            setQrPayment(null);
+            navigate(`/orders/${orderId}`);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RetryPayment;
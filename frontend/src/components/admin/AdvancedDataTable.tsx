@@ -439,7 +439,10 @@ export function AdvancedDataTable<T extends object>({
             row(s) selected
           </span>
           <button
-            onClick={() => setRowSelection({})}
+            onClick={() => {
+              setRowSelection({});
+              onRowSelectionChange?.([]);
+            }}
             className="text-sm text-[var(--color-primary)] hover:underline"
           >
             Clear selection
@@ -19,7 +19,9 @@ const StatusBadge = ({ status, variant, size = 'md', uppercase = true }) => {
             // Payment status
             paid: 'success',
             failed: 'error',
+            partially_refunded: 'warning',
             refunded: 'warning',
+            completed: 'success',
             // User status
             active: 'success',
             inactive: 'error',
@@ -2,18 +2,20 @@
  * Header Component
  * Main navigation with cart and user menu
  */
-import { useState, useEffect, useRef, FormEvent, ChangeEvent } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Link, NavLink, useNavigate } from "react-router-dom";
 import { useSelector } from "react-redux";
 import { useAuth } from "../../context/AuthContext";
 import { selectCartCount } from "../../store/cartSlice";
 import NotificationBell from "../NotificationBell";
+import SearchInput, { SearchSuggestion } from "../ui/SearchInput";
+import { productsAPI } from "../../api";
+import { formatPrice } from "../../utils/helpers";
 import {
   ShoppingCart,
   Heart,
   Menu,
   X,
-  Search,
   LogOut,
   Settings,
   Package,
@@ -21,6 +23,7 @@ import {
 } from "lucide-react";
 import logo from "../../assets/logo.png";
 import type { RootState } from "../../store";
+import type { ISearchSuggestions } from "../../types";
 
 interface NavLink {
   to: string;
@@ -31,6 +34,9 @@ const Header = (): React.ReactElement => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState<boolean>(false);
   const [userMenuOpen, setUserMenuOpen] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const [suggestions, setSuggestions] = useState<ISearchSuggestions | null>(
+    null,
+  );
   const userMenuRef = useRef<HTMLDivElement>(null);
 
   const { user, isAuthenticated, isAdmin, logout } = useAuth();
@@ -63,12 +69,70 @@ const Header = (): React.ReactElement => {
     return () => document.removeEventListener("keydown", handleEscape);
   }, []);
 
-  const handleSearch = (e: FormEvent<HTMLFormElement>): void => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/products?search=${encodeURIComponent(searchQuery)}`);
-      setSearchQuery("");
+  // searchQuery is already debounced by SearchInput
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setSuggestions(null);
+      return;
+    }
+
+    // Ignore answers to queries the customer has typed past
+    let stale = false;
+    productsAPI
+      .suggest(query)
+      .then((response) => !stale && setSuggestions(response.data))
+      .catch(() => !stale && setSuggestions(null));
+    return () => {
+      stale = true;
+    };
+  }, [searchQuery]);
+
+  const suggestionItems = useMemo<SearchSuggestion[]>(
+    () =>
+      suggestions
+        ? [
+            ...suggestions.queries.map((query) => ({
+              key: `query:${query}`,
+              label: query,
+              type: "query" as const,
+            })),
+            ...suggestions.categories.map((category) => ({
+              key: `category:${category.slug}`,
+              label: category.name,
+              value: category.slug,
+              type: "category" as const,
+              hint: "Category",
+            })),
+            ...suggestions.products.map((product) => ({
+              key: `product:${product.slug}`,
+              label: product.name,
+              value: product.slug,
+              type: "product" as const,
+              image: product.image,
+              hint: formatPrice(product.price),
+            })),
+          ]
+        : [],
+    [suggestions],
+  );
+
+  const handleSearch = (query: string): void => {
+    if (query.trim()) {
+      navigate(`/products?search=${encodeURIComponent(query.trim())}`);
+      setMobileMenuOpen(false);
+    }
+  };
+
+  const handleSelectSuggestion = (suggestion: SearchSuggestion): void => {
+    if (suggestion.type === "product") {
+      navigate(`/products/${suggestion.value}`);
+    } else if (suggestion.type === "category") {
+      navigate(`/products?category=${suggestion.value}`);
+    } else {
+      navigate(`/products?search=${encodeURIComponent(suggestion.label)}`);
     }
+    setMobileMenuOpen(false);
   };
 
   const handleLogout = (): void => {
@@ -125,20 +189,17 @@ const Header = (): React.ReactElement => {
           </nav>
 
           {/* Search Bar */}
-          <form onSubmit={handleSearch} className="hidden lg:flex items-center">
-            <div className="input-group">
-              <Search className="input-icon w-4 h-4" />
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                  setSearchQuery(e.target.value)
-                }
-                placeholder="Search products..."
-                className="input w-64 py-2 text-sm"
-              />
-            </div>
-          </form>
+          <div className="hidden lg:flex items-center">
+            <SearchInput
+              onChange={setSearchQuery}
+              onSearch={handleSearch}
+              onSelect={handleSelectSuggestion}
+              suggestions={suggestionItems}
+              placeholder="Search products..."
+              className="w-72"
+              debounceMs={250}
+            />
+          </div>
 
           {/* Right Actions */}
           <div className="flex items-center gap-2 sm:gap-3">
@@ -263,20 +324,15 @@ const Header = (): React.ReactElement => {
         {/* Mobile Menu */}
         {mobileMenuOpen && (
           <div className="md:hidden py-4 border-t border-[var(--color-border)]">
-            <form onSubmit={handleSearch} className="mb-4">
-              <div className="input-group">
-                <Search className="input-icon w-4 h-4" />
-                <input
-                  type="text"
-                  value={searchQuery}
-                  onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                    setSearchQuery(e.target.value)
-                  }
-                  placeholder="Search products..."
-                  className="input w-full"
-                />
-              </div>
-            </form>
+            <SearchInput
+              onChange={setSearchQuery}
+              onSearch={handleSearch}
+              onSelect={handleSelectSuggestion}
+              suggestions={suggestionItems}
+              placeholder="Search products..."
+              className="mb-4"
+              debounceMs={250}
+            />
 
             <nav className="flex flex-col gap-2">
               {navLinks.map((link) => (
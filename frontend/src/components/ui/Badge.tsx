@@ -135,7 +135,7 @@ export const OrderStatusBadge = ({
 
 // Payment Status Badge preset
 interface PaymentStatusBadgeProps {
-  status: "pending" | "paid" | "failed" | "refunded";
+  status: "pending" | "paid" | "failed" | "partially_refunded" | "refunded";
   size?: BadgeSize;
 }
 
@@ -148,6 +148,7 @@ export const PaymentStatusBadge = ({
       pending: { variant: "warning", label: "Payment Pending" },
       paid: { variant: "success", label: "Paid" },
       failed: { variant: "danger", label: "Payment Failed" },
+      partially_refunded: { variant: "info", label: "Partially Refunded" },
       refunded: { variant: "info", label: "Refunded" },
     };
 
@@ -2,15 +2,28 @@
  * SearchInput Component
  * Enhanced search input with suggestions and keyboard navigation
  */
-import { useState, useRef, useEffect, KeyboardEvent } from "react";
-import { Search, X, Loader2 } from "lucide-react";
+import { useState, useRef, useEffect, useMemo, KeyboardEvent } from "react";
+import { Search, X, Loader2, Tag } from "lucide-react";
+
+// A rich suggestion; plain strings are treated as query suggestions
+export interface SearchSuggestion {
+  key: string;
+  label: string;
+  // What picking it means to the caller, e.g. a product slug
+  value?: string;
+  type?: "query" | "product" | "category";
+  image?: string | null;
+  hint?: string;
+}
 
 interface SearchInputProps {
   value?: string;
   onChange: (value: string) => void;
   onSearch?: (value: string) => void;
   placeholder?: string;
-  suggestions?: string[];
+  suggestions?: (string | SearchSuggestion)[];
+  // Called instead of filling in the input when a suggestion is picked
+  onSelect?: (suggestion: SearchSuggestion) => void;
   isLoading?: boolean;
   showClear?: boolean;
   autoFocus?: boolean;
@@ -24,6 +37,7 @@ const SearchInput = ({
   onSearch,
   placeholder = "Search...",
   suggestions = [],
+  onSelect,
   isLoading = false,
   showClear = true,
   autoFocus = false,
@@ -38,6 +52,16 @@ const SearchInput = ({
 
   const value = controlledValue !== undefined ? controlledValue : internalValue;
 
+  const items = useMemo<SearchSuggestion[]>(
+    () =>
+      suggestions.map((suggestion) =>
+        typeof suggestion === "string"
+          ? { key: suggestion, label: suggestion, type: "query" }
+          : suggestion,
+      ),
+    [suggestions],
+  );
+
   // Handle input change with debounce
   const handleChange = (newValue: string) => {
     setInternalValue(newValue);
@@ -52,9 +76,20 @@ const SearchInput = ({
     }, debounceMs);
   };
 
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    if (onSelect) {
+      onSelect(suggestion);
+    } else {
+      handleChange(suggestion.label);
+      onChange(suggestion.label);
+      if (onSearch) onSearch(suggestion.label);
+    }
+    setShowSuggestions(false);
+  };
+
   // Handle keyboard navigation
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (!showSuggestions || suggestions.length === 0) {
+    if (!showSuggestions || items.length === 0) {
       if (e.key === "Enter" && onSearch) {
         onSearch(value);
       }
@@ -64,9 +99,7 @@ const SearchInput = ({
     switch (e.key) {
       case "ArrowDown":
         e.preventDefault();
-        setSelectedIndex((prev) =>
-          prev < suggestions.length - 1 ? prev + 1 : prev,
-        );
+        setSelectedIndex((prev) => (prev < items.length - 1 ? prev + 1 : prev));
         break;
       case "ArrowUp":
         e.preventDefault();
@@ -75,13 +108,11 @@ const SearchInput = ({
       case "Enter":
         e.preventDefault();
         if (selectedIndex >= 0) {
-          handleChange(suggestions[selectedIndex]);
-          onChange(suggestions[selectedIndex]);
-          if (onSearch) onSearch(suggestions[selectedIndex]);
-        } else if (onSearch) {
-          onSearch(value);
+          selectSuggestion(items[selectedIndex]);
+        } else {
+          if (onSearch) onSearch(value);
+          setShowSuggestions(false);
         }
-        setShowSuggestions(false);
         break;
       case "Escape":
         setShowSuggestions(false);
@@ -99,7 +130,7 @@ const SearchInput = ({
 
   // Show suggestions on focus if there are any
   const handleFocus = () => {
-    if (suggestions.length > 0) {
+    if (items.length > 0) {
       setShowSuggestions(true);
     }
   };
@@ -115,12 +146,12 @@ const SearchInput = ({
 
   // Update suggestions visibility
   useEffect(() => {
-    if (suggestions.length > 0 && value) {
+    if (items.length > 0 && value) {
       setShowSuggestions(true);
     } else {
       setShowSuggestions(false);
     }
-  }, [suggestions, value]);
+  }, [items, value]);
 
   return (
     <div className={`relative ${className}`}>
@@ -147,7 +178,7 @@ const SearchInput = ({
           autoFocus={autoFocus}
           className={`
             w-full h-11 pl-11 pr-${showClear && value ? "11" : "4"} 
-            bg-[var(--color-background)] border border-[var(--color-border)] rounded-xl
+            bg-[var(--color-bg)] border border-[var(--color-border)] rounded-xl
             text-[var(--color-text)] placeholder:text-[var(--color-text-muted)]
             focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent
             transition-all duration-200
@@ -171,34 +202,44 @@ const SearchInput = ({
       </div>
 
       {/* Suggestions Dropdown */}
-      {showSuggestions && suggestions.length > 0 && (
+      {showSuggestions && items.length > 0 && (
         <ul
           role="listbox"
           className="absolute z-50 w-full mt-2 bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl shadow-lg overflow-hidden"
         >
-          {suggestions.map((suggestion, index) => (
+          {items.map((suggestion, index) => (
             <li
-              key={suggestion}
+              key={suggestion.key}
               role="option"
               aria-selected={index === selectedIndex}
-              onClick={() => {
-                handleChange(suggestion);
-                onChange(suggestion);
-                if (onSearch) onSearch(suggestion);
-                setShowSuggestions(false);
-              }}
+              onClick={() => selectSuggestion(suggestion)}
               className={`
                 px-4 py-3 cursor-pointer transition-colors
                 ${
                   index === selectedIndex
                     ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)]"
-                    : "hover:bg-[var(--color-background)]"
+                    : "hover:bg-[var(--color-bg)]"
                 }
               `}
             >
               <div className="flex items-center gap-3">
-                <Search className="w-4 h-4 text-[var(--color-text-muted)]" />
-                <span>{suggestion}</span>
+                {suggestion.type === "product" ? (
+                  <img
+                    src={suggestion.image || "/placeholder.jpg"}
+                    alt=""
+                    className="w-8 h-8 rounded object-cover"
+                  />
+                ) : suggestion.type === "category" ? (
+                  <Tag className="w-4 h-4 text-[var(--color-text-muted)]" />
+                ) : (
+                  <Search className="w-4 h-4 text-[var(--color-text-muted)]" />
+                )}
+                <span className="flex-1 truncate">{suggestion.label}</span>
+                {suggestion.hint && (
+                  <span className="text-xs text-[var(--color-text-muted)]">
+                    {suggestion.hint}
+                  </span>
+                )}
               </div>
             </li>
           ))}
@@ -0,0 +1,152 @@
+/**
+ * Card Payment Page
+ * Collects card details with Stripe.js for an order created at checkout
+ */
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate, Navigate } from "react-router-dom";
+import { CreditCard, Loader2, ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+
+const STRIPE_JS_URL = "https://js.stripe.com/v3";
+
+/**
+ * Load Stripe.js once and reuse it across visits
+ */
+let stripeScriptPromise = null;
+const loadStripeScript = () => {
+  if (window.Stripe) return Promise.resolve(window.Stripe);
+  if (!stripeScriptPromise) {
+    stripeScriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = STRIPE_JS_URL;
+      script.async = true;
+      script.onload = () => resolve(window.Stripe);
+      script.onerror = () => {
+        stripeScriptPromise = null;
+        reject(new Error("Failed to load Stripe.js"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return stripeScriptPromise;
+};
+
+const CardPayment = () => {
+  const { state } = useLocation();
+  const navigate = useNavigate();
+  const mountRef = useRef(null);
+  const stripeRef = useRef(null);
+  const elementsRef = useRef(null);
+  const [ready, setReady] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState(null);
+
+  const orderId = state?.orderId;
+  const clientSecret = state?.clientSecret;
+  const publishableKey = state?.publishableKey;
+
+  useEffect(() => {
+    if (!clientSecret || !publishableKey) return;
+    let cancelled = false;
+
+    loadStripeScript()
+      .then((Stripe) => {
+        if (cancelled || !mountRef.current) return;
+        const stripe = Stripe(publishableKey);
+        const elements = stripe.elements({ clientSecret });
+        const paymentElement = elements.create("payment");
+        paymentElement.mount(mountRef.current);
+        paymentElement.on("ready", () => setReady(true));
+
+        stripeRef.current = stripe;
+        elementsRef.current = elements;
+      })
+      .catch((err) => setError(err.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientSecret, publishableKey]);
+
+  if (!orderId || !clientSecret) {
+    return <Navigate to="/orders" replace />;
+  }
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+    if (!stripeRef.current || !elementsRef.current) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    // Stripe redirects to return_url on success (and for 3-D Secure)
+    const { error: confirmError } = await stripeRef.current.confirmPayment({
+      elements: elementsRef.current,
+      confirmParams: {
+        return_url: `${window.location.origin}/order-success?orderId=${orderId}`,
+      },
+    });
+
+    if (confirmError) {
+      setError(confirmError.message);
+      toast.error(confirmError.message || "Card payment failed");
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="container-app py-12">
+      <div className="max-w-lg mx-auto">
+        <div className="flex items-center gap-2 mb-6">
+          <CreditCard className="text-[var(--color-primary)] w-6 h-6" />
+          <h1 className="text-2xl font-bold">Pay by Card</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+          {state.amount && (
+            <p className="text-sm text-[var(--color-text-muted)]">
+              You will be charged{" "}
+              <span className="font-semibold text-[var(--color-text)]">
+                {state.currency || "USD"} {Number(state.amount).toFixed(2)}
+              </span>
+            </p>
+          )}
+
+          <div ref={mountRef} />
+          {!ready && !error && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-8 h-8 animate-spin text-[var(--color-primary)]" />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-[var(--color-error)]">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={!ready || submitting}
+            className="btn btn-primary w-full"
+          >
+            {submitting ? "Processing..." : "Pay Now"}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => navigate(`/orders/${orderId}`)}
+            className="btn btn-secondary w-full"
+          >
+            Pay Later
+          </button>
+
+          <p className="flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
+            <ShieldCheck className="w-4 h-4" />
+            Card details go straight to Stripe and never touch our servers.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CardPayment;
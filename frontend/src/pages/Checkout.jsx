@@ -5,10 +5,19 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useSelector, useDispatch } from "react-redux";
-import { selectCart, resetCart } from "../store/cartSlice";
+import {
+  selectCart,
+  resetCart,
+  applyCoupon,
+  removeCoupon,
+} from "../store/cartSlice";
 import { useAuth } from "../context/AuthContext";
 import { ordersAPI, paymentsAPI } from "../api/orders";
+import { shippingAPI } from "../api/shipping";
+import { authAPI } from "../api/auth";
 import { formatPrice } from "../utils/helpers";
+import { submitEsewaForm } from "../utils/payment";
+import QrPaymentModal from "../components/QrPaymentModal";
 import toast from "react-hot-toast"; // Assuming toast is available
 import {
   Loader2,
@@ -16,8 +25,12 @@ import {
   Truck,
   CreditCard,
   Banknote,
+  FlaskConical,
+  QrCode,
   ShieldCheck,
   Gift,
+  Tag,
+  X,
 } from "lucide-react";
 
 // Province names mapping for Nepal
@@ -31,6 +44,29 @@ const PROVINCES = {
   7: "Sudurpashchim Pradesh",
 };
 
+// Checkout form fields from a saved address
+const toShippingForm = (address) => ({
+  name: address.name,
+  street: address.street,
+  city: address.city,
+  district: address.district,
+  province: String(address.province),
+  phone: address.phone,
+});
+
+// One line per cart item the server could not cover from stock
+const describeShortages = (shortages) =>
+  shortages
+    .map((s) => {
+      const variant = s.variant
+        ? ` (${s.variant.size} - ${s.variant.color})`
+        : "";
+      return s.available > 0
+        ? `${s.name}${variant}: only ${s.available} left`
+        : `${s.name}${variant}: out of stock`;
+    })
+    .join("\n");
+
 const Checkout = () => {
   const navigate = useNavigate();
   const dispatch = useDispatch();
@@ -42,6 +78,8 @@ const Checkout = () => {
   const [selectedPayment, setSelectedPayment] = useState("cod");
   const [showQRModal, setShowQRModal] = useState(false);
   const [pendingOrderId, setPendingOrderId] = useState(null);
+  // Fonepay QR shown while waiting for the bank to confirm
+  const [qrPayment, setQrPayment] = useState(null);
 
   // Flag to prevent empty cart redirect after successful order
   const orderPlacedRef = useRef(false);
@@ -56,10 +94,24 @@ const Checkout = () => {
     phone: "",
   });
 
+  // Saved address book
+  const [savedAddresses, setSavedAddresses] = useState([]);
+  const [selectedAddressId, setSelectedAddressId] = useState(null);
+  const [saveAddress, setSaveAddress] = useState(false);
+
   // Gift / order notes
   const [customerNotes, setCustomerNotes] = useState("");
   const [isGift, setIsGift] = useState(false);
 
+  // Promo code
+  const [couponInput, setCouponInput] = useState("");
+  const [couponLoading, setCouponLoading] = useState(false);
+
+  // Shipping options quoted for the current address and cart
+  const [shippingOptions, setShippingOptions] = useState([]);
+  const [selectedShippingRule, setSelectedShippingRule] = useState(null);
+  const [shippingLoading, setShippingLoading] = useState(false);
+
   // Load available payment methods
   useEffect(() => {
     const loadMethods = async () => {
@@ -86,17 +138,40 @@ const Checkout = () => {
   // Load user defaults
   useEffect(() => {
     if (user) {
-      setShipping({
+      setShipping((prev) => ({
+        ...prev,
         name: user.name || "",
-        street: user.addresses?.[0]?.street || "",
-        city: user.addresses?.[0]?.city || "",
-        district: user.addresses?.[0]?.district || "",
-        province: user.addresses?.[0]?.province || "3",
         phone: user.phone || "",
-      });
+      }));
     }
   }, [user]);
 
+  // Load saved addresses and start from the default one
+  useEffect(() => {
+    if (!user) return;
+
+    const loadAddresses = async () => {
+      try {
+        const response = await authAPI.getAddresses();
+        const addresses = response.data?.addresses || [];
+        setSavedAddresses(addresses);
+        const preferred = addresses.find((a) => a.isDefault) || addresses[0];
+        if (preferred) {
+          setSelectedAddressId(preferred._id);
+          setShipping(toShippingForm(preferred));
+        }
+      } catch (error) {
+        console.error("Failed to load saved addresses", error);
+      }
+    };
+    loadAddresses();
+  }, [user]);
+
+  const selectSavedAddress = (address) => {
+    setSelectedAddressId(address._id);
+    setShipping(toShippingForm(address));
+  };
+
   // Redirect if cart is empty (but not after successful order)
   useEffect(() => {
     if (!orderPlacedRef.current && !cart.loading && cart.items.length === 0) {
@@ -105,9 +180,78 @@ const Checkout = () => {
     }
   }, [cart.items, cart.loading, navigate]);
 
+  // Re-quote shipping when the destination or cart value changes
+  useEffect(() => {
+    const district = shipping.district.trim();
+    if (!district || !shipping.province) {
+      setShippingOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setShippingLoading(true);
+      try {
+        const response = await shippingAPI.getQuote({
+          district,
+          province: parseInt(shipping.province),
+        });
+        if (cancelled) return;
+        const options = response.data?.options || [];
+        setShippingOptions(options);
+        setSelectedShippingRule((current) =>
+          options.some((option) => option.ruleId === current)
+            ? current
+            : options[0]?.ruleId || null,
+        );
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Failed to load shipping options", error);
+          setShippingOptions([]);
+        }
+      } finally {
+        if (!cancelled) setShippingLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shipping.district, shipping.province, cart.subtotal]);
+
   const handleInputChange = (e) => {
     const { name, value } = e.target;
     setShipping((prev) => ({ ...prev, [name]: value }));
+    // Edited details no longer match the saved address
+    setSelectedAddressId(null);
+  };
+
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim();
+    if (!code) return;
+
+    setCouponLoading(true);
+    try {
+      await dispatch(applyCoupon(code)).unwrap();
+      setCouponInput("");
+      toast.success("Coupon applied");
+    } catch (message) {
+      toast.error(message || "Invalid coupon code");
+    } finally {
+      setCouponLoading(false);
+    }
+  };
+
+  const handleRemoveCoupon = async () => {
+    setCouponLoading(true);
+    try {
+      await dispatch(removeCoupon()).unwrap();
+    } catch (message) {
+      toast.error(message || "Failed to remove coupon");
+    } finally {
+      setCouponLoading(false);
+    }
   };
 
   const handlePlaceOrder = async (e) => {
@@ -140,12 +284,17 @@ const Checkout = () => {
 
     try {
       // 1. Create Order
+      const shippingAddress = {
+        ...shipping,
+        province: parseInt(shipping.province),
+      };
       const orderPayload = {
-        shippingAddress: {
-          ...shipping,
-          province: parseInt(shipping.province),
-        },
+        ...(selectedAddressId
+          ? { addressId: selectedAddressId }
+          : { shippingAddress }),
         paymentMethod: selectedPayment,
+        couponCode: cart.coupon?.code || null,
+        shippingRuleId: selectedShippingRule,
         itemsFromCart: true, // Explicitly state we are using cart items
         customerNotes: isGift
           ? `🎁 Gift Order: ${customerNotes}`.trim()
@@ -157,6 +306,12 @@ const Checkout = () => {
 
       if (!orderId) throw new Error("Failed to create order ID");
 
+      if (!selectedAddressId && saveAddress) {
+        authAPI
+          .addAddress(shippingAddress)
+          .catch((error) => console.error("Failed to save address", error));
+      }
+
       // 2. Initiate Payment
       const paymentRes = await paymentsAPI.initiatePayment(
         orderId,
@@ -175,20 +330,7 @@ const Checkout = () => {
         // Backend returns redirectUrl (e.g. https://rc-epay.esewa.com.np/api/epay/main/v2/form)
         const url = paymentData.redirectUrl || paymentData.url;
         if (paymentData.formData && url) {
-          const form = document.createElement("form");
-          form.method = "POST";
-          form.action = url;
-
-          Object.keys(paymentData.formData).forEach((key) => {
-            const input = document.createElement("input");
-            input.type = "hidden";
-            input.name = key;
-            input.value = paymentData.formData[key];
-            form.appendChild(input);
-          });
-
-          document.body.appendChild(form);
-          form.submit();
+          submitEsewaForm(url, paymentData.formData);
         } else {
           throw new Error("Invalid eSewa configuration");
         }
@@ -201,6 +343,38 @@ const Checkout = () => {
         } else {
           throw new Error("Invalid Khalti configuration: URL missing");
         }
+      } else if (selectedPayment === "fonepay") {
+        // Show the dynamic QR and wait for the bank app to pay it
+        if (!paymentData.formData?.qrImage) {
+          throw new Error("Invalid Fonepay configuration: QR missing");
+        }
+        orderPlacedRef.current = true;
+        setQrPayment({
+          orderId,
+          qrImage: paymentData.formData.qrImage,
+          amount: paymentData.formData.amount,
+        });
+      } else if (selectedPayment === "mock") {
+        // Local mock gateway (development only)
+        if (!paymentData.redirectUrl) {
+          throw new Error("Mock gateway is not reachable");
+        }
+        window.location.href = paymentData.redirectUrl;
+      } else if (selectedPayment === "stripe") {
+        // Card details are collected on our own page with Stripe.js
+        if (!paymentData.clientSecret) {
+          throw new Error("Invalid card payment configuration");
+        }
+        orderPlacedRef.current = true;
+        navigate("/checkout/card", {
+          state: {
+            orderId,
+            clientSecret: paymentData.clientSecret,
+            publishableKey: paymentData.publishableKey,
+            amount: paymentData.amount,
+            currency: paymentData.currency,
+          },
+        });
       }
     } catch (error) {
       console.error("Checkout failed:", error);
@@ -210,6 +384,12 @@ const Checkout = () => {
         error.response?.data?.message ||
         error.message ||
         "Failed to place order";
+      if (error.response?.status === 409 && error.response.data?.errors) {
+        // Some cart lines ran out while checking out
+        toast.error(describeShortages(error.response.data.errors));
+        return;
+      }
+
       if (error.response?.data) {
         console.error("SERVER ERROR DETAIL:", error.response.data);
         const serverMsg =
@@ -236,8 +416,14 @@ const Checkout = () => {
 
   if (cart.items.length === 0 && !orderPlacedRef.current) return null;
 
-  const shippingCost = 0; // Hardcoded free shipping for now or fetch from logic
-  const total = cart.subtotal + shippingCost;
+  const selectedShipping =
+    shippingOptions.find((option) => option.ruleId === selectedShippingRule) ||
+    shippingOptions[0];
+  const shippingCost = selectedShipping?.cost || 0;
+  const discount = cart.discount || 0;
+  // Exclusive pricing adds VAT on top; inclusive VAT is already in the subtotal
+  const addedTax = cart.pricesIncludeTax ? 0 : cart.tax;
+  const total = cart.subtotal + shippingCost - discount + addedTax;
 
   return (
     <div className="container-app py-8">
@@ -253,6 +439,37 @@ const Checkout = () => {
               <h2 className="text-lg font-semibold">Shipping Address</h2>
             </div>
 
+            {savedAddresses.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+                {savedAddresses.map((address) => (
+                  <button
+                    key={address._id}
+                    type="button"
+                    onClick={() => selectSavedAddress(address)}
+                    className={`p-3 rounded-xl border-2 text-left text-sm transition-all ${
+                      selectedAddressId === address._id
+                        ? "border-[var(--color-primary)] bg-[var(--color-primary-light)]/10"
+                        : "border-[var(--color-border)] hover:border-[var(--color-primary)]/50"
+                    }`}
+                  >
+                    <p className="font-medium">
+                      {address.label || address.name}
+                      {address.isDefault && (
+                        <span className="ml-2 text-xs text-[var(--color-primary)]">
+                          Default
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-[var(--color-text-muted)] text-xs line-clamp-2">
+                      {[address.street, address.city, address.district]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
             <form
               id="checkout-form"
               onSubmit={handlePlaceOrder}
@@ -349,9 +566,66 @@ const Checkout = () => {
                   required
                 />
               </div>
+
+              {!selectedAddressId && (
+                <label className="md:col-span-2 flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={saveAddress}
+                    onChange={(e) => setSaveAddress(e.target.checked)}
+                    className="w-4 h-4 rounded border-[var(--color-border)] text-[var(--color-primary)] focus:ring-[var(--color-primary)]"
+                  />
+                  <span className="text-sm">
+                    Save this address for next time
+                  </span>
+                </label>
+              )}
             </form>
           </div>
 
+          {/* Shipping Method */}
+          <div className="card p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Truck className="text-[var(--color-primary)] w-5 h-5" />
+              <h2 className="text-lg font-semibold">Shipping Method</h2>
+              {shippingLoading && (
+                <Loader2 className="w-4 h-4 animate-spin text-[var(--color-text-muted)]" />
+              )}
+            </div>
+
+            {shippingOptions.length === 0 ? (
+              <p className="text-sm text-[var(--color-text-muted)]">
+                Enter your district to see delivery options.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {shippingOptions.map((option) => (
+                  <button
+                    key={option.ruleId || option.name}
+                    type="button"
+                    onClick={() => setSelectedShippingRule(option.ruleId)}
+                    className={`w-full p-4 rounded-xl border-2 flex items-center justify-between text-left transition-all ${
+                      selectedShipping?.ruleId === option.ruleId
+                        ? "border-[var(--color-primary)] bg-[var(--color-primary-light)]/10"
+                        : "border-[var(--color-border)] hover:border-[var(--color-primary)]/50"
+                    }`}
+                  >
+                    <div>
+                      <p className="font-medium">{option.name}</p>
+                      <p className="text-xs text-[var(--color-text-muted)]">
+                        {option.zoneName} • {option.estimatedDays.min}-
+                        {option.estimatedDays.max} days
+                      </p>
+                    </div>
+                    <span className="font-semibold">
+                      {option.isFree ? "Free" : formatPrice(option.cost)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Gift Message / Order Notes */}
           <div className="card p-6">
             <div className="flex items-center gap-2 mb-4">
@@ -407,6 +681,12 @@ const Checkout = () => {
                       <div className="w-12 h-8 bg-green-500 rounded flex items-center justify-center text-white font-bold text-xs">
                         eSewa
                       </div>
+                    ) : method.id === "stripe" ? (
+                      <CreditCard className="w-8 h-8" />
+                    ) : method.id === "fonepay" ? (
+                      <QrCode className="w-8 h-8" />
+                    ) : method.id === "mock" ? (
+                      <FlaskConical className="w-8 h-8" />
                     ) : (
                       <Banknote className="w-8 h-8" />
                     )}
@@ -420,7 +700,13 @@ const Checkout = () => {
                 <ShieldCheck className="w-4 h-4" />
                 {selectedPayment === "cod"
                   ? "Pay with cash upon delivery. No extra charges."
-                  : "You will be redirected to eSewa to complete your payment securely."}
+                  : selectedPayment === "stripe"
+                    ? "Pay with an international Visa or Mastercard. Charged in USD."
+                    : selectedPayment === "fonepay"
+                      ? "Scan the QR code with any bank app, ConnectIPS or wallet."
+                      : selectedPayment === "mock"
+                      ? "Simulated payment for testing. Pick an outcome on the mock gateway page."
+                      : "You will be redirected to eSewa to complete your payment securely."}
               </p>
             </div>
           </div>
@@ -465,17 +751,89 @@ const Checkout = () => {
               ))}
             </div>
 
+            {/* Promo Code */}
+            <div className="border-t border-[var(--color-border)] pt-4 mb-4">
+              {cart.coupon ? (
+                <div className="flex items-center justify-between p-3 rounded-lg bg-green-50 border border-green-200">
+                  <div className="flex items-center gap-2 text-sm text-green-700">
+                    <Tag className="w-4 h-4" />
+                    <div>
+                      <p className="font-semibold">{cart.coupon.code}</p>
+                      {cart.coupon.description && (
+                        <p className="text-xs">{cart.coupon.description}</p>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleRemoveCoupon}
+                    disabled={couponLoading}
+                    className="p-1 rounded-full hover:bg-green-100 text-green-700"
+                    aria-label="Remove coupon"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleApplyCoupon();
+                      }
+                    }}
+                    className="input flex-1"
+                    placeholder="Promo code"
+                    maxLength={30}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyCoupon}
+                    disabled={couponLoading || !couponInput.trim()}
+                    className="btn btn-outline px-4"
+                  >
+                    {couponLoading ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      "Apply"
+                    )}
+                  </button>
+                </div>
+              )}
+              {cart.couponError && (
+                <p className="text-xs text-red-500 mt-2">{cart.couponError}</p>
+              )}
+            </div>
+
             <div className="border-t border-[var(--color-border)] pt-4 space-y-2">
               <div className="flex justify-between">
                 <span className="text-[var(--color-text-muted)]">Subtotal</span>
                 <span>{formatPrice(cart.subtotal)}</span>
               </div>
+              {discount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Discount ({cart.coupon?.code})</span>
+                  <span>-{formatPrice(discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-[var(--color-text-muted)]">Shipping</span>
                 <span>
                   {shippingCost === 0 ? "Free" : formatPrice(shippingCost)}
                 </span>
               </div>
+              {cart.tax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-[var(--color-text-muted)]">
+                    {cart.pricesIncludeTax ? "Includes VAT" : "VAT"}
+                  </span>
+                  <span>{formatPrice(cart.tax)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-bold text-lg pt-2 border-t border-[var(--color-border)]">
                 <span>Total</span>
                 <span className="text-[var(--color-primary)]">
@@ -499,12 +857,30 @@ const Checkout = () => {
 
             <div className="mt-4 flex items-center justify-center gap-2 text-xs text-[var(--color-text-muted)]">
               <Truck className="w-3 h-3" />
-              <span>Fast Delivery within 3-5 days</span>
+              <span>
+                {selectedShipping
+                  ? `Delivery within ${selectedShipping.estimatedDays.min}-${selectedShipping.estimatedDays.max} days`
+                  : "Fast Delivery within 3-5 days"}
+              </span>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Fonepay QR Modal */}
+      {qrPayment && (
+        <QrPaymentModal
+          orderId={qrPayment.orderId}
+          qrImage={qrPayment.qrImage}
+          amount={qrPayment.amount}
+          onClose={() => {
+            const { orderId } = qrPayment;
+            setQrPayment(null);
+            navigate(`/orders/${orderId}`);
+          }}
+        />
+      )}
+
       {/* eSewa QR Modal (fallback for manual payment) */}
       {showQRModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
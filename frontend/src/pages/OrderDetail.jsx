@@ -2,10 +2,13 @@
  * Order Detail Page
  * Shows full details of a specific order
  */
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
 import { ordersAPI } from "../api";
-import { formatPrice, formatDate } from "../utils/helpers";
+import { formatPrice, formatDate, formatDateTime } from "../utils/helpers";
+import RetryPayment from "../components/RetryPayment";
+import OrderReturns from "../components/OrderReturns";
+import OrderTracking from "../components/OrderTracking";
 import {
   Loader2,
   ArrowLeft,
@@ -14,6 +17,7 @@ import {
   Package,
   Truck,
   AlertTriangle,
+  FileText,
 } from "lucide-react";
 import toast from "react-hot-toast";
 
@@ -38,6 +42,16 @@ const OrderDetail = () => {
     fetchOrder();
   }, [id]);
 
+  // The courier reported delivery while the page was open
+  const handleDelivered = useCallback(async () => {
+    try {
+      const response = await ordersAPI.getOrder(id);
+      setOrder(response.data.order);
+    } catch (error) {
+      console.error("Failed to refresh order:", error);
+    }
+  }, [id]);
+
   const handleCancelOrder = async () => {
     if (!window.confirm("Are you sure you want to cancel this order?")) return;
 
@@ -56,6 +70,24 @@ const OrderDetail = () => {
     }
   };
 
+  const handleDownloadInvoice = async () => {
+    setActionLoading(true);
+    try {
+      const blob = await ordersAPI.downloadInvoice(id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `invoice-${order.orderNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download invoice:", error);
+      toast.error("Failed to download invoice");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const getStatusColor = (status) => {
     switch (status) {
       case "delivered":
@@ -116,6 +148,11 @@ const OrderDetail = () => {
           <p className="text-[var(--color-text-muted)]">
             Placed on {formatDate(order.createdAt)}
           </p>
+          {order.replacementFor && (
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Replacement for an exchanged item, no charge
+            </p>
+          )}
         </div>
 
         {order.orderStatus === "pending" && (
@@ -129,6 +166,19 @@ const OrderDetail = () => {
             </button>
           </div>
         )}
+
+        {!["pending", "cancelled"].includes(order.orderStatus) && (
+          <div>
+            <button
+              onClick={handleDownloadInvoice}
+              disabled={actionLoading}
+              className="btn btn-outline flex items-center gap-2"
+            >
+              <FileText className="w-4 h-4" />
+              Download Invoice
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -222,6 +272,22 @@ const OrderDetail = () => {
               )}
             </div>
           </div>
+
+          {/* Courier tracking */}
+          {order.shipment && (
+            <OrderTracking
+              orderId={order._id}
+              shipment={order.shipment}
+              onDelivered={
+                order.orderStatus === "shipped" ? handleDelivered : undefined
+              }
+            />
+          )}
+
+          {/* Returns and exchanges */}
+          {order.orderStatus === "delivered" && (
+            <OrderReturns orderId={order._id} />
+          )}
         </div>
 
         {/* Sidebar Info */}
@@ -247,6 +313,14 @@ const OrderDetail = () => {
                       )}
                 </span>
               </div>
+              {order.pricing?.tax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-[var(--color-text-muted)]">
+                    {order.pricing.pricesIncludeTax ? "Includes VAT" : "VAT"}
+                  </span>
+                  <span>{formatPrice(order.pricing.tax)}</span>
+                </div>
+              )}
               <div className="border-t border-[var(--color-border)] pt-3 flex justify-between font-bold text-lg">
                 <span>Total</span>
                 <span className="text-[var(--color-primary)]">
@@ -292,12 +366,28 @@ const OrderDetail = () => {
                 {order.paymentStatus}
               </span>
             </div>
+            {order.reservedUntil && order.paymentStatus === "pending" && (
+              <p className="text-xs text-amber-600 mb-2">
+                Complete payment by {formatDateTime(order.reservedUntil)} or the
+                order will be cancelled automatically.
+              </p>
+            )}
             {order.paymentDetails?.transactionId && (
               <p className="text-xs text-[var(--color-text-muted)] break-all">
                 Transaction ID: {order.paymentDetails.transactionId}
               </p>
             )}
           </div>
+
+          {/* Retry an unpaid online payment */}
+          {order.status === "pending" &&
+            ["pending", "failed"].includes(order.payment?.status) &&
+            order.payment?.method !== "cod" && (
+              <RetryPayment
+                orderId={order._id}
+                currentMethod={order.payment.method}
+              />
+            )}
         </div>
       </div>
     </div>
@@ -3,7 +3,8 @@
  * Handles failed or cancelled payments
  */
 import { useSearchParams, Link } from "react-router-dom";
-import { XCircle, RefreshCw, ShoppingCart } from "lucide-react";
+import { XCircle, RefreshCw, ShoppingCart, Package } from "lucide-react";
+import RetryPayment from "../components/RetryPayment";
 
 const OrderFailed = () => {
   const [searchParams] = useSearchParams();
@@ -47,11 +48,18 @@ const OrderFailed = () => {
             <li>The session expired</li>
           </ul>
           <p className="text-sm mt-3">
-            <strong>Good news:</strong> Your cart items are still saved. You can
-            try again.
+            <strong>Good news:</strong> Your order and cart items are still
+            saved. You can pay again or switch to Cash on Delivery.
           </p>
         </div>
 
+        {/* Retry on the same order */}
+        {orderId && (
+          <div className="mb-8">
+            <RetryPayment orderId={orderId} currentMethod={gateway} />
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
           {orderId ? (
@@ -59,8 +67,8 @@ const OrderFailed = () => {
               to={`/orders/${orderId}`}
               className="btn btn-primary flex items-center justify-center gap-2"
             >
-              <RefreshCw className="w-4 h-4" />
-              Retry Payment
+              <Package className="w-4 h-4" />
+              View Order
             </Link>
           ) : (
             <Link
@@ -1,6 +1,6 @@
 /**
  * Order Success Page
- * Handles successful payments including eSewa verification
+ * Handles successful payments including eSewa and card verification
  */
 import { useEffect, useState } from "react";
 import { useSearchParams, Link } from "react-router-dom";
@@ -21,6 +21,7 @@ const OrderSuccess = () => {
 
   const orderId = searchParams.get("orderId");
   const esewaData = searchParams.get("data"); // eSewa returns encoded data
+  const paymentIntentId = searchParams.get("payment_intent"); // Stripe return_url
 
   useEffect(() => {
     const processOrder = async () => {
@@ -41,6 +42,21 @@ const OrderSuccess = () => {
           setVerifying(false);
         }
 
+        // Card payments return here from Stripe.js with the intent id
+        if (paymentIntentId) {
+          setVerifying(true);
+          try {
+            await paymentsAPI.verifyPayment(orderId, "stripe", {
+              paymentIntentId,
+            });
+            toast.success("Payment verified successfully!");
+          } catch (verifyError) {
+            console.error("Card payment verification failed:", verifyError);
+            // The Stripe webhook will still confirm the payment
+          }
+          setVerifying(false);
+        }
+
         // Fetch order details
         if (orderId) {
           const response = await ordersAPI.getOrder(orderId);
@@ -64,7 +80,7 @@ const OrderSuccess = () => {
       setLoading(false);
       setError("No order ID provided");
     }
-  }, [orderId, esewaData, dispatch]);
+  }, [orderId, esewaData, paymentIntentId, dispatch]);
 
   if (loading || verifying) {
     return (
@@ -4,15 +4,56 @@
  */
 import { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
-import { productsAPI, categoriesAPI } from '../api';
+import { productsAPI } from '../api';
 import { formatPrice, calculateDiscount, debounce } from '../utils/helpers';
 import { Search, Filter, X, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
 
+// Multi-select filters are kept in the URL as comma-separated values
+const FACET_FILTERS = ['category', 'size', 'color', 'price'];
+
+/**
+ * Checkbox list for one facet, with the number of products each option gives
+ */
+const FacetGroup = ({ title, options = [], selected, onToggle }) => {
+    if (options.length === 0) return null;
+
+    return (
+        <div>
+            <h3 className="font-semibold mb-3">{title}</h3>
+            <ul className="space-y-1 max-h-60 overflow-y-auto">
+                {options.map((option) => {
+                    const checked = selected.includes(option.value);
+                    return (
+                        <li key={option.value}>
+                            <label
+                                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm cursor-pointer hover:bg-[var(--color-bg)] ${
+                                    option.count === 0 && !checked ? 'opacity-50' : ''
+                                }`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    disabled={option.count === 0 && !checked}
+                                    onChange={() => onToggle(option.value)}
+                                />
+                                <span className="flex-1">{option.label}</span>
+                                <span className="text-xs text-[var(--color-text-muted)]">{option.count}</span>
+                            </label>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
 const Products = () => {
     const [searchParams, setSearchParams] = useSearchParams();
     const [products, setProducts] = useState([]);
-    const [categories, setCategories] = useState([]);
+    const [facets, setFacets] = useState(null);
     const [pagination, setPagination] = useState(null);
+    // Id of the logged search, sent back when a result is opened
+    const [searchId, setSearchId] = useState(null);
     const [loading, setLoading] = useState(true);
     const [showFilters, setShowFilters] = useState(false);
 
@@ -23,8 +64,11 @@ const Products = () => {
     const currentSort = searchParams.get('sort') || '-createdAt';
     const currentMinPrice = searchParams.get('minPrice') || '';
     const currentMaxPrice = searchParams.get('maxPrice') || '';
-    const currentAge = searchParams.get('age') || '';
-    const currentGender = searchParams.get('gender') || '';
+    const currentSize = searchParams.get('size') || '';
+    const currentColor = searchParams.get('color') || '';
+    const currentPrice = searchParams.get('price') || '';
+    const currentRating = searchParams.get('rating') || '';
+    const currentInStock = searchParams.get('inStock') === 'true';
 
     // Fetch products
     useEffect(() => {
@@ -40,12 +84,18 @@ const Products = () => {
                 if (currentSearch) params.search = currentSearch;
                 if (currentMinPrice) params.minPrice = currentMinPrice;
                 if (currentMaxPrice) params.maxPrice = currentMaxPrice;
-                if (currentAge) params.age = currentAge;
-                if (currentGender) params.gender = currentGender;
+                if (currentSize) params.size = currentSize;
+                if (currentColor) params.color = currentColor;
+                if (currentPrice) params.price = currentPrice;
+                if (currentRating) params.rating = currentRating;
+                if (currentInStock) params.inStock = true;
 
                 const response = await productsAPI.getProducts(params);
                 setProducts(response.data.products);
+                setFacets(response.data.facets);
                 setPagination(response.pagination);
+                // Later pages keep the id from the search's first page
+                if (currentPage === 1) setSearchId(response.data.searchId || null);
             } catch (error) {
                 console.error('Failed to fetch products:', error);
             } finally {
@@ -53,20 +103,19 @@ const Products = () => {
             }
         };
         fetchProducts();
-    }, [currentPage, currentCategory, currentSearch, currentSort, currentMinPrice, currentMaxPrice, currentAge, currentGender]);
-
-    // Fetch categories
-    useEffect(() => {
-        const fetchCategories = async () => {
-            try {
-                const response = await categoriesAPI.getCategories();
-                setCategories(response.data.categories);
-            } catch (error) {
-                console.error('Failed to fetch categories:', error);
-            }
-        };
-        fetchCategories();
-    }, []);
+    }, [
+        currentPage,
+        currentCategory,
+        currentSearch,
+        currentSort,
+        currentMinPrice,
+        currentMaxPrice,
+        currentSize,
+        currentColor,
+        currentPrice,
+        currentRating,
+        currentInStock,
+    ]);
 
     // Update filters
     const updateFilters = (key, value) => {
@@ -82,11 +131,153 @@ const Products = () => {
         setSearchParams(newParams);
     };
 
+    const trackClick = (product) => {
+        if (!currentSearch || !searchId) return;
+        productsAPI.trackSearchClick(searchId, product._id).catch(() => {});
+    };
+
+    const selectedValues = (key) => (searchParams.get(key) || '').split(',').filter(Boolean);
+
+    const toggleFilter = (key, value) => {
+        const selected = selectedValues(key);
+        const next = selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value];
+        updateFilters(key, next.join(','));
+    };
+
     const clearFilters = () => {
         setSearchParams({});
     };
 
-    const hasActiveFilters = currentCategory || currentSearch || currentMinPrice || currentMaxPrice || currentAge || currentGender;
+    const hasActiveFilters =
+        currentSearch ||
+        currentMinPrice ||
+        currentMaxPrice ||
+        currentRating ||
+        currentInStock ||
+        FACET_FILTERS.some((key) => searchParams.get(key));
+
+    const selectedCategories = selectedValues('category');
+    const title =
+        selectedCategories.length === 1
+            ? facets?.categories.find((c) => c.value === selectedCategories[0])?.label || 'Products'
+            : 'All Products';
+
+    const filterPanel = (
+        <div className="space-y-6">
+            {/* Search */}
+            <div>
+                <h3 className="font-semibold mb-3">Search</h3>
+                <div className="relative">
+                    <input
+                        type="text"
+                        defaultValue={currentSearch}
+                        onChange={debounce((e) => updateFilters('search', e.target.value), 500)}
+                        placeholder="Search products..."
+                        className="input pl-10"
+                    />
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-muted)]" />
+                </div>
+            </div>
+
+            {/* Availability */}
+            {facets && (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={currentInStock}
+                        onChange={() => updateFilters('inStock', currentInStock ? '' : 'true')}
+                    />
+                    <span className="flex-1 font-semibold">In stock only</span>
+                    <span className="text-xs text-[var(--color-text-muted)]">{facets.inStock}</span>
+                </label>
+            )}
+
+            <FacetGroup
+                title="Categories"
+                options={facets?.categories}
+                selected={selectedCategories}
+                onToggle={(value) => toggleFilter('category', value)}
+            />
+
+            <FacetGroup
+                title="Size"
+                options={facets?.sizes}
+                selected={selectedValues('size')}
+                onToggle={(value) => toggleFilter('size', value)}
+            />
+
+            <FacetGroup
+                title="Color"
+                options={facets?.colors}
+                selected={selectedValues('color')}
+                onToggle={(value) => toggleFilter('color', value)}
+            />
+
+            <FacetGroup
+                title="Price"
+                options={facets?.price}
+                selected={selectedValues('price')}
+                onToggle={(value) => toggleFilter('price', value)}
+            />
+
+            {/* Price Range */}
+            <div>
+                <h3 className="font-semibold mb-3">Price Range</h3>
+                <div className="flex gap-2">
+                    <input
+                        type="number"
+                        placeholder="Min"
+                        defaultValue={currentMinPrice}
+                        onChange={debounce((e) => updateFilters('minPrice', e.target.value), 500)}
+                        className="input text-sm"
+                    />
+                    <input
+                        type="number"
+                        placeholder="Max"
+                        defaultValue={currentMaxPrice}
+                        onChange={debounce((e) => updateFilters('maxPrice', e.target.value), 500)}
+                        className="input text-sm"
+                    />
+                </div>
+            </div>
+
+            {/* Rating: one minimum at a time */}
+            {facets && (
+                <div>
+                    <h3 className="font-semibold mb-3">Customer Rating</h3>
+                    <ul className="space-y-1">
+                        {facets.ratings.map((band) => (
+                            <li key={band.value}>
+                                <button
+                                    onClick={() => updateFilters('rating', currentRating === band.value ? '' : band.value)}
+                                    disabled={band.count === 0 && currentRating !== band.value}
+                                    className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                                        currentRating === band.value
+                                            ? 'bg-[var(--color-primary)] text-white'
+                                            : 'hover:bg-[var(--color-bg)]'
+                                    }`}
+                                >
+                                    <span>{band.label}</span>
+                                    <span className="text-xs">{band.count}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Clear Filters */}
+            {hasActiveFilters && (
+                <button
+                    onClick={clearFilters}
+                    className="btn btn-secondary w-full text-sm"
+                >
+                    <X className="w-4 h-4" />
+                    Clear Filters
+                </button>
+            )}
+        </div>
+    );
 
     return (
         <div className="container-app py-8">
@@ -100,135 +291,29 @@ const Products = () => {
             <div className="flex flex-col lg:flex-row gap-8">
                 {/* Sidebar Filters (Desktop) */}
                 <aside className="hidden lg:block w-64 flex-shrink-0">
-                    <div className="sticky top-24 space-y-6">
-                        {/* Search */}
-                        <div>
-                            <h3 className="font-semibold mb-3">Search</h3>
-                            <div className="relative">
-                                <input
-                                    type="text"
-                                    defaultValue={currentSearch}
-                                    onChange={debounce((e) => updateFilters('search', e.target.value), 500)}
-                                    placeholder="Search products..."
-                                    className="input pl-10"
-                                />
-                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-muted)]" />
-                            </div>
-                        </div>
-
-                        {/* Categories */}
-                        <div>
-                            <h3 className="font-semibold mb-3">Categories</h3>
-                            <ul className="space-y-2">
-                                <li>
-                                    <button
-                                        onClick={() => updateFilters('category', '')}
-                                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${!currentCategory ? 'bg-[var(--color-primary)] text-white' : 'hover:bg-[var(--color-bg)]'
-                                            }`}
-                                    >
-                                        All Products
-                                    </button>
-                                </li>
-                                {categories.map((cat) => (
-                                    <li key={cat._id}>
-                                        <button
-                                            onClick={() => updateFilters('category', cat.slug)}
-                                            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${currentCategory === cat.slug ? 'bg-[var(--color-primary)] text-white' : 'hover:bg-[var(--color-bg)]'
-                                                }`}
-                                        >
-                                            {cat.name}
-                                        </button>
-                                    </li>
-                                ))}
-                            </ul>
-                        </div>
+                    <div className="sticky top-24">{filterPanel}</div>
+                </aside>
 
-                        {/* Price Range */}
-                        <div>
-                            <h3 className="font-semibold mb-3">Price Range</h3>
-                            <div className="flex gap-2">
-                                <input
-                                    type="number"
-                                    placeholder="Min"
-                                    defaultValue={currentMinPrice}
-                                    onChange={debounce((e) => updateFilters('minPrice', e.target.value), 500)}
-                                    className="input text-sm"
-                                />
-                                <input
-                                    type="number"
-                                    placeholder="Max"
-                                    defaultValue={currentMaxPrice}
-                                    onChange={debounce((e) => updateFilters('maxPrice', e.target.value), 500)}
-                                    className="input text-sm"
-                                />
+                {/* Filter Sheet (Mobile) */}
+                {showFilters && (
+                    <div className="lg:hidden fixed inset-0 z-50 flex flex-col justify-end">
+                        <div className="absolute inset-0 bg-black/50" onClick={() => setShowFilters(false)} />
+                        <div className="relative bg-[var(--color-surface)] rounded-t-2xl max-h-[85vh] flex flex-col">
+                            <div className="flex items-center justify-between p-4 border-b border-[var(--color-border)]">
+                                <h2 className="font-semibold">Filters</h2>
+                                <button onClick={() => setShowFilters(false)} aria-label="Close filters">
+                                    <X className="w-5 h-5" />
+                                </button>
                             </div>
-                        </div>
-
-                        {/* Age Range */}
-                        <div>
-                            <h3 className="font-semibold mb-3">Age Range</h3>
-                            <ul className="space-y-1">
-                                {[
-                                    { value: '', label: 'All Ages' },
-                                    { value: '0-3 Months', label: '0–3 Months' },
-                                    { value: '3-6 Months', label: '3–6 Months' },
-                                    { value: '6-12 Months', label: '6–12 Months' },
-                                    { value: '1-2 Years', label: '1–2 Years' },
-                                    { value: '2-3 Years', label: '2–3 Years' },
-                                ].map((age) => (
-                                    <li key={age.value}>
-                                        <button
-                                            onClick={() => updateFilters('age', age.value)}
-                                            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
-                                                currentAge === age.value
-                                                    ? 'bg-[var(--color-primary)] text-white'
-                                                    : 'hover:bg-[var(--color-bg)]'
-                                            }`}
-                                        >
-                                            {age.label}
-                                        </button>
-                                    </li>
-                                ))}
-                            </ul>
-                        </div>
-
-                        {/* Gender */}
-                        <div>
-                            <h3 className="font-semibold mb-3">Gender</h3>
-                            <div className="flex flex-wrap gap-2">
-                                {[
-                                    { value: '', label: 'All' },
-                                    { value: 'boy', label: 'Boy' },
-                                    { value: 'girl', label: 'Girl' },
-                                    { value: 'unisex', label: 'Unisex' },
-                                ].map((g) => (
-                                    <button
-                                        key={g.value}
-                                        onClick={() => updateFilters('gender', g.value)}
-                                        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
-                                            currentGender === g.value
-                                                ? 'border-[var(--color-primary)] bg-[var(--color-primary)] text-white'
-                                                : 'border-[var(--color-border)] hover:border-[var(--color-primary)]'
-                                        }`}
-                                    >
-                                        {g.label}
-                                    </button>
-                                ))}
+                            <div className="overflow-y-auto p-4">{filterPanel}</div>
+                            <div className="p-4 border-t border-[var(--color-border)]">
+                                <button onClick={() => setShowFilters(false)} className="btn btn-primary w-full">
+                                    Show {pagination?.totalItems ?? 0} products
+                                </button>
                             </div>
                         </div>
-
-                        {/* Clear Filters */}
-                        {hasActiveFilters && (
-                            <button
-                                onClick={clearFilters}
-                                className="btn btn-secondary w-full text-sm"
-                            >
-                                <X className="w-4 h-4" />
-                                Clear Filters
-                            </button>
-                        )}
                     </div>
-                </aside>
+                )}
 
                 {/* Main Content */}
                 <div className="flex-1">
@@ -236,7 +321,7 @@ const Products = () => {
                     <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
                         <div>
                             <h1 className="text-2xl font-bold">
-                                {currentCategory ? categories.find(c => c.slug === currentCategory)?.name || 'Products' : 'All Products'}
+                                {title}
                             </h1>
                             {pagination && (
                                 <p className="text-sm text-[var(--color-text-muted)]">
@@ -288,6 +373,7 @@ const Products = () => {
                                 <Link
                                     key={product._id}
                                     to={`/products/${product.slug}`}
+                                    onClick={() => trackClick(product)}
                                     className="card group"
                                 >
                                     <div className="relative aspect-square overflow-hidden">
@@ -62,6 +62,10 @@ const Profile = () => {
 
   if (!user) return null;
 
+  const defaultAddress =
+    user.addresses?.find((address) => address.isDefault) ||
+    user.addresses?.[0];
+
   return (
     <div className="container-app py-8">
       {/* Breadcrumb */}
@@ -112,7 +116,7 @@ const Profile = () => {
                 </div>
               )}
 
-              {user.addresses?.[0] && (
+              {defaultAddress && (
                 <div className="flex items-center gap-3 p-3 rounded-lg bg-[var(--color-bg)]">
                   <MapPin className="w-5 h-5 text-[var(--color-primary)]" />
                   <div>
@@ -121,9 +125,9 @@ const Profile = () => {
                     </p>
                     <p className="font-medium text-sm">
                       {[
-                        user.addresses[0].street,
-                        user.addresses[0].city,
-                        user.addresses[0].district,
+                        defaultAddress.street,
+                        defaultAddress.city,
+                        defaultAddress.district,
                       ]
                         .filter(Boolean)
                         .join(", ")}
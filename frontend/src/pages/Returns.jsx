@@ -101,8 +101,8 @@ const Returns = () => {
             {[
               {
                 step: "1",
-                title: "Contact Us",
-                desc: "Send us a message on WhatsApp (+977 9844575932) or email with your order number and reason for return.",
+                title: "Request a Return",
+                desc: "Open the order in My Orders and choose Request a return, with the items, the reason and a few photos. You can also message us on WhatsApp (+977 9844575932).",
               },
               {
                 step: "2",
@@ -111,13 +111,13 @@ const Returns = () => {
               },
               {
                 step: "3",
-                title: "Ship the Item",
-                desc: "Pack the item securely and ship it to our address. We'll provide return shipping instructions.",
+                title: "Hand Over the Item",
+                desc: "Pack the item securely. We'll arrange a courier pickup or send you drop-off instructions.",
               },
               {
                 step: "4",
-                title: "Receive Refund",
-                desc: "Once we receive and inspect the item, your refund will be processed within 3–5 business days.",
+                title: "Refund or Replacement",
+                desc: "Once we receive and inspect the item, your refund will be processed within 3–5 business days, or your exchange size is sent out.",
               },
             ].map((item) => (
               <div key={item.step} className="flex items-start gap-4">
@@ -10,7 +10,12 @@ import {
     Package,
     FolderTree,
     ShoppingCart,
+    RotateCcw,
     Users,
+    CreditCard,
+    Wallet,
+    Landmark,
+    Search,
     LogOut,
     ChevronLeft,
     Menu,
@@ -61,7 +66,12 @@ const AdminLayout = () => {
         { to: '/admin/products', icon: Package, label: 'Products' },
         { to: '/admin/categories', icon: FolderTree, label: 'Categories' },
         { to: '/admin/orders', icon: ShoppingCart, label: 'Orders' },
+        { to: '/admin/returns', icon: RotateCcw, label: 'Returns' },
         { to: '/admin/users', icon: Users, label: 'Users' },
+        { to: '/admin/payments', icon: CreditCard, label: 'Payments' },
+        { to: '/admin/cod-settlement', icon: Wallet, label: 'COD Settlement' },
+        { to: '/admin/finance', icon: Landmark, label: 'Finance' },
+        { to: '/admin/search', icon: Search, label: 'Search' },
     ];
 
     // Sidebar content (shared between mobile and desktop)
@@ -11,6 +11,7 @@ import {
     Modal,
 } from '../../components/admin';
 import CategoryForm from './CategoryForm';
+import VariantAttributes from './VariantAttributes';
 import { Plus, Edit, Trash2, FolderTree, Image as ImageIcon } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -211,6 +212,8 @@ const Categories = () => {
                 />
             </div>
 
+            <VariantAttributes />
+
             {/* Category Form Modal */}
             <Modal
                 isOpen={showForm}
@@ -16,9 +16,14 @@ const CategoryForm = ({ category, parentCategories, onSuccess, onCancel }) => {
         description: '',
         parent: '',
         order: 0,
+        taxClass: '',
+        attributes: [],
         isActive: true,
     });
 
+    // Attributes an admin can assign
+    const [allAttributes, setAllAttributes] = useState([]);
+
     // Image state
     const [existingImage, setExistingImage] = useState(null);
     const [newImage, setNewImage] = useState(null);
@@ -36,12 +41,26 @@ const CategoryForm = ({ category, parentCategories, onSuccess, onCancel }) => {
                 description: category.description || '',
                 parent: category.parent?._id || category.parent || '',
                 order: category.order || 0,
+                taxClass: category.taxClass || '',
+                attributes: category.attributes || [],
                 isActive: category.isActive !== false,
             });
             setExistingImage(category.image || null);
         }
     }, [category]);
 
+    useEffect(() => {
+        const fetchAttributes = async () => {
+            try {
+                const response = await adminAPI.getAttributes();
+                setAllAttributes(response.data.data.attributes);
+            } catch (error) {
+                console.error('Failed to fetch attributes:', error);
+            }
+        };
+        fetchAttributes();
+    }, []);
+
     // Handle input change
     const handleChange = (e) => {
         const { name, value, type, checked } = e.target;
@@ -54,6 +73,16 @@ const CategoryForm = ({ category, parentCategories, onSuccess, onCancel }) => {
         }
     };
 
+    // Toggle an assigned attribute
+    const handleAttributeToggle = (attributeId) => {
+        setFormData((prev) => ({
+            ...prev,
+            attributes: prev.attributes.includes(attributeId)
+                ? prev.attributes.filter((id) => id !== attributeId)
+                : [...prev.attributes, attributeId],
+        }));
+    };
+
     // Handle image selection
     const handleImageChange = (e) => {
         const file = e.target.files?.[0];
@@ -100,6 +129,7 @@ const CategoryForm = ({ category, parentCategories, onSuccess, onCancel }) => {
                 ...formData,
                 order: parseInt(formData.order) || 0,
                 parent: formData.parent || null,
+                taxClass: formData.taxClass || null,
             };
 
             let savedCategory;
@@ -183,6 +213,48 @@ const CategoryForm = ({ category, parentCategories, onSuccess, onCancel }) => {
                 </select>
             </div>
 
+            {/* Tax Class */}
+            <div>
+                <label className="block text-sm font-medium mb-1">Tax Class</label>
+                <select
+                    name="taxClass"
+                    value={formData.taxClass}
+                    onChange={handleChange}
+                    className="select"
+                >
+                    <option value="">Same as parent (standard at the root)</option>
+                    <option value="standard">Standard (VAT)</option>
+                    <option value="zero_rated">Zero-rated</option>
+                    <option value="exempt">Exempt</option>
+                </select>
+                <p className="text-sm text-[var(--color-text-muted)] mt-1">
+                    Used by products in this category that don't set their own
+                </p>
+            </div>
+
+            {/* Variant Attributes */}
+            {allAttributes.length > 0 && (
+                <div>
+                    <label className="block text-sm font-medium mb-1">Variant Attributes</label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {allAttributes.map((attribute) => (
+                            <label key={attribute._id} className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.attributes.includes(attribute._id)}
+                                    onChange={() => handleAttributeToggle(attribute._id)}
+                                    className="w-4 h-4 rounded border-[var(--color-border)] text-[var(--color-primary)]"
+                                />
+                                <span className="text-sm">{attribute.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <p className="text-sm text-[var(--color-text-muted)] mt-1">
+                        Each variant picks a value for these and the parent's attributes. With none, variants use size and color
+                    </p>
+                </div>
+            )}
+
             {/* Order */}
             <div>
                 <label className="block text-sm font-medium mb-1">Display Order</label>
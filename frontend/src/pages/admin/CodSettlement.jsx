@@ -0,0 +1,480 @@
+/**
+ * COD Settlement Page
+ * Cash collected on delivery per courier/rider and the remittances it is handed over in
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatDate, formatPrice } from '../../utils/helpers';
+import { DataTable, Pagination, StatusBadge, Modal } from '../../components/admin';
+import { Download, Layers, Wallet, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_VARIANTS = {
+    pending: 'warning',
+    settled: 'success',
+    discrepancy: 'error',
+};
+
+const CodSettlement = () => {
+    // Report
+    const [report, setReport] = useState(null);
+    const [reportLoading, setReportLoading] = useState(true);
+    const [exporting, setExporting] = useState(false);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    // Remittances
+    const [remittances, setRemittances] = useState([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('');
+    const [pagination, setPagination] = useState({
+        currentPage: 1,
+        totalPages: 1,
+        totalItems: 0,
+        itemsPerPage: 20,
+    });
+
+    // Dialogs
+    const [receiveDialog, setReceiveDialog] = useState({ open: false, remittance: null });
+    const [receipt, setReceipt] = useState({ receivedAmount: '', reference: '' });
+    const [resolveDialog, setResolveDialog] = useState({ open: false, remittance: null });
+    const [resolutionNote, setResolutionNote] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const reportParams = useCallback(() => {
+        const params = {};
+        if (from) params.from = from;
+        if (to) params.to = to;
+        return params;
+    }, [from, to]);
+
+    // Fetch per-collector report
+    const fetchReport = useCallback(async () => {
+        setReportLoading(true);
+        try {
+            const response = await adminAPI.getCodReport(reportParams());
+            setReport(response.data.data);
+        } catch (error) {
+            console.error('Failed to fetch COD report:', error);
+            toast.error('Failed to load COD report');
+        } finally {
+            setReportLoading(false);
+        }
+    }, [reportParams]);
+
+    // Fetch remittance batches
+    const fetchRemittances = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = {
+                page: pagination.currentPage,
+                limit: pagination.itemsPerPage,
+            };
+            if (statusFilter) params.status = statusFilter;
+
+            const response = await adminAPI.getCodRemittances(params);
+            setRemittances(response.data.data.remittances);
+            setPagination((prev) => ({
+                ...prev,
+                totalPages: response.data.pagination?.totalPages || 1,
+                totalItems: response.data.pagination?.totalItems || response.data.results,
+            }));
+        } catch (error) {
+            console.error('Failed to fetch remittances:', error);
+            toast.error('Failed to load remittances');
+        } finally {
+            setLoading(false);
+        }
+    }, [pagination.currentPage, pagination.itemsPerPage, statusFilter]);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    useEffect(() => {
+        fetchRemittances();
+    }, [fetchRemittances]);
+
+    const refresh = () => {
+        fetchReport();
+        fetchRemittances();
+    };
+
+    // Download the collections as CSV
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const response = await adminAPI.exportCodReport(reportParams());
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `cod-report-${new Date().toISOString().slice(0, 10)}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Failed to export COD report:', error);
+            toast.error('Failed to export COD report');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    // Batch everything a collector still holds
+    const handleCreateRemittance = async (collector) => {
+        try {
+            const response = await adminAPI.createCodRemittance({ collector });
+            toast.success(response.data.message || 'Remittance created');
+            refresh();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to create remittance');
+        }
+    };
+
+    const handleReceiveConfirm = async () => {
+        if (!receiveDialog.remittance || receipt.receivedAmount === '') return;
+
+        setSaving(true);
+        try {
+            const response = await adminAPI.receiveCodRemittance(receiveDialog.remittance._id, {
+                receivedAmount: Number(receipt.receivedAmount),
+                reference: receipt.reference || undefined,
+            });
+            toast.success(response.data.message || 'Remittance received');
+            setReceiveDialog({ open: false, remittance: null });
+            setReceipt({ receivedAmount: '', reference: '' });
+            refresh();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to record receipt');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleResolveConfirm = async () => {
+        if (!resolveDialog.remittance) return;
+
+        setSaving(true);
+        try {
+            await adminAPI.resolveCodRemittance(resolveDialog.remittance._id, resolutionNote || undefined);
+            toast.success('Discrepancy resolved');
+            setResolveDialog({ open: false, remittance: null });
+            setResolutionNote('');
+            refresh();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to resolve discrepancy');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Collector table columns
+    const collectorColumns = [
+        {
+            key: 'collector',
+            label: 'Courier / Rider',
+            render: (collector, row) => (
+                <div>
+                    <p className="font-medium">{collector}</p>
+                    <p className="text-xs text-[var(--color-text-muted)]">{row.collections} collection(s)</p>
+                </div>
+            ),
+        },
+        { key: 'collectedAmount', label: 'Collected', align: 'right', render: (amount) => formatPrice(amount) },
+        { key: 'unbatchedAmount', label: 'Not Batched', align: 'right', render: (amount) => formatPrice(amount) },
+        { key: 'pendingAmount', label: 'Awaiting', align: 'right', render: (amount) => formatPrice(amount) },
+        { key: 'remittedAmount', label: 'Remitted', align: 'right', render: (amount) => formatPrice(amount) },
+        {
+            key: 'discrepancyAmount',
+            label: 'Discrepancy',
+            align: 'right',
+            render: (amount) => (
+                <span className={amount !== 0 ? 'text-red-600 font-medium' : ''}>{formatPrice(amount)}</span>
+            ),
+        },
+    ];
+
+    const getCollectorActions = (row) =>
+        row.unbatchedAmount > 0
+            ? [
+                {
+                    label: 'Create Remittance',
+                    icon: Layers,
+                    onClick: () => handleCreateRemittance(row.collector),
+                },
+            ]
+            : [];
+
+    // Remittance table columns
+    const remittanceColumns = [
+        {
+            key: 'remittanceNumber',
+            label: 'Remittance',
+            render: (number, row) => (
+                <div>
+                    <p className="font-medium">{number}</p>
+                    <p className="text-xs text-[var(--color-text-muted)]">
+                        {row.collector} · {row.payments.length} order(s)
+                    </p>
+                </div>
+            ),
+        },
+        {
+            key: 'expectedAmount',
+            label: 'Amount',
+            render: (expected, row) => (
+                <div className="text-sm">
+                    <p>Expected {formatPrice(expected)}</p>
+                    {row.receivedAmount !== undefined && row.receivedAmount !== null && (
+                        <p className="text-[var(--color-text-muted)]">Received {formatPrice(row.receivedAmount)}</p>
+                    )}
+                </div>
+            ),
+        },
+        {
+            key: 'createdAt',
+            label: 'Created',
+            render: (date) => (
+                <span className="text-sm text-[var(--color-text-muted)]">
+                    {formatDate(date)}
+                </span>
+            ),
+        },
+        {
+            key: 'status',
+            label: 'Status',
+            render: (status, row) => (
+                <div>
+                    <StatusBadge status={status} variant={STATUS_VARIANTS[status]} />
+                    {row.reference && (
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">Ref: {row.reference}</p>
+                    )}
+                    {row.resolutionNote && (
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">{row.resolutionNote}</p>
+                    )}
+                </div>
+            ),
+        },
+    ];
+
+    const getRemittanceActions = (remittance) => {
+        if (remittance.status === 'pending') {
+            return [
+                {
+                    label: 'Record Receipt',
+                    icon: Wallet,
+                    onClick: () => {
+                        setReceipt({ receivedAmount: String(remittance.expectedAmount), reference: '' });
+                        setReceiveDialog({ open: true, remittance });
+                    },
+                },
+            ];
+        }
+        if (remittance.status === 'discrepancy') {
+            return [
+                {
+                    label: 'Mark Resolved',
+                    icon: CheckCircle,
+                    onClick: () => setResolveDialog({ open: true, remittance }),
+                },
+            ];
+        }
+        return [];
+    };
+
+    const totals = report?.totals;
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-bold">COD Settlement</h1>
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                        className="input w-auto"
+                        aria-label="From"
+                    />
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        className="input w-auto"
+                        aria-label="To"
+                    />
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="btn btn-secondary flex items-center gap-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        {exporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Totals */}
+            {totals && (
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Collected</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.collectedAmount)}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Not Batched</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.unbatchedAmount)}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Awaiting Remittance</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.pendingAmount)}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Discrepancy</p>
+                        <p className={`text-xl font-bold ${totals.discrepancyAmount !== 0 ? 'text-red-600' : ''}`}>
+                            {formatPrice(totals.discrepancyAmount)}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Collectors Table */}
+            <div className="card mb-6">
+                <h2 className="font-semibold p-4 border-b border-[var(--color-border)]">By Courier / Rider</h2>
+                <DataTable
+                    columns={collectorColumns}
+                    data={report?.summary || []}
+                    loading={reportLoading}
+                    rowKey="collector"
+                    emptyMessage="No COD collections recorded"
+                    actions={getCollectorActions}
+                />
+            </div>
+
+            {/* Remittances */}
+            <div className="card">
+                <div className="p-4 border-b border-[var(--color-border)] flex justify-between items-center">
+                    <h2 className="font-semibold">Remittances</h2>
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => {
+                            setStatusFilter(e.target.value);
+                            setPagination((prev) => ({ ...prev, currentPage: 1 }));
+                        }}
+                        className="select w-auto"
+                    >
+                        <option value="">All</option>
+                        <option value="pending">Pending</option>
+                        <option value="discrepancy">Discrepancy</option>
+                        <option value="settled">Settled</option>
+                    </select>
+                </div>
+                <DataTable
+                    columns={remittanceColumns}
+                    data={remittances}
+                    loading={loading}
+                    emptyMessage="No remittances"
+                    actions={getRemittanceActions}
+                />
+
+                {/* Pagination */}
+                {!loading && remittances.length > 0 && (
+                    <div className="p-4 border-t border-[var(--color-border)]">
+                        <Pagination
+                            currentPage={pagination.currentPage}
+                            totalPages={pagination.totalPages}
+                            totalItems={pagination.totalItems}
+                            itemsPerPage={pagination.itemsPerPage}
+                            onPageChange={(page) => setPagination((prev) => ({ ...prev, currentPage: page }))}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Receive Dialog */}
+            <Modal
+                isOpen={receiveDialog.open}
+                onClose={() => setReceiveDialog({ open: false, remittance: null })}
+                title="Record Receipt"
+                size="sm"
+            >
+                <p className="text-sm text-[var(--color-text-muted)] mb-4">
+                    {receiveDialog.remittance?.collector} owes{' '}
+                    {formatPrice(receiveDialog.remittance?.expectedAmount || 0)} for{' '}
+                    {receiveDialog.remittance?.remittanceNumber}.
+                </p>
+                <label className="block text-sm font-medium mb-1">Amount received</label>
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={receipt.receivedAmount}
+                    onChange={(e) => setReceipt((prev) => ({ ...prev, receivedAmount: e.target.value }))}
+                    className="input w-full mb-3"
+                />
+                <label className="block text-sm font-medium mb-1">Reference</label>
+                <input
+                    type="text"
+                    value={receipt.reference}
+                    onChange={(e) => setReceipt((prev) => ({ ...prev, reference: e.target.value }))}
+                    placeholder="Deposit slip or courier statement number"
+                    className="input w-full mb-4"
+                    maxLength={100}
+                />
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => setReceiveDialog({ open: false, remittance: null })}
+                        className="btn btn-secondary"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleReceiveConfirm}
+                        disabled={saving || receipt.receivedAmount === ''}
+                        className="btn btn-primary"
+                    >
+                        {saving ? 'Saving...' : 'Record Receipt'}
+                    </button>
+                </div>
+            </Modal>
+
+            {/* Resolve Dialog */}
+            <Modal
+                isOpen={resolveDialog.open}
+                onClose={() => setResolveDialog({ open: false, remittance: null })}
+                title="Resolve Discrepancy"
+                size="sm"
+            >
+                <p className="text-sm text-[var(--color-text-muted)] mb-4">
+                    Expected {formatPrice(resolveDialog.remittance?.expectedAmount || 0)}, received{' '}
+                    {formatPrice(resolveDialog.remittance?.receivedAmount || 0)}.
+                </p>
+                <textarea
+                    value={resolutionNote}
+                    onChange={(e) => setResolutionNote(e.target.value)}
+                    placeholder="What was done (e.g. rider paid the rest in cash)"
+                    className="textarea w-full mb-4"
+                    rows={3}
+                    maxLength={500}
+                />
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => setResolveDialog({ open: false, remittance: null })}
+                        className="btn btn-secondary"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleResolveConfirm}
+                        disabled={saving}
+                        className="btn btn-primary"
+                    >
+                        {saving ? 'Saving...' : 'Mark Resolved'}
+                    </button>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default CodSettlement;
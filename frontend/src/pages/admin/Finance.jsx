@@ -0,0 +1,220 @@
+/**
+ * Finance Page
+ * Net revenue, gateway fees and refunds from the finance ledger, plus COD still owed
+ * and the VAT sales register
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatPrice } from '../../utils/helpers';
+import { DataTable } from '../../components/admin';
+import VatRegister from './VatRegister';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const GATEWAYS = [
+    { value: 'cod', label: 'Cash on Delivery' },
+    { value: 'esewa', label: 'eSewa' },
+    { value: 'khalti', label: 'Khalti' },
+    { value: 'fonepay', label: 'Fonepay' },
+    { value: 'stripe', label: 'Card (Stripe)' },
+    { value: 'mock', label: 'Mock' },
+];
+
+const gatewayLabel = (gateway) => GATEWAYS.find((option) => option.value === gateway)?.label || gateway;
+
+const amountColumns = [
+    { key: 'captures', label: 'Captures', align: 'right' },
+    { key: 'gross', label: 'Gross', align: 'right', render: (amount) => formatPrice(amount) },
+    { key: 'refunds', label: 'Refunds', align: 'right', render: (amount) => formatPrice(amount) },
+    { key: 'fees', label: 'Fees', align: 'right', render: (amount) => formatPrice(amount) },
+    {
+        key: 'net',
+        label: 'Net',
+        align: 'right',
+        render: (amount) => <span className="font-medium">{formatPrice(amount)}</span>,
+    },
+];
+
+const Finance = () => {
+    const [report, setReport] = useState(null);
+    const [loading, setLoading] = useState(true);
+    const [exporting, setExporting] = useState(false);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [groupBy, setGroupBy] = useState('day');
+    const [gateway, setGateway] = useState('');
+
+    const reportParams = useCallback(() => {
+        const params = { interval: groupBy };
+        if (from) params.from = from;
+        if (to) params.to = to;
+        if (gateway) params.gateway = gateway;
+        return params;
+    }, [from, to, groupBy, gateway]);
+
+    const fetchReport = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await adminAPI.getFinanceReport(reportParams());
+            setReport(response.data.data);
+        } catch (error) {
+            console.error('Failed to fetch finance report:', error);
+            toast.error('Failed to load finance report');
+        } finally {
+            setLoading(false);
+        }
+    }, [reportParams]);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    // Download the period rows as CSV
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const response = await adminAPI.exportFinanceReport(reportParams());
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `finance-report-${new Date().toISOString().slice(0, 10)}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Failed to export finance report:', error);
+            toast.error('Failed to export finance report');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const gatewayColumns = [
+        { key: 'gateway', label: 'Gateway', render: (value) => gatewayLabel(value) },
+        ...amountColumns,
+    ];
+
+    const periodColumns = [
+        { key: 'period', label: groupBy === 'month' ? 'Month' : 'Day' },
+        ...gatewayColumns,
+    ];
+
+    const totals = report?.totals;
+    const outstandingCod = report?.outstandingCod;
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-bold">Finance</h1>
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                        className="input w-auto"
+                        aria-label="From"
+                    />
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        className="input w-auto"
+                        aria-label="To"
+                    />
+                    <select
+                        value={groupBy}
+                        onChange={(e) => setGroupBy(e.target.value)}
+                        className="select w-auto"
+                        aria-label="Interval"
+                    >
+                        <option value="day">Daily</option>
+                        <option value="month">Monthly</option>
+                    </select>
+                    <select
+                        value={gateway}
+                        onChange={(e) => setGateway(e.target.value)}
+                        className="select w-auto"
+                        aria-label="Gateway"
+                    >
+                        <option value="">All gateways</option>
+                        {GATEWAYS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="btn btn-secondary flex items-center gap-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        {exporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Totals */}
+            {totals && (
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Net Revenue</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.net)}</p>
+                        <p className="text-xs text-[var(--color-text-muted)]">
+                            {formatPrice(totals.gross)} from {totals.captures} capture(s)
+                        </p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Fees Paid</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.fees)}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Refunds</p>
+                        <p className="text-xl font-bold">{formatPrice(totals.refunds)}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Outstanding COD</p>
+                        <p className="text-xl font-bold">
+                            {formatPrice(outstandingCod.uncollected + outstandingCod.withCollectors)}
+                        </p>
+                        <p className="text-xs text-[var(--color-text-muted)]">
+                            {formatPrice(outstandingCod.uncollected)} on {outstandingCod.uncollectedOrders} order(s)
+                            not yet collected, {formatPrice(outstandingCod.withCollectors)} with couriers
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* By Gateway */}
+            <div className="card mb-6">
+                <h2 className="font-semibold p-4 border-b border-[var(--color-border)]">By Gateway</h2>
+                <DataTable
+                    columns={gatewayColumns}
+                    data={report?.byGateway || []}
+                    loading={loading}
+                    rowKey="gateway"
+                    emptyMessage="No ledger entries in this range"
+                />
+            </div>
+
+            {/* By Period */}
+            <div className="card">
+                <h2 className="font-semibold p-4 border-b border-[var(--color-border)]">
+                    {groupBy === 'month' ? 'Monthly' : 'Daily'}
+                </h2>
+                <DataTable
+                    columns={periodColumns}
+                    data={(report?.periods || []).map((row) => ({ ...row, key: `${row.period}-${row.gateway}` }))}
+                    loading={loading}
+                    rowKey="key"
+                    emptyMessage="No ledger entries in this range"
+                />
+            </div>
+
+            {/* VAT Register */}
+            <VatRegister />
+        </div>
+    );
+};
+
+export default Finance;
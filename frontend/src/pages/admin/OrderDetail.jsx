@@ -2,10 +2,13 @@
  * OrderDetail Component
  * View order details and update status
  */
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { adminAPI } from '../../api';
 import { formatPrice, formatDate, formatDateTime, PROVINCES } from '../../utils/helpers';
 import { StatusBadge } from '../../components/admin';
+import ReturnDetail from './ReturnDetail';
+import ShipmentPanel from './ShipmentPanel';
+import OrderEditPanel from './OrderEditPanel';
 import {
     User,
     MapPin,
@@ -16,13 +19,90 @@ import {
     Truck,
     XCircle,
     Loader2,
+    RotateCcw,
+    History,
+    PackageOpen,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const EVENT_OUTCOME_VARIANTS = {
+    success: 'success',
+    pending: 'warning',
+    failed: 'error',
+    rejected: 'error',
+    error: 'error',
+};
+
+// Parts of an order an admin edit can change, as named in the status history
+const EDIT_SECTION_LABELS = {
+    items: 'items',
+    shippingAddress: 'address',
+    pricing: 'pricing',
+};
+
 const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
     const [updatingStatus, setUpdatingStatus] = useState(false);
     const [newStatus, setNewStatus] = useState('');
     const [statusNote, setStatusNote] = useState('');
+    const [refundLedger, setRefundLedger] = useState(null);
+    const [refundAmount, setRefundAmount] = useState('');
+    const [refundReason, setRefundReason] = useState('');
+    const [refunding, setRefunding] = useState(false);
+    const [paymentEvents, setPaymentEvents] = useState([]);
+    const [collectedBy, setCollectedBy] = useState('');
+    const [collectedAmount, setCollectedAmount] = useState('');
+    const [collecting, setCollecting] = useState(false);
+    const [returns, setReturns] = useState([]);
+
+    const hasCapturedPayment = ['paid', 'partially_refunded', 'refunded'].includes(order.payment?.status);
+
+    // Load the refund ledger for paid orders
+    const fetchRefunds = useCallback(async () => {
+        try {
+            const res = await adminAPI.getOrderRefunds(order._id);
+            setRefundLedger(res.data.data);
+        } catch {
+            setRefundLedger(null);
+        }
+    }, [order._id]);
+
+    useEffect(() => {
+        if (hasCapturedPayment) fetchRefunds();
+    }, [hasCapturedPayment, fetchRefunds]);
+
+    // Everything the gateways told us about this order, oldest first
+    const fetchPaymentEvents = useCallback(async () => {
+        try {
+            const res = await adminAPI.getOrderPaymentEvents(order._id);
+            setPaymentEvents(res.data.data.events);
+        } catch {
+            setPaymentEvents([]);
+        }
+    }, [order._id]);
+
+    useEffect(() => {
+        fetchPaymentEvents();
+    }, [fetchPaymentEvents, order.payment?.status]);
+
+    // Return and exchange requests raised against this order
+    const fetchReturns = useCallback(async () => {
+        try {
+            const res = await adminAPI.getReturns({ order: order._id, limit: 50 });
+            setReturns(res.data.data.returns);
+        } catch {
+            setReturns([]);
+        }
+    }, [order._id]);
+
+    useEffect(() => {
+        if (order.status === 'delivered') fetchReturns();
+    }, [order.status, fetchReturns]);
+
+    const handleReturnUpdated = async () => {
+        await fetchReturns();
+        await fetchRefunds();
+        onStatusUpdated();
+    };
 
     // Get next possible statuses
     const getNextStatuses = () => {
@@ -55,6 +135,64 @@ const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
         }
     };
 
+    // Record cash handed to the courier/rider on delivery (blank amount = order total)
+    const handleCODCollected = async () => {
+        if (!collectedBy.trim()) return;
+
+        setCollecting(true);
+        try {
+            await adminAPI.markCODCollected(order._id, {
+                collectedBy: collectedBy.trim(),
+                amount: collectedAmount ? Number(collectedAmount) : undefined,
+            });
+            toast.success('COD payment marked as collected');
+            setCollectedBy('');
+            setCollectedAmount('');
+            onStatusUpdated();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to record collection');
+        } finally {
+            setCollecting(false);
+        }
+    };
+
+    // Issue a full (blank amount) or partial refund
+    const handleRefund = async () => {
+        setRefunding(true);
+        try {
+            const res = await adminAPI.refundOrder(order._id, {
+                amount: refundAmount ? Number(refundAmount) : undefined,
+                reason: refundReason || undefined,
+            });
+            toast.success(res.data.message || 'Refund recorded');
+            setRefundAmount('');
+            setRefundReason('');
+            await fetchRefunds();
+            await fetchPaymentEvents();
+            onStatusUpdated();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to refund order');
+        } finally {
+            setRefunding(false);
+        }
+    };
+
+    // Confirm a refund that was paid out through the gateway's portal
+    const handleCompleteRefund = async (refundId) => {
+        setRefunding(true);
+        try {
+            await adminAPI.completeRefund(order._id, refundId);
+            toast.success('Refund marked as completed');
+            await fetchRefunds();
+            await fetchPaymentEvents();
+            onStatusUpdated();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to complete refund');
+        } finally {
+            setRefunding(false);
+        }
+    };
+
     // Get province name
     const getProvinceName = (provinceId) => {
         return PROVINCES.find((p) => p.id === provinceId)?.name || `Province ${provinceId}`;
@@ -83,6 +221,11 @@ const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
                     <p className="text-sm text-[var(--color-text-muted)]">
                         Placed on {formatDateTime(order.createdAt)}
                     </p>
+                    {order.replacementFor && (
+                        <p className="text-sm text-[var(--color-text-muted)]">
+                            No-charge replacement for a return
+                        </p>
+                    )}
                 </div>
                 <div className="flex gap-2">
                     <StatusBadge status={order.status} size="lg" />
@@ -207,6 +350,40 @@ const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
                     )}
                 </div>
 
+                {/* COD Collection */}
+                {order.payment?.method === 'cod' && order.payment?.status === 'pending' && order.status !== 'cancelled' && (
+                    <div className="border-t border-[var(--color-border)] pt-3 mb-4 space-y-2">
+                        <p className="text-sm font-medium">Record Cash Collection</p>
+                        <input
+                            type="text"
+                            value={collectedBy}
+                            onChange={(e) => setCollectedBy(e.target.value)}
+                            placeholder="Collected by (courier or rider)"
+                            className="input w-full"
+                            maxLength={100}
+                        />
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={collectedAmount}
+                                onChange={(e) => setCollectedAmount(e.target.value)}
+                                placeholder={`Amount (${order.pricing?.total})`}
+                                className="input flex-1"
+                            />
+                            <button
+                                onClick={handleCODCollected}
+                                disabled={collecting || !collectedBy.trim()}
+                                className="btn btn-primary flex items-center gap-2"
+                            >
+                                {collecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                                Mark Collected
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 <div className="border-t border-[var(--color-border)] pt-3 space-y-2">
                     <div className="flex justify-between text-sm">
                         <span>Subtotal</span>
@@ -234,9 +411,187 @@ const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
                         <span>Total</span>
                         <span>{formatPrice(order.pricing?.total)}</span>
                     </div>
+                    {order.payment?.balanceDue > 0 && (
+                        <div className="flex justify-between text-sm text-amber-600">
+                            <span>Balance due from customer</span>
+                            <span>{formatPrice(order.payment.balanceDue)}</span>
+                        </div>
+                    )}
+                    {order.payment?.balanceDue < 0 && (
+                        <div className="flex justify-between text-sm text-amber-600">
+                            <span>Refund owed to customer</span>
+                            <span>{formatPrice(-order.payment.balanceDue)}</span>
+                        </div>
+                    )}
                 </div>
             </div>
 
+            {/* Edit */}
+            <OrderEditPanel order={order} onUpdated={onStatusUpdated} />
+
+            {/* Shipment */}
+            <ShipmentPanel order={order} onUpdated={onStatusUpdated} />
+
+            {/* Refunds */}
+            {hasCapturedPayment && refundLedger && (
+                <div className="card p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                        <RotateCcw className="w-5 h-5 text-[var(--color-primary)]" />
+                        <h3 className="font-semibold">Refunds</h3>
+                    </div>
+
+                    <div className="space-y-2 mb-4 text-sm">
+                        <div className="flex justify-between">
+                            <span>Refunded</span>
+                            <span>{formatPrice(refundLedger.refundedAmount)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>Refundable</span>
+                            <span>{formatPrice(refundLedger.refundableAmount)}</span>
+                        </div>
+                    </div>
+
+                    {refundLedger.refunds.length > 0 && (
+                        <div className="divide-y divide-[var(--color-border)] border-t border-[var(--color-border)] mb-4">
+                            {refundLedger.refunds.map((refund) => (
+                                <div key={refund._id} className="py-3 flex justify-between items-start gap-4">
+                                    <div className="text-sm">
+                                        <p className="font-medium">{formatPrice(refund.amount)}</p>
+                                        <p className="text-[var(--color-text-muted)]">
+                                            {formatDateTime(refund.createdAt)}
+                                            {refund.reason && ` · ${refund.reason}`}
+                                        </p>
+                                        {refund.message && (
+                                            <p className="text-[var(--color-text-muted)]">{refund.message}</p>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <StatusBadge status={refund.status} />
+                                        {refund.status === 'pending' && (
+                                            <button
+                                                onClick={() => handleCompleteRefund(refund._id)}
+                                                className="btn btn-secondary btn-sm"
+                                                disabled={refunding}
+                                            >
+                                                Mark completed
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {refundLedger.refundableAmount > 0 && (
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={refundLedger.refundableAmount}
+                                    value={refundAmount}
+                                    onChange={(e) => setRefundAmount(e.target.value)}
+                                    className="input"
+                                    placeholder={`Amount (full: ${refundLedger.refundableAmount})`}
+                                />
+                                <input
+                                    type="text"
+                                    value={refundReason}
+                                    onChange={(e) => setRefundReason(e.target.value)}
+                                    className="input"
+                                    placeholder="Reason (optional)"
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <button onClick={handleRefund} className="btn btn-secondary" disabled={refunding}>
+                                    {refunding ? (
+                                        <>
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                            Refunding...
+                                        </>
+                                    ) : (
+                                        'Issue Refund'
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Returns */}
+            {returns.length > 0 && (
+                <div className="card p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                        <PackageOpen className="w-5 h-5 text-[var(--color-primary)]" />
+                        <h3 className="font-semibold">Returns & Exchanges</h3>
+                    </div>
+
+                    <div className="divide-y divide-[var(--color-border)]">
+                        {returns.map((returnRequest) => (
+                            <div key={returnRequest._id} className="py-3">
+                                <ReturnDetail
+                                    key={`${returnRequest._id}-${returnRequest.status}`}
+                                    returnRequest={returnRequest}
+                                    onUpdated={handleReturnUpdated}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Payment Timeline */}
+            {paymentEvents.length > 0 && (
+                <div className="card p-4">
+                    <div className="flex items-center gap-2 mb-4">
+                        <History className="w-5 h-5 text-[var(--color-primary)]" />
+                        <h3 className="font-semibold">Payment Timeline</h3>
+                    </div>
+
+                    <div className="divide-y divide-[var(--color-border)]">
+                        {paymentEvents.map((event) => (
+                            <div key={event._id} className="py-3 text-sm">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <p className="font-medium capitalize">
+                                            {event.type} · {event.gateway}
+                                            {event.amount !== undefined && event.amount !== null && (
+                                                <span className="font-normal"> · {formatPrice(event.amount)}</span>
+                                            )}
+                                        </p>
+                                        <p className="text-[var(--color-text-muted)]">
+                                            {formatDateTime(event.createdAt)}
+                                            {event.sourceIp && ` · from ${event.sourceIp}`}
+                                        </p>
+                                        {event.transactionId && (
+                                            <p className="text-[var(--color-text-muted)]">Txn {event.transactionId}</p>
+                                        )}
+                                        {event.message && (
+                                            <p className="text-[var(--color-text-muted)]">{event.message}</p>
+                                        )}
+                                    </div>
+                                    <StatusBadge
+                                        status={event.outcome}
+                                        variant={EVENT_OUTCOME_VARIANTS[event.outcome]}
+                                    />
+                                </div>
+                                {event.payload && (
+                                    <details className="mt-2">
+                                        <summary className="cursor-pointer text-[var(--color-text-muted)]">
+                                            Raw payload
+                                        </summary>
+                                        <pre className="mt-2 p-2 rounded bg-[var(--color-bg)] text-xs overflow-x-auto">
+                                            {JSON.stringify(event.payload, null, 2)}
+                                        </pre>
+                                    </details>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Status History */}
             {order.statusHistory?.length > 0 && (
                 <div className="card p-4">
@@ -265,6 +620,16 @@ const OrderDetail = ({ order, onStatusUpdated, onClose }) => {
                                                 {history.note}
                                             </p>
                                         )}
+                                        {history.changes && (
+                                            <p className="text-xs text-[var(--color-text-muted)]">
+                                                Changed{' '}
+                                                {Object.keys(history.changes.after)
+                                                    .map((section) => EDIT_SECTION_LABELS[section] || section)
+                                                    .join(', ')}
+                                                {history.changes.after.pricing &&
+                                                    ` · total ${formatPrice(history.changes.before.pricing.total)} → ${formatPrice(history.changes.after.pricing.total)}`}
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
                             );
@@ -0,0 +1,269 @@
+/**
+ * OrderEditPanel Component
+ * Change items, quantities and the delivery address before an order ships
+ */
+import { useState, useEffect } from 'react';
+import { adminAPI, productsAPI } from '../../api';
+import { formatPrice, PROVINCES } from '../../utils/helpers';
+import { Pencil, Loader2, Trash2, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EDITABLE_STATUSES = ['pending', 'confirmed', 'processing'];
+
+const toLines = (items) =>
+    items.map((item) => ({
+        product: item.product?._id || item.product,
+        variantId: item.variantId || null,
+        name: item.name,
+        variant: item.variant?.size ? `${item.variant.size} / ${item.variant.color}` : '',
+        price: item.price,
+        quantity: item.quantity,
+    }));
+
+const toAddress = (address = {}) => ({
+    name: address.name || '',
+    phone: address.phone || '',
+    street: address.street || '',
+    city: address.city || '',
+    district: address.district || '',
+    province: address.province || 3,
+    landmark: address.landmark || '',
+});
+
+const OrderEditPanel = ({ order, onUpdated }) => {
+    const [editing, setEditing] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [lines, setLines] = useState([]);
+    const [address, setAddress] = useState(toAddress());
+    const [note, setNote] = useState('');
+    const [search, setSearch] = useState('');
+    const [results, setResults] = useState([]);
+
+    const canEdit = EDITABLE_STATUSES.includes(order.status) && !order.shipment && !order.replacementFor;
+
+    // Start from the order as it is every time the form opens
+    useEffect(() => {
+        if (!editing) return;
+        setLines(toLines(order.items || []));
+        setAddress(toAddress(order.shippingAddress));
+        setNote('');
+        setSearch('');
+        setResults([]);
+    }, [editing, order]);
+
+    useEffect(() => {
+        if (!editing || search.trim().length < 2) {
+            setResults([]);
+            return;
+        }
+        const timer = setTimeout(() => {
+            // Only active products can be added, so search the storefront catalogue
+            productsAPI
+                .searchProducts(search.trim(), { limit: 5 })
+                .then((res) => setResults(res.data.products))
+                .catch(() => setResults([]));
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [editing, search]);
+
+    const lineKey = (line) => `${line.product}:${line.variantId || ''}`;
+
+    const updateQuantity = (index, quantity) => {
+        setLines(lines.map((line, i) => (i === index ? { ...line, quantity: Math.max(1, quantity || 1) } : line)));
+    };
+
+    const addLine = (product, variant = null) => {
+        const line = {
+            product: product._id,
+            variantId: variant?._id || null,
+            name: product.name,
+            variant: variant ? `${variant.size} / ${variant.color}` : '',
+            price: variant ? variant.price : product.price,
+            quantity: 1,
+        };
+        const existing = lines.findIndex((l) => lineKey(l) === lineKey(line));
+        if (existing >= 0) {
+            updateQuantity(existing, lines[existing].quantity + 1);
+        } else {
+            setLines([...lines, line]);
+        }
+        setSearch('');
+        setResults([]);
+    };
+
+    const handleSave = async () => {
+        if (lines.length === 0) {
+            toast.error('An order needs at least one item');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const res = await adminAPI.editOrder(order._id, {
+                items: lines.map(({ product, variantId, quantity }) => ({ product, variantId, quantity })),
+                shippingAddress: {
+                    ...address,
+                    province: Number(address.province),
+                    landmark: address.landmark.trim() || undefined,
+                },
+                note: note.trim() || undefined,
+            });
+            toast.success(res.data.message || 'Order updated');
+            setEditing(false);
+            onUpdated();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to update order');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!canEdit) return null;
+
+    return (
+        <div className="card p-4">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Pencil className="w-5 h-5 text-[var(--color-primary)]" />
+                    <h3 className="font-semibold">Edit Order</h3>
+                </div>
+                {!editing && (
+                    <button onClick={() => setEditing(true)} className="btn btn-secondary btn-sm">
+                        Edit
+                    </button>
+                )}
+            </div>
+
+            {editing && (
+                <div className="space-y-4 mt-4 text-sm">
+                    {/* Items */}
+                    <div className="divide-y divide-[var(--color-border)] border-y border-[var(--color-border)]">
+                        {lines.map((line, index) => (
+                            <div key={lineKey(line)} className="py-2 flex items-center gap-3">
+                                <div className="flex-1">
+                                    <p className="font-medium">{line.name}</p>
+                                    <p className="text-[var(--color-text-muted)]">
+                                        {line.variant && `${line.variant} · `}
+                                        {formatPrice(line.price)}
+                                    </p>
+                                </div>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={line.quantity}
+                                    onChange={(e) => updateQuantity(index, parseInt(e.target.value, 10))}
+                                    className="input w-20"
+                                    aria-label={`Quantity of ${line.name}`}
+                                />
+                                <button
+                                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                                    className="p-2 text-red-500 hover:bg-red-50 rounded"
+                                    aria-label={`Remove ${line.name}`}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Add a product */}
+                    <div className="relative">
+                        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-text-muted)]" />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Add a product..."
+                            className="input w-full pl-9"
+                        />
+                        {results.length > 0 && (
+                            <div className="absolute z-10 mt-1 w-full card divide-y divide-[var(--color-border)] max-h-64 overflow-y-auto">
+                                {results.flatMap((product) =>
+                                    product.variants?.length > 0
+                                        ? product.variants.map((variant) => (
+                                              <button
+                                                  key={variant._id}
+                                                  onClick={() => addLine(product, variant)}
+                                                  className="w-full text-left px-3 py-2 hover:bg-[var(--color-bg)]"
+                                              >
+                                                  {product.name} · {variant.size} / {variant.color} ·{' '}
+                                                  {formatPrice(variant.price)}
+                                              </button>
+                                          ))
+                                        : [
+                                              <button
+                                                  key={product._id}
+                                                  onClick={() => addLine(product)}
+                                                  className="w-full text-left px-3 py-2 hover:bg-[var(--color-bg)]"
+                                              >
+                                                  {product.name} · {formatPrice(product.price)}
+                                              </button>,
+                                          ]
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Address */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {[
+                            ['name', 'Recipient name'],
+                            ['phone', 'Phone'],
+                            ['street', 'Street'],
+                            ['city', 'City'],
+                            ['district', 'District'],
+                            ['landmark', 'Landmark (optional)'],
+                        ].map(([field, label]) => (
+                            <input
+                                key={field}
+                                type="text"
+                                value={address[field]}
+                                onChange={(e) => setAddress({ ...address, [field]: e.target.value })}
+                                placeholder={label}
+                                aria-label={label}
+                                className="input"
+                            />
+                        ))}
+                        <select
+                            value={address.province}
+                            onChange={(e) => setAddress({ ...address, province: e.target.value })}
+                            className="select"
+                            aria-label="Province"
+                        >
+                            {PROVINCES.map((province) => (
+                                <option key={province.id} value={province.id}>
+                                    {province.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Reason for the change (e.g. customer called)"
+                        className="input w-full"
+                        maxLength={500}
+                    />
+
+                    <p className="text-[var(--color-text-muted)]">
+                        Shipping, discount and VAT are recalculated when you save.
+                    </p>
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditing(false)} disabled={saving} className="btn btn-secondary">
+                            Cancel
+                        </button>
+                        <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+                            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Save Changes
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OrderEditPanel;
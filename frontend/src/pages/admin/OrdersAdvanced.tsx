@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { createColumnHelper, type ColumnDef } from "@tanstack/react-table";
 import { adminAPI } from "../../api";
+import type { OrderDocumentType } from "../../api/admin";
 import { formatPrice, formatDate } from "../../utils/helpers";
 import { AdvancedDataTable } from "../../components/admin/AdvancedDataTable";
 import { StatusBadge, Modal } from "../../components/admin";
@@ -18,6 +19,8 @@ import {
   Clock,
   RotateCcw,
   AlertCircle,
+  FileText,
+  Loader2,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import type { IOrder, IUser, OrderStatus, PaymentStatus } from "../../types";
@@ -46,6 +49,7 @@ const paymentStatusConfig: Record<
   pending: { variant: "warning", label: "Pending" },
   paid: { variant: "success", label: "Paid" },
   failed: { variant: "error", label: "Failed" },
+  partially_refunded: { variant: "info", label: "Partially Refunded" },
   refunded: { variant: "info", label: "Refunded" },
 };
 
@@ -74,6 +78,10 @@ const AdminOrdersPage = () => {
   // Modal
   const [selectedOrder, setSelectedOrder] = useState<IOrder | null>(null);
 
+  // Orders ticked in the table, for batch invoices and packing slips
+  const [checkedOrders, setCheckedOrders] = useState<IOrder[]>([]);
+  const [printing, setPrinting] = useState<OrderDocumentType | null>(null);
+
   // Quick Stats
   const [stats, setStats] = useState({
     pending: 0,
@@ -397,6 +405,36 @@ const AdminOrdersPage = () => {
     [],
   );
 
+  // Download invoices or packing slips for the ticked orders as one PDF
+  const handleDownloadDocuments = async (type: OrderDocumentType) => {
+    setPrinting(type);
+    try {
+      const response = await adminAPI.downloadOrderDocuments(
+        checkedOrders.map((order) => order._id),
+        type,
+      );
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${type === "invoice" ? "invoices" : "packing-slips"}-${new Date().toISOString().slice(0, 10)}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("Failed to download documents:", error);
+      // Errors arrive as a blob because of the PDF response type
+      const body = await error.response?.data?.text?.().catch(() => null);
+      let message = "Failed to download documents";
+      try {
+        message = JSON.parse(body).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      toast.error(message);
+    } finally {
+      setPrinting(null);
+    }
+  };
+
   // Render row actions
   const renderRowActions = (order: IOrder) => (
     <button
@@ -421,6 +459,34 @@ const AdminOrdersPage = () => {
             View and manage all customer orders
           </p>
         </div>
+        {checkedOrders.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleDownloadDocuments("invoice")}
+              disabled={Boolean(printing)}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              {printing === "invoice" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <FileText className="w-4 h-4" />
+              )}
+              Invoices ({checkedOrders.length})
+            </button>
+            <button
+              onClick={() => handleDownloadDocuments("packing_slip")}
+              disabled={Boolean(printing)}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              {printing === "packing_slip" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Package className="w-4 h-4" />
+              )}
+              Packing Slips ({checkedOrders.length})
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Quick Stats */}
@@ -475,6 +541,7 @@ const AdminOrdersPage = () => {
           enableExport={true}
           // Callbacks
           onRowClick={handleViewOrder}
+          onRowSelectionChange={setCheckedOrders}
           onExport={handleExport}
           // Styling
           striped={true}
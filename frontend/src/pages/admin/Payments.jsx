@@ -0,0 +1,311 @@
+/**
+ * Payments Reconciliation Page
+ * Report of captured payments that don't line up with their orders
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatDate, formatPrice } from '../../utils/helpers';
+import { DataTable, Pagination, StatusBadge, Modal } from '../../components/admin';
+import { RefreshCw, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const TYPE_LABELS = {
+    paid_unmatched: 'Paid but unmatched',
+    amount_mismatch: 'Amount mismatch',
+};
+
+const Payments = () => {
+    // State
+    const [discrepancies, setDiscrepancies] = useState([]);
+    const [loading, setLoading] = useState(true);
+    const [reconciling, setReconciling] = useState(false);
+    const [pagination, setPagination] = useState({
+        currentPage: 1,
+        totalPages: 1,
+        totalItems: 0,
+        itemsPerPage: 20,
+    });
+
+    // Filters
+    const [statusFilter, setStatusFilter] = useState('open');
+    const [typeFilter, setTypeFilter] = useState('');
+
+    // Resolve dialog
+    const [resolveDialog, setResolveDialog] = useState({ open: false, discrepancy: null });
+    const [resolutionNote, setResolutionNote] = useState('');
+    const [resolving, setResolving] = useState(false);
+
+    // Fetch discrepancies
+    const fetchDiscrepancies = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = {
+                page: pagination.currentPage,
+                limit: pagination.itemsPerPage,
+            };
+            if (statusFilter) params.status = statusFilter;
+            if (typeFilter) params.type = typeFilter;
+
+            const response = await adminAPI.getPaymentDiscrepancies(params);
+            setDiscrepancies(response.data.data.discrepancies);
+            setPagination((prev) => ({
+                ...prev,
+                totalPages: response.data.pagination?.totalPages || 1,
+                totalItems: response.data.pagination?.totalItems || response.data.results,
+            }));
+        } catch (error) {
+            console.error('Failed to fetch discrepancies:', error);
+            toast.error('Failed to load payment discrepancies');
+        } finally {
+            setLoading(false);
+        }
+    }, [pagination.currentPage, pagination.itemsPerPage, statusFilter, typeFilter]);
+
+    useEffect(() => {
+        fetchDiscrepancies();
+    }, [fetchDiscrepancies]);
+
+    // Handle page change
+    const handlePageChange = (page) => {
+        setPagination((prev) => ({ ...prev, currentPage: page }));
+    };
+
+    // Run the reconciler now instead of waiting for the next scheduled run
+    const handleReconcile = async () => {
+        setReconciling(true);
+        try {
+            const response = await adminAPI.reconcilePayments();
+            const { summary } = response.data.data;
+            toast.success(
+                `Checked ${summary.checked} payment(s): ${summary.completed} completed, ${summary.failed} failed, ${summary.stillPending} still pending`
+            );
+            fetchDiscrepancies();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Reconciliation failed');
+        } finally {
+            setReconciling(false);
+        }
+    };
+
+    // Confirm resolution
+    const handleResolveConfirm = async () => {
+        if (!resolveDialog.discrepancy) return;
+
+        setResolving(true);
+        try {
+            await adminAPI.resolvePaymentDiscrepancy(resolveDialog.discrepancy._id, resolutionNote || undefined);
+            toast.success('Discrepancy resolved');
+            fetchDiscrepancies();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to resolve discrepancy');
+        } finally {
+            setResolving(false);
+            setResolveDialog({ open: false, discrepancy: null });
+            setResolutionNote('');
+        }
+    };
+
+    // Table columns
+    const columns = [
+        {
+            key: 'order',
+            label: 'Order',
+            render: (order) =>
+                order ? (
+                    <div>
+                        <p className="font-medium">{order.orderNumber}</p>
+                        <div className="flex gap-1 mt-1">
+                            <StatusBadge status={order.status} size="sm" />
+                            <StatusBadge status={order.payment?.status} size="sm" />
+                        </div>
+                    </div>
+                ) : (
+                    '-'
+                ),
+        },
+        {
+            key: 'type',
+            label: 'Problem',
+            render: (type, row) => (
+                <div>
+                    <StatusBadge
+                        status={TYPE_LABELS[type] || type}
+                        variant={type === 'paid_unmatched' ? 'error' : 'warning'}
+                        uppercase={false}
+                    />
+                    <p className="text-sm text-[var(--color-text-muted)] mt-1">{row.details}</p>
+                </div>
+            ),
+        },
+        {
+            key: 'gateway',
+            label: 'Gateway',
+            render: (gateway, row) => (
+                <div>
+                    <p className="capitalize">{gateway}</p>
+                    {row.transactionId && (
+                        <p className="text-xs text-[var(--color-text-muted)]">{row.transactionId}</p>
+                    )}
+                </div>
+            ),
+        },
+        {
+            key: 'expectedAmount',
+            label: 'Amount',
+            render: (expected, row) => (
+                <div className="text-sm">
+                    <p>Expected {formatPrice(expected)}</p>
+                    {row.gatewayAmount !== undefined && row.gatewayAmount !== null && (
+                        <p className="text-[var(--color-text-muted)]">Captured {formatPrice(row.gatewayAmount)}</p>
+                    )}
+                </div>
+            ),
+        },
+        {
+            key: 'createdAt',
+            label: 'Found',
+            sortable: true,
+            render: (date) => (
+                <span className="text-sm text-[var(--color-text-muted)]">
+                    {formatDate(date)}
+                </span>
+            ),
+        },
+        {
+            key: 'resolved',
+            label: 'Status',
+            render: (resolved, row) => (
+                <div>
+                    <StatusBadge
+                        status={resolved ? 'Resolved' : 'Open'}
+                        variant={resolved ? 'success' : 'warning'}
+                    />
+                    {row.resolutionNote && (
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">{row.resolutionNote}</p>
+                    )}
+                </div>
+            ),
+        },
+    ];
+
+    // Row actions
+    const getRowActions = (discrepancy) =>
+        discrepancy.resolved
+            ? []
+            : [
+                {
+                    label: 'Mark Resolved',
+                    icon: CheckCircle,
+                    onClick: () => setResolveDialog({ open: true, discrepancy }),
+                },
+            ];
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">Payments</h1>
+                <button
+                    onClick={handleReconcile}
+                    disabled={reconciling}
+                    className="btn btn-primary flex items-center gap-2"
+                >
+                    <RefreshCw className={`w-4 h-4 ${reconciling ? 'animate-spin' : ''}`} />
+                    {reconciling ? 'Reconciling...' : 'Reconcile Now'}
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="card mb-6">
+                <div className="p-4 flex flex-col sm:flex-row gap-4">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => {
+                            setStatusFilter(e.target.value);
+                            setPagination((prev) => ({ ...prev, currentPage: 1 }));
+                        }}
+                        className="select w-auto"
+                    >
+                        <option value="open">Open</option>
+                        <option value="resolved">Resolved</option>
+                        <option value="">All</option>
+                    </select>
+
+                    <select
+                        value={typeFilter}
+                        onChange={(e) => {
+                            setTypeFilter(e.target.value);
+                            setPagination((prev) => ({ ...prev, currentPage: 1 }));
+                        }}
+                        className="select w-auto"
+                    >
+                        <option value="">All Problems</option>
+                        <option value="paid_unmatched">Paid but unmatched</option>
+                        <option value="amount_mismatch">Amount mismatch</option>
+                    </select>
+                </div>
+            </div>
+
+            {/* Discrepancies Table */}
+            <div className="card">
+                <DataTable
+                    columns={columns}
+                    data={discrepancies}
+                    loading={loading}
+                    emptyMessage="No payment discrepancies"
+                    actions={getRowActions}
+                />
+
+                {/* Pagination */}
+                {!loading && discrepancies.length > 0 && (
+                    <div className="p-4 border-t border-[var(--color-border)]">
+                        <Pagination
+                            currentPage={pagination.currentPage}
+                            totalPages={pagination.totalPages}
+                            totalItems={pagination.totalItems}
+                            itemsPerPage={pagination.itemsPerPage}
+                            onPageChange={handlePageChange}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Resolve Dialog */}
+            <Modal
+                isOpen={resolveDialog.open}
+                onClose={() => setResolveDialog({ open: false, discrepancy: null })}
+                title="Resolve Discrepancy"
+                size="sm"
+            >
+                <p className="text-sm text-[var(--color-text-muted)] mb-4">
+                    {resolveDialog.discrepancy?.details}
+                </p>
+                <textarea
+                    value={resolutionNote}
+                    onChange={(e) => setResolutionNote(e.target.value)}
+                    placeholder="What was done (e.g. refunded in the Khalti portal)"
+                    className="textarea w-full mb-4"
+                    rows={3}
+                    maxLength={500}
+                />
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => setResolveDialog({ open: false, discrepancy: null })}
+                        className="btn btn-secondary"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleResolveConfirm}
+                        disabled={resolving}
+                        className="btn btn-primary"
+                    >
+                        {resolving ? 'Saving...' : 'Mark Resolved'}
+                    </button>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default Payments;
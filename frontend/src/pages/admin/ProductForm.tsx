@@ -2,13 +2,33 @@
  * ProductForm Component
  * Create/Edit product form with variants and image management
  */
-import { useState, useEffect, ChangeEvent, FormEvent } from "react";
+import {
+  useState,
+  useEffect,
+  ChangeEvent,
+  ClipboardEvent,
+  FormEvent,
+  KeyboardEvent,
+} from "react";
 import { adminAPI } from "../../api";
 import { ImageUploader, type ImageUploaderImage } from "../../components/admin";
-import { Plus, Trash2, Loader2, X } from "lucide-react";
+import { Plus, Trash2, Loader2, X, Grid3x3 } from "lucide-react";
 import toast from "react-hot-toast";
 import { PRODUCT_SIZES } from "../../utils/constants";
-import type { IProduct, ICategory, IProductVariant, IImage } from "../../types";
+import { skuCode } from "../../utils/helpers";
+import VariantMatrixBuilder, {
+  type MatrixDimension,
+  type MatrixResult,
+} from "./VariantMatrixBuilder";
+import type {
+  IProduct,
+  ICategory,
+  IProductVariant,
+  IImage,
+  TaxClass,
+  IAttribute,
+  IVariantOption,
+} from "../../types";
 
 // ============================================
 // Type Definitions
@@ -30,6 +50,8 @@ interface FormData {
   category: string;
   stock: string;
   sku: string;
+  // "" inherits the category's tax class
+  taxClass: TaxClass | "";
   isFeatured: boolean;
   isActive: boolean;
   metaTitle: string;
@@ -40,6 +62,9 @@ interface LocalVariant {
   _id: string;
   size: string;
   color: string;
+  // Values keyed by attribute name, for categories with attributes
+  options: Record<string, string>;
+  sku: string;
   price: number;
   stock: number;
   image: string;
@@ -69,6 +94,51 @@ interface FormErrors {
   [key: string]: string | undefined;
 }
 
+// Values a variant is told apart by, as the API stores them
+const submittedOptions = (
+  variant: LocalVariant,
+  attributes: IAttribute[],
+): IVariantOption[] =>
+  attributes.length > 0
+    ? attributes.map((attribute) => ({
+        name: attribute.name,
+        value: (variant.options[attribute.name] || "").trim(),
+      }))
+    : [
+        { name: "Size", value: variant.size },
+        { name: "Color", value: variant.color.trim() },
+      ];
+
+const optionsKey = (options: IVariantOption[]): string =>
+  options.map((option) => option.value.toLowerCase()).join("|");
+
+// Several temporary ids can be made in the same millisecond
+let tempIdCount = 0;
+const newTempId = (): string => `temp-${Date.now()}-${tempIdCount++}`;
+
+const toLocalVariant = (v: IProductVariant): LocalVariant => ({
+  _id: v._id,
+  size: v.size,
+  color: v.color,
+  options: Object.fromEntries(
+    (v.options?.length
+      ? v.options
+      : [
+          { name: "Size", value: v.size },
+          { name: "Color", value: v.color },
+        ]
+    ).map((option) => [option.name, option.value]),
+  ),
+  sku: v.sku || "",
+  price: v.price,
+  stock: v.stock,
+  image: v.image || "",
+  imageFile: null,
+});
+
+// Grid columns that take a typed or pasted value
+type GridField = "sku" | "price" | "stock";
+
 // ============================================
 // Component
 // ============================================
@@ -91,6 +161,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
     category: "",
     stock: "",
     sku: "",
+    taxClass: "",
     isFeatured: false,
     isActive: true,
     metaTitle: "",
@@ -100,6 +171,14 @@ const ProductForm: React.FC<ProductFormProps> = ({
   // Variants state
   const [hasVariants, setHasVariants] = useState(false);
   const [variants, setVariants] = useState<LocalVariant[]>([]);
+  // The category's attribute schema; empty means plain size and color
+  const [attributes, setAttributes] = useState<IAttribute[]>([]);
+  const [showMatrix, setShowMatrix] = useState(false);
+  // Rows bulk edits apply to; none selected means all of them
+  const [selectedVariants, setSelectedVariants] = useState<string[]>([]);
+  const [bulkPrice, setBulkPrice] = useState("");
+  const [bulkStock, setBulkStock] = useState("");
+  const [savingVariants, setSavingVariants] = useState(false);
 
   // Images state
   const [existingImages, setExistingImages] = useState<ExistingImage[]>([]);
@@ -125,6 +204,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
             : product.category || "",
         stock: String(product.stock || ""),
         sku: (product as any).sku || "",
+        taxClass: product.taxClass || "",
         isFeatured: product.isFeatured || false,
         isActive: (product as any).isActive !== false,
         metaTitle: (product as any).metaTitle || "",
@@ -133,15 +213,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
 
       // Map variants to local format
       const mappedVariants: LocalVariant[] = (product.variants || []).map(
-        (v: IProductVariant) => ({
-          _id: v._id,
-          size: v.size,
-          color: v.color,
-          price: v.price,
-          stock: v.stock,
-          image: v.image || "",
-          imageFile: null,
-        }),
+        toLocalVariant,
       );
       setVariants(mappedVariants);
 
@@ -161,6 +233,26 @@ const ProductForm: React.FC<ProductFormProps> = ({
     }
   }, [product]);
 
+  // Load the attributes variants of the chosen category carry
+  useEffect(() => {
+    const fetchAttributes = async (): Promise<void> => {
+      if (!formData.category) {
+        setAttributes([]);
+        return;
+      }
+      try {
+        const response = await adminAPI.getCategoryAttributes(
+          formData.category,
+        );
+        setAttributes(response.data.data.attributes);
+      } catch (error) {
+        console.error("Failed to fetch category attributes:", error);
+        setAttributes([]);
+      }
+    };
+    fetchAttributes();
+  }, [formData.category]);
+
   // Toggle Variants
   const handleHasVariantsChange = (checked: boolean): void => {
     setHasVariants(checked);
@@ -212,9 +304,11 @@ const ProductForm: React.FC<ProductFormProps> = ({
     setVariants((prev) => [
       ...prev,
       {
-        _id: `temp-${Date.now()}`,
+        _id: newTempId(),
         size: "",
         color: "",
+        options: {},
+        sku: "",
         price: parseFloat(formData.price) || 0,
         stock: 0,
         image: "",
@@ -242,9 +336,169 @@ const ProductForm: React.FC<ProductFormProps> = ({
     });
   };
 
+  // Update one attribute value of a variant
+  const handleVariantOptionChange = (
+    index: number,
+    name: string,
+    value: string,
+  ): void => {
+    setVariants((prev) => {
+      const updated = [...prev];
+      updated[index] = {
+        ...updated[index],
+        options: { ...updated[index].options, [name]: value },
+      };
+      return updated;
+    });
+  };
+
   // Remove variant
   const handleRemoveVariant = (index: number): void => {
+    const removedId = variants[index]._id;
     setVariants((prev) => prev.filter((_, idx) => idx !== index));
+    setSelectedVariants((prev) => prev.filter((id) => id !== removedId));
+  };
+
+  // Option columns: the category's attributes, or size and color
+  const dimensions: MatrixDimension[] =
+    attributes.length > 0
+      ? attributes.map((attribute) => ({
+          name: attribute.name,
+          values: attribute.type === "select" ? attribute.values : undefined,
+        }))
+      : [{ name: "Size", values: PRODUCT_SIZES }, { name: "Color" }];
+
+  // Add the generated combinations not listed yet, each with its own SKU
+  const handleGenerateVariants = (result: MatrixResult): void => {
+    const keys = new Set(
+      variants.map((v) => optionsKey(submittedOptions(v, attributes))),
+    );
+    const skus = new Set(
+      variants.map((v) => v.sku.trim().toUpperCase()).filter(Boolean),
+    );
+    const added: LocalVariant[] = [];
+
+    result.combinations.forEach((values) => {
+      const variant: LocalVariant = {
+        _id: newTempId(),
+        size: values.Size || "",
+        color: values.Color || "",
+        options: attributes.length > 0 ? values : {},
+        sku: "",
+        price: result.price,
+        stock: result.stock,
+        image: "",
+        imageFile: null,
+      };
+      const key = optionsKey(submittedOptions(variant, attributes));
+      if (keys.has(key)) return;
+      keys.add(key);
+
+      const base = [
+        result.skuPrefix.toUpperCase(),
+        ...dimensions.map((dimension) => skuCode(values[dimension.name])),
+      ]
+        .filter(Boolean)
+        .join("-");
+      let sku = base;
+      for (let n = 2; skus.has(sku); n++) sku = `${base}-${n}`;
+      skus.add(sku);
+
+      added.push({ ...variant, sku });
+    });
+
+    setVariants((prev) => [...prev, ...added]);
+    setShowMatrix(false);
+    if (added.length > 0) {
+      toast.success(`Added ${added.length} variant(s)`);
+    } else {
+      toast.error("All of those variants are already listed");
+    }
+  };
+
+  const handleToggleSelected = (id: string): void => {
+    setSelectedVariants((prev) =>
+      prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id],
+    );
+  };
+
+  const handleToggleAllSelected = (): void => {
+    setSelectedVariants((prev) =>
+      prev.length === variants.length ? [] : variants.map((v) => v._id),
+    );
+  };
+
+  const isBulkTarget = (id: string): boolean =>
+    selectedVariants.length === 0 || selectedVariants.includes(id);
+
+  // Set price or stock on the selected rows, or all rows
+  const handleBulkSet = (field: "price" | "stock", value: string): void => {
+    const number = field === "price" ? parseFloat(value) : parseInt(value);
+    if (!Number.isFinite(number) || number < 0) {
+      toast.error(`Enter a valid ${field}`);
+      return;
+    }
+
+    setVariants((prev) =>
+      prev.map((v) => (isBulkTarget(v._id) ? { ...v, [field]: number } : v)),
+    );
+    if (field === "price") setBulkPrice("");
+    else setBulkStock("");
+  };
+
+  const handleRemoveSelected = (): void => {
+    setVariants((prev) =>
+      prev.filter((v) => !selectedVariants.includes(v._id)),
+    );
+    setSelectedVariants([]);
+  };
+
+  // Spreadsheet-style moves: Enter and the arrow keys go to the same column
+  // in the row below or above
+  const handleGridKeyDown = (
+    e: KeyboardEvent<HTMLInputElement | HTMLSelectElement>,
+    row: number,
+    column: string,
+  ): void => {
+    const step =
+      e.key === "ArrowDown" || e.key === "Enter"
+        ? 1
+        : e.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (step === 0) return;
+
+    // Enter would otherwise submit the whole form
+    e.preventDefault();
+    document
+      .querySelector<HTMLElement>(`[data-grid-cell="${row + step}:${column}"]`)
+      ?.focus();
+  };
+
+  // A column pasted from a spreadsheet fills this row and the ones below
+  const handleGridPaste = (
+    e: ClipboardEvent<HTMLInputElement>,
+    row: number,
+    field: GridField,
+  ): void => {
+    const lines = e.clipboardData
+      .getData("text")
+      .split(/\r?\n/)
+      .map((line) => line.split("\t")[0].trim())
+      .filter(Boolean);
+    if (lines.length < 2) return;
+
+    e.preventDefault();
+    setVariants((prev) =>
+      prev.map((v, i) => {
+        const line = lines[i - row];
+        if (i < row || line === undefined) return v;
+        return {
+          ...v,
+          [field]: field === "sku" ? line : parseFloat(line) || 0,
+        };
+      }),
+    );
   };
 
   // Duplicate variant
@@ -255,7 +509,8 @@ const ProductForm: React.FC<ProductFormProps> = ({
         ...prev,
         {
           ...original,
-          _id: `temp-${Date.now()}`,
+          _id: newTempId(),
+          sku: "",
           stock: 0,
           imageFile: null,
         },
@@ -401,6 +656,58 @@ const ProductForm: React.FC<ProductFormProps> = ({
     }
   };
 
+  const isCompleteVariant = (v: LocalVariant): boolean =>
+    submittedOptions(v, attributes).every((o) => o.value) && v.price >= 0;
+
+  // What the API stores of a variant, apart from its image
+  const variantPayload = (v: LocalVariant): Partial<IProductVariant> => ({
+    ...(attributes.length > 0
+      ? { options: submittedOptions(v, attributes) }
+      : { size: v.size, color: v.color.trim() }),
+    ...(v.sku.trim() && { sku: v.sku.trim() }),
+    price: parseFloat(String(v.price)) || 0,
+    stock: parseInt(String(v.stock)) || 0,
+  });
+
+  // Save the grid's variants now, in one request, without the rest of the
+  // form. Variants removed here stay until the product is saved
+  const handleSaveVariants = async (): Promise<void> => {
+    if (!product?._id) return;
+
+    setSavingVariants(true);
+    try {
+      const response = await adminAPI.patchProductVariants(
+        product._id,
+        variants.filter(isCompleteVariant).map((v) => ({
+          ...(!v._id.startsWith("temp-") && { _id: v._id }),
+          ...variantPayload(v),
+        })),
+      );
+
+      // Keep images picked for new variants, to upload when the product is saved
+      const pending = new Map(
+        variants
+          .filter((v) => v.imageFile)
+          .map((v) => [optionsKey(submittedOptions(v, attributes)), v]),
+      );
+      setVariants(
+        (response.data.data.product.variants || []).map((v) => {
+          const local = toLocalVariant(v);
+          const picked = pending.get(optionsKey(v.options || []));
+          return picked
+            ? { ...local, image: picked.image, imageFile: picked.imageFile }
+            : local;
+        }),
+      );
+      setSelectedVariants([]);
+      toast.success("Variants saved");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to save variants");
+    } finally {
+      setSavingVariants(false);
+    }
+  };
+
   // Submit form
   const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
@@ -417,6 +724,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
         stock: parseInt(formData.stock) || 0,
         isFeatured: formData.isFeatured,
         isActive: formData.isActive,
+        taxClass: formData.taxClass || null,
       };
 
       // Add optional fields only if they have values
@@ -438,15 +746,10 @@ const ProductForm: React.FC<ProductFormProps> = ({
 
       // Add variants only if active and valid
       if (hasVariants) {
-        const cleanVariants = variants
-          .filter((v) => v.size && v.color && v.price >= 0)
-          .map((v) => ({
-            size: v.size,
-            color: v.color.trim(),
-            price: parseFloat(String(v.price)) || 0,
-            stock: parseInt(String(v.stock)) || 0,
-            image: v.imageFile ? null : v.image || null,
-          }));
+        const cleanVariants = variants.filter(isCompleteVariant).map((v) => ({
+          ...variantPayload(v),
+          image: v.imageFile ? null : v.image || null,
+        }));
 
         if (cleanVariants.length > 0) {
           productData.variants = cleanVariants;
@@ -492,10 +795,10 @@ const ProductForm: React.FC<ProductFormProps> = ({
         const savedVariants = savedProduct.variants || [];
 
         for (const pendingVar of variantsWithPendingImages) {
+          const options = submittedOptions(pendingVar, attributes);
           const savedVariant = savedVariants.find(
             (sv: IProductVariant) =>
-              sv.size === pendingVar.size &&
-              sv.color === pendingVar.color.trim(),
+              optionsKey(sv.options || []) === optionsKey(options),
           );
 
           if (savedVariant?._id && pendingVar.imageFile) {
@@ -510,7 +813,9 @@ const ProductForm: React.FC<ProductFormProps> = ({
               );
             } catch (err) {
               console.error("Failed to upload variant image", err);
-              toast.error(`Failed to upload image for ${pendingVar.color}`);
+              toast.error(
+                `Failed to upload image for ${options.map((o) => o.value).join(" / ")}`,
+              );
             }
           }
         }
@@ -716,6 +1021,22 @@ const ProductForm: React.FC<ProductFormProps> = ({
               </p>
             )}
           </div>
+
+          {/* Tax Class */}
+          <div>
+            <label className="block text-sm font-medium mb-1">Tax Class</label>
+            <select
+              name="taxClass"
+              value={formData.taxClass}
+              onChange={handleChange}
+              className="select"
+            >
+              <option value="">Same as category</option>
+              <option value="standard">Standard (VAT)</option>
+              <option value="zero_rated">Zero-rated</option>
+              <option value="exempt">Exempt</option>
+            </select>
+          </div>
         </div>
 
         {/* Toggles */}
@@ -763,167 +1084,324 @@ const ProductForm: React.FC<ProductFormProps> = ({
 
         {hasVariants && (
           <div className="space-y-4 animate-fadeIn">
-            {/* Headers */}
-            <div className="hidden md:grid grid-cols-12 gap-4 text-sm font-medium text-[var(--color-text-muted)] border-b pb-2">
-              <div className="col-span-3">
-                Size <span className="text-red-500">*</span>
-              </div>
-              <div className="col-span-3">
-                Color <span className="text-red-500">*</span>
-              </div>
-              <div className="col-span-2">Price</div>
-              <div className="col-span-2">Stock</div>
-              <div className="col-span-2">Image</div>
+            {/* Bulk actions */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => setShowMatrix((prev) => !prev)}
+                className="btn btn-secondary"
+              >
+                <Grid3x3 className="w-4 h-4" />
+                Generate Variants
+              </button>
+              <input
+                type="number"
+                value={bulkPrice}
+                onChange={(e) => setBulkPrice(e.target.value)}
+                className="input w-28 text-sm"
+                placeholder="Price"
+                aria-label="Price for the selected variants"
+                min="0"
+              />
+              <button
+                type="button"
+                onClick={() => handleBulkSet("price", bulkPrice)}
+                disabled={!bulkPrice}
+                className="btn btn-secondary"
+              >
+                Set Price
+              </button>
+              <input
+                type="number"
+                value={bulkStock}
+                onChange={(e) => setBulkStock(e.target.value)}
+                className="input w-28 text-sm"
+                placeholder="Stock"
+                aria-label="Stock for the selected variants"
+                min="0"
+              />
+              <button
+                type="button"
+                onClick={() => handleBulkSet("stock", bulkStock)}
+                disabled={!bulkStock}
+                className="btn btn-secondary"
+              >
+                Set Stock
+              </button>
+              {selectedVariants.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRemoveSelected}
+                  className="btn btn-secondary text-red-500"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove {selectedVariants.length}
+                </button>
+              )}
+              <span className="text-[var(--color-text-muted)]">
+                {selectedVariants.length > 0
+                  ? `${selectedVariants.length} of ${variants.length} selected`
+                  : `Applies to all ${variants.length} variants`}
+              </span>
+              {isEdit && (
+                <button
+                  type="button"
+                  onClick={handleSaveVariants}
+                  disabled={savingVariants || variants.length === 0}
+                  className="btn btn-primary ml-auto"
+                  title="Saves variants now; removed variants go when the product is saved"
+                >
+                  {savingVariants && (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  )}
+                  Save Variants
+                </button>
+              )}
             </div>
 
-            {/* Variant List */}
-            {variants.map((variant, index) => (
-              <div
-                key={variant._id || index}
-                className="grid grid-cols-1 md:grid-cols-12 gap-4 items-start p-4 md:p-0 border md:border-0 rounded-lg md:rounded-none bg-gray-50 md:bg-transparent"
-              >
-                {/* Size */}
-                <div className="col-span-3">
-                  <label className="md:hidden text-xs font-medium mb-1 block">
-                    Size
-                  </label>
-                  <select
-                    value={variant.size}
-                    onChange={(e) =>
-                      handleVariantChange(index, "size", e.target.value)
-                    }
-                    className="select w-full text-sm"
-                    required
-                  >
-                    <option value="">Select Size...</option>
-                    {PRODUCT_SIZES.map((size) => (
-                      <option key={size} value={size}>
-                        {size}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Color */}
-                <div className="col-span-3">
-                  <label className="md:hidden text-xs font-medium mb-1 block">
-                    Color
-                  </label>
-                  <input
-                    type="text"
-                    value={variant.color}
-                    onChange={(e) =>
-                      handleVariantChange(index, "color", e.target.value)
-                    }
-                    className="input w-full text-sm"
-                    placeholder="Color (e.g. Red)"
-                    required
-                  />
-                </div>
-
-                {/* Price */}
-                <div className="col-span-2">
-                  <label className="md:hidden text-xs font-medium mb-1 block">
-                    Price
-                  </label>
-                  <input
-                    type="number"
-                    value={variant.price}
-                    onChange={(e) =>
-                      handleVariantChange(index, "price", e.target.value)
-                    }
-                    className="input w-full text-sm"
-                    placeholder="0"
-                    min="0"
-                    required
-                  />
-                </div>
-
-                {/* Stock */}
-                <div className="col-span-2">
-                  <label className="md:hidden text-xs font-medium mb-1 block">
-                    Stock
-                  </label>
-                  <input
-                    type="number"
-                    value={variant.stock}
-                    onChange={(e) =>
-                      handleVariantChange(index, "stock", e.target.value)
-                    }
-                    className="input w-full text-sm"
-                    placeholder="0"
-                    min="0"
-                    required
-                  />
-                </div>
-
-                {/* Image & Actions */}
-                <div className="col-span-2 flex items-center gap-2">
-                  {variant.image ? (
-                    <div className="relative group">
-                      <img
-                        src={variant.image}
-                        alt="Variant"
-                        className="w-10 h-10 object-cover rounded border"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => handleVariantChange(index, "image", "")}
-                        className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
-                    </div>
-                  ) : (
-                    <label className="cursor-pointer">
-                      <div className="w-10 h-10 border border-dashed border-gray-300 rounded flex items-center justify-center hover:bg-gray-50 text-gray-500">
-                        <Plus className="w-4 h-4" />
-                      </div>
+            {showMatrix && (
+              <VariantMatrixBuilder
+                dimensions={dimensions}
+                defaultSkuPrefix={
+                  formData.sku.trim().toUpperCase() || skuCode(formData.name)
+                }
+                defaultPrice={parseFloat(formData.price) || 0}
+                onGenerate={handleGenerateVariants}
+                onClose={() => setShowMatrix(false)}
+              />
+            )}
+
+            {/* Variant Grid */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[var(--color-text-muted)] border-b">
+                    <th className="p-2 w-8">
                       <input
-                        type="file"
-                        accept="image/*"
-                        className="hidden"
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) handleVariantImageUpload(index, file);
-                        }}
+                        type="checkbox"
+                        checked={
+                          variants.length > 0 &&
+                          selectedVariants.length === variants.length
+                        }
+                        onChange={handleToggleAllSelected}
+                        aria-label="Select all variants"
+                        className="w-4 h-4 rounded border-[var(--color-border)]"
                       />
-                    </label>
-                  )}
-
-                  <div className="flex ml-auto gap-1">
-                    <button
-                      type="button"
-                      onClick={() => handleDuplicateVariant(index)}
-                      className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"
-                      title="Duplicate Variant"
+                    </th>
+                    {dimensions.map((dimension) => (
+                      <th key={dimension.name} className="p-2 font-medium">
+                        {dimension.name} <span className="text-red-500">*</span>
+                      </th>
+                    ))}
+                    <th className="p-2 font-medium">SKU</th>
+                    <th className="p-2 font-medium">Price</th>
+                    <th className="p-2 font-medium">Stock</th>
+                    <th className="p-2 font-medium">Image</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {variants.map((variant, index) => (
+                    <tr
+                      key={variant._id || index}
+                      className={`border-b border-[var(--color-border)] ${
+                        selectedVariants.includes(variant._id)
+                          ? "bg-blue-50"
+                          : ""
+                      }`}
                     >
-                      <svg
-                        className="w-4 h-4"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedVariants.includes(variant._id)}
+                          onChange={() => handleToggleSelected(variant._id)}
+                          aria-label={`Select variant ${index + 1}`}
+                          className="w-4 h-4 rounded border-[var(--color-border)]"
                         />
-                      </svg>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveVariant(index)}
-                      className="p-1.5 text-red-500 hover:bg-red-50 rounded"
-                      title="Remove Variant"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
-              </div>
-            ))}
+                      </td>
+
+                      {dimensions.map((dimension) => {
+                        const attribute = attributes.find(
+                          (a) => a.name === dimension.name,
+                        );
+                        const value = attribute
+                          ? variant.options[dimension.name] || ""
+                          : dimension.name === "Size"
+                            ? variant.size
+                            : variant.color;
+                        const onChange = (
+                          e: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+                        ) =>
+                          attribute
+                            ? handleVariantOptionChange(
+                                index,
+                                dimension.name,
+                                e.target.value,
+                              )
+                            : handleVariantChange(
+                                index,
+                                dimension.name === "Size" ? "size" : "color",
+                                e.target.value,
+                              );
+                        const cell = {
+                          "data-grid-cell": `${index}:${dimension.name}`,
+                          "aria-label": dimension.name,
+                          onKeyDown: (
+                            e: KeyboardEvent<
+                              HTMLInputElement | HTMLSelectElement
+                            >,
+                          ) => handleGridKeyDown(e, index, dimension.name),
+                        };
+
+                        return (
+                          <td key={dimension.name} className="p-2 min-w-32">
+                            {dimension.values ? (
+                              <select
+                                {...cell}
+                                value={value}
+                                onChange={onChange}
+                                className="select w-full text-sm"
+                                required
+                              >
+                                <option value="">Select...</option>
+                                {dimension.values.map((option) => (
+                                  <option key={option} value={option}>
+                                    {option}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input
+                                {...cell}
+                                type={
+                                  attribute?.type === "number"
+                                    ? "number"
+                                    : "text"
+                                }
+                                value={value}
+                                onChange={onChange}
+                                className="input w-full text-sm"
+                                placeholder={attribute?.unit || dimension.name}
+                                step="any"
+                                required
+                              />
+                            )}
+                          </td>
+                        );
+                      })}
+
+                      {(["sku", "price", "stock"] as GridField[]).map(
+                        (field) => (
+                          <td
+                            key={field}
+                            className={`p-2 ${field === "sku" ? "min-w-36" : "w-24"}`}
+                          >
+                            <input
+                              type={field === "sku" ? "text" : "number"}
+                              value={variant[field]}
+                              onChange={(e) =>
+                                handleVariantChange(
+                                  index,
+                                  field,
+                                  e.target.value,
+                                )
+                              }
+                              onKeyDown={(e) =>
+                                handleGridKeyDown(e, index, field)
+                              }
+                              onPaste={(e) => handleGridPaste(e, index, field)}
+                              data-grid-cell={`${index}:${field}`}
+                              aria-label={field}
+                              className="input w-full text-sm"
+                              placeholder={field === "sku" ? "Optional" : "0"}
+                              min={field === "sku" ? undefined : "0"}
+                              maxLength={field === "sku" ? 50 : undefined}
+                              required={field !== "sku"}
+                            />
+                          </td>
+                        ),
+                      )}
+
+                      {/* Image */}
+                      <td className="p-2">
+                        {variant.image ? (
+                          <div className="relative group w-10">
+                            <img
+                              src={variant.image}
+                              alt="Variant"
+                              className="w-10 h-10 object-cover rounded border"
+                            />
+                            <button
+                              type="button"
+                              onClick={() =>
+                                handleVariantChange(index, "image", "")
+                              }
+                              className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ) : (
+                          <label className="cursor-pointer">
+                            <div className="w-10 h-10 border border-dashed border-gray-300 rounded flex items-center justify-center hover:bg-gray-50 text-gray-500">
+                              <Plus className="w-4 h-4" />
+                            </div>
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleVariantImageUpload(index, file);
+                              }}
+                            />
+                          </label>
+                        )}
+                      </td>
+
+                      {/* Actions */}
+                      <td className="p-2">
+                        <div className="flex gap-1">
+                          <button
+                            type="button"
+                            onClick={() => handleDuplicateVariant(index)}
+                            className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"
+                            title="Duplicate Variant"
+                          >
+                            <svg
+                              className="w-4 h-4"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                              stroke="currentColor"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                              />
+                            </svg>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveVariant(index)}
+                            className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                            title="Remove Variant"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-[var(--color-text-muted)]">
+              Enter and the arrow keys move between rows; a column pasted from a
+              spreadsheet fills the rows below
+            </p>
 
             <button
               type="button"
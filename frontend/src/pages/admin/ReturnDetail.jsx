@@ -0,0 +1,323 @@
+/**
+ * ReturnDetail Component
+ * Review a return or exchange and move it through pickup, inspection and completion
+ */
+import { useState } from 'react';
+import { adminAPI } from '../../api';
+import { formatPrice, formatDate, formatDateTime } from '../../utils/helpers';
+import { RETURN_REASONS, RETURN_STATUS_LABELS } from '../../utils/constants';
+import { StatusBadge } from '../../components/admin';
+import { Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const RETURN_STATUS_VARIANTS = {
+    requested: 'warning',
+    approved: 'info',
+    pickup_scheduled: 'info',
+    received: 'info',
+    inspected: 'primary',
+    completed: 'success',
+    rejected: 'error',
+    cancelled: 'default',
+};
+
+const variantLabel = (variant) => [variant?.size, variant?.color].filter(Boolean).join(' / ');
+
+const ReturnDetail = ({ returnRequest, onUpdated }) => {
+    const [working, setWorking] = useState(false);
+    const [rejectionReason, setRejectionReason] = useState('');
+    const [pickup, setPickup] = useState({ scheduledFor: '', courier: '', trackingNumber: '' });
+    const [inspection, setInspection] = useState(() =>
+        Object.fromEntries(
+            returnRequest.items.map((item) => [item._id, { acceptedQuantity: item.quantity, restock: true }])
+        )
+    );
+    const [inspectionNote, setInspectionNote] = useState('');
+    const [resolution, setResolution] = useState(returnRequest.type === 'exchange' ? 'replacement' : 'refund');
+
+    const { status } = returnRequest;
+    const reasonLabel = RETURN_REASONS.find((r) => r.value === returnRequest.reason)?.label || returnRequest.reason;
+
+    // Run one admin action, then let the parent reload
+    const runAction = async (action, successMessage) => {
+        setWorking(true);
+        try {
+            const res = await action();
+            toast.success(res.data.message || successMessage);
+            onUpdated();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to update return');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleReject = () => {
+        if (!rejectionReason.trim()) return;
+        runAction(() => adminAPI.rejectReturn(returnRequest._id, rejectionReason.trim()), 'Return rejected');
+    };
+
+    const handleSchedulePickup = () => {
+        runAction(
+            () =>
+                adminAPI.scheduleReturnPickup(returnRequest._id, {
+                    scheduledFor: pickup.scheduledFor || undefined,
+                    courier: pickup.courier || undefined,
+                    trackingNumber: pickup.trackingNumber || undefined,
+                }),
+            'Pickup scheduled'
+        );
+    };
+
+    const handleInspect = () => {
+        runAction(
+            () =>
+                adminAPI.inspectReturn(returnRequest._id, {
+                    items: returnRequest.items.map((item) => ({
+                        itemId: item._id,
+                        acceptedQuantity: Number(inspection[item._id].acceptedQuantity) || 0,
+                        restock: inspection[item._id].restock,
+                    })),
+                    note: inspectionNote || undefined,
+                }),
+            'Inspection recorded'
+        );
+    };
+
+    const updateInspection = (itemId, changes) => {
+        setInspection((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            {/* Summary */}
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                    <p className="font-medium">
+                        {returnRequest.returnNumber} · <span className="capitalize">{returnRequest.type}</span>
+                    </p>
+                    <p className="text-[var(--color-text-muted)]">
+                        Requested {formatDateTime(returnRequest.createdAt)} · {reasonLabel}
+                    </p>
+                </div>
+                <StatusBadge
+                    status={RETURN_STATUS_LABELS[status]}
+                    variant={RETURN_STATUS_VARIANTS[status]}
+                />
+            </div>
+
+            {returnRequest.reasonDetails && (
+                <p className="p-3 rounded bg-[var(--color-bg)]">{returnRequest.reasonDetails}</p>
+            )}
+
+            {returnRequest.photos?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {returnRequest.photos.map((photo) => (
+                        <a key={photo.url} href={photo.url} target="_blank" rel="noopener noreferrer">
+                            <img src={photo.url} alt="Return" className="w-16 h-16 rounded object-cover" />
+                        </a>
+                    ))}
+                </div>
+            )}
+
+            {/* Items, with the inspection form once the parcel is back */}
+            <div className="divide-y divide-[var(--color-border)] border-y border-[var(--color-border)]">
+                {returnRequest.items.map((item) => (
+                    <div key={item._id} className="py-2 flex flex-wrap justify-between items-center gap-3">
+                        <div>
+                            <p className="font-medium">
+                                {item.quantity} × {item.name}
+                                {variantLabel(item.variant) && ` (${variantLabel(item.variant)})`}
+                            </p>
+                            {item.exchangeVariant && (
+                                <p className="text-[var(--color-text-muted)]">
+                                    Exchange for {variantLabel(item.exchangeVariant)}
+                                </p>
+                            )}
+                            {item.acceptedQuantity !== undefined && item.acceptedQuantity !== null && (
+                                <p className="text-[var(--color-text-muted)]">
+                                    Accepted {item.acceptedQuantity}
+                                    {item.restocked && ' · restocked'}
+                                </p>
+                            )}
+                        </div>
+                        {status === 'received' ? (
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={item.quantity}
+                                    value={inspection[item._id].acceptedQuantity}
+                                    onChange={(e) => updateInspection(item._id, { acceptedQuantity: e.target.value })}
+                                    className="input w-20"
+                                />
+                                <label className="flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={inspection[item._id].restock}
+                                        onChange={(e) => updateInspection(item._id, { restock: e.target.checked })}
+                                    />
+                                    Restock
+                                </label>
+                            </div>
+                        ) : (
+                            <span>{formatPrice(item.price * item.quantity)}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {returnRequest.pickup?.scheduledFor && (
+                <p>
+                    Pickup {formatDate(returnRequest.pickup.scheduledFor)}
+                    {returnRequest.pickup.courier && ` · ${returnRequest.pickup.courier}`}
+                    {returnRequest.pickup.trackingNumber && ` · ${returnRequest.pickup.trackingNumber}`}
+                </p>
+            )}
+            {returnRequest.rejectionReason && (
+                <p className="text-red-600">Rejected: {returnRequest.rejectionReason}</p>
+            )}
+            {returnRequest.inspectionNote && (
+                <p className="text-[var(--color-text-muted)]">Inspection: {returnRequest.inspectionNote}</p>
+            )}
+            {returnRequest.resolution?.type === 'refund' && (
+                <p className="text-green-700">Refunded {formatPrice(returnRequest.resolution.refundAmount)}</p>
+            )}
+            {returnRequest.resolution?.type === 'replacement' && (
+                <p className="text-green-700">
+                    Replacement order #{returnRequest.resolution.replacementOrder?.orderNumber}
+                </p>
+            )}
+
+            {/* Actions */}
+            {status === 'requested' && (
+                <div className="space-y-2">
+                    <input
+                        type="text"
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        placeholder="Reason (required to reject)"
+                        className="input w-full"
+                        maxLength={500}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={handleReject}
+                            disabled={working || !rejectionReason.trim()}
+                            className="btn bg-red-600 hover:bg-red-700 text-white"
+                        >
+                            Reject
+                        </button>
+                        <button
+                            onClick={() => runAction(() => adminAPI.approveReturn(returnRequest._id), 'Return approved')}
+                            disabled={working}
+                            className="btn btn-primary"
+                        >
+                            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Approve
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {status === 'approved' && (
+                <div className="space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <input
+                            type="date"
+                            value={pickup.scheduledFor}
+                            onChange={(e) => setPickup({ ...pickup, scheduledFor: e.target.value })}
+                            className="input"
+                        />
+                        <input
+                            type="text"
+                            value={pickup.courier}
+                            onChange={(e) => setPickup({ ...pickup, courier: e.target.value })}
+                            placeholder="Courier"
+                            className="input"
+                            maxLength={100}
+                        />
+                        <input
+                            type="text"
+                            value={pickup.trackingNumber}
+                            onChange={(e) => setPickup({ ...pickup, trackingNumber: e.target.value })}
+                            placeholder="Tracking number"
+                            className="input"
+                            maxLength={100}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => runAction(() => adminAPI.receiveReturn(returnRequest._id), 'Return received')}
+                            disabled={working}
+                            className="btn btn-secondary"
+                        >
+                            Customer Dropped Off
+                        </button>
+                        <button onClick={handleSchedulePickup} disabled={working} className="btn btn-primary">
+                            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Schedule Pickup
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {status === 'pickup_scheduled' && (
+                <div className="flex justify-end">
+                    <button
+                        onClick={() => runAction(() => adminAPI.receiveReturn(returnRequest._id), 'Return received')}
+                        disabled={working}
+                        className="btn btn-primary"
+                    >
+                        {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Mark Received
+                    </button>
+                </div>
+            )}
+
+            {status === 'received' && (
+                <div className="space-y-2">
+                    <textarea
+                        value={inspectionNote}
+                        onChange={(e) => setInspectionNote(e.target.value)}
+                        placeholder="Inspection note (optional)"
+                        className="textarea"
+                        rows={2}
+                        maxLength={500}
+                    />
+                    <div className="flex justify-end">
+                        <button onClick={handleInspect} disabled={working} className="btn btn-primary">
+                            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Record Inspection
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {status === 'inspected' && (
+                <div className="flex flex-wrap justify-end items-center gap-2">
+                    <select
+                        value={resolution}
+                        onChange={(e) => setResolution(e.target.value)}
+                        className="select w-auto"
+                    >
+                        <option value="refund">Refund</option>
+                        <option value="replacement">Replacement order</option>
+                    </select>
+                    <button
+                        onClick={() =>
+                            runAction(() => adminAPI.completeReturn(returnRequest._id, resolution), 'Return completed')
+                        }
+                        disabled={working}
+                        className="btn btn-primary"
+                    >
+                        {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Complete
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReturnDetail;
@@ -0,0 +1,214 @@
+/**
+ * Returns Management Page
+ * Return and exchange requests waiting for review, pickup, inspection or completion
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatDate } from '../../utils/helpers';
+import { RETURN_STATUS_LABELS } from '../../utils/constants';
+import { DataTable, Pagination, StatusBadge, Modal } from '../../components/admin';
+import ReturnDetail from './ReturnDetail';
+import { Eye } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_VARIANTS = {
+    requested: 'warning',
+    approved: 'info',
+    pickup_scheduled: 'info',
+    received: 'info',
+    inspected: 'primary',
+    completed: 'success',
+    rejected: 'error',
+    cancelled: 'default',
+};
+
+const Returns = () => {
+    const [returns, setReturns] = useState([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('requested');
+    const [pagination, setPagination] = useState({
+        currentPage: 1,
+        totalPages: 1,
+        totalItems: 0,
+        itemsPerPage: 20,
+    });
+
+    // Modal
+    const [selectedReturn, setSelectedReturn] = useState(null);
+
+    // Fetch return requests
+    const fetchReturns = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = {
+                page: pagination.currentPage,
+                limit: pagination.itemsPerPage,
+            };
+            if (statusFilter) params.status = statusFilter;
+
+            const response = await adminAPI.getReturns(params);
+            setReturns(response.data.data.returns);
+            setPagination((prev) => ({
+                ...prev,
+                totalPages: response.data.pagination?.totalPages || 1,
+                totalItems: response.data.pagination?.totalItems || response.data.results,
+            }));
+        } catch (error) {
+            console.error('Failed to fetch returns:', error);
+            toast.error('Failed to load returns');
+        } finally {
+            setLoading(false);
+        }
+    }, [pagination.currentPage, pagination.itemsPerPage, statusFilter]);
+
+    useEffect(() => {
+        fetchReturns();
+    }, [fetchReturns]);
+
+    // View return detail
+    const handleViewReturn = async (returnRequest) => {
+        try {
+            const response = await adminAPI.getReturnById(returnRequest._id);
+            setSelectedReturn(response.data.data.returnRequest);
+        } catch {
+            toast.error('Failed to load return details');
+        }
+    };
+
+    // Reload the list and the open return after an action
+    const handleUpdated = () => {
+        fetchReturns();
+        if (selectedReturn) {
+            handleViewReturn(selectedReturn);
+        }
+    };
+
+    // Table columns
+    const columns = [
+        {
+            key: 'returnNumber',
+            label: 'Return',
+            render: (returnNumber, row) => (
+                <div>
+                    <p className="font-medium">{returnNumber}</p>
+                    <p className="text-sm text-[var(--color-text-muted)]">Order #{row.order?.orderNumber}</p>
+                </div>
+            ),
+        },
+        {
+            key: 'user',
+            label: 'Customer',
+            render: (user) => (
+                <div>
+                    <p className="font-medium">{user?.name}</p>
+                    <p className="text-sm text-[var(--color-text-muted)]">{user?.phone || user?.email}</p>
+                </div>
+            ),
+        },
+        {
+            key: 'type',
+            label: 'Type',
+            render: (type) => <span className="capitalize">{type}</span>,
+        },
+        {
+            key: 'items',
+            label: 'Items',
+            render: (items) => items?.reduce((sum, item) => sum + item.quantity, 0) || 0,
+        },
+        {
+            key: 'status',
+            label: 'Status',
+            render: (status) => (
+                <StatusBadge status={RETURN_STATUS_LABELS[status]} variant={STATUS_VARIANTS[status]} />
+            ),
+        },
+        {
+            key: 'createdAt',
+            label: 'Requested',
+            render: (date) => (
+                <span className="text-sm text-[var(--color-text-muted)]">{formatDate(date)}</span>
+            ),
+        },
+    ];
+
+    // Row actions
+    const getRowActions = (returnRequest) => [
+        {
+            label: 'View Details',
+            icon: Eye,
+            onClick: () => handleViewReturn(returnRequest),
+        },
+    ];
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">Returns</h1>
+            </div>
+
+            {/* Filters */}
+            <div className="card mb-6">
+                <div className="p-4 flex gap-3">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => {
+                            setStatusFilter(e.target.value);
+                            setPagination((prev) => ({ ...prev, currentPage: 1 }));
+                        }}
+                        className="select w-auto"
+                    >
+                        <option value="">All Status</option>
+                        {Object.entries(RETURN_STATUS_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* Returns Table */}
+            <div className="card">
+                <DataTable
+                    columns={columns}
+                    data={returns}
+                    loading={loading}
+                    emptyMessage="No return requests found"
+                    actions={getRowActions}
+                    onRowClick={handleViewReturn}
+                />
+
+                {!loading && returns.length > 0 && (
+                    <div className="p-4 border-t border-[var(--color-border)]">
+                        <Pagination
+                            currentPage={pagination.currentPage}
+                            totalPages={pagination.totalPages}
+                            totalItems={pagination.totalItems}
+                            itemsPerPage={pagination.itemsPerPage}
+                            onPageChange={(page) => setPagination((prev) => ({ ...prev, currentPage: page }))}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Return Detail Modal */}
+            <Modal
+                isOpen={Boolean(selectedReturn)}
+                onClose={() => setSelectedReturn(null)}
+                title={`Return ${selectedReturn?.returnNumber || ''}`}
+                size="lg"
+            >
+                {selectedReturn && (
+                    <ReturnDetail
+                        key={`${selectedReturn._id}-${selectedReturn.status}`}
+                        returnRequest={selectedReturn}
+                        onUpdated={handleUpdated}
+                    />
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default Returns;
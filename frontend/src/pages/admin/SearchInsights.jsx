@@ -0,0 +1,151 @@
+/**
+ * Search Insights Page
+ * What customers search for, which searches find nothing and which rarely lead to a product,
+ * plus the synonyms the search applies
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatDate } from '../../utils/helpers';
+import { DataTable } from '../../components/admin';
+import SearchSynonyms from './SearchSynonyms';
+import toast from 'react-hot-toast';
+
+const formatRate = (rate) => `${Math.round(rate * 100)}%`;
+
+const queryColumn = { key: 'query', label: 'Query', render: (query) => <span className="font-medium">{query}</span> };
+const lastSearchedColumn = { key: 'lastSearchedAt', label: 'Last Searched', render: (date) => formatDate(date) };
+
+const topColumns = [
+    queryColumn,
+    { key: 'searches', label: 'Searches', align: 'right' },
+    { key: 'averageResults', label: 'Avg. Results', align: 'right' },
+    { key: 'clickThroughRate', label: 'Click-through', align: 'right', render: formatRate },
+    lastSearchedColumn,
+];
+
+const zeroResultColumns = [
+    queryColumn,
+    { key: 'zeroResultSearches', label: 'Searches With No Results', align: 'right' },
+    { key: 'searches', label: 'All Searches', align: 'right' },
+    lastSearchedColumn,
+];
+
+const lowClickThroughColumns = [
+    queryColumn,
+    { key: 'clickThroughRate', label: 'Click-through', align: 'right', render: formatRate },
+    { key: 'searches', label: 'Searches', align: 'right' },
+    { key: 'averageResults', label: 'Avg. Results', align: 'right' },
+    lastSearchedColumn,
+];
+
+const SearchInsights = () => {
+    const [report, setReport] = useState(null);
+    const [loading, setLoading] = useState(true);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const fetchReport = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = {};
+            if (from) params.from = from;
+            if (to) params.to = to;
+            const response = await adminAPI.getSearchReport(params);
+            setReport(response.data.data);
+        } catch (error) {
+            console.error('Failed to fetch search report:', error);
+            toast.error('Failed to load search report');
+        } finally {
+            setLoading(false);
+        }
+    }, [from, to]);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    const totals = report?.totals;
+    const sections = [
+        { title: 'Top Queries', columns: topColumns, rows: report?.topQueries, empty: 'No searches in this range' },
+        {
+            title: 'Queries With No Results',
+            columns: zeroResultColumns,
+            rows: report?.zeroResultQueries,
+            empty: 'Every search found something',
+        },
+        {
+            title: 'Low Click-through Queries',
+            columns: lowClickThroughColumns,
+            rows: report?.lowClickThroughQueries,
+            empty: 'Not enough searches with results yet',
+        },
+    ];
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-bold">Search</h1>
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                        className="input w-auto"
+                        aria-label="From"
+                    />
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        className="input w-auto"
+                        aria-label="To"
+                    />
+                </div>
+            </div>
+
+            {/* Totals */}
+            {totals && (
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Searches</p>
+                        <p className="text-xl font-bold">{totals.searches}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Unique Queries</p>
+                        <p className="text-xl font-bold">{totals.uniqueQueries}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">No Results</p>
+                        <p className="text-xl font-bold">{totals.zeroResultSearches}</p>
+                    </div>
+                    <div className="card p-4">
+                        <p className="text-sm text-[var(--color-text-muted)]">Click-through</p>
+                        <p className="text-xl font-bold">{formatRate(totals.clickThroughRate)}</p>
+                        <p className="text-xs text-[var(--color-text-muted)]">
+                            Of searches that found products
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {sections.map((section) => (
+                <div key={section.title} className="card mb-6">
+                    <h2 className="font-semibold p-4 border-b border-[var(--color-border)]">{section.title}</h2>
+                    <DataTable
+                        columns={section.columns}
+                        data={section.rows || []}
+                        loading={loading}
+                        rowKey="query"
+                        emptyMessage={section.empty}
+                    />
+                </div>
+            ))}
+
+            {/* Synonyms */}
+            <SearchSynonyms />
+        </div>
+    );
+};
+
+export default SearchInsights;
@@ -0,0 +1,179 @@
+/**
+ * Search Synonyms Panel
+ * Extra words searched alongside a term (e.g. "topi" also finds "hat"), shown on the Search page
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { DataTable, ConfirmDialog } from '../../components/admin';
+import { Edit, Trash2, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EMPTY_FORM = { term: '', synonyms: '' };
+
+const toWords = (text) =>
+    text
+        .split(',')
+        .map((word) => word.trim())
+        .filter(Boolean);
+
+const columns = [
+    { key: 'term', label: 'Term', render: (term) => <span className="font-medium">{term}</span> },
+    { key: 'synonyms', label: 'Also Searches For', render: (synonyms) => synonyms.join(', ') },
+];
+
+const SearchSynonyms = () => {
+    const [synonyms, setSynonyms] = useState([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState(null);
+    const [deleteDialog, setDeleteDialog] = useState({ open: false, synonym: null });
+    const [deleting, setDeleting] = useState(false);
+
+    const fetchSynonyms = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await adminAPI.getSearchSynonyms();
+            setSynonyms(response.data.data.synonyms);
+        } catch (error) {
+            console.error('Failed to fetch synonyms:', error);
+            toast.error('Failed to load synonyms');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchSynonyms();
+    }, [fetchSynonyms]);
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditingId(null);
+    };
+
+    const handleEdit = (synonym) => {
+        setForm({ term: synonym.term, synonyms: synonym.synonyms.join(', ') });
+        setEditingId(synonym._id);
+    };
+
+    const handleSubmit = async (e) => {
+        e.preventDefault();
+        const data = { term: form.term.trim(), synonyms: toWords(form.synonyms) };
+        if (!data.term || data.synonyms.length === 0) {
+            toast.error('Enter a term and at least one synonym');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            if (editingId) {
+                await adminAPI.updateSearchSynonym(editingId, data);
+                toast.success('Synonym updated');
+            } else {
+                await adminAPI.createSearchSynonym(data);
+                toast.success('Synonym added');
+            }
+            resetForm();
+            fetchSynonyms();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to save synonym');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeleteConfirm = async () => {
+        if (!deleteDialog.synonym) return;
+
+        setDeleting(true);
+        try {
+            await adminAPI.deleteSearchSynonym(deleteDialog.synonym._id);
+            toast.success('Synonym deleted');
+            if (editingId === deleteDialog.synonym._id) resetForm();
+            fetchSynonyms();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to delete synonym');
+        } finally {
+            setDeleting(false);
+            setDeleteDialog({ open: false, synonym: null });
+        }
+    };
+
+    const getRowActions = (synonym) => [
+        {
+            label: 'Edit',
+            icon: Edit,
+            onClick: () => handleEdit(synonym),
+        },
+        {
+            label: 'Delete',
+            icon: Trash2,
+            variant: 'danger',
+            onClick: () => setDeleteDialog({ open: true, synonym }),
+        },
+    ];
+
+    return (
+        <div className="card mt-6">
+            <div className="p-4 border-b border-[var(--color-border)]">
+                <h2 className="font-semibold">Synonyms</h2>
+                <p className="text-sm text-[var(--color-text-muted)]">
+                    Searches for a term also look for its synonyms, in storefront results and suggestions
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2 p-4 border-b border-[var(--color-border)]">
+                <input
+                    type="text"
+                    value={form.term}
+                    onChange={(e) => setForm({ ...form, term: e.target.value })}
+                    placeholder="Term, e.g. topi"
+                    aria-label="Term"
+                    className="input sm:w-48"
+                    maxLength={50}
+                />
+                <input
+                    type="text"
+                    value={form.synonyms}
+                    onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+                    placeholder="Synonyms, comma separated, e.g. hat, cap"
+                    aria-label="Synonyms"
+                    className="input flex-1"
+                />
+                <div className="flex gap-2">
+                    {editingId && (
+                        <button type="button" onClick={resetForm} disabled={saving} className="btn btn-secondary">
+                            Cancel
+                        </button>
+                    )}
+                    <button type="submit" disabled={saving} className="btn btn-primary">
+                        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {editingId ? 'Save' : 'Add'}
+                    </button>
+                </div>
+            </form>
+
+            <DataTable
+                columns={columns}
+                data={synonyms}
+                loading={loading}
+                actions={getRowActions}
+                emptyMessage="No synonyms yet"
+            />
+
+            <ConfirmDialog
+                isOpen={deleteDialog.open}
+                onClose={() => setDeleteDialog({ open: false, synonym: null })}
+                onConfirm={handleDeleteConfirm}
+                title="Delete Synonym"
+                message={`Stop searching for ${deleteDialog.synonym?.synonyms.join(', ')} when customers search "${deleteDialog.synonym?.term}"?`}
+                confirmText="Delete"
+                variant="danger"
+                loading={deleting}
+            />
+        </div>
+    );
+};
+
+export default SearchSynonyms;
@@ -0,0 +1,258 @@
+/**
+ * ShipmentPanel Component
+ * Hand an order to a courier, then follow and update its tracking
+ */
+import { useState, useEffect } from 'react';
+import { adminAPI } from '../../api';
+import { formatDateTime } from '../../utils/helpers';
+import { SHIPMENT_STATUS_LABELS } from '../../utils/constants';
+import { StatusBadge } from '../../components/admin';
+import { Truck, Loader2, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const SHIPMENT_STATUS_VARIANTS = {
+    created: 'info',
+    picked_up: 'info',
+    in_transit: 'primary',
+    out_for_delivery: 'primary',
+    delivered: 'success',
+    failed: 'error',
+    returned: 'error',
+};
+
+const ShipmentPanel = ({ order, onUpdated }) => {
+    const [couriers, setCouriers] = useState([]);
+    const [working, setWorking] = useState(false);
+    const [shipForm, setShipForm] = useState({ courier: 'manual', carrier: '', trackingNumber: '', instructions: '' });
+    const [eventForm, setEventForm] = useState({ status: 'in_transit', description: '', location: '' });
+
+    const { shipment } = order;
+    const canShip = order.status === 'processing' && !shipment;
+    const courier = couriers.find((c) => c.id === (shipment?.courier || shipForm.courier));
+    const isOpen = shipment && !['delivered', 'returned'].includes(shipment.status);
+
+    useEffect(() => {
+        adminAPI
+            .getCouriers()
+            .then((res) => setCouriers(res.data.data.couriers))
+            .catch(() => setCouriers([]));
+    }, []);
+
+    // Run one shipment action, then let the parent reload the order
+    const runAction = async (action, successMessage) => {
+        setWorking(true);
+        try {
+            const res = await action();
+            toast.success(res.data.message || successMessage);
+            onUpdated();
+            return true;
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to update shipment');
+            return false;
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleShip = () => {
+        runAction(
+            () =>
+                adminAPI.shipOrder(order._id, {
+                    courier: shipForm.courier,
+                    carrier: shipForm.carrier || undefined,
+                    trackingNumber: shipForm.trackingNumber || undefined,
+                    instructions: shipForm.instructions || undefined,
+                }),
+            'Order shipped'
+        );
+    };
+
+    const handleAddEvent = async () => {
+        if (!eventForm.description.trim()) return;
+
+        const added = await runAction(
+            () =>
+                adminAPI.addTrackingEvent(order._id, {
+                    status: eventForm.status,
+                    description: eventForm.description.trim(),
+                    location: eventForm.location || undefined,
+                }),
+            'Tracking updated'
+        );
+        if (added) setEventForm({ status: eventForm.status, description: '', location: '' });
+    };
+
+    if (!canShip && !shipment) return null;
+
+    return (
+        <div className="card p-4">
+            <div className="flex items-center justify-between gap-2 mb-3">
+                <div className="flex items-center gap-2">
+                    <Truck className="w-5 h-5 text-[var(--color-primary)]" />
+                    <h3 className="font-semibold">Shipment</h3>
+                </div>
+                {shipment && (
+                    <StatusBadge
+                        status={SHIPMENT_STATUS_LABELS[shipment.status]}
+                        variant={SHIPMENT_STATUS_VARIANTS[shipment.status]}
+                    />
+                )}
+            </div>
+
+            {/* Ship form */}
+            {canShip && (
+                <div className="space-y-3">
+                    <select
+                        value={shipForm.courier}
+                        onChange={(e) => setShipForm({ ...shipForm, courier: e.target.value })}
+                        className="select w-full"
+                    >
+                        {couriers.map((c) => (
+                            <option key={c.id} value={c.id}>
+                                {c.name}
+                            </option>
+                        ))}
+                    </select>
+                    {courier && !courier.reportsTracking ? (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <input
+                                type="text"
+                                value={shipForm.carrier}
+                                onChange={(e) => setShipForm({ ...shipForm, carrier: e.target.value })}
+                                placeholder="Carrier (e.g. own rider)"
+                                className="input"
+                                maxLength={100}
+                            />
+                            <input
+                                type="text"
+                                value={shipForm.trackingNumber}
+                                onChange={(e) => setShipForm({ ...shipForm, trackingNumber: e.target.value })}
+                                placeholder={`Tracking number (${order.orderNumber})`}
+                                className="input"
+                                maxLength={100}
+                            />
+                        </div>
+                    ) : (
+                        <input
+                            type="text"
+                            value={shipForm.instructions}
+                            onChange={(e) => setShipForm({ ...shipForm, instructions: e.target.value })}
+                            placeholder="Delivery instructions for the courier (optional)"
+                            className="input w-full"
+                            maxLength={300}
+                        />
+                    )}
+                    <div className="flex justify-end">
+                        <button onClick={handleShip} disabled={working} className="btn btn-primary">
+                            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Ship Order
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Tracking */}
+            {shipment && (
+                <div className="space-y-4 text-sm">
+                    <div className="flex flex-wrap justify-between items-center gap-2">
+                        <p>
+                            {shipment.carrier} ·{' '}
+                            {shipment.trackingUrl ? (
+                                <a
+                                    href={shipment.trackingUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="font-mono text-[var(--color-primary)] hover:underline"
+                                >
+                                    {shipment.trackingNumber}
+                                </a>
+                            ) : (
+                                <span className="font-mono">{shipment.trackingNumber}</span>
+                            )}
+                        </p>
+                        {courier?.reportsTracking && isOpen && (
+                            <button
+                                onClick={() => runAction(() => adminAPI.refreshTracking(order._id), 'Tracking refreshed')}
+                                disabled={working}
+                                className="btn btn-secondary btn-sm flex items-center gap-1"
+                            >
+                                <RefreshCw className={`w-4 h-4 ${working ? 'animate-spin' : ''}`} />
+                                Refresh
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="divide-y divide-[var(--color-border)] border-y border-[var(--color-border)]">
+                        {[...shipment.events].reverse().map((event, index) => (
+                            <div key={event._id || index} className="py-2 flex justify-between gap-4">
+                                <div>
+                                    <p className="font-medium">{SHIPMENT_STATUS_LABELS[event.status]}</p>
+                                    <p className="text-[var(--color-text-muted)]">
+                                        {event.description}
+                                        {event.location && ` · ${event.location}`}
+                                    </p>
+                                </div>
+                                <div className="text-right text-[var(--color-text-muted)]">
+                                    <p>{formatDateTime(event.occurredAt)}</p>
+                                    <p className="text-xs capitalize">{event.source}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {shipment.lastSyncedAt && courier?.reportsTracking && (
+                        <p className="text-xs text-[var(--color-text-muted)]">
+                            Last checked with the courier {formatDateTime(shipment.lastSyncedAt)}
+                        </p>
+                    )}
+
+                    {/* Manual update */}
+                    {isOpen && (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                <select
+                                    value={eventForm.status}
+                                    onChange={(e) => setEventForm({ ...eventForm, status: e.target.value })}
+                                    className="select"
+                                >
+                                    {Object.entries(SHIPMENT_STATUS_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="text"
+                                    value={eventForm.description}
+                                    onChange={(e) => setEventForm({ ...eventForm, description: e.target.value })}
+                                    placeholder="What happened"
+                                    className="input"
+                                    maxLength={300}
+                                />
+                                <input
+                                    type="text"
+                                    value={eventForm.location}
+                                    onChange={(e) => setEventForm({ ...eventForm, location: e.target.value })}
+                                    placeholder="Location (optional)"
+                                    className="input"
+                                    maxLength={100}
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <button
+                                    onClick={handleAddEvent}
+                                    disabled={working || !eventForm.description.trim()}
+                                    className="btn btn-secondary"
+                                >
+                                    Add Update
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ShipmentPanel;
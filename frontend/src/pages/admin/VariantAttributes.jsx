@@ -0,0 +1,226 @@
+/**
+ * Variant Attributes Panel
+ * Options variants are told apart by (e.g. Material, Capacity), shown on the Categories page
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { DataTable, ConfirmDialog } from '../../components/admin';
+import { Edit, Trash2, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EMPTY_FORM = { name: '', type: 'select', values: '', unit: '' };
+
+const TYPE_LABELS = { select: 'List of values', text: 'Free text', number: 'Number' };
+
+const toValues = (text) =>
+    text
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+const columns = [
+    { key: 'name', label: 'Attribute', render: (name) => <span className="font-medium">{name}</span> },
+    { key: 'type', label: 'Type', render: (type) => TYPE_LABELS[type] },
+    {
+        key: 'values',
+        label: 'Values',
+        render: (values, attribute) =>
+            attribute.type === 'select' ? values.join(', ') : attribute.unit || '-',
+    },
+];
+
+const VariantAttributes = () => {
+    const [attributes, setAttributes] = useState([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState(null);
+    const [deleteDialog, setDeleteDialog] = useState({ open: false, attribute: null });
+    const [deleting, setDeleting] = useState(false);
+
+    const fetchAttributes = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await adminAPI.getAttributes();
+            setAttributes(response.data.data.attributes);
+        } catch (error) {
+            console.error('Failed to fetch attributes:', error);
+            toast.error('Failed to load attributes');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchAttributes();
+    }, [fetchAttributes]);
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditingId(null);
+    };
+
+    const handleEdit = (attribute) => {
+        setForm({
+            name: attribute.name,
+            type: attribute.type,
+            values: attribute.values.join(', '),
+            unit: attribute.unit || '',
+        });
+        setEditingId(attribute._id);
+    };
+
+    const handleSubmit = async (e) => {
+        e.preventDefault();
+        const data = {
+            name: form.name.trim(),
+            type: form.type,
+            values: form.type === 'select' ? toValues(form.values) : [],
+            unit: form.type === 'number' ? form.unit.trim() : '',
+        };
+        if (!data.name) {
+            toast.error('Enter an attribute name');
+            return;
+        }
+        if (data.type === 'select' && data.values.length === 0) {
+            toast.error('Enter at least one value');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            if (editingId) {
+                await adminAPI.updateAttribute(editingId, data);
+                toast.success('Attribute updated');
+            } else {
+                await adminAPI.createAttribute(data);
+                toast.success('Attribute added');
+            }
+            resetForm();
+            fetchAttributes();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to save attribute');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeleteConfirm = async () => {
+        if (!deleteDialog.attribute) return;
+
+        setDeleting(true);
+        try {
+            await adminAPI.deleteAttribute(deleteDialog.attribute._id);
+            toast.success('Attribute deleted');
+            if (editingId === deleteDialog.attribute._id) resetForm();
+            fetchAttributes();
+        } catch (error) {
+            toast.error(error.response?.data?.message || 'Failed to delete attribute');
+        } finally {
+            setDeleting(false);
+            setDeleteDialog({ open: false, attribute: null });
+        }
+    };
+
+    const getRowActions = (attribute) => [
+        {
+            label: 'Edit',
+            icon: Edit,
+            onClick: () => handleEdit(attribute),
+        },
+        {
+            label: 'Delete',
+            icon: Trash2,
+            variant: 'danger',
+            onClick: () => setDeleteDialog({ open: true, attribute }),
+        },
+    ];
+
+    return (
+        <div className="card mt-6">
+            <div className="p-4 border-b border-[var(--color-border)]">
+                <h2 className="font-semibold">Variant Attributes</h2>
+                <p className="text-sm text-[var(--color-text-muted)]">
+                    Assign attributes to a category and every variant of its products picks a value for each
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2 p-4 border-b border-[var(--color-border)]">
+                <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Name, e.g. Material"
+                    aria-label="Name"
+                    className="input sm:w-48"
+                    maxLength={50}
+                />
+                <select
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value })}
+                    aria-label="Type"
+                    className="select sm:w-40"
+                >
+                    {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                        <option key={type} value={type}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                {form.type === 'select' && (
+                    <input
+                        type="text"
+                        value={form.values}
+                        onChange={(e) => setForm({ ...form, values: e.target.value })}
+                        placeholder="Values, comma separated, e.g. Felt, Wool"
+                        aria-label="Values"
+                        className="input flex-1"
+                    />
+                )}
+                {form.type === 'number' && (
+                    <input
+                        type="text"
+                        value={form.unit}
+                        onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                        placeholder="Unit, e.g. ml"
+                        aria-label="Unit"
+                        className="input sm:w-32"
+                        maxLength={20}
+                    />
+                )}
+                <div className="flex gap-2 sm:ml-auto">
+                    {editingId && (
+                        <button type="button" onClick={resetForm} disabled={saving} className="btn btn-secondary">
+                            Cancel
+                        </button>
+                    )}
+                    <button type="submit" disabled={saving} className="btn btn-primary">
+                        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {editingId ? 'Save' : 'Add'}
+                    </button>
+                </div>
+            </form>
+
+            <DataTable
+                columns={columns}
+                data={attributes}
+                loading={loading}
+                actions={getRowActions}
+                emptyMessage="No attributes yet"
+            />
+
+            <ConfirmDialog
+                isOpen={deleteDialog.open}
+                onClose={() => setDeleteDialog({ open: false, attribute: null })}
+                onConfirm={handleDeleteConfirm}
+                title="Delete Attribute"
+                message={`Delete the "${deleteDialog.attribute?.name}" attribute?`}
+                confirmText="Delete"
+                variant="danger"
+                loading={deleting}
+            />
+        </div>
+    );
+};
+
+export default VariantAttributes;
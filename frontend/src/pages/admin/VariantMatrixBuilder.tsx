@@ -0,0 +1,210 @@
+/**
+ * VariantMatrixBuilder Component
+ * Picks values for each variant option and generates every combination
+ */
+import { useState, FormEvent } from "react";
+import { X } from "lucide-react";
+import { combinations } from "../../utils/helpers";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface MatrixDimension {
+  name: string;
+  // Values to pick from; without them values are typed, comma separated
+  values?: readonly string[];
+}
+
+export interface MatrixResult {
+  // One entry per combination, values keyed by dimension name
+  combinations: Record<string, string>[];
+  skuPrefix: string;
+  price: number;
+  stock: number;
+}
+
+interface VariantMatrixBuilderProps {
+  dimensions: MatrixDimension[];
+  defaultSkuPrefix: string;
+  defaultPrice: number;
+  onGenerate: (result: MatrixResult) => void;
+  onClose: () => void;
+}
+
+const toValues = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  ),
+];
+
+// ============================================
+// Component
+// ============================================
+
+const VariantMatrixBuilder: React.FC<VariantMatrixBuilderProps> = ({
+  dimensions,
+  defaultSkuPrefix,
+  defaultPrice,
+  onGenerate,
+  onClose,
+}) => {
+  // Picked values, or the typed text for dimensions without a list
+  const [picked, setPicked] = useState<Record<string, string[]>>({});
+  const [typed, setTyped] = useState<Record<string, string>>({});
+  const [skuPrefix, setSkuPrefix] = useState(defaultSkuPrefix);
+  const [price, setPrice] = useState(String(defaultPrice || ""));
+  const [stock, setStock] = useState("0");
+
+  const valuesFor = (dimension: MatrixDimension): string[] =>
+    dimension.values
+      ? (picked[dimension.name] || []).filter((v) =>
+          dimension.values!.includes(v),
+        )
+      : toValues(typed[dimension.name] || "");
+
+  const lists = dimensions.map(valuesFor);
+  const count = lists.reduce((total, values) => total * values.length, 1);
+
+  const togglePicked = (name: string, value: string): void => {
+    setPicked((prev) => {
+      const current = prev[name] || [];
+      return {
+        ...prev,
+        [name]: current.includes(value)
+          ? current.filter((v) => v !== value)
+          : [...current, value],
+      };
+    });
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    if (count === 0) return;
+
+    onGenerate({
+      combinations: combinations(lists).map((values) =>
+        Object.fromEntries(
+          dimensions.map((dimension, i) => [dimension.name, values[i]]),
+        ),
+      ),
+      skuPrefix: skuPrefix.trim(),
+      price: parseFloat(price) || 0,
+      stock: parseInt(stock) || 0,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 p-4 border border-[var(--color-border)] rounded-lg bg-gray-50"
+    >
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium">Generate Variants</h4>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {dimensions.map((dimension) => (
+        <div key={dimension.name}>
+          <label className="block text-sm font-medium mb-1">
+            {dimension.name}
+          </label>
+          {dimension.values ? (
+            <div className="flex flex-wrap gap-2">
+              {dimension.values.map((value) => {
+                const active = (picked[dimension.name] || []).includes(value);
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => togglePicked(dimension.name, value)}
+                    className={`px-3 py-1 text-sm rounded-full border ${
+                      active
+                        ? "bg-[var(--color-primary)] border-[var(--color-primary)] text-white"
+                        : "bg-white border-[var(--color-border)]"
+                    }`}
+                  >
+                    {value}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <input
+              type="text"
+              value={typed[dimension.name] || ""}
+              onChange={(e) =>
+                setTyped((prev) => ({
+                  ...prev,
+                  [dimension.name]: e.target.value,
+                }))
+              }
+              className="input w-full text-sm"
+              placeholder={`${dimension.name} values, comma separated`}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">SKU Prefix</label>
+          <input
+            type="text"
+            value={skuPrefix}
+            onChange={(e) => setSkuPrefix(e.target.value)}
+            className="input w-full text-sm"
+            placeholder="e.g. HJ"
+            maxLength={20}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Price</label>
+          <input
+            type="number"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="input w-full text-sm"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Stock</label>
+          <input
+            type="number"
+            value={stock}
+            onChange={(e) => setStock(e.target.value)}
+            className="input w-full text-sm"
+            min="0"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          {count} combination{count === 1 ? "" : "s"}; ones already listed are
+          skipped
+        </p>
+        <button
+          type="submit"
+          disabled={count === 0}
+          className="btn btn-primary"
+        >
+          Generate
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default VariantMatrixBuilder;
@@ -0,0 +1,130 @@
+/**
+ * VAT Register Panel
+ * Sales register for one Nepali fiscal year, shown on the Finance page
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { adminAPI } from '../../api';
+import { formatPrice, formatDate } from '../../utils/helpers';
+import { DataTable } from '../../components/admin';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Fiscal years start on 1 Shrawan (about 16 July); BS years run 56-57 ahead of AD
+const fiscalYearOptions = (count = 5) => {
+    const today = new Date();
+    const started = today.getMonth() > 6 || (today.getMonth() === 6 && today.getDate() >= 16);
+    const current = today.getFullYear() + (started ? 57 : 56);
+    return Array.from({ length: count }, (_, index) => {
+        const year = current - index;
+        return `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+    });
+};
+
+const columns = [
+    { key: 'date', label: 'Date', render: (date) => formatDate(date) },
+    { key: 'invoiceNumber', label: 'Invoice No', render: (number) => number || '—' },
+    { key: 'orderNumber', label: 'Order No' },
+    { key: 'buyer', label: 'Buyer' },
+    { key: 'totalSales', label: 'Total Sales', align: 'right', render: (amount) => formatPrice(amount) },
+    { key: 'exemptSales', label: 'Exempt', align: 'right', render: (amount) => formatPrice(amount) },
+    { key: 'zeroRatedSales', label: 'Zero-rated', align: 'right', render: (amount) => formatPrice(amount) },
+    { key: 'taxableAmount', label: 'Taxable', align: 'right', render: (amount) => formatPrice(amount) },
+    {
+        key: 'vat',
+        label: 'VAT',
+        align: 'right',
+        render: (amount) => <span className="font-medium">{formatPrice(amount)}</span>,
+    },
+];
+
+const VatRegister = () => {
+    const years = fiscalYearOptions();
+    const [fiscalYear, setFiscalYear] = useState(years[0]);
+    const [register, setRegister] = useState(null);
+    const [loading, setLoading] = useState(true);
+    const [exporting, setExporting] = useState(false);
+
+    const fetchRegister = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await adminAPI.getVatRegister(fiscalYear);
+            setRegister(response.data.data);
+        } catch (error) {
+            console.error('Failed to fetch VAT register:', error);
+            toast.error('Failed to load VAT register');
+        } finally {
+            setLoading(false);
+        }
+    }, [fiscalYear]);
+
+    useEffect(() => {
+        fetchRegister();
+    }, [fetchRegister]);
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const response = await adminAPI.exportVatRegister(fiscalYear);
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `vat-register-${fiscalYear.replace('/', '-')}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Failed to export VAT register:', error);
+            toast.error('Failed to export VAT register');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const totals = register?.totals;
+
+    return (
+        <div className="card mt-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 p-4 border-b border-[var(--color-border)]">
+                <div>
+                    <h2 className="font-semibold">VAT Sales Register</h2>
+                    {totals && (
+                        <p className="text-sm text-[var(--color-text-muted)]">
+                            {formatPrice(totals.taxableAmount)} taxable, {formatPrice(totals.vat)} VAT,{' '}
+                            {formatPrice(totals.exemptSales + totals.zeroRatedSales)} exempt or zero-rated
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={fiscalYear}
+                        onChange={(e) => setFiscalYear(e.target.value)}
+                        className="select w-auto"
+                        aria-label="Fiscal year"
+                    >
+                        {years.map((year) => (
+                            <option key={year} value={year}>
+                                FY {year}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="btn btn-secondary flex items-center gap-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        {exporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </div>
+            <DataTable
+                columns={columns}
+                data={register?.rows || []}
+                loading={loading}
+                rowKey="orderNumber"
+                emptyMessage="No sales in this fiscal year"
+            />
+        </div>
+    );
+};
+
+export default VatRegister;
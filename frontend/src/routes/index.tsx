@@ -25,6 +25,7 @@ import Register from "../pages/Register";
 import ForgotPassword from "../pages/ForgotPassword";
 import Cart from "../pages/Cart";
 import Checkout from "../pages/Checkout";
+import CardPayment from "../pages/CardPayment";
 import OrderSuccess from "../pages/OrderSuccess";
 import OrderFailed from "../pages/OrderFailed";
 import Profile from "../pages/Profile";
@@ -42,6 +43,11 @@ import AdminProducts from "../pages/admin/Products";
 import AdminCategories from "../pages/admin/Categories";
 import AdminOrders from "../pages/admin/OrdersAdvanced";
 import AdminUsers from "../pages/admin/Users";
+import AdminPayments from "../pages/admin/Payments";
+import AdminCodSettlement from "../pages/admin/CodSettlement";
+import AdminFinance from "../pages/admin/Finance";
+import AdminSearchInsights from "../pages/admin/SearchInsights";
+import AdminReturns from "../pages/admin/Returns";
 
 const router = createBrowserRouter([
   {
@@ -80,6 +86,14 @@ const router = createBrowserRouter([
           </ProtectedRoute>
         ),
       },
+      {
+        path: "checkout/card",
+        element: (
+          <ProtectedRoute>
+            <CardPayment />
+          </ProtectedRoute>
+        ),
+      },
       {
         path: "profile",
         element: (
@@ -144,6 +158,11 @@ const router = createBrowserRouter([
       { path: "categories", element: <AdminCategories /> },
       { path: "orders", element: <AdminOrders /> },
       { path: "users", element: <AdminUsers /> },
+      { path: "payments", element: <AdminPayments /> },
+      { path: "cod-settlement", element: <AdminCodSettlement /> },
+      { path: "finance", element: <AdminFinance /> },
+      { path: "search", element: <AdminSearchInsights /> },
+      { path: "returns", element: <AdminReturns /> },
     ],
   },
 ]);
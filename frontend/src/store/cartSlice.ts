@@ -4,7 +4,7 @@
  */
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { cartAPI } from "../api";
-import type { ICart, ICartItem } from "../types";
+import type { ICart, ICartItem, ICartCoupon } from "../types";
 import type { RootState } from "./index";
 
 // Types
@@ -12,6 +12,11 @@ interface CartState {
   items: ICartItem[];
   subtotal: number;
   itemCount: number;
+  coupon: ICartCoupon | null;
+  couponError: string | null;
+  discount: number;
+  tax: number;
+  pricesIncludeTax: boolean;
   loading: boolean;
   error: string | null;
 }
@@ -121,14 +126,63 @@ export const clearCart = createAsyncThunk<ICart, void, { rejectValue: string }>(
   },
 );
 
+export const applyCoupon = createAsyncThunk<
+  ICart,
+  string,
+  { rejectValue: string }
+>("cart/applyCoupon", async (code, { rejectWithValue }) => {
+  try {
+    const response = await cartAPI.applyCoupon(code);
+    return response.data.cart;
+  } catch (error: unknown) {
+    const err = error as { response?: { data?: { message?: string } } };
+    return rejectWithValue(
+      err.response?.data?.message || "Failed to apply coupon",
+    );
+  }
+});
+
+export const removeCoupon = createAsyncThunk<
+  ICart,
+  void,
+  { rejectValue: string }
+>("cart/removeCoupon", async (_, { rejectWithValue }) => {
+  try {
+    const response = await cartAPI.removeCoupon();
+    return response.data.cart;
+  } catch (error: unknown) {
+    const err = error as { response?: { data?: { message?: string } } };
+    return rejectWithValue(
+      err.response?.data?.message || "Failed to remove coupon",
+    );
+  }
+});
+
 const initialState: CartState = {
   items: [],
   subtotal: 0,
   itemCount: 0,
+  coupon: null,
+  couponError: null,
+  discount: 0,
+  tax: 0,
+  pricesIncludeTax: true,
   loading: false,
   error: null,
 };
 
+// Copy totals (and coupon preview) from a cart API response into state
+const setCartFromPayload = (state: CartState, cart: ICart) => {
+  state.items = cart.items || [];
+  state.subtotal = cart.subtotal || 0;
+  state.itemCount = cart.itemCount || 0;
+  state.coupon = cart.coupon || null;
+  state.couponError = cart.couponError || null;
+  state.discount = cart.discount || 0;
+  state.tax = cart.tax || 0;
+  state.pricesIncludeTax = cart.pricesIncludeTax !== false;
+};
+
 const cartSlice = createSlice({
   name: "cart",
   initialState,
@@ -147,9 +201,7 @@ const cartSlice = createSlice({
       })
       .addCase(fetchCart.fulfilled, (state, action: PayloadAction<ICart>) => {
         state.loading = false;
-        state.items = action.payload.items || [];
-        state.subtotal = action.payload.subtotal || 0;
-        state.itemCount = action.payload.itemCount || 0;
+        setCartFromPayload(state, action.payload);
       })
       .addCase(fetchCart.rejected, (state, action) => {
         state.loading = false;
@@ -162,9 +214,7 @@ const cartSlice = createSlice({
       })
       .addCase(addToCart.fulfilled, (state, action: PayloadAction<ICart>) => {
         state.loading = false;
-        state.items = action.payload.items || [];
-        state.subtotal = action.payload.subtotal || 0;
-        state.itemCount = action.payload.itemCount || 0;
+        setCartFromPayload(state, action.payload);
       })
       .addCase(addToCart.rejected, (state, action) => {
         state.loading = false;
@@ -174,18 +224,24 @@ const cartSlice = createSlice({
       .addCase(
         updateCartItem.fulfilled,
         (state, action: PayloadAction<ICart>) => {
-          state.items = action.payload.items || [];
-          state.subtotal = action.payload.subtotal || 0;
-          state.itemCount = action.payload.itemCount || 0;
+          setCartFromPayload(state, action.payload);
         },
       )
       // Remove from cart
       .addCase(
         removeFromCart.fulfilled,
         (state, action: PayloadAction<ICart>) => {
-          state.items = action.payload.items || [];
-          state.subtotal = action.payload.subtotal || 0;
-          state.itemCount = action.payload.itemCount || 0;
+          setCartFromPayload(state, action.payload);
+        },
+      )
+      // Coupon
+      .addCase(applyCoupon.fulfilled, (state, action: PayloadAction<ICart>) => {
+        setCartFromPayload(state, action.payload);
+      })
+      .addCase(
+        removeCoupon.fulfilled,
+        (state, action: PayloadAction<ICart>) => {
+          setCartFromPayload(state, action.payload);
         },
       )
       // Clear cart
@@ -201,5 +257,6 @@ export const selectCartItems = (state: RootState) => state.cart.items;
 export const selectCartTotal = (state: RootState) => state.cart.subtotal;
 export const selectCartCount = (state: RootState) => state.cart.itemCount;
 export const selectCartLoading = (state: RootState) => state.cart.loading;
+export const selectCartDiscount = (state: RootState) => state.cart.discount;
 
 export default cartSlice.reducer;
@@ -15,3 +15,35 @@ export const PRODUCT_SIZES = [
 ] as const;
 
 export type ProductSize = (typeof PRODUCT_SIZES)[number];
+
+// Return request reasons, in the order they are offered to customers
+export const RETURN_REASONS = [
+  { value: "wrong_size", label: "Wrong size" },
+  { value: "damaged", label: "Arrived damaged" },
+  { value: "defective", label: "Defective" },
+  { value: "wrong_item", label: "Wrong item sent" },
+  { value: "not_as_described", label: "Not as described" },
+  { value: "changed_mind", label: "Changed my mind" },
+  { value: "other", label: "Other" },
+] as const;
+
+export const RETURN_STATUS_LABELS: Record<string, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  pickup_scheduled: "Pickup scheduled",
+  received: "Received",
+  inspected: "Inspected",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const SHIPMENT_STATUS_LABELS: Record<string, string> = {
+  created: "Handed to courier",
+  picked_up: "Picked up",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  failed: "Delivery attempt failed",
+  returned: "Returned to sender",
+};
@@ -75,6 +75,7 @@ export const getPaymentStatusColor = (status: PaymentStatus): string => {
     pending: "badge-warning",
     paid: "badge-success",
     failed: "badge-error",
+    partially_refunded: "badge-info",
     refunded: "badge-info",
   };
   return colors[status] || "badge-secondary";
@@ -105,6 +106,27 @@ export const debounce = <T extends (...args: unknown[]) => unknown>(
   };
 };
 
+/**
+ * Short SKU part for a name or option value, e.g. "Red" -> "RED",
+ * "Medium Size (1-4 yrs)" -> "MS14Y", "500" -> "500"
+ */
+export const skuCode = (value: string): string => {
+  const words = value.toUpperCase().match(/[A-Z0-9]+/g) || [];
+  if (words.length === 1) {
+    return /^\d+$/.test(words[0]) ? words[0] : words[0].slice(0, 3);
+  }
+  return words.map((word) => (/^\d+$/.test(word) ? word : word[0])).join("");
+};
+
+/**
+ * Every combination taking one value from each list, in list order
+ */
+export const combinations = (lists: string[][]): string[][] =>
+  lists.reduce<string[][]>(
+    (rows, values) => rows.flatMap((row) => values.map((v) => [...row, v])),
+    [[]],
+  );
+
 /**
  * Nepal provinces
  */
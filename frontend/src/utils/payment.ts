@@ -0,0 +1,27 @@
+/**
+ * Payment Utilities
+ * Hand-off helpers shared by checkout and payment retries
+ */
+
+/**
+ * Send the customer to eSewa, which only accepts a browser form POST
+ */
+export const submitEsewaForm = (
+  url: string,
+  formData: Record<string, string | number>,
+): void => {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = url;
+
+  Object.keys(formData).forEach((key) => {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = key;
+    input.value = String(formData[key]);
+    form.appendChild(input);
+  });
+
+  document.body.appendChild(form);
+  form.submit();
+};
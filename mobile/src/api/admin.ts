@@ -5,11 +5,19 @@
 import api from "./axios";
 import type {
   IProduct,
+  IProductVariant,
   ICategory,
   IOrder,
   IUser,
   IDashboardStats,
   OrderStatus,
+  IRefund,
+  IRefundLedger,
+  IReturnRequest,
+  ReturnStatus,
+  ICourier,
+  ShipmentStatus,
+  IAttribute,
 } from "@shared/types";
 
 // Types
@@ -34,6 +42,11 @@ interface UserQueryParams extends PaginationParams {
   search?: string;
 }
 
+interface ReturnQueryParams extends PaginationParams {
+  status?: ReturnStatus;
+  order?: string;
+}
+
 interface PaginatedResponse<T> {
   data: T;
   pagination: {
@@ -202,6 +215,17 @@ export const uploadCategoryImage = async (
   return response.data.data.category;
 };
 
+// Rows with an _id change that variant, the others are added
+export const patchProductVariants = async (
+  productId: string,
+  variants: Partial<IProductVariant>[],
+): Promise<IProduct> => {
+  const response = await api.patch(`/admin/products/${productId}/variants`, {
+    variants,
+  });
+  return response.data.data.product;
+};
+
 /**
  * Categories APIs
  */
@@ -229,6 +253,14 @@ export const deleteCategory = async (id: string): Promise<void> => {
   await api.delete(`/admin/categories/${id}`);
 };
 
+// Attributes the category's variants carry, including its parents'
+export const getCategoryAttributes = async (
+  id: string,
+): Promise<IAttribute[]> => {
+  const response = await api.get(`/admin/categories/${id}/attributes`);
+  return response.data.data.attributes;
+};
+
 /**
  * Orders APIs
  */
@@ -262,14 +294,144 @@ export const updateOrderStatus = async (
 
 export const markCODCollected = async (
   orderId: string,
+  data: { collectedBy: string; amount?: number },
 ): Promise<{ success: boolean; message: string }> => {
-  const response = await api.post("/admin/payments/cod-collected", { orderId });
+  const response = await api.post("/admin/payments/cod-collected", {
+    orderId,
+    ...data,
+  });
   return {
     success: response.data.data?.success ?? true,
     message: response.data.message || "Payment marked as collected",
   };
 };
 
+export const getOrderRefunds = async (id: string): Promise<IRefundLedger> => {
+  const response = await api.get(`/admin/orders/${id}/refunds`);
+  return response.data.data;
+};
+
+export const refundOrder = async (
+  id: string,
+  data: { amount?: number; reason?: string } = {},
+): Promise<IRefundLedger & { refund: IRefund; message: string }> => {
+  const response = await api.post(`/admin/orders/${id}/refunds`, data);
+  return { ...response.data.data, message: response.data.message };
+};
+
+export const completeRefund = async (
+  id: string,
+  refundId: string,
+  reference?: string,
+): Promise<IRefundLedger & { refund: IRefund }> => {
+  const response = await api.patch(
+    `/admin/orders/${id}/refunds/${refundId}/complete`,
+    { reference },
+  );
+  return response.data.data;
+};
+
+/**
+ * Shipment APIs
+ */
+export const getCouriers = async (): Promise<ICourier[]> => {
+  const response = await api.get("/admin/couriers");
+  return response.data.data.couriers;
+};
+
+export const shipOrder = async (
+  id: string,
+  data: {
+    courier: string;
+    carrier?: string;
+    trackingNumber?: string;
+    instructions?: string;
+  },
+): Promise<IOrder> => {
+  const response = await api.post(`/admin/orders/${id}/shipment`, data);
+  return response.data.data.order;
+};
+
+export const addTrackingEvent = async (
+  id: string,
+  data: { status: ShipmentStatus; description: string; location?: string },
+): Promise<IOrder> => {
+  const response = await api.post(`/admin/orders/${id}/shipment/events`, data);
+  return response.data.data.order;
+};
+
+export const refreshTracking = async (id: string): Promise<IOrder> => {
+  const response = await api.post(`/admin/orders/${id}/shipment/refresh`);
+  return response.data.data.order;
+};
+
+/**
+ * Returns APIs
+ */
+export const getReturns = async (
+  params: ReturnQueryParams = {},
+): Promise<PaginatedResponse<{ returns: IReturnRequest[] }>> => {
+  const queryString = buildQueryString(params);
+  const response = await api.get(`/admin/returns?${queryString}`);
+  return {
+    data: { returns: response.data.data.returns },
+    pagination: response.data.pagination,
+  };
+};
+
+export const approveReturn = async (
+  id: string,
+  note?: string,
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/approve`, { note });
+  return response.data.data.returnRequest;
+};
+
+export const rejectReturn = async (
+  id: string,
+  reason: string,
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/reject`, { reason });
+  return response.data.data.returnRequest;
+};
+
+export const scheduleReturnPickup = async (
+  id: string,
+  data: { scheduledFor?: string; courier?: string; trackingNumber?: string },
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/pickup`, data);
+  return response.data.data.returnRequest;
+};
+
+export const receiveReturn = async (
+  id: string,
+  note?: string,
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/receive`, { note });
+  return response.data.data.returnRequest;
+};
+
+export const inspectReturn = async (
+  id: string,
+  data: {
+    items: { itemId: string; acceptedQuantity: number; restock?: boolean }[];
+    note?: string;
+  },
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/inspect`, data);
+  return response.data.data.returnRequest;
+};
+
+export const completeReturn = async (
+  id: string,
+  resolution?: "refund" | "replacement",
+): Promise<IReturnRequest> => {
+  const response = await api.patch(`/admin/returns/${id}/complete`, {
+    resolution,
+  });
+  return response.data.data.returnRequest;
+};
+
 /**
  * Users APIs
  */
@@ -312,17 +474,35 @@ export const adminAPI = {
   deleteProduct,
   uploadProductImages,
   uploadVariantImage,
+  patchProductVariants,
   // Categories
   getCategories,
   createCategory,
   updateCategory,
   deleteCategory,
   uploadCategoryImage,
+  getCategoryAttributes,
   // Orders
   getOrders,
   getOrderById,
   updateOrderStatus,
   markCODCollected,
+  getOrderRefunds,
+  refundOrder,
+  completeRefund,
+  // Shipments
+  getCouriers,
+  shipOrder,
+  addTrackingEvent,
+  refreshTracking,
+  // Returns
+  getReturns,
+  approveReturn,
+  rejectReturn,
+  scheduleReturnPickup,
+  receiveReturn,
+  inspectReturn,
+  completeReturn,
   // Users
   getUsers,
   updateUserStatus,
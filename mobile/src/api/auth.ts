@@ -2,6 +2,8 @@ import api from "./axios";
 import type {
   IApiResponse,
   IUser,
+  IAddress,
+  IAddressInput,
   IRegisterData,
   IAuthResponse,
 } from "@shared/types";
@@ -49,6 +51,40 @@ export const authAPI = {
     });
     return response.data;
   },
+
+  getAddresses: async (): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.get("/auth/me/addresses");
+    return response.data;
+  },
+
+  addAddress: async (
+    address: IAddressInput,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.post("/auth/me/addresses", address);
+    return response.data;
+  },
+
+  updateAddress: async (
+    addressId: string,
+    address: Partial<IAddressInput>,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.put(`/auth/me/addresses/${addressId}`, address);
+    return response.data;
+  },
+
+  deleteAddress: async (
+    addressId: string,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.delete(`/auth/me/addresses/${addressId}`);
+    return response.data;
+  },
+
+  setDefaultAddress: async (
+    addressId: string,
+  ): Promise<IApiResponse<{ addresses: IAddress[] }>> => {
+    const response = await api.patch(`/auth/me/addresses/${addressId}/default`);
+    return response.data;
+  },
 };
 
 export default authAPI;
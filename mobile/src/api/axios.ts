@@ -36,6 +36,8 @@ const api = axios.create({
   baseURL: BASE_URL,
   headers: {
     "Content-Type": "application/json",
+    // Tags logged searches with where they came from
+    "X-Client-Platform": Platform.OS,
   },
   timeout: 10000,
 });
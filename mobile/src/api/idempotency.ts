@@ -0,0 +1,42 @@
+/**
+ * Idempotency Keys
+ * Gives retried checkout calls the same Idempotency-Key so the server
+ * replays the first result instead of creating duplicates
+ */
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// Keys for requests that have not had an answer from the server yet
+const pendingKeys = new Map<string, string>();
+
+const newKey = (): string =>
+  typeof globalThis.crypto?.randomUUID === "function"
+    ? globalThis.crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/**
+ * Run a request with an Idempotency-Key tied to its payload
+ * A retry of the same payload reuses the key until the server answers
+ */
+export const withIdempotencyKey = async <T>(
+  scope: string,
+  payload: unknown,
+  send: (key: string) => Promise<T>,
+): Promise<T> => {
+  const fingerprint = `${scope}:${JSON.stringify(payload)}`;
+  const key = pendingKeys.get(fingerprint) || newKey();
+  pendingKeys.set(fingerprint, key);
+
+  try {
+    const result = await send(key);
+    pendingKeys.delete(fingerprint);
+    return result;
+  } catch (error) {
+    // Without a response the request may still have gone through,
+    // so keep the key and let a retry replay it
+    if ((error as { response?: unknown }).response) {
+      pendingKeys.delete(fingerprint);
+    }
+    throw error;
+  }
+};
@@ -1,10 +1,12 @@
 import api from "./axios";
+import { withIdempotencyKey, IDEMPOTENCY_HEADER } from "./idempotency";
 import type {
   IApiResponse,
   IOrder,
   ICreateOrderData,
   IPaymentMethod,
   IPaymentInitiateResponse,
+  IPaymentStatus,
   PaymentMethod,
 } from "@shared/types";
 
@@ -18,7 +20,11 @@ export const ordersAPI = {
   createOrder: async (
     orderData: ICreateOrderData,
   ): Promise<IApiResponse<{ order: IOrder }>> => {
-    const response = await api.post("/orders", orderData);
+    const response = await withIdempotencyKey("orders", orderData, (key) =>
+      api.post("/orders", orderData, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
     return response.data;
   },
 
@@ -67,7 +73,28 @@ export const paymentsAPI = {
     orderId: string,
     gateway: PaymentMethod,
   ): Promise<IPaymentInitiateResponse> => {
-    const response = await api.post("/payments/initiate", { orderId, gateway });
+    const payload = { orderId, gateway };
+    const response = await withIdempotencyKey("payments", payload, (key) =>
+      api.post("/payments/initiate", payload, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
+    return response.data;
+  },
+
+  retryPayment: async (
+    orderId: string,
+    gateway: PaymentMethod,
+  ): Promise<IPaymentInitiateResponse> => {
+    const payload = { orderId, gateway };
+    const response = await withIdempotencyKey(
+      "payments-retry",
+      payload,
+      (key) =>
+        api.post("/payments/retry", payload, {
+          headers: { [IDEMPOTENCY_HEADER]: key },
+        }),
+    );
     return response.data;
   },
 
@@ -83,6 +110,13 @@ export const paymentsAPI = {
     });
     return response.data;
   },
+
+  getPaymentStatus: async (
+    orderId: string,
+  ): Promise<IApiResponse<IPaymentStatus>> => {
+    const response = await api.get(`/payments/status/${orderId}`);
+    return response.data;
+  },
 };
 
 export default { ordersAPI, paymentsAPI };
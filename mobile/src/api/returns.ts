@@ -0,0 +1,75 @@
+import api from "./axios";
+import { withIdempotencyKey, IDEMPOTENCY_HEADER } from "./idempotency";
+import type {
+  IApiResponse,
+  IReturnRequest,
+  IReturnEligibility,
+  ICreateReturnData,
+} from "@shared/types";
+
+export const returnsAPI = {
+  getEligibility: async (
+    orderId: string,
+  ): Promise<IApiResponse<IReturnEligibility>> => {
+    const response = await api.get(`/returns/eligibility/${orderId}`);
+    return response.data;
+  },
+
+  /**
+   * Upload photos of the items before creating the request
+   * @param imageUris - Local image URIs from the image picker
+   */
+  uploadPhotos: async (
+    imageUris: string[],
+  ): Promise<
+    IApiResponse<{ photos: { url: string; publicId?: string }[] }>
+  > => {
+    const formData = new FormData();
+
+    imageUris.forEach((uri, index) => {
+      const filename = uri.split("/").pop() || `return_${index}.jpg`;
+      const match = /\.(\w+)$/.exec(filename);
+      const type = match ? `image/${match[1]}` : "image/jpeg";
+
+      formData.append("photos", {
+        uri,
+        name: filename,
+        type,
+      } as any);
+    });
+
+    const response = await api.post("/returns/photos", formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+    });
+    return response.data;
+  },
+
+  createReturn: async (
+    data: ICreateReturnData,
+  ): Promise<IApiResponse<{ returnRequest: IReturnRequest }>> => {
+    const response = await withIdempotencyKey("returns", data, (key) =>
+      api.post("/returns", data, {
+        headers: { [IDEMPOTENCY_HEADER]: key },
+      }),
+    );
+    return response.data;
+  },
+
+  getMyReturns: async (
+    params: { order?: string; page?: number; limit?: number } = {},
+  ): Promise<IApiResponse<{ returns: IReturnRequest[] }>> => {
+    const response = await api.get("/returns", { params });
+    return response.data;
+  },
+
+  cancelReturn: async (
+    returnId: string,
+  ): Promise<IApiResponse<{ returnRequest: IReturnRequest }>> => {
+    const response = await api.post(`/returns/${returnId}/cancel`);
+    return response.data;
+  },
+};
+
+export default returnsAPI;
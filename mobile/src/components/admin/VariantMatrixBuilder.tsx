@@ -0,0 +1,272 @@
+/**
+ * VariantMatrixBuilder Component
+ * Picks values for each variant option and generates every combination
+ */
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { combinations } from "../../utils/variantMatrix";
+
+export interface MatrixDimension {
+  name: string;
+  // Values to pick from; without them values are typed, comma separated
+  values?: readonly string[];
+}
+
+export interface MatrixResult {
+  // One entry per combination, values keyed by dimension name
+  combinations: Record<string, string>[];
+  skuPrefix: string;
+  price: number;
+  stock: number;
+}
+
+interface VariantMatrixBuilderProps {
+  dimensions: MatrixDimension[];
+  defaultSkuPrefix: string;
+  defaultPrice: string;
+  onGenerate: (result: MatrixResult) => void;
+}
+
+const toValues = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  ),
+];
+
+const VariantMatrixBuilder: React.FC<VariantMatrixBuilderProps> = ({
+  dimensions,
+  defaultSkuPrefix,
+  defaultPrice,
+  onGenerate,
+}) => {
+  // Picked values, or the typed text for dimensions without a list
+  const [picked, setPicked] = useState<Record<string, string[]>>({});
+  const [typed, setTyped] = useState<Record<string, string>>({});
+  const [skuPrefix, setSkuPrefix] = useState(defaultSkuPrefix);
+  const [price, setPrice] = useState(defaultPrice);
+  const [stock, setStock] = useState("0");
+
+  const lists = dimensions.map((dimension) =>
+    dimension.values
+      ? (picked[dimension.name] || []).filter((v) =>
+          dimension.values!.includes(v),
+        )
+      : toValues(typed[dimension.name] || ""),
+  );
+  const count = lists.reduce((total, values) => total * values.length, 1);
+
+  const togglePicked = (name: string, value: string) => {
+    setPicked((prev) => {
+      const current = prev[name] || [];
+      return {
+        ...prev,
+        [name]: current.includes(value)
+          ? current.filter((v) => v !== value)
+          : [...current, value],
+      };
+    });
+  };
+
+  const handleGenerate = () => {
+    if (count === 0) return;
+
+    onGenerate({
+      combinations: combinations(lists).map((values) =>
+        Object.fromEntries(
+          dimensions.map((dimension, i) => [dimension.name, values[i]]),
+        ),
+      ),
+      skuPrefix: skuPrefix.trim(),
+      price: parseFloat(price) || 0,
+      stock: parseInt(stock) || 0,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Generate Variants</Text>
+
+      {dimensions.map((dimension) => (
+        <View key={dimension.name} style={styles.field}>
+          <Text style={styles.label}>{dimension.name}</Text>
+          {dimension.values ? (
+            <View style={styles.chips}>
+              {dimension.values.map((value) => {
+                const active = (picked[dimension.name] || []).includes(value);
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => togglePicked(dimension.name, value)}
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {value}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={typed[dimension.name] || ""}
+              onChangeText={(text) =>
+                setTyped((prev) => ({ ...prev, [dimension.name]: text }))
+              }
+              placeholder={`${dimension.name} values, comma separated`}
+              placeholderTextColor="#999"
+            />
+          )}
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <View style={[styles.field, styles.flex1]}>
+          <Text style={styles.label}>SKU Prefix</Text>
+          <TextInput
+            style={styles.input}
+            value={skuPrefix}
+            onChangeText={setSkuPrefix}
+            placeholder="e.g. HJ"
+            placeholderTextColor="#999"
+            autoCapitalize="characters"
+            maxLength={20}
+          />
+        </View>
+        <View style={[styles.field, styles.flex1]}>
+          <Text style={styles.label}>Price</Text>
+          <TextInput
+            style={styles.input}
+            value={price}
+            onChangeText={setPrice}
+            placeholder="0"
+            placeholderTextColor="#999"
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={[styles.field, styles.flex1]}>
+          <Text style={styles.label}>Stock</Text>
+          <TextInput
+            style={styles.input}
+            value={stock}
+            onChangeText={setStock}
+            placeholder="0"
+            placeholderTextColor="#999"
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, count === 0 && styles.buttonDisabled]}
+        onPress={handleGenerate}
+        disabled={count === 0}
+      >
+        <Text style={styles.buttonText}>
+          Generate {count} combination{count === 1 ? "" : "s"}
+        </Text>
+      </TouchableOpacity>
+      <Text style={styles.helperText}>Ones already listed are skipped</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#f9f9f9",
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#eee",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  flex1: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#1a1a1a",
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  chipActive: {
+    backgroundColor: "#1a1a1a",
+    borderColor: "#1a1a1a",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#1a1a1a",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  input: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1a1a1a",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  button: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 6,
+    textAlign: "center",
+  },
+});
+
+export default VariantMatrixBuilder;
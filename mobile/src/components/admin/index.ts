@@ -8,3 +8,5 @@ export { default as AdminOrderCard } from "./AdminOrderCard";
 export { default as AdminProductCard } from "./AdminProductCard";
 export { default as AdminUserCard } from "./AdminUserCard";
 export { default as AdminCategoryCard } from "./AdminCategoryCard";
+export { default as VariantMatrixBuilder } from "./VariantMatrixBuilder";
+export type { MatrixDimension, MatrixResult } from "./VariantMatrixBuilder";
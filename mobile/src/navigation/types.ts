@@ -37,12 +37,12 @@ export type AppStackParamList = {
   Checkout: undefined;
   Payment: {
     orderId: string;
-    gateway: "cod" | "esewa" | "khalti";
+    gateway: "cod" | "esewa" | "khalti" | "fonepay" | "mock";
     paymentData: {
       redirectUrl?: string;
       url?: string;
       payment_url?: string;
-      formData?: Record<string, string>;
+      formData?: Record<string, string | number>;
     };
   };
 };
@@ -13,6 +13,7 @@ import {
   ActivityIndicator,
   Alert,
   Image,
+  TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
@@ -24,11 +25,22 @@ import {
   CreditCard,
   Clock,
   CheckCircle,
+  RotateCcw,
+  PackageOpen,
+  Truck,
 } from "lucide-react-native";
 import { OrderStatusBadge } from "../../components/admin";
 import { adminAPI } from "../../api/admin";
 import type { AdminOrderDetailScreenProps } from "../../navigation/types";
-import type { IOrder, OrderStatus } from "@shared/types";
+import type {
+  ICourier,
+  IOrder,
+  IRefundLedger,
+  IReturnRequest,
+  OrderStatus,
+  ReturnStatus,
+  ShipmentStatus,
+} from "@shared/types";
 
 const ORDER_STATUSES: OrderStatus[] = [
   "pending",
@@ -39,6 +51,27 @@ const ORDER_STATUSES: OrderStatus[] = [
   "cancelled",
 ];
 
+const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  pickup_scheduled: "Pickup scheduled",
+  received: "Received",
+  inspected: "Inspected",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  created: "Handed to courier",
+  picked_up: "Picked up",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  failed: "Delivery attempt failed",
+  returned: "Returned to sender",
+};
+
 const formatCurrency = (amount: number | undefined | null): string => {
   if (amount == null) return "Rs. 0";
   return `Rs. ${amount.toLocaleString()}`;
@@ -66,12 +99,43 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
   const [refreshing, setRefreshing] = useState(false);
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [refundLedger, setRefundLedger] = useState<IRefundLedger | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [collectedBy, setCollectedBy] = useState("");
+  const [collectedAmount, setCollectedAmount] = useState("");
+  const [returns, setReturns] = useState<IReturnRequest[]>([]);
+  const [returnNote, setReturnNote] = useState("");
+  const [couriers, setCouriers] = useState<ICourier[]>([]);
+  const [shipCourier, setShipCourier] = useState("manual");
+  const [shipCarrier, setShipCarrier] = useState("");
+  const [shipTrackingNumber, setShipTrackingNumber] = useState("");
+  const [trackingStatus, setTrackingStatus] =
+    useState<ShipmentStatus>("in_transit");
+  const [trackingNote, setTrackingNote] = useState("");
 
   const fetchOrder = useCallback(async () => {
     try {
       setError(null);
       const data = await adminAPI.getOrderById(orderId);
       setOrder(data);
+      // Refund ledger only exists once money has been captured
+      const status = data.paymentStatus || data.payment?.status;
+      if (
+        status &&
+        ["paid", "partially_refunded", "refunded"].includes(status)
+      ) {
+        setRefundLedger(await adminAPI.getOrderRefunds(orderId));
+      } else {
+        setRefundLedger(null);
+      }
+      // Returns can only be raised once the order is delivered
+      if ((data.orderStatus || data.status) === "delivered") {
+        const { data: returnData } = await adminAPI.getReturns({
+          order: orderId,
+          limit: 50,
+        });
+        setReturns(returnData.returns);
+      }
     } catch (err: any) {
       setError(err.response?.data?.message || "Failed to load order");
     } finally {
@@ -84,6 +148,13 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
     fetchOrder();
   }, [fetchOrder]);
 
+  useEffect(() => {
+    adminAPI
+      .getCouriers()
+      .then(setCouriers)
+      .catch(() => setCouriers([]));
+  }, []);
+
   const onRefresh = () => {
     setRefreshing(true);
     fetchOrder();
@@ -120,10 +191,17 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
 
   const handleMarkCODCollected = async () => {
     if (!order) return;
+    if (!collectedBy.trim()) {
+      Alert.alert(
+        "Collected By",
+        "Enter the courier or rider who took the cash",
+      );
+      return;
+    }
 
     Alert.alert(
       "Mark COD as Collected",
-      "Confirm that payment has been collected?",
+      `Confirm that ${collectedBy.trim()} has collected the payment?`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -131,7 +209,12 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
           onPress: async () => {
             try {
               setUpdating(true);
-              await adminAPI.markCODCollected(orderId);
+              await adminAPI.markCODCollected(orderId, {
+                collectedBy: collectedBy.trim(),
+                amount: collectedAmount ? Number(collectedAmount) : undefined,
+              });
+              setCollectedBy("");
+              setCollectedAmount("");
               // Refetch order to get updated data
               await fetchOrder();
               Alert.alert("Success", "Payment marked as collected");
@@ -149,6 +232,305 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
     );
   };
 
+  const handleRefund = () => {
+    if (!refundLedger) return;
+    const amount = refundAmount ? Number(refundAmount) : undefined;
+    const label = formatCurrency(amount ?? refundLedger.refundableAmount);
+
+    Alert.alert("Issue Refund", `Refund ${label} to the customer?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Refund",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            setUpdating(true);
+            const result = await adminAPI.refundOrder(orderId, { amount });
+            setRefundAmount("");
+            await fetchOrder();
+            Alert.alert("Refund", result.message);
+          } catch (err: any) {
+            Alert.alert(
+              "Error",
+              err.response?.data?.message || "Failed to refund order",
+            );
+          } finally {
+            setUpdating(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCompleteRefund = async (refundId: string) => {
+    try {
+      setUpdating(true);
+      await adminAPI.completeRefund(orderId, refundId);
+      await fetchOrder();
+    } catch (err: any) {
+      Alert.alert(
+        "Error",
+        err.response?.data?.message || "Failed to complete refund",
+      );
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Run one shipment action; each returns the updated order
+  const runShipmentAction = async (
+    action: () => Promise<IOrder>,
+    successMessage: string,
+  ) => {
+    try {
+      setUpdating(true);
+      setOrder(await action());
+      Alert.alert("Success", successMessage);
+      return true;
+    } catch (err: any) {
+      Alert.alert(
+        "Error",
+        err.response?.data?.message || "Failed to update shipment",
+      );
+      return false;
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleShip = () => {
+    runShipmentAction(
+      () =>
+        adminAPI.shipOrder(orderId, {
+          courier: shipCourier,
+          carrier: shipCarrier.trim() || undefined,
+          trackingNumber: shipTrackingNumber.trim() || undefined,
+        }),
+      "Order shipped",
+    );
+  };
+
+  const handleAddTrackingEvent = async () => {
+    if (!trackingNote.trim()) {
+      Alert.alert("Tracking Update", "Describe what happened to the parcel");
+      return;
+    }
+    const added = await runShipmentAction(
+      () =>
+        adminAPI.addTrackingEvent(orderId, {
+          status: trackingStatus,
+          description: trackingNote.trim(),
+        }),
+      "Tracking updated",
+    );
+    if (added) setTrackingNote("");
+  };
+
+  // Run one return action, then reload the order, refunds and returns
+  const runReturnAction = async (
+    action: () => Promise<IReturnRequest>,
+    successMessage: string,
+  ) => {
+    try {
+      setUpdating(true);
+      await action();
+      setReturnNote("");
+      await fetchOrder();
+      Alert.alert("Success", successMessage);
+    } catch (err: any) {
+      Alert.alert(
+        "Error",
+        err.response?.data?.message || "Failed to update return",
+      );
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRejectReturn = (returnId: string) => {
+    if (!returnNote.trim()) {
+      Alert.alert("Reject Return", "Enter the reason for rejecting it");
+      return;
+    }
+    runReturnAction(
+      () => adminAPI.rejectReturn(returnId, returnNote.trim()),
+      "Return rejected",
+    );
+  };
+
+  // Mobile records a full acceptance; partial inspections are done on the web
+  const handleAcceptReturn = (returnRequest: IReturnRequest) => {
+    Alert.alert(
+      "Record Inspection",
+      "Accept every item and put it back in stock?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Accept",
+          onPress: () =>
+            runReturnAction(
+              () =>
+                adminAPI.inspectReturn(returnRequest._id, {
+                  items: returnRequest.items.map((item) => ({
+                    itemId: item._id,
+                    acceptedQuantity: item.quantity,
+                    restock: true,
+                  })),
+                }),
+              "Inspection recorded",
+            ),
+        },
+      ],
+    );
+  };
+
+  const renderReturnActions = (returnRequest: IReturnRequest) => {
+    const { _id: returnId, status } = returnRequest;
+
+    if (status === "requested") {
+      return (
+        <>
+          <TextInput
+            style={styles.returnInput}
+            value={returnNote}
+            onChangeText={setReturnNote}
+            placeholder="Reason (required to reject)"
+            placeholderTextColor="#999"
+          />
+          <View style={styles.statusGrid}>
+            <TouchableOpacity
+              style={styles.statusButton}
+              onPress={() => handleRejectReturn(returnId)}
+              disabled={updating}
+            >
+              <Text style={styles.statusButtonText}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.statusButton, styles.statusButtonActive]}
+              onPress={() =>
+                runReturnAction(
+                  () => adminAPI.approveReturn(returnId),
+                  "Return approved",
+                )
+              }
+              disabled={updating}
+            >
+              <Text
+                style={[styles.statusButtonText, styles.statusButtonTextActive]}
+              >
+                Approve
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      );
+    }
+
+    if (status === "approved") {
+      return (
+        <>
+          <TextInput
+            style={styles.returnInput}
+            value={returnNote}
+            onChangeText={setReturnNote}
+            placeholder="Pickup courier (optional)"
+            placeholderTextColor="#999"
+          />
+          <View style={styles.statusGrid}>
+            <TouchableOpacity
+              style={styles.statusButton}
+              onPress={() =>
+                runReturnAction(
+                  () => adminAPI.receiveReturn(returnId),
+                  "Return received",
+                )
+              }
+              disabled={updating}
+            >
+              <Text style={styles.statusButtonText}>Dropped off</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.statusButton, styles.statusButtonActive]}
+              onPress={() =>
+                runReturnAction(
+                  () =>
+                    adminAPI.scheduleReturnPickup(returnId, {
+                      courier: returnNote.trim() || undefined,
+                    }),
+                  "Pickup scheduled",
+                )
+              }
+              disabled={updating}
+            >
+              <Text
+                style={[styles.statusButtonText, styles.statusButtonTextActive]}
+              >
+                Schedule pickup
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      );
+    }
+
+    if (status === "pickup_scheduled") {
+      return (
+        <TouchableOpacity
+          style={styles.codButton}
+          onPress={() =>
+            runReturnAction(
+              () => adminAPI.receiveReturn(returnId),
+              "Return received",
+            )
+          }
+          disabled={updating}
+        >
+          <Text style={styles.codButtonText}>Mark Received</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (status === "received") {
+      return (
+        <TouchableOpacity
+          style={styles.codButton}
+          onPress={() => handleAcceptReturn(returnRequest)}
+          disabled={updating}
+        >
+          <Text style={styles.codButtonText}>Accept All & Restock</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (status === "inspected") {
+      return (
+        <View style={styles.statusGrid}>
+          {(["refund", "replacement"] as const).map((resolution) => (
+            <TouchableOpacity
+              key={resolution}
+              style={styles.statusButton}
+              onPress={() =>
+                runReturnAction(
+                  () => adminAPI.completeReturn(returnId, resolution),
+                  resolution === "refund"
+                    ? "Refund issued"
+                    : "Replacement order created",
+                )
+              }
+              disabled={updating}
+            >
+              <Text style={styles.statusButtonText}>
+                {resolution === "refund" ? "Refund" : "Send replacement"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      );
+    }
+
+    return null;
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container} edges={["top", "left", "right"]}>
@@ -193,6 +575,14 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
   const shippingCost = order.shippingCost ?? order.pricing?.shippingCost ?? 0;
   const total = order.total ?? order.pricing?.total ?? 0;
 
+  const { shipment } = order;
+  const canShip = orderStatus === "processing" && !shipment;
+  const courier = couriers.find(
+    (c) => c.id === (shipment?.courier || shipCourier),
+  );
+  const shipmentOpen =
+    !!shipment && !["delivered", "returned"].includes(shipment.status);
+
   return (
     <SafeAreaView style={styles.container} edges={["top", "left", "right"]}>
       {/* Header */}
@@ -353,16 +743,287 @@ const AdminOrderDetailScreen: React.FC<AdminOrderDetailScreenProps> = ({
           </View>
         </View>
 
-        {/* COD Collection Button */}
+        {/* COD Collection */}
         {paymentMethod === "cod" && paymentStatus !== "paid" && (
-          <TouchableOpacity
-            style={styles.codButton}
-            onPress={handleMarkCODCollected}
-            disabled={updating}
-          >
-            <CheckCircle size={20} color="#fff" />
-            <Text style={styles.codButtonText}>Mark COD as Collected</Text>
-          </TouchableOpacity>
+          <>
+            <View style={styles.codForm}>
+              <TextInput
+                style={styles.refundInput}
+                value={collectedBy}
+                onChangeText={setCollectedBy}
+                placeholder="Collected by (courier or rider)"
+                placeholderTextColor="#999"
+                maxLength={100}
+              />
+              <TextInput
+                style={styles.refundInput}
+                value={collectedAmount}
+                onChangeText={setCollectedAmount}
+                keyboardType="numeric"
+                placeholder={`Amount collected (${total})`}
+                placeholderTextColor="#999"
+              />
+            </View>
+            <TouchableOpacity
+              style={styles.codButton}
+              onPress={handleMarkCODCollected}
+              disabled={updating}
+            >
+              <CheckCircle size={20} color="#fff" />
+              <Text style={styles.codButtonText}>Mark COD as Collected</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* Shipment */}
+        {(canShip || shipment) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Truck size={18} color="#666" />
+              <Text style={styles.sectionTitle}>Shipment</Text>
+            </View>
+            {canShip && (
+              <>
+                <View style={styles.statusGrid}>
+                  {couriers.map((c) => (
+                    <TouchableOpacity
+                      key={c.id}
+                      style={[
+                        styles.statusButton,
+                        shipCourier === c.id && styles.statusButtonActive,
+                      ]}
+                      onPress={() => setShipCourier(c.id)}
+                      disabled={updating}
+                    >
+                      <Text
+                        style={[
+                          styles.statusButtonText,
+                          shipCourier === c.id && styles.statusButtonTextActive,
+                        ]}
+                      >
+                        {c.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {courier && !courier.reportsTracking && (
+                  <>
+                    <TextInput
+                      style={styles.returnInput}
+                      value={shipCarrier}
+                      onChangeText={setShipCarrier}
+                      placeholder="Carrier (e.g. own rider)"
+                      placeholderTextColor="#999"
+                      maxLength={100}
+                    />
+                    <TextInput
+                      style={styles.returnInput}
+                      value={shipTrackingNumber}
+                      onChangeText={setShipTrackingNumber}
+                      placeholder={`Tracking number (${order.orderNumber})`}
+                      placeholderTextColor="#999"
+                      maxLength={100}
+                    />
+                  </>
+                )}
+                <TouchableOpacity
+                  style={styles.codButton}
+                  onPress={handleShip}
+                  disabled={updating}
+                >
+                  <Truck size={20} color="#fff" />
+                  <Text style={styles.codButtonText}>Ship Order</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            {shipment && (
+              <>
+                <View style={styles.paymentRow}>
+                  <Text style={styles.paymentValue}>
+                    {shipment.carrier} · {shipment.trackingNumber}
+                  </Text>
+                  <Text style={styles.paymentLabel}>
+                    {SHIPMENT_STATUS_LABELS[shipment.status]}
+                  </Text>
+                </View>
+                {[...shipment.events].reverse().map((event, index) => (
+                  <View key={event._id || index} style={styles.returnBlock}>
+                    <Text style={styles.paymentValue}>
+                      {SHIPMENT_STATUS_LABELS[event.status]}
+                    </Text>
+                    <Text style={styles.itemVariant}>
+                      {event.description}
+                      {event.location ? ` · ${event.location}` : ""}
+                    </Text>
+                    <Text style={styles.itemVariant}>
+                      {formatDate(event.occurredAt)} · {event.source}
+                    </Text>
+                  </View>
+                ))}
+                {shipmentOpen && courier?.reportsTracking && (
+                  <TouchableOpacity
+                    style={[styles.statusButton, styles.shipmentRefresh]}
+                    onPress={() =>
+                      runShipmentAction(
+                        () => adminAPI.refreshTracking(orderId),
+                        "Tracking refreshed",
+                      )
+                    }
+                    disabled={updating}
+                  >
+                    <Text style={styles.statusButtonText}>
+                      Refresh from courier
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {shipmentOpen && (
+                  <View style={styles.returnBlock}>
+                    <View style={styles.statusGrid}>
+                      {(
+                        Object.keys(SHIPMENT_STATUS_LABELS) as ShipmentStatus[]
+                      ).map((status) => (
+                        <TouchableOpacity
+                          key={status}
+                          style={[
+                            styles.statusButton,
+                            trackingStatus === status &&
+                              styles.statusButtonActive,
+                          ]}
+                          onPress={() => setTrackingStatus(status)}
+                          disabled={updating}
+                        >
+                          <Text
+                            style={[
+                              styles.statusButtonText,
+                              trackingStatus === status &&
+                                styles.statusButtonTextActive,
+                            ]}
+                          >
+                            {SHIPMENT_STATUS_LABELS[status]}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <View style={styles.refundForm}>
+                      <TextInput
+                        style={styles.refundInput}
+                        value={trackingNote}
+                        onChangeText={setTrackingNote}
+                        placeholder="What happened"
+                        placeholderTextColor="#999"
+                        maxLength={300}
+                      />
+                      <TouchableOpacity
+                        style={[styles.refundButton, styles.trackingButton]}
+                        onPress={handleAddTrackingEvent}
+                        disabled={updating}
+                      >
+                        <Text style={styles.codButtonText}>Add</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Refunds */}
+        {refundLedger && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <RotateCcw size={18} color="#666" />
+              <Text style={styles.sectionTitle}>Refunds</Text>
+            </View>
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Refunded</Text>
+              <Text style={styles.paymentValue}>
+                {formatCurrency(refundLedger.refundedAmount)}
+              </Text>
+            </View>
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Refundable</Text>
+              <Text style={styles.paymentValue}>
+                {formatCurrency(refundLedger.refundableAmount)}
+              </Text>
+            </View>
+            {refundLedger.refunds.map((refund) => (
+              <View key={refund._id} style={styles.refundRow}>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.paymentValue}>
+                    {formatCurrency(refund.amount)} · {refund.status}
+                  </Text>
+                  {refund.reason && (
+                    <Text style={styles.itemVariant}>{refund.reason}</Text>
+                  )}
+                </View>
+                {refund.status === "pending" && (
+                  <TouchableOpacity
+                    style={styles.statusButton}
+                    onPress={() => handleCompleteRefund(refund._id)}
+                    disabled={updating}
+                  >
+                    <Text style={styles.statusButtonText}>Mark completed</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {refundLedger.refundableAmount > 0 && (
+              <View style={styles.refundForm}>
+                <TextInput
+                  style={styles.refundInput}
+                  value={refundAmount}
+                  onChangeText={setRefundAmount}
+                  keyboardType="numeric"
+                  placeholder={`Amount (full: ${refundLedger.refundableAmount})`}
+                  placeholderTextColor="#999"
+                />
+                <TouchableOpacity
+                  style={styles.refundButton}
+                  onPress={handleRefund}
+                  disabled={updating}
+                >
+                  <Text style={styles.codButtonText}>Refund</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Returns */}
+        {returns.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <PackageOpen size={18} color="#666" />
+              <Text style={styles.sectionTitle}>Returns & Exchanges</Text>
+            </View>
+            {returns.map((returnRequest) => (
+              <View key={returnRequest._id} style={styles.returnBlock}>
+                <View style={styles.paymentRow}>
+                  <Text style={styles.paymentValue}>
+                    {returnRequest.returnNumber} · {returnRequest.type}
+                  </Text>
+                  <Text style={styles.paymentLabel}>
+                    {RETURN_STATUS_LABELS[returnRequest.status]}
+                  </Text>
+                </View>
+                {returnRequest.items.map((item) => (
+                  <Text key={item._id} style={styles.itemVariant}>
+                    {item.quantity} × {item.name}
+                    {item.exchangeVariant?.size
+                      ? ` → ${item.exchangeVariant.size}`
+                      : ""}
+                  </Text>
+                ))}
+                {returnRequest.reasonDetails && (
+                  <Text style={styles.itemVariant}>
+                    {returnRequest.reasonDetails}
+                  </Text>
+                )}
+                {renderReturnActions(returnRequest)}
+              </View>
+            ))}
+          </View>
         )}
 
         {/* Status Update Section */}
@@ -660,11 +1321,66 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     marginBottom: 12,
   },
+  codForm: {
+    gap: 8,
+    marginBottom: 8,
+  },
   codButtonText: {
     color: "#fff",
     fontSize: 15,
     fontWeight: "600",
   },
+  refundRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  refundForm: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+  },
+  refundInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1a1a1a",
+  },
+  refundButton: {
+    backgroundColor: "#DC2626",
+    paddingHorizontal: 18,
+    justifyContent: "center",
+    borderRadius: 8,
+  },
+  shipmentRefresh: {
+    alignItems: "center",
+    marginTop: 12,
+  },
+  trackingButton: {
+    backgroundColor: "#1a1a1a",
+  },
+  returnBlock: {
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+    paddingTop: 12,
+    marginTop: 4,
+  },
+  returnInput: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1a1a1a",
+    marginVertical: 8,
+  },
   statusGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
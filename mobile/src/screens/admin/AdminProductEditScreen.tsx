@@ -28,11 +28,23 @@ import {
   Package,
   Check,
   AlertCircle,
+  Grid3x3,
 } from "lucide-react-native";
 import * as ImagePicker from "expo-image-picker";
 import { adminAPI } from "../../api/admin";
+import {
+  VariantMatrixBuilder,
+  type MatrixDimension,
+  type MatrixResult,
+} from "../../components/admin";
+import { skuCode } from "../../utils/variantMatrix";
 import type { AdminProductEditScreenProps } from "../../navigation/types";
-import type { IProduct, ICategory, IProductVariant } from "@shared/types";
+import type {
+  IProduct,
+  ICategory,
+  IProductVariant,
+  IAttribute,
+} from "@shared/types";
 
 // Define locally since Metro doesn't resolve path aliases for runtime imports
 const PRODUCT_SIZES = [
@@ -62,11 +74,33 @@ interface LocalVariant {
   _id?: string;
   size: string;
   color: string;
+  // Values keyed by attribute name, for categories with attributes
+  options: Record<string, string>;
+  sku: string;
   price: string;
   stock: string;
   image?: string; // URL for existing or local URI for new
 }
 
+const toLocalVariant = (v: IProductVariant): LocalVariant => ({
+  _id: v._id,
+  size: v.size,
+  color: v.color || "",
+  options: Object.fromEntries(
+    (v.options?.length
+      ? v.options
+      : [
+          { name: "Size", value: v.size },
+          { name: "Color", value: v.color || "" },
+        ]
+    ).map((option) => [option.name, option.value]),
+  ),
+  sku: v.sku || "",
+  price: String(v.price),
+  stock: String(v.stock),
+  image: v.image || "",
+});
+
 interface FormErrors {
   name?: string;
   description?: string;
@@ -104,6 +138,14 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
   // Variants state
   const [hasVariants, setHasVariants] = useState(false);
   const [variants, setVariants] = useState<LocalVariant[]>([]);
+  // The category's attribute schema; empty means plain size and color
+  const [attributes, setAttributes] = useState<IAttribute[]>([]);
+  const [showMatrix, setShowMatrix] = useState(false);
+  // Compact rows for editing SKUs, prices and stock across many variants
+  const [gridView, setGridView] = useState(false);
+  const [bulkPrice, setBulkPrice] = useState("");
+  const [bulkStock, setBulkStock] = useState("");
+  const [savingVariants, setSavingVariants] = useState(false);
   const [variantUploadStatus, setVariantUploadStatus] = useState<
     Record<number, "pending" | "uploading" | "success" | "failed">
   >({});
@@ -141,16 +183,7 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
         // Set variants
         if (product.variants && product.variants.length > 0) {
           setHasVariants(true);
-          setVariants(
-            product.variants.map((v: IProductVariant) => ({
-              _id: v._id,
-              size: v.size,
-              color: v.color || "",
-              price: String(v.price),
-              stock: String(v.stock),
-              image: v.image || "",
-            })),
-          );
+          setVariants(product.variants.map(toLocalVariant));
         }
 
         // Set existing images
@@ -170,6 +203,23 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
     fetchData();
   }, [fetchData]);
 
+  // Load the attributes variants of the chosen category carry
+  useEffect(() => {
+    const fetchAttributes = async () => {
+      if (!formData.category) {
+        setAttributes([]);
+        return;
+      }
+      try {
+        setAttributes(await adminAPI.getCategoryAttributes(formData.category));
+      } catch (err) {
+        console.error("Failed to fetch category attributes:", err);
+        setAttributes([]);
+      }
+    };
+    fetchAttributes();
+  }, [formData.category]);
+
   // Handle input change
   const handleChange = (field: keyof FormData, value: string | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
@@ -189,6 +239,19 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
     );
   };
 
+  // Handle a variant's attribute value change
+  const handleVariantOptionChange = (
+    index: number,
+    name: string,
+    value: string,
+  ) => {
+    setVariants((prev) =>
+      prev.map((v, i) =>
+        i === index ? { ...v, options: { ...v.options, [name]: value } } : v,
+      ),
+    );
+  };
+
   // Add variant
   const handleAddVariant = () => {
     setVariants((prev) => [
@@ -196,6 +259,8 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
       {
         size: PRODUCT_SIZES[0],
         color: "",
+        options: {},
+        sku: "",
         price: formData.price,
         stock: "0",
         image: "",
@@ -238,6 +303,140 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
     setVariants((prev) => prev.filter((_, i) => i !== index));
   };
 
+  // Option columns: the category's attributes, or size and color
+  const dimensions: MatrixDimension[] =
+    attributes.length > 0
+      ? attributes.map((attribute) => ({
+          name: attribute.name,
+          values: attribute.type === "select" ? attribute.values : undefined,
+        }))
+      : [{ name: "Size", values: PRODUCT_SIZES }, { name: "Color" }];
+
+  // A variant's option values, e.g. ["Felt", "500"]
+  const variantValues = (v: LocalVariant): string[] =>
+    attributes.length > 0
+      ? attributes.map((attribute) => (v.options[attribute.name] || "").trim())
+      : [v.size, v.color.trim()];
+
+  const variantKey = (v: LocalVariant): string =>
+    variantValues(v)
+      .map((value) => value.toLowerCase())
+      .join("|");
+
+  // Add the generated combinations not listed yet, each with its own SKU
+  const handleGenerateVariants = (result: MatrixResult) => {
+    const keys = new Set(variants.map(variantKey));
+    const skus = new Set(
+      variants.map((v) => v.sku.trim().toUpperCase()).filter(Boolean),
+    );
+    const added: LocalVariant[] = [];
+
+    result.combinations.forEach((values) => {
+      const variant: LocalVariant = {
+        size: values.Size || "",
+        color: values.Color || "",
+        options: attributes.length > 0 ? values : {},
+        sku: "",
+        price: String(result.price),
+        stock: String(result.stock),
+        image: "",
+      };
+      const key = variantKey(variant);
+      if (keys.has(key)) return;
+      keys.add(key);
+
+      const base = [
+        result.skuPrefix.toUpperCase(),
+        ...dimensions.map((dimension) => skuCode(values[dimension.name])),
+      ]
+        .filter(Boolean)
+        .join("-");
+      let sku = base;
+      for (let n = 2; skus.has(sku); n++) sku = `${base}-${n}`;
+      skus.add(sku);
+
+      added.push({ ...variant, sku });
+    });
+
+    setVariants((prev) => [...prev, ...added]);
+    setShowMatrix(false);
+    Alert.alert(
+      "Variants",
+      added.length > 0
+        ? `Added ${added.length} variant(s)`
+        : "All of those variants are already listed",
+    );
+  };
+
+  // Set price or stock on every variant
+  const handleBulkSet = (field: "price" | "stock", value: string) => {
+    const number = field === "price" ? parseFloat(value) : parseInt(value);
+    if (!Number.isFinite(number) || number < 0) {
+      Alert.alert("Error", `Enter a valid ${field}`);
+      return;
+    }
+
+    setVariants((prev) => prev.map((v) => ({ ...v, [field]: String(number) })));
+    if (field === "price") setBulkPrice("");
+    else setBulkStock("");
+  };
+
+  // What the API stores of a variant, apart from its image
+  const variantPayload = (v: LocalVariant): Partial<IProductVariant> => ({
+    ...(attributes.length > 0
+      ? {
+          options: attributes.map((attribute) => ({
+            name: attribute.name,
+            value: (v.options[attribute.name] || "").trim(),
+          })),
+        }
+      : { size: v.size, color: v.color }),
+    ...(v.sku.trim() && { sku: v.sku.trim() }),
+    price: parseFloat(v.price),
+    stock: parseInt(v.stock),
+  });
+
+  // Save the variants now, in one request, without the rest of the form.
+  // Variants removed here stay until the product is saved
+  const handleSaveVariants = async () => {
+    if (!productId) return;
+
+    setSavingVariants(true);
+    try {
+      const saved = await adminAPI.patchProductVariants(
+        productId,
+        variants.map((v) => ({
+          ...(v._id && { _id: v._id }),
+          ...variantPayload(v),
+        })),
+      );
+
+      // Keep images picked on this device, to upload when the product is saved
+      const picked = new Map(
+        variants
+          .filter((v) => v.image && !v.image.startsWith("http"))
+          .map((v) => [variantKey(v), v.image]),
+      );
+      setVariants(
+        (saved.variants || []).map((v) => {
+          const local = toLocalVariant(v);
+          return {
+            ...local,
+            image: picked.get(variantKey(local)) || local.image,
+          };
+        }),
+      );
+      Alert.alert("Success", "Variants saved");
+    } catch (err: any) {
+      Alert.alert(
+        "Error",
+        err.response?.data?.message || "Failed to save variants",
+      );
+    } finally {
+      setSavingVariants(false);
+    }
+  };
+
   // Toggle variants
   const handleToggleVariants = (enabled: boolean) => {
     setHasVariants(enabled);
@@ -306,12 +505,7 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
       // Prepare variant data - don't include local image URIs
       const variantDataList = hasVariants
         ? variants.map((v) => {
-            const variantData: any = {
-              size: v.size,
-              color: v.color,
-              price: parseFloat(v.price),
-              stock: parseInt(v.stock),
-            };
+            const variantData: any = variantPayload(v);
             // Only add _id if it's a valid existing variant ID (not empty/undefined)
             if (v._id && v._id.length > 0) {
               variantData._id = v._id;
@@ -683,7 +877,11 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
             <View style={styles.switchField}>
               <View>
                 <Text style={styles.label}>Has Variants</Text>
-                <Text style={styles.helperText}>Add size/color variations</Text>
+                <Text style={styles.helperText}>
+                  {attributes.length > 0
+                    ? `Vary by ${attributes.map((a) => a.name).join(", ")}`
+                    : "Add size/color variations"}
+                </Text>
               </View>
               <Switch
                 value={hasVariants}
@@ -695,179 +893,406 @@ const AdminProductEditScreen: React.FC<AdminProductEditScreenProps> = ({
 
             {hasVariants && (
               <View style={styles.variantsContainer}>
-                {variants.map((variant, index) => (
-                  <View key={index} style={styles.variantCard}>
-                    <View style={styles.variantHeader}>
-                      <Text style={styles.variantTitle}>
-                        Variant {index + 1}
-                      </Text>
-                      <TouchableOpacity
-                        onPress={() => handleRemoveVariant(index)}
-                      >
-                        <Trash2 size={18} color="#DC2626" />
-                      </TouchableOpacity>
-                    </View>
+                {/* Bulk actions */}
+                <View style={styles.bulkActions}>
+                  <TouchableOpacity
+                    style={styles.bulkButton}
+                    onPress={() => setShowMatrix((prev) => !prev)}
+                  >
+                    <Grid3x3 size={16} color="#1a1a1a" />
+                    <Text style={styles.bulkButtonText}>Generate</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.bulkButton}
+                    onPress={() => setGridView((prev) => !prev)}
+                  >
+                    <Text style={styles.bulkButtonText}>
+                      {gridView ? "Card View" : "Grid View"}
+                    </Text>
+                  </TouchableOpacity>
+                  {isEdit && (
+                    <TouchableOpacity
+                      style={[styles.bulkButton, styles.bulkButtonPrimary]}
+                      onPress={handleSaveVariants}
+                      disabled={savingVariants || variants.length === 0}
+                    >
+                      {savingVariants ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Text
+                          style={[
+                            styles.bulkButtonText,
+                            styles.bulkButtonTextPrimary,
+                          ]}
+                        >
+                          Save Variants
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
 
-                    <View style={styles.row}>
-                      <View style={[styles.field, styles.flex1]}>
-                        <Text style={styles.label}>Size</Text>
-                        <View style={styles.sizeOptions}>
-                          {PRODUCT_SIZES.map((size) => (
-                            <TouchableOpacity
-                              key={size}
-                              style={[
-                                styles.sizeOption,
-                                variant.size === size &&
-                                  styles.sizeOptionActive,
-                              ]}
-                              onPress={() =>
-                                handleVariantChange(index, "size", size)
-                              }
-                            >
-                              <Text
-                                style={[
-                                  styles.sizeOptionText,
-                                  variant.size === size &&
-                                    styles.sizeOptionTextActive,
-                                ]}
-                              >
-                                {size}
-                              </Text>
-                            </TouchableOpacity>
-                          ))}
-                        </View>
-                      </View>
-                    </View>
+                <View style={styles.row}>
+                  <View style={[styles.bulkField, styles.flex1]}>
+                    <TextInput
+                      style={[styles.input, styles.flex1]}
+                      value={bulkPrice}
+                      onChangeText={setBulkPrice}
+                      placeholder="Price for all"
+                      placeholderTextColor="#999"
+                      keyboardType="decimal-pad"
+                    />
+                    <TouchableOpacity
+                      style={styles.bulkApply}
+                      onPress={() => handleBulkSet("price", bulkPrice)}
+                      disabled={!bulkPrice}
+                    >
+                      <Check size={16} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={[styles.bulkField, styles.flex1]}>
+                    <TextInput
+                      style={[styles.input, styles.flex1]}
+                      value={bulkStock}
+                      onChangeText={setBulkStock}
+                      placeholder="Stock for all"
+                      placeholderTextColor="#999"
+                      keyboardType="number-pad"
+                    />
+                    <TouchableOpacity
+                      style={styles.bulkApply}
+                      onPress={() => handleBulkSet("stock", bulkStock)}
+                      disabled={!bulkStock}
+                    >
+                      <Check size={16} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
 
-                    <View style={styles.row}>
-                      <View style={[styles.field, styles.flex1]}>
-                        <Text style={styles.label}>Color</Text>
-                        <TextInput
-                          style={styles.input}
-                          value={variant.color}
-                          onChangeText={(v) =>
-                            handleVariantChange(index, "color", v)
-                          }
-                          placeholder="Color name"
-                          placeholderTextColor="#999"
-                        />
+                {showMatrix && (
+                  <VariantMatrixBuilder
+                    dimensions={dimensions}
+                    defaultSkuPrefix={
+                      formData.sku.trim().toUpperCase() ||
+                      skuCode(formData.name)
+                    }
+                    defaultPrice={formData.price}
+                    onGenerate={handleGenerateVariants}
+                  />
+                )}
+
+                {gridView ? (
+                  <ScrollView horizontal>
+                    <View>
+                      <View style={styles.gridRow}>
+                        <Text style={[styles.gridHeader, styles.gridOptions]}>
+                          Variant
+                        </Text>
+                        <Text style={[styles.gridHeader, styles.gridSku]}>
+                          SKU
+                        </Text>
+                        <Text style={[styles.gridHeader, styles.gridNumber]}>
+                          Price
+                        </Text>
+                        <Text style={[styles.gridHeader, styles.gridNumber]}>
+                          Stock
+                        </Text>
                       </View>
+                      {variants.map((variant, index) => (
+                        <View key={index} style={styles.gridRow}>
+                          <Text
+                            style={[styles.gridCellText, styles.gridOptions]}
+                            numberOfLines={2}
+                          >
+                            {variantValues(variant)
+                              .filter(Boolean)
+                              .join(" / ") || `Variant ${index + 1}`}
+                          </Text>
+                          <TextInput
+                            style={[styles.gridCell, styles.gridSku]}
+                            value={variant.sku}
+                            onChangeText={(v) =>
+                              handleVariantChange(index, "sku", v)
+                            }
+                            placeholder="SKU"
+                            placeholderTextColor="#999"
+                            autoCapitalize="characters"
+                          />
+                          <TextInput
+                            style={[styles.gridCell, styles.gridNumber]}
+                            value={variant.price}
+                            onChangeText={(v) =>
+                              handleVariantChange(index, "price", v)
+                            }
+                            keyboardType="decimal-pad"
+                          />
+                          <TextInput
+                            style={[styles.gridCell, styles.gridNumber]}
+                            value={variant.stock}
+                            onChangeText={(v) =>
+                              handleVariantChange(index, "stock", v)
+                            }
+                            keyboardType="number-pad"
+                          />
+                        </View>
+                      ))}
                     </View>
+                  </ScrollView>
+                ) : (
+                  variants.map((variant, index) => (
+                    <View key={index} style={styles.variantCard}>
+                      <View style={styles.variantHeader}>
+                        <Text style={styles.variantTitle}>
+                          Variant {index + 1}
+                        </Text>
+                        <TouchableOpacity
+                          onPress={() => handleRemoveVariant(index)}
+                        >
+                          <Trash2 size={18} color="#DC2626" />
+                        </TouchableOpacity>
+                      </View>
+
+                      {attributes.length > 0 ? (
+                        attributes.map((attribute) => {
+                          const value = variant.options[attribute.name] || "";
+                          return (
+                            <View key={attribute._id} style={styles.field}>
+                              <Text style={styles.label}>
+                                {attribute.name}
+                                {attribute.unit ? ` (${attribute.unit})` : ""}
+                              </Text>
+                              {attribute.type === "select" ? (
+                                <View style={styles.sizeOptions}>
+                                  {attribute.values.map((option) => (
+                                    <TouchableOpacity
+                                      key={option}
+                                      style={[
+                                        styles.sizeOption,
+                                        value === option &&
+                                          styles.sizeOptionActive,
+                                      ]}
+                                      onPress={() =>
+                                        handleVariantOptionChange(
+                                          index,
+                                          attribute.name,
+                                          option,
+                                        )
+                                      }
+                                    >
+                                      <Text
+                                        style={[
+                                          styles.sizeOptionText,
+                                          value === option &&
+                                            styles.sizeOptionTextActive,
+                                        ]}
+                                      >
+                                        {option}
+                                      </Text>
+                                    </TouchableOpacity>
+                                  ))}
+                                </View>
+                              ) : (
+                                <TextInput
+                                  style={styles.input}
+                                  value={value}
+                                  onChangeText={(v) =>
+                                    handleVariantOptionChange(
+                                      index,
+                                      attribute.name,
+                                      v,
+                                    )
+                                  }
+                                  placeholder={attribute.name}
+                                  placeholderTextColor="#999"
+                                  keyboardType={
+                                    attribute.type === "number"
+                                      ? "decimal-pad"
+                                      : "default"
+                                  }
+                                />
+                              )}
+                            </View>
+                          );
+                        })
+                      ) : (
+                        <>
+                          <View style={styles.row}>
+                            <View style={[styles.field, styles.flex1]}>
+                              <Text style={styles.label}>Size</Text>
+                              <View style={styles.sizeOptions}>
+                                {PRODUCT_SIZES.map((size) => (
+                                  <TouchableOpacity
+                                    key={size}
+                                    style={[
+                                      styles.sizeOption,
+                                      variant.size === size &&
+                                        styles.sizeOptionActive,
+                                    ]}
+                                    onPress={() =>
+                                      handleVariantChange(index, "size", size)
+                                    }
+                                  >
+                                    <Text
+                                      style={[
+                                        styles.sizeOptionText,
+                                        variant.size === size &&
+                                          styles.sizeOptionTextActive,
+                                      ]}
+                                    >
+                                      {size}
+                                    </Text>
+                                  </TouchableOpacity>
+                                ))}
+                              </View>
+                            </View>
+                          </View>
+
+                          <View style={styles.row}>
+                            <View style={[styles.field, styles.flex1]}>
+                              <Text style={styles.label}>Color</Text>
+                              <TextInput
+                                style={styles.input}
+                                value={variant.color}
+                                onChangeText={(v) =>
+                                  handleVariantChange(index, "color", v)
+                                }
+                                placeholder="Color name"
+                                placeholderTextColor="#999"
+                              />
+                            </View>
+                          </View>
+                        </>
+                      )}
 
-                    <View style={styles.row}>
-                      <View style={[styles.field, styles.flex1]}>
-                        <Text style={styles.label}>Price</Text>
+                      <View style={styles.field}>
+                        <Text style={styles.label}>SKU</Text>
                         <TextInput
                           style={styles.input}
-                          value={variant.price}
+                          value={variant.sku}
                           onChangeText={(v) =>
-                            handleVariantChange(index, "price", v)
+                            handleVariantChange(index, "sku", v)
                           }
-                          placeholder="0"
+                          placeholder="Optional"
                           placeholderTextColor="#999"
-                          keyboardType="decimal-pad"
+                          autoCapitalize="characters"
                         />
                       </View>
-                      <View style={[styles.field, styles.flex1]}>
-                        <Text style={styles.label}>Stock</Text>
-                        <TextInput
-                          style={styles.input}
-                          value={variant.stock}
-                          onChangeText={(v) =>
-                            handleVariantChange(index, "stock", v)
-                          }
-                          placeholder="0"
-                          placeholderTextColor="#999"
-                          keyboardType="number-pad"
-                        />
+
+                      <View style={styles.row}>
+                        <View style={[styles.field, styles.flex1]}>
+                          <Text style={styles.label}>Price</Text>
+                          <TextInput
+                            style={styles.input}
+                            value={variant.price}
+                            onChangeText={(v) =>
+                              handleVariantChange(index, "price", v)
+                            }
+                            placeholder="0"
+                            placeholderTextColor="#999"
+                            keyboardType="decimal-pad"
+                          />
+                        </View>
+                        <View style={[styles.field, styles.flex1]}>
+                          <Text style={styles.label}>Stock</Text>
+                          <TextInput
+                            style={styles.input}
+                            value={variant.stock}
+                            onChangeText={(v) =>
+                              handleVariantChange(index, "stock", v)
+                            }
+                            placeholder="0"
+                            placeholderTextColor="#999"
+                            keyboardType="number-pad"
+                          />
+                        </View>
                       </View>
-                    </View>
 
-                    {/* Variant Image */}
-                    <View style={styles.field}>
-                      <View style={styles.variantImageHeader}>
-                        <Text style={styles.label}>Variant Image</Text>
-                        {variantUploadStatus[index] === "uploading" && (
-                          <View style={styles.uploadStatusBadge}>
-                            <ActivityIndicator size="small" color="#666" />
-                            <Text style={styles.uploadStatusText}>
-                              Uploading...
-                            </Text>
-                          </View>
-                        )}
-                        {variantUploadStatus[index] === "success" && (
-                          <View
-                            style={[
-                              styles.uploadStatusBadge,
-                              styles.uploadStatusSuccess,
-                            ]}
-                          >
-                            <Check size={12} color="#16a34a" />
-                            <Text
+                      {/* Variant Image */}
+                      <View style={styles.field}>
+                        <View style={styles.variantImageHeader}>
+                          <Text style={styles.label}>Variant Image</Text>
+                          {variantUploadStatus[index] === "uploading" && (
+                            <View style={styles.uploadStatusBadge}>
+                              <ActivityIndicator size="small" color="#666" />
+                              <Text style={styles.uploadStatusText}>
+                                Uploading...
+                              </Text>
+                            </View>
+                          )}
+                          {variantUploadStatus[index] === "success" && (
+                            <View
                               style={[
-                                styles.uploadStatusText,
-                                { color: "#16a34a" },
+                                styles.uploadStatusBadge,
+                                styles.uploadStatusSuccess,
                               ]}
                             >
-                              Uploaded
-                            </Text>
-                          </View>
-                        )}
-                        {variantUploadStatus[index] === "failed" && (
-                          <View
-                            style={[
-                              styles.uploadStatusBadge,
-                              styles.uploadStatusFailed,
-                            ]}
-                          >
-                            <AlertCircle size={12} color="#dc2626" />
-                            <Text
+                              <Check size={12} color="#16a34a" />
+                              <Text
+                                style={[
+                                  styles.uploadStatusText,
+                                  { color: "#16a34a" },
+                                ]}
+                              >
+                                Uploaded
+                              </Text>
+                            </View>
+                          )}
+                          {variantUploadStatus[index] === "failed" && (
+                            <View
                               style={[
-                                styles.uploadStatusText,
-                                { color: "#dc2626" },
+                                styles.uploadStatusBadge,
+                                styles.uploadStatusFailed,
                               ]}
                             >
-                              Failed
-                            </Text>
-                          </View>
-                        )}
-                      </View>
-                      {variant.image ? (
-                        <View style={styles.variantImageContainer}>
-                          <Image
-                            source={{ uri: variant.image }}
-                            style={styles.variantImage}
-                            resizeMode="cover"
-                          />
-                          {/* Show image source indicator */}
-                          <View style={styles.imageSourceBadge}>
-                            <Text style={styles.imageSourceText}>
-                              {variant.image.startsWith("http")
-                                ? "Uploaded"
-                                : "Selected"}
-                            </Text>
+                              <AlertCircle size={12} color="#dc2626" />
+                              <Text
+                                style={[
+                                  styles.uploadStatusText,
+                                  { color: "#dc2626" },
+                                ]}
+                              >
+                                Failed
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+                        {variant.image ? (
+                          <View style={styles.variantImageContainer}>
+                            <Image
+                              source={{ uri: variant.image }}
+                              style={styles.variantImage}
+                              resizeMode="cover"
+                            />
+                            {/* Show image source indicator */}
+                            <View style={styles.imageSourceBadge}>
+                              <Text style={styles.imageSourceText}>
+                                {variant.image.startsWith("http")
+                                  ? "Uploaded"
+                                  : "Selected"}
+                              </Text>
+                            </View>
+                            <TouchableOpacity
+                              style={styles.variantImageRemove}
+                              onPress={() => handleRemoveVariantImage(index)}
+                            >
+                              <X size={14} color="#fff" />
+                            </TouchableOpacity>
                           </View>
+                        ) : (
                           <TouchableOpacity
-                            style={styles.variantImageRemove}
-                            onPress={() => handleRemoveVariantImage(index)}
+                            style={styles.variantImagePicker}
+                            onPress={() => handlePickVariantImage(index)}
                           >
-                            <X size={14} color="#fff" />
+                            <Camera size={20} color="#666" />
+                            <Text style={styles.variantImagePickerText}>
+                              Add Image
+                            </Text>
                           </TouchableOpacity>
-                        </View>
-                      ) : (
-                        <TouchableOpacity
-                          style={styles.variantImagePicker}
-                          onPress={() => handlePickVariantImage(index)}
-                        >
-                          <Camera size={20} color="#666" />
-                          <Text style={styles.variantImagePickerText}>
-                            Add Image
-                          </Text>
-                        </TouchableOpacity>
-                      )}
+                        )}
+                      </View>
                     </View>
-                  </View>
-                ))}
+                  ))
+                )}
 
                 <TouchableOpacity
                   style={styles.addVariantButton}
@@ -1139,6 +1564,79 @@ const styles = StyleSheet.create({
   sizeOptionTextActive: {
     color: "#fff",
   },
+  bulkActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  bulkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+  },
+  bulkButtonPrimary: {
+    backgroundColor: "#1a1a1a",
+  },
+  bulkButtonText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#1a1a1a",
+  },
+  bulkButtonTextPrimary: {
+    color: "#fff",
+  },
+  bulkField: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  bulkApply: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 10,
+  },
+  gridRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  gridHeader: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  gridOptions: {
+    width: 120,
+  },
+  gridSku: {
+    width: 130,
+  },
+  gridNumber: {
+    width: 70,
+  },
+  gridCellText: {
+    fontSize: 13,
+    color: "#1a1a1a",
+  },
+  gridCell: {
+    backgroundColor: "#f8f9fa",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    color: "#1a1a1a",
+  },
   addVariantButton: {
     flexDirection: "row",
     alignItems: "center",
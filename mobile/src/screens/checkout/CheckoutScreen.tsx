@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   Text,
@@ -18,13 +18,22 @@ import {
   SafeAreaView,
   useSafeAreaInsets,
 } from "react-native-safe-area-context";
-import { MapPin, CreditCard } from "lucide-react-native";
+import { MapPin, CreditCard, Tag, Truck, X } from "lucide-react-native";
 import { useAppDispatch, useAppSelector } from "../../store/hooks";
-import { resetCart } from "../../store/cartSlice";
+import { resetCart, applyCoupon, removeCoupon } from "../../store/cartSlice";
 import { ordersAPI, paymentsAPI } from "../../api/orders";
+import { shippingAPI } from "../../api/shipping";
+import { authAPI } from "../../api/auth";
+import type { IAddress, IShippingOption, IStockShortage } from "@shared/types";
 import type { CheckoutScreenProps } from "../../navigation/types";
 
-type PaymentMethod = "cod" | "esewa";
+type PaymentMethod = "cod" | "esewa" | "fonepay" | "mock";
+
+// Offered only when the backend has them enabled
+const OPTIONAL_METHODS: { id: PaymentMethod; label: string }[] = [
+  { id: "fonepay", label: "Bank QR" },
+  { id: "mock", label: "Test" },
+];
 
 interface ShippingAddress {
   name: string;
@@ -35,12 +44,24 @@ interface ShippingAddress {
   phone: string;
 }
 
+// Checkout form fields from a saved address
+const toShippingForm = (address: IAddress): ShippingAddress => ({
+  name: address.name,
+  street: address.street,
+  city: address.city,
+  district: address.district,
+  province: String(address.province),
+  phone: address.phone,
+});
+
 // eSewa QR image
 const esewaQRImage = require("../../../assets/esewaQR.png");
 
 const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
   const dispatch = useAppDispatch();
-  const { subtotal } = useAppSelector((state) => state.cart);
+  const { subtotal, coupon, couponError, discount } = useAppSelector(
+    (state) => state.cart,
+  );
   const { user } = useAppSelector((state) => state.auth);
 
   const [shipping, setShipping] = useState<ShippingAddress>({
@@ -53,12 +74,124 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
   });
 
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cod");
+  const [enabledMethods, setEnabledMethods] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
   const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponLoading, setCouponLoading] = useState(false);
+  const [shippingOptions, setShippingOptions] = useState<IShippingOption[]>([]);
+  const [selectedShippingRule, setSelectedShippingRule] = useState<
+    string | null
+  >(null);
+  const [shippingLoading, setShippingLoading] = useState(false);
+  const [savedAddresses, setSavedAddresses] = useState<IAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(
+    null,
+  );
+
+  const selectSavedAddress = (address: IAddress): void => {
+    setSelectedAddressId(address._id);
+    setShipping(toShippingForm(address));
+  };
+
+  // Fonepay needs merchant keys and the mock gateway a non-production backend
+  useEffect(() => {
+    paymentsAPI
+      .getMethods()
+      .then((response) =>
+        setEnabledMethods((response.data?.methods || []).map((m) => m.id)),
+      )
+      .catch(() => setEnabledMethods([]));
+  }, []);
+
+  // Start from the default saved address
+  useEffect(() => {
+    authAPI
+      .getAddresses()
+      .then((response) => {
+        const addresses = response.data?.addresses || [];
+        setSavedAddresses(addresses);
+        const preferred = addresses.find((a) => a.isDefault) || addresses[0];
+        if (preferred) {
+          setSelectedAddressId(preferred._id);
+          setShipping(toShippingForm(preferred));
+        }
+      })
+      .catch(() => setSavedAddresses([]));
+  }, []);
+
+  const selectedShipping =
+    shippingOptions.find((o) => o.ruleId === selectedShippingRule) ||
+    shippingOptions[0];
+  const shippingCost = selectedShipping?.cost || 0;
+  const total = subtotal + shippingCost - discount;
+
+  // Re-quote shipping when the destination or cart value changes
+  useEffect(() => {
+    const district = shipping.district.trim();
+    const province = parseInt(shipping.province, 10);
+    if (!district || !(province >= 1 && province <= 7)) {
+      setShippingOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setShippingLoading(true);
+      try {
+        const response = await shippingAPI.getQuote({ district, province });
+        if (cancelled) return;
+        const options = response.data?.options || [];
+        setShippingOptions(options);
+        setSelectedShippingRule((current) =>
+          options.some((o) => o.ruleId === current)
+            ? current
+            : options[0]?.ruleId || null,
+        );
+      } catch {
+        if (!cancelled) setShippingOptions([]);
+      } finally {
+        if (!cancelled) setShippingLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shipping.district, shipping.province, subtotal]);
+
+  const handleApplyCoupon = async (): Promise<void> => {
+    const code = couponInput.trim();
+    if (!code) return;
+
+    setCouponLoading(true);
+    try {
+      await dispatch(applyCoupon(code)).unwrap();
+      setCouponInput("");
+    } catch (message) {
+      Alert.alert("Coupon", (message as string) || "Invalid coupon code");
+    } finally {
+      setCouponLoading(false);
+    }
+  };
+
+  const handleRemoveCoupon = async (): Promise<void> => {
+    setCouponLoading(true);
+    try {
+      await dispatch(removeCoupon()).unwrap();
+    } catch (message) {
+      Alert.alert("Coupon", (message as string) || "Failed to remove coupon");
+    } finally {
+      setCouponLoading(false);
+    }
+  };
 
   const handleChange = (key: keyof ShippingAddress, value: string): void => {
     setShipping((prev) => ({ ...prev, [key]: value }));
+    // Edited details no longer match the saved address
+    setSelectedAddressId(null);
   };
 
   const handlePlaceOrder = async (): Promise<void> => {
@@ -77,15 +210,21 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
     try {
       // 1. Create Order
       const orderPayload = {
-        shippingAddress: {
-          name: shipping.name,
-          street: shipping.street || "N/A",
-          city: shipping.city,
-          district: shipping.district,
-          province: parseInt(shipping.province, 10),
-          phone: shipping.phone,
-        },
+        ...(selectedAddressId
+          ? { addressId: selectedAddressId }
+          : {
+              shippingAddress: {
+                name: shipping.name,
+                street: shipping.street || "N/A",
+                city: shipping.city,
+                district: shipping.district,
+                province: parseInt(shipping.province, 10),
+                phone: shipping.phone,
+              },
+            }),
         paymentMethod,
+        couponCode: coupon?.code || null,
+        shippingRuleId: selectedShippingRule,
       };
 
       const orderRes = await ordersAPI.createOrder(
@@ -108,7 +247,7 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
         setPendingOrderId(orderId);
         setShowQRModal(true);
         setLoading(false);
-      } else if (paymentMethod === "esewa") {
+      } else {
         // Navigate to Payment WebView
         navigation.navigate("Payment", {
           orderId,
@@ -117,16 +256,31 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
             redirectUrl?: string;
             url?: string;
             payment_url?: string;
-            formData?: Record<string, string>;
+            formData?: Record<string, string | number>;
           },
         });
       }
     } catch (error: unknown) {
       console.error(error);
-      const err = error as { response?: { data?: { message?: string } } };
+      const err = error as {
+        response?: {
+          status?: number;
+          data?: { message?: string; errors?: IStockShortage[] };
+        };
+      };
+      const shortages =
+        err.response?.status === 409 ? err.response.data?.errors : undefined;
       Alert.alert(
         "Checkout Failed",
-        err.response?.data?.message || "Failed to place order",
+        shortages
+          ? shortages
+              .map((s) =>
+                s.available > 0
+                  ? `${s.name}: only ${s.available} left`
+                  : `${s.name}: out of stock`,
+              )
+              .join("\n")
+          : err.response?.data?.message || "Failed to place order",
       );
     } finally {
       setLoading(false);
@@ -150,6 +304,32 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
               <MapPin size={20} color="#000" />
               <Text style={styles.sectionTitle}>Shipping Address</Text>
             </View>
+            {savedAddresses.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.savedAddresses}
+              >
+                {savedAddresses.map((address) => (
+                  <TouchableOpacity
+                    key={address._id}
+                    style={[
+                      styles.savedAddressChip,
+                      selectedAddressId === address._id &&
+                        styles.selectedOption,
+                    ]}
+                    onPress={() => selectSavedAddress(address)}
+                  >
+                    <Text style={styles.shippingName}>
+                      {address.label || address.name}
+                    </Text>
+                    <Text style={styles.mutedText} numberOfLines={1}>
+                      {address.city}, {address.district}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
             <TextInput
               style={styles.input}
               placeholder="Full Name"
@@ -186,6 +366,48 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
             />
           </View>
 
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Truck size={20} color="#000" />
+              <Text style={styles.sectionTitle}>Shipping Method</Text>
+              {shippingLoading && (
+                <ActivityIndicator
+                  size="small"
+                  color="#FF9999"
+                  style={{ marginLeft: 8 }}
+                />
+              )}
+            </View>
+            {shippingOptions.length === 0 ? (
+              <Text style={styles.mutedText}>
+                Enter your district and province to see delivery options.
+              </Text>
+            ) : (
+              shippingOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.ruleId || option.name}
+                  style={[
+                    styles.shippingOption,
+                    selectedShipping?.ruleId === option.ruleId &&
+                      styles.selectedOption,
+                  ]}
+                  onPress={() => setSelectedShippingRule(option.ruleId)}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.shippingName}>{option.name}</Text>
+                    <Text style={styles.mutedText}>
+                      {option.zoneName} • {option.estimatedDays.min}-
+                      {option.estimatedDays.max} days
+                    </Text>
+                  </View>
+                  <Text style={styles.shippingName}>
+                    {option.isFree ? "Free" : `Rs. ${option.cost}`}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <CreditCard size={20} color="#000" />
@@ -224,7 +446,79 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
                   eSewa
                 </Text>
               </TouchableOpacity>
+              {OPTIONAL_METHODS.filter((m) =>
+                enabledMethods.includes(m.id),
+              ).map((method) => (
+                <TouchableOpacity
+                  key={method.id}
+                  style={[
+                    styles.paymentOption,
+                    paymentMethod === method.id && styles.selectedOption,
+                  ]}
+                  onPress={() => setPaymentMethod(method.id)}
+                >
+                  <Text
+                    style={[
+                      styles.paymentText,
+                      paymentMethod === method.id && styles.selectedText,
+                    ]}
+                  >
+                    {method.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Tag size={20} color="#000" />
+              <Text style={styles.sectionTitle}>Promo Code</Text>
             </View>
+            {coupon ? (
+              <View style={styles.appliedCoupon}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.appliedCouponCode}>{coupon.code}</Text>
+                  {coupon.description ? (
+                    <Text style={styles.appliedCouponText}>
+                      {coupon.description}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity
+                  onPress={handleRemoveCoupon}
+                  disabled={couponLoading}
+                  accessibilityLabel="Remove coupon"
+                >
+                  <X size={18} color="#2E7D32" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.couponInput]}
+                  placeholder="Enter code"
+                  value={couponInput}
+                  onChangeText={(t) => setCouponInput(t.toUpperCase())}
+                  autoCapitalize="characters"
+                  maxLength={30}
+                />
+                <TouchableOpacity
+                  style={styles.applyButton}
+                  onPress={handleApplyCoupon}
+                  disabled={couponLoading || !couponInput.trim()}
+                >
+                  {couponLoading ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.applyButtonText}>Apply</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+            {couponError ? (
+              <Text style={styles.couponError}>{couponError}</Text>
+            ) : null}
           </View>
 
           <View style={styles.summary}>
@@ -233,13 +527,21 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
               <Text>Subtotal</Text>
               <Text>Rs. {subtotal}</Text>
             </View>
+            {discount > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.discountText}>
+                  Discount ({coupon?.code})
+                </Text>
+                <Text style={styles.discountText}>- Rs. {discount}</Text>
+              </View>
+            )}
             <View style={styles.summaryRow}>
               <Text>Shipping</Text>
-              <Text>Rs. 0</Text>
+              <Text>{shippingCost === 0 ? "Free" : `Rs. ${shippingCost}`}</Text>
             </View>
             <View style={[styles.summaryRow, styles.totalRow]}>
               <Text style={styles.totalText}>Total</Text>
-              <Text style={styles.totalText}>Rs. {subtotal}</Text>
+              <Text style={styles.totalText}>Rs. {total}</Text>
             </View>
           </View>
 
@@ -255,7 +557,7 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation }) => {
               <ActivityIndicator color="#fff" />
             ) : (
               <Text style={styles.placeOrderText}>
-                Place Order - Rs. {subtotal}
+                Place Order - Rs. {total}
               </Text>
             )}
           </TouchableOpacity>
@@ -395,6 +697,78 @@ const styles = StyleSheet.create({
     color: "#FF9999",
     fontWeight: "700",
   },
+  savedAddresses: {
+    marginBottom: 12,
+  },
+  savedAddressChip: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#EFEFEF",
+    borderRadius: 12,
+    marginRight: 10,
+    maxWidth: 180,
+    backgroundColor: "#FAFAFA",
+  },
+  shippingOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderWidth: 1,
+    borderColor: "#EFEFEF",
+    borderRadius: 12,
+    marginBottom: 10,
+    backgroundColor: "#FAFAFA",
+  },
+  shippingName: {
+    fontWeight: "600",
+    color: "#4A4A4A",
+  },
+  mutedText: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  couponInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  applyButton: {
+    backgroundColor: "#FF9999",
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  applyButtonText: {
+    color: "#fff",
+    fontWeight: "700",
+  },
+  appliedCoupon: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#C8E6C9",
+    backgroundColor: "#F1F8E9",
+  },
+  appliedCouponCode: {
+    fontWeight: "700",
+    color: "#2E7D32",
+  },
+  appliedCouponText: {
+    fontSize: 12,
+    color: "#2E7D32",
+    marginTop: 2,
+  },
+  couponError: {
+    color: "#E53935",
+    fontSize: 12,
+    marginTop: 8,
+  },
+  discountText: {
+    color: "#2E7D32",
+  },
   summary: {
     backgroundColor: "#FAFAFA",
     padding: 20,
@@ -1,8 +1,16 @@
-import React, { useState } from "react";
-import { View, StyleSheet, ActivityIndicator, Alert } from "react-native";
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
 import { WebView } from "react-native-webview";
 import { useAppDispatch } from "../../store/hooks";
 import { resetCart } from "../../store/cartSlice";
+import { paymentsAPI } from "../../api/orders";
 import type { PaymentScreenProps } from "../../navigation/types";
 
 interface WebViewNavState {
@@ -13,10 +21,46 @@ interface WebViewNavState {
   canGoForward?: boolean;
 }
 
+// How often the QR payment status is checked while the customer pays
+const QR_POLL_INTERVAL_MS = 3000;
+
 const PaymentScreen: React.FC<PaymentScreenProps> = ({ route, navigation }) => {
   const { orderId, gateway, paymentData } = route.params;
   const dispatch = useAppDispatch();
   const [loading, setLoading] = useState(true);
+  const isQr = gateway === "fonepay";
+
+  // QR payments have no redirect, so ask the backend until the bank answers
+  useEffect(() => {
+    if (!isQr) return;
+
+    let settled = false;
+    const timer = setInterval(async () => {
+      try {
+        const response = await paymentsAPI.getPaymentStatus(orderId);
+        if (settled) return;
+
+        if (response.data?.paymentStatus === "paid") {
+          settled = true;
+          clearInterval(timer);
+          dispatch(resetCart());
+          Alert.alert("Success", "Payment Successful!", [
+            { text: "OK", onPress: () => navigation.getParent()?.goBack() },
+          ]);
+        } else if (response.data?.gatewayStatus === "failed") {
+          settled = true;
+          clearInterval(timer);
+          Alert.alert("Failed", "Payment Failed", [
+            { text: "Try Again", onPress: () => navigation.goBack() },
+          ]);
+        }
+      } catch {
+        // Keep polling; a dropped request shouldn't end the payment
+      }
+    }, QR_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isQr, orderId, dispatch, navigation]);
 
   let html = "";
   let uri = "";
@@ -42,7 +86,7 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ route, navigation }) => {
         </body>
       </html>
     `;
-  } else if (gateway === "khalti") {
+  } else if (gateway === "khalti" || gateway === "mock") {
     uri =
       paymentData.redirectUrl ||
       paymentData.payment_url ||
@@ -54,13 +98,18 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ route, navigation }) => {
     // Check for success/failure in URL
     const url = navState.url;
 
-    // Adjust these checks based on actual backend success/fail redirect URLs
-    if (url.includes("payment/success") || url.includes("success=true")) {
+    // Gateway callbacks end on the backend's order-success/order-failed redirects
+    if (
+      url.includes("/order-success") ||
+      url.includes("payment/success") ||
+      url.includes("success=true")
+    ) {
       dispatch(resetCart());
       Alert.alert("Success", "Payment Successful!", [
         { text: "OK", onPress: () => navigation.getParent()?.goBack() },
       ]);
     } else if (
+      url.includes("/order-failed") ||
       url.includes("payment/failure") ||
       url.includes("failure=true")
     ) {
@@ -70,6 +119,28 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ route, navigation }) => {
     }
   };
 
+  if (isQr) {
+    return (
+      <View style={[styles.container, styles.qrContainer]}>
+        <Text style={styles.qrTitle}>Scan to Pay</Text>
+        <Text style={styles.qrAmount}>Rs. {paymentData.formData?.amount}</Text>
+        <Image
+          source={{ uri: String(paymentData.formData?.qrImage || "") }}
+          style={styles.qrImage}
+          resizeMode="contain"
+        />
+        <Text style={styles.qrHint}>
+          Open your bank app, ConnectIPS or wallet and scan this code. This
+          screen updates on its own once the payment goes through.
+        </Text>
+        <View style={styles.qrWaiting}>
+          <ActivityIndicator size="small" color="#000" />
+          <Text style={styles.qrWaitingText}>Waiting for payment...</Text>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <WebView
@@ -99,6 +170,43 @@ const styles = StyleSheet.create({
     alignItems: "center",
     backgroundColor: "rgba(255,255,255,0.8)",
   },
+  qrContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  qrTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  qrAmount: {
+    fontSize: 16,
+    color: "#666",
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  qrImage: {
+    width: 250,
+    height: 250,
+    borderWidth: 1,
+    borderColor: "#eee",
+    borderRadius: 8,
+  },
+  qrHint: {
+    textAlign: "center",
+    color: "#444",
+    marginTop: 16,
+    lineHeight: 20,
+  },
+  qrWaiting: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 24,
+  },
+  qrWaitingText: {
+    marginLeft: 8,
+    color: "#666",
+  },
 });
 
 export default PaymentScreen;
@@ -2,7 +2,7 @@
  * Order Detail Screen
  * Displays detailed information about a single order
  */
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -23,9 +23,17 @@ import {
   Phone,
   User,
   X,
+  RefreshCw,
 } from "lucide-react-native";
 import { useGetOrderQuery, useCancelOrderMutation } from "../../store/api";
+import { paymentsAPI } from "../../api/orders";
+import OrderReturnsSection from "./OrderReturnsSection";
+import OrderTrackingSection from "./OrderTrackingSection";
 import type { OrderDetailScreenProps } from "../../navigation/types";
+import type { IPaymentMethod, PaymentMethod } from "@shared/types";
+
+// Gateways the in-app payment screen can hand off to
+const RETRY_METHODS: PaymentMethod[] = ["cod", "esewa", "fonepay", "mock"];
 
 const getStatusColor = (status: string): string => {
   const colors: Record<string, string> = {
@@ -63,6 +71,54 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({
   } = useGetOrderQuery(orderId);
 
   const [cancelOrder, { isLoading: isCancelling }] = useCancelOrderMutation();
+  const [retryMethods, setRetryMethods] = useState<IPaymentMethod[]>([]);
+  const [retryMethod, setRetryMethod] = useState<PaymentMethod | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    paymentsAPI
+      .getMethods()
+      .then((response) =>
+        setRetryMethods(
+          (response.data?.methods || []).filter((m) =>
+            RETRY_METHODS.includes(m.id),
+          ),
+        ),
+      )
+      .catch((error) => console.error("Failed to load payment methods", error));
+  }, []);
+
+  const handleRetryPayment = async (): Promise<void> => {
+    if (!retryMethod) return;
+
+    setIsRetrying(true);
+    try {
+      const paymentRes = await paymentsAPI.retryPayment(orderId, retryMethod);
+      const paymentData =
+        (paymentRes as unknown as Record<string, unknown>).data || paymentRes;
+
+      if (retryMethod === "cod") {
+        Alert.alert(
+          "Payment Updated",
+          "You will pay with cash when the order is delivered.",
+        );
+        refetch();
+      } else {
+        (navigation as any).navigate("App", {
+          screen: "Payment",
+          params: { orderId, gateway: retryMethod, paymentData },
+        });
+      }
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      Alert.alert(
+        "Payment Failed",
+        err.response?.data?.message || "Failed to retry payment",
+      );
+    } finally {
+      setIsRetrying(false);
+    }
+  };
 
   const handleCancelOrder = (): void => {
     Alert.alert("Cancel Order", "Are you sure you want to cancel this order?", [
@@ -104,6 +160,16 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({
 
   const orderStatus = order.status || order.orderStatus || "pending";
   const canCancel = ["pending", "processing"].includes(orderStatus);
+  const currentPaymentMethod = order.paymentMethod || order.payment?.method;
+  const canRetryPayment =
+    orderStatus === "pending" &&
+    currentPaymentMethod !== "cod" &&
+    ["pending", "failed"].includes(
+      order.paymentStatus || order.payment?.status || "",
+    );
+  const retryOptions = retryMethods.filter(
+    (m) => m.id !== "cod" || currentPaymentMethod !== "cod",
+  );
 
   return (
     <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
@@ -239,6 +305,48 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({
           </View>
         </View>
 
+        {/* Retry Payment */}
+        {canRetryPayment && retryOptions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Complete Payment</Text>
+            <View style={styles.infoCard}>
+              {retryOptions.map((method) => (
+                <TouchableOpacity
+                  key={method.id}
+                  style={[
+                    styles.retryOption,
+                    retryMethod === method.id && styles.retryOptionSelected,
+                  ]}
+                  onPress={() => setRetryMethod(method.id)}
+                >
+                  <Text style={styles.retryOptionText}>{method.name}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[
+                  styles.retryPaymentButton,
+                  !retryMethod && styles.retryPaymentButtonDisabled,
+                ]}
+                onPress={handleRetryPayment}
+                disabled={!retryMethod || isRetrying}
+              >
+                {isRetrying ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <>
+                    <RefreshCw size={18} color="#fff" />
+                    <Text style={styles.retryButtonText}>
+                      {retryMethod === "cod"
+                        ? "Switch to Cash on Delivery"
+                        : "Retry Payment"}
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Order Summary */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Order Summary</Text>
@@ -279,6 +387,20 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({
           </View>
         </View>
 
+        {/* Courier tracking */}
+        {order.shipment && (
+          <OrderTrackingSection
+            orderId={orderId}
+            shipment={order.shipment}
+            onDelivered={orderStatus === "shipped" ? refetch : undefined}
+          />
+        )}
+
+        {/* Returns and exchanges */}
+        {orderStatus === "delivered" && (
+          <OrderReturnsSection orderId={orderId} />
+        )}
+
         {/* Status History */}
         {order.statusHistory && order.statusHistory.length > 0 && (
           <View style={styles.section}>
@@ -453,6 +575,35 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  retryOption: {
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  retryOptionSelected: {
+    borderColor: "#000",
+    backgroundColor: "#F5F5F5",
+  },
+  retryOptionText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#333",
+  },
+  retryPaymentButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#000",
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 4,
+    gap: 8,
+  },
+  retryPaymentButtonDisabled: {
+    opacity: 0.5,
+  },
   summaryCard: {
     backgroundColor: "#fff",
     borderRadius: 12,
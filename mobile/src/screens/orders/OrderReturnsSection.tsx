@@ -0,0 +1,657 @@
+/**
+ * Order Returns Section
+ * Request a return or size exchange on a delivered order and follow its progress
+ */
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import * as ImagePicker from "expo-image-picker";
+import { ImagePlus, X } from "lucide-react-native";
+import { returnsAPI } from "../../api/returns";
+import QuantitySelector from "../../components/QuantitySelector";
+import type {
+  IReturnEligibility,
+  IReturnRequest,
+  ReturnReason,
+  ReturnRequestType,
+  ReturnStatus,
+} from "@shared/types";
+
+const MAX_PHOTOS = 5;
+
+const REASONS: { value: ReturnReason; label: string }[] = [
+  { value: "wrong_size", label: "Wrong size" },
+  { value: "damaged", label: "Arrived damaged" },
+  { value: "defective", label: "Defective" },
+  { value: "wrong_item", label: "Wrong item sent" },
+  { value: "not_as_described", label: "Not as described" },
+  { value: "changed_mind", label: "Changed my mind" },
+  { value: "other", label: "Other" },
+];
+
+const STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  pickup_scheduled: "Pickup scheduled",
+  received: "Received",
+  inspected: "Inspected",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const getStatusColor = (status: ReturnStatus): string => {
+  const colors: Partial<Record<ReturnStatus, string>> = {
+    requested: "#FFA500",
+    completed: "#4CAF50",
+    rejected: "#F44336",
+    cancelled: "#999",
+  };
+  return colors[status] || "#2196F3";
+};
+
+const variantLabel = (variant?: { size?: string; color?: string }): string =>
+  [variant?.size, variant?.color].filter(Boolean).join(" / ");
+
+interface OrderReturnsSectionProps {
+  orderId: string;
+}
+
+const OrderReturnsSection: React.FC<OrderReturnsSectionProps> = ({
+  orderId,
+}) => {
+  const [eligibility, setEligibility] = useState<IReturnEligibility | null>(
+    null,
+  );
+  const [returns, setReturns] = useState<IReturnRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [type, setType] = useState<ReturnRequestType>("return");
+  const [reason, setReason] = useState<ReturnReason>("wrong_size");
+  const [reasonDetails, setReasonDetails] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [exchangeVariants, setExchangeVariants] = useState<
+    Record<string, string>
+  >({});
+  const [photos, setPhotos] = useState<string[]>([]);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      const [eligibilityRes, returnsRes] = await Promise.all([
+        returnsAPI.getEligibility(orderId),
+        returnsAPI.getMyReturns({ order: orderId, limit: 50 }),
+      ]);
+      setEligibility(eligibilityRes.data);
+      setReturns(returnsRes.data.returns);
+    } catch (error) {
+      console.error("Failed to load returns", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  const resetForm = (): void => {
+    setShowForm(false);
+    setType("return");
+    setReason("wrong_size");
+    setReasonDetails("");
+    setQuantities({});
+    setExchangeVariants({});
+    setPhotos([]);
+  };
+
+  const handlePickPhotos = async (): Promise<void> => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert(
+        "Permission Required",
+        "Please allow access to your photo library",
+      );
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets) {
+      setPhotos((prev) =>
+        [...prev, ...result.assets.map((a) => a.uri)].slice(0, MAX_PHOTOS),
+      );
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!eligibility) return;
+
+    const items = eligibility.items
+      .filter((item) => (quantities[item.itemId] || 0) > 0)
+      .map((item) => ({
+        itemId: item.itemId,
+        quantity: quantities[item.itemId],
+        ...(type === "exchange" && {
+          exchangeVariantId: exchangeVariants[item.itemId],
+        }),
+      }));
+
+    if (items.length === 0) {
+      Alert.alert("Return", "Choose at least one item to return");
+      return;
+    }
+    if (type === "exchange" && items.some((item) => !item.exchangeVariantId)) {
+      Alert.alert("Exchange", "Choose the size you would like instead");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      let uploaded: { url: string; publicId?: string }[] = [];
+      if (photos.length > 0) {
+        const photoRes = await returnsAPI.uploadPhotos(photos);
+        uploaded = photoRes.data.photos;
+      }
+
+      const response = await returnsAPI.createReturn({
+        orderId,
+        type,
+        reason,
+        reasonDetails: reasonDetails.trim() || undefined,
+        photos: uploaded,
+        items,
+      });
+      Alert.alert("Success", response.message || "Return requested");
+      resetForm();
+      await loadReturns();
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      Alert.alert(
+        "Error",
+        err.response?.data?.message || "Failed to request return",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = (returnId: string): void => {
+    Alert.alert("Withdraw Request", "Withdraw this return request?", [
+      { text: "No", style: "cancel" },
+      {
+        text: "Yes, Withdraw",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await returnsAPI.cancelReturn(returnId);
+            await loadReturns();
+          } catch (error: unknown) {
+            const err = error as {
+              response?: { data?: { message?: string } };
+            };
+            Alert.alert(
+              "Error",
+              err.response?.data?.message || "Failed to cancel return request",
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loader} color="#000" />;
+  }
+
+  if (!eligibility || (!eligibility.eligible && returns.length === 0)) {
+    return null;
+  }
+
+  const returnableItems = eligibility.items.filter(
+    (item) => item.returnable > 0,
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Returns & Exchanges</Text>
+      <View style={styles.card}>
+        {eligibility.eligible && eligibility.deadline && (
+          <Text style={styles.hint}>
+            You can request a return or size exchange until{" "}
+            {new Date(eligibility.deadline).toLocaleDateString()}.
+          </Text>
+        )}
+
+        {/* Existing requests */}
+        {returns.map((returnRequest) => (
+          <View key={returnRequest._id} style={styles.returnCard}>
+            <View style={styles.returnHeader}>
+              <Text style={styles.returnNumber}>
+                {returnRequest.returnNumber}
+              </Text>
+              <Text
+                style={[
+                  styles.statusText,
+                  { color: getStatusColor(returnRequest.status) },
+                ]}
+              >
+                {STATUS_LABELS[returnRequest.status]}
+              </Text>
+            </View>
+            {returnRequest.items.map((item) => (
+              <Text key={item._id} style={styles.returnItem}>
+                {item.quantity} × {item.name}
+                {variantLabel(item.variant)
+                  ? ` (${variantLabel(item.variant)})`
+                  : ""}
+                {item.exchangeVariant
+                  ? ` → ${variantLabel(item.exchangeVariant)}`
+                  : ""}
+              </Text>
+            ))}
+            {returnRequest.pickup?.scheduledFor && (
+              <Text style={styles.returnItem}>
+                Pickup on{" "}
+                {new Date(
+                  returnRequest.pickup.scheduledFor,
+                ).toLocaleDateString()}
+                {returnRequest.pickup.courier
+                  ? ` by ${returnRequest.pickup.courier}`
+                  : ""}
+              </Text>
+            )}
+            {returnRequest.rejectionReason && (
+              <Text style={styles.rejection}>
+                {returnRequest.rejectionReason}
+              </Text>
+            )}
+            {returnRequest.resolution?.type === "refund" && (
+              <Text style={styles.resolution}>
+                Refund of Rs.{" "}
+                {returnRequest.resolution.refundAmount?.toFixed(2)} issued
+              </Text>
+            )}
+            {returnRequest.resolution?.type === "replacement" && (
+              <Text style={styles.resolution}>Replacement order created</Text>
+            )}
+            {["requested", "approved"].includes(returnRequest.status) && (
+              <TouchableOpacity onPress={() => handleCancel(returnRequest._id)}>
+                <Text style={styles.withdrawText}>Withdraw request</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        {eligibility.eligible && !showForm && (
+          <TouchableOpacity
+            style={styles.outlineButton}
+            onPress={() => setShowForm(true)}
+          >
+            <Text style={styles.outlineButtonText}>Request a return</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* New request */}
+        {showForm && (
+          <View>
+            <View style={styles.chipRow}>
+              {(
+                [
+                  { value: "return", label: "Refund" },
+                  { value: "exchange", label: "Exchange size" },
+                ] as const
+              ).map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    type === option.value && styles.chipSelected,
+                  ]}
+                  onPress={() => setType(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      type === option.value && styles.chipTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {returnableItems.map((item) => (
+              <View key={item.itemId} style={styles.formItem}>
+                <View style={styles.formItemRow}>
+                  <Text style={styles.formItemName} numberOfLines={2}>
+                    {item.name}
+                    {variantLabel(item.variant)
+                      ? ` (${variantLabel(item.variant)})`
+                      : ""}
+                  </Text>
+                  <QuantitySelector
+                    value={quantities[item.itemId] || 0}
+                    min={0}
+                    max={item.returnable}
+                    onIncrement={() =>
+                      setQuantities({
+                        ...quantities,
+                        [item.itemId]: (quantities[item.itemId] || 0) + 1,
+                      })
+                    }
+                    onDecrement={() =>
+                      setQuantities({
+                        ...quantities,
+                        [item.itemId]: (quantities[item.itemId] || 0) - 1,
+                      })
+                    }
+                  />
+                </View>
+                {type === "exchange" && (quantities[item.itemId] || 0) > 0 && (
+                  <View style={styles.chipRow}>
+                    {item.exchangeOptions.length === 0 ? (
+                      <Text style={styles.hint}>No other sizes in stock</Text>
+                    ) : (
+                      item.exchangeOptions.map((option) => (
+                        <TouchableOpacity
+                          key={option.variantId}
+                          style={[
+                            styles.chip,
+                            exchangeVariants[item.itemId] ===
+                              option.variantId && styles.chipSelected,
+                          ]}
+                          onPress={() =>
+                            setExchangeVariants({
+                              ...exchangeVariants,
+                              [item.itemId]: option.variantId,
+                            })
+                          }
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              exchangeVariants[item.itemId] ===
+                                option.variantId && styles.chipTextSelected,
+                            ]}
+                          >
+                            {variantLabel(option)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))
+                    )}
+                  </View>
+                )}
+              </View>
+            ))}
+
+            <Text style={styles.label}>Reason</Text>
+            <View style={styles.chipRow}>
+              {REASONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    reason === option.value && styles.chipSelected,
+                  ]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      reason === option.value && styles.chipTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              value={reasonDetails}
+              onChangeText={setReasonDetails}
+              placeholder="Details (optional)"
+              multiline
+              maxLength={1000}
+            />
+
+            <Text style={styles.label}>Photos (up to {MAX_PHOTOS})</Text>
+            <View style={styles.photoRow}>
+              {photos.map((uri, index) => (
+                <View key={uri} style={styles.photo}>
+                  <Image source={{ uri }} style={styles.photoImage} />
+                  <TouchableOpacity
+                    style={styles.photoRemove}
+                    onPress={() =>
+                      setPhotos(photos.filter((_, i) => i !== index))
+                    }
+                  >
+                    <X size={12} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <TouchableOpacity
+                  style={[styles.photo, styles.photoAdd]}
+                  onPress={handlePickPhotos}
+                >
+                  <ImagePlus size={22} color="#666" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={styles.submitButton}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Submit Request</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={resetForm}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.outlineButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loader: {
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 12,
+  },
+  returnCard: {
+    borderWidth: 1,
+    borderColor: "#F0F0F0",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  returnHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  returnNumber: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  returnItem: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 2,
+  },
+  rejection: {
+    fontSize: 13,
+    color: "#F44336",
+    marginTop: 4,
+  },
+  resolution: {
+    fontSize: 13,
+    color: "#4CAF50",
+    marginTop: 4,
+  },
+  withdrawText: {
+    fontSize: 13,
+    color: "#F44336",
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    borderColor: "#000",
+    backgroundColor: "#000",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  chipTextSelected: {
+    color: "#fff",
+  },
+  formItem: {
+    marginBottom: 8,
+  },
+  formItemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    marginBottom: 8,
+  },
+  formItemName: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#333",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 72,
+    textAlignVertical: "top",
+    marginBottom: 12,
+  },
+  photoRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+  photoImage: {
+    width: "100%",
+    height: "100%",
+  },
+  photoRemove: {
+    position: "absolute",
+    top: 2,
+    right: 2,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderRadius: 10,
+    padding: 2,
+  },
+  photoAdd: {
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#E0E0E0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  submitButton: {
+    backgroundColor: "#000",
+    borderRadius: 8,
+    padding: 14,
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderColor: "#000",
+    borderRadius: 8,
+    padding: 12,
+    alignItems: "center",
+  },
+  outlineButtonText: {
+    color: "#000",
+    fontWeight: "600",
+  },
+});
+
+export default OrderReturnsSection;
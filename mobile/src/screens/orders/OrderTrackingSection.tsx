@@ -0,0 +1,194 @@
+/**
+ * Order Tracking Section
+ * Courier, tracking number and the parcel's tracking timeline
+ */
+import React, { useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Linking,
+} from "react-native";
+import { Truck, ExternalLink } from "lucide-react-native";
+import { useGetOrderTrackingQuery } from "../../store/api";
+import type { IShipment, ShipmentStatus } from "@shared/types";
+
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+  created: "Handed to courier",
+  picked_up: "Picked up",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  failed: "Delivery attempt failed",
+  returned: "Returned to sender",
+};
+
+const formatDateTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface OrderTrackingSectionProps {
+  orderId: string;
+  shipment: IShipment;
+  // Called when the courier reports delivery of an order still shown as shipped
+  onDelivered?: () => void;
+}
+
+const OrderTrackingSection: React.FC<OrderTrackingSectionProps> = ({
+  orderId,
+  shipment: initialShipment,
+  onDelivered,
+}) => {
+  const { data } = useGetOrderTrackingQuery(orderId);
+  const shipment = data?.shipment || initialShipment;
+
+  useEffect(() => {
+    if (data?.orderStatus === "delivered") {
+      onDelivered?.();
+    }
+  }, [data?.orderStatus, onDelivered]);
+
+  const events = [...shipment.events].reverse();
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Tracking</Text>
+      <View style={styles.card}>
+        <View style={styles.header}>
+          <Truck size={20} color="#9C27B0" />
+          <View style={styles.headerText}>
+            <Text style={styles.status}>{STATUS_LABELS[shipment.status]}</Text>
+            <Text style={styles.carrier}>
+              {shipment.carrier} · {shipment.trackingNumber}
+            </Text>
+          </View>
+        </View>
+
+        {shipment.trackingUrl && (
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => Linking.openURL(shipment.trackingUrl as string)}
+          >
+            <Text style={styles.linkText}>Track on courier site</Text>
+            <ExternalLink size={14} color="#9C27B0" />
+          </TouchableOpacity>
+        )}
+
+        {events.map((event, index) => (
+          <View key={event._id || index} style={styles.event}>
+            <View
+              style={[
+                styles.dot,
+                index === 0 && {
+                  backgroundColor:
+                    event.status === "delivered" ? "#4CAF50" : "#9C27B0",
+                },
+              ]}
+            />
+            <View style={styles.eventContent}>
+              <Text style={[styles.eventStatus, index === 0 && styles.latest]}>
+                {STATUS_LABELS[event.status]}
+              </Text>
+              <Text style={styles.eventDescription}>
+                {event.description}
+                {event.location ? ` · ${event.location}` : ""}
+              </Text>
+              <Text style={styles.eventDate}>
+                {formatDateTime(event.occurredAt)}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  headerText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  status: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  carrier: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  linkText: {
+    fontSize: 13,
+    color: "#9C27B0",
+    fontWeight: "500",
+  },
+  event: {
+    flexDirection: "row",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F0F0",
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#DDD",
+    marginTop: 4,
+    marginRight: 12,
+  },
+  eventContent: {
+    flex: 1,
+  },
+  eventStatus: {
+    fontSize: 14,
+    color: "#333",
+  },
+  latest: {
+    fontWeight: "600",
+  },
+  eventDescription: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  eventDate: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+});
+
+export default OrderTrackingSection;
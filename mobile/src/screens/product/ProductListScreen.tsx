@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -7,39 +7,112 @@ import {
   ActivityIndicator,
   ListRenderItem,
   RefreshControl,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { SlidersHorizontal, X, Check } from "lucide-react-native";
 import {
   useGetProductsQuery,
   useGetCategoryProductsQuery,
   useGetCategoryQuery,
   useSearchProductsQuery,
+  useTrackSearchClickMutation,
 } from "../../store/api";
 import ProductCard from "../../components/ProductCard";
 import type { ProductListScreenProps } from "../../navigation/types";
-import type { IProduct } from "@shared/types";
+import type { IProduct, IFacetBucket } from "@shared/types";
+
+type FacetFilter = "category" | "size" | "color" | "price";
+
+interface Filters {
+  category: string[];
+  size: string[];
+  color: string[];
+  price: string[];
+  rating: string;
+  inStock: boolean;
+}
+
+const EMPTY_FILTERS: Filters = {
+  category: [],
+  size: [],
+  color: [],
+  price: [],
+  rating: "",
+  inStock: false,
+};
+
+// The API takes multi-select filters as comma-separated values
+const toQueryParams = (filters: Filters) => ({
+  ...(filters.category.length && { category: filters.category.join(",") }),
+  ...(filters.size.length && { size: filters.size.join(",") }),
+  ...(filters.color.length && { color: filters.color.join(",") }),
+  ...(filters.price.length && { price: filters.price.join(",") }),
+  ...(filters.rating && { rating: filters.rating }),
+  ...(filters.inStock && { inStock: true }),
+});
+
+const countFilters = (filters: Filters) =>
+  filters.category.length +
+  filters.size.length +
+  filters.color.length +
+  filters.price.length +
+  (filters.rating ? 1 : 0) +
+  (filters.inStock ? 1 : 0);
+
+interface FacetOptionProps {
+  option: IFacetBucket;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const FacetOption: React.FC<FacetOptionProps> = ({
+  option,
+  selected,
+  onPress,
+}) => {
+  const disabled = option.count === 0 && !selected;
+
+  return (
+    <TouchableOpacity
+      style={[styles.option, disabled && styles.optionDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+        {selected && <Check size={14} color="#fff" />}
+      </View>
+      <Text style={styles.optionLabel}>{option.label}</Text>
+      <Text style={styles.optionCount}>{option.count}</Text>
+    </TouchableOpacity>
+  );
+};
 
 const ProductListScreen: React.FC<ProductListScreenProps> = ({
   route,
   navigation,
 }) => {
   const { categorySlug, categoryName, search } = route.params || {};
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const params = toQueryParams(filters);
 
   // Conditionally use different queries based on params
   const categoryQuery = useGetCategoryProductsQuery(
-    { slug: categorySlug || "" },
+    { slug: categorySlug || "", ...params },
     { skip: !categorySlug },
   );
 
   const searchQuery = useSearchProductsQuery(
-    { query: search || "" },
+    { query: search || "", ...params },
     { skip: !search || !!categorySlug },
   );
 
-  const allProductsQuery = useGetProductsQuery(
-    {},
-    { skip: !!categorySlug || !!search },
-  );
+  const allProductsQuery = useGetProductsQuery(params, {
+    skip: !!categorySlug || !!search,
+  });
 
   // Get category name for header
   const { data: category } = useGetCategoryQuery(categorySlug || "", {
@@ -54,7 +127,38 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({
       : allProductsQuery;
 
   const { data, isLoading, isFetching, refetch } = activeQuery;
+  const [trackSearchClick] = useTrackSearchClickMutation();
   const products = data?.products || [];
+  const facets = data?.facets;
+  const activeFilterCount = countFilters(filters);
+
+  const toggleFilter = (key: FacetFilter, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter((v) => v !== value)
+        : [...prev[key], value],
+    }));
+  };
+
+  const renderFacet = (
+    title: string,
+    key: FacetFilter,
+    options: IFacetBucket[] = [],
+  ) =>
+    options.length > 0 && (
+      <View style={styles.facet}>
+        <Text style={styles.facetTitle}>{title}</Text>
+        {options.map((option) => (
+          <FacetOption
+            key={option.value}
+            option={option}
+            selected={filters[key].includes(option.value)}
+            onPress={() => toggleFilter(key, option.value)}
+          />
+        ))}
+      </View>
+    );
 
   // Update navigation title
   useEffect(() => {
@@ -68,7 +172,12 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({
   const renderItem: ListRenderItem<IProduct> = ({ item }) => (
     <ProductCard
       product={item}
-      onPress={() => navigation.navigate("ProductDetail", { slug: item.slug })}
+      onPress={() => {
+        if (search && data?.searchId) {
+          trackSearchClick({ searchId: data.searchId, productId: item._id });
+        }
+        navigation.navigate("ProductDetail", { slug: item.slug });
+      }}
     />
   );
 
@@ -82,6 +191,18 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({
 
   return (
     <SafeAreaView style={styles.container} edges={["left", "right"]}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity
+          style={styles.filterButton}
+          onPress={() => setShowFilters(true)}
+        >
+          <SlidersHorizontal size={16} color="#000" />
+          <Text style={styles.filterButtonText}>
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       <FlatList
         data={products}
         keyExtractor={(item) => item._id}
@@ -98,6 +219,89 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({
           </View>
         }
       />
+
+      {/* Filter sheet: counts refresh as filters change */}
+      <Modal
+        visible={showFilters}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowFilters(false)}
+      >
+        <View style={styles.sheetOverlay}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Filters</Text>
+              <TouchableOpacity onPress={() => setShowFilters(false)}>
+                <X size={22} color="#000" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.sheetContent}>
+              {facets && (
+                <View style={styles.facet}>
+                  <FacetOption
+                    option={{
+                      value: "inStock",
+                      label: "In stock only",
+                      count: facets.inStock,
+                    }}
+                    selected={filters.inStock}
+                    onPress={() =>
+                      setFilters((prev) => ({
+                        ...prev,
+                        inStock: !prev.inStock,
+                      }))
+                    }
+                  />
+                </View>
+              )}
+              {/* The route already narrows the list to one category */}
+              {!categorySlug &&
+                renderFacet("Category", "category", facets?.categories)}
+              {renderFacet("Size", "size", facets?.sizes)}
+              {renderFacet("Color", "color", facets?.colors)}
+              {renderFacet("Price", "price", facets?.price)}
+              {facets && (
+                <View style={styles.facet}>
+                  <Text style={styles.facetTitle}>Customer Rating</Text>
+                  {facets.ratings.map((band) => (
+                    <FacetOption
+                      key={band.value}
+                      option={band}
+                      selected={filters.rating === band.value}
+                      onPress={() =>
+                        setFilters((prev) => ({
+                          ...prev,
+                          rating: prev.rating === band.value ? "" : band.value,
+                        }))
+                      }
+                    />
+                  ))}
+                </View>
+              )}
+            </ScrollView>
+
+            <View style={styles.sheetFooter}>
+              <TouchableOpacity
+                style={styles.clearButton}
+                onPress={() => setFilters(EMPTY_FILTERS)}
+              >
+                <Text style={styles.clearButtonText}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.applyButton}
+                onPress={() => setShowFilters(false)}
+              >
+                {isFetching ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.applyButtonText}>Show results</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -129,6 +333,127 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#666",
   },
+  toolbar: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  filterButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#fff",
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#000",
+  },
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "85%",
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F0F0",
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#000",
+  },
+  sheetContent: {
+    padding: 16,
+  },
+  facet: {
+    marginBottom: 20,
+  },
+  facetTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#000",
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    borderColor: "#999",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 10,
+  },
+  checkboxSelected: {
+    backgroundColor: "#000",
+    borderColor: "#000",
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
+  },
+  optionCount: {
+    fontSize: 13,
+    color: "#999",
+  },
+  sheetFooter: {
+    flexDirection: "row",
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F0F0",
+  },
+  clearButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    alignItems: "center",
+  },
+  clearButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#000",
+  },
+  applyButton: {
+    flex: 2,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#000",
+    alignItems: "center",
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
 });
 
 export default ProductListScreen;
@@ -4,63 +4,159 @@ import {
   Text,
   TextInput,
   FlatList,
+  ScrollView,
+  Image,
+  Keyboard,
   StyleSheet,
   TouchableOpacity,
   ActivityIndicator,
   ListRenderItem,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Search, X } from "lucide-react-native";
+import { Search, X, Tag } from "lucide-react-native";
 import { productsAPI } from "../../api/products";
 import ProductCard from "../../components/ProductCard";
+import PriceDisplay from "../../components/PriceDisplay";
 import type { SearchScreenProps } from "../../navigation/types";
-import type { IProduct } from "@shared/types";
+import type { IProduct, ISearchSuggestions } from "@shared/types";
 
 const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
   const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<ISearchSuggestions | null>(
+    null,
+  );
+  // The query whose full results are showing; null while still typing
+  const [submitted, setSubmitted] = useState<string | null>(null);
   const [results, setResults] = useState<IProduct[]>([]);
+  const [searchId, setSearchId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const latestRef = useRef("");
 
-  const handleSearch = useCallback((text: string): void => {
+  const handleChange = useCallback((text: string): void => {
     setQuery(text);
+    setSubmitted(null);
+    latestRef.current = text;
 
     // Clear previous timeout
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
     }
 
-    if (text.length < 2) {
-      setResults([]);
+    if (text.trim().length < 2) {
+      setSuggestions(null);
       return;
     }
 
-    // Debounce API call by 300ms
+    // Debounce suggestions by 250ms
     timeoutRef.current = setTimeout(async () => {
       try {
-        setLoading(true);
-        const response = await productsAPI.searchProducts(text);
-        setResults(response.data.products || []);
+        const response = await productsAPI.suggest(text.trim());
+        // Drop answers for text the user has typed past
+        if (latestRef.current === text) setSuggestions(response.data);
       } catch (error) {
-        if (__DEV__) console.error("Search error:", error);
-      } finally {
-        setLoading(false);
+        if (__DEV__) console.error("Suggest error:", error);
       }
-    }, 300);
+    }, 250);
   }, []);
 
+  const runSearch = async (text: string): Promise<void> => {
+    if (text.trim().length === 0) return;
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    Keyboard.dismiss();
+    setQuery(text);
+    setSubmitted(text);
+
+    try {
+      setLoading(true);
+      const response = await productsAPI.searchProducts(text.trim());
+      setResults(response.data.products || []);
+      setSearchId(response.data.searchId || null);
+    } catch (error) {
+      if (__DEV__) console.error("Search error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const clearSearch = (): void => {
     setQuery("");
+    setSuggestions(null);
+    setSubmitted(null);
     setResults([]);
   };
 
   const renderItem: ListRenderItem<IProduct> = ({ item }) => (
     <ProductCard
       product={item}
-      onPress={() => navigation.navigate("ProductDetail", { slug: item.slug })}
+      onPress={() => {
+        if (searchId) {
+          productsAPI.trackSearchClick(searchId, item._id).catch(() => {});
+        }
+        navigation.navigate("ProductDetail", { slug: item.slug });
+      }}
     />
   );
 
+  const renderSuggestions = (data: ISearchSuggestions) => (
+    <ScrollView keyboardShouldPersistTaps="handled">
+      {data.queries.map((suggestion) => (
+        <TouchableOpacity
+          key={`query:${suggestion}`}
+          style={styles.suggestion}
+          onPress={() => runSearch(suggestion)}
+        >
+          <Search size={18} color="#999" />
+          <Text style={styles.suggestionText}>{suggestion}</Text>
+        </TouchableOpacity>
+      ))}
+      {data.categories.map((category) => (
+        <TouchableOpacity
+          key={`category:${category.slug}`}
+          style={styles.suggestion}
+          onPress={() =>
+            navigation.navigate("ProductList", {
+              categorySlug: category.slug,
+              categoryName: category.name,
+            })
+          }
+        >
+          <Tag size={18} color="#999" />
+          <Text style={styles.suggestionText}>{category.name}</Text>
+          <Text style={styles.suggestionHint}>Category</Text>
+        </TouchableOpacity>
+      ))}
+      {data.products.map((product) => (
+        <TouchableOpacity
+          key={`product:${product.slug}`}
+          style={styles.suggestion}
+          onPress={() =>
+            navigation.navigate("ProductDetail", { slug: product.slug })
+          }
+        >
+          {product.image ? (
+            <Image source={{ uri: product.image }} style={styles.thumbnail} />
+          ) : (
+            <View style={styles.thumbnail} />
+          )}
+          <Text style={styles.suggestionText} numberOfLines={1}>
+            {product.name}
+          </Text>
+          <PriceDisplay price={product.price} size="small" />
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const hasSuggestions =
+    !!suggestions &&
+    suggestions.queries.length +
+      suggestions.categories.length +
+      suggestions.products.length >
+      0;
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.searchBar}>
@@ -69,7 +165,9 @@ const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
           style={styles.input}
           placeholder="Search for products..."
           value={query}
-          onChangeText={handleSearch}
+          onChangeText={handleChange}
+          onSubmitEditing={() => runSearch(query)}
+          returnKeyType="search"
           autoFocus
         />
         {query.length > 0 && (
@@ -79,7 +177,19 @@ const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
         )}
       </View>
 
-      {loading ? (
+      {submitted === null ? (
+        query.trim().length >= 2 && hasSuggestions ? (
+          renderSuggestions(suggestions!)
+        ) : (
+          <View style={styles.centerContainer}>
+            <Text style={styles.emptyText}>
+              {query.trim().length >= 2
+                ? "Press search to see all results"
+                : "Start typing to search..."}
+            </Text>
+          </View>
+        )
+      ) : loading ? (
         <View style={styles.centerContainer}>
           <ActivityIndicator size="large" color="#000" />
         </View>
@@ -92,13 +202,11 @@ const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
           columnWrapperStyle={styles.columnWrapper}
           contentContainerStyle={styles.listContent}
         />
-      ) : query.length >= 2 ? (
-        <View style={styles.centerContainer}>
-          <Text style={styles.emptyText}>No products found for "{query}"</Text>
-        </View>
       ) : (
         <View style={styles.centerContainer}>
-          <Text style={styles.emptyText}>Start typing to search...</Text>
+          <Text style={styles.emptyText}>
+            No products found for "{submitted}"
+          </Text>
         </View>
       )}
     </SafeAreaView>
@@ -127,6 +235,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#333",
   },
+  suggestion: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 15,
+    color: "#333",
+  },
+  suggestionHint: {
+    fontSize: 13,
+    color: "#999",
+  },
+  thumbnail: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+    backgroundColor: "#f5f5f5",
+  },
   centerContainer: {
     flex: 1,
     justifyContent: "center",
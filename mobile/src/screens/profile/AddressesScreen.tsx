@@ -2,7 +2,7 @@
  * Addresses Screen
  * Manage user delivery addresses
  */
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   Text,
@@ -26,56 +26,66 @@ import {
   Home,
   Briefcase,
 } from "lucide-react-native";
+import { authAPI } from "../../api/auth";
 import type { AddressesScreenProps } from "../../navigation/types";
+import type { AddressType, IAddress } from "@shared/types";
 
-interface Address {
-  id: string;
+interface AddressForm {
   label: string;
-  fullName: string;
+  name: string;
   phone: string;
   street: string;
   city: string;
-  state: string;
+  district: string;
+  province: string;
   postalCode: string;
-  country: string;
-  isDefault: boolean;
-  type: "home" | "work" | "other";
+  type: AddressType;
 }
 
-// Mock data - replace with API call when backend endpoint is ready
-const mockAddresses: Address[] = [];
+const emptyForm: AddressForm = {
+  label: "",
+  name: "",
+  phone: "",
+  street: "",
+  city: "",
+  district: "",
+  province: "3",
+  postalCode: "",
+  type: "home",
+};
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || fallback;
 
 const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
-  const [addresses, setAddresses] = useState<Address[]>(mockAddresses);
+  const [addresses, setAddresses] = useState<IAddress[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
-  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [editingAddress, setEditingAddress] = useState<IAddress | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isFetching, setIsFetching] = useState(true);
 
   // Form state
-  const [formData, setFormData] = useState({
-    label: "",
-    fullName: "",
-    phone: "",
-    street: "",
-    city: "",
-    state: "",
-    postalCode: "",
-    country: "Nepal",
-    type: "home" as "home" | "work" | "other",
-  });
+  const [formData, setFormData] = useState<AddressForm>(emptyForm);
+
+  useEffect(() => {
+    const loadAddresses = async () => {
+      try {
+        const response = await authAPI.getAddresses();
+        setAddresses(response.data?.addresses || []);
+      } catch (error) {
+        Alert.alert(
+          "Error",
+          getErrorMessage(error, "Failed to load addresses"),
+        );
+      } finally {
+        setIsFetching(false);
+      }
+    };
+    loadAddresses();
+  }, []);
 
   const resetForm = () => {
-    setFormData({
-      label: "",
-      fullName: "",
-      phone: "",
-      street: "",
-      city: "",
-      state: "",
-      postalCode: "",
-      country: "Nepal",
-      type: "home",
-    });
+    setFormData(emptyForm);
     setEditingAddress(null);
   };
 
@@ -84,58 +94,60 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
     setModalVisible(true);
   };
 
-  const openEditModal = (address: Address) => {
+  const openEditModal = (address: IAddress) => {
     setEditingAddress(address);
     setFormData({
-      label: address.label,
-      fullName: address.fullName,
+      label: address.label || "",
+      name: address.name,
       phone: address.phone,
       street: address.street,
       city: address.city,
-      state: address.state,
-      postalCode: address.postalCode,
-      country: address.country,
+      district: address.district,
+      province: String(address.province),
+      postalCode: address.postalCode || "",
       type: address.type,
     });
     setModalVisible(true);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     // Validation
     if (
-      !formData.fullName ||
+      !formData.name ||
       !formData.phone ||
       !formData.street ||
-      !formData.city
+      !formData.city ||
+      !formData.district
     ) {
       Alert.alert("Error", "Please fill in all required fields");
       return;
     }
 
-    setIsLoading(true);
+    const province = parseInt(formData.province, 10);
+    if (!(province >= 1 && province <= 7)) {
+      Alert.alert("Error", "Province must be between 1 and 7");
+      return;
+    }
 
-    // Simulate API call
-    setTimeout(() => {
-      if (editingAddress) {
-        setAddresses((prev) =>
-          prev.map((addr) =>
-            addr.id === editingAddress.id
-              ? { ...addr, ...formData, id: addr.id, isDefault: addr.isDefault }
-              : addr,
-          ),
-        );
-      } else {
-        const newAddress: Address = {
-          id: Date.now().toString(),
-          ...formData,
-          isDefault: addresses.length === 0,
-        };
-        setAddresses((prev) => [...prev, newAddress]);
-      }
-      setIsLoading(false);
+    setIsLoading(true);
+    try {
+      const payload = {
+        ...formData,
+        province,
+        label: formData.label || undefined,
+        postalCode: formData.postalCode || undefined,
+      };
+      const response = editingAddress
+        ? await authAPI.updateAddress(editingAddress._id, payload)
+        : await authAPI.addAddress(payload);
+      setAddresses(response.data?.addresses || []);
       setModalVisible(false);
       resetForm();
-    }, 500);
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error, "Failed to save address"));
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleDelete = (addressId: string) => {
@@ -147,23 +159,32 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
         {
           text: "Delete",
           style: "destructive",
-          onPress: () => {
-            setAddresses((prev) =>
-              prev.filter((addr) => addr.id !== addressId),
-            );
+          onPress: async () => {
+            try {
+              const response = await authAPI.deleteAddress(addressId);
+              setAddresses(response.data?.addresses || []);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                getErrorMessage(error, "Failed to delete address"),
+              );
+            }
           },
         },
       ],
     );
   };
 
-  const setAsDefault = (addressId: string) => {
-    setAddresses((prev) =>
-      prev.map((addr) => ({
-        ...addr,
-        isDefault: addr.id === addressId,
-      })),
-    );
+  const setAsDefault = async (addressId: string) => {
+    try {
+      const response = await authAPI.setDefaultAddress(addressId);
+      setAddresses(response.data?.addresses || []);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        getErrorMessage(error, "Failed to update default address"),
+      );
+    }
   };
 
   const getTypeIcon = (type: string) => {
@@ -177,7 +198,7 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
     }
   };
 
-  const renderAddress = ({ item }: { item: Address }) => (
+  const renderAddress = ({ item }: { item: IAddress }) => (
     <View style={styles.addressCard}>
       <View style={styles.addressHeader}>
         <View style={styles.addressTypeContainer}>
@@ -201,27 +222,27 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.actionButton}
-            onPress={() => handleDelete(item.id)}
+            onPress={() => handleDelete(item._id)}
           >
             <Trash2 size={18} color="#F44336" />
           </TouchableOpacity>
         </View>
       </View>
 
-      <Text style={styles.addressName}>{item.fullName}</Text>
+      <Text style={styles.addressName}>{item.name}</Text>
       <Text style={styles.addressPhone}>{item.phone}</Text>
       <Text style={styles.addressText}>
         {item.street}
         {"\n"}
-        {item.city}, {item.state} {item.postalCode}
+        {item.city}, {item.district} {item.postalCode}
         {"\n"}
-        {item.country}
+        Province {item.province}, Nepal
       </Text>
 
       {!item.isDefault && (
         <TouchableOpacity
           style={styles.setDefaultButton}
-          onPress={() => setAsDefault(item.id)}
+          onPress={() => setAsDefault(item._id)}
         >
           <Check size={16} color="#4CAF50" />
           <Text style={styles.setDefaultText}>Set as Default</Text>
@@ -234,17 +255,21 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
     <SafeAreaView style={styles.container} edges={["left", "right"]}>
       <FlatList
         data={addresses}
-        keyExtractor={(item) => item.id}
+        keyExtractor={(item) => item._id}
         renderItem={renderAddress}
         contentContainerStyle={styles.listContent}
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <MapPin size={64} color="#ddd" />
-            <Text style={styles.emptyTitle}>No Addresses Saved</Text>
-            <Text style={styles.emptyText}>
-              Add your delivery addresses for faster checkout
-            </Text>
-          </View>
+          isFetching ? (
+            <ActivityIndicator style={{ marginTop: 40 }} color="#FF9999" />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <MapPin size={64} color="#ddd" />
+              <Text style={styles.emptyTitle}>No Addresses Saved</Text>
+              <Text style={styles.emptyText}>
+                Add your delivery addresses for faster checkout
+              </Text>
+            </View>
+          )
         }
       />
 
@@ -309,10 +334,8 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
             <TextInput
               style={styles.input}
               placeholder="Enter full name"
-              value={formData.fullName}
-              onChangeText={(text) =>
-                setFormData({ ...formData, fullName: text })
-              }
+              value={formData.name}
+              onChangeText={(text) => setFormData({ ...formData, name: text })}
             />
 
             <Text style={styles.inputLabel}>Phone Number *</Text>
@@ -344,33 +367,37 @@ const AddressesScreen: React.FC<AddressesScreenProps> = ({ navigation }) => {
               onChangeText={(text) => setFormData({ ...formData, city: text })}
             />
 
-            <Text style={styles.inputLabel}>State/Province</Text>
+            <Text style={styles.inputLabel}>District *</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter state or province"
-              value={formData.state}
-              onChangeText={(text) => setFormData({ ...formData, state: text })}
+              placeholder="Enter district"
+              value={formData.district}
+              onChangeText={(text) =>
+                setFormData({ ...formData, district: text })
+              }
             />
 
-            <Text style={styles.inputLabel}>Postal Code</Text>
+            <Text style={styles.inputLabel}>Province (1-7) *</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter postal code"
-              value={formData.postalCode}
+              placeholder="Enter province number"
+              value={formData.province}
               onChangeText={(text) =>
-                setFormData({ ...formData, postalCode: text })
+                setFormData({ ...formData, province: text })
               }
               keyboardType="number-pad"
+              maxLength={1}
             />
 
-            <Text style={styles.inputLabel}>Country</Text>
+            <Text style={styles.inputLabel}>Postal Code</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter country"
-              value={formData.country}
+              placeholder="Enter postal code"
+              value={formData.postalCode}
               onChangeText={(text) =>
-                setFormData({ ...formData, country: text })
+                setFormData({ ...formData, postalCode: text })
               }
+              keyboardType="number-pad"
             />
 
             <TouchableOpacity
@@ -44,6 +44,8 @@ const baseQuery = fetchBaseQuery({
     } catch (error) {
       console.error("Error retrieving token for RTK Query", error);
     }
+    // Tags logged searches with where they came from
+    headers.set("X-Client-Platform", Platform.OS);
     return headers;
   },
 });
@@ -14,6 +14,7 @@ export {
   useGetCategoryProductsQuery,
   useLazyGetProductsQuery,
   useLazySearchProductsQuery,
+  useTrackSearchClickMutation,
 } from "./productsApi";
 export type { ProductQueryParams } from "./productsApi";
 
@@ -21,6 +22,7 @@ export {
   ordersApi,
   useGetMyOrdersQuery,
   useGetOrderQuery,
+  useGetOrderTrackingQuery,
   useCreateOrderMutation,
   useCancelOrderMutation,
   useGetPaymentMethodsQuery,
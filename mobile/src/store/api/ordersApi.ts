@@ -9,6 +9,8 @@ import type {
   ICreateOrderData,
   IPaymentMethod,
   IPaymentInitiateResponse,
+  IShipment,
+  OrderStatus,
   PaymentMethod,
 } from "@shared/types";
 
@@ -18,6 +20,11 @@ interface OrderQueryParams {
   status?: string;
 }
 
+interface TrackingResponse {
+  shipment: IShipment | null;
+  orderStatus: OrderStatus;
+}
+
 interface OrdersResponse {
   orders: IOrder[];
   pagination?: {
@@ -58,6 +65,14 @@ export const ordersApi = baseApi.injectEndpoints({
       providesTags: (result, error, id) => [{ type: "Order", id }],
     }),
 
+    // Get courier tracking (refreshed from the courier when stale)
+    getOrderTracking: builder.query<TrackingResponse, string>({
+      query: (orderId) => `/orders/${orderId}/tracking`,
+      transformResponse: (response: IApiResponse<TrackingResponse>) =>
+        response.data,
+      providesTags: (result, error, id) => [{ type: "Order", id }],
+    }),
+
     // Create order
     createOrder: builder.mutation<{ order: IOrder }, ICreateOrderData>({
       query: (orderData) => ({
@@ -137,6 +152,7 @@ export const ordersApi = baseApi.injectEndpoints({
 export const {
   useGetMyOrdersQuery,
   useGetOrderQuery,
+  useGetOrderTrackingQuery,
   useCreateOrderMutation,
   useCancelOrderMutation,
   useGetPaymentMethodsQuery,
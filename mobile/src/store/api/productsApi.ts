@@ -19,6 +19,12 @@ export interface ProductQueryParams {
   minPrice?: number;
   maxPrice?: number;
   featured?: boolean;
+  // Multi-select filters are comma-separated, e.g. price: "0-1000,1000-2500"
+  size?: string;
+  color?: string;
+  price?: string;
+  rating?: string;
+  inStock?: boolean;
 }
 
 export const productsApi = baseApi.injectEndpoints({
@@ -76,6 +82,18 @@ export const productsApi = baseApi.injectEndpoints({
       providesTags: [{ type: "Products", id: "SEARCH" }],
     }),
 
+    // Record a product opened from search results
+    trackSearchClick: builder.mutation<
+      void,
+      { searchId: string; productId: string }
+    >({
+      query: ({ searchId, productId }) => ({
+        url: `/products/searches/${searchId}/click`,
+        method: "POST",
+        body: { productId },
+      }),
+    }),
+
     // Get all categories
     getCategories: builder.query<ICategory[], void>({
       query: () => "/categories",
@@ -133,4 +151,5 @@ export const {
   // Lazy queries for imperative fetching
   useLazyGetProductsQuery,
   useLazySearchProductsQuery,
+  useTrackSearchClickMutation,
 } = productsApi;
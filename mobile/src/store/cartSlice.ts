@@ -1,12 +1,15 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { cartAPI } from "../api/cart";
-import type { ICart, ICartItem } from "@shared/types";
+import type { ICart, ICartItem, ICartCoupon } from "@shared/types";
 
 // Types
 interface CartState {
   items: ICartItem[];
   subtotal: number;
   itemCount: number;
+  coupon: ICartCoupon | null;
+  couponError: string | null;
+  discount: number;
   loading: boolean;
   error: string | null;
 }
@@ -124,14 +127,59 @@ export const clearCart = createAsyncThunk<ICart, void, { rejectValue: string }>(
   },
 );
 
+export const applyCoupon = createAsyncThunk<
+  ICart,
+  string,
+  { rejectValue: string }
+>("cart/applyCoupon", async (code, { rejectWithValue }) => {
+  try {
+    const response = await cartAPI.applyCoupon(code);
+    return response.data.cart;
+  } catch (error: unknown) {
+    const err = error as ApiError;
+    return rejectWithValue(
+      err.response?.data?.message || "Failed to apply coupon",
+    );
+  }
+});
+
+export const removeCoupon = createAsyncThunk<
+  ICart,
+  void,
+  { rejectValue: string }
+>("cart/removeCoupon", async (_, { rejectWithValue }) => {
+  try {
+    const response = await cartAPI.removeCoupon();
+    return response.data.cart;
+  } catch (error: unknown) {
+    const err = error as ApiError;
+    return rejectWithValue(
+      err.response?.data?.message || "Failed to remove coupon",
+    );
+  }
+});
+
 const initialState: CartState = {
   items: [],
   subtotal: 0,
   itemCount: 0,
+  coupon: null,
+  couponError: null,
+  discount: 0,
   loading: false,
   error: null,
 };
 
+// Copy totals (and coupon preview) from a cart API response into state
+const setCartFromPayload = (state: CartState, cart: ICart) => {
+  state.items = cart.items || [];
+  state.subtotal = cart.subtotal || 0;
+  state.itemCount = cart.itemCount || 0;
+  state.coupon = cart.coupon || null;
+  state.couponError = cart.couponError || null;
+  state.discount = cart.discount || 0;
+};
+
 const cartSlice = createSlice({
   name: "cart",
   initialState,
@@ -150,9 +198,7 @@ const cartSlice = createSlice({
       })
       .addCase(fetchCart.fulfilled, (state, action: PayloadAction<ICart>) => {
         state.loading = false;
-        state.items = action.payload.items || [];
-        state.subtotal = action.payload.subtotal || 0;
-        state.itemCount = action.payload.itemCount || 0;
+        setCartFromPayload(state, action.payload);
       })
       .addCase(fetchCart.rejected, (state, action) => {
         state.loading = false;
@@ -165,9 +211,7 @@ const cartSlice = createSlice({
       })
       .addCase(addToCart.fulfilled, (state, action: PayloadAction<ICart>) => {
         state.loading = false;
-        state.items = action.payload.items || [];
-        state.subtotal = action.payload.subtotal || 0;
-        state.itemCount = action.payload.itemCount || 0;
+        setCartFromPayload(state, action.payload);
       })
       .addCase(addToCart.rejected, (state, action) => {
         state.loading = false;
@@ -177,18 +221,24 @@ const cartSlice = createSlice({
       .addCase(
         updateCartItem.fulfilled,
         (state, action: PayloadAction<ICart>) => {
-          state.items = action.payload.items || [];
-          state.subtotal = action.payload.subtotal || 0;
-          state.itemCount = action.payload.itemCount || 0;
+          setCartFromPayload(state, action.payload);
         },
       )
       // Remove from cart
       .addCase(
         removeFromCart.fulfilled,
         (state, action: PayloadAction<ICart>) => {
-          state.items = action.payload.items || [];
-          state.subtotal = action.payload.subtotal || 0;
-          state.itemCount = action.payload.itemCount || 0;
+          setCartFromPayload(state, action.payload);
+        },
+      )
+      // Coupon
+      .addCase(applyCoupon.fulfilled, (state, action: PayloadAction<ICart>) => {
+        setCartFromPayload(state, action.payload);
+      })
+      .addCase(
+        removeCoupon.fulfilled,
+        (state, action: PayloadAction<ICart>) => {
+          setCartFromPayload(state, action.payload);
         },
       )
       // Clear cart
@@ -0,0 +1,25 @@
+/**
+ * Variant Matrix Helpers
+ * Combinations and SKUs for generated product variants
+ */
+
+/**
+ * Short SKU part for a name or option value, e.g. "Red" -> "RED",
+ * "Medium Size (1-4 yrs)" -> "MS14Y", "500" -> "500"
+ */
+export const skuCode = (value: string): string => {
+  const words = value.toUpperCase().match(/[A-Z0-9]+/g) || [];
+  if (words.length === 1) {
+    return /^\d+$/.test(words[0]) ? words[0] : words[0].slice(0, 3);
+  }
+  return words.map((word) => (/^\d+$/.test(word) ? word : word[0])).join("");
+};
+
+/**
+ * Every combination taking one value from each list, in list order
+ */
+export const combinations = (lists: string[][]): string[][] =>
+  lists.reduce<string[][]>(
+    (rows, values) => rows.flatMap((row) => values.map((v) => [...row, v])),
+    [[]],
+  );
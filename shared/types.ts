@@ -7,7 +7,8 @@
 // Common Types
 // ============================================
 
-// Product size options - shared across frontend and backend
+// Standard sizes, offered by the default Size attribute; categories can
+// define other attributes and values
 export const PRODUCT_SIZES = [
   "Small Size (0-1 yrs)",
   "Medium Size (1-4 yrs)",
@@ -56,10 +57,32 @@ export interface IUser {
   role: UserRole;
   isActive: boolean;
   avatar?: IImage;
+  addresses?: IAddress[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type AddressType = "home" | "work" | "other";
+
+export interface IAddress {
+  _id: string;
+  label?: string;
+  type: AddressType;
+  name: string;
+  phone: string;
+  street: string;
+  city: string;
+  district: string;
+  province: number;
+  postalCode?: string;
+  landmark?: string;
+  isDefault: boolean;
+}
+
+export type IAddressInput = Omit<IAddress, "_id" | "isDefault"> & {
+  isDefault?: boolean;
+};
+
 export interface IAuthResponse {
   user: IUser;
   accessToken: string;
@@ -91,17 +114,42 @@ export interface ICategory {
   parent?: ICategory | string | null;
   order?: number;
   isActive?: boolean;
+  // Tax class for products that don't set their own; null inherits from the parent
+  taxClass?: TaxClass | null;
+  // Attribute ids its products' variants carry, on top of the parent's
+  attributes?: string[];
   subcategories?: ICategory[];
 }
 
+export type AttributeType = "select" | "text" | "number";
+
+// Admin-defined option variants are told apart by, e.g. Material or Capacity
+export interface IAttribute {
+  _id: string;
+  name: string;
+  type: AttributeType;
+  // Allowed values of a select attribute
+  values: string[];
+  unit?: string;
+}
+
 // ============================================
 // Product Types
 // ============================================
 
+export type TaxClass = "standard" | "zero_rated" | "exempt";
+
+export interface IVariantOption {
+  name: string;
+  value: string;
+}
+
 export interface IProductVariant {
   _id: string;
+  // Mirrors the Size and Color options, blank when the variant has none
   size: string;
   color: string;
+  options?: IVariantOption[];
   sku?: string;
   price: number;
   comparePrice?: number;
@@ -119,6 +167,9 @@ export interface IProduct {
   category: string | ICategory;
   images: IImage[];
   stock: number;
+  weight?: number;
+  // null falls back to the category's tax class
+  taxClass?: TaxClass | null;
   ratings?: {
     average: number;
     count: number;
@@ -131,8 +182,40 @@ export interface IProduct {
   updatedAt?: string;
 }
 
+export interface IFacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Filter counts for a product listing; each facet ignores its own selection
+export interface IProductFacets {
+  sizes: IFacetBucket[];
+  colors: IFacetBucket[];
+  categories: IFacetBucket[];
+  price: IFacetBucket[];
+  ratings: IFacetBucket[];
+  inStock: number;
+}
+
+// Search-as-you-type results from /products/suggest
+export interface ISearchSuggestions {
+  products: {
+    _id: string;
+    name: string;
+    slug: string;
+    price: number;
+    image: string | null;
+  }[];
+  categories: { _id: string; name: string; slug: string }[];
+  queries: string[];
+}
+
 export interface IProductsResponse {
   products: IProduct[];
+  facets?: IProductFacets;
+  // Set on the first page of a search; sent back when a result is opened
+  searchId?: string;
   pagination?: {
     page: number;
     limit: number;
@@ -163,12 +246,28 @@ export interface ICartItem {
   priceChanged?: boolean;
 }
 
+export interface ICartCoupon {
+  code: string;
+  description?: string;
+  type: "percentage" | "fixed";
+  value: number;
+  maxDiscount?: number;
+}
+
 export interface ICart {
   _id: string;
   user: string;
   items: ICartItem[];
   subtotal: number;
   itemCount: number;
+  // Coupon preview (re-validated by the server on every cart read)
+  coupon?: ICartCoupon | null;
+  couponError?: string;
+  discount?: number;
+  // VAT in the total; already inside the item prices when pricesIncludeTax
+  tax?: number;
+  pricesIncludeTax?: boolean;
+  total?: number;
 }
 
 export interface IAddToCartData {
@@ -193,9 +292,180 @@ export type OrderStatus =
   | "delivered"
   | "cancelled";
 
-export type PaymentStatus = "pending" | "paid" | "failed" | "refunded";
+export type PaymentStatus =
+  "pending" | "paid" | "failed" | "partially_refunded" | "refunded";
+
+export type RefundStatus = "pending" | "completed";
+
+export interface IRefund {
+  _id: string;
+  amount: number;
+  reason?: string;
+  status: RefundStatus;
+  gatewayRefundId?: string;
+  message?: string;
+  processedAt?: string;
+  createdAt: string;
+}
+
+export interface IRefundLedger {
+  refunds: IRefund[];
+  refundedAmount: number;
+  refundableAmount: number;
+}
+
+export type PaymentEventType =
+  "initiate" | "callback" | "verify" | "refund" | "collect";
+
+export type PaymentEventOutcome =
+  "success" | "pending" | "failed" | "rejected" | "error";
+
+export interface IPaymentEvent {
+  _id: string;
+  order?: string;
+  payment?: string;
+  gateway: PaymentMethod;
+  type: PaymentEventType;
+  outcome: PaymentEventOutcome;
+  transactionId?: string;
+  amount?: number;
+  message?: string;
+  payload?: unknown;
+  sourceIp?: string;
+  createdAt: string;
+}
+
+export type DiscrepancyType = "paid_unmatched" | "amount_mismatch";
+
+export interface IPaymentDiscrepancy {
+  _id: string;
+  payment: string;
+  order: Pick<IOrder, "_id" | "orderNumber" | "status" | "payment" | "pricing">;
+  gateway: PaymentMethod;
+  type: DiscrepancyType;
+  transactionId?: string;
+  expectedAmount: number;
+  gatewayAmount?: number;
+  details: string;
+  resolved: boolean;
+  resolvedAt?: string;
+  resolutionNote?: string;
+  createdAt: string;
+}
+
+// ==================== COD Settlement ====================
+export type RemittanceStatus = "pending" | "settled" | "discrepancy";
+
+export interface ICodCollection {
+  collectedBy: string;
+  collectedAt: string;
+  amount: number;
+}
+
+export interface ICodRemittance {
+  _id: string;
+  remittanceNumber: string;
+  collector: string;
+  payments: string[];
+  expectedAmount: number;
+  receivedAmount?: number;
+  status: RemittanceStatus;
+  reference?: string;
+  notes?: string;
+  receivedAt?: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+  createdAt: string;
+}
+
+export interface ICodCollectorSummary {
+  collector: string;
+  collections: number;
+  collectedAmount: number;
+  unbatchedAmount: number;
+  pendingAmount: number;
+  remittedAmount: number;
+  discrepancyAmount: number;
+}
 
-export type PaymentMethod = "cod" | "esewa" | "khalti";
+export interface ICodReportCollection {
+  _id: string;
+  order: Pick<IOrder, "_id" | "orderNumber"> | null;
+  amount: number;
+  codCollection: ICodCollection;
+  remittance: Pick<
+    ICodRemittance,
+    "_id" | "remittanceNumber" | "status" | "expectedAmount" | "receivedAmount"
+  > | null;
+}
+
+export interface ICodReport {
+  summary: ICodCollectorSummary[];
+  totals: Omit<ICodCollectorSummary, "collector">;
+  collections: ICodReportCollection[];
+}
+
+export type FinanceInterval = "day" | "month";
+
+export interface IFinanceRevenueRow {
+  gateway: PaymentMethod;
+  captures: number;
+  gross: number;
+  refunds: number;
+  fees: number;
+  net: number;
+}
+
+export interface IFinancePeriodRow extends IFinanceRevenueRow {
+  period: string;
+}
+
+export interface IFinanceReport {
+  interval: FinanceInterval;
+  periods: IFinancePeriodRow[];
+  byGateway: IFinanceRevenueRow[];
+  totals: Omit<IFinanceRevenueRow, "gateway">;
+  outstandingCod: {
+    uncollected: number;
+    uncollectedOrders: number;
+    withCollectors: number;
+  };
+}
+
+export interface IVatRegisterRow {
+  date: string;
+  invoiceNumber: string | null;
+  orderNumber: string;
+  buyer: string;
+  totalSales: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  taxableAmount: number;
+  vat: number;
+}
+
+export interface IVatRegister {
+  // Bikram Sambat fiscal year, e.g. "2082/83"
+  fiscalYear: string;
+  from: string;
+  to: string;
+  rows: IVatRegisterRow[];
+  totals: Omit<
+    IVatRegisterRow,
+    "date" | "invoiceNumber" | "orderNumber" | "buyer"
+  >;
+}
+
+export interface IReconciliationSummary {
+  checked: number;
+  completed: number;
+  failed: number;
+  stillPending: number;
+  errors: number;
+}
+
+export type PaymentMethod =
+  "cod" | "esewa" | "khalti" | "stripe" | "fonepay" | "mock";
 
 export interface IShippingAddress {
   fullName?: string;
@@ -211,7 +481,28 @@ export interface IShippingAddress {
   landmark?: string;
 }
 
+export interface IShippingOption {
+  ruleId: string | null;
+  zoneId: string | null;
+  zoneName: string;
+  name: string;
+  rateType: "flat" | "weight";
+  cost: number;
+  isFree: boolean;
+  estimatedDays: {
+    min: number;
+    max: number;
+  };
+}
+
+export interface IShippingQuote {
+  subtotal: number;
+  weight: number;
+  options: IShippingOption[];
+}
+
 export interface IOrderItem {
+  _id?: string;
   product: string | IProduct;
   name: string;
   price: number;
@@ -221,12 +512,62 @@ export interface IOrderItem {
   variant?: {
     size: string;
     color: string;
+    options?: IVariantOption[];
   };
   variantDetails?: {
     size: string;
     color: string;
   };
   subtotal?: number;
+  taxClass?: TaxClass;
+  taxRate?: number;
+  taxableAmount?: number;
+  tax?: number;
+}
+
+// ==================== Shipments ====================
+
+export type ShipmentStatus =
+  | "created"
+  | "picked_up"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "failed"
+  | "returned";
+
+export interface ITrackingEvent {
+  _id?: string;
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+  occurredAt: string;
+  source: "courier" | "admin";
+}
+
+export interface IShipment {
+  courier: string;
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl?: string;
+  status: ShipmentStatus;
+  events: ITrackingEvent[];
+  shippedAt: string;
+  deliveredAt?: string;
+  lastSyncedAt?: string;
+}
+
+export interface ICourier {
+  id: string;
+  name: string;
+  reportsTracking: boolean;
+}
+
+// Tax invoice, numbered per fiscal year the first time it is downloaded
+export interface IInvoice {
+  number: string;
+  fiscalYear: string;
+  issuedAt: string;
 }
 
 export interface IOrder {
@@ -235,6 +576,14 @@ export interface IOrder {
   user: string | IUser;
   items: IOrderItem[];
   shippingAddress: IShippingAddress;
+  shippingMethod?: {
+    zoneName: string;
+    name: string;
+    estimatedDays: {
+      min: number;
+      max: number;
+    };
+  };
   // Flat fields (for mobile compatibility)
   paymentMethod: PaymentMethod;
   paymentStatus: PaymentStatus;
@@ -249,15 +598,26 @@ export interface IOrder {
     status: PaymentStatus;
     transactionId?: string;
     paidAt?: string;
+    refundedAmount?: number;
+    // After an admin edit to a paid order: positive to collect, negative owed back
+    balanceDue?: number;
   };
   pricing?: {
     subtotal: number;
     shippingCost: number;
     discount: number;
+    couponCode?: string | null;
     tax: number;
+    pricesIncludeTax?: boolean;
     total: number;
   };
   discount?: number;
+  couponCode?: string | null;
+  reservedUntil?: string | null;
+  deliveredAt?: string;
+  replacementFor?: string | null;
+  shipment?: IShipment | null;
+  invoice?: IInvoice | null;
   note?: string;
   notes?: string;
   customerNotes?: string;
@@ -266,21 +626,147 @@ export interface IOrder {
     note?: string;
     timestamp?: string;
     changedAt?: string;
+    // Set on admin edits
+    changes?: {
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    };
   }[];
   createdAt: string;
   updatedAt: string;
 }
 
 export interface ICreateOrderData {
-  shippingAddress: Partial<IShippingAddress> & {
+  shippingAddress?: Partial<IShippingAddress> & {
     phone: string;
     street: string;
     city: string;
   };
+  addressId?: string | null;
   paymentMethod: PaymentMethod;
+  couponCode?: string | null;
+  shippingRuleId?: string | null;
   note?: string;
 }
 
+/** A cart line that was short on stock at checkout (409 response `errors`) */
+export interface IStockShortage {
+  itemId: string;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  variant: { size: string; color: string } | null;
+  requested: number;
+  available: number;
+}
+
+// ==================== Returns ====================
+
+export type ReturnRequestType = "return" | "exchange";
+
+export type ReturnReason =
+  | "wrong_item"
+  | "wrong_size"
+  | "damaged"
+  | "defective"
+  | "not_as_described"
+  | "changed_mind"
+  | "other";
+
+export type ReturnStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "pickup_scheduled"
+  | "received"
+  | "inspected"
+  | "completed"
+  | "cancelled";
+
+export interface IReturnItem {
+  _id: string;
+  orderItem: string;
+  product: string;
+  variantId?: string | null;
+  name: string;
+  image?: string;
+  variant?: { size?: string; color?: string };
+  price: number;
+  quantity: number;
+  exchangeVariantId?: string | null;
+  exchangeVariant?: { size?: string; color?: string };
+  acceptedQuantity?: number;
+  restocked: boolean;
+}
+
+export interface IReturnRequest {
+  _id: string;
+  returnNumber: string;
+  order: string | Pick<IOrder, "_id" | "orderNumber">;
+  user: string | IUser;
+  type: ReturnRequestType;
+  reason: ReturnReason;
+  reasonDetails?: string;
+  photos: { url: string; publicId?: string }[];
+  items: IReturnItem[];
+  status: ReturnStatus;
+  statusHistory: {
+    status: ReturnStatus;
+    changedAt: string;
+    note?: string;
+  }[];
+  pickup?: {
+    scheduledFor?: string;
+    courier?: string;
+    trackingNumber?: string;
+  };
+  rejectionReason?: string;
+  inspectionNote?: string;
+  resolution?: {
+    type: "refund" | "replacement";
+    refundAmount?: number;
+    refund?: string | null;
+    replacementOrder?:
+      string | Pick<IOrder, "_id" | "orderNumber" | "status"> | null;
+  };
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IReturnEligibility {
+  eligible: boolean;
+  reason?: string;
+  windowDays: number;
+  deadline: string | null;
+  items: {
+    itemId: string;
+    product: string;
+    variantId: string | null;
+    name: string;
+    image?: string;
+    variant?: { size?: string; color?: string };
+    price: number;
+    quantity: number;
+    returnable: number;
+    exchangeOptions: {
+      variantId: string;
+      size: string;
+      color: string;
+      stock: number;
+    }[];
+  }[];
+}
+
+export interface ICreateReturnData {
+  orderId: string;
+  type: ReturnRequestType;
+  reason: ReturnReason;
+  reasonDetails?: string;
+  photos?: { url: string; publicId?: string }[];
+  items: { itemId: string; quantity: number; exchangeVariantId?: string }[];
+}
+
 // ============================================
 // Payment Types
 // ============================================
@@ -299,6 +785,23 @@ export interface IPaymentInitiateResponse {
   data?: Record<string, unknown>;
 }
 
+// Polled while the customer pays by QR
+export interface IPaymentStatus {
+  orderId: string;
+  orderNumber: string;
+  orderStatus: OrderStatus;
+  paymentStatus: PaymentStatus;
+  gateway?: PaymentMethod;
+  gatewayStatus?:
+    | "initiated"
+    | "pending"
+    | "completed"
+    | "failed"
+    | "partially_refunded"
+    | "refunded"
+    | "cancelled";
+}
+
 export interface IPaymentVerifyData {
   orderId: string;
   gateway: PaymentMethod;
@@ -325,6 +828,36 @@ export interface IAnalytics {
   labels: string[];
 }
 
+export interface ISearchReportRow {
+  query: string;
+  searches: number;
+  zeroResultSearches: number;
+  averageResults: number;
+  // Share of searches with results that led to a product being opened
+  clickThroughRate: number;
+  lastSearchedAt: string;
+}
+
+export interface ISearchReport {
+  totals: {
+    searches: number;
+    uniqueQueries: number;
+    zeroResultSearches: number;
+    clickThroughRate: number;
+  };
+  topQueries: ISearchReportRow[];
+  zeroResultQueries: ISearchReportRow[];
+  lowClickThroughQueries: ISearchReportRow[];
+}
+
+export interface ISearchSynonym {
+  _id: string;
+  term: string;
+  synonyms: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================
 // Review Types
 // ============================================